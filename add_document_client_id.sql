@@ -0,0 +1,6 @@
+-- Add client id column for offline uploads
+-- Captures made offline get an id in the app; replaying the upload returns the same document
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS client_id VARCHAR(64);
+
+-- At most one document per offline capture
+CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_user_client_id ON documents(user_id, client_id) WHERE client_id IS NOT NULL;
@@ -0,0 +1,7 @@
+-- Add content hash columns for duplicate detection
+-- SHA-256 (hex) of the uploaded file, used to find exact re-uploads of the same report
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+ALTER TABLE document_versions ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+
+-- Exact duplicate lookups are always scoped to one user
+CREATE INDEX IF NOT EXISTS idx_documents_user_content_hash ON documents(user_id, content_hash);
@@ -0,0 +1,6 @@
+-- Add soft delete column for the document trash bin
+-- Trashed documents are hidden everywhere except the trash and purged after the retention period
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+-- Trash listings and the scheduled purge only look at trashed rows
+CREATE INDEX IF NOT EXISTS idx_documents_deleted_at ON documents(deleted_at) WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,3 @@
+-- Add page count to documents
+-- Counted when the document is processed (or on first preview); 1 for images
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS page_count INTEGER;
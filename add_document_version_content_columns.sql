@@ -0,0 +1,8 @@
+-- Add file details and extracted text to document_versions
+-- Each version keeps its own OCR text so two versions can be compared
+ALTER TABLE document_versions ADD COLUMN IF NOT EXISTS file_type TEXT; -- 'PDF' | 'IMAGE' | 'DOCX'
+ALTER TABLE document_versions ADD COLUMN IF NOT EXISTS file_size INTEGER; -- Size in bytes
+ALTER TABLE document_versions ADD COLUMN IF NOT EXISTS extracted_text TEXT;
+
+-- Versions are listed newest first per document
+CREATE INDEX IF NOT EXISTS idx_document_versions_document_id ON document_versions(document_id, created_at DESC);
@@ -0,0 +1,11 @@
+-- Add canonical analyte and unit columns to lab_observations
+-- The printed value, unit and range are kept as-is; these hold the same result mapped
+-- through the analyte dictionary so reports from different labs can be compared
+ALTER TABLE lab_observations ADD COLUMN IF NOT EXISTS analyte_code VARCHAR(20); -- LOINC-style code, null if not recognised
+ALTER TABLE lab_observations ADD COLUMN IF NOT EXISTS normalized_value DOUBLE PRECISION; -- Value in the canonical unit
+ALTER TABLE lab_observations ADD COLUMN IF NOT EXISTS normalized_unit TEXT; -- e.g. 'mg/dL'
+ALTER TABLE lab_observations ADD COLUMN IF NOT EXISTS normalized_reference_low DOUBLE PRECISION;
+ALTER TABLE lab_observations ADD COLUMN IF NOT EXISTS normalized_reference_high DOUBLE PRECISION;
+
+-- Trends group a user's results by analyte code
+CREATE INDEX IF NOT EXISTS idx_lab_observations_analyte_code ON lab_observations(user_id, analyte_code);
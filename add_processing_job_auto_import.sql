@@ -0,0 +1,4 @@
+-- Add auto import flag to document processing jobs
+-- Set for ZIP entries and emailed attachments, which nobody reviewed before they were imported:
+-- their metadata is extracted in the background and non-medical files are moved to the trash
+ALTER TABLE document_processing_jobs ADD COLUMN IF NOT EXISTS auto_import BOOLEAN NOT NULL DEFAULT FALSE;
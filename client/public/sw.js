@@ -1,6 +1,6 @@
 /**
- * Service Worker for Push Notifications
- * Handles push events and displays browser notifications
+ * Service Worker for Push Notifications and Offline Sync
+ * Handles push events, displays browser notifications and uploads captures queued while offline
  */
 
 const CACHE_NAME = "arogya-vault-v1";
@@ -239,6 +239,112 @@ self.addEventListener("notificationclose", (event) => {
   // Could send analytics here if needed
 });
 
+// Offline queue - captures and edits stored in IndexedDB by client/src/lib/offlineQueue.ts
+// Keep these names and the item shape in sync with that file
+const QUEUE_DB_NAME = "arogya-vault-offline";
+const QUEUE_STORE_NAME = "queue";
+const QUEUE_SYNC_TAG = "document-queue";
+const QUEUE_SYNCED_MESSAGE = "OFFLINE_QUEUE_SYNCED";
+
+function openQueue() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(QUEUE_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(QUEUE_STORE_NAME)) {
+        request.result.createObjectStore(QUEUE_STORE_NAME, { keyPath: "clientId" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function queueRequest(db, mode, run) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(QUEUE_STORE_NAME, mode);
+    const request = run(transaction.objectStore(QUEUE_STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function sendQueuedItem(item) {
+  if (item.kind === "edit") {
+    return fetch(`/api/documents/${item.documentId}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...item.data,
+        base: item.base,
+        baseUpdatedAt: item.baseUpdatedAt,
+        editedAt: item.editedAt,
+      }),
+      credentials: "include",
+    });
+  }
+
+  const formData = new FormData();
+  formData.append("file", item.file, item.fileName);
+  formData.append("clientId", item.clientId);
+  formData.append("title", item.data.title);
+  formData.append("type", item.data.type);
+  if (item.data.provider) formData.append("provider", item.data.provider);
+  if (item.data.date) formData.append("date", item.data.date);
+  if (item.data.tags) formData.append("tags", JSON.stringify(item.data.tags));
+  return fetch("/api/documents", { method: "POST", body: formData, credentials: "include" });
+}
+
+async function replayQueue() {
+  const db = await openQueue();
+  try {
+    const items = (await queueRequest(db, "readonly", (store) => store.getAll()))
+      .filter((item) => !item.failed)
+      .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+    let synced = 0;
+
+    for (const item of items) {
+      // A network failure rejects here, so Background Sync retries the whole queue later
+      const response = await sendQueuedItem(item);
+
+      if (response.ok) {
+        await queueRequest(db, "readwrite", (store) => store.delete(item.clientId));
+        synced++;
+        continue;
+      }
+
+      const body = await response.json().catch(() => null);
+      const retryable = response.status >= 500 || [401, 408, 429].includes(response.status);
+      await queueRequest(db, "readwrite", (store) =>
+        store.put({
+          ...item,
+          attempts: item.attempts + 1,
+          lastError: (body && body.message) || response.statusText,
+          failed: !retryable,
+        })
+      );
+      if (retryable) {
+        throw new Error(`Server error ${response.status} - will retry`);
+      }
+    }
+
+    console.log(`[Service Worker] Offline queue replayed: ${synced} item(s) synced`);
+    return synced;
+  } finally {
+    db.close();
+    // Let open pages refresh the vault and their queue counts
+    const clientList = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+    clientList.forEach((client) => client.postMessage({ type: QUEUE_SYNCED_MESSAGE }));
+  }
+}
+
+// Background Sync event - fires when connectivity returns after the app queued something
+self.addEventListener("sync", (event) => {
+  if (event.tag === QUEUE_SYNC_TAG) {
+    console.log("[Service Worker] Replaying offline queue");
+    event.waitUntil(replayQueue());
+  }
+});
+
 // Message event - handle messages from the main app
 self.addEventListener("message", (event) => {
   console.log("[Service Worker] Message received:", event.data);
@@ -7,12 +7,16 @@ import { LanguageProvider } from "@/i18n/LanguageContext";
 import '@/i18n/i18n'; // Initialize i18next
 import { featureFlags } from "@/config/featureFlags";
 import '@/utils/testServiceWorker'; // Load test utilities for console debugging
+import { useOfflineQueueSync } from "@/hooks/useOfflineQueue";
 import AuthPage from "@/pages/auth";
 import OTPPage from "@/pages/otp";
 import OTPEmailPage from "@/pages/otp-email";
 import OnboardingPage from "@/pages/onboarding";
 import HomePage from "@/pages/home";
 import VaultPage from "@/pages/vault";
+import TrashPage from "@/pages/trash";
+import InboxPage from "@/pages/inbox";
+import CollectionPage from "@/pages/collection";
 import ConsentPage from "@/pages/consent";
 import EmergencyPage from "@/pages/emergency";
 import EmergencyViewPage from "@/pages/emergency-view";
@@ -27,6 +31,7 @@ import TermsConditionsPage from "@/pages/terms-conditions";
 import PrivacyPolicyPage from "@/pages/privacy-policy";
 import AIInsightsPage from "@/pages/ai-insights";
 import MedicationsPage from "@/pages/medications";
+import ExpensesPage from "@/pages/expenses";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -46,6 +51,9 @@ function Router() {
       {featureFlags.screens.onboarding && <Route path="/onboarding" component={OnboardingPage} />}
       {featureFlags.screens.home && <Route path="/home" component={HomePage} />}
       {featureFlags.screens.vault && <Route path="/vault" component={VaultPage} />}
+      {featureFlags.screens.vault && <Route path="/vault/trash" component={TrashPage} />}
+      {featureFlags.screens.vault && <Route path="/vault/inbox" component={InboxPage} />}
+      {featureFlags.screens.vault && <Route path="/collections/:id" component={CollectionPage} />}
       {featureFlags.screens.consent && <Route path="/consent" component={ConsentPage} />}
       <Route path="/emergency" component={EmergencyPage} />
       <Route path="/emergency/view/:token" component={EmergencyViewPage} />
@@ -67,6 +75,9 @@ function Router() {
       {/* Medications Page */}
       <Route path="/medications" component={MedicationsPage} />
       
+      {/* Medical Expenses Page */}
+      <Route path="/expenses" component={ExpensesPage} />
+      
       {/* Redirect to auth if not enabled */}
       {!featureFlags.screens.auth && <Route path="/" component={NotFound} />}
       
@@ -76,12 +87,19 @@ function Router() {
   );
 }
 
+// Uploads captures queued while offline once the connection returns, on any screen
+function OfflineQueueSync() {
+  useOfflineQueueSync();
+  return null;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <LanguageProvider>
         <TooltipProvider>
           <Toaster />
+          <OfflineQueueSync />
           <Router />
         </TooltipProvider>
       </LanguageProvider>
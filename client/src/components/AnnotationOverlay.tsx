@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react';
+import type { AnnotationColor, AnnotationRegion } from '@/lib/api/documents';
+
+export type AnnotationMark = {
+  id: string;
+  page: number | null;
+  region: AnnotationRegion | null;
+  color: AnnotationColor;
+  note: string | null;
+};
+
+type AnnotationOverlayProps = {
+  // Highlights on the page being shown
+  annotations: AnnotationMark[];
+  // Natural size of the page image; the overlay lines up with it inside an object-contain box
+  imageSize: { width: number; height: number } | null;
+  drawing?: boolean;
+  activeId?: string | null;
+  onDrawRegion?: (region: AnnotationRegion) => void;
+  onSelect?: (id: string) => void;
+};
+
+const COLOR_CLASSES: Record<AnnotationColor, string> = {
+  yellow: 'border-yellow-400 bg-yellow-300/30',
+  red: 'border-red-500 bg-red-400/25',
+  green: 'border-green-500 bg-green-400/25',
+  blue: 'border-blue-500 bg-blue-400/25'
+};
+
+// Drags smaller than this (as a fraction of the page) are treated as taps
+const MIN_REGION_SIZE = 0.01;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+export function AnnotationOverlay({
+  annotations,
+  imageSize,
+  drawing = false,
+  activeId,
+  onDrawRegion,
+  onSelect
+}: AnnotationOverlayProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+  const [box, setBox] = useState({ width: 0, height: 0 });
+  const [start, setStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<AnnotationRegion | null>(null);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setBox({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Where the image actually renders within the box (object-contain letterboxing)
+  const scale = imageSize && imageSize.width > 0 && imageSize.height > 0
+    ? Math.min(box.width / imageSize.width, box.height / imageSize.height)
+    : 0;
+  const pageWidth = imageSize ? imageSize.width * scale : 0;
+  const pageHeight = imageSize ? imageSize.height * scale : 0;
+
+  const toPoint = (e: PointerEvent<HTMLDivElement>) => {
+    // Measured on screen so a zoomed (scaled) preview still maps to page fractions
+    const rect = pageRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height)
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (!drawing) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toPoint(e);
+    setStart(point);
+    setDraft({ ...point, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!drawing || !start) return;
+    e.stopPropagation();
+    const point = toPoint(e);
+    setDraft({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y)
+    });
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    if (!drawing || !start) return;
+    e.stopPropagation();
+    if (draft && draft.width >= MIN_REGION_SIZE && draft.height >= MIN_REGION_SIZE) {
+      onDrawRegion?.(draft);
+    }
+    setStart(null);
+    setDraft(null);
+  };
+
+  const highlights = annotations.filter((annotation) => annotation.region);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`absolute inset-0 flex items-center justify-center ${drawing ? '' : 'pointer-events-none'}`}
+      data-testid="annotation-overlay"
+    >
+      {scale > 0 && (
+        <div
+          ref={pageRef}
+          className={`relative ${drawing ? 'cursor-crosshair touch-none' : ''}`}
+          style={{ width: pageWidth, height: pageHeight }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => {
+            setStart(null);
+            setDraft(null);
+          }}
+        >
+          {highlights.map((annotation) => {
+            const region = annotation.region!;
+            return (
+              <button
+                key={annotation.id}
+                type="button"
+                title={annotation.note ?? undefined}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelect?.(annotation.id);
+                }}
+                className={`absolute border-2 rounded-sm ${COLOR_CLASSES[annotation.color] ?? COLOR_CLASSES.yellow} ${
+                  drawing ? 'pointer-events-none' : 'pointer-events-auto'
+                } ${annotation.id === activeId ? 'ring-2 ring-offset-1 ring-blue-600' : ''}`}
+                style={{
+                  left: `${region.x * 100}%`,
+                  top: `${region.y * 100}%`,
+                  width: `${region.width * 100}%`,
+                  height: `${region.height * 100}%`
+                }}
+                aria-label={annotation.note ?? undefined}
+                data-testid={`annotation-highlight-${annotation.id}`}
+              >
+                {annotation.id === activeId && annotation.note && (
+                  <span className="absolute left-0 top-full mt-1 max-w-[240px] px-2 py-1 bg-gray-900 text-white text-xs text-left rounded shadow-lg whitespace-pre-wrap z-10">
+                    {annotation.note}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+
+          {draft && (
+            <div
+              className="absolute border-2 border-dashed border-yellow-500 bg-yellow-300/20 pointer-events-none"
+              style={{
+                left: `${draft.x * 100}%`,
+                top: `${draft.y * 100}%`,
+                width: `${draft.width * 100}%`,
+                height: `${draft.height * 100}%`
+              }}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
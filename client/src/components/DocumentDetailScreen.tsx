@@ -1,6 +1,10 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Share2, MoreVertical, FileText, Image as ImageIcon, Scan, ChevronDown, ChevronUp, Volume2, ExternalLink, CheckCircle2, AlertCircle, AlertTriangle, Clock, Edit2, Users, Trash2 } from 'lucide-react';
+import { ArrowLeft, Share2, MoreVertical, FileText, Image as ImageIcon, Scan, ChevronDown, ChevronUp, Volume2, ExternalLink, CheckCircle2, AlertCircle, AlertTriangle, Clock, Edit2, Users, Trash2, Loader2, RotateCw, Upload, Download, History, GitCompare, X, FolderOpen, Plus, Highlighter, StickyNote, Check, EyeOff } from 'lucide-react';
+import { LabResultsCard, type LabResultItem, type LabResultInput } from './LabResultsCard';
+import { DocumentPageViewer, type DocumentPage } from './DocumentPageViewer';
+import { AnnotationOverlay, type AnnotationMark } from './AnnotationOverlay';
+import type { AnnotationRegion } from '@/lib/api/documents';
 
 type DocumentType = 'Lab' | 'Prescription' | 'Imaging' | 'Bill';
 type FileType = 'PDF' | 'JPG' | 'PNG' | 'DICOM' | 'IMAGE';
@@ -25,9 +29,26 @@ type AIInsight = {
 };
 
 type VersionHistoryItem = {
+  id?: string;
   version: string;
   timestamp: string;
   note: string;
+  isCurrent?: boolean;
+  hasText?: boolean;
+};
+
+type VersionDiffLine = {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+};
+
+type VersionDiff = {
+  fromVersion: string;
+  toVersion: string;
+  lines: VersionDiffLine[];
+  added: number;
+  removed: number;
+  truncated: boolean;
 };
 
 type AccessItem = {
@@ -36,6 +57,31 @@ type AccessItem = {
   expiry: string;
 };
 
+type ProcessingState = {
+  status: 'queued' | 'running' | 'failed' | 'rejected' | 'done';
+  stage?: string | null;
+  error?: string | null;
+};
+
+type ImagingStudy = {
+  modalities: Array<{ code: string; label: string }>;
+  bodyParts: string[];
+  imageCount: number;
+  series: Array<{
+    seriesInstanceUid: string;
+    description?: string | null;
+    modality?: string | null;
+    imageCount: number;
+    firstPage: number;
+  }>;
+};
+
+type CollectionOption = {
+  id: string;
+  name: string;
+  inCollection: boolean;
+};
+
 type DocumentDetailScreenProps = {
   fileType?: FileType;
   metadata?: DocumentMetadata;
@@ -44,13 +90,43 @@ type DocumentDetailScreenProps = {
   accessList?: AccessItem[];
   language?: 'en' | 'hi';
   fileUrl?: string;
+  pages?: DocumentPage[] | null; // Server-rendered page images (PDFs, DICOM images); shown in a swipeable viewer
+  imagingStudy?: ImagingStudy | null;
+  collections?: CollectionOption[] | null; // The user's collections, flagged when this document is in them
+  onToggleCollection?: (collectionId: string) => void;
+  annotations?: AnnotationMark[] | null; // The user's notes and page highlights on this document
+  isSavingAnnotation?: boolean;
+  onAddNote?: (note: string) => void;
+  onAddHighlight?: (page: number, region: AnnotationRegion) => void;
+  redaction?: { outdated: boolean } | null; // Redacted copy that shares serve instead of the original
+  onRedact?: () => void; // Only PDFs and images can be redacted
+  onUpdateAnnotation?: (id: string, note: string) => void;
+  onDeleteAnnotation?: (id: string) => void;
+  processing?: ProcessingState | null;
+  isRetryingProcessing?: boolean;
+  onRetryProcessing?: () => void;
+  labResults?: LabResultItem[] | null;
+  isLabResultsLoading?: boolean;
+  isSavingLabResult?: boolean;
+  isExtractingLabResults?: boolean;
+  onAddLabResult?: (data: LabResultInput) => void;
+  onUpdateLabResult?: (id: string, data: LabResultInput) => void;
+  onDeleteLabResult?: (id: string) => void;
+  onExtractLabResults?: () => void;
   onBack?: () => void;
   onShare?: () => void;
-  onViewFullscreen?: () => void;
+  onViewFullscreen?: (pageIndex?: number) => void;
   onViewDICOM?: () => void;
   onViewFullAnalysis?: () => void;
   onManageAccess?: () => void;
-  onVersionClick?: (version: string) => void;
+  versionDiff?: VersionDiff | null;
+  isVersionDiffLoading?: boolean;
+  isUploadingVersion?: boolean;
+  onUploadVersion?: (file: File) => void;
+  onDownloadVersion?: (versionId: string) => void;
+  onRestoreVersion?: (versionId: string) => void;
+  onCompareVersion?: (versionId: string) => void;
+  onCloseVersionDiff?: () => void;
   onEditMetadata?: () => void;
   onMoreOptions?: () => void;
   onDelete?: () => void;
@@ -104,7 +180,14 @@ const translations = {
     back: 'Back',
     share: 'Share',
     viewFullscreen: 'View Fullscreen',
+    page: 'Page',
+    of: 'of',
+    previousPage: 'Previous page',
+    nextPage: 'Next page',
     viewInViewer: 'View in DICOM Viewer',
+    imagingStudy: 'Imaging Study',
+    images: 'images',
+    series: 'Series',
     documentTitle: 'Document Title',
     type: 'Type',
     provider: 'Provider',
@@ -124,15 +207,53 @@ const translations = {
     versionHistory: 'Version History',
     showHistory: 'Show Version History',
     hideHistory: 'Hide Version History',
+    current: 'Current',
+    uploadNewVersion: 'Upload New Version',
+    uploadingVersion: 'Uploading...',
+    download: 'Download',
+    restore: 'Restore',
+    compare: 'Compare',
+    compareTitle: 'Changes from {from} to {to}',
+    linesAdded: 'added',
+    linesRemoved: 'removed',
+    noTextChanges: 'No text changes between these versions.',
+    diffTruncated: 'Only the first part of the text was compared.',
     consentAccess: 'Current Access',
     manageAccess: 'Manage Access',
-    edit: 'Edit'
+    edit: 'Edit',
+    processingQueued: 'Waiting to read this document...',
+    processingRunning: 'Reading document and generating insights...',
+    processingFailed: 'We could not process this document',
+    retryProcessing: 'Retry',
+    collections: 'Collections',
+    noCollections: 'Create a collection in the vault to group related records.',
+    notesAndHighlights: 'Notes & Highlights',
+    noNotes: 'Add a note, or highlight part of a page to remember what matters.',
+    addNotePlaceholder: 'Write a note about this document...',
+    addNote: 'Add Note',
+    highlight: 'Highlight',
+    highlightHint: 'Drag over the page to highlight it',
+    wholeDocument: 'Whole document',
+    save: 'Save',
+    cancel: 'Cancel',
+    deleteNote: 'Delete note',
+    redactForSharing: 'Redact for Sharing',
+    sharedRedacted: 'Shares show a redacted copy of this document',
+    redactionOutdated: 'Redaction is out of date - shares cannot open this document until you redact it again',
+    editRedaction: 'Edit'
   },
   hi: {
     back: 'वापस',
     share: 'साझा करें',
     viewFullscreen: 'पूर्ण स्क्रीन देखें',
+    page: 'पृष्ठ',
+    of: '/',
+    previousPage: 'पिछला पृष्ठ',
+    nextPage: 'अगला पृष्ठ',
     viewInViewer: 'DICOM व्यूअर में देखें',
+    imagingStudy: 'इमेजिंग अध्ययन',
+    images: 'चित्र',
+    series: 'श्रृंखला',
     documentTitle: 'दस्तावेज़ शीर्षक',
     type: 'प्रकार',
     provider: 'प्रदाता',
@@ -152,9 +273,40 @@ const translations = {
     versionHistory: 'संस्करण इतिहास',
     showHistory: 'संस्करण इतिहास दिखाएं',
     hideHistory: 'संस्करण इतिहास छुपाएं',
+    current: 'वर्तमान',
+    uploadNewVersion: 'नया संस्करण अपलोड करें',
+    uploadingVersion: 'अपलोड हो रहा है...',
+    download: 'डाउनलोड',
+    restore: 'पुनर्स्थापित करें',
+    compare: 'तुलना करें',
+    compareTitle: '{from} से {to} तक बदलाव',
+    linesAdded: 'जोड़ी गईं',
+    linesRemoved: 'हटाई गईं',
+    noTextChanges: 'इन संस्करणों के बीच पाठ में कोई बदलाव नहीं है।',
+    diffTruncated: 'पाठ के केवल पहले भाग की तुलना की गई।',
     consentAccess: 'वर्तमान पहुंच',
     manageAccess: 'पहुंच प्रबंधित करें',
-    edit: 'संपादित करें'
+    edit: 'संपादित करें',
+    processingQueued: 'दस्तावेज़ पढ़ने की प्रतीक्षा में...',
+    processingRunning: 'दस्तावेज़ पढ़ा जा रहा है और अंतर्दृष्टि तैयार की जा रही है...',
+    processingFailed: 'हम इस दस्तावेज़ को संसाधित नहीं कर सके',
+    retryProcessing: 'पुनः प्रयास करें',
+    collections: 'संग्रह',
+    noCollections: 'संबंधित रिकॉर्ड को समूह में रखने के लिए वॉल्ट में एक संग्रह बनाएं।',
+    notesAndHighlights: 'नोट्स और हाइलाइट',
+    noNotes: 'ज़रूरी बातें याद रखने के लिए नोट जोड़ें या पृष्ठ का कोई हिस्सा हाइलाइट करें।',
+    addNotePlaceholder: 'इस दस्तावेज़ के बारे में नोट लिखें...',
+    addNote: 'नोट जोड़ें',
+    highlight: 'हाइलाइट',
+    highlightHint: 'हाइलाइट करने के लिए पृष्ठ पर खींचें',
+    wholeDocument: 'पूरा दस्तावेज़',
+    save: 'सहेजें',
+    cancel: 'रद्द करें',
+    deleteNote: 'नोट हटाएं',
+    redactForSharing: 'साझा करने के लिए छुपाएं',
+    sharedRedacted: 'साझा करने पर इस दस्तावेज़ की छुपाई गई प्रति दिखाई जाती है',
+    redactionOutdated: 'छुपाई गई प्रति पुरानी है - दोबारा छुपाने तक साझा किए गए लिंक यह दस्तावेज़ नहीं खोल सकते',
+    editRedaction: 'संपादित करें'
   }
 };
 
@@ -221,13 +373,43 @@ export const DocumentDetailScreen = (props: DocumentDetailScreenProps) => {
     accessList = defaultAccessList,
     language = 'en',
     fileUrl,
+    pages,
+    imagingStudy,
+    collections,
+    onToggleCollection,
+    annotations,
+    isSavingAnnotation = false,
+    onAddNote,
+    onAddHighlight,
+    redaction,
+    onRedact,
+    onUpdateAnnotation,
+    onDeleteAnnotation,
+    processing,
+    isRetryingProcessing = false,
+    onRetryProcessing,
+    labResults,
+    isLabResultsLoading = false,
+    isSavingLabResult = false,
+    isExtractingLabResults = false,
+    onAddLabResult,
+    onUpdateLabResult,
+    onDeleteLabResult,
+    onExtractLabResults,
     onBack,
     onShare,
     onViewFullscreen,
     onViewDICOM,
     onViewFullAnalysis,
     onManageAccess,
-    onVersionClick,
+    versionDiff,
+    isVersionDiffLoading = false,
+    isUploadingVersion = false,
+    onUploadVersion,
+    onDownloadVersion,
+    onRestoreVersion,
+    onCompareVersion,
+    onCloseVersionDiff,
     onEditMetadata,
     onMoreOptions,
     onDelete
@@ -235,10 +417,42 @@ export const DocumentDetailScreen = (props: DocumentDetailScreenProps) => {
 
   const [showVersionHistory, setShowVersionHistory] = useState(false);
   const [showDeleteMenu, setShowDeleteMenu] = useState(false);
+  const versionFileInputRef = useRef<HTMLInputElement>(null);
+  const [annotating, setAnnotating] = useState(false);
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+  const [newNote, setNewNote] = useState('');
+  const [editingAnnotationId, setEditingAnnotationId] = useState<string | null>(null);
+  const [editingNote, setEditingNote] = useState('');
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
 
   const t = translations[language];
   const FileIcon = getFileIcon(fileType);
   const AIStatusIcon = aiInsight.status !== 'none' ? getAIStatusIcon(aiInsight.status) : null;
+  const hasPages = !!pages && pages.length > 0;
+  const isSingleImage = !hasPages && (fileType === 'JPG' || fileType === 'PNG' || fileType === 'IMAGE') && !!fileUrl;
+  const canHighlight = !!onAddHighlight && (hasPages || isSingleImage);
+
+  const handleDrawRegion = (page: number, region: AnnotationRegion) => {
+    setAnnotating(false);
+    onAddHighlight?.(page, region);
+  };
+
+  const handleSelectAnnotation = (id: string) => {
+    setActiveAnnotationId((prev) => (prev === id ? null : id));
+  };
+
+  const handleAddNote = () => {
+    const note = newNote.trim();
+    if (!note) return;
+    onAddNote?.(note);
+    setNewNote('');
+  };
+
+  const handleSaveEdit = () => {
+    if (!editingAnnotationId) return;
+    onUpdateAnnotation?.(editingAnnotationId, editingNote.trim());
+    setEditingAnnotationId(null);
+  };
 
   return (
     <div className="h-screen w-full max-w-[390px] md:max-w-[448px] lg:max-w-[512px] xl:max-w-[576px] mx-auto bg-white flex flex-col overflow-hidden">
@@ -275,6 +489,20 @@ export const DocumentDetailScreen = (props: DocumentDetailScreenProps) => {
               <MoreVertical className="w-5 h-5 md:w-6 md:h-6 lg:w-7 lg:h-7 text-gray-700" />
               {showDeleteMenu && (
                 <div className="absolute right-0 top-full mt-2 bg-white border border-gray-200 rounded-lg shadow-lg z-50 min-w-[160px]">
+                  {onRedact && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setShowDeleteMenu(false);
+                        onRedact();
+                      }}
+                      className="w-full px-4 py-2 text-left text-gray-700 hover:bg-gray-50 flex items-center gap-2 rounded-lg whitespace-nowrap"
+                      data-testid="menu-redact"
+                    >
+                      <EyeOff className="w-4 h-4" />
+                      {t.redactForSharing}
+                    </button>
+                  )}
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -308,20 +536,52 @@ export const DocumentDetailScreen = (props: DocumentDetailScreenProps) => {
           transition={{ duration: 0.3 }}
         >
           <div className="relative h-[280px] md:h-[400px] lg:h-[500px] bg-gray-100 border-b border-gray-200">
-            {(fileType === 'JPG' || fileType === 'PNG' || fileType === 'IMAGE') && fileUrl ? (
+            {pages && pages.length > 0 ? (
+              <DocumentPageViewer
+                pages={pages}
+                alt={metadata.title}
+                labels={{
+                  page: t.page,
+                  of: t.of,
+                  previousPage: t.previousPage,
+                  nextPage: t.nextPage,
+                  viewFullscreen: t.viewFullscreen
+                }}
+                onViewFullscreen={onViewFullscreen}
+                annotations={annotations ?? []}
+                activeAnnotationId={activeAnnotationId}
+                annotating={annotating}
+                onDrawRegion={(pageIndex, region) => handleDrawRegion(pageIndex + 1, region)}
+                onSelectAnnotation={handleSelectAnnotation}
+              />
+            ) : (fileType === 'JPG' || fileType === 'PNG' || fileType === 'IMAGE') && fileUrl ? (
               <div className="h-full w-full relative">
                 <img 
                   src={fileUrl} 
                   alt={metadata.title}
                   className="w-full h-full object-contain cursor-pointer"
-                  onClick={onViewFullscreen}
+                  onClick={() => onViewFullscreen?.()}
+                  onLoad={(e) => {
+                    const { naturalWidth, naturalHeight } = e.currentTarget;
+                    setImageSize({ width: naturalWidth, height: naturalHeight });
+                  }}
                   onError={(e) => {
                     console.error('Failed to load document image');
                     e.currentTarget.style.display = 'none';
                   }}
                 />
+                {((annotations && annotations.length > 0) || annotating) && (
+                  <AnnotationOverlay
+                    annotations={(annotations ?? []).filter((annotation) => (annotation.page ?? 1) === 1)}
+                    imageSize={imageSize}
+                    drawing={annotating}
+                    activeId={activeAnnotationId}
+                    onDrawRegion={(region) => handleDrawRegion(1, region)}
+                    onSelect={handleSelectAnnotation}
+                  />
+                )}
                 <button
-                  onClick={onViewFullscreen}
+                  onClick={() => onViewFullscreen?.()}
                   className="absolute bottom-4 md:bottom-6 lg:bottom-8 right-4 md:right-6 lg:right-8 px-3 md:px-4 lg:px-5 py-2 md:py-2.5 lg:py-3 bg-black/50 hover:bg-black/70 text-white text-sm md:text-base lg:text-lg font-medium rounded-lg flex items-center gap-2 transition-colors"
                   data-testid="button-view-fullscreen"
                 >
@@ -334,7 +594,7 @@ export const DocumentDetailScreen = (props: DocumentDetailScreenProps) => {
                 <div className="text-center">
                   <FileIcon className="w-16 h-16 md:w-20 md:h-20 lg:w-24 lg:h-24 text-gray-400 mx-auto mb-4 md:mb-5 lg:mb-6" />
                   <button 
-                    onClick={onViewFullscreen} 
+                    onClick={() => onViewFullscreen?.()} 
                     className="text-sm md:text-base lg:text-lg text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1 md:gap-2 mx-auto"
                     data-testid="button-view-fullscreen"
                   >
@@ -345,7 +605,7 @@ export const DocumentDetailScreen = (props: DocumentDetailScreenProps) => {
               </div>
             ) : null}
 
-            {fileType === 'DICOM' && (
+            {fileType === 'DICOM' && !(pages && pages.length > 0) && (
               <div className="h-full flex items-center justify-center">
                 <div className="text-center">
                   <Scan className="w-16 h-16 text-gray-400 mx-auto mb-4" />
@@ -361,6 +621,29 @@ export const DocumentDetailScreen = (props: DocumentDetailScreenProps) => {
               </div>
             )}
 
+            {canHighlight && (
+              <div className="absolute top-3 left-3 flex items-center gap-2">
+                <button
+                  onClick={() => setAnnotating(!annotating)}
+                  className={`px-3 py-1 text-xs font-medium rounded-full shadow-sm border flex items-center gap-1 transition-colors ${
+                    annotating
+                      ? 'bg-yellow-400 text-gray-900 border-yellow-500'
+                      : 'bg-white/90 backdrop-blur-sm text-gray-700 border-gray-200 hover:bg-white'
+                  }`}
+                  aria-pressed={annotating}
+                  data-testid="button-highlight-mode"
+                >
+                  <Highlighter className="w-3.5 h-3.5" />
+                  {t.highlight}
+                </button>
+                {annotating && (
+                  <span className="px-2 py-1 bg-black/60 text-white text-xs rounded-full" data-testid="text-highlight-hint">
+                    {t.highlightHint}
+                  </span>
+                )}
+              </div>
+            )}
+
             <div className="absolute top-3 right-3">
               <span 
                 className="px-3 py-1 bg-white/90 backdrop-blur-sm text-xs font-medium text-gray-700 rounded-full shadow-sm border border-gray-200"
@@ -372,6 +655,42 @@ export const DocumentDetailScreen = (props: DocumentDetailScreenProps) => {
           </div>
 
           <div className="p-4 md:p-6 lg:p-8 space-y-4 md:space-y-5 lg:space-y-6">
+            {processing && (processing.status === 'queued' || processing.status === 'running') && (
+              <div 
+                className="flex items-center gap-3 rounded-xl border border-blue-200 bg-blue-50 p-3 md:p-4 text-sm md:text-base text-blue-800"
+                data-testid="status-processing"
+              >
+                <Loader2 className="w-4 h-4 md:w-5 md:h-5 animate-spin flex-shrink-0" />
+                <span>{processing.status === 'queued' ? t.processingQueued : t.processingRunning}</span>
+              </div>
+            )}
+
+            {(processing?.status === 'failed' || processing?.status === 'rejected') && (
+              <div 
+                className="flex items-start gap-3 rounded-xl border border-red-200 bg-red-50 p-3 md:p-4 text-sm md:text-base"
+                data-testid="status-processing-failed"
+              >
+                <AlertCircle className="w-4 h-4 md:w-5 md:h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-red-800">{t.processingFailed}</p>
+                  {processing.error && (
+                    <p className="text-xs md:text-sm text-red-700 mt-1 break-words">{processing.error}</p>
+                  )}
+                </div>
+                {onRetryProcessing && (
+                  <button
+                    onClick={onRetryProcessing}
+                    disabled={isRetryingProcessing}
+                    className="flex items-center gap-1 px-3 py-1.5 text-xs md:text-sm font-medium text-red-700 bg-white border border-red-200 rounded-lg hover:bg-red-100 disabled:opacity-50 transition-colors flex-shrink-0"
+                    data-testid="button-retry-processing"
+                  >
+                    <RotateCw className={`w-3.5 h-3.5 md:w-4 md:h-4 ${isRetryingProcessing ? 'animate-spin' : ''}`} />
+                    {t.retryProcessing}
+                  </button>
+                )}
+              </div>
+            )}
+
             <motion.div 
               initial={{ y: 20, opacity: 0 }} 
               animate={{ y: 0, opacity: 1 }} 
@@ -442,6 +761,218 @@ export const DocumentDetailScreen = (props: DocumentDetailScreenProps) => {
               </div>
             </motion.div>
 
+            {imagingStudy && imagingStudy.series.length > 0 && (
+              <motion.div
+                initial={{ y: 20, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                transition={{ delay: 0.15 }}
+                className="bg-white border border-gray-200 rounded-xl p-4 md:p-5 lg:p-6 shadow-sm"
+                data-testid="card-imaging-study"
+              >
+                <div className="flex items-center justify-between mb-3 md:mb-4">
+                  <div className="flex items-center gap-2">
+                    <Scan className="w-5 h-5 md:w-6 md:h-6 text-blue-600" />
+                    <h3 className="text-base md:text-lg lg:text-xl font-semibold text-gray-900">{t.imagingStudy}</h3>
+                  </div>
+                  <span className="text-xs md:text-sm text-gray-500" data-testid="text-study-image-count">
+                    {imagingStudy.imageCount} {t.images}
+                  </span>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {imagingStudy.modalities.map((modality) => (
+                    <span
+                      key={modality.code}
+                      className="px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 rounded-full"
+                      data-testid={`tag-modality-${modality.code}`}
+                    >
+                      {modality.label}
+                    </span>
+                  ))}
+                  {imagingStudy.bodyParts.map((bodyPart) => (
+                    <span key={bodyPart} className="px-2 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-full">
+                      {bodyPart}
+                    </span>
+                  ))}
+                </div>
+
+                <div className="space-y-1" data-testid="list-study-series">
+                  {imagingStudy.series.map((series, index) => (
+                    <button
+                      key={series.seriesInstanceUid}
+                      onClick={() => onViewFullscreen?.(series.firstPage - 1)}
+                      className="w-full flex items-center justify-between gap-3 py-2 text-left text-sm md:text-base border-b border-gray-100 last:border-b-0 hover:bg-gray-50 transition-colors"
+                      data-testid={`button-series-${index + 1}`}
+                    >
+                      <span className="flex-1 min-w-0 truncate text-gray-900">
+                        {series.description || `${t.series} ${index + 1}`}
+                        {series.modality && <span className="text-gray-500"> · {series.modality}</span>}
+                      </span>
+                      <span className="text-xs md:text-sm text-gray-500 flex-shrink-0">
+                        {series.imageCount} {t.images}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+
+            {collections && (
+              <motion.div
+                initial={{ y: 20, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                transition={{ delay: 0.15 }}
+                className="bg-white border border-gray-200 rounded-xl p-4 md:p-5 lg:p-6 shadow-sm"
+                data-testid="card-collections"
+              >
+                <div className="flex items-center gap-2 mb-3 md:mb-4">
+                  <FolderOpen className="w-5 h-5 md:w-6 md:h-6 text-blue-600" />
+                  <h3 className="text-base md:text-lg lg:text-xl font-semibold text-gray-900">{t.collections}</h3>
+                </div>
+
+                {collections.length === 0 ? (
+                  <p className="text-sm text-gray-500" data-testid="text-no-collections">{t.noCollections}</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {collections.map((collection) => (
+                      <button
+                        key={collection.id}
+                        onClick={() => onToggleCollection?.(collection.id)}
+                        className={`flex items-center gap-1 px-3 py-1.5 text-xs md:text-sm font-medium rounded-full border transition-colors ${
+                          collection.inCollection
+                            ? 'bg-blue-50 text-blue-700 border-blue-300'
+                            : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                        }`}
+                        aria-pressed={collection.inCollection}
+                        data-testid={`button-toggle-collection-${collection.id}`}
+                      >
+                        {collection.inCollection ? <CheckCircle2 className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+                        {collection.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </motion.div>
+            )}
+
+            {annotations && (
+              <motion.div
+                initial={{ y: 20, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                transition={{ delay: 0.15 }}
+                className="bg-white border border-gray-200 rounded-xl p-4 md:p-5 lg:p-6 shadow-sm"
+                data-testid="card-annotations"
+              >
+                <div className="flex items-center gap-2 mb-3 md:mb-4">
+                  <StickyNote className="w-5 h-5 md:w-6 md:h-6 text-yellow-500" />
+                  <h3 className="text-base md:text-lg lg:text-xl font-semibold text-gray-900">{t.notesAndHighlights}</h3>
+                </div>
+
+                {annotations.length === 0 ? (
+                  <p className="text-sm text-gray-500 mb-3" data-testid="text-no-annotations">{t.noNotes}</p>
+                ) : (
+                  <div className="space-y-2 mb-3">
+                    {annotations.map((annotation) => (
+                      <div
+                        key={annotation.id}
+                        className={`p-3 rounded-lg border transition-colors ${
+                          annotation.id === activeAnnotationId ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-gray-50'
+                        }`}
+                        data-testid={`annotation-${annotation.id}`}
+                      >
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <button
+                            onClick={() => annotation.region && handleSelectAnnotation(annotation.id)}
+                            className="flex items-center gap-1.5 text-xs font-medium text-gray-600"
+                            disabled={!annotation.region}
+                          >
+                            {annotation.region && <Highlighter className="w-3.5 h-3.5 text-yellow-500" />}
+                            {annotation.page ? `${t.page} ${annotation.page}` : t.wholeDocument}
+                          </button>
+                          {editingAnnotationId !== annotation.id && (
+                            <div className="flex items-center gap-1">
+                              <button
+                                onClick={() => {
+                                  setEditingAnnotationId(annotation.id);
+                                  setEditingNote(annotation.note ?? '');
+                                }}
+                                className="p-1 hover:bg-gray-200 rounded transition-colors"
+                                aria-label={t.edit}
+                                data-testid={`button-edit-annotation-${annotation.id}`}
+                              >
+                                <Edit2 className="w-3.5 h-3.5 text-gray-500" />
+                              </button>
+                              <button
+                                onClick={() => onDeleteAnnotation?.(annotation.id)}
+                                className="p-1 hover:bg-red-50 rounded transition-colors"
+                                aria-label={t.deleteNote}
+                                data-testid={`button-delete-annotation-${annotation.id}`}
+                              >
+                                <Trash2 className="w-3.5 h-3.5 text-red-500" />
+                              </button>
+                            </div>
+                          )}
+                        </div>
+
+                        {editingAnnotationId === annotation.id ? (
+                          <div className="space-y-2">
+                            <textarea
+                              value={editingNote}
+                              onChange={(e) => setEditingNote(e.target.value)}
+                              rows={2}
+                              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              data-testid={`input-edit-annotation-${annotation.id}`}
+                            />
+                            <div className="flex justify-end gap-2">
+                              <button
+                                onClick={() => setEditingAnnotationId(null)}
+                                className="px-3 py-1.5 text-xs font-medium text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                              >
+                                {t.cancel}
+                              </button>
+                              <button
+                                onClick={handleSaveEdit}
+                                disabled={isSavingAnnotation || (!annotation.region && !editingNote.trim())}
+                                className="px-3 py-1.5 text-xs font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-1"
+                                data-testid={`button-save-annotation-${annotation.id}`}
+                              >
+                                <Check className="w-3.5 h-3.5" />
+                                {t.save}
+                              </button>
+                            </div>
+                          </div>
+                        ) : annotation.note ? (
+                          <p className="text-sm text-gray-800 whitespace-pre-wrap">{annotation.note}</p>
+                        ) : null}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {onAddNote && (
+                  <div className="space-y-2">
+                    <textarea
+                      value={newNote}
+                      onChange={(e) => setNewNote(e.target.value)}
+                      placeholder={t.addNotePlaceholder}
+                      rows={2}
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      data-testid="input-new-note"
+                    />
+                    <button
+                      onClick={handleAddNote}
+                      disabled={isSavingAnnotation || !newNote.trim()}
+                      className="w-full px-4 py-2 text-sm font-medium text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                      data-testid="button-add-note"
+                    >
+                      {isSavingAnnotation ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                      {t.addNote}
+                    </button>
+                  </div>
+                )}
+              </motion.div>
+            )}
+
             <motion.div 
               initial={{ y: 20, opacity: 0 }} 
               animate={{ y: 0, opacity: 1 }} 
@@ -489,6 +1020,20 @@ export const DocumentDetailScreen = (props: DocumentDetailScreenProps) => {
               )}
             </motion.div>
 
+            {labResults && (
+              <LabResultsCard
+                results={labResults}
+                language={language}
+                isLoading={isLabResultsLoading}
+                isSaving={isSavingLabResult}
+                isExtracting={isExtractingLabResults}
+                onAdd={onAddLabResult}
+                onUpdate={onUpdateLabResult}
+                onDelete={onDeleteLabResult}
+                onExtract={onExtractLabResults}
+              />
+            )}
+
             <motion.div 
               initial={{ y: 20, opacity: 0 }} 
               animate={{ y: 0, opacity: 1 }} 
@@ -516,20 +1061,145 @@ export const DocumentDetailScreen = (props: DocumentDetailScreenProps) => {
                   className="border-t border-gray-200"
                 >
                   <div className="p-4 space-y-3">
-                    {versionHistory.map((item, index) => (
-                      <button 
-                        key={index} 
-                        onClick={() => onVersionClick?.(item.version)} 
-                        className="w-full text-left p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                        data-testid={`button-version-${index}`}
-                      >
-                        <div className="flex items-center justify-between mb-1">
-                          <span className="text-sm font-medium text-gray-900">{item.version}</span>
-                          <span className="text-xs text-gray-600">{item.timestamp}</span>
+                    {onUploadVersion && (
+                      <>
+                        <input
+                          ref={versionFileInputRef}
+                          type="file"
+                          accept=".pdf,.jpg,.jpeg,.png,.webp,.docx"
+                          className="hidden"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onUploadVersion(file);
+                            e.target.value = '';
+                          }}
+                          data-testid="input-version-file"
+                        />
+                        <button
+                          onClick={() => versionFileInputRef.current?.click()}
+                          disabled={isUploadingVersion}
+                          className="w-full flex items-center justify-center gap-2 p-2.5 text-sm font-medium text-blue-600 border border-dashed border-blue-300 rounded-lg hover:bg-blue-50 disabled:opacity-50 transition-colors"
+                          data-testid="button-upload-version"
+                        >
+                          {isUploadingVersion ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Upload className="w-4 h-4" />
+                          )}
+                          {isUploadingVersion ? t.uploadingVersion : t.uploadNewVersion}
+                        </button>
+                      </>
+                    )}
+
+                    <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4" data-testid="list-version-timeline">
+                      {versionHistory.map((item, index) => (
+                        <li key={item.id || index} className="ml-4" data-testid={`version-item-${index}`}>
+                          <span 
+                            className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full border-2 border-white ${item.isCurrent ? 'bg-blue-600' : 'bg-gray-300'}`}
+                          />
+                          <div className="flex items-center justify-between mb-1">
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm font-medium text-gray-900">{item.version}</span>
+                              {item.isCurrent && (
+                                <span className="px-1.5 py-0.5 text-[10px] font-medium text-blue-700 bg-blue-50 rounded" data-testid={`badge-current-version-${index}`}>
+                                  {t.current}
+                                </span>
+                              )}
+                            </div>
+                            <span className="text-xs text-gray-600">{item.timestamp}</span>
+                          </div>
+                          {item.note && <p className="text-xs text-gray-600">{item.note}</p>}
+                          {item.id && (
+                            <div className="flex flex-wrap items-center gap-3 mt-2">
+                              {onDownloadVersion && (
+                                <button
+                                  onClick={() => onDownloadVersion(item.id!)}
+                                  className="flex items-center gap-1 text-xs font-medium text-gray-700 hover:text-blue-600"
+                                  data-testid={`button-download-version-${index}`}
+                                >
+                                  <Download className="w-3.5 h-3.5" />
+                                  {t.download}
+                                </button>
+                              )}
+                              {!item.isCurrent && onCompareVersion && item.hasText && (
+                                <button
+                                  onClick={() => onCompareVersion(item.id!)}
+                                  className="flex items-center gap-1 text-xs font-medium text-gray-700 hover:text-blue-600"
+                                  data-testid={`button-compare-version-${index}`}
+                                >
+                                  <GitCompare className="w-3.5 h-3.5" />
+                                  {t.compare}
+                                </button>
+                              )}
+                              {!item.isCurrent && onRestoreVersion && (
+                                <button
+                                  onClick={() => onRestoreVersion(item.id!)}
+                                  className="flex items-center gap-1 text-xs font-medium text-gray-700 hover:text-blue-600"
+                                  data-testid={`button-restore-version-${index}`}
+                                >
+                                  <History className="w-3.5 h-3.5" />
+                                  {t.restore}
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+
+                    {(isVersionDiffLoading || versionDiff) && (
+                      <div className="border border-gray-200 rounded-lg overflow-hidden" data-testid="version-diff">
+                        <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b border-gray-200">
+                          <span className="text-xs font-medium text-gray-900">
+                            {versionDiff
+                              ? t.compareTitle.replace('{from}', versionDiff.fromVersion).replace('{to}', versionDiff.toVersion)
+                              : t.compare}
+                          </span>
+                          <button
+                            onClick={onCloseVersionDiff}
+                            className="p-1 hover:bg-gray-200 rounded"
+                            aria-label="Close"
+                            data-testid="button-close-version-diff"
+                          >
+                            <X className="w-3.5 h-3.5 text-gray-600" />
+                          </button>
                         </div>
-                        <p className="text-xs text-gray-600">{item.note}</p>
-                      </button>
-                    ))}
+                        {isVersionDiffLoading || !versionDiff ? (
+                          <div className="flex justify-center p-4">
+                            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                          </div>
+                        ) : (
+                          <>
+                            <p className="px-3 py-1.5 text-xs text-gray-600 border-b border-gray-100">
+                              <span className="text-green-700">+{versionDiff.added} {t.linesAdded}</span>
+                              {' • '}
+                              <span className="text-red-700">-{versionDiff.removed} {t.linesRemoved}</span>
+                            </p>
+                            {versionDiff.added === 0 && versionDiff.removed === 0 ? (
+                              <p className="p-3 text-xs text-gray-600">{t.noTextChanges}</p>
+                            ) : (
+                              <pre className="max-h-72 overflow-auto text-[11px] leading-5 font-mono">
+                                {versionDiff.lines.map((line, index) => (
+                                  <div
+                                    key={index}
+                                    className={`px-3 whitespace-pre-wrap break-words ${
+                                      line.type === 'added' ? 'bg-green-50 text-green-800' :
+                                      line.type === 'removed' ? 'bg-red-50 text-red-800 line-through' :
+                                      'text-gray-600'
+                                    }`}
+                                  >
+                                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                                  </div>
+                                ))}
+                              </pre>
+                            )}
+                            {versionDiff.truncated && (
+                              <p className="px-3 py-1.5 text-[11px] text-gray-500 border-t border-gray-100">{t.diffTruncated}</p>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </motion.div>
               )}
@@ -562,6 +1232,27 @@ export const DocumentDetailScreen = (props: DocumentDetailScreenProps) => {
                 ))}
               </div>
 
+              {redaction && (
+                <div
+                  className={`flex items-start gap-2 p-2 mb-3 rounded-lg text-xs ${
+                    redaction.outdated ? 'bg-amber-50 text-amber-800' : 'bg-gray-50 text-gray-700'
+                  }`}
+                  data-testid="text-redaction-status"
+                >
+                  {redaction.outdated ? (
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  ) : (
+                    <EyeOff className="w-4 h-4 flex-shrink-0" />
+                  )}
+                  <span className="flex-1">{redaction.outdated ? t.redactionOutdated : t.sharedRedacted}</span>
+                  {onRedact && (
+                    <button onClick={onRedact} className="text-blue-600 font-medium hover:underline">
+                      {t.editRedaction}
+                    </button>
+                  )}
+                </div>
+              )}
+
               <button 
                 onClick={onManageAccess} 
                 className="w-full px-4 md:px-5 lg:px-6 py-2 md:py-2.5 lg:py-3 border border-gray-300 text-gray-700 text-sm md:text-base lg:text-lg font-medium rounded-lg hover:bg-gray-50 transition-colors"
@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence, type PanInfo } from 'framer-motion';
+import { ChevronLeft, ChevronRight, ExternalLink, Loader2 } from 'lucide-react';
+import { AnnotationOverlay, type AnnotationMark } from '@/components/AnnotationOverlay';
+import type { AnnotationRegion } from '@/lib/api/documents';
+
+export type DocumentPage = {
+  imageUrl: string;
+  thumbnailUrl: string;
+};
+
+type DocumentPageViewerProps = {
+  pages: DocumentPage[];
+  alt: string;
+  labels: {
+    page: string;
+    of: string;
+    previousPage: string;
+    nextPage: string;
+    viewFullscreen: string;
+  };
+  onViewFullscreen?: (pageIndex: number) => void;
+  // Highlights across all pages (page numbers are 1-based)
+  annotations?: AnnotationMark[];
+  activeAnnotationId?: string | null;
+  // While set, dragging on the page draws a highlight instead of turning the page
+  annotating?: boolean;
+  onDrawRegion?: (pageIndex: number, region: AnnotationRegion) => void;
+  onSelectAnnotation?: (id: string) => void;
+};
+
+// How far (px) or fast (px/s) a swipe must go to turn the page
+const SWIPE_DISTANCE = 60;
+const SWIPE_VELOCITY = 400;
+
+// The exiting page reads the latest direction through AnimatePresence's custom prop
+const slideVariants = {
+  enter: (direction: number) => ({ x: direction >= 0 ? '100%' : '-100%', opacity: 0 }),
+  center: { x: 0, opacity: 1 },
+  exit: (direction: number) => ({ x: direction >= 0 ? '-100%' : '100%', opacity: 0 })
+};
+
+export function DocumentPageViewer({
+  pages,
+  alt,
+  labels,
+  onViewFullscreen,
+  annotations = [],
+  activeAnnotationId,
+  annotating = false,
+  onDrawRegion,
+  onSelectAnnotation
+}: DocumentPageViewerProps) {
+  const [pageIndex, setPageIndex] = useState(0);
+  // Direction of the last page turn (1 forward, -1 back), so pages slide in from the right side
+  const [direction, setDirection] = useState(0);
+  const [loadedPages, setLoadedPages] = useState<Set<number>>(new Set());
+  const [pageSizes, setPageSizes] = useState<Record<number, { width: number; height: number }>>({});
+
+  // A new version can have fewer pages
+  useEffect(() => {
+    if (pageIndex >= pages.length) setPageIndex(Math.max(0, pages.length - 1));
+  }, [pages.length, pageIndex]);
+
+  const goTo = (index: number) => {
+    if (index < 0 || index >= pages.length || index === pageIndex) return;
+    setDirection(index > pageIndex ? 1 : -1);
+    setPageIndex(index);
+  };
+
+  const handleDragEnd = (_: unknown, info: PanInfo) => {
+    if (info.offset.x < -SWIPE_DISTANCE || info.velocity.x < -SWIPE_VELOCITY) {
+      goTo(pageIndex + 1);
+    } else if (info.offset.x > SWIPE_DISTANCE || info.velocity.x > SWIPE_VELOCITY) {
+      goTo(pageIndex - 1);
+    }
+  };
+
+  // Show the page of a highlight picked from the notes list
+  useEffect(() => {
+    const active = annotations.find((annotation) => annotation.id === activeAnnotationId);
+    if (active?.page && active.page - 1 < pages.length) goTo(active.page - 1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeAnnotationId]);
+
+  const page = pages[pageIndex];
+  if (!page) return null;
+
+  const pageAnnotations = annotations.filter((annotation) => annotation.page === pageIndex + 1);
+
+  return (
+    <div className="h-full w-full flex flex-col" data-testid="page-viewer">
+      <div className="relative flex-1 min-h-0 overflow-hidden">
+        <AnimatePresence initial={false} custom={direction}>
+          <motion.div
+            key={pageIndex}
+            custom={direction}
+            variants={slideVariants}
+            initial="enter"
+            animate="center"
+            exit="exit"
+            transition={{ duration: 0.25 }}
+            drag={pages.length > 1 && !annotating ? 'x' : false}
+            dragConstraints={{ left: 0, right: 0 }}
+            dragElastic={0.3}
+            onDragEnd={handleDragEnd}
+            className="absolute inset-0 flex items-center justify-center touch-pan-y"
+          >
+            {!loadedPages.has(pageIndex) && (
+              <Loader2 className="absolute w-8 h-8 text-gray-400 animate-spin" />
+            )}
+            <img
+              src={page.imageUrl}
+              alt={`${alt} - ${labels.page} ${pageIndex + 1}`}
+              className="w-full h-full object-contain cursor-pointer select-none"
+              draggable={false}
+              onLoad={(e) => {
+                const { naturalWidth, naturalHeight } = e.currentTarget;
+                setLoadedPages((prev) => new Set(prev).add(pageIndex));
+                setPageSizes((prev) => ({ ...prev, [pageIndex]: { width: naturalWidth, height: naturalHeight } }));
+              }}
+              onClick={() => onViewFullscreen?.(pageIndex)}
+              data-testid={`img-page-${pageIndex + 1}`}
+            />
+            {(pageAnnotations.length > 0 || annotating) && (
+              <AnnotationOverlay
+                annotations={pageAnnotations}
+                imageSize={pageSizes[pageIndex] ?? null}
+                drawing={annotating}
+                activeId={activeAnnotationId}
+                onDrawRegion={(region) => onDrawRegion?.(pageIndex, region)}
+                onSelect={onSelectAnnotation}
+              />
+            )}
+          </motion.div>
+        </AnimatePresence>
+
+        {pages.length > 1 && (
+          <>
+            <button
+              onClick={() => goTo(pageIndex - 1)}
+              disabled={pageIndex === 0}
+              className="absolute left-2 top-1/2 -translate-y-1/2 p-1.5 md:p-2 bg-black/40 hover:bg-black/60 text-white rounded-full transition-colors disabled:opacity-0"
+              aria-label={labels.previousPage}
+              data-testid="button-previous-page"
+            >
+              <ChevronLeft className="w-5 h-5 md:w-6 md:h-6" />
+            </button>
+            <button
+              onClick={() => goTo(pageIndex + 1)}
+              disabled={pageIndex === pages.length - 1}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 md:p-2 bg-black/40 hover:bg-black/60 text-white rounded-full transition-colors disabled:opacity-0"
+              aria-label={labels.nextPage}
+              data-testid="button-next-page"
+            >
+              <ChevronRight className="w-5 h-5 md:w-6 md:h-6" />
+            </button>
+          </>
+        )}
+
+        <div className="absolute bottom-3 md:bottom-4 left-3 md:left-4 px-2.5 py-1 bg-black/50 text-white text-xs md:text-sm rounded-full" data-testid="text-page-indicator">
+          {labels.page} {pageIndex + 1} {labels.of} {pages.length}
+        </div>
+
+        {onViewFullscreen && (
+          <button
+            onClick={() => onViewFullscreen(pageIndex)}
+            className="absolute bottom-3 md:bottom-4 right-3 md:right-4 px-3 md:px-4 py-2 bg-black/50 hover:bg-black/70 text-white text-sm md:text-base font-medium rounded-lg flex items-center gap-2 transition-colors"
+            data-testid="button-view-fullscreen"
+          >
+            <ExternalLink className="w-4 h-4 md:w-5 md:h-5" />
+            {labels.viewFullscreen}
+          </button>
+        )}
+      </div>
+
+      {pages.length > 1 && (
+        <div className="flex gap-2 px-3 py-2 overflow-x-auto bg-white border-t border-gray-200" data-testid="list-page-thumbnails">
+          {pages.map((thumbnailPage, index) => (
+            <button
+              key={thumbnailPage.thumbnailUrl}
+              onClick={() => goTo(index)}
+              className={`flex-shrink-0 w-10 h-14 md:w-12 md:h-16 rounded border-2 overflow-hidden bg-gray-100 transition-colors ${
+                index === pageIndex ? 'border-blue-600' : 'border-transparent hover:border-gray-300'
+              }`}
+              aria-label={`${labels.page} ${index + 1}`}
+              data-testid={`button-page-thumbnail-${index + 1}`}
+            >
+              <img
+                src={thumbnailPage.thumbnailUrl}
+                alt=""
+                loading="lazy"
+                className="w-full h-full object-cover object-top"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
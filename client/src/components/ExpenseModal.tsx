@@ -0,0 +1,281 @@
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { useCreateExpense, useUpdateExpense } from '@/hooks/useExpenses';
+import { useTranslation } from '@/i18n/useTranslation';
+import {
+  type Expense,
+  type ExpenseCategory,
+  type ReimbursementStatus,
+  type CreateExpenseData,
+} from '@/lib/api/expenses';
+
+interface ExpenseModalProps {
+  expense: Expense | null; // null to add a new expense
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const EXPENSE_CATEGORY_KEYS: Record<ExpenseCategory, string> = {
+  consultation: 'categoryConsultation',
+  diagnostics: 'categoryDiagnostics',
+  medicines: 'categoryMedicines',
+  hospitalization: 'categoryHospitalization',
+  insurance_premium: 'categoryInsurancePremium',
+  preventive_checkup: 'categoryPreventiveCheckup',
+  other: 'categoryOther',
+};
+
+export const REIMBURSEMENT_STATUS_KEYS: Record<ReimbursementStatus, string> = {
+  none: 'reimbursementNone',
+  claimed: 'reimbursementClaimed',
+  reimbursed: 'reimbursementReimbursed',
+};
+
+interface ExpenseFormData {
+  payee: string;
+  description: string;
+  category: ExpenseCategory;
+  amount: string;
+  gstAmount: string;
+  payer: string;
+  paymentDate: string;
+  invoiceNumber: string;
+  reimbursementStatus: ReimbursementStatus;
+  notes: string;
+}
+
+const emptyForm = (): ExpenseFormData => ({
+  payee: '',
+  description: '',
+  category: 'consultation',
+  amount: '',
+  gstAmount: '',
+  payer: '',
+  paymentDate: new Date().toISOString().split('T')[0],
+  invoiceNumber: '',
+  reimbursementStatus: 'none',
+  notes: '',
+});
+
+export function ExpenseModal({ expense, isOpen, onClose }: ExpenseModalProps) {
+  const { translations: t } = useTranslation();
+  const createExpense = useCreateExpense();
+  const updateExpense = useUpdateExpense();
+  const [formData, setFormData] = useState<ExpenseFormData>(emptyForm);
+
+  // Load expense data when editing
+  useEffect(() => {
+    if (expense) {
+      setFormData({
+        payee: expense.payee,
+        description: expense.description || '',
+        category: expense.category,
+        amount: String(expense.amount),
+        gstAmount: expense.gstAmount !== null ? String(expense.gstAmount) : '',
+        payer: expense.payer || '',
+        paymentDate: new Date(expense.paymentDate).toISOString().split('T')[0],
+        invoiceNumber: expense.invoiceNumber || '',
+        reimbursementStatus: expense.reimbursementStatus,
+        notes: expense.notes || '',
+      });
+    } else {
+      setFormData(emptyForm());
+    }
+  }, [expense, isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const submitData: CreateExpenseData = {
+      payee: formData.payee.trim(),
+      description: formData.description.trim() || null,
+      category: formData.category,
+      amount: parseFloat(formData.amount),
+      gstAmount: formData.gstAmount ? parseFloat(formData.gstAmount) : null,
+      payer: formData.payer.trim() || null,
+      paymentDate: formData.paymentDate,
+      invoiceNumber: formData.invoiceNumber.trim() || null,
+      reimbursementStatus: formData.reimbursementStatus,
+      notes: formData.notes.trim() || null,
+    };
+
+    try {
+      if (expense) {
+        await updateExpense.mutateAsync({ id: expense.id, data: submitData });
+      } else {
+        await createExpense.mutateAsync(submitData);
+      }
+      onClose();
+    } catch (error) {
+      console.error('Failed to save expense:', error);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent';
+  const isSaving = createExpense.isPending || updateExpense.isPending;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-5 py-3 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900">
+            {expense ? t.expenses.editExpense : t.expenses.addExpense}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-gray-100 rounded-full transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-4 h-4 text-gray-600" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-5 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">{t.expenses.payee} *</label>
+            <input
+              type="text"
+              required
+              value={formData.payee}
+              onChange={(e) => setFormData({ ...formData, payee: e.target.value })}
+              className={inputClassName}
+              placeholder={t.expenses.payeePlaceholder}
+              data-testid="input-expense-payee"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">{t.expenses.description}</label>
+            <input
+              type="text"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">{t.expenses.amount} *</label>
+              <input
+                type="number"
+                required
+                min="0.01"
+                step="0.01"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                className={inputClassName}
+                data-testid="input-expense-amount"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">{t.expenses.gstAmount}</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.gstAmount}
+                onChange={(e) => setFormData({ ...formData, gstAmount: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">{t.expenses.category}</label>
+              <select
+                value={formData.category}
+                onChange={(e) => setFormData({ ...formData, category: e.target.value as ExpenseCategory })}
+                className={inputClassName}
+              >
+                {(Object.keys(EXPENSE_CATEGORY_KEYS) as ExpenseCategory[]).map((category) => (
+                  <option key={category} value={category}>
+                    {t.expenses[EXPENSE_CATEGORY_KEYS[category]]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">{t.expenses.paymentDate} *</label>
+              <input
+                type="date"
+                required
+                value={formData.paymentDate}
+                onChange={(e) => setFormData({ ...formData, paymentDate: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">{t.expenses.payer}</label>
+              <input
+                type="text"
+                value={formData.payer}
+                onChange={(e) => setFormData({ ...formData, payer: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">{t.expenses.invoiceNumber}</label>
+              <input
+                type="text"
+                value={formData.invoiceNumber}
+                onChange={(e) => setFormData({ ...formData, invoiceNumber: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">{t.expenses.reimbursement}</label>
+            <select
+              value={formData.reimbursementStatus}
+              onChange={(e) => setFormData({ ...formData, reimbursementStatus: e.target.value as ReimbursementStatus })}
+              className={inputClassName}
+            >
+              {(Object.keys(REIMBURSEMENT_STATUS_KEYS) as ReimbursementStatus[]).map((status) => (
+                <option key={status} value={status}>
+                  {t.expenses[REIMBURSEMENT_STATUS_KEYS[status]]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">{t.expenses.notes}</label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              {t.expenses.cancel}
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 px-4 py-2 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+              data-testid="button-save-expense"
+            >
+              {t.expenses.save}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -16,9 +16,24 @@ import {
   QrCode, 
   Copy, 
   Clock, 
-  Info 
+  Info,
+  EyeOff,
+  ChevronDown,
+  ChevronUp,
+  AlertTriangle
 } from 'lucide-react';
 import { useCreateConsent, useQRCode } from '@/hooks/useConsents';
+import { useCollections } from '@/hooks/useCollections';
+import {
+  useDocuments,
+  useRedactedDocuments,
+  useDocumentRedaction,
+  useRedactionSuggestions,
+  useSaveDocumentRedaction,
+  useDeleteDocumentRedaction
+} from '@/hooks/useDocuments';
+import { RedactionEditor } from '@/components/RedactionEditor';
+import { getDocumentPageUrl, getDocumentPreview, getRedactedFileUrl, type RedactionRegion } from '@/lib/api/documents';
 import type { CreateConsentData } from '@/lib/api/consents';
 
 type RecipientRole = 'doctor' | 'lab' | 'insurance' | 'family' | 'other';
@@ -52,6 +67,8 @@ type ConsentData = {
     customDate?: Date;
   };
   purpose: string;
+  collectionId: string | null;
+  includeAnnotations: boolean;
 };
 
 type GrantConsentFlowProps = {
@@ -103,6 +120,9 @@ const scopes: ScopeOption[] = [
   }
 ];
 
+// Only PDFs and images can be redacted
+const REDACTABLE_FILE_TYPES = ['PDF', 'JPG', 'PNG', 'IMAGE'];
+
 const durations = [
   { id: '24h' as DurationType, label: '24 Hours', labelHi: '24 घंटे', icon: Clock },
   { id: '7d' as DurationType, label: '7 Days', labelHi: '7 दिन', icon: Calendar },
@@ -120,21 +140,87 @@ export const GrantConsentFlow = ({
     recipient: { role: null, name: '' },
     scopes: [],
     duration: { type: '7d' },
-    purpose: ''
+    purpose: '',
+    collectionId: null,
+    includeAnnotations: false
   });
   const [customDate, setCustomDate] = useState<string>('');
   const [showNameInput, setShowNameInput] = useState(false);
   const [createdConsentId, setCreatedConsentId] = useState<string | null>(null);
 
   const createConsentMutation = useCreateConsent();
+  const { data: collectionsData } = useCollections();
+  const collections = collectionsData?.collections || [];
+  // A collection narrows record scopes only, so offer it when documents or the timeline are shared
+  const canShareCollection = consentData.scopes.includes('documents') || consentData.scopes.includes('timeline');
   const { data: qrData, isLoading: qrLoading } = useQRCode(createdConsentId);
 
+  // Redaction: documents in the shared scope can be redacted before the link is created
+  const [showRedactionList, setShowRedactionList] = useState(false);
+  const [redactingDocument, setRedactingDocument] = useState<{ id: string; title: string; pages: string[] } | null>(null);
+  const { data: scopeDocumentsData } = useDocuments(
+    consentData.collectionId ? { collectionId: consentData.collectionId } : undefined
+  );
+  const { data: redactedData } = useRedactedDocuments();
+  const { data: redactionData, isLoading: isRedactionLoading } = useDocumentRedaction(redactingDocument?.id ?? '');
+  const { data: suggestionsData, isLoading: isSuggestionsLoading } = useRedactionSuggestions(
+    redactingDocument?.id ?? '',
+    !!redactionData?.supported && !redactionData.redaction
+  );
+  const saveRedactionMutation = useSaveDocumentRedaction();
+  const deleteRedactionMutation = useDeleteDocumentRedaction();
+  const redactableDocuments = (scopeDocumentsData?.documents ?? []).filter(doc =>
+    REDACTABLE_FILE_TYPES.includes(doc.fileType ?? '')
+  );
+  const redactions = redactedData?.redactions ?? [];
+  const getRedactionStatus = (documentId: string) => redactions.find(r => r.documentId === documentId);
+  const redactedCount = redactableDocuments.filter(doc => getRedactionStatus(doc.id)).length;
+
+  const handleOpenRedaction = async (doc: { id: string; title: string; pageCount?: number | null }) => {
+    let pageCount = doc.pageCount;
+    if (!pageCount) {
+      // Documents uploaded before page counts existed are counted on first preview
+      try {
+        pageCount = (await getDocumentPreview(doc.id)).pageCount;
+      } catch (error) {
+        console.error('Failed to load page count:', error);
+      }
+    }
+    setRedactingDocument({
+      id: doc.id,
+      title: doc.title,
+      pages: Array.from({ length: pageCount || 1 }, (_, index) => getDocumentPageUrl(doc.id, index + 1, 'page'))
+    });
+  };
+
+  const handleSaveRedaction = async (regions: RedactionRegion[]) => {
+    if (!redactingDocument) return;
+    try {
+      await saveRedactionMutation.mutateAsync({ id: redactingDocument.id, regions });
+      setRedactingDocument(null);
+    } catch (error) {
+      console.error('Failed to save redaction:', error);
+    }
+  };
+
+  const handleRemoveRedaction = async () => {
+    if (!redactingDocument) return;
+    try {
+      await deleteRedactionMutation.mutateAsync(redactingDocument.id);
+      setRedactingDocument(null);
+    } catch (error) {
+      console.error('Failed to remove redaction:', error);
+    }
+  };
+
   const handleRecipientSelect = (role: RecipientRole) => {
     setConsentData(prev => ({
       ...prev,
       recipient: { ...prev.recipient, role }
     }));
     setShowNameInput(true);
+    // Reports for insurers usually need personal details hidden
+    setShowRedactionList(role === 'insurance');
   };
 
   const handleScopeToggle = (scopeId: ScopeType) => {
@@ -173,6 +259,8 @@ export const GrantConsentFlow = ({
         durationType: consentData.duration.type,
         customExpiryDate: consentData.duration.type === 'custom' && customDate ? customDate : undefined,
         purpose: consentData.purpose || 'Medical record sharing',
+        collectionId: canShareCollection && consentData.collectionId ? consentData.collectionId : undefined,
+        includeAnnotations: canShareCollection && consentData.includeAnnotations,
       };
 
       // Create consent
@@ -204,7 +292,9 @@ export const GrantConsentFlow = ({
       recipient: { role: null, name: '' },
       scopes: [],
       duration: { type: '7d' },
-      purpose: ''
+      purpose: '',
+      collectionId: null,
+      includeAnnotations: false
     });
     setCustomDate('');
     setShowNameInput(false);
@@ -383,6 +473,112 @@ export const GrantConsentFlow = ({
                   );
                 })}
               </div>
+
+              {canShareCollection && collections.length > 0 && (
+                <div className="mt-6">
+                  <label htmlFor="select-collection" className="block text-sm font-medium text-gray-700 mb-2">
+                    {language === 'en' ? 'Share only a collection (optional)' : 'केवल एक संग्रह साझा करें (वैकल्पिक)'}
+                  </label>
+                  <select
+                    id="select-collection"
+                    value={consentData.collectionId ?? ''}
+                    onChange={e => setConsentData(prev => ({ ...prev, collectionId: e.target.value || null }))}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl bg-white text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    data-testid="select-collection"
+                  >
+                    <option value="">{language === 'en' ? 'All records' : 'सभी रिकॉर्ड'}</option>
+                    {collections.map(collection => (
+                      <option key={collection.id} value={collection.id}>
+                        {collection.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {canShareCollection && (
+                <label className="mt-4 flex items-start gap-3 p-4 border border-gray-200 rounded-xl cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={consentData.includeAnnotations}
+                    onChange={e => setConsentData(prev => ({ ...prev, includeAnnotations: e.target.checked }))}
+                    className="mt-1 w-4 h-4 accent-blue-600"
+                    data-testid="checkbox-include-annotations"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900">
+                      {language === 'en' ? 'Include my notes and highlights' : 'मेरे नोट्स और हाइलाइट शामिल करें'}
+                    </span>
+                    <span className="block text-xs text-gray-500 mt-0.5">
+                      {language === 'en'
+                        ? 'Your personal notes stay private unless you turn this on. They are never shared with redacted documents.'
+                        : 'इसे चालू किए बिना आपके निजी नोट्स निजी रहते हैं। छुपाए गए दस्तावेज़ों के साथ ये कभी साझा नहीं होते।'}
+                    </span>
+                  </span>
+                </label>
+              )}
+
+              {canShareCollection && redactableDocuments.length > 0 && (
+                <div className="mt-4 border border-gray-200 rounded-xl" data-testid="redaction-panel">
+                  <button
+                    onClick={() => setShowRedactionList(prev => !prev)}
+                    className="w-full flex items-start gap-3 p-4 text-left"
+                    aria-expanded={showRedactionList}
+                    data-testid="button-toggle-redaction"
+                  >
+                    <EyeOff className="w-5 h-5 text-gray-600 mt-0.5" />
+                    <span className="flex-1">
+                      <span className="block text-sm font-medium text-gray-900">
+                        {language === 'en' ? 'Hide personal details' : 'व्यक्तिगत जानकारी छुपाएं'}
+                      </span>
+                      <span className="block text-xs text-gray-500 mt-0.5">
+                        {language === 'en'
+                          ? `${redactedCount} of ${redactableDocuments.length} documents redacted. Redacted documents are shared without their original.`
+                          : `${redactableDocuments.length} में से ${redactedCount} दस्तावेज़ छुपाए गए। छुपाए गए दस्तावेज़ मूल के बिना साझा होते हैं।`}
+                      </span>
+                    </span>
+                    {showRedactionList ? (
+                      <ChevronUp className="w-5 h-5 text-gray-400" />
+                    ) : (
+                      <ChevronDown className="w-5 h-5 text-gray-400" />
+                    )}
+                  </button>
+
+                  {showRedactionList && (
+                    <ul className="border-t border-gray-200 max-h-60 overflow-y-auto divide-y divide-gray-100">
+                      {redactableDocuments.map(doc => {
+                        const status = getRedactionStatus(doc.id);
+                        return (
+                          <li key={doc.id} className="flex items-center gap-3 px-4 py-2.5" data-testid={`redaction-item-${doc.id}`}>
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm text-gray-900 truncate">{doc.title}</p>
+                              {status?.outdated ? (
+                                <p className="flex items-center gap-1 text-xs text-amber-700">
+                                  <AlertTriangle className="w-3 h-3" />
+                                  {language === 'en' ? 'Out of date - redact again' : 'पुराना - दोबारा छुपाएं'}
+                                </p>
+                              ) : status ? (
+                                <p className="text-xs text-green-700">{language === 'en' ? 'Redacted' : 'छुपाया गया'}</p>
+                              ) : (
+                                <p className="text-xs text-gray-500">{language === 'en' ? 'Original' : 'मूल'}</p>
+                              )}
+                            </div>
+                            <button
+                              onClick={() => handleOpenRedaction(doc)}
+                              className="px-3 py-1.5 text-xs font-medium text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50"
+                              data-testid={`button-redact-${doc.id}`}
+                            >
+                              {status
+                                ? (language === 'en' ? 'Edit' : 'संपादित करें')
+                                : (language === 'en' ? 'Redact' : 'छुपाएं')}
+                            </button>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+              )}
             </motion.div>
           )}
 
@@ -527,6 +723,24 @@ export const GrantConsentFlow = ({
                         ? 'None selected'
                         : 'कुछ नहीं चुना'}
                     </p>
+                    {canShareCollection && consentData.collectionId && (
+                      <p className="text-sm text-gray-600 mt-1" data-testid="text-summary-collection">
+                        {language === 'en' ? 'Only the collection' : 'केवल संग्रह'}{' '}
+                        "{collections.find(c => c.id === consentData.collectionId)?.name}"
+                      </p>
+                    )}
+                    {canShareCollection && consentData.includeAnnotations && (
+                      <p className="text-sm text-gray-600 mt-1" data-testid="text-summary-annotations">
+                        {language === 'en' ? 'Includes your notes and highlights' : 'आपके नोट्स और हाइलाइट शामिल हैं'}
+                      </p>
+                    )}
+                    {canShareCollection && redactedCount > 0 && (
+                      <p className="text-sm text-gray-600 mt-1" data-testid="text-summary-redactions">
+                        {language === 'en'
+                          ? `${redactedCount} document(s) shared as redacted copies`
+                          : `${redactedCount} दस्तावेज़ छुपाई गई प्रति के रूप में साझा`}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -677,6 +891,23 @@ export const GrantConsentFlow = ({
           </button>
         </div>
       )}
+
+      {redactingDocument && redactionData?.supported && !isRedactionLoading && (
+        <RedactionEditor
+          isOpen={!!redactingDocument}
+          onClose={() => setRedactingDocument(null)}
+          pages={redactingDocument.pages}
+          title={redactingDocument.title}
+          language={language}
+          redaction={redactionData.redaction}
+          suggestions={suggestionsData?.success ? suggestionsData : null}
+          isLoadingSuggestions={!redactionData.redaction && isSuggestionsLoading}
+          isSaving={saveRedactionMutation.isPending}
+          redactedFileUrl={redactionData.redaction ? getRedactedFileUrl(redactingDocument.id) : undefined}
+          onSave={handleSaveRedaction}
+          onRemove={handleRemoveRedaction}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ClipboardList, Plus, Check, X, FileText, Trash2, Loader2, ChevronDown, ChevronUp } from 'lucide-react';
+
+export type HealthTaskItem = {
+  id: string;
+  title: string;
+  dueDate: string | null;
+  source: 'document' | 'manual';
+  sourceDocumentId: string | null;
+  sourceDocumentTitle: string | null;
+  sourceText: string | null;
+};
+
+export type HealthTaskInput = {
+  title: string;
+  dueDate: string | null;
+};
+
+type HealthTasksCardProps = {
+  tasks: HealthTaskItem[]; // Pending tasks, soonest due first
+  language?: 'en' | 'hi';
+  isLoading?: boolean;
+  isSaving?: boolean;
+  onAdd?: (data: HealthTaskInput) => void;
+  onComplete?: (id: string) => void;
+  onDismiss?: (id: string) => void;
+  onDelete?: (id: string) => void;
+  onDocumentClick?: (documentId: string) => void;
+};
+
+// Tasks shown before "Show all"
+const COLLAPSED_COUNT = 3;
+
+const translations = {
+  en: {
+    title: 'Health Tasks',
+    subtitle: 'Follow-ups from your prescriptions and reports',
+    addTask: 'Add Task',
+    taskTitle: 'What needs to be done?',
+    dueDate: 'Due date',
+    save: 'Save',
+    cancel: 'Cancel',
+    noTasks: 'No pending follow-ups. Tasks from your documents will appear here.',
+    overdue: 'Overdue',
+    dueToday: 'Due today',
+    dueTomorrow: 'Due tomorrow',
+    due: 'Due',
+    noDueDate: 'No due date',
+    from: 'From',
+    markDone: 'Mark as done',
+    dismiss: 'Dismiss',
+    delete: 'Delete',
+    confirmDelete: 'Delete this task?',
+    showAll: 'Show all',
+    showLess: 'Show less'
+  },
+  hi: {
+    title: 'स्वास्थ्य कार्य',
+    subtitle: 'आपके प्रिस्क्रिप्शन और रिपोर्ट से फॉलो-अप',
+    addTask: 'कार्य जोड़ें',
+    taskTitle: 'क्या करना है?',
+    dueDate: 'नियत तारीख',
+    save: 'सहेजें',
+    cancel: 'रद्द करें',
+    noTasks: 'कोई लंबित फॉलो-अप नहीं। आपके दस्तावेज़ों के कार्य यहां दिखाई देंगे।',
+    overdue: 'समय बीत गया',
+    dueToday: 'आज करना है',
+    dueTomorrow: 'कल करना है',
+    due: 'नियत',
+    noDueDate: 'कोई नियत तारीख नहीं',
+    from: 'स्रोत',
+    markDone: 'पूरा हुआ',
+    dismiss: 'हटाएं',
+    delete: 'मिटाएं',
+    confirmDelete: 'यह कार्य मिटाएं?',
+    showAll: 'सभी देखें',
+    showLess: 'कम देखें'
+  }
+};
+
+function startOfDay(date: Date): number {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+}
+
+export const HealthTasksCard = ({
+  tasks,
+  language = 'en',
+  isLoading = false,
+  isSaving = false,
+  onAdd,
+  onComplete,
+  onDismiss,
+  onDelete,
+  onDocumentClick
+}: HealthTasksCardProps) => {
+  const t = translations[language];
+  const [isAdding, setIsAdding] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const [newTitle, setNewTitle] = useState('');
+  const [newDueDate, setNewDueDate] = useState('');
+
+  const visibleTasks = showAll ? tasks : tasks.slice(0, COLLAPSED_COUNT);
+
+  const getDueLabel = (dueDate: string | null): { text: string; className: string } => {
+    if (!dueDate) {
+      return { text: t.noDueDate, className: 'text-gray-500' };
+    }
+    const due = new Date(dueDate);
+    const days = Math.round((startOfDay(due) - startOfDay(new Date())) / (24 * 60 * 60 * 1000));
+    if (days < 0) return { text: t.overdue, className: 'text-red-600 font-medium' };
+    if (days === 0) return { text: t.dueToday, className: 'text-amber-600 font-medium' };
+    if (days === 1) return { text: t.dueTomorrow, className: 'text-amber-600' };
+    return {
+      text: `${t.due} ${due.toLocaleDateString(language === 'hi' ? 'hi-IN' : 'en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}`,
+      className: 'text-gray-500'
+    };
+  };
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setNewTitle('');
+    setNewDueDate('');
+  };
+
+  const handleSave = () => {
+    if (!newTitle.trim()) return;
+    onAdd?.({ title: newTitle.trim(), dueDate: newDueDate || null });
+    resetForm();
+  };
+
+  return (
+    <div className="space-y-4" data-testid="card-health-tasks">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900" data-testid="text-health-tasks-title">{t.title}</h2>
+          <p className="text-sm text-gray-500">{t.subtitle}</p>
+        </div>
+        {onAdd && !isAdding && (
+          <button
+            className="text-blue-600 text-sm font-medium flex items-center gap-1 hover:underline"
+            onClick={() => setIsAdding(true)}
+            data-testid="button-add-task"
+          >
+            <Plus className="w-4 h-4" />
+            {t.addTask}
+          </button>
+        )}
+      </div>
+
+      {isAdding && (
+        <div className="bg-white rounded-xl border border-blue-200 p-4 space-y-3 shadow-sm" data-testid="form-add-task">
+          <input
+            type="text"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            placeholder={t.taskTitle}
+            maxLength={200}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            data-testid="input-task-title"
+            autoFocus
+          />
+          <label className="block text-xs text-gray-500">
+            {t.dueDate}
+            <input
+              type="date"
+              value={newDueDate}
+              onChange={(e) => setNewDueDate(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              data-testid="input-task-due-date"
+            />
+          </label>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={resetForm}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+              data-testid="button-cancel-task"
+            >
+              {t.cancel}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!newTitle.trim() || isSaving}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+              data-testid="button-save-task"
+            >
+              {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+              {t.save}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="bg-gray-50 rounded-xl p-6 text-center" data-testid="loading-tasks">
+          <Loader2 className="w-5 h-5 text-gray-400 animate-spin mx-auto" />
+        </div>
+      ) : tasks.length === 0 ? (
+        <div className="bg-gray-50 rounded-xl p-6 text-center" data-testid="empty-tasks">
+          <ClipboardList className="w-12 h-12 text-gray-300 mx-auto mb-2" />
+          <p className="text-sm text-gray-500">{t.noTasks}</p>
+        </div>
+      ) : (
+        <div className="space-y-2" data-testid="health-tasks-list">
+          {visibleTasks.map((task, index) => {
+            const dueLabel = getDueLabel(task.dueDate);
+            return (
+              <motion.div
+                key={task.id}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.05 * index }}
+                className="bg-white rounded-xl border border-gray-200 p-3 flex items-start gap-3 shadow-sm"
+                data-testid={`card-task-${task.id}`}
+              >
+                <button
+                  onClick={() => onComplete?.(task.id)}
+                  className="mt-0.5 w-5 h-5 rounded-full border-2 border-gray-300 hover:border-green-500 hover:bg-green-50 flex items-center justify-center flex-shrink-0 group"
+                  aria-label={t.markDone}
+                  title={t.markDone}
+                  data-testid={`button-complete-task-${task.id}`}
+                >
+                  <Check className="w-3 h-3 text-green-600 opacity-0 group-hover:opacity-100" />
+                </button>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900" title={task.sourceText || undefined}>{task.title}</p>
+                  <p className={`text-xs ${dueLabel.className}`}>{dueLabel.text}</p>
+                  {task.sourceDocumentId && task.sourceDocumentTitle && (
+                    <button
+                      onClick={() => onDocumentClick?.(task.sourceDocumentId!)}
+                      className="text-xs text-blue-600 hover:underline flex items-center gap-1 mt-0.5 max-w-full"
+                      data-testid={`link-task-document-${task.id}`}
+                    >
+                      <FileText className="w-3 h-3 flex-shrink-0" />
+                      <span className="truncate">{t.from}: {task.sourceDocumentTitle}</span>
+                    </button>
+                  )}
+                </div>
+                {task.source === 'document' ? (
+                  <button
+                    onClick={() => onDismiss?.(task.id)}
+                    className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                    aria-label={t.dismiss}
+                    title={t.dismiss}
+                    data-testid={`button-dismiss-task-${task.id}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => {
+                      if (window.confirm(t.confirmDelete)) onDelete?.(task.id);
+                    }}
+                    className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                    aria-label={t.delete}
+                    title={t.delete}
+                    data-testid={`button-delete-task-${task.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </motion.div>
+            );
+          })}
+          {tasks.length > COLLAPSED_COUNT && (
+            <button
+              onClick={() => setShowAll(!showAll)}
+              className="w-full text-blue-600 text-sm font-medium flex items-center justify-center gap-1 py-1 hover:underline"
+              data-testid="button-toggle-tasks"
+            >
+              {showAll ? t.showLess : `${t.showAll} (${tasks.length})`}
+              {showAll ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,26 +1,51 @@
 import { useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, ZoomIn, ZoomOut, RotateCw } from 'lucide-react';
+import { X, ZoomIn, ZoomOut, RotateCw, ChevronLeft, ChevronRight, Highlighter } from 'lucide-react';
 import { useState } from 'react';
+import { AnnotationOverlay, type AnnotationMark } from '@/components/AnnotationOverlay';
+import type { AnnotationRegion } from '@/lib/api/documents';
 
 type ImagePreviewModalProps = {
-  imageUrl: string;
+  imageUrl?: string;
+  pages?: string[]; // Page image URLs of a multi-page document; used instead of imageUrl
+  initialPage?: number; // 0-based
   alt?: string;
   isOpen: boolean;
   onClose: () => void;
+  annotations?: AnnotationMark[]; // Highlights across all pages (1-based page numbers)
+  onDrawRegion?: (page: number, region: AnnotationRegion) => void; // Enables highlight mode
 };
 
+// Horizontal swipe distance (px) that turns the page when not zoomed in
+const SWIPE_DISTANCE = 60;
+
 export const ImagePreviewModal = ({
   imageUrl,
+  pages,
+  initialPage = 0,
   alt = 'Document preview',
   isOpen,
   onClose,
+  annotations = [],
+  onDrawRegion,
 }: ImagePreviewModalProps) => {
+  const [pageIndex, setPageIndex] = useState(initialPage);
+  const [touchStartX, setTouchStartX] = useState<number | null>(null);
   const [scale, setScale] = useState(1);
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [rotation, setRotation] = useState(0);
+  const [highlighting, setHighlighting] = useState(false);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+
+  const pageCount = pages?.length ?? 0;
+  const currentUrl = pages ? pages[pageIndex] : imageUrl;
+  // A single image is page 1
+  const pageAnnotations = annotations.filter((annotation) => (annotation.page ?? 1) === pageIndex + 1);
+  // Regions are drawn on the upright page only
+  const drawing = highlighting && rotation === 0;
 
   // Reset on open
   useEffect(() => {
@@ -28,8 +53,18 @@ export const ImagePreviewModal = ({
       setScale(1);
       setPosition({ x: 0, y: 0 });
       setRotation(0);
+      setPageIndex(initialPage);
+      setHighlighting(false);
+      setActiveAnnotationId(null);
     }
-  }, [isOpen]);
+  }, [isOpen, initialPage]);
+
+  const goToPage = (index: number) => {
+    if (index < 0 || index >= pageCount) return;
+    setPageIndex(index);
+    setScale(1);
+    setPosition({ x: 0, y: 0 });
+  };
 
   // Keyboard navigation
   useEffect(() => {
@@ -45,12 +80,17 @@ export const ImagePreviewModal = ({
       } else if (e.key === '0') {
         setScale(1);
         setPosition({ x: 0, y: 0 });
+      } else if (e.key === 'ArrowLeft') {
+        goToPage(pageIndex - 1);
+      } else if (e.key === 'ArrowRight') {
+        goToPage(pageIndex + 1);
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, onClose]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, onClose, pageIndex, pageCount]);
 
   const handleZoomIn = () => {
     setScale(prev => Math.min(prev + 0.2, 3));
@@ -71,7 +111,7 @@ export const ImagePreviewModal = ({
   };
 
   const handleMouseDown = (e: React.MouseEvent) => {
-    if (scale > 1) {
+    if (scale > 1 && !drawing) {
       setIsDragging(true);
       setDragStart({
         x: e.clientX - position.x,
@@ -93,6 +133,22 @@ export const ImagePreviewModal = ({
     setIsDragging(false);
   };
 
+  // Swipe between pages; while zoomed in, touch moves pan the page instead
+  const handleTouchStart = (e: React.TouchEvent) => {
+    setTouchStartX(scale === 1 && pageCount > 1 && !drawing ? e.touches[0].clientX : null);
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartX === null) return;
+    const distance = e.changedTouches[0].clientX - touchStartX;
+    if (distance < -SWIPE_DISTANCE) {
+      goToPage(pageIndex + 1);
+    } else if (distance > SWIPE_DISTANCE) {
+      goToPage(pageIndex - 1);
+    }
+    setTouchStartX(null);
+  };
+
   const handleWheel = (e: React.WheelEvent) => {
     e.preventDefault();
     const delta = e.deltaY > 0 ? -0.1 : 0.1;
@@ -162,6 +218,22 @@ export const ImagePreviewModal = ({
           >
             Reset
           </button>
+          {onDrawRegion && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setRotation(0);
+                setHighlighting(prev => !prev);
+              }}
+              className={`p-2 rounded-full transition-colors ${
+                highlighting ? 'bg-yellow-400 text-gray-900' : 'bg-white/10 hover:bg-white/20 text-white'
+              }`}
+              aria-label="Highlight"
+              aria-pressed={highlighting}
+            >
+              <Highlighter className="w-5 h-5" />
+            </button>
+          )}
         </div>
 
         {/* Image container */}
@@ -172,28 +244,84 @@ export const ImagePreviewModal = ({
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
           onMouseLeave={handleMouseUp}
+          onTouchStart={handleTouchStart}
+          onTouchEnd={handleTouchEnd}
           onWheel={handleWheel}
         >
-          <motion.img
-            src={imageUrl}
-            alt={alt}
-            className="max-w-full max-h-[90vh] object-contain select-none"
+          {/* Highlights share the image's transform so they stay on their region */}
+          <div
+            className="relative"
             style={{
               transform: `scale(${scale}) translate(${position.x / scale}px, ${position.y / scale}px) rotate(${rotation}deg)`,
-              cursor: scale > 1 ? (isDragging ? 'grabbing' : 'grab') : 'default',
-            }}
-            initial={{ scale: 0.9, opacity: 0 }}
-            animate={{ scale: 1, opacity: 1 }}
-            exit={{ scale: 0.9, opacity: 0 }}
-            transition={{ duration: 0.2 }}
-            draggable={false}
-            onError={(e) => {
-              console.error('Failed to load image in modal');
-              e.currentTarget.style.display = 'none';
+              cursor: scale > 1 && !drawing ? (isDragging ? 'grabbing' : 'grab') : 'default',
             }}
-          />
+          >
+            <motion.img
+              key={currentUrl}
+              src={currentUrl}
+              alt={alt}
+              className="block max-w-full max-h-[90vh] object-contain select-none"
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              transition={{ duration: 0.2 }}
+              draggable={false}
+              onLoad={(e) => {
+                const { naturalWidth, naturalHeight } = e.currentTarget;
+                setImageSize({ width: naturalWidth, height: naturalHeight });
+              }}
+              onError={(e) => {
+                console.error('Failed to load image in modal');
+                e.currentTarget.style.display = 'none';
+              }}
+            />
+            {(pageAnnotations.length > 0 || drawing) && (
+              <AnnotationOverlay
+                annotations={pageAnnotations}
+                imageSize={imageSize}
+                drawing={drawing}
+                activeId={activeAnnotationId}
+                onSelect={(id) => setActiveAnnotationId(prev => (prev === id ? null : id))}
+                onDrawRegion={(region) => {
+                  setHighlighting(false);
+                  onDrawRegion?.(pageIndex + 1, region);
+                }}
+              />
+            )}
+          </div>
         </div>
 
+        {/* Page navigation */}
+        {pageCount > 1 && (
+          <>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                goToPage(pageIndex - 1);
+              }}
+              disabled={pageIndex === 0}
+              className="absolute left-4 top-1/2 -translate-y-1/2 z-10 p-2 bg-white/10 hover:bg-white/20 rounded-full text-white transition-colors disabled:opacity-30"
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="w-6 h-6" />
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                goToPage(pageIndex + 1);
+              }}
+              disabled={pageIndex === pageCount - 1}
+              className="absolute right-4 top-1/2 -translate-y-1/2 z-10 p-2 bg-white/10 hover:bg-white/20 rounded-full text-white transition-colors disabled:opacity-30"
+              aria-label="Next page"
+            >
+              <ChevronRight className="w-6 h-6" />
+            </button>
+            <div className="absolute top-5 left-1/2 transform -translate-x-1/2 px-3 py-1 bg-white/10 rounded-full text-white text-sm">
+              {pageIndex + 1} / {pageCount}
+            </div>
+          </>
+        )}
+
         {/* Zoom indicator */}
         {scale !== 1 && (
           <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 px-4 py-2 bg-white/10 rounded-full text-white text-sm">
@@ -0,0 +1,333 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { FlaskConical, Plus, Edit2, Trash2, Check, X, RotateCw, Loader2 } from 'lucide-react';
+
+type AbnormalFlag = 'normal' | 'low' | 'high' | 'abnormal';
+
+export type LabResultItem = {
+  id: string;
+  analyte: string;
+  value: string;
+  unit: string | null;
+  referenceRange: string | null;
+  abnormalFlag: AbnormalFlag | null;
+  source: 'ai' | 'manual';
+  canonicalAnalyte?: string | null;
+  normalizedValue?: number | null;
+  normalizedUnit?: string | null;
+};
+
+export type LabResultInput = {
+  analyte: string;
+  value: string;
+  unit: string | null;
+  referenceRange: string | null;
+};
+
+type LabResultsCardProps = {
+  results: LabResultItem[];
+  language?: 'en' | 'hi';
+  isLoading?: boolean;
+  isSaving?: boolean;
+  isExtracting?: boolean;
+  onAdd?: (data: LabResultInput) => void;
+  onUpdate?: (id: string, data: LabResultInput) => void;
+  onDelete?: (id: string) => void;
+  onExtract?: () => void;
+};
+
+const translations = {
+  en: {
+    labResults: 'Lab Results',
+    analyte: 'Test',
+    value: 'Result',
+    unit: 'Unit',
+    referenceRange: 'Reference range',
+    addResult: 'Add Result',
+    extractAgain: 'Read results again',
+    noResults: 'No lab results found in this report yet.',
+    save: 'Save',
+    cancel: 'Cancel',
+    edited: 'Edited',
+    confirmDelete: 'Delete this lab result?',
+    flags: {
+      normal: 'Normal',
+      low: 'Low',
+      high: 'High',
+      abnormal: 'Abnormal'
+    }
+  },
+  hi: {
+    labResults: 'लैब परिणाम',
+    analyte: 'जांच',
+    value: 'परिणाम',
+    unit: 'इकाई',
+    referenceRange: 'संदर्भ सीमा',
+    addResult: 'परिणाम जोड़ें',
+    extractAgain: 'परिणाम फिर से पढ़ें',
+    noResults: 'इस रिपोर्ट में अभी तक कोई लैब परिणाम नहीं मिला।',
+    save: 'सहेजें',
+    cancel: 'रद्द करें',
+    edited: 'संपादित',
+    confirmDelete: 'यह लैब परिणाम हटाएं?',
+    flags: {
+      normal: 'सामान्य',
+      low: 'कम',
+      high: 'अधिक',
+      abnormal: 'असामान्य'
+    }
+  }
+};
+
+const emptyInput: LabResultInput = { analyte: '', value: '', unit: null, referenceRange: null };
+
+const getFlagColor = (flag: AbnormalFlag) => {
+  switch (flag) {
+    case 'normal':
+      return 'bg-green-50 text-green-700';
+    case 'low':
+      return 'bg-blue-50 text-blue-700';
+    case 'high':
+      return 'bg-red-50 text-red-700';
+    case 'abnormal':
+      return 'bg-orange-50 text-orange-700';
+  }
+};
+
+export function LabResultsCard({
+  results,
+  language = 'en',
+  isLoading = false,
+  isSaving = false,
+  isExtracting = false,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onExtract
+}: LabResultsCardProps) {
+  // 'new' while adding a row, a result id while editing one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<LabResultInput>(emptyInput);
+
+  const t = translations[language];
+
+  const startEdit = (result: LabResultItem) => {
+    setEditingId(result.id);
+    setDraft({
+      analyte: result.analyte,
+      value: result.value,
+      unit: result.unit,
+      referenceRange: result.referenceRange
+    });
+  };
+
+  const startAdd = () => {
+    setEditingId('new');
+    setDraft(emptyInput);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setDraft(emptyInput);
+  };
+
+  const saveEdit = () => {
+    if (!draft.analyte.trim() || !draft.value.trim()) return;
+    const data = {
+      ...draft,
+      unit: draft.unit?.trim() || null,
+      referenceRange: draft.referenceRange?.trim() || null
+    };
+    if (editingId === 'new') {
+      onAdd?.(data);
+    } else if (editingId) {
+      onUpdate?.(editingId, data);
+    }
+    cancelEdit();
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm(t.confirmDelete)) {
+      onDelete?.(id);
+    }
+  };
+
+  const renderEditor = () => (
+    <div className="border border-blue-200 bg-blue-50/40 rounded-lg p-3 space-y-2" data-testid="form-lab-result">
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          value={draft.analyte}
+          onChange={(e) => setDraft({ ...draft, analyte: e.target.value })}
+          placeholder={t.analyte}
+          className="col-span-2 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          data-testid="input-lab-analyte"
+        />
+        <input
+          value={draft.value}
+          onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+          placeholder={t.value}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          data-testid="input-lab-value"
+        />
+        <input
+          value={draft.unit || ''}
+          onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+          placeholder={t.unit}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          data-testid="input-lab-unit"
+        />
+        <input
+          value={draft.referenceRange || ''}
+          onChange={(e) => setDraft({ ...draft, referenceRange: e.target.value })}
+          placeholder={t.referenceRange}
+          className="col-span-2 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          data-testid="input-lab-reference-range"
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={cancelEdit}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          data-testid="button-cancel-lab-result"
+        >
+          <X className="w-4 h-4" />
+          {t.cancel}
+        </button>
+        <button
+          onClick={saveEdit}
+          disabled={isSaving || !draft.analyte.trim() || !draft.value.trim()}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          data-testid="button-save-lab-result"
+        >
+          <Check className="w-4 h-4" />
+          {t.save}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ y: 20, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ delay: 0.25 }}
+      className="bg-white border border-gray-200 rounded-xl p-4 md:p-5 lg:p-6 shadow-sm"
+      data-testid="card-lab-results"
+    >
+      <div className="flex items-center justify-between mb-3 md:mb-4">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="w-5 h-5 md:w-6 md:h-6 text-blue-600" />
+          <h3 className="text-base md:text-lg lg:text-xl font-semibold text-gray-900">{t.labResults}</h3>
+        </div>
+        {onExtract && (
+          <button
+            onClick={onExtract}
+            disabled={isExtracting}
+            className="p-1.5 md:p-2 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-50"
+            aria-label={t.extractAgain}
+            title={t.extractAgain}
+            data-testid="button-extract-lab-results"
+          >
+            {isExtracting ? (
+              <Loader2 className="w-4 h-4 md:w-5 md:h-5 text-gray-500 animate-spin" />
+            ) : (
+              <RotateCw className="w-4 h-4 md:w-5 md:h-5 text-gray-500" />
+            )}
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-2" data-testid="list-lab-results">
+          {results.length === 0 && editingId !== 'new' && (
+            <p className="text-sm md:text-base text-gray-600" data-testid="text-no-lab-results">{t.noResults}</p>
+          )}
+
+          {results.map((result) =>
+            editingId === result.id ? (
+              <div key={result.id}>{renderEditor()}</div>
+            ) : (
+              <div
+                key={result.id}
+                className="flex items-start justify-between gap-3 py-2 border-b border-gray-100 last:border-b-0"
+                data-testid={`row-lab-result-${result.id}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm md:text-base font-medium text-gray-900 truncate">{result.analyte}</p>
+                  {result.canonicalAnalyte && result.canonicalAnalyte !== result.analyte && (
+                    <p className="text-xs text-gray-400 truncate">{result.canonicalAnalyte}</p>
+                  )}
+                  {result.referenceRange && (
+                    <p className="text-xs md:text-sm text-gray-500">
+                      {t.referenceRange}: {result.referenceRange}
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                  <p className="text-sm md:text-base font-semibold text-gray-900">
+                    {result.value}
+                    {result.unit && <span className="text-gray-500 font-normal"> {result.unit}</span>}
+                  </p>
+                  {/* Printed in a different unit - show it in the unit used across reports */}
+                  {result.normalizedValue != null && result.normalizedUnit && result.normalizedUnit !== result.unit && (
+                    <p className="text-xs text-gray-500" data-testid={`text-lab-normalized-${result.id}`}>
+                      = {result.normalizedValue} {result.normalizedUnit}
+                    </p>
+                  )}
+                  <div className="flex items-center gap-1">
+                    {result.abnormalFlag && (
+                      <span
+                        className={`px-2 py-0.5 text-xs font-medium rounded-full ${getFlagColor(result.abnormalFlag)}`}
+                        data-testid={`text-lab-flag-${result.id}`}
+                      >
+                        {t.flags[result.abnormalFlag]}
+                      </span>
+                    )}
+                    {result.source === 'manual' && (
+                      <span className="text-xs text-gray-400">{t.edited}</span>
+                    )}
+                    {onUpdate && (
+                      <button
+                        onClick={() => startEdit(result)}
+                        className="p-1 hover:bg-gray-100 rounded transition-colors"
+                        data-testid={`button-edit-lab-result-${result.id}`}
+                      >
+                        <Edit2 className="w-3.5 h-3.5 text-gray-500" />
+                      </button>
+                    )}
+                    {onDelete && (
+                      <button
+                        onClick={() => handleDelete(result.id)}
+                        className="p-1 hover:bg-red-50 rounded transition-colors"
+                        data-testid={`button-delete-lab-result-${result.id}`}
+                      >
+                        <Trash2 className="w-3.5 h-3.5 text-red-500" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )
+          )}
+
+          {editingId === 'new' && renderEditor()}
+
+          {onAdd && editingId === null && (
+            <button
+              onClick={startAdd}
+              className="w-full flex items-center justify-center gap-2 mt-2 py-2 border border-dashed border-gray-300 rounded-lg text-sm md:text-base text-gray-700 hover:bg-gray-50 transition-colors"
+              data-testid="button-add-lab-result"
+            >
+              <Plus className="w-4 h-4" />
+              {t.addResult}
+            </button>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
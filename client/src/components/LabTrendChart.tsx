@@ -0,0 +1,156 @@
+import { CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis, type DotProps } from 'recharts';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { TrendSeries } from '@/lib/api/health';
+
+type LabTrendChartProps = {
+  series: TrendSeries;
+  onPointClick?: (documentId: string) => void;
+};
+
+type ChartPoint = TrendSeries['points'][number] & { label: string };
+
+// Recharts passes each dot its data point along with the position
+type TrendDotProps = DotProps & { payload: ChartPoint };
+
+const chartConfig = {
+  value: {
+    label: 'Result',
+    color: 'hsl(221 83% 53%)'
+  }
+} satisfies ChartConfig;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: '2-digit' });
+
+// Round chart bounds so the reference band is always visible around the readings
+const getDomain = (series: TrendSeries): [number, number] => {
+  const values = series.points.map((point) => point.numericValue);
+  if (series.referenceLow !== null) values.push(series.referenceLow);
+  if (series.referenceHigh !== null) values.push(series.referenceHigh);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const padding = (max - min) * 0.15 || Math.abs(max) * 0.1 || 1;
+  return [Math.max(0, min - padding), max + padding];
+};
+
+export function LabTrendChart({ series, onPointClick }: LabTrendChartProps) {
+  const data: ChartPoint[] = series.points.map((point) => ({
+    ...point,
+    label: formatDate(point.date)
+  }));
+  const [domainMin, domainMax] = getDomain(series);
+
+  const DirectionIcon =
+    series.direction === 'up' ? TrendingUp : series.direction === 'down' ? TrendingDown : Minus;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5" data-testid={`chart-trend-${series.key}`}>
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div>
+          <h3 className="font-semibold text-gray-900">{series.analyte}</h3>
+          <p className="text-xs text-gray-500">
+            {series.points.length} {series.points.length === 1 ? 'reading' : 'readings'}
+            {(series.referenceLow !== null || series.referenceHigh !== null) && (
+              <>
+                {' · '}Normal{' '}
+                {series.referenceLow !== null && series.referenceHigh !== null
+                  ? `${series.referenceLow}–${series.referenceHigh}`
+                  : series.referenceLow !== null
+                    ? `≥ ${series.referenceLow}`
+                    : `≤ ${series.referenceHigh}`}
+                {series.unit && ` ${series.unit}`}
+              </>
+            )}
+          </p>
+        </div>
+        <div className="text-right flex-shrink-0">
+          <p className={`text-lg font-bold ${series.latest.outOfRange ? 'text-red-600' : 'text-gray-900'}`}>
+            {series.latest.numericValue}
+            {series.unit && <span className="text-xs font-normal text-gray-500"> {series.unit}</span>}
+          </p>
+          {series.change !== null && (
+            <p className="text-xs text-gray-600 flex items-center justify-end gap-1">
+              <DirectionIcon className="w-3 h-3" />
+              {series.change > 0 ? '+' : ''}
+              {series.change} since last report
+            </p>
+          )}
+        </div>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-44 w-full">
+        <LineChart data={data} margin={{ top: 8, right: 12, left: -12, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+          <YAxis
+            domain={[domainMin, domainMax]}
+            tickLine={false}
+            axisLine={false}
+            width={48}
+            tickFormatter={(value: number) => `${Number(value.toFixed(1))}`}
+          />
+          {(series.referenceLow !== null || series.referenceHigh !== null) && (
+            <ReferenceArea
+              y1={series.referenceLow ?? domainMin}
+              y2={series.referenceHigh ?? domainMax}
+              fill="hsl(142 71% 45%)"
+              fillOpacity={0.12}
+              ifOverflow="extendDomain"
+            />
+          )}
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => payload?.[0]?.payload?.documentTitle}
+                formatter={(_, __, item) => (
+                  <div className="flex w-full justify-between gap-4">
+                    <span className="text-muted-foreground">{item.payload.label}</span>
+                    <span className={`font-mono font-medium ${item.payload.outOfRange ? 'text-red-600' : ''}`}>
+                      {item.payload.numericValue}
+                      {series.unit && ` ${series.unit}`}
+                      {item.payload.unit !== series.unit && (
+                        <span className="text-muted-foreground font-normal">
+                          {' '}({item.payload.value}{item.payload.unit && ` ${item.payload.unit}`})
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                )}
+              />
+            }
+          />
+          <Line
+            dataKey="numericValue"
+            type="monotone"
+            stroke="var(--color-value)"
+            strokeWidth={2}
+            isAnimationActive={false}
+            dot={(props: TrendDotProps) => {
+              const { cx, cy, payload } = props;
+              return (
+                <circle
+                  key={payload.observationId}
+                  cx={cx}
+                  cy={cy}
+                  r={payload.outOfRange ? 5 : 4}
+                  fill={payload.outOfRange ? 'hsl(0 84% 60%)' : 'var(--color-value)'}
+                  stroke="#fff"
+                  strokeWidth={1.5}
+                  style={{ cursor: onPointClick ? 'pointer' : undefined }}
+                  onClick={() => onPointClick?.(payload.documentId)}
+                />
+              );
+            }}
+          />
+        </LineChart>
+      </ChartContainer>
+
+      {series.outOfRangeCount > 0 && (
+        <p className="text-xs text-red-600 mt-2">
+          {series.outOfRangeCount} of {series.points.length} readings outside the normal range
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Camera, Upload, QrCode, FileArchive, ArrowLeft, Check, X, Clock, ChevronRight, FileText, Calendar, Building2, Tag, Globe, Volume2, CheckCircle2, AlertCircle, Wifi, WifiOff } from 'lucide-react';
+import { Camera, Upload, QrCode, FileArchive, ArrowLeft, Check, X, Clock, ChevronRight, FileText, Calendar, Building2, Tag, Globe, Volume2, CheckCircle2, AlertCircle, Wifi, WifiOff, Copy } from 'lucide-react';
+import { isNetworkError, isOfflineQueueSupported } from '@/lib/offlineQueue';
 
 type Language = 'en' | 'hi';
 type DocumentType = 'lab' | 'prescription' | 'imaging' | 'bill' | 'other';
@@ -24,6 +25,18 @@ type DocumentData = {
   ocrFields: OCRField[];
   documentType: DocumentType;
   tags: string[];
+  duplicateAction?: 'replace' | 'keep';
+  duplicateOf?: string;
+};
+
+type DuplicateMatch = {
+  id: string;
+  title: string;
+  provider?: string | null;
+  date?: string | null;
+  createdAt: string;
+  matchType: 'exact' | 'similar';
+  similarity: number;
 };
 
 type ArogyaVaultAddDocumentWizardProps = {
@@ -82,7 +95,15 @@ const translations = {
     online: 'Online',
     pendingUpload: 'Pending upload',
     summary: 'Summary',
-    guidedMode: 'Voice guidance enabled'
+    guidedMode: 'Voice guidance enabled',
+    duplicateExact: 'Already in your vault',
+    duplicateSimilar: 'Looks like a document you already have',
+    duplicateExactDesc: 'This exact file was uploaded before.',
+    duplicateSimilarDesc: 'A document with the same date, provider and content is already saved.',
+    uploadedOn: 'Uploaded on',
+    skipUpload: 'Skip',
+    replaceAsVersion: 'Replace as new version',
+    keepBoth: 'Keep both'
   },
   hi: {
     title: 'नया दस्तावेज़ जोड़ें',
@@ -132,7 +153,15 @@ const translations = {
     online: 'ऑनलाइन',
     pendingUpload: 'अपलोड लंबित',
     summary: 'सारांश',
-    guidedMode: 'वॉयस मार्गदर्शन सक्षम'
+    guidedMode: 'वॉयस मार्गदर्शन सक्षम',
+    duplicateExact: 'पहले से आपके वॉल्ट में है',
+    duplicateSimilar: 'यह आपके पास पहले से मौजूद दस्तावेज़ जैसा लगता है',
+    duplicateExactDesc: 'यही फ़ाइल पहले अपलोड की जा चुकी है।',
+    duplicateSimilarDesc: 'समान तारीख, प्रदाता और सामग्री वाला दस्तावेज़ पहले से सहेजा गया है।',
+    uploadedOn: 'अपलोड किया गया',
+    skipUpload: 'छोड़ें',
+    replaceAsVersion: 'नए संस्करण के रूप में बदलें',
+    keepBoth: 'दोनों रखें'
   }
 };
 
@@ -192,13 +221,26 @@ export const ArogyaVaultAddDocumentWizard = (props: ArogyaVaultAddDocumentWizard
     documentType: 'lab',
     tags: ['lab', 'blood-test']
   });
-  const [isOnline, setIsOnline] = useState<boolean>(true);
+  const [isOnline, setIsOnline] = useState<boolean>(() => navigator.onLine);
   const [showSuccess, setShowSuccess] = useState<boolean>(false);
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[]>([]);
 
   const t = translations[language];
 
+  // Captures made offline are queued and uploaded when the connection returns
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
   const handleSourceSelect = (method: SourceMethod) => {
     setSourceMethod(method);
     setDocumentData(prev => ({ ...prev, sourceMethod: method }));
@@ -362,13 +404,14 @@ export const ArogyaVaultAddDocumentWizard = (props: ArogyaVaultAddDocumentWizard
     }, 2000);
   };
 
-  // Handle DICOM ZIP import
+  // Handle DICOM import - a ZIP of a study (e.g. copied from an imaging CD) or a single .dcm image
   const handleDicomImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    if (!file.name.endsWith('.zip')) {
-      alert('Please select a ZIP file for DICOM import');
+    const fileName = file.name.toLowerCase();
+    if (!fileName.endsWith('.zip') && !fileName.endsWith('.dcm')) {
+      alert('Please select a ZIP or DICOM (.dcm) file for DICOM import');
       return;
     }
 
@@ -381,7 +424,7 @@ export const ArogyaVaultAddDocumentWizard = (props: ArogyaVaultAddDocumentWizard
         ...prev,
         fileName: file.name,
         fileSize: `${(file.size / 1024 / 1024).toFixed(2)} MB`,
-        fileType: 'ZIP',
+        fileType: fileName.endsWith('.dcm') ? 'DICOM' : 'ZIP',
         file: file,
       }));
       setIsCapturing(false);
@@ -418,9 +461,23 @@ export const ArogyaVaultAddDocumentWizard = (props: ArogyaVaultAddDocumentWizard
       return;
     }
 
+    // Without a connection the capture is queued as is - it is read and validated once it uploads
+    const continueOffline = (file: File) => {
+      setUploadedFile(file);
+      setDocumentData(prev => ({ ...prev, duplicateAction: undefined, duplicateOf: undefined }));
+      setIsAnalyzing(false);
+      setCurrentStep(3);
+    };
+
+    if (!navigator.onLine && isOfflineQueueSupported()) {
+      continueOffline(fileToAnalyze);
+      return;
+    }
+
     // Show loading state
     setIsAnalyzing(true);
     setAnalysisError(null);
+    setDuplicateMatches([]);
 
     try {
       // Call analyze API
@@ -510,8 +567,20 @@ export const ArogyaVaultAddDocumentWizard = (props: ArogyaVaultAddDocumentWizard
       });
 
       setIsAnalyzing(false);
+
+      // Same report already in the vault - let the user decide before continuing
+      if (Array.isArray(data.duplicates) && data.duplicates.length > 0) {
+        setDuplicateMatches(data.duplicates);
+        return;
+      }
+
+      setDocumentData(prev => ({ ...prev, duplicateAction: undefined, duplicateOf: undefined }));
       setCurrentStep(3);
     } catch (error: any) {
+      if (isNetworkError(error) && isOfflineQueueSupported()) {
+        continueOffline(fileToAnalyze);
+        return;
+      }
       console.error('Analysis error:', error);
       setAnalysisError(error.message || 'Failed to analyze document. Please try again.');
       setIsAnalyzing(false);
@@ -522,6 +591,19 @@ export const ArogyaVaultAddDocumentWizard = (props: ArogyaVaultAddDocumentWizard
     setShowSuccess(true);
   };
 
+  const handleDuplicateChoice = (action: 'replace' | 'keep') => {
+    const match = duplicateMatches[0];
+    setDocumentData(prev => ({ ...prev, duplicateAction: action, duplicateOf: match?.id }));
+    setDuplicateMatches([]);
+    setCurrentStep(3);
+  };
+
+  const handleSkipDuplicate = () => {
+    stopCamera();
+    setDuplicateMatches([]);
+    onCancel?.();
+  };
+
   const handleComplete = () => {
     // Clean up camera if active
     stopCamera();
@@ -763,6 +845,66 @@ export const ArogyaVaultAddDocumentWizard = (props: ArogyaVaultAddDocumentWizard
         </div>
       )}
 
+      {/* Duplicate match - skip, replace as new version, or keep both */}
+      {duplicateMatches.length > 0 && !isAnalyzing && (
+        <div className="px-6 py-4" data-testid="duplicate-match">
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-amber-50 border border-amber-200 rounded-lg p-4"
+          >
+            <div className="flex items-start gap-3 mb-3">
+              <Copy className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <h4 className="font-semibold text-amber-900 mb-1">
+                  {duplicateMatches[0].matchType === 'exact' ? t.duplicateExact : t.duplicateSimilar}
+                </h4>
+                <p className="text-sm text-amber-800">
+                  {duplicateMatches[0].matchType === 'exact' ? t.duplicateExactDesc : t.duplicateSimilarDesc}
+                </p>
+              </div>
+            </div>
+            <div className="bg-white rounded-lg border border-amber-100 p-3 mb-3" data-testid="duplicate-match-document">
+              <div className="font-medium text-gray-900">{duplicateMatches[0].title}</div>
+              <div className="text-sm text-gray-500">
+                {[
+                  duplicateMatches[0].provider,
+                  duplicateMatches[0].date ? new Date(duplicateMatches[0].date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : null
+                ].filter(Boolean).join(' • ')}
+              </div>
+              <div className="text-xs text-gray-400 mt-1">
+                {t.uploadedOn} {new Date(duplicateMatches[0].createdAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+              </div>
+            </div>
+            <div className="flex flex-col gap-2">
+              <button
+                onClick={handleSkipDuplicate}
+                className="w-full px-4 py-2.5 rounded-lg bg-amber-600 text-white text-sm font-medium hover:bg-amber-700 transition-colors"
+                data-testid="button-duplicate-skip"
+              >
+                {t.skipUpload}
+              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleDuplicateChoice('replace')}
+                  className="flex-1 px-3 py-2.5 rounded-lg border border-gray-300 bg-white text-gray-700 text-sm font-medium hover:bg-gray-50 transition-colors"
+                  data-testid="button-duplicate-replace"
+                >
+                  {t.replaceAsVersion}
+                </button>
+                <button
+                  onClick={() => handleDuplicateChoice('keep')}
+                  className="flex-1 px-3 py-2.5 rounded-lg border border-gray-300 bg-white text-gray-700 text-sm font-medium hover:bg-gray-50 transition-colors"
+                  data-testid="button-duplicate-keep"
+                >
+                  {t.keepBoth}
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      )}
+
       {/* Error message */}
       {analysisError && !isAnalyzing && (
         <div className="px-6 py-4">
@@ -978,7 +1120,7 @@ export const ArogyaVaultAddDocumentWizard = (props: ArogyaVaultAddDocumentWizard
             <input
               type="file"
               id="dicom-upload"
-              accept=".zip"
+              accept=".zip,.dcm"
               onChange={handleDicomImport}
               className="hidden"
             />
@@ -986,7 +1128,7 @@ export const ArogyaVaultAddDocumentWizard = (props: ArogyaVaultAddDocumentWizard
               htmlFor="dicom-upload"
               className="block w-full px-4 py-3 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 transition-colors text-center cursor-pointer"
             >
-              Select DICOM ZIP File
+              Select DICOM ZIP or .dcm File
             </label>
             {isCapturing && (
               <div className="flex items-center justify-center py-8">
@@ -1018,7 +1160,10 @@ export const ArogyaVaultAddDocumentWizard = (props: ArogyaVaultAddDocumentWizard
 
       <div className="px-6 py-4 border-t border-gray-200 flex gap-3">
         <button
-          onClick={() => setCurrentStep(1)}
+          onClick={() => {
+            setDuplicateMatches([]);
+            setCurrentStep(1);
+          }}
           className="px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 transition-colors"
           data-testid="button-retake-replace"
         >
@@ -1026,9 +1171,9 @@ export const ArogyaVaultAddDocumentWizard = (props: ArogyaVaultAddDocumentWizard
         </button>
         <button
           onClick={handleContinueFromCapture}
-          disabled={isCapturing || isAnalyzing || (!uploadedFile && !capturedImage) || !!analysisError}
+          disabled={isCapturing || isAnalyzing || (!uploadedFile && !capturedImage) || !!analysisError || duplicateMatches.length > 0}
           className={`flex-1 px-4 py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 ${
-            !isCapturing && !isAnalyzing && (uploadedFile || capturedImage) && !analysisError
+            !isCapturing && !isAnalyzing && (uploadedFile || capturedImage) && !analysisError && duplicateMatches.length === 0
               ? 'bg-blue-600 text-white hover:bg-blue-700'
               : 'bg-gray-200 text-gray-400 cursor-not-allowed'
           }`}
@@ -1338,14 +1483,14 @@ export const ArogyaVaultAddDocumentWizard = (props: ArogyaVaultAddDocumentWizard
       </AnimatePresence>
 
       <div className="absolute top-4 right-4 z-10">
-        <button
-          onClick={() => setIsOnline(!isOnline)}
+        <div
           className="p-2 bg-white rounded-full shadow-lg"
-          aria-label="Toggle online status"
-          data-testid="button-toggle-online"
+          aria-label={isOnline ? t.online : t.offline}
+          title={isOnline ? t.online : t.offline}
+          data-testid="status-online"
         >
           {isOnline ? <Wifi className="w-5 h-5 text-green-600" /> : <WifiOff className="w-5 h-5 text-gray-400" />}
-        </button>
+        </div>
       </div>
     </div>
   );
@@ -1,8 +1,9 @@
 import { motion } from 'framer-motion';
-import { Plus, Heart, FileText, BarChart3, Bell, Search, Globe, Mic, ChevronRight, Calendar, Pill, MapPin, WifiOff, Home, FolderOpen, Share2, AlertCircle, User, MessageCircle } from 'lucide-react';
+import { Plus, Heart, FileText, BarChart3, Bell, Search, Globe, Mic, ChevronRight, Calendar, Pill, MapPin, WifiOff, Home, FolderOpen, Share2, AlertCircle, User, MessageCircle, X, Loader2, IndianRupee } from 'lucide-react';
 import { useState } from 'react';
 import { LanguageSelector } from '@/i18n/LanguageSelector';
 import { useTranslation } from '@/i18n/useTranslation';
+import { HealthTasksCard, type HealthTaskItem, type HealthTaskInput } from './HealthTasksCard';
 
 type ArogyaVaultDashboardProps = {
   language?: 'en' | 'hi';
@@ -18,6 +19,13 @@ type ArogyaVaultDashboardProps = {
     thumbnail?: string;
   }>;
   isLoadingDocuments?: boolean;
+  healthTasks?: HealthTaskItem[]; // Pending follow-up tasks
+  isLoadingTasks?: boolean;
+  isSavingTask?: boolean;
+  onAddTask?: (data: HealthTaskInput) => void;
+  onCompleteTask?: (id: string) => void;
+  onDismissTask?: (id: string) => void;
+  onDeleteTask?: (id: string) => void;
   healthInsight?: HealthInsight | null; // Add healthInsight prop
   nearbyClinics?: Array<{
     id: string;
@@ -34,10 +42,16 @@ type ArogyaVaultDashboardProps = {
   onMicClick?: () => void;
   onNotificationsClick?: () => void;
   onSearchClick?: () => void;
+  isSearchOpen?: boolean;
+  searchQuery?: string;
+  searchResults?: SearchResultPreview[];
+  isSearching?: boolean;
+  onSearchQueryChange?: (query: string) => void;
   onUploadRecordsClick?: () => void;
   onAiInsightsClick?: () => void;
   onEmergencyCardClick?: () => void;
   onMedicationsClick?: () => void;
+  onExpensesClick?: () => void;
   onViewAllDocumentsClick?: () => void;
   onDocumentClick?: (docId: string) => void;
   onViewFullReportClick?: () => void;
@@ -53,6 +67,15 @@ type DocumentPreview = {
   thumbnail: string;
 };
 
+type SearchResultPreview = {
+  id: string;
+  title: string;
+  type: string;
+  date?: string;
+  provider?: string | null;
+  snippet?: string;
+};
+
 type HealthInsight = {
   status: 'good' | 'warning' | 'critical';
   message: string;
@@ -160,6 +183,13 @@ export const ArogyaVaultDashboard = (props: ArogyaVaultDashboardProps) => {
     pendingActions = 0,
     recentDocuments: propRecentDocuments,
     isLoadingDocuments = false,
+    healthTasks,
+    isLoadingTasks = false,
+    isSavingTask = false,
+    onAddTask,
+    onCompleteTask,
+    onDismissTask,
+    onDeleteTask,
     healthInsight: propHealthInsight, // Use prop instead of hardcoded
     nearbyClinics = [],
     isLoadingClinics = false,
@@ -169,10 +199,16 @@ export const ArogyaVaultDashboard = (props: ArogyaVaultDashboardProps) => {
     onMicClick,
     onNotificationsClick,
     onSearchClick,
+    isSearchOpen = false,
+    searchQuery = '',
+    searchResults = [],
+    isSearching = false,
+    onSearchQueryChange,
     onUploadRecordsClick,
     onAiInsightsClick,
     onEmergencyCardClick,
     onMedicationsClick,
+    onExpensesClick,
     onViewAllDocumentsClick,
     onDocumentClick,
     onViewFullReportClick,
@@ -182,7 +218,7 @@ export const ArogyaVaultDashboard = (props: ArogyaVaultDashboardProps) => {
   } = props;
   
   // Use centralized translations
-  const { translations: t } = useTranslation();
+  const { translations: t, language } = useTranslation();
   
   // Use provided documents or empty array
   const recentDocuments = propRecentDocuments || [];
@@ -278,11 +314,75 @@ export const ArogyaVaultDashboard = (props: ArogyaVaultDashboardProps) => {
             onClick={onSearchClick}
             data-testid="button-search"
           >
-            <Search className="w-5 h-5 md:w-6 md:h-6 lg:w-7 lg:h-7 text-gray-700" />
+            {isSearchOpen ? (
+              <X className="w-5 h-5 md:w-6 md:h-6 lg:w-7 lg:h-7 text-gray-700" />
+            ) : (
+              <Search className="w-5 h-5 md:w-6 md:h-6 lg:w-7 lg:h-7 text-gray-700" />
+            )}
           </motion.button>
         </div>
       </div>
 
+      {isSearchOpen && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="border-b border-gray-200 bg-white px-6 md:px-8 lg:px-10 py-3 space-y-3"
+          data-testid="search-panel"
+        >
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="search"
+              autoFocus
+              value={searchQuery}
+              onChange={(e) => onSearchQueryChange?.(e.target.value)}
+              placeholder={t.dashboard.searchPlaceholder}
+              className="w-full pl-9 pr-3 py-2.5 rounded-xl border border-gray-200 bg-gray-50 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white"
+              data-testid="input-search"
+            />
+          </div>
+
+          {searchQuery.trim().length >= 2 && (
+            <div className="max-h-80 overflow-y-auto space-y-2" data-testid="search-results">
+              {isSearching ? (
+                <div className="flex items-center justify-center gap-2 py-4 text-sm text-gray-500" data-testid="loading-search">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  {t.dashboard.searching}
+                </div>
+              ) : searchResults.length > 0 ? (
+                searchResults.map((result) => (
+                  <motion.div
+                    key={result.id}
+                    whileTap={{ scale: 0.98 }}
+                    className="flex items-start gap-3 p-3 rounded-xl border border-gray-200 hover:bg-gray-50 cursor-pointer"
+                    onClick={() => onDocumentClick?.(result.id)}
+                    data-testid={`search-result-${result.id}`}
+                  >
+                    <div className="w-9 h-9 bg-blue-50 rounded-lg flex items-center justify-center flex-shrink-0">
+                      <FileText className="w-5 h-5 text-blue-600" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium text-gray-900 truncate">{result.title}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {[result.type, result.provider, result.date].filter(Boolean).join(' • ')}
+                      </p>
+                      {result.snippet && (
+                        <p className="text-xs text-gray-600 mt-1 line-clamp-2">{result.snippet}</p>
+                      )}
+                    </div>
+                  </motion.div>
+                ))
+              ) : (
+                <p className="py-4 text-center text-sm text-gray-500" data-testid="empty-search">
+                  {t.dashboard.noSearchResults}
+                </p>
+              )}
+            </div>
+          )}
+        </motion.div>
+      )}
+
       <div className="flex-1 overflow-y-auto pb-20 md:pb-24 lg:pb-28">
         <div className="px-6 md:px-8 lg:px-10 pt-6 md:pt-8 lg:pt-10 space-y-6 md:space-y-8 lg:space-y-10">
           <motion.div 
@@ -391,6 +491,29 @@ export const ArogyaVaultDashboard = (props: ArogyaVaultDashboardProps) => {
                   </div>
                 </div>
               </motion.button>
+
+              <motion.button 
+                whileHover={{ scale: 1.03 }} 
+                whileTap={{ scale: 0.97 }} 
+                className="flex-shrink-0 w-[280px] md:w-[320px] lg:w-[360px] bg-gradient-to-br from-amber-500 via-amber-600 to-amber-700 rounded-3xl p-8 md:p-10 lg:p-12 flex flex-col justify-between shadow-lg hover:shadow-2xl transition-all duration-500 snap-center relative overflow-hidden group"
+                onClick={onExpensesClick}
+                data-testid="button-expenses"
+              >
+                <div className="absolute inset-0 bg-gradient-to-tr from-white/0 via-white/5 to-white/10 opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
+                <div className="relative z-10">
+                  <div className="w-14 h-14 md:w-16 md:h-16 lg:w-20 lg:h-20 bg-white/20 backdrop-blur-sm rounded-2xl flex items-center justify-center mb-6 md:mb-7 lg:mb-8 group-hover:scale-110 group-hover:rotate-6 transition-all duration-300">
+                    <IndianRupee className="w-7 h-7 md:w-8 md:h-8 lg:w-10 lg:h-10 text-white" />
+                  </div>
+                  <div className="text-left">
+                    <h3 className="text-xl md:text-2xl lg:text-3xl font-bold text-white mb-2 md:mb-3">
+                      {t.dashboard.expensesTitle}
+                    </h3>
+                    <p className="text-sm md:text-base lg:text-lg text-amber-100">
+                      {t.dashboard.expensesDesc}
+                    </p>
+                  </div>
+                </div>
+              </motion.button>
             </div>
           </motion.div>
 
@@ -464,6 +587,26 @@ export const ArogyaVaultDashboard = (props: ArogyaVaultDashboardProps) => {
             )}
           </motion.div>
 
+          {healthTasks && (
+            <motion.div 
+              initial={{ opacity: 0, y: 20 }} 
+              animate={{ opacity: 1, y: 0 }} 
+              transition={{ delay: 0.15 }} 
+            >
+              <HealthTasksCard
+                tasks={healthTasks}
+                language={language === 'hi' ? 'hi' : 'en'}
+                isLoading={isLoadingTasks}
+                isSaving={isSavingTask}
+                onAdd={onAddTask}
+                onComplete={onCompleteTask}
+                onDismiss={onDismissTask}
+                onDelete={onDeleteTask}
+                onDocumentClick={onDocumentClick}
+              />
+            </motion.div>
+          )}
+
           <motion.div 
             initial={{ opacity: 0, y: 20 }} 
             animate={{ opacity: 1, y: 0 }} 
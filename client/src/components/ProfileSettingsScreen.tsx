@@ -1,9 +1,10 @@
-import { useState } from 'react';
-import { ChevronLeft, ChevronRight, User, Shield, Globe, Users, FileText, HelpCircle, LogOut, CheckCircle, XCircle, Edit2, Lock, Fingerprint, Heart, AlertCircle, Phone, Mail, Bell } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, User, Shield, Globe, Users, FileText, HelpCircle, LogOut, CheckCircle, XCircle, Edit2, Lock, Fingerprint, Heart, AlertCircle, Phone, Mail, Bell, Download, Upload, Loader2 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useTranslation } from '@/i18n/useTranslation';
 import { LanguageSelector } from '@/i18n/LanguageSelector';
 import { usePushNotifications } from '@/hooks/usePushNotifications';
+import { useDataExports, useRequestDataExport, useImportVaultArchive } from '@/hooks/useUser';
 import { Button } from '@/components/ui/button';
 
 type ProfileSettingsScreenProps = {
@@ -94,6 +95,39 @@ export const ProfileSettingsScreen = ({
     sendTest: sendTestNotification,
   } = usePushNotifications();
 
+  const { data: exportsData } = useDataExports();
+  const requestExport = useRequestDataExport();
+  const latestExport = exportsData?.exports[0];
+  const isExportInProgress = latestExport?.status === 'queued' || latestExport?.status === 'running';
+
+  const importArchive = useImportVaultArchive();
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Show what the archive contains (dry run) before importing anything
+  const handleImportFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const preview = await importArchive.mutateAsync({ file, dryRun: true });
+      const { summary } = preview;
+      const skipped = summary.document.skipped + summary.medication.skipped + summary.nominee.skipped + summary.emergencyCard.skipped;
+      const message = [
+        `This archive will add ${summary.document.created} document(s), ${summary.medication.created} medication(s), ` +
+          `${summary.nominee.created} nominee(s)${summary.emergencyCard.created ? ' and an emergency card' : ''}.`,
+        skipped > 0 ? `${skipped} item(s) already in your vault will be skipped.` : '',
+        'Continue?',
+      ].filter(Boolean).join('\n');
+
+      if (confirm(message)) {
+        await importArchive.mutateAsync({ file, dryRun: false });
+      }
+    } catch {
+      // Errors are shown by the mutation's toast
+    }
+  };
+
   // LanguageSelector handles language changes directly via i18next context
   // No need for useEffect - language changes are handled automatically
 
@@ -468,6 +502,85 @@ export const ProfileSettingsScreen = ({
             </div>
           </motion.div>
 
+          {/* Your Data Section */}
+          <motion.div variants={itemVariants} className="mx-4 md:mx-6 lg:mx-8 mb-4 md:mb-6">
+            <h3 className="text-sm md:text-base lg:text-lg font-semibold text-gray-500 uppercase tracking-wide mb-3 md:mb-4 px-1">
+              {isHindi ? 'आपका डेटा' : 'Your Data'}
+            </h3>
+            <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+              <div className="p-4 md:p-5 lg:p-6 flex items-center justify-between">
+                <div className="flex items-center space-x-3 md:space-x-4 min-w-0">
+                  <div className="p-2 md:p-2.5 lg:p-3 bg-blue-50 rounded-lg">
+                    <Download className="w-5 h-5 md:w-6 md:h-6 lg:w-7 lg:h-7 text-blue-600" />
+                  </div>
+                  <div className="text-left min-w-0">
+                    <p className="text-sm md:text-base lg:text-lg font-semibold text-gray-900">
+                      {isHindi ? 'मेरा डेटा निर्यात करें' : 'Export My Data'}
+                    </p>
+                    <p className="text-xs md:text-sm lg:text-base text-gray-500" data-testid="text-export-status">
+                      {isExportInProgress
+                        ? (isHindi ? 'आपका संग्रह तैयार किया जा रहा है...' : 'Preparing your archive...')
+                        : latestExport?.status === 'failed'
+                          ? (isHindi ? 'निर्यात विफल रहा, फिर से प्रयास करें' : latestExport.error || 'Export failed, please try again')
+                          : (isHindi ? 'सभी दस्तावेज़ और रिकॉर्ड ZIP में डाउनलोड करें' : 'Download all documents and records as a ZIP')}
+                    </p>
+                  </div>
+                </div>
+                {latestExport?.downloadUrl && !isExportInProgress ? (
+                  <a
+                    href={latestExport.downloadUrl}
+                    className="px-3 py-1.5 md:px-4 md:py-2 bg-blue-600 text-white rounded-lg text-sm md:text-base font-medium hover:bg-blue-700 transition-colors"
+                    data-testid="link-download-export"
+                  >
+                    {isHindi ? 'डाउनलोड' : 'Download'}
+                  </a>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => requestExport.mutate()}
+                    disabled={isExportInProgress || requestExport.isPending}
+                    data-testid="button-export-data"
+                  >
+                    {isExportInProgress ? <Loader2 className="w-4 h-4 animate-spin" /> : (isHindi ? 'निर्यात' : 'Export')}
+                  </Button>
+                )}
+              </div>
+
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={importArchive.isPending}
+                className="w-full p-4 md:p-5 lg:p-6 flex items-center justify-between hover:bg-gray-50 transition-colors border-t border-gray-100 disabled:opacity-60"
+                data-testid="button-import-archive"
+              >
+                <div className="flex items-center space-x-3 md:space-x-4">
+                  <div className="p-2 md:p-2.5 lg:p-3 bg-green-50 rounded-lg">
+                    <Upload className="w-5 h-5 md:w-6 md:h-6 lg:w-7 lg:h-7 text-green-600" />
+                  </div>
+                  <div className="text-left">
+                    <p className="text-sm md:text-base lg:text-lg font-semibold text-gray-900">
+                      {isHindi ? 'संग्रह से आयात करें' : 'Import From Archive'}
+                    </p>
+                    <p className="text-xs md:text-sm lg:text-base text-gray-500">
+                      {isHindi ? 'किसी अन्य खाते का निर्यात किया गया ZIP जोड़ें' : 'Add records from an exported vault ZIP'}
+                    </p>
+                  </div>
+                </div>
+                {importArchive.isPending
+                  ? <Loader2 className="w-5 h-5 md:w-6 md:h-6 text-gray-400 animate-spin" />
+                  : <ChevronRight className="w-5 h-5 md:w-6 md:h-6 lg:w-7 lg:h-7 text-gray-400" />}
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                className="hidden"
+                onChange={handleImportFileChange}
+                data-testid="input-import-archive"
+              />
+            </div>
+          </motion.div>
+
           {/* Legal & Support Section */}
           <motion.div variants={itemVariants} className="mx-4 md:mx-6 lg:mx-8 mb-4 md:mb-6">
             <h3 className="text-sm md:text-base lg:text-lg font-semibold text-gray-500 uppercase tracking-wide mb-3 md:mb-4 px-1">
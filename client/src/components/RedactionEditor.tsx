@@ -0,0 +1,360 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, ChevronLeft, ChevronRight, Square, Sparkles, Loader2, ExternalLink, Trash2, AlertTriangle } from 'lucide-react';
+import { AnnotationOverlay, type AnnotationMark } from '@/components/AnnotationOverlay';
+import type { DocumentRedaction, RedactionLabel, RedactionRegion } from '@/lib/api/documents';
+
+type RedactionEditorProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  pages: string[]; // Page image URLs (a single image is one page)
+  title?: string;
+  language?: 'en' | 'hi';
+  redaction?: DocumentRedaction | null;
+  suggestions?: {
+    regions: RedactionRegion[];
+    unplaced: Array<{ label: RedactionLabel; value: string }>;
+  } | null;
+  isLoadingSuggestions?: boolean;
+  isSaving?: boolean;
+  redactedFileUrl?: string; // Set once a redacted copy exists, to check it before sharing
+  onSave: (regions: RedactionRegion[]) => void;
+  onRemove?: () => void;
+};
+
+const translations = {
+  en: {
+    title: 'Redact before sharing',
+    intro: 'Black out your address, phone number or results the recipient does not need. Shares show the redacted copy instead of the original.',
+    drawBox: 'Draw box',
+    drawHint: 'Drag over the page to black out an area',
+    suggested: 'Suggested',
+    findingDetails: 'Looking for personal details...',
+    suggestionsFound: '{count} personal detail(s) found and marked',
+    noSuggestions: 'No personal details found automatically - draw boxes over anything you want to hide.',
+    unplacedTitle: 'Found in the text of this scan - draw a box over each:',
+    boxesOnPage: 'Boxes on this page',
+    noBoxes: 'No boxes on this page',
+    removeBox: 'Remove box',
+    page: 'Page',
+    of: 'of',
+    previousPage: 'Previous page',
+    nextPage: 'Next page',
+    save: 'Save Redacted Copy',
+    saving: 'Redacting...',
+    viewRedacted: 'View redacted copy',
+    removeRedaction: 'Remove redaction',
+    removeConfirm: 'Remove the redaction? Shares will show the original document again.',
+    outdated: 'A newer version was uploaded after this redaction. Shares cannot open this document until you save the redaction again.',
+    close: 'Close'
+  },
+  hi: {
+    title: 'साझा करने से पहले छुपाएं',
+    intro: 'अपना पता, फ़ोन नंबर या ऐसे परिणाम छुपाएं जिनकी प्राप्तकर्ता को ज़रूरत नहीं है। साझा करने पर मूल के बजाय छुपाई गई प्रति दिखाई जाती है।',
+    drawBox: 'बॉक्स बनाएं',
+    drawHint: 'किसी हिस्से को छुपाने के लिए पृष्ठ पर खींचें',
+    suggested: 'सुझाया गया',
+    findingDetails: 'व्यक्तिगत जानकारी खोजी जा रही है...',
+    suggestionsFound: '{count} व्यक्तिगत जानकारी मिली और चिह्नित की गई',
+    noSuggestions: 'कोई व्यक्तिगत जानकारी अपने आप नहीं मिली - जो छुपाना हो उस पर बॉक्स बनाएं।',
+    unplacedTitle: 'इस स्कैन के पाठ में मिला - हर एक पर बॉक्स बनाएं:',
+    boxesOnPage: 'इस पृष्ठ पर बॉक्स',
+    noBoxes: 'इस पृष्ठ पर कोई बॉक्स नहीं',
+    removeBox: 'बॉक्स हटाएं',
+    page: 'पृष्ठ',
+    of: '/',
+    previousPage: 'पिछला पृष्ठ',
+    nextPage: 'अगला पृष्ठ',
+    save: 'छुपाई गई प्रति सहेजें',
+    saving: 'छुपाया जा रहा है...',
+    viewRedacted: 'छुपाई गई प्रति देखें',
+    removeRedaction: 'छुपाना हटाएं',
+    removeConfirm: 'छुपाना हटाएं? साझा करने पर फिर से मूल दस्तावेज़ दिखाई देगा।',
+    outdated: 'इसके बाद एक नया संस्करण अपलोड किया गया। दोबारा सहेजने तक साझा किए गए लिंक यह दस्तावेज़ नहीं खोल सकते।',
+    close: 'बंद करें'
+  }
+};
+
+const LABEL_NAMES: Record<RedactionLabel, { en: string; hi: string }> = {
+  phone: { en: 'Phone', hi: 'फ़ोन' },
+  email: { en: 'Email', hi: 'ईमेल' },
+  address: { en: 'Address', hi: 'पता' },
+  aadhaar: { en: 'Aadhaar', hi: 'आधार' },
+  pan: { en: 'PAN', hi: 'पैन' },
+  date_of_birth: { en: 'Date of birth', hi: 'जन्म तिथि' },
+  identifier: { en: 'ID number', hi: 'आईडी नंबर' },
+  manual: { en: 'Box', hi: 'बॉक्स' }
+};
+
+export function RedactionEditor({
+  isOpen,
+  onClose,
+  pages,
+  title,
+  language = 'en',
+  redaction,
+  suggestions,
+  isLoadingSuggestions = false,
+  isSaving = false,
+  redactedFileUrl,
+  onSave,
+  onRemove
+}: RedactionEditorProps) {
+  const [regions, setRegions] = useState<RedactionRegion[] | null>(null);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [drawing, setDrawing] = useState(true);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  const t = translations[language];
+
+  // Start from the saved redaction, or from the suggestions for a first redaction
+  useEffect(() => {
+    if (!isOpen) {
+      setRegions(null);
+      return;
+    }
+    if (regions !== null) return;
+    if (redaction) {
+      setRegions(redaction.regions);
+    } else if (suggestions) {
+      setRegions(suggestions.regions);
+    }
+  }, [isOpen, redaction, suggestions, regions]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPageIndex(0);
+      setDrawing(true);
+      setActiveIndex(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const boxes = regions ?? [];
+  const pageNumber = pageIndex + 1;
+  const pageBoxes = boxes
+    .map((region, index) => ({ region, index }))
+    .filter(({ region }) => region.page === pageNumber);
+
+  const marks: AnnotationMark[] = pageBoxes.map(({ region, index }) => ({
+    id: String(index),
+    page: region.page,
+    region,
+    color: 'red',
+    note: LABEL_NAMES[region.label][language]
+  }));
+
+  const goToPage = (index: number) => {
+    if (index < 0 || index >= pages.length) return;
+    setPageIndex(index);
+    setActiveIndex(null);
+    setImageSize(null);
+  };
+
+  const removeBox = (index: number) => {
+    setRegions(boxes.filter((_, i) => i !== index));
+    setActiveIndex(null);
+  };
+
+  const suggestedCount = suggestions?.regions.length ?? 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="fixed inset-0 z-50 bg-black/90 flex flex-col"
+      data-testid="redaction-editor"
+    >
+      <div className="flex items-center justify-between px-4 py-3 text-white">
+        <div className="min-w-0">
+          <h2 className="text-base md:text-lg font-semibold">{t.title}</h2>
+          {title && <p className="text-xs text-white/70 truncate">{title}</p>}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 bg-white/10 hover:bg-white/20 rounded-full transition-colors"
+          aria-label={t.close}
+          data-testid="button-close-redaction"
+        >
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex flex-col md:flex-row gap-3 px-4 pb-4">
+        {/* Page with boxes */}
+        <div className="relative flex-1 min-h-[45vh] bg-black/40 rounded-lg overflow-hidden">
+          {pages[pageIndex] && (
+            <img
+              key={pages[pageIndex]}
+              src={pages[pageIndex]}
+              alt={`${t.page} ${pageNumber}`}
+              className="w-full h-full object-contain select-none"
+              draggable={false}
+              onLoad={(e) => {
+                const { naturalWidth, naturalHeight } = e.currentTarget;
+                setImageSize({ width: naturalWidth, height: naturalHeight });
+              }}
+            />
+          )}
+          <AnnotationOverlay
+            annotations={marks}
+            imageSize={imageSize}
+            drawing={drawing}
+            activeId={activeIndex !== null ? String(activeIndex) : null}
+            onSelect={(id) => setActiveIndex((prev) => (prev === Number(id) ? null : Number(id)))}
+            onDrawRegion={(region) =>
+              setRegions([...boxes, { page: pageNumber, ...region, label: 'manual', source: 'manual' }])
+            }
+          />
+
+          {pages.length > 1 && (
+            <>
+              <button
+                onClick={() => goToPage(pageIndex - 1)}
+                disabled={pageIndex === 0}
+                className="absolute left-2 top-1/2 -translate-y-1/2 p-2 bg-white/10 hover:bg-white/20 rounded-full text-white disabled:opacity-30"
+                aria-label={t.previousPage}
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => goToPage(pageIndex + 1)}
+                disabled={pageIndex === pages.length - 1}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-2 bg-white/10 hover:bg-white/20 rounded-full text-white disabled:opacity-30"
+                aria-label={t.nextPage}
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 px-3 py-1 bg-white/10 rounded-full text-white text-xs">
+                {t.page} {pageNumber} {t.of} {pages.length}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Controls */}
+        <div className="md:w-72 bg-white rounded-lg p-4 overflow-y-auto space-y-3">
+          <p className="text-sm text-gray-600">{t.intro}</p>
+
+          {redaction?.outdated && (
+            <div className="flex items-start gap-2 p-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>{t.outdated}</span>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 text-xs text-gray-600">
+            {isLoadingSuggestions ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>{t.findingDetails}</span>
+              </>
+            ) : suggestions && !redaction ? (
+              <>
+                <Sparkles className="w-4 h-4 text-blue-600 flex-shrink-0" />
+                <span>
+                  {suggestedCount > 0 ? t.suggestionsFound.replace('{count}', String(suggestedCount)) : t.noSuggestions}
+                </span>
+              </>
+            ) : null}
+          </div>
+
+          {suggestions && suggestions.unplaced.length > 0 && (
+            <div className="p-2 bg-blue-50 border border-blue-200 rounded-lg">
+              <p className="text-xs font-medium text-blue-900 mb-1">{t.unplacedTitle}</p>
+              <ul className="space-y-0.5">
+                {suggestions.unplaced.map((entry) => (
+                  <li key={`${entry.label}-${entry.value}`} className="text-xs text-blue-800">
+                    {LABEL_NAMES[entry.label][language]}: <span className="font-mono">{entry.value}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <button
+            onClick={() => setDrawing((prev) => !prev)}
+            className={`w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium rounded-lg border transition-colors ${
+              drawing ? 'bg-gray-900 text-white border-gray-900' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+            aria-pressed={drawing}
+            data-testid="button-draw-redaction"
+          >
+            <Square className="w-4 h-4" />
+            {t.drawBox}
+          </button>
+          {drawing && <p className="text-xs text-gray-500">{t.drawHint}</p>}
+
+          <div>
+            <p className="text-xs font-medium text-gray-700 mb-1">{t.boxesOnPage}</p>
+            {pageBoxes.length === 0 ? (
+              <p className="text-xs text-gray-500">{t.noBoxes}</p>
+            ) : (
+              <div className="flex flex-wrap gap-1.5">
+                {pageBoxes.map(({ region, index }) => (
+                  <span
+                    key={index}
+                    className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs ${
+                      index === activeIndex ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'
+                    }`}
+                  >
+                    {LABEL_NAMES[region.label][language]}
+                    {region.source === 'suggested' && <span className="text-gray-400">· {t.suggested}</span>}
+                    <button
+                      onClick={() => removeBox(index)}
+                      className="p-0.5 hover:text-red-600"
+                      aria-label={t.removeBox}
+                      data-testid={`button-remove-redaction-${index}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <button
+            onClick={() => onSave(boxes)}
+            disabled={isSaving || boxes.length === 0}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            data-testid="button-save-redaction"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            {isSaving ? t.saving : t.save}
+          </button>
+
+          {redaction && (
+            <div className="flex items-center justify-between gap-2">
+              {redactedFileUrl && (
+                <a
+                  href={redactedFileUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                >
+                  <ExternalLink className="w-3 h-3" />
+                  {t.viewRedacted}
+                </a>
+              )}
+              {onRemove && (
+                <button
+                  onClick={() => {
+                    if (confirm(t.removeConfirm)) onRemove();
+                  }}
+                  className="inline-flex items-center gap-1 text-xs text-red-600 hover:underline"
+                  data-testid="button-remove-redaction"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  {t.removeRedaction}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -4,7 +4,8 @@
  */
 
 import { useState, useEffect } from 'react';
-import { ArrowLeft, FileText, Shield, AlertCircle } from 'lucide-react';
+import { ArrowLeft, FileText, Shield, AlertCircle, StickyNote, Highlighter, EyeOff } from 'lucide-react';
+import { AnnotationOverlay, type AnnotationMark } from './AnnotationOverlay';
 
 type SharedDocumentViewerProps = {
   documentId: string;
@@ -17,6 +18,7 @@ export const SharedDocumentViewer = ({ documentId, token, onBack }: SharedDocume
   const [fileUrl, setFileUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
 
   useEffect(() => {
     // Prevent screenshots and right-click
@@ -90,6 +92,9 @@ export const SharedDocumentViewer = ({ documentId, token, onBack }: SharedDocume
             const fileData = await fileResponse.json();
             if (fileData.success && fileData.url) {
               setFileUrl(fileData.url);
+            } else if (!fileData.success) {
+              // e.g. a redacted document that changed since it was redacted
+              setError(fileData.message || 'Failed to load document');
             }
           } else {
             setError('Document not found');
@@ -134,6 +139,8 @@ export const SharedDocumentViewer = ({ documentId, token, onBack }: SharedDocume
 
   const isImage = document.fileType === 'JPG' || document.fileType === 'PNG' || document.fileType === 'IMAGE';
   const isPDF = document.fileType === 'PDF';
+  // Only present when the owner chose to share their notes and highlights
+  const annotations: AnnotationMark[] = document.annotations ?? [];
 
   return (
     <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
@@ -152,9 +159,17 @@ export const SharedDocumentViewer = ({ documentId, token, onBack }: SharedDocume
             <p className="text-sm text-gray-600 capitalize">{document.type}</p>
           </div>
         </div>
-        <div className="flex items-center gap-2 px-3 py-1 bg-blue-100 rounded-full">
-          <Shield className="w-4 h-4 text-blue-600" />
-          <span className="text-xs font-medium text-blue-700">Read-Only</span>
+        <div className="flex items-center gap-2">
+          {document.redacted && (
+            <div className="flex items-center gap-1.5 px-3 py-1 bg-gray-900 rounded-full" data-testid="badge-redacted">
+              <EyeOff className="w-4 h-4 text-white" />
+              <span className="text-xs font-medium text-white">Redacted</span>
+            </div>
+          )}
+          <div className="flex items-center gap-2 px-3 py-1 bg-blue-100 rounded-full">
+            <Shield className="w-4 h-4 text-blue-600" />
+            <span className="text-xs font-medium text-blue-700">Read-Only</span>
+          </div>
         </div>
       </div>
 
@@ -175,13 +190,25 @@ export const SharedDocumentViewer = ({ documentId, token, onBack }: SharedDocume
         <div className="p-6" style={{ userSelect: 'none' }}>
           {isImage && fileUrl && (
             <div className="flex justify-center">
-              <img
-                src={fileUrl}
-                alt={document.title}
-                className="max-w-full h-auto rounded-lg shadow-lg"
-                style={{ pointerEvents: 'none' }}
-                draggable={false}
-              />
+              <div className="relative">
+                <img
+                  src={fileUrl}
+                  alt={document.title}
+                  className="block max-w-full h-auto rounded-lg shadow-lg"
+                  style={{ pointerEvents: 'none' }}
+                  draggable={false}
+                  onLoad={(e) => {
+                    const { naturalWidth, naturalHeight } = e.currentTarget;
+                    setImageSize({ width: naturalWidth, height: naturalHeight });
+                  }}
+                />
+                {annotations.length > 0 && (
+                  <AnnotationOverlay
+                    annotations={annotations.filter((annotation) => (annotation.page ?? 1) === 1)}
+                    imageSize={imageSize}
+                  />
+                )}
+              </div>
             </div>
           )}
 
@@ -205,6 +232,29 @@ export const SharedDocumentViewer = ({ documentId, token, onBack }: SharedDocume
         </div>
       </div>
 
+      {/* Owner's notes and highlights */}
+      {annotations.length > 0 && (
+        <div className="border-t border-gray-200 p-4" data-testid="list-shared-annotations">
+          <div className="flex items-center gap-2 mb-3">
+            <StickyNote className="w-4 h-4 text-yellow-500" />
+            <p className="text-sm font-semibold text-gray-900">Notes from the patient</p>
+          </div>
+          <div className="space-y-2">
+            {annotations.map((annotation) => (
+              <div key={annotation.id} className="p-3 bg-yellow-50 border border-yellow-100 rounded-lg">
+                <p className="flex items-center gap-1.5 text-xs font-medium text-gray-600 mb-1">
+                  {annotation.region && <Highlighter className="w-3.5 h-3.5 text-yellow-600" />}
+                  {annotation.page ? `Page ${annotation.page}` : 'Whole document'}
+                </p>
+                {annotation.note && (
+                  <p className="text-sm text-gray-800 whitespace-pre-wrap">{annotation.note}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Metadata */}
       <div className="border-t border-gray-200 p-4 bg-gray-50">
         <div className="grid grid-cols-2 gap-4 text-sm">
@@ -1,7 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, Search, Plus, FileText, Pill, FlaskConical, Image as ImageIcon, FileCheck, Tag, Upload, QrCode, Scan, WifiOff, ChevronRight, Trash2, Calendar } from 'lucide-react';
-import { getDocumentPreview } from '@/lib/api/documents';
+import { ArrowLeft, Search, Plus, FileText, Pill, FlaskConical, Image as ImageIcon, FileCheck, Tag, Upload, QrCode, Scan, WifiOff, ChevronRight, Trash2, Calendar, Folder, FolderOpen, Mail } from 'lucide-react';
+import { getDocumentPageUrl } from '@/lib/api/documents';
 import { useTranslation } from '@/i18n/useTranslation';
 
 type DocumentType = 'prescription' | 'lab' | 'imaging' | 'billing' | 'all';
@@ -25,6 +25,10 @@ type VaultDocumentTimelineProps = {
   documents?: Document[];
   isLoading?: boolean;
   offlineCount?: number;
+  typeCounts?: Partial<Record<DocumentType, number>>; // Matching documents per type, shown on the filter chips
+  hasMore?: boolean; // More documents can be loaded after the listed ones
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
   onBack?: () => void;
   onSearch?: (query: string) => void;
   onFilterChange?: (filter: DocumentType) => void;
@@ -34,8 +38,22 @@ type VaultDocumentTimelineProps = {
   onAddDicomImport?: () => void;
   onOfflineSyncClick?: () => void;
   onDocumentDelete?: (docId: string) => void;
+  onTrashClick?: () => void;
+  onInboxClick?: () => void;
+  inboxCount?: number; // Emailed attachments waiting for review
+  collections?: Array<{ id: string; name: string }>;
+  activeCollectionId?: string | null;
+  onCollectionChange?: (collectionId: string | null) => void;
+  onCreateCollection?: (name: string) => void;
+  onOpenCollection?: (collectionId: string) => void;
 };
 
+// File types the server can render a first-page thumbnail for
+const THUMBNAIL_FILE_TYPES = ['PDF', 'IMAGE', 'JPG', 'PNG', 'DICOM'];
+
+const hasThumbnail = (doc: Document) =>
+  Boolean(doc.thumbnail) || Boolean(doc.fileType && THUMBNAIL_FILE_TYPES.includes(doc.fileType));
+
 const mockDocuments: Document[] = [{
   id: '1',
   title: 'Lab Report',
@@ -135,6 +153,10 @@ export const VaultDocumentTimeline = ({
   documents: propDocuments,
   isLoading = false,
   offlineCount: propOfflineCount,
+  typeCounts,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
   onBack,
   onSearch,
   onFilterChange,
@@ -143,7 +165,15 @@ export const VaultDocumentTimeline = ({
   onAddScanQR,
   onAddDicomImport,
   onOfflineSyncClick,
-  onDocumentDelete
+  onDocumentDelete,
+  onTrashClick,
+  onInboxClick,
+  inboxCount = 0,
+  collections,
+  activeCollectionId = null,
+  onCollectionChange,
+  onCreateCollection,
+  onOpenCollection
 }: VaultDocumentTimelineProps) => {
   const { translations: t } = useTranslation();
   const [activeFilter, setActiveFilter] = useState<DocumentType>('all');
@@ -151,51 +181,30 @@ export const VaultDocumentTimeline = ({
   const [showSearch, setShowSearch] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const offlineCount = propOfflineCount ?? 0;
-  const [documentThumbnails, setDocumentThumbnails] = useState<Record<string, string>>({});
-  const [loadingThumbnails, setLoadingThumbnails] = useState<Set<string>>(new Set());
-
-  // Load thumbnails for image documents
-  useEffect(() => {
-    const loadThumbnails = async () => {
-      if (!propDocuments) return;
-      
-      const imageDocs = propDocuments.filter(doc => 
-        doc.fileType && (doc.fileType === 'IMAGE' || doc.fileType === 'JPG' || doc.fileType === 'PNG')
-      );
-      
-      for (const doc of imageDocs) {
-        if (documentThumbnails[doc.id] || loadingThumbnails.has(doc.id)) continue;
-        
-        setLoadingThumbnails(prev => new Set(prev).add(doc.id));
-        try {
-          const result = await getDocumentPreview(doc.id);
-          if (result.success && result.previewUrl) {
-            setDocumentThumbnails(prev => ({ ...prev, [doc.id]: result.previewUrl }));
-          }
-        } catch (error) {
-          console.error(`Failed to load thumbnail for document ${doc.id}:`, error);
-        } finally {
-          setLoadingThumbnails(prev => {
-            const next = new Set(prev);
-            next.delete(doc.id);
-            return next;
-          });
-        }
-      }
-    };
-    
-    loadThumbnails();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [propDocuments]);
+  // Documents whose thumbnail failed to load (unsupported file or still missing) show their type icon
+  const [failedThumbnails, setFailedThumbnails] = useState<Set<string>>(new Set());
 
   // Use provided documents or fallback to mock data
   const displayDocuments = propDocuments || mockDocuments;
 
+  const getTypeCount = (type: DocumentType) => {
+    if (!typeCounts) return undefined;
+    if (type === 'all') return Object.values(typeCounts).reduce((sum, count) => sum + (count ?? 0), 0);
+    return typeCounts[type] ?? 0;
+  };
+
   const handleFilterChange = (filter: DocumentType) => {
     setActiveFilter(filter);
     onFilterChange?.(filter);
   };
 
+  const handleNewCollection = () => {
+    const name = window.prompt(t.vault.newCollectionPrompt);
+    if (name?.trim()) {
+      onCreateCollection?.(name.trim());
+    }
+  };
+
   const handleSearchChange = (query: string) => {
     setSearchQuery(query);
     onSearch?.(query);
@@ -238,14 +247,41 @@ export const VaultDocumentTimeline = ({
             <ArrowLeft className="w-6 h-6 md:w-7 md:h-7 lg:w-8 lg:h-8 text-gray-700" />
           </button>
           <h1 className="text-xl md:text-2xl lg:text-3xl font-semibold text-gray-900" data-testid="text-vault-title">{t.vault.title}</h1>
-          <button 
-            className="p-2 md:p-3 -mr-2 hover:bg-gray-100 rounded-full transition-colors" 
-            aria-label={t.common.search} 
-            onClick={() => setShowSearch(!showSearch)}
-            data-testid="button-search-toggle"
-          >
-            <Search className="w-6 h-6 md:w-7 md:h-7 lg:w-8 lg:h-8 text-gray-700" />
-          </button>
+          <div className="flex items-center -mr-2">
+            {onInboxClick && (
+              <button 
+                className="relative p-2 md:p-3 hover:bg-gray-100 rounded-full transition-colors" 
+                aria-label={t.vault.inbox} 
+                onClick={onInboxClick}
+                data-testid="button-inbox"
+              >
+                <Mail className="w-6 h-6 md:w-7 md:h-7 lg:w-8 lg:h-8 text-gray-700" />
+                {inboxCount > 0 && (
+                  <span className="absolute top-1 right-1 min-w-[18px] h-[18px] px-1 bg-blue-600 text-white text-[10px] font-semibold rounded-full flex items-center justify-center" data-testid="badge-inbox-count">
+                    {inboxCount}
+                  </span>
+                )}
+              </button>
+            )}
+            {onTrashClick && (
+              <button 
+                className="p-2 md:p-3 hover:bg-gray-100 rounded-full transition-colors" 
+                aria-label={t.vault.trash} 
+                onClick={onTrashClick}
+                data-testid="button-trash"
+              >
+                <Trash2 className="w-6 h-6 md:w-7 md:h-7 lg:w-8 lg:h-8 text-gray-700" />
+              </button>
+            )}
+            <button 
+              className="p-2 md:p-3 hover:bg-gray-100 rounded-full transition-colors" 
+              aria-label={t.common.search} 
+              onClick={() => setShowSearch(!showSearch)}
+              data-testid="button-search-toggle"
+            >
+              <Search className="w-6 h-6 md:w-7 md:h-7 lg:w-8 lg:h-8 text-gray-700" />
+            </button>
+          </div>
         </div>
 
         <AnimatePresence>
@@ -293,10 +329,72 @@ export const VaultDocumentTimeline = ({
                      option.id === 'imaging' ? t.vault.imaging : 
                      t.vault.billing}
                   </span>
+                  {getTypeCount(option.id) !== undefined && (
+                    <span
+                      className={`text-xs md:text-sm font-semibold ${activeFilter === option.id ? 'text-blue-100' : 'text-gray-500'}`}
+                      data-testid={`text-filter-count-${option.id}`}
+                    >
+                      {getTypeCount(option.id)}
+                    </span>
+                  )}
                 </button>
               ))}
             </div>
           </div>
+
+          {collections && (
+            <div className="overflow-x-auto scrollbar-hide" data-testid="collection-filter-container">
+              <div className="flex gap-2 md:gap-3 min-w-max">
+                <button
+                  onClick={() => onCollectionChange?.(null)}
+                  className={`flex items-center gap-2 px-3 md:px-4 py-1.5 md:py-2 rounded-full whitespace-nowrap text-xs md:text-sm font-medium border transition-all ${
+                    activeCollectionId === null
+                      ? 'bg-blue-50 text-blue-700 border-blue-300'
+                      : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                  }`}
+                  data-testid="button-collection-all"
+                >
+                  <Folder className="w-4 h-4" />
+                  {t.vault.allCollections}
+                </button>
+                {collections.map(collection => (
+                  <button
+                    key={collection.id}
+                    onClick={() => onCollectionChange?.(collection.id)}
+                    className={`flex items-center gap-2 px-3 md:px-4 py-1.5 md:py-2 rounded-full whitespace-nowrap text-xs md:text-sm font-medium border transition-all ${
+                      activeCollectionId === collection.id
+                        ? 'bg-blue-50 text-blue-700 border-blue-300'
+                        : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                    }`}
+                    data-testid={`button-collection-${collection.id}`}
+                  >
+                    <FolderOpen className="w-4 h-4" />
+                    {collection.name}
+                  </button>
+                ))}
+                {activeCollectionId && onOpenCollection && (
+                  <button
+                    onClick={() => onOpenCollection(activeCollectionId)}
+                    className="flex items-center gap-1 px-3 md:px-4 py-1.5 md:py-2 rounded-full whitespace-nowrap text-xs md:text-sm font-medium text-blue-600 hover:bg-blue-50 transition-all"
+                    data-testid="button-open-collection"
+                  >
+                    {t.vault.openCollection}
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                )}
+                {onCreateCollection && (
+                  <button
+                    onClick={handleNewCollection}
+                    className="flex items-center gap-1 px-3 md:px-4 py-1.5 md:py-2 rounded-full whitespace-nowrap text-xs md:text-sm font-medium text-gray-600 border border-dashed border-gray-300 hover:bg-gray-50 transition-all"
+                    data-testid="button-new-collection"
+                  >
+                    <Plus className="w-4 h-4" />
+                    {t.vault.newCollection}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -336,18 +434,15 @@ export const VaultDocumentTimeline = ({
                 >
                   <div className="flex gap-3 md:gap-4 lg:gap-5">
                     <div className="flex-shrink-0 w-14 h-14 md:w-16 md:h-16 lg:w-20 lg:h-20 rounded-lg bg-gray-100 flex items-center justify-center overflow-hidden" data-testid={`icon-document-${doc.id}`}>
-                      {documentThumbnails[doc.id] && (doc.fileType === 'IMAGE' || doc.fileType === 'JPG' || doc.fileType === 'PNG') ? (
+                      {hasThumbnail(doc) && !failedThumbnails.has(doc.id) ? (
                         <img 
-                          src={documentThumbnails[doc.id]} 
+                          src={doc.thumbnail || getDocumentPageUrl(doc.id, 1, 'thumbnail')} 
                           alt={doc.title}
-                          className="w-full h-full object-cover"
+                          loading="lazy"
+                          className="w-full h-full object-cover object-top"
                           onError={() => {
                             // Fallback to icon if image fails to load
-                            setDocumentThumbnails(prev => {
-                              const next = { ...prev };
-                              delete next[doc.id];
-                              return next;
-                            });
+                            setFailedThumbnails(prev => new Set(prev).add(doc.id));
                           }}
                         />
                       ) : (
@@ -412,7 +507,7 @@ export const VaultDocumentTimeline = ({
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      if (confirm(`Are you sure you want to delete "${doc.title}"? This action cannot be undone.`)) {
+                      if (confirm(`Move "${doc.title}" to the trash? You can restore it later from the trash.`)) {
                         onDocumentDelete(doc.id);
                       }
                     }}
@@ -425,6 +520,16 @@ export const VaultDocumentTimeline = ({
                 )}
               </div>
             ))}
+            {hasMore && onLoadMore && (
+              <button
+                onClick={onLoadMore}
+                disabled={isLoadingMore}
+                className="w-full py-3 md:py-3.5 text-sm md:text-base font-medium text-blue-600 border border-gray-200 rounded-xl hover:bg-blue-50 transition-colors disabled:opacity-50"
+                data-testid="button-load-more"
+              >
+                {isLoadingMore ? t.vault.loadingMore : t.vault.loadMore}
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,250 @@
+/**
+ * Collections Hooks
+ * React Query hooks for collections of documents, medications and notes
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getCollections,
+  getCollection,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  reorderCollections,
+  addCollectionItem,
+  updateCollectionNote,
+  removeCollectionItem,
+  reorderCollectionItems,
+  getDocumentCollections,
+  type AddCollectionItemData,
+  type CollectionData,
+} from "@/lib/api/collections";
+
+/**
+ * Hook to fetch the user's collections
+ */
+export function useCollections() {
+  return useQuery({
+    queryKey: ["collections"],
+    queryFn: getCollections,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+/**
+ * Hook to fetch a collection with its items
+ */
+export function useCollection(id: string | null) {
+  return useQuery({
+    queryKey: ["collection", id],
+    queryFn: () => getCollection(id!),
+    enabled: !!id,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+/**
+ * Hook to fetch the collections a document is in
+ */
+export function useDocumentCollections(documentId: string | null) {
+  return useQuery({
+    queryKey: ["document-collections", documentId],
+    queryFn: () => getDocumentCollections(documentId!),
+    enabled: !!documentId,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+/**
+ * Refetch everything that shows collection membership
+ */
+function useInvalidateCollections() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ["collections"] });
+    queryClient.invalidateQueries({ queryKey: ["collection"] });
+    queryClient.invalidateQueries({ queryKey: ["document-collections"] });
+    // The vault may be filtered by a collection
+    queryClient.invalidateQueries({ queryKey: ["documents"] });
+  };
+}
+
+/**
+ * Hook to create a collection
+ */
+export function useCreateCollection() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateCollections();
+
+  return useMutation({
+    mutationFn: (data: CollectionData) => createCollection(data),
+    onSuccess: (response) => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: `Collection "${response.collection.name}" created`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create collection",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to rename or describe a collection
+ */
+export function useUpdateCollection() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateCollections();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CollectionData> }) => updateCollection(id, data),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update collection",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to delete a collection
+ */
+export function useDeleteCollection() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateCollections();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteCollection(id),
+    onSuccess: () => {
+      invalidate();
+      // Shares of the collection are revoked with it
+      queryClient.invalidateQueries({ queryKey: ["consents"] });
+      toast({
+        title: "Success",
+        description: "Collection deleted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete collection",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to save a new collection order
+ */
+export function useReorderCollections() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateCollections();
+
+  return useMutation({
+    mutationFn: (ids: string[]) => reorderCollections(ids),
+    onSettled: invalidate,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reorder collections",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to add a document, medication or note to a collection
+ */
+export function useAddCollectionItem() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateCollections();
+
+  return useMutation({
+    mutationFn: ({ collectionId, data }: { collectionId: string; data: AddCollectionItemData }) =>
+      addCollectionItem(collectionId, data),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add to collection",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to edit a note in a collection
+ */
+export function useUpdateCollectionNote() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateCollections();
+
+  return useMutation({
+    mutationFn: ({ collectionId, itemId, note }: { collectionId: string; itemId: string; note: string }) =>
+      updateCollectionNote(collectionId, itemId, note),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update note",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to remove an item from a collection
+ */
+export function useRemoveCollectionItem() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateCollections();
+
+  return useMutation({
+    mutationFn: ({ collectionId, itemId }: { collectionId: string; itemId: string }) =>
+      removeCollectionItem(collectionId, itemId),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove from collection",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to save a new item order within a collection
+ */
+export function useReorderCollectionItems() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateCollections();
+
+  return useMutation({
+    mutationFn: ({ collectionId, ids }: { collectionId: string; ids: string[] }) =>
+      reorderCollectionItems(collectionId, ids),
+    onSettled: invalidate,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reorder collection",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -2,32 +2,72 @@
  * React Query hooks for document operations
  */
 
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import {
   getDocuments,
+  getAllDocuments,
   getDocument,
+  searchDocuments,
   createDocument,
   updateDocument,
   deleteDocument,
-  syncDocuments,
+  getDocumentProcessing,
+  retryDocumentProcessing,
+  getDocumentVersions,
+  getDocumentVersionDiff,
+  uploadDocumentVersion,
+  restoreDocumentVersion,
+  getTrash,
+  restoreFromTrash,
+  purgeDocument,
+  emptyTrash,
+  getLabObservations,
+  createLabObservation,
+  updateLabObservation,
+  deleteLabObservation,
+  extractLabObservations,
+  getDocumentAnnotations,
+  createDocumentAnnotation,
+  updateDocumentAnnotation,
+  deleteDocumentAnnotation,
+  getDocumentRedaction,
+  getRedactionSuggestions,
+  saveDocumentRedaction,
+  deleteDocumentRedaction,
+  getRedactedDocuments,
   type CreateDocumentData,
+  type Document,
+  type DocumentListFilters,
+  type DocumentAnnotationData,
+  type RedactionRegion,
+  type LabObservationData,
+  type CreateDocumentResponse,
+  type DocumentResponse,
   type UpdateDocumentData,
 } from "@/lib/api/documents";
+import { enqueueEdit, enqueueUpload, isNetworkError, isOfflineQueueSupported } from "@/lib/offlineQueue";
 
 /**
- * Hook to get all documents with real-time polling for sync status
+ * Hook to get all documents with real-time polling for sync and processing status
+ * Loads every page of the list, so only use it where the whole set is needed
+ * (summaries, pickers) - lists should use useDocumentPages.
  */
-export function useDocuments(filters?: { type?: string; search?: string }) {
+export function useDocuments(filters?: { type?: string; search?: string; collectionId?: string }) {
   return useQuery({
     queryKey: ["documents", filters],
-    queryFn: () => getDocuments(filters),
+    queryFn: () => getAllDocuments(filters),
     staleTime: 2 * 60 * 1000, // 2 minutes
     refetchInterval: (query) => {
-      // Poll every 3 seconds if there are pending documents
+      // Poll every 3 seconds if there are pending or still-processing documents
       const data = query.state.data;
       if (data?.documents) {
-        const hasPending = data.documents.some((doc: any) => doc.syncStatus === "pending");
+        const hasPending = data.documents.some(
+          (doc) =>
+            doc.syncStatus === "pending" ||
+            doc.processingStatus === "queued" ||
+            doc.processingStatus === "running"
+        );
         return hasPending ? 3000 : false; // Poll every 3 seconds if pending, otherwise don't poll
       }
       return false;
@@ -35,6 +75,78 @@ export function useDocuments(filters?: { type?: string; search?: string }) {
   });
 }
 
+const DOCUMENT_PAGE_SIZE = 30;
+
+const isStillProcessing = (doc: Document) =>
+  doc.syncStatus === "pending" || doc.processingStatus === "queued" || doc.processingStatus === "running";
+
+/**
+ * Hook to list documents a page at a time, with facet counts from the first page
+ * Polls like useDocuments while a loaded document is pending or processing.
+ */
+export function useDocumentPages(filters?: DocumentListFilters) {
+  return useInfiniteQuery({
+    queryKey: ["documents", "pages", filters],
+    queryFn: ({ pageParam }) =>
+      getDocuments({ ...filters, limit: DOCUMENT_PAGE_SIZE, cursor: pageParam, facets: !pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    refetchInterval: (query) => {
+      const pages = query.state.data?.pages ?? [];
+      return pages.some((page) => page.documents.some(isStillProcessing)) ? 3000 : false;
+    },
+  });
+}
+
+/**
+ * Hook to get background processing status of a document
+ * Polls while the job is queued or running, then refreshes the document and its insights
+ */
+export function useDocumentProcessing(id: string) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: ["documents", id, "processing"],
+    queryFn: async () => {
+      const previous = queryClient.getQueryData<Awaited<ReturnType<typeof getDocumentProcessing>>>([
+        "documents",
+        id,
+        "processing",
+      ]);
+      const data = await getDocumentProcessing(id);
+
+      // Processing just finished - extracted text and insights are now available
+      const wasActive = previous?.processing?.status === "queued" || previous?.processing?.status === "running";
+      if (wasActive && data.processing?.status === "done") {
+        queryClient.invalidateQueries({ queryKey: ["documents"] });
+        queryClient.invalidateQueries({ queryKey: ["document-insights", id] });
+      }
+
+      return data;
+    },
+    enabled: !!id,
+    refetchInterval: (query) => {
+      const status = query.state.data?.processing?.status;
+      return status === "queued" || status === "running" ? 3000 : false;
+    },
+  });
+}
+
+/**
+ * Hook to search documents semantically
+ * Disabled until the query has at least 2 characters
+ */
+export function useDocumentSearch(query: string, options?: { type?: string; limit?: number }) {
+  const trimmed = query.trim();
+  return useQuery({
+    queryKey: ["documents", "search", trimmed, options],
+    queryFn: () => searchDocuments(trimmed, options),
+    enabled: trimmed.length >= 2,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
 /**
  * Hook to get a specific document
  */
@@ -54,11 +166,52 @@ export function useCreateDocument() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Captures made without connectivity wait in the offline queue instead of failing
+  const queueUpload = async (data: CreateDocumentData, file: File): Promise<CreateDocumentResponse> => {
+    await enqueueUpload(data, file);
+    return { success: true, queued: true, message: "Saved offline - it will upload when you're back online" };
+  };
+
   return useMutation({
-    mutationFn: ({ data, file }: { data: CreateDocumentData; file?: File | null }) => 
-      createDocument(data, file || undefined),
-    onSuccess: () => {
+    mutationFn: async ({ data, file }: { data: CreateDocumentData; file?: File | null }) => {
+      if (!file || !isOfflineQueueSupported()) {
+        return createDocument(data, file || undefined);
+      }
+      if (!navigator.onLine) {
+        return queueUpload(data, file);
+      }
+      try {
+        return await createDocument(data, file);
+      } catch (error) {
+        if (isNetworkError(error)) return queueUpload(data, file);
+        throw error;
+      }
+    },
+    onSuccess: (response) => {
+      if (response.queued) {
+        queryClient.invalidateQueries({ queryKey: ["offline-queue"] });
+        toast({
+          title: "Saved offline",
+          description: response.message,
+        });
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["documents"] });
+      if (response.archive) {
+        const { created, skipped, rejected } = response.archive.summary;
+        toast({
+          title: "Archive imported",
+          description: `${created} created, ${skipped} skipped, ${rejected} rejected`,
+        });
+        return;
+      }
+      if (response.skipped || response.version || response.dicom) {
+        toast({
+          title: "Success",
+          description: response.message,
+        });
+        return;
+      }
       toast({
         title: "Success",
         description: "Document created successfully",
@@ -81,15 +234,43 @@ export function useUpdateDocument() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Offline edits are queued with the values they replace, so the server can merge them
+  // with changes made elsewhere in the meantime
+  const queueEdit = async (id: string, data: UpdateDocumentData) => {
+    const cached = queryClient.getQueryData<DocumentResponse>(["documents", id])?.document;
+    const base: UpdateDocumentData = {};
+    if (cached) {
+      if (data.title !== undefined) base.title = cached.title;
+      if (data.provider !== undefined) base.provider = cached.provider ?? "";
+      if (data.date !== undefined) base.date = cached.date ? new Date(cached.date).toISOString() : "";
+      if (data.tags !== undefined) base.tags = cached.tags;
+    }
+    const baseUpdatedAt = cached ? new Date(cached.updatedAt).toISOString() : new Date(0).toISOString();
+    await enqueueEdit(id, data, base, baseUpdatedAt);
+    return { success: true, queued: true, message: "Saved offline - your changes will sync when you're back online" };
+  };
+
   return useMutation({
-    mutationFn: ({ id, data }: { id: string; data: UpdateDocumentData }) =>
-      updateDocument(id, data),
-    onSuccess: (_, variables) => {
+    mutationFn: async ({ id, data }: { id: string; data: UpdateDocumentData }) => {
+      if (isOfflineQueueSupported() && !navigator.onLine) {
+        return queueEdit(id, data);
+      }
+      return updateDocument(id, data);
+    },
+    onSuccess: (response, variables) => {
+      if ("queued" in response) {
+        queryClient.invalidateQueries({ queryKey: ["offline-queue"] });
+        toast({
+          title: "Saved offline",
+          description: response.message,
+        });
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["documents"] });
       queryClient.invalidateQueries({ queryKey: ["documents", variables.id] });
       toast({
         title: "Success",
-        description: "Document updated successfully",
+        description: response.message || "Document updated successfully",
       });
     },
     onError: (error: Error) => {
@@ -115,7 +296,69 @@ export function useDeleteDocument() {
       queryClient.invalidateQueries({ queryKey: ["documents"] });
       toast({
         title: "Success",
-        description: "Document deleted successfully",
+        description: "Document moved to trash",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete document",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to get trashed documents
+ */
+export function useTrash() {
+  return useQuery({
+    queryKey: ["documents", "trash"],
+    queryFn: () => getTrash(),
+  });
+}
+
+/**
+ * Hook to restore a trashed document
+ */
+export function useRestoreFromTrash() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => restoreFromTrash(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+      toast({
+        title: "Success",
+        description: "Document restored",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore document",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to permanently delete a trashed document
+ */
+export function usePurgeDocument() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => purgeDocument(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["documents", "trash"] });
+      toast({
+        title: "Success",
+        description: "Document permanently deleted",
       });
     },
     onError: (error: Error) => {
@@ -129,28 +372,436 @@ export function useDeleteDocument() {
 }
 
 /**
- * Hook to sync pending documents
+ * Hook to permanently delete every trashed document
  */
-export function useSyncDocuments() {
+export function useEmptyTrash() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: () => syncDocuments(),
+    mutationFn: () => emptyTrash(),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ["documents", "trash"] });
+      toast({
+        title: "Success",
+        description: response.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to empty trash",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to retry failed document processing
+ */
+export function useRetryDocumentProcessing() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => retryDocumentProcessing(id),
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ["documents", id, "processing"] });
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+      toast({
+        title: "Success",
+        description: "Document queued for processing",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to retry processing",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to get the version history of a document
+ */
+export function useDocumentVersions(id: string) {
+  return useQuery({
+    queryKey: ["documents", id, "versions"],
+    queryFn: () => getDocumentVersions(id),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Hook to compare extracted text of two versions
+ * Disabled until a `from` version is selected; `to` defaults to the current version
+ */
+export function useDocumentVersionDiff(id: string, from: string | null, to?: string) {
+  return useQuery({
+    queryKey: ["documents", id, "versions", "diff", from, to],
+    queryFn: () => getDocumentVersionDiff(id, from!, to),
+    enabled: !!id && !!from,
+  });
+}
+
+/**
+ * Hook to upload a new version of a document
+ */
+export function useUploadDocumentVersion() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, file, note }: { id: string; file: File; note?: string }) =>
+      uploadDocumentVersion(id, file, note),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["documents"] });
       toast({
         title: "Success",
-        description: data.message || `Synced ${data.syncedCount} document(s)`,
+        description: data.message || "New version uploaded",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to upload new version",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to restore an older version as current
+ */
+export function useRestoreDocumentVersion() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, versionId }: { id: string; versionId: string }) =>
+      restoreDocumentVersion(id, versionId),
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+      queryClient.invalidateQueries({ queryKey: ["document-insights", variables.id] });
+      toast({
+        title: "Success",
+        description: data.message || "Version restored",
       });
     },
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to sync documents",
+        description: error.message || "Failed to restore version",
         variant: "destructive",
       });
     },
   });
 }
 
+/**
+ * Hook to get the structured lab results of a document
+ */
+export function useLabObservations(id: string, enabled = true) {
+  return useQuery({
+    queryKey: ["documents", id, "observations"],
+    queryFn: () => getLabObservations(id),
+    enabled: !!id && enabled,
+  });
+}
+
+/**
+ * Hook to add a lab result
+ */
+export function useCreateLabObservation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: LabObservationData }) =>
+      createLabObservation(id, data),
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["documents", variables.id, "observations"] });
+      queryClient.invalidateQueries({ queryKey: ["health-trends"] });
+      toast({
+        title: "Success",
+        description: data.message || "Lab result added",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add lab result",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to correct a lab result
+ */
+export function useUpdateLabObservation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      observationId,
+      data,
+    }: {
+      id: string;
+      observationId: string;
+      data: Partial<LabObservationData>;
+    }) => updateLabObservation(id, observationId, data),
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["documents", variables.id, "observations"] });
+      queryClient.invalidateQueries({ queryKey: ["health-trends"] });
+      toast({
+        title: "Success",
+        description: data.message || "Lab result updated",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update lab result",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to delete a lab result
+ */
+export function useDeleteLabObservation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, observationId }: { id: string; observationId: string }) =>
+      deleteLabObservation(id, observationId),
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["documents", variables.id, "observations"] });
+      queryClient.invalidateQueries({ queryKey: ["health-trends"] });
+      toast({
+        title: "Success",
+        description: data.message || "Lab result deleted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete lab result",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to re-run lab result extraction on a processed lab report
+ */
+export function useExtractLabObservations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => extractLabObservations(id),
+    onSuccess: (data, id) => {
+      queryClient.invalidateQueries({ queryKey: ["documents", id, "observations"] });
+      queryClient.invalidateQueries({ queryKey: ["health-trends"] });
+      toast({
+        title: "Success",
+        description: data.message || "Lab results extracted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to extract lab results",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to get the user's notes and highlights on a document
+ */
+export function useDocumentAnnotations(id: string) {
+  return useQuery({
+    queryKey: ["documents", id, "annotations"],
+    queryFn: () => getDocumentAnnotations(id),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Hook to add a note or highlight
+ * Notes are searchable, so document searches are refetched too
+ */
+export function useCreateDocumentAnnotation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: DocumentAnnotationData }) =>
+      createDocumentAnnotation(id, data),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["documents", variables.id, "annotations"] });
+      queryClient.invalidateQueries({ queryKey: ["documents", "search"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add note",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to edit a note or highlight
+ */
+export function useUpdateDocumentAnnotation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      annotationId,
+      data,
+    }: {
+      id: string;
+      annotationId: string;
+      data: Omit<DocumentAnnotationData, "page">;
+    }) => updateDocumentAnnotation(id, annotationId, data),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["documents", variables.id, "annotations"] });
+      queryClient.invalidateQueries({ queryKey: ["documents", "search"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update note",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to delete a note or highlight
+ */
+export function useDeleteDocumentAnnotation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, annotationId }: { id: string; annotationId: string }) =>
+      deleteDocumentAnnotation(id, annotationId),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["documents", variables.id, "annotations"] });
+      queryClient.invalidateQueries({ queryKey: ["documents", "search"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete note",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to get a document's redacted copy
+ */
+export function useDocumentRedaction(id: string) {
+  return useQuery({
+    queryKey: ["documents", id, "redaction"],
+    queryFn: () => getDocumentRedaction(id),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Hook to get suggested regions to redact (only fetched while the redaction editor is open)
+ */
+export function useRedactionSuggestions(id: string, enabled: boolean) {
+  return useQuery({
+    queryKey: ["documents", id, "redaction", "suggestions"],
+    queryFn: () => getRedactionSuggestions(id),
+    enabled: !!id && enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+/**
+ * Hook to get the ids of the user's redacted documents
+ */
+export function useRedactedDocuments() {
+  return useQuery({
+    queryKey: ["documents", "redactions"],
+    queryFn: getRedactedDocuments,
+  });
+}
+
+/**
+ * Hook to save a document's redaction
+ */
+export function useSaveDocumentRedaction() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, regions }: { id: string; regions: RedactionRegion[] }) =>
+      saveDocumentRedaction(id, regions),
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["documents", variables.id, "redaction"] });
+      queryClient.invalidateQueries({ queryKey: ["documents", "redactions"] });
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save redaction",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to remove a document's redaction
+ */
+export function useDeleteDocumentRedaction() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteDocumentRedaction(id),
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ["documents", id, "redaction"] });
+      queryClient.invalidateQueries({ queryKey: ["documents", "redactions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove redaction",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * Expenses Hooks
+ * React Query hooks for medical expenses
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getExpenses,
+  getExpenseSummary,
+  createExpense,
+  updateExpense,
+  deleteExpense,
+  extractExpense,
+  type ExpenseFilters,
+  type PeriodBasis,
+  type CreateExpenseData,
+  type UpdateExpenseData,
+} from "@/lib/api/expenses";
+
+/**
+ * Hook to fetch the user's expenses
+ */
+export function useExpenses(filters?: ExpenseFilters) {
+  return useQuery({
+    queryKey: ["expenses", "list", filters?.year, filters?.month, filters?.basis, filters?.category, filters?.documentId],
+    queryFn: () => getExpenses(filters),
+    staleTime: 60 * 1000, // 1 minute
+    retry: 1,
+  });
+}
+
+/**
+ * Hook to fetch the totals for a year
+ */
+export function useExpenseSummary(year?: number, basis?: PeriodBasis) {
+  return useQuery({
+    queryKey: ["expenses", "summary", year, basis],
+    queryFn: () => getExpenseSummary(year, basis),
+    staleTime: 60 * 1000, // 1 minute
+    retry: 1,
+  });
+}
+
+/**
+ * Hook to add an expense
+ */
+export function useCreateExpense() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateExpenseData) => createExpense(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add expense",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to edit an expense
+ */
+export function useUpdateExpense() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateExpenseData }) => updateExpense(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update expense",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to delete an expense
+ */
+export function useDeleteExpense() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteExpense(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete expense",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to re-read the expense from a processed bill
+ */
+export function useExtractExpense() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (documentId: string) => extractExpense(documentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to extract expense",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -4,7 +4,7 @@
  */
 
 import { useQuery } from "@tanstack/react-query";
-import { getDocumentInsights, getHealthInsights, type DocumentInsight, type HealthInsight } from "@/lib/api/health";
+import { getDocumentInsights, getHealthInsights, getHealthTrends, type DocumentInsight, type HealthInsight } from "@/lib/api/health";
 
 /**
  * Hook to fetch AI insights for a specific document
@@ -31,3 +31,15 @@ export function useHealthInsights() {
   });
 }
 
+
+/**
+ * Hook to fetch lab value trends across all lab reports
+ */
+export function useHealthTrends() {
+  return useQuery({
+    queryKey: ["health-trends"],
+    queryFn: () => getHealthTrends(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 1,
+  });
+}
@@ -0,0 +1,134 @@
+/**
+ * Inbox Hooks
+ * React Query hooks for the inbound email address and review inbox
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getInboxAddress,
+  rotateInboxAddress,
+  addTrustedSender,
+  removeTrustedSender,
+  getInboxItems,
+  approveInboxItem,
+  deleteInboxItem,
+  type InboxItem,
+  type InboxItemStatus,
+} from "@/lib/api/inbox";
+
+/**
+ * Hook to fetch the inbound address and trusted senders
+ */
+export function useInboxAddress() {
+  return useQuery({
+    queryKey: ["inbox", "address"],
+    queryFn: () => getInboxAddress(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 1,
+  });
+}
+
+/**
+ * Hook to fetch inbox items
+ * Polls while imports are running so their outcome shows up without a refresh
+ */
+export function useInboxItems(status?: InboxItemStatus) {
+  return useQuery({
+    queryKey: ["inbox", "items", status],
+    queryFn: () => getInboxItems(status),
+    staleTime: 60 * 1000, // 1 minute
+    retry: 1,
+    refetchInterval: (query) =>
+      query.state.data?.items.some((item: InboxItem) => item.status === "queued") ? 3000 : false,
+  });
+}
+
+/**
+ * Hook to replace the inbound address
+ */
+export function useRotateInboxAddress() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => rotateInboxAddress(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["inbox", "address"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change address",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to trust or stop trusting a sender
+ */
+export function useTrustedSender() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ email, trusted }: { email: string; trusted: boolean }) =>
+      trusted ? addTrustedSender(email) : removeTrustedSender(email),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["inbox", "address"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update trusted senders",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to import an attachment waiting for review
+ */
+export function useApproveInboxItem() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, trustSender }: { id: string; trustSender?: boolean }) => approveInboxItem(id, trustSender),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["inbox"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import attachment",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to discard or clear an inbox item
+ */
+export function useDeleteInboxItem() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteInboxItem(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["inbox", "items"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove item",
+        variant: "destructive",
+      });
+    },
+  });
+}
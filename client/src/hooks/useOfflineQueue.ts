@@ -0,0 +1,140 @@
+/**
+ * Offline Queue Hooks
+ * React Query hooks for captures and edits waiting in the offline queue
+ */
+
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { registerServiceWorker } from "@/lib/pushNotifications";
+import {
+  getQueuedItems,
+  removeQueuedItem,
+  flushQueue,
+  isOfflineQueueSupported,
+  QUEUE_SYNCED_MESSAGE,
+} from "@/lib/offlineQueue";
+
+/**
+ * Hook to get the items waiting in the offline queue
+ */
+export function useOfflineQueue() {
+  return useQuery({
+    queryKey: ["offline-queue"],
+    queryFn: getQueuedItems,
+    enabled: isOfflineQueueSupported(),
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+/**
+ * Keep the offline queue moving for the whole app
+ * Registers the service worker that replays the queue with Background Sync; in browsers without
+ * Background Sync the page uploads the queue itself whenever the connection comes back
+ */
+export function useOfflineQueueSync() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!isOfflineQueueSupported()) return;
+
+    const refresh = () => {
+      queryClient.invalidateQueries({ queryKey: ["offline-queue"] });
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+    };
+
+    const flushFromPage = async () => {
+      try {
+        const result = await flushQueue();
+        if (result.synced > 0 || result.failed > 0) refresh();
+      } catch (error) {
+        console.error("[Offline] Failed to flush queue:", error);
+      }
+    };
+
+    const hasBackgroundSync = "serviceWorker" in navigator && "SyncManager" in window;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === QUEUE_SYNCED_MESSAGE) refresh();
+    };
+
+    if ("serviceWorker" in navigator) {
+      registerServiceWorker().catch((error) => {
+        console.error("[Offline] Service worker registration failed:", error);
+      });
+      navigator.serviceWorker.addEventListener("message", handleMessage);
+    }
+
+    if (!hasBackgroundSync) {
+      window.addEventListener("online", flushFromPage);
+      // Anything left from an earlier session
+      if (navigator.onLine) flushFromPage();
+    }
+
+    return () => {
+      if ("serviceWorker" in navigator) {
+        navigator.serviceWorker.removeEventListener("message", handleMessage);
+      }
+      window.removeEventListener("online", flushFromPage);
+    };
+  }, [queryClient]);
+}
+
+/**
+ * Hook to upload the offline queue now
+ */
+export function useFlushOfflineQueue() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: flushQueue,
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["offline-queue"] });
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+
+      if (result.remaining > 0 && result.synced === 0) {
+        toast({
+          title: "Still offline",
+          description: "Your captures will upload when the connection returns",
+        });
+        return;
+      }
+      toast({
+        title: result.failed > 0 ? "Sync finished with errors" : "Success",
+        description: `Synced ${result.synced} item(s)` +
+          (result.failed > 0 ? `, ${result.failed} could not be uploaded` : "") +
+          (result.remaining > 0 ? `, ${result.remaining} still waiting` : ""),
+        variant: result.failed > 0 ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sync offline captures",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to discard an item from the offline queue
+ */
+export function useDiscardQueuedItem() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (clientId: string) => removeQueuedItem(clientId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["offline-queue"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to discard capture",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * Health Tasks Hooks
+ * React Query hooks for follow-up tasks
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getHealthTasks,
+  createHealthTask,
+  updateHealthTask,
+  deleteHealthTask,
+  type HealthTaskStatus,
+  type CreateHealthTaskData,
+  type UpdateHealthTaskData,
+} from "@/lib/api/tasks";
+
+/**
+ * Hook to fetch the user's tasks
+ */
+export function useHealthTasks(filters?: { status?: HealthTaskStatus; documentId?: string }) {
+  return useQuery({
+    queryKey: ["tasks", filters?.status, filters?.documentId],
+    queryFn: () => getHealthTasks(filters),
+    staleTime: 60 * 1000, // 1 minute
+    retry: 1,
+  });
+}
+
+/**
+ * Hook to add a task
+ */
+export function useCreateHealthTask() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateHealthTaskData) => createHealthTask(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add task",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to edit, complete or dismiss a task
+ */
+export function useUpdateHealthTask() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateHealthTaskData }) => updateHealthTask(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update task",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to delete a task
+ */
+export function useDeleteHealthTask() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteHealthTask(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete task",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -9,6 +9,9 @@ import {
   updateUserProfile,
   completeOnboarding,
   updateUserSettings,
+  requestDataExport,
+  getDataExports,
+  importVaultArchive,
   type UpdateProfileData,
   type OnboardingData,
   type UserSettings,
@@ -103,3 +106,75 @@ export function useUpdateSettings() {
   });
 }
 
+
+/**
+ * Hook to get the user's data exports
+ * Polls while an export is being built
+ */
+export function useDataExports() {
+  return useQuery({
+    queryKey: ["user", "exports"],
+    queryFn: getDataExports,
+    refetchInterval: (query) =>
+      query.state.data?.exports.some((e) => e.status === "queued" || e.status === "running")
+        ? 3000
+        : false,
+  });
+}
+
+/**
+ * Hook to start a data export
+ */
+export function useRequestDataExport() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: requestDataExport,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["user", "exports"] });
+      toast({
+        title: "Success",
+        description: data.message || "Export started",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start export",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Hook to import a vault export archive
+ * Dry runs only report what would be created, so they don't toast or refresh anything
+ */
+export function useImportVaultArchive() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ file, dryRun }: { file: File; dryRun: boolean }) => importVaultArchive(file, dryRun),
+    onSuccess: (data) => {
+      if (data.dryRun) return;
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+      queryClient.invalidateQueries({ queryKey: ["medications"] });
+      queryClient.invalidateQueries({ queryKey: ["emergency-card"] });
+      queryClient.invalidateQueries({ queryKey: ["nominees"] });
+      toast({
+        title: "Success",
+        description: `Imported ${data.summary.document.created} documents and ${data.summary.medication.created} medications`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import archive",
+        variant: "destructive",
+      });
+    },
+  });
+}
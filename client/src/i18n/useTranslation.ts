@@ -42,6 +42,7 @@ export function useTranslation() {
     get auth() { return createNestedProxy('auth'); },
     get dashboard() { return createNestedProxy('dashboard'); },
     get vault() { return createNestedProxy('vault'); },
+    get expenses() { return createNestedProxy('expenses'); },
     get profile() { return createNestedProxy('profile'); },
     get onboarding() { return createNestedProxy('onboarding'); },
     get otpVerification() { return createNestedProxy('otpVerification'); },
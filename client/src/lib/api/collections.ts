@@ -0,0 +1,177 @@
+/**
+ * Collections API Client
+ * Functions for managing collections of documents, medications and notes
+ */
+
+import { apiRequest } from "../queryClient";
+import type { DocumentType } from "./documents";
+
+export type CollectionItemType = "document" | "medication" | "note";
+
+export interface Collection {
+  id: string;
+  name: string;
+  description: string | null;
+  color: string | null;
+  position: number;
+  counts: { documents: number; medications: number; notes: number };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CollectionEntry {
+  id: string;
+  itemType: CollectionItemType;
+  position: number;
+  document?: {
+    id: string;
+    title: string;
+    type: DocumentType;
+    provider: string | null;
+    date: string | null;
+    fileType: string | null;
+  };
+  medication?: {
+    id: string;
+    name: string;
+    dosage: string;
+    frequency: string;
+    status: "active" | "stopped" | "completed";
+  };
+  note?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CollectionData {
+  name: string;
+  description?: string | null;
+  color?: string | null;
+}
+
+export interface AddCollectionItemData {
+  itemType: CollectionItemType;
+  documentId?: string;
+  medicationId?: string;
+  note?: string;
+}
+
+export interface CollectionsResponse {
+  success: boolean;
+  collections: Collection[];
+}
+
+export interface CollectionResponse {
+  success: boolean;
+  message?: string;
+  collection: Collection;
+}
+
+export interface CollectionDetailResponse {
+  success: boolean;
+  collection: Collection;
+  items: CollectionEntry[];
+}
+
+export interface DocumentCollectionsResponse {
+  success: boolean;
+  collections: Array<{ id: string; name: string; itemId: string }>;
+}
+
+/**
+ * Get the current user's collections in their saved order
+ */
+export async function getCollections(): Promise<CollectionsResponse> {
+  const res = await apiRequest("GET", "/api/collections", undefined);
+  return res.json();
+}
+
+/**
+ * Get a collection with its documents, medications and notes
+ */
+export async function getCollection(id: string): Promise<CollectionDetailResponse> {
+  const res = await apiRequest("GET", `/api/collections/${id}`, undefined);
+  return res.json();
+}
+
+/**
+ * Create a collection
+ */
+export async function createCollection(data: CollectionData): Promise<CollectionResponse> {
+  const res = await apiRequest("POST", "/api/collections", data);
+  return res.json();
+}
+
+/**
+ * Rename a collection or change its description or color
+ */
+export async function updateCollection(id: string, data: Partial<CollectionData>): Promise<CollectionResponse> {
+  const res = await apiRequest("PATCH", `/api/collections/${id}`, data);
+  return res.json();
+}
+
+/**
+ * Delete a collection (its documents and medications stay in the vault)
+ */
+export async function deleteCollection(id: string): Promise<{ success: boolean; message: string }> {
+  const res = await apiRequest("DELETE", `/api/collections/${id}`, undefined);
+  return res.json();
+}
+
+/**
+ * Save a new collection order - ids must list every collection
+ */
+export async function reorderCollections(ids: string[]): Promise<{ success: boolean }> {
+  const res = await apiRequest("PUT", "/api/collections/order", { ids });
+  return res.json();
+}
+
+/**
+ * Add a document, medication or note to a collection
+ */
+export async function addCollectionItem(
+  collectionId: string,
+  data: AddCollectionItemData
+): Promise<{ success: boolean; message: string }> {
+  const res = await apiRequest("POST", `/api/collections/${collectionId}/items`, data);
+  return res.json();
+}
+
+/**
+ * Edit the text of a note in a collection
+ */
+export async function updateCollectionNote(
+  collectionId: string,
+  itemId: string,
+  note: string
+): Promise<{ success: boolean; message: string }> {
+  const res = await apiRequest("PATCH", `/api/collections/${collectionId}/items/${itemId}`, { note });
+  return res.json();
+}
+
+/**
+ * Remove an item from a collection
+ */
+export async function removeCollectionItem(
+  collectionId: string,
+  itemId: string
+): Promise<{ success: boolean; message: string }> {
+  const res = await apiRequest("DELETE", `/api/collections/${collectionId}/items/${itemId}`, undefined);
+  return res.json();
+}
+
+/**
+ * Save a new item order - ids must list every item of the collection
+ */
+export async function reorderCollectionItems(collectionId: string, ids: string[]): Promise<{ success: boolean }> {
+  const res = await apiRequest("PUT", `/api/collections/${collectionId}/items/order`, { ids });
+  return res.json();
+}
+
+/**
+ * Get the collections a document is in
+ */
+export async function getDocumentCollections(documentId: string): Promise<DocumentCollectionsResponse> {
+  const res = await apiRequest("GET", `/api/documents/${documentId}/collections`, undefined);
+  return res.json();
+}
@@ -21,6 +21,9 @@ export interface Consent {
   purpose: string;
   status: ConsentStatus;
   shareableToken: string;
+  collectionId?: string | null; // Set when only one collection is shared
+  collectionName?: string | null; // Returned on shared consent lookups instead of the id
+  includeAnnotations?: boolean; // Shared documents carry the owner's notes and highlights
   createdAt: Date;
   expiresAt: Date;
   revokedAt?: Date | null;
@@ -44,6 +47,8 @@ export interface CreateConsentData {
   durationType: DurationType;
   customExpiryDate?: string; // ISO date string
   purpose: string;
+  collectionId?: string; // Share only the documents, medications and notes of this collection
+  includeAnnotations?: boolean;
 }
 
 export interface ConsentResponse {
@@ -61,6 +66,19 @@ export interface AuditLogsResponse {
   logs: ConsentAuditLog[];
 }
 
+export interface SharedCollection {
+  name: string;
+  description: string | null;
+  medications: Array<{ id: string; name: string; dosage: string; frequency: string; status: string }>;
+  notes: Array<{ id: string; note: string; createdAt: string }>;
+}
+
+export interface SharedDocumentsResponse {
+  success: boolean;
+  documents: any[];
+  collection: SharedCollection | null;
+}
+
 export interface QRCodeResponse {
   success: boolean;
   qrCode: string; // Data URL
@@ -127,7 +145,7 @@ export async function getQRCode(consentId: string): Promise<QRCodeResponse> {
 /**
  * Get documents for a shared consent (public endpoint)
  */
-export async function getSharedDocuments(token: string): Promise<{ success: boolean; documents: any[] }> {
+export async function getSharedDocuments(token: string): Promise<SharedDocumentsResponse> {
   const res = await apiRequest("GET", `/api/consents/share/${token}/documents`, undefined);
   return res.json();
 }
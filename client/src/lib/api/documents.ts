@@ -7,6 +7,8 @@ import { apiRequest } from "../queryClient";
 
 export type DocumentType = "prescription" | "lab" | "imaging" | "billing";
 
+export type ProcessingStatus = "queued" | "running" | "failed" | "rejected" | "done";
+
 export interface Document {
   id: string;
   title: string;
@@ -15,24 +17,208 @@ export interface Document {
   date?: Date | null;
   fileType?: string | null;
   fileSize?: number | null;
+  pageCount?: number | null; // Null until counted; only PDFs, images and DICOM studies (one page per image) have pages
   tags: string[];
   syncStatus: "synced" | "pending";
   extractedText?: string | null;
   embedding?: string | null;
   ocrProcessed?: boolean;
   ocrProcessedAt?: Date | null;
+  processingStatus?: ProcessingStatus | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface DicomStudy {
+  studyInstanceUid: string;
+  modalities: Array<{ code: string; label: string }>;
+  bodyParts: string[];
+  imageCount: number;
+  series: Array<{
+    seriesInstanceUid: string;
+    seriesNumber?: number | null;
+    description?: string | null;
+    modality?: string | null;
+    bodyPart?: string | null;
+    imageCount: number;
+    firstPage: number; // 1-based page of the series' first image in the page viewer
+  }>;
+}
+
 export interface DocumentDetail extends Document {
   fileUrl: string;
   versions: Array<{
     id: string;
     version: string;
+    fileType?: string | null;
+    fileSize?: number | null;
     note?: string | null;
     createdAt: Date;
   }>;
+  // Imaging study details - only for DICOM documents
+  dicom?: DicomStudy | null;
+}
+
+export interface DocumentVersion {
+  id: string;
+  version: string;
+  fileType?: string | null;
+  fileSize?: number | null;
+  note?: string | null;
+  hasText: boolean; // Whether OCR text is available for comparison
+  isCurrent: boolean;
+  createdAt: Date;
+}
+
+export interface DocumentVersionsResponse {
+  success: boolean;
+  documentId: string;
+  versions: DocumentVersion[];
+  total: number;
+}
+
+export interface DocumentVersionDiffResponse {
+  success: boolean;
+  from: DocumentVersion;
+  to: DocumentVersion;
+  lines: Array<{ type: "added" | "removed" | "unchanged"; text: string }>;
+  added: number;
+  removed: number;
+  truncated: boolean;
+}
+
+export interface DocumentVersionMutationResponse {
+  success: boolean;
+  message: string;
+  version: DocumentVersion;
+  processing: { jobId: string; status: ProcessingStatus } | null;
+}
+
+export type AbnormalFlag = "normal" | "low" | "high" | "abnormal";
+
+export interface LabObservation {
+  id: string;
+  documentId: string;
+  analyte: string;
+  value: string;
+  numericValue: number | null;
+  unit: string | null;
+  referenceRange: string | null;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  analyteCode: string | null;
+  canonicalAnalyte: string | null; // Dictionary name, e.g. "Creatinine" for "S. Creatinine"
+  normalizedValue: number | null; // numericValue in the canonical unit
+  normalizedUnit: string | null;
+  normalizedReferenceLow: number | null;
+  normalizedReferenceHigh: number | null;
+  abnormalFlag: AbnormalFlag | null;
+  specimenDate: string | null;
+  position: number;
+  source: "ai" | "manual";
+  updatedAt: string;
+}
+
+export interface LabObservationData {
+  analyte: string;
+  value: string;
+  unit?: string | null;
+  referenceRange?: string | null;
+  abnormalFlag?: AbnormalFlag | null;
+  specimenDate?: string | null;
+}
+
+export interface LabObservationsResponse {
+  success: boolean;
+  message?: string;
+  observations: LabObservation[];
+}
+
+export interface LabObservationMutationResponse {
+  success: boolean;
+  message: string;
+  observation: LabObservation;
+}
+
+export type AnnotationColor = "yellow" | "red" | "green" | "blue";
+
+export interface AnnotationRegion {
+  x: number; // Fractions (0-1) of the page image
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DocumentAnnotation {
+  id: string;
+  documentId: string;
+  page: number | null; // 1-based; null for a note about the whole document
+  region: AnnotationRegion | null;
+  color: AnnotationColor;
+  note: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DocumentAnnotationData {
+  page?: number | null;
+  region?: AnnotationRegion | null;
+  color?: AnnotationColor;
+  note?: string | null;
+}
+
+export interface DocumentAnnotationsResponse {
+  success: boolean;
+  annotations: DocumentAnnotation[];
+}
+
+export interface DocumentAnnotationMutationResponse {
+  success: boolean;
+  message: string;
+  annotation: DocumentAnnotation;
+}
+
+export type RedactionLabel =
+  | "phone"
+  | "email"
+  | "address"
+  | "aadhaar"
+  | "pan"
+  | "date_of_birth"
+  | "identifier"
+  | "manual";
+
+export interface RedactionRegion extends AnnotationRegion {
+  page: number; // 1-based
+  label: RedactionLabel;
+  source: "suggested" | "manual";
+}
+
+export interface DocumentRedaction {
+  id: string;
+  documentId: string;
+  regions: RedactionRegion[];
+  fileType: "PDF" | "JPG";
+  outdated: boolean; // A newer version was uploaded since; shares can't open the document until it is redacted again
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DocumentRedactionResponse {
+  success: boolean;
+  supported: boolean; // Only PDFs and images can be redacted
+  redaction: DocumentRedaction | null;
+}
+
+export interface RedactionSuggestionsResponse {
+  success: boolean;
+  regions: RedactionRegion[];
+  unplaced: Array<{ label: RedactionLabel; value: string }>; // Found in the OCR text of scans, to be boxed by hand
+}
+
+export interface RedactedDocumentsResponse {
+  success: boolean;
+  redactions: Array<{ documentId: string; updatedAt: string; outdated: boolean }>;
 }
 
 export interface CreateDocumentData {
@@ -44,6 +230,21 @@ export interface CreateDocumentData {
   fileUrl?: string; // For now, we'll handle file upload separately
   fileType?: string;
   fileSize?: number;
+  // How to handle an upload that duplicates an existing document (see DuplicateMatch)
+  duplicateAction?: "skip" | "replace" | "keep";
+  duplicateOf?: string;
+}
+
+export interface DuplicateMatch {
+  id: string;
+  title: string;
+  type: DocumentType;
+  provider?: string | null;
+  date?: Date | null;
+  fileType?: string | null;
+  createdAt: Date;
+  matchType: "exact" | "similar";
+  similarity: number;
 }
 
 export interface UpdateDocumentData {
@@ -55,8 +256,51 @@ export interface UpdateDocumentData {
 
 export interface DocumentsResponse {
   success: boolean;
-  documents: Document[];
+  documents: Document[]; // Listed without extractedText
+  total: number; // Documents matching the filters, across all pages
+  nextCursor?: string | null; // Pass as cursor for the next page; null on the last page
+  facets?: DocumentFacets; // Only when requested
+}
+
+export interface DocumentFacets {
+  types: Partial<Record<DocumentType, number>>;
+  providers: Array<{ provider: string; count: number }>;
+}
+
+export type DocumentSortField = "date" | "createdAt" | "title";
+
+export interface DocumentListFilters {
+  type?: string;
+  search?: string;
+  collectionId?: string;
+  provider?: string;
+  tag?: string;
+  from?: string; // Document date (YYYY-MM-DD), inclusive
+  to?: string; // Document date (YYYY-MM-DD), inclusive
+  ocrProcessed?: boolean;
+  sort?: DocumentSortField; // Defaults to date
+  order?: "asc" | "desc"; // Defaults to newest first
+}
+
+export interface TrashedDocument {
+  id: string;
+  title: string;
+  type: DocumentType;
+  provider: string | null;
+  date: string | null;
+  fileType: string | null;
+  fileSize: number | null;
+  tags: string[];
+  deletedAt: string;
+  purgeAt: string;
+  createdAt: string;
+}
+
+export interface TrashResponse {
+  success: boolean;
+  documents: TrashedDocument[];
   total: number;
+  retentionDays: number;
 }
 
 export interface DocumentResponse {
@@ -64,16 +308,107 @@ export interface DocumentResponse {
   document: DocumentDetail;
 }
 
+export interface ArchiveImportResult {
+  fileName: string;
+  status: "created" | "skipped" | "rejected";
+  reason?: string;
+  document?: Pick<Document, "id" | "title" | "type" | "provider" | "date">;
+  // Background processing job for a created document
+  processing?: { jobId: string; status: ProcessingStatus };
+}
+
+export interface DocumentProcessingResponse {
+  success: boolean;
+  documentId: string;
+  ocrProcessed: boolean;
+  ocrProcessedAt?: Date | null;
+  processing: {
+    jobId: string;
+    status: ProcessingStatus;
+    stage?: "ocr" | "validation" | "metadata" | "embedding" | "medications" | "observations" | "expenses" | "insight" | "tasks" | null;
+    attempts: number;
+    maxAttempts: number;
+    lastError?: string | null;
+    nextAttemptAt?: Date | null;
+    startedAt?: Date | null;
+    completedAt?: Date | null;
+    createdAt: Date;
+  } | null;
+}
+
+export interface CreateDocumentResponse {
+  success: boolean;
+  message: string;
+  document?: Document;
+  // Set when duplicateAction was "skip" - document is the existing copy
+  skipped?: boolean;
+  // Set when duplicateAction was "replace" - the upload became a new version of document
+  version?: { id: string; version: string };
+  // Background processing job for the uploaded file
+  processing?: { jobId: string; status: ProcessingStatus } | null;
+  // Present when a DICOM image was added to its study's document
+  dicom?: { added: number; skipped: number };
+  // Set when the upload was queued offline instead of sent
+  queued?: boolean;
+  // Present when a ZIP archive was expanded into multiple documents
+  archive?: {
+    fileName: string;
+    summary: { total: number; created: number; skipped: number; rejected: number };
+    results: ArchiveImportResult[];
+  };
+}
+
+export interface SyncDocumentsResponse {
+  success: boolean;
+  message: string;
+  synced: Array<{ clientId: string; documentId: string }>;
+  pending: string[];
+}
+
+export interface DocumentSearchResult {
+  id: string;
+  title: string;
+  type: DocumentType;
+  provider?: string | null;
+  date?: Date | null;
+  fileType?: string | null;
+  tags: string[];
+  createdAt: Date;
+  score: number;
+  matchedTerms: string[];
+  snippets: Array<{
+    field: "title" | "provider" | "tags" | "extractedText" | "notes";
+    text: string;
+  }>;
+}
+
+export interface DocumentSearchResponse {
+  success: boolean;
+  query: string;
+  results: DocumentSearchResult[];
+  total: number;
+}
+
 /**
- * Get all documents for current user
+ * Get a page of documents for current user (50 unless a limit is given)
  */
-export async function getDocuments(filters?: {
-  type?: string;
-  search?: string;
-}): Promise<DocumentsResponse> {
+export async function getDocuments(
+  filters?: DocumentListFilters & { limit?: number; cursor?: string; facets?: boolean }
+): Promise<DocumentsResponse> {
   const params = new URLSearchParams();
   if (filters?.type) params.append("type", filters.type);
   if (filters?.search) params.append("search", filters.search);
+  if (filters?.collectionId) params.append("collectionId", filters.collectionId);
+  if (filters?.provider) params.append("provider", filters.provider);
+  if (filters?.tag) params.append("tag", filters.tag);
+  if (filters?.from) params.append("from", filters.from);
+  if (filters?.to) params.append("to", filters.to);
+  if (filters?.ocrProcessed !== undefined) params.append("ocrProcessed", String(filters.ocrProcessed));
+  if (filters?.sort) params.append("sort", filters.sort);
+  if (filters?.order) params.append("order", filters.order);
+  if (filters?.limit) params.append("limit", filters.limit.toString());
+  if (filters?.cursor) params.append("cursor", filters.cursor);
+  if (filters?.facets) params.append("facets", "true");
 
   const query = params.toString();
   const url = `/api/documents${query ? `?${query}` : ""}`;
@@ -81,6 +416,40 @@ export async function getDocuments(filters?: {
   return res.json();
 }
 
+// Largest page the server returns
+const MAX_DOCUMENT_PAGE_SIZE = 100;
+
+/**
+ * Get every document matching the filters, following the cursor to the last page
+ * For screens that need the whole set (summaries, pickers); the vault list pages with getDocuments.
+ */
+export async function getAllDocuments(filters?: DocumentListFilters): Promise<DocumentsResponse> {
+  const first = await getDocuments({ ...filters, limit: MAX_DOCUMENT_PAGE_SIZE });
+  const documents = [...first.documents];
+  let cursor = first.nextCursor;
+  while (cursor) {
+    const page = await getDocuments({ ...filters, limit: MAX_DOCUMENT_PAGE_SIZE, cursor });
+    documents.push(...page.documents);
+    cursor = page.nextCursor;
+  }
+  return { ...first, documents, nextCursor: null };
+}
+
+/**
+ * Search documents by meaning and keywords (e.g., "thyroid results last year")
+ */
+export async function searchDocuments(
+  query: string,
+  options?: { type?: string; limit?: number }
+): Promise<DocumentSearchResponse> {
+  const params = new URLSearchParams({ q: query });
+  if (options?.type) params.append("type", options.type);
+  if (options?.limit) params.append("limit", options.limit.toString());
+
+  const res = await apiRequest("GET", `/api/documents/search?${params.toString()}`, undefined);
+  return res.json();
+}
+
 /**
  * Get a specific document
  */
@@ -91,11 +460,12 @@ export async function getDocument(id: string): Promise<DocumentResponse> {
 
 /**
  * Create a new document (with optional file upload)
+ * ZIP uploads are expanded server-side into one document per file
  */
 export async function createDocument(
   data: CreateDocumentData,
   file?: File
-): Promise<{ success: boolean; message: string; document: Document }> {
+): Promise<CreateDocumentResponse> {
   if (file) {
     // Use FormData for file upload
     const formData = new FormData();
@@ -107,6 +477,8 @@ export async function createDocument(
     if (data.tags) formData.append("tags", JSON.stringify(data.tags));
     if (data.fileType) formData.append("fileType", data.fileType);
     if (data.fileSize) formData.append("fileSize", data.fileSize.toString());
+    if (data.duplicateAction) formData.append("duplicateAction", data.duplicateAction);
+    if (data.duplicateOf) formData.append("duplicateOf", data.duplicateOf);
     
     const res = await fetch("/api/documents", {
       method: "POST",
@@ -139,15 +511,51 @@ export async function updateDocument(
 }
 
 /**
- * Delete a document
+ * Move a document to the trash
  */
 export async function deleteDocument(
   id: string
-): Promise<{ success: boolean; message: string }> {
+): Promise<{ success: boolean; message: string; purgeAt: string }> {
   const res = await apiRequest("DELETE", `/api/documents/${id}`, undefined);
   return res.json();
 }
 
+/**
+ * Get trashed documents
+ */
+export async function getTrash(): Promise<TrashResponse> {
+  const res = await apiRequest("GET", "/api/documents/trash", undefined);
+  return res.json();
+}
+
+/**
+ * Restore a trashed document
+ */
+export async function restoreFromTrash(
+  id: string
+): Promise<{ success: boolean; message: string }> {
+  const res = await apiRequest("POST", `/api/documents/trash/${id}/restore`, undefined);
+  return res.json();
+}
+
+/**
+ * Permanently delete a trashed document
+ */
+export async function purgeDocument(
+  id: string
+): Promise<{ success: boolean; message: string }> {
+  const res = await apiRequest("DELETE", `/api/documents/trash/${id}`, undefined);
+  return res.json();
+}
+
+/**
+ * Permanently delete every trashed document
+ */
+export async function emptyTrash(): Promise<{ success: boolean; message: string; purged: number }> {
+  const res = await apiRequest("DELETE", "/api/documents/trash", undefined);
+  return res.json();
+}
+
 /**
  * Get document file URL
  */
@@ -159,20 +567,263 @@ export async function getDocumentFile(
 }
 
 /**
- * Get document preview/thumbnail URL
+ * Get document preview/thumbnail URL and page count
  */
-export async function getDocumentPreview(
-  id: string
-): Promise<{ success: boolean; previewUrl: string; fileType?: string; expiresIn?: number }> {
+export async function getDocumentPreview(id: string): Promise<{
+  success: boolean;
+  previewUrl: string;
+  thumbnailUrl?: string | null;
+  fileType?: string;
+  pageCount?: number | null;
+  expiresIn?: number;
+}> {
   const res = await apiRequest("GET", `/api/documents/${id}/preview`, undefined);
   return res.json();
 }
 
 /**
- * Sync pending documents (update syncStatus from 'pending' to 'synced')
+ * URL of a rendered page image (1-based page), usable directly as an <img> src
+ */
+export function getDocumentPageUrl(id: string, page: number, size: "thumbnail" | "page" = "page"): string {
+  return `/api/documents/${id}/preview?page=${page}&size=${size}`;
+}
+
+/**
+ * Get background processing status (OCR, embedding, insights) of a document
+ */
+export async function getDocumentProcessing(id: string): Promise<DocumentProcessingResponse> {
+  const res = await apiRequest("GET", `/api/documents/${id}/processing`, undefined);
+  return res.json();
+}
+
+/**
+ * Retry processing for a document whose processing failed
+ */
+export async function retryDocumentProcessing(
+  id: string
+): Promise<{ success: boolean; message: string; processing: { jobId: string; status: ProcessingStatus } }> {
+  const res = await apiRequest("POST", `/api/documents/${id}/processing/retry`, undefined);
+  return res.json();
+}
+
+/**
+ * Get the version history of a document (newest/current first)
+ */
+export async function getDocumentVersions(id: string): Promise<DocumentVersionsResponse> {
+  const res = await apiRequest("GET", `/api/documents/${id}/versions`, undefined);
+  return res.json();
+}
+
+/**
+ * Upload a new version of a document (e.g., a corrected report)
+ */
+export async function uploadDocumentVersion(
+  id: string,
+  file: File,
+  note?: string
+): Promise<DocumentVersionMutationResponse> {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (note) formData.append("note", note);
+
+  const res = await fetch(`/api/documents/${id}/versions`, {
+    method: "POST",
+    body: formData,
+    credentials: "include", // Include cookies for authentication
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.message || "Failed to upload new version");
+  }
+
+  return res.json();
+}
+
+/**
+ * Get the file URL of a specific version
+ */
+export async function getDocumentVersionFile(
+  id: string,
+  versionId: string
+): Promise<{ success: boolean; fileUrl: string; fileType?: string; version: string; expiresIn?: number }> {
+  const res = await apiRequest("GET", `/api/documents/${id}/versions/${versionId}/file`, undefined);
+  return res.json();
+}
+
+/**
+ * Restore an older version as the current one
+ */
+export async function restoreDocumentVersion(
+  id: string,
+  versionId: string
+): Promise<DocumentVersionMutationResponse> {
+  const res = await apiRequest("POST", `/api/documents/${id}/versions/${versionId}/restore`, undefined);
+  return res.json();
+}
+
+/**
+ * Compare extracted text between two versions (`to` defaults to the current version)
+ */
+export async function getDocumentVersionDiff(
+  id: string,
+  from: string,
+  to?: string
+): Promise<DocumentVersionDiffResponse> {
+  const params = new URLSearchParams({ from });
+  if (to) params.append("to", to);
+
+  const res = await apiRequest("GET", `/api/documents/${id}/versions/diff?${params.toString()}`, undefined);
+  return res.json();
+}
+
+/**
+ * Get the structured lab results of a document
+ */
+export async function getLabObservations(id: string): Promise<LabObservationsResponse> {
+  const res = await apiRequest("GET", `/api/documents/${id}/observations`, undefined);
+  return res.json();
+}
+
+/**
+ * Add a lab result to a document
+ */
+export async function createLabObservation(
+  id: string,
+  data: LabObservationData
+): Promise<LabObservationMutationResponse> {
+  const res = await apiRequest("POST", `/api/documents/${id}/observations`, data);
+  return res.json();
+}
+
+/**
+ * Correct a lab result
+ */
+export async function updateLabObservation(
+  id: string,
+  observationId: string,
+  data: Partial<LabObservationData>
+): Promise<LabObservationMutationResponse> {
+  const res = await apiRequest("PUT", `/api/documents/${id}/observations/${observationId}`, data);
+  return res.json();
+}
+
+/**
+ * Delete a lab result
+ */
+export async function deleteLabObservation(
+  id: string,
+  observationId: string
+): Promise<{ success: boolean; message: string }> {
+  const res = await apiRequest("DELETE", `/api/documents/${id}/observations/${observationId}`, undefined);
+  return res.json();
+}
+
+/**
+ * Re-run lab result extraction on a processed lab report
+ */
+export async function extractLabObservations(id: string): Promise<LabObservationsResponse> {
+  const res = await apiRequest("POST", `/api/documents/${id}/observations/extract`, undefined);
+  return res.json();
+}
+
+/**
+ * Get the user's notes and highlights on a document
+ */
+export async function getDocumentAnnotations(id: string): Promise<DocumentAnnotationsResponse> {
+  const res = await apiRequest("GET", `/api/documents/${id}/annotations`, undefined);
+  return res.json();
+}
+
+/**
+ * Add a note or a highlighted page region to a document
+ */
+export async function createDocumentAnnotation(
+  id: string,
+  data: DocumentAnnotationData
+): Promise<DocumentAnnotationMutationResponse> {
+  const res = await apiRequest("POST", `/api/documents/${id}/annotations`, data);
+  return res.json();
+}
+
+/**
+ * Edit the note, color or region of an annotation
+ */
+export async function updateDocumentAnnotation(
+  id: string,
+  annotationId: string,
+  data: Omit<DocumentAnnotationData, "page">
+): Promise<DocumentAnnotationMutationResponse> {
+  const res = await apiRequest("PATCH", `/api/documents/${id}/annotations/${annotationId}`, data);
+  return res.json();
+}
+
+/**
+ * Delete an annotation
+ */
+export async function deleteDocumentAnnotation(
+  id: string,
+  annotationId: string
+): Promise<{ success: boolean; message: string }> {
+  const res = await apiRequest("DELETE", `/api/documents/${id}/annotations/${annotationId}`, undefined);
+  return res.json();
+}
+
+/**
+ * Get the redacted copy of a document that consent shares serve instead of the original
+ */
+export async function getDocumentRedaction(id: string): Promise<DocumentRedactionResponse> {
+  const res = await apiRequest("GET", `/api/documents/${id}/redaction`, undefined);
+  return res.json();
+}
+
+/**
+ * Get suggested regions with personal details (phone, address, ID numbers...)
+ */
+export async function getRedactionSuggestions(id: string): Promise<RedactionSuggestionsResponse> {
+  const res = await apiRequest("GET", `/api/documents/${id}/redaction/suggestions`, undefined);
+  return res.json();
+}
+
+/**
+ * Save the regions to black out and render the redacted copy
+ */
+export async function saveDocumentRedaction(
+  id: string,
+  regions: RedactionRegion[]
+): Promise<{ success: boolean; message: string; redaction: DocumentRedaction }> {
+  const res = await apiRequest("PUT", `/api/documents/${id}/redaction`, { regions });
+  return res.json();
+}
+
+/**
+ * Remove the redacted copy; shares serve the original again
+ */
+export async function deleteDocumentRedaction(id: string): Promise<{ success: boolean; message: string }> {
+  const res = await apiRequest("DELETE", `/api/documents/${id}/redaction`, undefined);
+  return res.json();
+}
+
+/**
+ * URL of the redacted copy, to check it before sharing
+ */
+export function getRedactedFileUrl(id: string): string {
+  return `/api/documents/${id}/redaction/file?raw=1`;
+}
+
+/**
+ * List the user's redacted documents
+ */
+export async function getRedactedDocuments(): Promise<RedactedDocumentsResponse> {
+  const res = await apiRequest("GET", "/api/documents/redactions", undefined);
+  return res.json();
+}
+
+/**
+ * Check which queued offline captures (by client id) the server already has
  */
-export async function syncDocuments(): Promise<{ success: boolean; message: string; syncedCount: number }> {
-  const res = await apiRequest("POST", "/api/documents/sync", undefined);
+export async function syncDocuments(clientIds: string[]): Promise<SyncDocumentsResponse> {
+  const res = await apiRequest("POST", "/api/documents/sync", { clientIds });
   return res.json();
 }
 
@@ -0,0 +1,169 @@
+/**
+ * Expenses API Client
+ * Functions for fetching and managing medical expenses and yearly statements
+ */
+
+import { apiRequest } from "../queryClient";
+
+export type ExpenseCategory =
+  | 'consultation'
+  | 'diagnostics'
+  | 'medicines'
+  | 'hospitalization'
+  | 'insurance_premium'
+  | 'preventive_checkup'
+  | 'other';
+
+export type ReimbursementStatus = 'none' | 'claimed' | 'reimbursed';
+
+// 'calendar': January - December, 'financial': April - March
+export type PeriodBasis = 'calendar' | 'financial';
+
+export interface Expense {
+  id: string;
+  userId: string;
+  documentId: string | null;
+  documentTitle: string | null;
+  payee: string;
+  description: string | null;
+  category: ExpenseCategory;
+  amount: number; // Including GST
+  gstAmount: number | null;
+  currency: string;
+  payer: string | null;
+  paymentDate: string;
+  invoiceNumber: string | null;
+  reimbursementStatus: ReimbursementStatus;
+  notes: string | null;
+  source: 'ai' | 'manual';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExpenseSummary {
+  period: {
+    year: number;
+    basis: PeriodBasis;
+    month: number | null;
+    from: string;
+    to: string;
+    label: string; // e.g. "2025" or "FY 2025-26"
+  };
+  total: number;
+  gstTotal: number;
+  count: number;
+  byMonth: Array<{ month: string; label: string; total: number; count: number }>;
+  byCategory: Array<{ category: ExpenseCategory; label: string; total: number; count: number }>;
+  byPayer: Array<{ payer: string; total: number; count: number }>;
+  reimbursement: { claimed: number; reimbursed: number; notClaimed: number };
+  section80D: {
+    insurancePremiums: number;
+    preventiveCheckups: number;
+    preventiveCheckupsAllowed: number;
+  };
+}
+
+export interface ExpenseFilters {
+  year?: number;
+  month?: number;
+  basis?: PeriodBasis;
+  category?: ExpenseCategory;
+  documentId?: string;
+}
+
+export interface CreateExpenseData {
+  payee: string;
+  description?: string | null;
+  category?: ExpenseCategory;
+  amount: number;
+  gstAmount?: number | null;
+  payer?: string | null;
+  paymentDate: string;
+  invoiceNumber?: string | null;
+  reimbursementStatus?: ReimbursementStatus;
+  notes?: string | null;
+  documentId?: string | null;
+}
+
+export type UpdateExpenseData = Partial<CreateExpenseData>;
+
+export interface ExpensesResponse {
+  success: boolean;
+  expenses: Expense[];
+}
+
+export interface ExpenseResponse {
+  success: boolean;
+  message?: string;
+  expense: Expense;
+}
+
+export interface ExpenseSummaryResponse {
+  success: boolean;
+  summary: ExpenseSummary;
+  years: number[]; // Years with expenses, newest first
+}
+
+function buildQuery(filters?: Record<string, string | number | undefined>): string {
+  const params = new URLSearchParams();
+  Object.entries(filters || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.append(key, String(value));
+  });
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+/**
+ * Get the current user's expenses, most recent payment first
+ */
+export async function getExpenses(filters?: ExpenseFilters): Promise<ExpensesResponse> {
+  const res = await apiRequest("GET", `/api/expenses${buildQuery({ ...filters })}`, undefined);
+  return res.json();
+}
+
+/**
+ * Get the totals for a year
+ */
+export async function getExpenseSummary(year?: number, basis?: PeriodBasis): Promise<ExpenseSummaryResponse> {
+  const res = await apiRequest("GET", `/api/expenses/summary${buildQuery({ year, basis })}`, undefined);
+  return res.json();
+}
+
+/**
+ * URL that downloads a year's statement (the session cookie authenticates the download)
+ */
+export function getExpenseExportUrl(format: 'csv' | 'pdf', year: number, basis: PeriodBasis): string {
+  return `/api/expenses/export${buildQuery({ format, year, basis })}`;
+}
+
+/**
+ * Add an expense
+ */
+export async function createExpense(data: CreateExpenseData): Promise<ExpenseResponse> {
+  const res = await apiRequest("POST", "/api/expenses", data);
+  return res.json();
+}
+
+/**
+ * Edit an expense
+ */
+export async function updateExpense(id: string, data: UpdateExpenseData): Promise<ExpenseResponse> {
+  const res = await apiRequest("PUT", `/api/expenses/${id}`, data);
+  return res.json();
+}
+
+/**
+ * Delete an expense
+ */
+export async function deleteExpense(id: string): Promise<{ success: boolean; message: string }> {
+  const res = await apiRequest("DELETE", `/api/expenses/${id}`, undefined);
+  return res.json();
+}
+
+/**
+ * Re-read the expense from a processed bill
+ */
+export async function extractExpense(documentId: string): Promise<ExpensesResponse & { message: string }> {
+  const res = await apiRequest("POST", "/api/expenses/extract", { documentId });
+  return res.json();
+}
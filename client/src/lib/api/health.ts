@@ -26,6 +26,39 @@ export interface HealthInsightResponse {
   insight: HealthInsight;
 }
 
+export interface TrendPoint {
+  observationId: string;
+  documentId: string;
+  documentTitle: string;
+  date: string;
+  value: string; // As printed on the report
+  unit: string | null; // As printed on the report
+  numericValue: number; // In the series unit
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  abnormalFlag: "normal" | "low" | "high" | "abnormal" | null;
+  outOfRange: boolean;
+}
+
+export interface TrendSeries {
+  key: string;
+  analyteCode: string | null;
+  analyte: string;
+  unit: string | null;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  points: TrendPoint[];
+  latest: TrendPoint;
+  change: number | null;
+  direction: "up" | "down" | "flat" | null;
+  outOfRangeCount: number;
+}
+
+export interface HealthTrendsResponse {
+  success: boolean;
+  series: TrendSeries[];
+}
+
 /**
  * Get AI insights for a specific document
  */
@@ -42,3 +75,12 @@ export async function getHealthInsights(): Promise<HealthInsightResponse> {
   return res.json();
 }
 
+
+/**
+ * Get lab values over time, one series per analyte
+ */
+export async function getHealthTrends(analyte?: string): Promise<HealthTrendsResponse> {
+  const query = analyte ? `?analyte=${encodeURIComponent(analyte)}` : "";
+  const res = await apiRequest("GET", `/api/health/trends${query}`, undefined);
+  return res.json();
+}
@@ -0,0 +1,97 @@
+/**
+ * Inbox API Client
+ * Functions for the private inbound email address and the review inbox of mailed-in documents
+ */
+
+import { apiRequest } from "../queryClient";
+
+export type InboxItemStatus = 'review' | 'queued' | 'imported' | 'skipped' | 'rejected' | 'failed';
+
+export interface InboxAddress {
+  address: string; // e.g. "3f9a...@inbox.arogyavault.me"
+  trustedSenders: string[]; // Attachments from these senders are imported without review
+  enabled: boolean; // Whether the server is receiving mail
+}
+
+export interface InboxItem {
+  id: string;
+  sender: string;
+  senderName: string | null;
+  subject: string | null;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  status: InboxItemStatus;
+  documentId: string | null; // Imported document (or the duplicate when skipped)
+  reason: string | null; // Why the item was skipped, rejected or failed
+  processedAt: string | null;
+  createdAt: string;
+}
+
+export interface InboxAddressResponse {
+  success: boolean;
+  message?: string;
+  inbox: InboxAddress;
+}
+
+export interface InboxItemsResponse {
+  success: boolean;
+  items: InboxItem[];
+}
+
+/**
+ * Get the current user's inbound address and trusted senders
+ */
+export async function getInboxAddress(): Promise<InboxAddressResponse> {
+  const res = await apiRequest("GET", "/api/inbox/address", undefined);
+  return res.json();
+}
+
+/**
+ * Replace the inbound address - mail sent to the old one is refused
+ */
+export async function rotateInboxAddress(): Promise<InboxAddressResponse> {
+  const res = await apiRequest("POST", "/api/inbox/address/rotate", undefined);
+  return res.json();
+}
+
+/**
+ * Trust a sender
+ */
+export async function addTrustedSender(email: string): Promise<InboxAddressResponse> {
+  const res = await apiRequest("POST", "/api/inbox/trusted-senders", { email });
+  return res.json();
+}
+
+/**
+ * Stop trusting a sender
+ */
+export async function removeTrustedSender(email: string): Promise<InboxAddressResponse> {
+  const res = await apiRequest("DELETE", `/api/inbox/trusted-senders/${encodeURIComponent(email)}`, undefined);
+  return res.json();
+}
+
+/**
+ * Get attachments received on the inbound address, newest first
+ */
+export async function getInboxItems(status?: InboxItemStatus): Promise<InboxItemsResponse> {
+  const res = await apiRequest("GET", status ? `/api/inbox/items?status=${status}` : "/api/inbox/items", undefined);
+  return res.json();
+}
+
+/**
+ * Import an attachment waiting for review, or retry a failed import
+ * @param trustSender - Also trust the sender and import their other waiting attachments
+ */
+export async function approveInboxItem(id: string, trustSender = false): Promise<{ success: boolean; message: string; item: InboxItem }> {
+  const res = await apiRequest("POST", `/api/inbox/items/${id}/approve`, { trustSender });
+  return res.json();
+}
+
+/**
+ * Discard an attachment, or clear a finished item from the inbox
+ */
+export async function deleteInboxItem(id: string): Promise<{ success: boolean; message: string }> {
+  const res = await apiRequest("DELETE", `/api/inbox/items/${id}`, undefined);
+  return res.json();
+}
@@ -0,0 +1,85 @@
+/**
+ * Health Tasks API Client
+ * Functions for fetching and managing follow-up tasks
+ */
+
+import { apiRequest } from "../queryClient";
+
+export type HealthTaskStatus = 'pending' | 'completed' | 'dismissed';
+
+export interface HealthTask {
+  id: string;
+  userId: string;
+  title: string;
+  notes: string | null;
+  dueDate: string | null;
+  remindAt: string | null;
+  reminderSentAt: string | null;
+  status: HealthTaskStatus;
+  source: 'document' | 'manual';
+  sourceDocumentId: string | null;
+  sourceDocumentTitle: string | null;
+  sourceText: string | null; // Instruction the task was extracted from
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateHealthTaskData {
+  title: string;
+  notes?: string | null;
+  dueDate?: string | null;
+  remindAt?: string | null; // Defaults to the day before the due date; null for no reminder
+  sourceDocumentId?: string | null;
+}
+
+export interface UpdateHealthTaskData extends Partial<CreateHealthTaskData> {
+  status?: HealthTaskStatus;
+}
+
+export interface HealthTasksResponse {
+  success: boolean;
+  tasks: HealthTask[];
+}
+
+export interface HealthTaskResponse {
+  success: boolean;
+  message?: string;
+  task: HealthTask;
+}
+
+/**
+ * Get the current user's tasks, soonest due first
+ */
+export async function getHealthTasks(filters?: { status?: HealthTaskStatus; documentId?: string }): Promise<HealthTasksResponse> {
+  const params = new URLSearchParams();
+  if (filters?.status) params.append("status", filters.status);
+  if (filters?.documentId) params.append("documentId", filters.documentId);
+  const query = params.toString();
+  const res = await apiRequest("GET", query ? `/api/tasks?${query}` : "/api/tasks", undefined);
+  return res.json();
+}
+
+/**
+ * Add a task
+ */
+export async function createHealthTask(data: CreateHealthTaskData): Promise<HealthTaskResponse> {
+  const res = await apiRequest("POST", "/api/tasks", data);
+  return res.json();
+}
+
+/**
+ * Edit, complete or dismiss a task
+ */
+export async function updateHealthTask(id: string, data: UpdateHealthTaskData): Promise<HealthTaskResponse> {
+  const res = await apiRequest("PUT", `/api/tasks/${id}`, data);
+  return res.json();
+}
+
+/**
+ * Delete a task
+ */
+export async function deleteHealthTask(id: string): Promise<{ success: boolean; message: string }> {
+  const res = await apiRequest("DELETE", `/api/tasks/${id}`, undefined);
+  return res.json();
+}
@@ -47,6 +47,36 @@ export interface UserSettings {
   guidedMode?: boolean;
 }
 
+export interface DataExport {
+  id: string;
+  status: "queued" | "running" | "done" | "failed" | "expired";
+  documentCount: number | null;
+  fileSize: number | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+  downloadUrl: string | null; // Set once the archive is ready
+}
+
+export type ImportItemKind = "document" | "medication" | "emergencyCard" | "nominee";
+
+export interface ImportReport {
+  success: boolean;
+  message: string;
+  dryRun: boolean;
+  summary: Record<ImportItemKind, { created: number; skipped: number }>;
+  items: Array<{
+    kind: ImportItemKind;
+    sourceId: string | null;
+    id: string | null;
+    label: string;
+    action: "create" | "skip";
+    reason?: string;
+    versions?: number;
+  }>;
+}
+
 /**
  * Get current user profile
  */
@@ -85,3 +115,41 @@ export async function updateUserSettings(
   return res.json();
 }
 
+
+/**
+ * Start a full export of the user's vault
+ */
+export async function requestDataExport(): Promise<{ success: boolean; message: string; export: DataExport }> {
+  const res = await apiRequest("POST", "/api/user/export", undefined);
+  return res.json();
+}
+
+/**
+ * Get the user's exports, newest first
+ */
+export async function getDataExports(): Promise<{ success: boolean; exports: DataExport[] }> {
+  const res = await apiRequest("GET", "/api/user/export", undefined);
+  return res.json();
+}
+
+/**
+ * Import a vault export archive into the current user's vault
+ * @param dryRun - Only report what would be created
+ */
+export async function importVaultArchive(file: File, dryRun: boolean): Promise<ImportReport> {
+  const formData = new FormData();
+  formData.append("archive", file);
+
+  const res = await fetch(`/api/user/import?dryRun=${dryRun}`, {
+    method: "POST",
+    body: formData,
+    credentials: "include", // Include cookies for authentication
+  });
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.message || "Failed to import archive");
+  }
+
+  return res.json();
+}
@@ -0,0 +1,275 @@
+/**
+ * Offline Queue
+ * Captures and metadata edits made without connectivity, kept in IndexedDB until they reach the server
+ *
+ * The service worker (client/public/sw.js) replays the queue with Background Sync when the
+ * network returns; browsers without Background Sync flush it from the page instead. Both read
+ * the same database, so keep DB_NAME, STORE_NAME and the item shape in sync with sw.js.
+ */
+
+import { syncDocuments, type CreateDocumentData, type UpdateDocumentData } from "./api/documents";
+
+const DB_NAME = "arogya-vault-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "queue";
+
+// Background Sync tag the service worker listens for
+export const SYNC_TAG = "document-queue";
+
+// Message the service worker posts to open pages after replaying the queue
+export const QUEUE_SYNCED_MESSAGE = "OFFLINE_QUEUE_SYNCED";
+
+type QueuedItemBase = {
+  clientId: string; // Sent with the upload so a replay returns the same document
+  queuedAt: string;
+  attempts: number;
+  lastError: string | null;
+  failed: boolean; // Rejected by the server; kept so the user can see and discard it
+};
+
+export type QueuedUpload = QueuedItemBase & {
+  kind: "upload";
+  data: CreateDocumentData;
+  file: Blob;
+  fileName: string;
+};
+
+export type QueuedEdit = QueuedItemBase & {
+  kind: "edit";
+  documentId: string;
+  data: UpdateDocumentData;
+  base: UpdateDocumentData; // Values of the edited fields before the edit
+  baseUpdatedAt: string; // updatedAt of the copy that was edited
+  editedAt: string;
+};
+
+export type QueuedItem = QueuedUpload | QueuedEdit;
+
+export interface FlushResult {
+  synced: number;
+  failed: number;
+  remaining: number;
+}
+
+/**
+ * Whether captures can be queued in this browser
+ */
+export function isOfflineQueueSupported(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+/**
+ * Whether a failed request never reached the server (as opposed to being rejected by it)
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError || (typeof navigator !== "undefined" && !navigator.onLine);
+}
+
+function openQueue(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "clientId" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openQueue();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Queued items, oldest first
+ */
+export async function getQueuedItems(): Promise<QueuedItem[]> {
+  if (!isOfflineQueueSupported()) return [];
+  const items = await withStore<QueuedItem[]>("readonly", (store) => store.getAll());
+  return items.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+async function putQueuedItem(item: QueuedItem): Promise<void> {
+  await withStore("readwrite", (store) => store.put(item));
+}
+
+/**
+ * Drop an item from the queue (after it synced, or when the user discards it)
+ */
+export async function removeQueuedItem(clientId: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(clientId));
+}
+
+/**
+ * Ask the service worker to replay the queue once the network is back
+ * Returns false when Background Sync is unavailable and the page has to flush the queue itself
+ */
+export async function requestBackgroundSync(): Promise<boolean> {
+  if (!("serviceWorker" in navigator) || !("SyncManager" in window)) {
+    return false;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    await (registration as ServiceWorkerRegistration & {
+      sync: { register(tag: string): Promise<void> };
+    }).sync.register(SYNC_TAG);
+    return true;
+  } catch (error) {
+    console.warn("[Offline] Background Sync registration failed:", error);
+    return false;
+  }
+}
+
+/**
+ * Queue a capture for upload
+ */
+export async function enqueueUpload(data: CreateDocumentData, file: File): Promise<QueuedUpload> {
+  const item: QueuedUpload = {
+    kind: "upload",
+    clientId: crypto.randomUUID(),
+    data: { ...data, fileUrl: undefined, duplicateAction: undefined, duplicateOf: undefined }, // The file itself is queued
+    file,
+    fileName: file.name,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    lastError: null,
+    failed: false,
+  };
+  await putQueuedItem(item);
+  await requestBackgroundSync();
+  return item;
+}
+
+/**
+ * Queue a metadata edit; the server merges it with any changes made since baseUpdatedAt
+ */
+export async function enqueueEdit(
+  documentId: string,
+  data: UpdateDocumentData,
+  base: UpdateDocumentData,
+  baseUpdatedAt: string
+): Promise<QueuedEdit> {
+  const now = new Date().toISOString();
+  const item: QueuedEdit = {
+    kind: "edit",
+    clientId: crypto.randomUUID(),
+    documentId,
+    data,
+    base,
+    baseUpdatedAt,
+    editedAt: now,
+    queuedAt: now,
+    attempts: 0,
+    lastError: null,
+    failed: false,
+  };
+  await putQueuedItem(item);
+  await requestBackgroundSync();
+  return item;
+}
+
+function sendQueuedItem(item: QueuedItem): Promise<Response> {
+  if (item.kind === "edit") {
+    return fetch(`/api/documents/${item.documentId}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...item.data,
+        base: item.base,
+        baseUpdatedAt: item.baseUpdatedAt,
+        editedAt: item.editedAt,
+      }),
+      credentials: "include",
+    });
+  }
+
+  const formData = new FormData();
+  formData.append("file", item.file, item.fileName);
+  formData.append("clientId", item.clientId);
+  formData.append("title", item.data.title);
+  formData.append("type", item.data.type);
+  if (item.data.provider) formData.append("provider", item.data.provider);
+  if (item.data.date) formData.append("date", item.data.date);
+  if (item.data.tags) formData.append("tags", JSON.stringify(item.data.tags));
+  return fetch("/api/documents", { method: "POST", body: formData, credentials: "include" });
+}
+
+/**
+ * Upload everything in the queue, in the order it was captured
+ * Stops at the first network failure - the rest would fail the same way
+ */
+export async function flushQueue(): Promise<FlushResult> {
+  const items = (await getQueuedItems()).filter((item) => !item.failed);
+  const result: FlushResult = { synced: 0, failed: 0, remaining: 0 };
+  if (items.length === 0) return result;
+
+  // Captures whose response was lost already exist - skip re-sending their files
+  const uploadIds = items.filter((item) => item.kind === "upload").map((item) => item.clientId);
+  const alreadySynced = new Set<string>();
+  if (uploadIds.length > 0) {
+    try {
+      const data = await syncDocuments(uploadIds);
+      data.synced.forEach((entry) => alreadySynced.add(entry.clientId));
+    } catch {
+      // Still offline (or the server is unavailable) - try again later
+      return { ...result, remaining: items.length };
+    }
+  }
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (alreadySynced.has(item.clientId)) {
+      await removeQueuedItem(item.clientId);
+      result.synced++;
+      continue;
+    }
+
+    let res: Response;
+    try {
+      res = await sendQueuedItem(item);
+    } catch {
+      result.remaining = items.length - i;
+      break;
+    }
+
+    if (res.ok) {
+      await removeQueuedItem(item.clientId);
+      result.synced++;
+      continue;
+    }
+
+    const body = await res.json().catch(() => null);
+    // Server errors, timeouts, rate limits and expired sessions are worth retrying; other rejections are final
+    const retryable = res.status >= 500 || [401, 408, 429].includes(res.status);
+    await putQueuedItem({
+      ...item,
+      attempts: item.attempts + 1,
+      lastError: body?.message || res.statusText,
+      failed: !retryable,
+    });
+    if (retryable) {
+      result.remaining++;
+    } else {
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -1,9 +1,10 @@
 import { useLocation } from 'wouter';
 import { ArrowLeft, BarChart3, TrendingUp, AlertCircle, CheckCircle, AlertTriangle, FileText, Calendar, ChevronRight, Sparkles } from 'lucide-react';
-import { useHealthInsights } from '@/hooks/useHealth';
+import { useHealthInsights, useHealthTrends } from '@/hooks/useHealth';
 import { useDocuments } from '@/hooks/useDocuments';
 import { useQueries } from '@tanstack/react-query';
 import { getDocumentInsights } from '@/lib/api/health';
+import { LabTrendChart } from '@/components/LabTrendChart';
 
 export default function AIInsightsPage() {
   const [, setLocation] = useLocation();
@@ -11,6 +12,9 @@ export default function AIInsightsPage() {
   // Fetch overall health insights
   const { data: healthInsightsData, isLoading: healthInsightsLoading, refetch: refetchHealthInsights } = useHealthInsights();
   
+  // Fetch lab value trends across all lab reports
+  const { data: trendsData, isLoading: trendsLoading } = useHealthTrends();
+
   // Fetch all documents
   const { data: documentsData, isLoading: documentsLoading } = useDocuments({});
   
@@ -94,6 +98,10 @@ export default function AIInsightsPage() {
     };
   }) || [];
 
+  // A trend needs at least two readings; single readings are listed below the charts
+  const trendSeries = trendsData?.series?.filter((series) => series.points.length > 1) || [];
+  const singleReadings = trendsData?.series?.filter((series) => series.points.length === 1) || [];
+
   const overallStatus = healthInsightsData?.success ? healthInsightsData.insight.status : 'good';
   const overallMessage = healthInsightsData?.success ? healthInsightsData.insight.message : 
     'Upload lab reports and medical documents to get AI-powered health insights.';
@@ -148,6 +156,58 @@ export default function AIInsightsPage() {
           </div>
         </div>
 
+        {/* Lab Trends */}
+        {(trendsLoading || trendSeries.length > 0 || singleReadings.length > 0) && (
+          <div className="mb-8">
+            <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2 mb-4">
+              <BarChart3 className="w-5 h-5 text-gray-600" />
+              Lab Trends
+            </h2>
+
+            {trendsLoading ? (
+              <div className="bg-white rounded-xl border border-gray-200 p-6 animate-pulse">
+                <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+                <div className="h-32 bg-gray-100 rounded"></div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {trendSeries.length === 0 && (
+                  <p className="text-sm text-gray-600">
+                    Upload more lab reports to see how your values change over time.
+                  </p>
+                )}
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  {trendSeries.map((series) => (
+                    <LabTrendChart key={series.key} series={series} onPointClick={handleDocumentClick} />
+                  ))}
+                </div>
+
+                {singleReadings.length > 0 && (
+                  <div className="bg-white rounded-xl border border-gray-200 p-5">
+                    <h3 className="font-semibold text-gray-900 mb-3">Other results</h3>
+                    <div className="divide-y divide-gray-100">
+                      {singleReadings.map((series) => (
+                        <button
+                          key={series.key}
+                          onClick={() => handleDocumentClick(series.latest.documentId)}
+                          className="w-full flex items-center justify-between py-2 text-left hover:bg-gray-50 transition-colors"
+                        >
+                          <span className="text-sm text-gray-700">{series.analyte}</span>
+                          <span className={`text-sm font-medium ${series.latest.outOfRange ? 'text-red-600' : 'text-gray-900'}`}>
+                            {series.latest.numericValue}
+                            {series.unit && <span className="text-gray-500 font-normal"> {series.unit}</span>}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Document Insights */}
         <div className="mb-6">
           <div className="flex items-center justify-between mb-4">
@@ -0,0 +1,330 @@
+import { useState } from 'react';
+import { useLocation, useRoute } from 'wouter';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Trash2, FileText, Pill, StickyNote, ChevronUp, ChevronDown, X, Edit2, FolderOpen, Plus } from 'lucide-react';
+import {
+  useCollection,
+  useUpdateCollection,
+  useDeleteCollection,
+  useAddCollectionItem,
+  useUpdateCollectionNote,
+  useRemoveCollectionItem,
+  useReorderCollectionItems,
+} from '@/hooks/useCollections';
+import { useMedications } from '@/hooks/useMedications';
+import { useTranslation } from '@/i18n/useTranslation';
+import type { CollectionEntry } from '@/lib/api/collections';
+
+export default function CollectionPage() {
+  const [, params] = useRoute('/collections/:id');
+  const [, setLocation] = useLocation();
+  const { translations: t } = useTranslation();
+  const collectionId = params?.id || null;
+
+  const [noteText, setNoteText] = useState('');
+  const [medicationId, setMedicationId] = useState('');
+
+  const { data: collectionData, isLoading } = useCollection(collectionId);
+  const { data: medicationsData } = useMedications();
+  const updateCollectionMutation = useUpdateCollection();
+  const deleteCollectionMutation = useDeleteCollection();
+  const addItemMutation = useAddCollectionItem();
+  const updateNoteMutation = useUpdateCollectionNote();
+  const removeItemMutation = useRemoveCollectionItem();
+  const reorderItemsMutation = useReorderCollectionItems();
+
+  const collection = collectionData?.collection;
+  const items = collectionData?.items || [];
+
+  // Medications that can still be added to this collection
+  const availableMedications = (medicationsData?.medications || []).filter(
+    (medication) => !items.some((item) => item.medication?.id === medication.id)
+  );
+
+  const handleRename = () => {
+    if (!collection) return;
+    const name = window.prompt(t.vault.renameCollection, collection.name);
+    if (name?.trim() && name.trim() !== collection.name) {
+      updateCollectionMutation.mutate({ id: collection.id, data: { name: name.trim() } });
+    }
+  };
+
+  const handleEditDescription = () => {
+    if (!collection) return;
+    const description = window.prompt(t.vault.collectionDescription, collection.description || '');
+    if (description !== null) {
+      updateCollectionMutation.mutate({ id: collection.id, data: { description: description.trim() || null } });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!collection) return;
+    if (!confirm(`Delete the collection "${collection.name}"? Its documents and medications stay in your vault, and any share of this collection is revoked.`)) {
+      return;
+    }
+
+    try {
+      await deleteCollectionMutation.mutateAsync(collection.id);
+      setLocation('/vault');
+    } catch (error) {
+      console.error('Failed to delete collection:', error);
+    }
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    if (!collection) return;
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+
+    const ids = items.map((item) => item.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderItemsMutation.mutate({ collectionId: collection.id, ids });
+  };
+
+  const handleEditNote = (item: CollectionEntry) => {
+    if (!collection) return;
+    const note = window.prompt(t.vault.editNote, item.note || '');
+    if (note?.trim() && note.trim() !== item.note) {
+      updateNoteMutation.mutate({ collectionId: collection.id, itemId: item.id, note: note.trim() });
+    }
+  };
+
+  const handleAddNote = async () => {
+    if (!collection || !noteText.trim()) return;
+    try {
+      await addItemMutation.mutateAsync({
+        collectionId: collection.id,
+        data: { itemType: 'note', note: noteText.trim() },
+      });
+      setNoteText('');
+    } catch (error) {
+      console.error('Failed to add note:', error);
+    }
+  };
+
+  const handleAddMedication = async () => {
+    if (!collection || !medicationId) return;
+    try {
+      await addItemMutation.mutateAsync({
+        collectionId: collection.id,
+        data: { itemType: 'medication', medicationId },
+      });
+      setMedicationId('');
+    } catch (error) {
+      console.error('Failed to add medication:', error);
+    }
+  };
+
+  const renderEntry = (item: CollectionEntry) => {
+    if (item.document) {
+      return (
+        <button
+          className="flex-1 min-w-0 flex items-center gap-3 text-left"
+          onClick={() => setLocation(`/document/${item.document!.id}`)}
+          data-testid={`link-collection-document-${item.document.id}`}
+        >
+          <div className="w-10 h-10 rounded-lg bg-blue-50 flex items-center justify-center flex-shrink-0">
+            <FileText className="w-5 h-5 text-blue-600" />
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm md:text-base font-medium text-gray-900 truncate">{item.document.title}</p>
+            {(item.document.provider || item.document.date) && (
+              <p className="text-xs md:text-sm text-gray-500 truncate">
+                {[item.document.provider, item.document.date && new Date(item.document.date).toLocaleDateString('en-GB', {
+                  day: 'numeric',
+                  month: 'short',
+                  year: 'numeric'
+                })].filter(Boolean).join(' • ')}
+              </p>
+            )}
+          </div>
+        </button>
+      );
+    }
+
+    if (item.medication) {
+      return (
+        <div className="flex-1 min-w-0 flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-purple-50 flex items-center justify-center flex-shrink-0">
+            <Pill className="w-5 h-5 text-purple-600" />
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm md:text-base font-medium text-gray-900 truncate">{item.medication.name}</p>
+            <p className="text-xs md:text-sm text-gray-500 truncate">
+              {item.medication.dosage} • {item.medication.frequency}
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <button
+        className="flex-1 min-w-0 flex items-start gap-3 text-left"
+        onClick={() => handleEditNote(item)}
+        data-testid={`button-edit-note-${item.id}`}
+      >
+        <div className="w-10 h-10 rounded-lg bg-yellow-50 flex items-center justify-center flex-shrink-0">
+          <StickyNote className="w-5 h-5 text-yellow-600" />
+        </div>
+        <p className="text-sm md:text-base text-gray-700 whitespace-pre-wrap break-words pt-2">{item.note}</p>
+      </button>
+    );
+  };
+
+  return (
+    <div className="h-screen w-full max-w-[390px] md:max-w-[448px] lg:max-w-[512px] xl:max-w-[576px] mx-auto bg-white flex flex-col" data-testid="collection-container">
+      <div className="flex items-center justify-between px-6 md:px-8 lg:px-10 py-4 md:py-5 lg:py-6 border-b border-gray-200 sticky top-0 bg-white z-20">
+        <button
+          className="p-2 md:p-3 -ml-2 hover:bg-gray-100 rounded-full transition-colors"
+          aria-label="Back"
+          onClick={() => setLocation('/vault')}
+          data-testid="button-back"
+        >
+          <ArrowLeft className="w-6 h-6 md:w-7 md:h-7 lg:w-8 lg:h-8 text-gray-700" />
+        </button>
+        <button
+          className="flex-1 min-w-0 flex items-center justify-center gap-2 mx-3 text-xl md:text-2xl lg:text-3xl font-semibold text-gray-900"
+          onClick={handleRename}
+          disabled={!collection}
+          aria-label={t.vault.renameCollection}
+          data-testid="button-rename-collection"
+        >
+          <span className="truncate">{collection?.name}</span>
+          {collection && <Edit2 className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+        </button>
+        <button
+          className="p-2 md:p-3 -mr-2 hover:bg-red-50 rounded-full transition-colors disabled:opacity-40"
+          aria-label={t.vault.deleteCollection}
+          onClick={handleDelete}
+          disabled={!collection || deleteCollectionMutation.isPending}
+          data-testid="button-delete-collection"
+        >
+          <Trash2 className="w-6 h-6 md:w-7 md:h-7 text-red-600" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 md:px-8 lg:px-10 py-4 md:py-5 lg:py-6">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : !collection ? (
+          <p className="text-center text-gray-500 py-12" data-testid="text-collection-not-found">{t.vault.collectionNotFound}</p>
+        ) : (
+          <>
+            <button
+              className="w-full text-left text-sm md:text-base text-gray-500 mb-4 hover:text-gray-700"
+              onClick={handleEditDescription}
+              data-testid="button-edit-description"
+            >
+              {collection.description || t.vault.addDescription}
+            </button>
+
+            {items.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 md:py-16" data-testid="empty-collection-state">
+                <div className="w-24 h-24 md:w-32 md:h-32 mb-6 rounded-full bg-gray-100 flex items-center justify-center">
+                  <FolderOpen className="w-12 h-12 md:w-16 md:h-16 text-gray-400" />
+                </div>
+                <p className="text-base md:text-lg text-gray-600 text-center">{t.vault.collectionEmpty}</p>
+              </div>
+            ) : (
+              <div className="space-y-3 md:space-y-4" data-testid="collection-items">
+                {items.map((item, index) => (
+                  <motion.div
+                    key={item.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="flex items-center gap-2 bg-white border border-gray-200 rounded-xl p-3 md:p-4"
+                    data-testid={`collection-item-${item.id}`}
+                  >
+                    {renderEntry(item)}
+                    <div className="flex flex-col flex-shrink-0">
+                      <button
+                        className="p-1 hover:bg-gray-100 rounded disabled:opacity-30"
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0 || reorderItemsMutation.isPending}
+                        aria-label={t.vault.moveUp}
+                        data-testid={`button-move-up-${item.id}`}
+                      >
+                        <ChevronUp className="w-4 h-4 text-gray-600" />
+                      </button>
+                      <button
+                        className="p-1 hover:bg-gray-100 rounded disabled:opacity-30"
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === items.length - 1 || reorderItemsMutation.isPending}
+                        aria-label={t.vault.moveDown}
+                        data-testid={`button-move-down-${item.id}`}
+                      >
+                        <ChevronDown className="w-4 h-4 text-gray-600" />
+                      </button>
+                    </div>
+                    <button
+                      className="p-2 hover:bg-gray-100 rounded-full flex-shrink-0"
+                      onClick={() => removeItemMutation.mutate({ collectionId: collection.id, itemId: item.id })}
+                      aria-label={t.vault.removeFromCollection}
+                      data-testid={`button-remove-item-${item.id}`}
+                    >
+                      <X className="w-4 h-4 text-gray-500" />
+                    </button>
+                  </motion.div>
+                ))}
+              </div>
+            )}
+
+            <div className="mt-6 space-y-4 border-t border-gray-200 pt-6">
+              <div>
+                <textarea
+                  value={noteText}
+                  onChange={(e) => setNoteText(e.target.value)}
+                  placeholder={t.vault.notePlaceholder}
+                  rows={2}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm md:text-base"
+                  data-testid="input-collection-note"
+                />
+                <button
+                  className="mt-2 flex items-center gap-1 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-40 transition-colors"
+                  onClick={handleAddNote}
+                  disabled={!noteText.trim() || addItemMutation.isPending}
+                  data-testid="button-add-note"
+                >
+                  <Plus className="w-4 h-4" />
+                  {t.vault.addNote}
+                </button>
+              </div>
+
+              {availableMedications.length > 0 && (
+                <div className="flex gap-2">
+                  <select
+                    value={medicationId}
+                    onChange={(e) => setMedicationId(e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm md:text-base bg-white"
+                    data-testid="select-collection-medication"
+                  >
+                    <option value="">{t.vault.selectMedication}</option>
+                    {availableMedications.map((medication) => (
+                      <option key={medication.id} value={medication.id}>
+                        {medication.name} ({medication.dosage})
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    className="flex items-center gap-1 px-4 py-2 text-sm font-medium text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 disabled:opacity-40 transition-colors"
+                    onClick={handleAddMedication}
+                    disabled={!medicationId || addItemMutation.isPending}
+                    data-testid="button-add-medication"
+                  >
+                    <Plus className="w-4 h-4" />
+                    {t.vault.addMedication}
+                  </button>
+                </div>
+              )}
+
+              <p className="text-xs md:text-sm text-gray-500">{t.vault.addDocumentsHint}</p>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
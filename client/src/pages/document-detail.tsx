@@ -1,10 +1,34 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useLocation, useRoute } from 'wouter';
 import { DocumentDetailScreen } from '@/components/DocumentDetailScreen';
-import { getDocument, getDocumentFile } from '@/lib/api/documents';
+import { getDocument, getDocumentFile, getDocumentPageUrl, getDocumentPreview, getDocumentVersionFile, getRedactedFileUrl } from '@/lib/api/documents';
 import { ImagePreviewModal } from '@/components/ImagePreviewModal';
-import { useDeleteDocument } from '@/hooks/useDocuments';
+import { RedactionEditor } from '@/components/RedactionEditor';
+import {
+  useDeleteDocument,
+  useDocumentProcessing,
+  useRetryDocumentProcessing,
+  useDocumentVersions,
+  useDocumentVersionDiff,
+  useUploadDocumentVersion,
+  useRestoreDocumentVersion,
+  useLabObservations,
+  useCreateLabObservation,
+  useUpdateLabObservation,
+  useDeleteLabObservation,
+  useExtractLabObservations,
+  useDocumentAnnotations,
+  useCreateDocumentAnnotation,
+  useUpdateDocumentAnnotation,
+  useDeleteDocumentAnnotation,
+  useDocumentRedaction,
+  useRedactionSuggestions,
+  useSaveDocumentRedaction,
+  useDeleteDocumentRedaction,
+} from '@/hooks/useDocuments';
+import type { AnnotationRegion, RedactionRegion } from '@/lib/api/documents';
 import { useDocumentInsights } from '@/hooks/useHealth';
+import { useCollections, useDocumentCollections, useAddCollectionItem, useRemoveCollectionItem } from '@/hooks/useCollections';
 
 type DocumentType = 'prescription' | 'lab' | 'imaging' | 'billing';
 type FileType = 'PDF' | 'JPG' | 'PNG' | 'DICOM' | 'IMAGE';
@@ -29,9 +53,12 @@ type AIInsight = {
 };
 
 type VersionHistoryItem = {
+  id?: string;
   version: string;
   timestamp: string;
   note: string;
+  isCurrent?: boolean;
+  hasText?: boolean;
 };
 
 type AccessItem = {
@@ -143,11 +170,69 @@ export default function DocumentDetailPage() {
   const [language, setLanguage] = useState<'en' | 'hi'>('en');
   const [documentData, setDocumentData] = useState<any>(null);
   const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [pageCount, setPageCount] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const deleteDocumentMutation = useDeleteDocument();
+  const retryProcessingMutation = useRetryDocumentProcessing();
+  const uploadVersionMutation = useUploadDocumentVersion();
+  const restoreVersionMutation = useRestoreDocumentVersion();
+  const createObservationMutation = useCreateLabObservation();
+  const updateObservationMutation = useUpdateLabObservation();
+  const deleteObservationMutation = useDeleteLabObservation();
+  const extractObservationsMutation = useExtractLabObservations();
+  const addCollectionItemMutation = useAddCollectionItem();
+  const removeCollectionItemMutation = useRemoveCollectionItem();
+  const createAnnotationMutation = useCreateDocumentAnnotation();
+  const updateAnnotationMutation = useUpdateDocumentAnnotation();
+  const deleteAnnotationMutation = useDeleteDocumentAnnotation();
+  const saveRedactionMutation = useSaveDocumentRedaction();
+  const deleteRedactionMutation = useDeleteDocumentRedaction();
+  // The share flow links here with ?redact=1 to open the redaction editor straight away
+  const [showRedactionEditor, setShowRedactionEditor] = useState(
+    () => new URLSearchParams(window.location.search).get('redact') === '1'
+  );
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
 
   const documentId = params?.id || '1';
 
+  // Background OCR/insight processing status (polls while queued or running)
+  const { data: processingData } = useDocumentProcessing(documentId);
+  const processingStatus = processingData?.processing?.status;
+
+  const { data: versionsData } = useDocumentVersions(documentId);
+  const { data: collectionsData } = useCollections();
+  const { data: documentCollectionsData } = useDocumentCollections(documentId);
+  const { data: annotationsData } = useDocumentAnnotations(documentId);
+  const { data: redactionData, isLoading: isRedactionLoading } = useDocumentRedaction(documentId);
+  // Suggestions are only needed for a first redaction; a saved one keeps its own boxes
+  const { data: suggestionsData, isLoading: isSuggestionsLoading } = useRedactionSuggestions(
+    documentId,
+    showRedactionEditor && !!redactionData?.supported && !redactionData.redaction
+  );
+  const { data: versionDiffData, isFetching: isVersionDiffLoading } = useDocumentVersionDiff(documentId, compareVersionId);
+
+  // Reload document fields and file URL (after processing or a version change)
+  const refreshDocument = useCallback(async () => {
+    try {
+      const docResponse = await getDocument(documentId);
+      if (docResponse.success && docResponse.document) {
+        setDocumentData(docResponse.document);
+      }
+      const fileResponse = await getDocumentFile(documentId);
+      if (fileResponse.success && fileResponse.fileUrl) {
+        setFileUrl(fileResponse.fileUrl);
+      }
+    } catch (error) {
+      console.error('Failed to refresh document:', error);
+    }
+  }, [documentId]);
+
+  // Reload extracted fields once background processing finishes
+  useEffect(() => {
+    if (processingStatus !== 'done') return;
+    refreshDocument();
+  }, [processingStatus, refreshDocument]);
+
   // Fetch document data from API
   useEffect(() => {
     const fetchDocument = async () => {
@@ -180,6 +265,35 @@ export default function DocumentDetailPage() {
     fetchDocument();
   }, [documentId]);
 
+  // PDFs and DICOM studies are shown as server-rendered page images, which works even where PDFs can't be
+  // viewed inline. Documents uploaded before page counts existed are counted by the preview endpoint on first view.
+  useEffect(() => {
+    if (documentData?.fileType !== 'PDF' && documentData?.fileType !== 'DICOM') {
+      setPageCount(null);
+      return;
+    }
+    if (documentData.pageCount) {
+      setPageCount(documentData.pageCount);
+      return;
+    }
+    getDocumentPreview(documentId)
+      .then((response) => setPageCount(response.success ? response.pageCount ?? null : null))
+      .catch((error) => console.error('Failed to load page count:', error));
+  }, [documentId, documentData?.fileType, documentData?.pageCount]);
+
+  const pages = pageCount
+    ? Array.from({ length: pageCount }, (_, index) => ({
+        imageUrl: getDocumentPageUrl(documentId, index + 1, 'page'),
+        thumbnailUrl: getDocumentPageUrl(documentId, index + 1, 'thumbnail')
+      }))
+    : null;
+
+  // Structured lab results only exist for lab reports
+  const isLabReport = documentData?.type === 'lab';
+  const { data: observationsData, isLoading: isObservationsLoading } = useLabObservations(documentId, isLabReport);
+
+  const currentVersion = versionsData?.versions.find((v) => v.isCurrent);
+
   // Use real data if available, otherwise fallback to mock
   const document = documentData || mockDocuments.find(doc => doc.id === documentId) || mockDocuments[0];
   const metadata: DocumentMetadata = documentData ? {
@@ -198,7 +312,7 @@ export default function DocumentDetailPage() {
       year: 'numeric'
     }),
     tags: documentData.tags || [],
-    version: 'v1.0',
+    version: currentVersion?.version || 'v1.0',
     lastUpdated: documentData.updatedAt ? new Date(documentData.updatedAt).toLocaleDateString('en-GB', {
       day: 'numeric',
       month: 'short',
@@ -206,6 +320,24 @@ export default function DocumentDetailPage() {
     }) : '',
     syncStatus: documentData.syncStatus || 'synced'
   } : getDocumentMetadata(document);
+
+  const formatVersionTimestamp = (date: Date) =>
+    new Date(date).toLocaleString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+
+  const versionHistory: VersionHistoryItem[] = versionsData?.versions.map((v) => ({
+    id: v.id,
+    version: v.version,
+    timestamp: formatVersionTimestamp(v.createdAt),
+    note: v.note || '',
+    isCurrent: v.isCurrent,
+    hasText: v.hasText,
+  })) ?? [];
   
   const fileType = (documentData?.fileType || getFileType(document.type)) as FileType;
   
@@ -242,9 +374,13 @@ export default function DocumentDetailPage() {
   };
 
   const [showImageModal, setShowImageModal] = useState(false);
+  const [fullscreenPage, setFullscreenPage] = useState(0);
 
-  const handleViewFullscreen = () => {
-    if (fileUrl && (fileType === 'JPG' || fileType === 'PNG' || fileType === 'IMAGE')) {
+  const handleViewFullscreen = (pageIndex?: number) => {
+    if (pages) {
+      setFullscreenPage(pageIndex ?? 0);
+      setShowImageModal(true);
+    } else if (fileUrl && (fileType === 'JPG' || fileType === 'PNG' || fileType === 'IMAGE')) {
       setShowImageModal(true);
     } else {
       console.log('🔍 View fullscreen');
@@ -253,8 +389,12 @@ export default function DocumentDetailPage() {
   };
 
   const handleViewDICOM = () => {
-    console.log('🏥 Open DICOM viewer');
-    alert('DICOM viewer coming soon!');
+    if (pages) {
+      handleViewFullscreen(0);
+    } else {
+      console.log('🏥 Open DICOM viewer');
+      alert('This imaging study has no images that can be displayed');
+    }
   };
 
   const handleViewFullAnalysis = () => {
@@ -267,9 +407,41 @@ export default function DocumentDetailPage() {
     setLocation('/consent');
   };
 
-  const handleVersionClick = (version: string) => {
-    console.log(`📋 Preview version: ${version}`);
-    alert(`Version ${version} preview coming soon!`);
+  const handleUploadVersion = async (file: File) => {
+    const note = prompt('What changed in this version? (optional)') ?? undefined;
+    try {
+      await uploadVersionMutation.mutateAsync({ id: documentId, file, note: note?.trim() || undefined });
+      setCompareVersionId(null);
+      await refreshDocument();
+    } catch (error) {
+      console.error('Failed to upload version:', error);
+    }
+  };
+
+  const handleDownloadVersion = async (versionId: string) => {
+    try {
+      const response = await getDocumentVersionFile(documentId, versionId);
+      if (response.success && response.fileUrl) {
+        window.open(response.fileUrl, '_blank', 'noopener,noreferrer');
+      }
+    } catch (error) {
+      console.error('Failed to download version:', error);
+    }
+  };
+
+  const handleRestoreVersion = async (versionId: string) => {
+    const version = versionsData?.versions.find((v) => v.id === versionId);
+    if (!confirm(`Restore ${version?.version || 'this version'} as the current version?`)) {
+      return;
+    }
+
+    try {
+      await restoreVersionMutation.mutateAsync({ id: documentId, versionId });
+      setCompareVersionId(null);
+      await refreshDocument();
+    } catch (error) {
+      console.error('Failed to restore version:', error);
+    }
   };
 
   const handleEditMetadata = () => {
@@ -282,8 +454,62 @@ export default function DocumentDetailPage() {
     // Menu is now handled in DocumentDetailScreen
   };
 
+  const handleRetryProcessing = () => {
+    console.log('🔁 Retry document processing');
+    retryProcessingMutation.mutate(documentId);
+  };
+
+  // Collection chips: every collection of the user, marked when this document is in it
+  const collectionOptions = collectionsData && documentCollectionsData
+    ? collectionsData.collections.map((collection) => ({
+        id: collection.id,
+        name: collection.name,
+        inCollection: documentCollectionsData.collections.some((c) => c.id === collection.id),
+      }))
+    : null;
+
+  const handleToggleCollection = (collectionId: string) => {
+    const membership = documentCollectionsData?.collections.find((c) => c.id === collectionId);
+    if (membership) {
+      console.log(`📁 Remove from collection ${collectionId}`);
+      removeCollectionItemMutation.mutate({ collectionId, itemId: membership.itemId });
+    } else {
+      console.log(`📁 Add to collection ${collectionId}`);
+      addCollectionItemMutation.mutate({ collectionId, data: { itemType: 'document', documentId } });
+    }
+  };
+
+  const handleAddHighlight = (page: number, region: AnnotationRegion) => {
+    const note = window.prompt(language === 'hi' ? 'इस हाइलाइट के लिए नोट (वैकल्पिक)' : 'Note for this highlight (optional)');
+    // Cancelling the prompt discards the highlight
+    if (note === null) return;
+    console.log(`🖍️ Highlight added on page ${page}`);
+    createAnnotationMutation.mutate({ id: documentId, data: { page, region, note: note.trim() || null } });
+  };
+
+  const handleSaveRedaction = async (regions: RedactionRegion[]) => {
+    try {
+      await saveRedactionMutation.mutateAsync({ id: documentId, regions });
+      setShowRedactionEditor(false);
+    } catch (error) {
+      console.error('Failed to save redaction:', error);
+    }
+  };
+
+  const handleRemoveRedaction = async () => {
+    try {
+      await deleteRedactionMutation.mutateAsync(documentId);
+      setShowRedactionEditor(false);
+    } catch (error) {
+      console.error('Failed to remove redaction:', error);
+    }
+  };
+
+  // Pages to draw redaction boxes on: rendered PDF pages, or the image itself
+  const redactionPages = pages ? pages.map((page) => page.imageUrl) : fileUrl ? [fileUrl] : [];
+
   const handleDelete = async () => {
-    if (!confirm('Are you sure you want to delete this document? This action cannot be undone.')) {
+    if (!confirm('Move this document to the trash? You can restore it later from the trash.')) {
       return;
     }
     
@@ -312,27 +538,92 @@ export default function DocumentDetailPage() {
         fileType={fileType}
         metadata={metadata}
         aiInsight={aiInsight}
-        versionHistory={defaultVersionHistory}
+        versionHistory={versionsData ? versionHistory : defaultVersionHistory}
         accessList={defaultAccessList}
         language={language}
         fileUrl={fileUrl || undefined}
+        pages={pages}
+        imagingStudy={documentData?.dicom ?? null}
+        collections={collectionOptions}
+        onToggleCollection={handleToggleCollection}
+        annotations={annotationsData?.annotations ?? null}
+        isSavingAnnotation={createAnnotationMutation.isPending || updateAnnotationMutation.isPending}
+        onAddNote={(note) => createAnnotationMutation.mutate({ id: documentId, data: { note } })}
+        onAddHighlight={handleAddHighlight}
+        onUpdateAnnotation={(annotationId, note) =>
+          updateAnnotationMutation.mutate({ id: documentId, annotationId, data: { note: note || null } })
+        }
+        onDeleteAnnotation={(annotationId) => deleteAnnotationMutation.mutate({ id: documentId, annotationId })}
+        redaction={redactionData?.redaction ?? null}
+        onRedact={redactionData?.supported ? () => setShowRedactionEditor(true) : undefined}
+        processing={processingData?.processing ? {
+          status: processingData.processing.status,
+          stage: processingData.processing.stage,
+          error: processingData.processing.lastError,
+        } : null}
+        isRetryingProcessing={retryProcessingMutation.isPending}
+        onRetryProcessing={handleRetryProcessing}
+        labResults={isLabReport ? observationsData?.observations ?? [] : null}
+        isLabResultsLoading={isObservationsLoading}
+        isSavingLabResult={createObservationMutation.isPending || updateObservationMutation.isPending}
+        isExtractingLabResults={extractObservationsMutation.isPending}
+        onAddLabResult={(data) => createObservationMutation.mutate({ id: documentId, data })}
+        onUpdateLabResult={(observationId, data) =>
+          updateObservationMutation.mutate({ id: documentId, observationId, data })
+        }
+        onDeleteLabResult={(observationId) => deleteObservationMutation.mutate({ id: documentId, observationId })}
+        onExtractLabResults={documentData?.ocrProcessed ? () => extractObservationsMutation.mutate(documentId) : undefined}
         onBack={handleBack}
         onShare={handleShare}
         onViewFullscreen={handleViewFullscreen}
         onViewDICOM={handleViewDICOM}
         onViewFullAnalysis={handleViewFullAnalysis}
         onManageAccess={handleManageAccess}
-        onVersionClick={handleVersionClick}
+        versionDiff={compareVersionId && versionDiffData?.success ? {
+          fromVersion: versionDiffData.from.version,
+          toVersion: versionDiffData.to.version,
+          lines: versionDiffData.lines,
+          added: versionDiffData.added,
+          removed: versionDiffData.removed,
+          truncated: versionDiffData.truncated,
+        } : null}
+        isVersionDiffLoading={!!compareVersionId && isVersionDiffLoading}
+        isUploadingVersion={uploadVersionMutation.isPending}
+        onUploadVersion={handleUploadVersion}
+        onDownloadVersion={handleDownloadVersion}
+        onRestoreVersion={handleRestoreVersion}
+        onCompareVersion={setCompareVersionId}
+        onCloseVersionDiff={() => setCompareVersionId(null)}
         onEditMetadata={handleEditMetadata}
         onMoreOptions={handleMoreOptions}
         onDelete={handleDelete}
       />
-      {fileUrl && showImageModal && (
+      {showRedactionEditor && redactionData?.supported && !isRedactionLoading && redactionPages.length > 0 && (
+        <RedactionEditor
+          isOpen={showRedactionEditor}
+          onClose={() => setShowRedactionEditor(false)}
+          pages={redactionPages}
+          title={metadata.title}
+          language={language}
+          redaction={redactionData.redaction}
+          suggestions={suggestionsData?.success ? suggestionsData : null}
+          isLoadingSuggestions={!redactionData.redaction && isSuggestionsLoading}
+          isSaving={saveRedactionMutation.isPending}
+          redactedFileUrl={redactionData.redaction ? getRedactedFileUrl(documentId) : undefined}
+          onSave={handleSaveRedaction}
+          onRemove={handleRemoveRedaction}
+        />
+      )}
+      {(fileUrl || pages) && showImageModal && (
         <ImagePreviewModal
-          imageUrl={fileUrl}
+          imageUrl={fileUrl || undefined}
+          pages={pages?.map((page) => page.imageUrl)}
+          initialPage={fullscreenPage}
           alt={metadata.title}
           isOpen={showImageModal}
           onClose={() => setShowImageModal(false)}
+          annotations={annotationsData?.annotations}
+          onDrawRegion={handleAddHighlight}
         />
       )}
     </>
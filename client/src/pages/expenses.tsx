@@ -0,0 +1,309 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { ArrowLeft, Plus, IndianRupee, Download, FileText, Pencil, Trash2, Sparkles } from 'lucide-react';
+import { useExpenses, useExpenseSummary, useDeleteExpense } from '@/hooks/useExpenses';
+import { ExpenseModal, EXPENSE_CATEGORY_KEYS, REIMBURSEMENT_STATUS_KEYS } from '@/components/ExpenseModal';
+import { useTranslation } from '@/i18n/useTranslation';
+import { getExpenseExportUrl, type Expense, type PeriodBasis } from '@/lib/api/expenses';
+
+function formatMoney(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// The year a date falls in (for financial years, the year the April - March year starts in)
+function getCurrentYear(basis: PeriodBasis): number {
+  const now = new Date();
+  return basis === 'financial' && now.getMonth() < 3 ? now.getFullYear() - 1 : now.getFullYear();
+}
+
+function formatYear(year: number, basis: PeriodBasis): string {
+  return basis === 'financial' ? `FY ${year}-${String((year + 1) % 100).padStart(2, '0')}` : String(year);
+}
+
+const reimbursementColors: Record<Expense['reimbursementStatus'], string> = {
+  none: 'bg-gray-50 text-gray-600 border-gray-200',
+  claimed: 'bg-blue-50 text-blue-700 border-blue-200',
+  reimbursed: 'bg-green-50 text-green-700 border-green-200',
+};
+
+export default function ExpensesPage() {
+  const [, setLocation] = useLocation();
+  const { translations: t, language } = useTranslation();
+  const [basis, setBasis] = useState<PeriodBasis>('financial');
+  const [year, setYear] = useState(() => getCurrentYear('financial'));
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+
+  const { data: summaryData } = useExpenseSummary(year, basis);
+  const { data: expensesData, isLoading } = useExpenses({ year, basis });
+  const deleteExpense = useDeleteExpense();
+
+  const summary = summaryData?.summary;
+  const years = summaryData?.years || [year];
+  const expenses = expensesData?.expenses || [];
+  const maxMonthTotal = Math.max(1, ...(summary?.byMonth.map((month) => month.total) || []));
+
+  const handleBasisChange = (value: PeriodBasis) => {
+    setBasis(value);
+    setYear(getCurrentYear(value));
+  };
+
+  const handleAddExpense = () => {
+    setEditingExpense(null);
+    setIsModalOpen(true);
+  };
+
+  const handleEditExpense = (expense: Expense) => {
+    setEditingExpense(expense);
+    setIsModalOpen(true);
+  };
+
+  const handleDeleteExpense = (expense: Expense) => {
+    if (confirm(t.expenses.deleteConfirm)) {
+      deleteExpense.mutate(expense.id);
+    }
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingExpense(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setLocation('/home')}
+              className="p-1.5 hover:bg-gray-100 rounded-full transition-colors"
+              aria-label="Go back"
+            >
+              <ArrowLeft className="w-5 h-5 text-gray-700" />
+            </button>
+            <div className="flex items-center gap-2">
+              <div className="p-1.5 bg-amber-100 rounded-lg">
+                <IndianRupee className="w-4 h-4 text-amber-600" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-gray-900">{t.expenses.title}</h1>
+                <p className="text-xs text-gray-500">{t.expenses.subtitle}</p>
+              </div>
+            </div>
+          </div>
+          <button
+            onClick={handleAddExpense}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-amber-600 text-white rounded-lg text-sm font-medium hover:bg-amber-700 transition-colors"
+            data-testid="button-add-expense"
+          >
+            <Plus className="w-4 h-4" />
+            {t.expenses.addExpense}
+          </button>
+        </div>
+      </div>
+
+      {/* Period and downloads */}
+      <div className="max-w-4xl mx-auto px-4 py-3 flex flex-wrap items-center gap-2">
+        <div className="flex bg-white border border-gray-200 rounded-lg p-0.5">
+          {(['financial', 'calendar'] as PeriodBasis[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => handleBasisChange(value)}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                basis === value ? 'bg-amber-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {value === 'financial' ? t.expenses.financialYear : t.expenses.calendarYear}
+            </button>
+          ))}
+        </div>
+        <select
+          value={year}
+          onChange={(e) => setYear(parseInt(e.target.value, 10))}
+          className="px-3 py-1.5 text-sm bg-white border border-gray-200 rounded-lg"
+          data-testid="select-expense-year"
+        >
+          {years.map((value) => (
+            <option key={value} value={value}>
+              {formatYear(value, basis)}
+            </option>
+          ))}
+        </select>
+        <div className="flex items-center gap-2 ml-auto">
+          <a
+            href={getExpenseExportUrl('csv', year, basis)}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-white text-gray-700 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+            data-testid="link-export-csv"
+          >
+            <Download className="w-4 h-4" />
+            {t.expenses.downloadCsv}
+          </a>
+          <a
+            href={getExpenseExportUrl('pdf', year, basis)}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-white text-gray-700 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+            data-testid="link-export-pdf"
+          >
+            <FileText className="w-4 h-4" />
+            {t.expenses.downloadPdf}
+          </a>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 pb-8 space-y-4">
+        {/* Totals */}
+        {summary && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="bg-white rounded-xl border border-gray-200 p-4">
+              <p className="text-xs text-gray-500">{t.expenses.totalPaid}</p>
+              <p className="text-lg font-bold text-gray-900" data-testid="text-expense-total">{formatMoney(summary.total)}</p>
+              <p className="text-xs text-gray-500">{summary.count} {t.expenses.expenseCount.toLowerCase()}</p>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-4">
+              <p className="text-xs text-gray-500">{t.expenses.gstIncluded}</p>
+              <p className="text-lg font-bold text-gray-900">{formatMoney(summary.gstTotal)}</p>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-4">
+              <p className="text-xs text-gray-500">{t.expenses.section80D}</p>
+              <p className="text-lg font-bold text-gray-900">
+                {formatMoney(summary.section80D.insurancePremiums + summary.section80D.preventiveCheckupsAllowed)}
+              </p>
+              <p className="text-xs text-gray-500">{t.expenses.insurancePremiums}: {formatMoney(summary.section80D.insurancePremiums)}</p>
+              <p className="text-xs text-gray-500">{t.expenses.preventiveCheckups}: {formatMoney(summary.section80D.preventiveCheckupsAllowed)}</p>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-4">
+              <p className="text-xs text-gray-500">{t.expenses.reimbursement}</p>
+              <p className="text-lg font-bold text-gray-900">{formatMoney(summary.reimbursement.reimbursed)}</p>
+              <p className="text-xs text-gray-500">{t.expenses.claimed}: {formatMoney(summary.reimbursement.claimed)}</p>
+              <p className="text-xs text-gray-500">{t.expenses.notClaimed}: {formatMoney(summary.reimbursement.notClaimed)}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Monthly and category breakdown */}
+        {summary && summary.count > 0 && (
+          <div className="grid md:grid-cols-2 gap-3">
+            <div className="bg-white rounded-xl border border-gray-200 p-4">
+              <h2 className="text-sm font-semibold text-gray-900 mb-3">{t.expenses.byMonth}</h2>
+              <div className="flex items-end gap-1 h-32">
+                {summary.byMonth.map((month) => (
+                  <div key={month.month} className="flex-1 flex flex-col items-center justify-end h-full" title={`${month.label}: ${formatMoney(month.total)}`}>
+                    <div
+                      className="w-full bg-amber-500 rounded-t"
+                      style={{ height: `${(month.total / maxMonthTotal) * 100}%`, minHeight: month.total > 0 ? 2 : 0 }}
+                    />
+                    <span className="text-[10px] text-gray-500 mt-1">{month.label.slice(0, 1)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-4">
+              <h2 className="text-sm font-semibold text-gray-900 mb-3">{t.expenses.byCategory}</h2>
+              <div className="space-y-2">
+                {summary.byCategory.map((entry) => (
+                  <div key={entry.category}>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-gray-700">{t.expenses[EXPENSE_CATEGORY_KEYS[entry.category]]}</span>
+                      <span className="font-medium text-gray-900">{formatMoney(entry.total)}</span>
+                    </div>
+                    <div className="h-1.5 bg-gray-100 rounded-full mt-1">
+                      <div
+                        className="h-1.5 bg-amber-500 rounded-full"
+                        style={{ width: `${summary.total > 0 ? (entry.total / summary.total) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Expense list */}
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900 mb-2">{t.expenses.allExpenses}</h2>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="bg-white rounded-xl border border-gray-200 p-5 animate-pulse">
+                  <div className="h-4 bg-gray-200 rounded w-1/3 mb-3"></div>
+                  <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+                </div>
+              ))}
+            </div>
+          ) : expenses.length === 0 ? (
+            <div className="bg-white rounded-xl border border-gray-200 p-8 text-center">
+              <IndianRupee className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-sm text-gray-600">{t.expenses.noExpenses}</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {expenses.map((expense) => (
+                <div
+                  key={expense.id}
+                  className="bg-white rounded-xl border border-gray-200 p-4 flex items-start justify-between gap-3"
+                  data-testid={`card-expense-${expense.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-900 truncate">{expense.payee}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(expense.paymentDate).toLocaleDateString(language === 'hi' ? 'hi-IN' : 'en-IN')}
+                      {' · '}
+                      {t.expenses[EXPENSE_CATEGORY_KEYS[expense.category]]}
+                      {expense.payer ? ` · ${expense.payer}` : ''}
+                    </p>
+                    {expense.description && <p className="text-sm text-gray-600 mt-1 truncate">{expense.description}</p>}
+                    <div className="flex flex-wrap items-center gap-2 mt-2">
+                      <span className={`px-2 py-0.5 rounded-full border text-xs ${reimbursementColors[expense.reimbursementStatus]}`}>
+                        {t.expenses[REIMBURSEMENT_STATUS_KEYS[expense.reimbursementStatus]]}
+                      </span>
+                      {expense.source === 'ai' && (
+                        <span className="flex items-center gap-1 text-xs text-purple-600">
+                          <Sparkles className="w-3 h-3" />
+                          {t.expenses.readFromBill}
+                        </span>
+                      )}
+                      {expense.documentId && expense.documentTitle && (
+                        <button
+                          onClick={() => setLocation(`/document/${expense.documentId}`)}
+                          className="flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                        >
+                          <FileText className="w-3 h-3" />
+                          {t.expenses.fromBill}: {expense.documentTitle}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className="font-bold text-gray-900">{formatMoney(expense.amount)}</p>
+                    {expense.gstAmount !== null && (
+                      <p className="text-xs text-gray-500">{t.expenses.gstAmount} {formatMoney(expense.gstAmount)}</p>
+                    )}
+                    <div className="flex items-center justify-end gap-1 mt-2">
+                      <button
+                        onClick={() => handleEditExpense(expense)}
+                        className="p-1.5 hover:bg-gray-100 rounded-full transition-colors"
+                        aria-label={t.expenses.editExpense}
+                      >
+                        <Pencil className="w-4 h-4 text-gray-600" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteExpense(expense)}
+                        className="p-1.5 hover:bg-red-50 rounded-full transition-colors"
+                        aria-label="Delete"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ExpenseModal expense={editingExpense} isOpen={isModalOpen} onClose={handleCloseModal} />
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
 import { ArogyaVaultDashboard } from '@/components/MediLockerDashboard';
 import { useLocation } from 'wouter';
-import { useDocuments } from '@/hooks/useDocuments';
+import { useDocuments, useDocumentSearch } from '@/hooks/useDocuments';
 import { useUserProfile } from '@/hooks/useUser';
 import { useHealthInsights } from '@/hooks/useHealth';
+import { useHealthTasks, useCreateHealthTask, useUpdateHealthTask, useDeleteHealthTask } from '@/hooks/useTasks';
 import { useNearbyClinics } from '@/hooks/useClinics';
 import { getDocumentPreview } from '@/lib/api/documents';
 import { useQueries } from '@tanstack/react-query';
@@ -16,6 +17,9 @@ export default function HomePage() {
   const [guidedMode, setGuidedMode] = useState(false);
   const [isChatbotOpen, setIsChatbotOpen] = useState(false);
   const [autoStartVoice, setAutoStartVoice] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
   const [, setLocation] = useLocation();
   const { data: authStatus } = useAuthStatus();
   const isAuthenticated = authStatus?.authenticated === true;
@@ -44,6 +48,31 @@ export default function HomePage() {
   // Fetch real documents data (limit to 3 most recent)
   const { data: documentsData, isLoading: documentsLoading } = useDocuments({});
   const { data: userProfile } = useUserProfile();
+
+  // Debounce search input so we don't embed a query on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchQuery(searchQuery), 400);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const { data: searchData, isFetching: isSearching } = useDocumentSearch(
+    isSearchOpen ? debouncedSearchQuery : ''
+  );
+
+  const searchResults = searchData?.results?.map((result) => ({
+    id: result.id,
+    title: result.title,
+    type: result.type === 'lab' ? 'Lab Report' :
+          result.type === 'prescription' ? 'Prescription' :
+          result.type === 'imaging' ? 'X-Ray' : 'Document',
+    provider: result.provider,
+    date: result.date ? new Date(result.date).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric'
+    }) : undefined,
+    snippet: result.snippets.find((s) => s.field === 'extractedText')?.text || result.snippets[0]?.text,
+  })) || [];
   
   // Push notifications setup
   const {
@@ -71,6 +100,13 @@ export default function HomePage() {
     }
   }, [isAuthenticated, isPushSupported, pushPermission, isSubscribed, registration, subscribe]);
   
+  // Pending follow-up tasks for the dashboard widget
+  const { data: tasksData, isLoading: tasksLoading } = useHealthTasks({ status: 'pending' });
+  const createTask = useCreateHealthTask();
+  const updateTask = useUpdateHealthTask();
+  const deleteTask = useDeleteHealthTask();
+  const healthTasks = tasksData?.tasks || [];
+
   // Fetch AI health insights
   const { data: healthInsightsData, isLoading: healthInsightsLoading } = useHealthInsights();
   const healthInsight = healthInsightsData?.success && healthInsightsData.insight
@@ -159,7 +195,7 @@ export default function HomePage() {
   // Map documents with preview URLs
   const recentDocuments = documentsData?.documents?.slice(0, 3).map((doc, index) => {
     const previewQuery = previewQueries[index];
-    const previewUrl = previewQuery?.data?.success ? previewQuery.data.previewUrl : null;
+    const previewUrl = previewQuery?.data?.success ? previewQuery.data.thumbnailUrl : null;
     const createdAt = new Date(doc.createdAt);
     
     return {
@@ -207,8 +243,11 @@ export default function HomePage() {
   };
 
   const handleSearchClick = () => {
-    console.log('🔍 Search opened');
-    // Could navigate to a search page or open search modal
+    console.log('🔍 Search toggled');
+    if (isSearchOpen) {
+      setSearchQuery('');
+    }
+    setIsSearchOpen(!isSearchOpen);
   };
 
   const handleUploadRecordsClick = () => {
@@ -232,6 +271,10 @@ export default function HomePage() {
     setLocation('/medications');
   };
 
+  const handleExpensesClick = () => {
+    setLocation('/expenses');
+  };
+
   const handleViewAllDocumentsClick = () => {
     console.log('📁 View all documents clicked');
     // Route to vault page
@@ -295,6 +338,17 @@ export default function HomePage() {
         pendingActions={0}
         recentDocuments={recentDocuments}
         isLoadingDocuments={documentsLoading}
+        healthTasks={healthTasks}
+        isLoadingTasks={tasksLoading}
+        isSavingTask={createTask.isPending}
+        onAddTask={(data) => createTask.mutate({
+          title: data.title,
+          // Date inputs give a local day; due at 9 AM like extracted tasks
+          dueDate: data.dueDate ? new Date(`${data.dueDate}T09:00:00`).toISOString() : null,
+        })}
+        onCompleteTask={(id) => updateTask.mutate({ id, data: { status: 'completed' } })}
+        onDismissTask={(id) => updateTask.mutate({ id, data: { status: 'dismissed' } })}
+        onDeleteTask={(id) => deleteTask.mutate(id)}
         healthInsight={healthInsight}
         nearbyClinics={nearbyClinics}
         isLoadingClinics={clinicsLoading || locationLoading}
@@ -303,10 +357,16 @@ export default function HomePage() {
         onMicClick={handleMicClick}
         onNotificationsClick={handleNotificationsClick}
         onSearchClick={handleSearchClick}
+        isSearchOpen={isSearchOpen}
+        searchQuery={searchQuery}
+        searchResults={searchResults}
+        isSearching={isSearching || searchQuery !== debouncedSearchQuery}
+        onSearchQueryChange={setSearchQuery}
         onUploadRecordsClick={handleUploadRecordsClick}
         onAiInsightsClick={handleAiInsightsClick}
         onEmergencyCardClick={handleEmergencyCardClick}
         onMedicationsClick={handleMedicationsClick}
+        onExpensesClick={handleExpensesClick}
         onViewAllDocumentsClick={handleViewAllDocumentsClick}
         onDocumentClick={handleDocumentClick}
         onViewFullReportClick={handleViewFullReportClick}
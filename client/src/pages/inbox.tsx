@@ -0,0 +1,317 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Mail, Copy, RefreshCw, ShieldCheck, X, Plus, FileText, Check, Trash2, RotateCcw, Loader2 } from 'lucide-react';
+import {
+  useInboxAddress,
+  useInboxItems,
+  useRotateInboxAddress,
+  useTrustedSender,
+  useApproveInboxItem,
+  useDeleteInboxItem,
+} from '@/hooks/useInbox';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/i18n/useTranslation';
+import type { InboxItem } from '@/lib/api/inbox';
+
+// Finished items shown under "Recent"
+const RECENT_COUNT = 10;
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function InboxPage() {
+  const [, setLocation] = useLocation();
+  const { translations: t } = useTranslation();
+  const { toast } = useToast();
+  const [newSender, setNewSender] = useState('');
+
+  const { data: addressData, isLoading: isLoadingAddress } = useInboxAddress();
+  const { data: itemsData, isLoading: isLoadingItems } = useInboxItems();
+  const rotateMutation = useRotateInboxAddress();
+  const trustedSenderMutation = useTrustedSender();
+  const approveMutation = useApproveInboxItem();
+  const deleteMutation = useDeleteInboxItem();
+
+  const inbox = addressData?.inbox;
+  const items = itemsData?.items || [];
+  const reviewItems = items.filter((item) => item.status === 'review');
+  const recentItems = items.filter((item) => item.status !== 'review').slice(0, RECENT_COUNT);
+
+  const statusLabels: Record<Exclude<InboxItem['status'], 'review'>, { text: string; className: string }> = {
+    queued: { text: t.vault.inboxStatusQueued, className: 'text-blue-600' },
+    imported: { text: t.vault.inboxStatusImported, className: 'text-green-600' },
+    skipped: { text: t.vault.inboxStatusSkipped, className: 'text-gray-500' },
+    rejected: { text: t.vault.inboxStatusRejected, className: 'text-orange-600' },
+    failed: { text: t.vault.inboxStatusFailed, className: 'text-red-600' },
+  };
+
+  const handleCopy = async () => {
+    if (!inbox) return;
+    await navigator.clipboard.writeText(inbox.address);
+    toast({ title: t.vault.addressCopied });
+  };
+
+  const handleRotate = () => {
+    if (confirm(t.vault.changeAddressConfirm)) {
+      rotateMutation.mutate();
+    }
+  };
+
+  const handleAddSender = () => {
+    if (!newSender.trim()) return;
+    trustedSenderMutation.mutate(
+      { email: newSender.trim(), trusted: true },
+      { onSuccess: () => setNewSender('') }
+    );
+  };
+
+  const renderItemDetails = (item: InboxItem) => (
+    <div className="flex-1 min-w-0">
+      <h3 className="font-semibold text-gray-900 truncate text-sm md:text-base">{item.fileName}</h3>
+      <p className="text-xs md:text-sm text-gray-500 truncate">
+        {item.senderName ? `${item.senderName} <${item.sender}>` : item.sender}
+      </p>
+      {item.subject && <p className="text-xs md:text-sm text-gray-500 truncate">{item.subject}</p>}
+      <p className="text-xs text-gray-400 mt-0.5">
+        {t.vault.receivedOn}: {new Date(item.createdAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+        {' · '}
+        {formatFileSize(item.fileSize)}
+      </p>
+      {item.status !== 'review' && item.reason && (
+        <p className="text-xs text-gray-500 mt-0.5">{item.reason}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="h-screen w-full max-w-[390px] md:max-w-[448px] lg:max-w-[512px] xl:max-w-[576px] mx-auto bg-white flex flex-col" data-testid="inbox-container">
+      <div className="flex items-center justify-between px-6 md:px-8 lg:px-10 py-4 md:py-5 lg:py-6 border-b border-gray-200 sticky top-0 bg-white z-20">
+        <button
+          className="p-2 md:p-3 -ml-2 hover:bg-gray-100 rounded-full transition-colors"
+          aria-label="Back"
+          onClick={() => setLocation('/vault')}
+          data-testid="button-back"
+        >
+          <ArrowLeft className="w-6 h-6 md:w-7 md:h-7 lg:w-8 lg:h-8 text-gray-700" />
+        </button>
+        <h1 className="text-xl md:text-2xl lg:text-3xl font-semibold text-gray-900">{t.vault.inbox}</h1>
+        <div className="w-10" />
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 md:px-8 lg:px-10 py-4 md:py-5 lg:py-6 space-y-6">
+        <section className="bg-blue-50 border border-blue-100 rounded-xl p-4 md:p-5" data-testid="section-inbox-address">
+          <div className="flex items-center gap-2 mb-1">
+            <Mail className="w-5 h-5 text-blue-600" />
+            <h2 className="font-semibold text-gray-900">{t.vault.inboxAddressTitle}</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-3">{t.vault.inboxAddressHint}</p>
+          {isLoadingAddress || !inbox ? (
+            <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+          ) : (
+            <>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 min-w-0 truncate bg-white border border-blue-200 rounded-lg px-3 py-2 text-sm text-gray-900" data-testid="text-inbox-address">
+                  {inbox.address}
+                </code>
+                <button
+                  className="p-2 text-blue-700 hover:bg-blue-100 rounded-lg"
+                  aria-label={t.vault.copyAddress}
+                  title={t.vault.copyAddress}
+                  onClick={handleCopy}
+                  data-testid="button-copy-address"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+              <button
+                className="mt-2 text-xs text-blue-700 hover:underline flex items-center gap-1 disabled:opacity-50"
+                onClick={handleRotate}
+                disabled={rotateMutation.isPending}
+                data-testid="button-rotate-address"
+              >
+                <RefreshCw className="w-3 h-3" />
+                {t.vault.changeAddress}
+              </button>
+              {!inbox.enabled && (
+                <p className="mt-2 text-xs text-orange-600" data-testid="text-inbox-disabled">{t.vault.inboxDisabled}</p>
+              )}
+            </>
+          )}
+        </section>
+
+        <section data-testid="section-trusted-senders">
+          <div className="flex items-center gap-2 mb-1">
+            <ShieldCheck className="w-5 h-5 text-green-600" />
+            <h2 className="font-semibold text-gray-900">{t.vault.trustedSenders}</h2>
+          </div>
+          <p className="text-sm text-gray-500 mb-3">{t.vault.trustedSendersHint}</p>
+          {inbox && inbox.trustedSenders.length === 0 && (
+            <p className="text-sm text-gray-400 mb-3">{t.vault.noTrustedSenders}</p>
+          )}
+          <div className="flex flex-wrap gap-2 mb-3">
+            {inbox?.trustedSenders.map((sender) => (
+              <span
+                key={sender}
+                className="inline-flex items-center gap-1 bg-green-50 text-green-800 border border-green-200 rounded-full pl-3 pr-1 py-1 text-xs"
+                data-testid={`chip-trusted-sender-${sender}`}
+              >
+                {sender}
+                <button
+                  className="p-0.5 hover:bg-green-100 rounded-full"
+                  aria-label={t.vault.removeSender}
+                  title={t.vault.removeSender}
+                  onClick={() => trustedSenderMutation.mutate({ email: sender, trusted: false })}
+                  data-testid={`button-remove-sender-${sender}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="email"
+              value={newSender}
+              onChange={(e) => setNewSender(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddSender()}
+              placeholder={t.vault.senderEmailPlaceholder}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              data-testid="input-trusted-sender"
+            />
+            <button
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+              onClick={handleAddSender}
+              disabled={!newSender.trim() || trustedSenderMutation.isPending}
+              data-testid="button-add-trusted-sender"
+            >
+              <Plus className="w-4 h-4" />
+              {t.vault.addTrustedSender}
+            </button>
+          </div>
+        </section>
+
+        <section data-testid="section-review-inbox">
+          <h2 className="font-semibold text-gray-900 mb-3">
+            {t.vault.waitingForReview}
+            {reviewItems.length > 0 && <span className="ml-2 text-sm text-blue-600">({reviewItems.length})</span>}
+          </h2>
+          {isLoadingItems ? (
+            <div className="flex justify-center py-8">
+              <div className="w-10 h-10 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : reviewItems.length === 0 ? (
+            <div className="bg-gray-50 rounded-xl p-6 text-center" data-testid="empty-review-inbox">
+              <Mail className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+              <p className="text-sm text-gray-500">{t.vault.inboxEmpty}</p>
+            </div>
+          ) : (
+            <div className="space-y-3" data-testid="review-inbox-list">
+              {reviewItems.map((item) => (
+                <motion.div
+                  key={item.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="bg-white border border-gray-200 rounded-xl p-4 md:p-5"
+                  data-testid={`card-inbox-item-${item.id}`}
+                >
+                  <div className="flex gap-3">
+                    <div className="flex-shrink-0 w-10 h-10 rounded-lg bg-gray-100 flex items-center justify-center">
+                      <FileText className="w-5 h-5 text-gray-400" />
+                    </div>
+                    {renderItemDetails(item)}
+                  </div>
+                  <div className="flex gap-2 mt-3">
+                    <button
+                      className="flex-1 flex items-center justify-center gap-1 py-2 bg-blue-50 text-blue-700 rounded-lg text-sm font-medium hover:bg-blue-100 transition-colors disabled:opacity-50"
+                      onClick={() => approveMutation.mutate({ id: item.id })}
+                      disabled={approveMutation.isPending}
+                      data-testid={`button-import-${item.id}`}
+                    >
+                      <Check className="w-4 h-4" />
+                      {t.vault.importDocument}
+                    </button>
+                    <button
+                      className="flex-1 flex items-center justify-center gap-1 py-2 bg-green-50 text-green-700 rounded-lg text-sm font-medium hover:bg-green-100 transition-colors disabled:opacity-50"
+                      onClick={() => approveMutation.mutate({ id: item.id, trustSender: true })}
+                      disabled={approveMutation.isPending}
+                      data-testid={`button-import-trust-${item.id}`}
+                    >
+                      <ShieldCheck className="w-4 h-4" />
+                      {t.vault.importAndTrust}
+                    </button>
+                    <button
+                      className="px-3 flex items-center justify-center py-2 bg-red-50 text-red-600 rounded-lg text-sm font-medium hover:bg-red-100 transition-colors disabled:opacity-50"
+                      aria-label={t.vault.discard}
+                      title={t.vault.discard}
+                      onClick={() => deleteMutation.mutate(item.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-discard-${item.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </motion.div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {recentItems.length > 0 && (
+          <section data-testid="section-recent-imports">
+            <h2 className="font-semibold text-gray-900 mb-3">{t.vault.recentImports}</h2>
+            <div className="space-y-2">
+              {recentItems.map((item) => {
+                const status = statusLabels[item.status as keyof typeof statusLabels];
+                return (
+                  <div
+                    key={item.id}
+                    className="bg-white border border-gray-200 rounded-xl p-3 flex items-start gap-3"
+                    data-testid={`card-inbox-recent-${item.id}`}
+                  >
+                    {renderItemDetails(item)}
+                    <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                      <span className={`text-xs font-medium ${status.className}`}>{status.text}</span>
+                      {item.documentId && (item.status === 'imported' || item.status === 'skipped') && (
+                        <button
+                          className="text-xs text-blue-600 hover:underline"
+                          onClick={() => setLocation(`/document/${item.documentId}`)}
+                          data-testid={`link-inbox-document-${item.id}`}
+                        >
+                          {t.vault.openDocument}
+                        </button>
+                      )}
+                      {item.status === 'failed' && (
+                        <button
+                          className="text-xs text-blue-600 hover:underline flex items-center gap-1"
+                          onClick={() => approveMutation.mutate({ id: item.id })}
+                          disabled={approveMutation.isPending}
+                          data-testid={`button-retry-${item.id}`}
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          {t.vault.retryImport}
+                        </button>
+                      )}
+                      {item.status !== 'queued' && (
+                        <button
+                          className="text-xs text-gray-400 hover:text-gray-600"
+                          onClick={() => deleteMutation.mutate(item.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-clear-${item.id}`}
+                        >
+                          {t.vault.clear}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
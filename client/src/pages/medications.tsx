@@ -56,9 +56,10 @@ export default function MedicationsPage() {
       'image/jpg',
       'image/png',
       'image/webp',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     ];
     if (!allowedTypes.includes(file.type)) {
-      alert('Please select a PDF or image file (JPEG, PNG, WEBP)');
+      alert('Please select a PDF, image (JPEG, PNG, WEBP) or Word (DOCX) file');
       return;
     }
 
@@ -158,7 +159,7 @@ export default function MedicationsPage() {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".pdf,.jpg,.jpeg,.png,.webp"
+        accept=".pdf,.jpg,.jpeg,.png,.webp,.docx"
         onChange={handleFileChange}
         className="hidden"
       />
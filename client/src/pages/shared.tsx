@@ -7,7 +7,7 @@ import { useState } from 'react';
 import { useRoute } from 'wouter';
 import { useSharedConsent, useSharedDocuments } from '@/hooks/useConsents';
 import { SharedDocumentViewer } from '@/components/SharedDocumentViewer';
-import { AlertCircle, Shield, Clock, UserCircle, FileText } from 'lucide-react';
+import { AlertCircle, Shield, Clock, UserCircle, FileText, FolderOpen, Pill, StickyNote, EyeOff } from 'lucide-react';
 
 export default function SharedPage() {
   const [, params] = useRoute('/share/:token');
@@ -52,6 +52,7 @@ export default function SharedPage() {
   const consent = consentData.consent;
   const scopes = consent.scopes || [];
   const documents = documentsData?.documents || [];
+  const collection = documentsData?.collection ?? null;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -74,6 +75,16 @@ export default function SharedPage() {
               </div>
             </div>
             
+            {consent.collectionName && (
+              <div className="flex items-start gap-3">
+                <FolderOpen className="w-5 h-5 text-blue-600 mt-0.5" />
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-blue-900">Collection</p>
+                  <p className="text-base text-blue-800" data-testid="text-shared-collection">{consent.collectionName}</p>
+                </div>
+              </div>
+            )}
+
             {consent.purpose && (
               <div className="flex items-start gap-3">
                 <FileText className="w-5 h-5 text-blue-600 mt-0.5" />
@@ -141,12 +152,60 @@ export default function SharedPage() {
                             {new Date(doc.date).toLocaleDateString()}
                           </p>
                         )}
+                        {doc.redacted && (
+                          <p className="flex items-center gap-1 text-xs text-gray-700 mt-1" data-testid={`text-redacted-${doc.id}`}>
+                            <EyeOff className="w-3.5 h-3.5" />
+                            Personal details hidden by the owner
+                          </p>
+                        )}
+                        {doc.annotations?.length > 0 && (
+                          <p className="flex items-center gap-1 text-xs text-yellow-700 mt-1" data-testid={`text-annotation-count-${doc.id}`}>
+                            <StickyNote className="w-3.5 h-3.5" />
+                            {doc.annotations.length} {doc.annotations.length === 1 ? 'note' : 'notes'}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </button>
                 ))}
               </div>
             )}
+
+            {collection && collection.description && (
+              <p className="text-sm text-gray-600 mt-6" data-testid="text-collection-description">{collection.description}</p>
+            )}
+
+            {collection && collection.medications.length > 0 && (
+              <div className="mt-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Medications</h2>
+                <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+                  {collection.medications.map(medication => (
+                    <div key={medication.id} className="flex items-start gap-3 p-4">
+                      <Pill className="w-5 h-5 text-purple-600 flex-shrink-0 mt-0.5" />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-gray-900">{medication.name}</p>
+                        <p className="text-sm text-gray-600">{medication.dosage} • {medication.frequency}</p>
+                      </div>
+                      <span className="text-xs text-gray-500 capitalize">{medication.status}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {collection && collection.notes.length > 0 && (
+              <div className="mt-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Notes</h2>
+                <div className="space-y-3">
+                  {collection.notes.map(note => (
+                    <div key={note.id} className="flex items-start gap-3 bg-white rounded-lg border border-gray-200 p-4">
+                      <StickyNote className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap">{note.note}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,131 @@
+import { useLocation } from 'wouter';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Trash2, RotateCcw, FileText, Calendar } from 'lucide-react';
+import { useTrash, useRestoreFromTrash, usePurgeDocument, useEmptyTrash } from '@/hooks/useDocuments';
+import { useTranslation } from '@/i18n/useTranslation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function TrashPage() {
+  const [, setLocation] = useLocation();
+  const { t: translate, translations: t } = useTranslation();
+
+  const { data: trashData, isLoading } = useTrash();
+  const restoreMutation = useRestoreFromTrash();
+  const purgeMutation = usePurgeDocument();
+  const emptyTrashMutation = useEmptyTrash();
+
+  const documents = trashData?.documents || [];
+  const retentionDays = trashData?.retentionDays ?? 30;
+
+  const handlePurge = (id: string, title: string) => {
+    if (confirm(`Permanently delete "${title}"? This action cannot be undone.`)) {
+      purgeMutation.mutate(id);
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (confirm(`Permanently delete all ${documents.length} document(s) in the trash? This action cannot be undone.`)) {
+      emptyTrashMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="h-screen w-full max-w-[390px] md:max-w-[448px] lg:max-w-[512px] xl:max-w-[576px] mx-auto bg-white flex flex-col" data-testid="trash-container">
+      <div className="flex items-center justify-between px-6 md:px-8 lg:px-10 py-4 md:py-5 lg:py-6 border-b border-gray-200 sticky top-0 bg-white z-20">
+        <button
+          className="p-2 md:p-3 -ml-2 hover:bg-gray-100 rounded-full transition-colors"
+          aria-label="Back"
+          onClick={() => setLocation('/vault')}
+          data-testid="button-back"
+        >
+          <ArrowLeft className="w-6 h-6 md:w-7 md:h-7 lg:w-8 lg:h-8 text-gray-700" />
+        </button>
+        <h1 className="text-xl md:text-2xl lg:text-3xl font-semibold text-gray-900">{t.vault.trash}</h1>
+        <button
+          className="px-3 py-1.5 text-sm md:text-base font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40"
+          onClick={handleEmptyTrash}
+          disabled={documents.length === 0 || emptyTrashMutation.isPending}
+          data-testid="button-empty-trash"
+        >
+          {t.vault.emptyTrash}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 md:px-8 lg:px-10 py-4 md:py-5 lg:py-6">
+        <p className="text-sm md:text-base text-gray-500 mb-4" data-testid="text-trash-hint">
+          {translate('vault.trashHint', { days: retentionDays })}
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : documents.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 md:py-16" data-testid="empty-trash-state">
+            <div className="w-24 h-24 md:w-32 md:h-32 mb-6 rounded-full bg-gray-100 flex items-center justify-center">
+              <Trash2 className="w-12 h-12 md:w-16 md:h-16 text-gray-400" />
+            </div>
+            <p className="text-lg md:text-xl font-medium text-gray-900">{t.vault.trashEmpty}</p>
+          </div>
+        ) : (
+          <div className="space-y-3 md:space-y-4" data-testid="trash-list">
+            {documents.map((doc) => {
+              const daysLeft = Math.max(0, Math.ceil((new Date(doc.purgeAt).getTime() - Date.now()) / DAY_MS));
+              return (
+                <motion.div
+                  key={doc.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="bg-white border border-gray-200 rounded-xl p-4 md:p-5"
+                  data-testid={`card-trash-${doc.id}`}
+                >
+                  <div className="flex gap-3 md:gap-4">
+                    <div className="flex-shrink-0 w-12 h-12 md:w-14 md:h-14 rounded-lg bg-gray-100 flex items-center justify-center">
+                      <FileText className="w-6 h-6 text-gray-400" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold text-gray-900 truncate text-sm md:text-base">
+                        {doc.title}
+                        {doc.provider && <span className="text-gray-500 font-normal"> – {doc.provider}</span>}
+                      </h3>
+                      <div className="flex items-center gap-2 mt-1">
+                        <Calendar className="w-3 h-3 md:w-4 md:h-4 text-gray-400 flex-shrink-0" />
+                        <p className="text-xs md:text-sm text-gray-500">
+                          {t.vault.deletedOn}: {new Date(doc.deletedAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+                        </p>
+                      </div>
+                      <p className="text-xs md:text-sm text-orange-600 mt-1">
+                        {translate('vault.purgeIn', { days: daysLeft })}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2 mt-3 md:mt-4">
+                    <button
+                      className="flex-1 flex items-center justify-center gap-2 py-2 bg-blue-50 text-blue-700 rounded-lg text-sm md:text-base font-medium hover:bg-blue-100 transition-colors disabled:opacity-50"
+                      onClick={() => restoreMutation.mutate(doc.id)}
+                      disabled={restoreMutation.isPending}
+                      data-testid={`button-restore-${doc.id}`}
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      {t.vault.restore}
+                    </button>
+                    <button
+                      className="flex-1 flex items-center justify-center gap-2 py-2 bg-red-50 text-red-600 rounded-lg text-sm md:text-base font-medium hover:bg-red-100 transition-colors disabled:opacity-50"
+                      onClick={() => handlePurge(doc.id, doc.title)}
+                      disabled={purgeMutation.isPending}
+                      data-testid={`button-purge-${doc.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      {t.vault.deleteForever}
+                    </button>
+                  </div>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
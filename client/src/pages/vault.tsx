@@ -2,26 +2,49 @@ import { useState } from 'react';
 import { VaultDocumentTimeline } from '@/components/VaultDocumentTimeline';
 import { ArogyaVaultAddDocumentWizard } from '@/components/MediLockerAddDocumentWizard';
 import { useLocation } from 'wouter';
-import { useDocuments, useCreateDocument, useDeleteDocument, useSyncDocuments } from '@/hooks/useDocuments';
+import { useDocumentPages, useCreateDocument, useDeleteDocument } from '@/hooks/useDocuments';
+import { useOfflineQueue, useFlushOfflineQueue, useDiscardQueuedItem } from '@/hooks/useOfflineQueue';
+import { useCollections, useCreateCollection } from '@/hooks/useCollections';
+import { useInboxItems } from '@/hooks/useInbox';
 import type { DocumentType } from '@/lib/api/documents';
+import type { QueuedUpload } from '@/lib/offlineQueue';
 
 type FilterType = DocumentType | 'all';
 
+// Queued offline captures are listed with the documents under this id prefix
+const QUEUED_ID_PREFIX = 'queued:';
+
 export default function VaultPage() {
   const [showWizard, setShowWizard] = useState(false);
   const [filter, setFilter] = useState<FilterType>('all');
   const [searchQuery, setSearchQuery] = useState('');
+  const [collectionId, setCollectionId] = useState<string | null>(null);
   const [, setLocation] = useLocation();
 
-  // Fetch documents with filters
-  const { data: documentsData, isLoading, refetch } = useDocuments({
+  // Fetch documents with filters, newest first, a page at a time
+  const {
+    data: documentPages,
+    isLoading,
+    refetch,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useDocumentPages({
     type: filter === 'all' ? undefined : filter,
     search: searchQuery || undefined,
+    collectionId: collectionId || undefined,
   });
+  const loadedDocuments = documentPages?.pages.flatMap((page) => page.documents) ?? [];
+
+  const { data: collectionsData } = useCollections();
+  const { data: inboxData } = useInboxItems('review');
+  const createCollectionMutation = useCreateCollection();
 
   const createDocumentMutation = useCreateDocument();
   const deleteDocumentMutation = useDeleteDocument();
-  const syncDocumentsMutation = useSyncDocuments();
+  const { data: queuedItems } = useOfflineQueue();
+  const flushQueueMutation = useFlushOfflineQueue();
+  const discardQueuedItemMutation = useDiscardQueuedItem();
 
   const handleBack = () => {
     console.log('⬅️ Back to home');
@@ -38,7 +61,24 @@ export default function VaultPage() {
     setFilter(filterType);
   };
 
+  const handleCollectionChange = (id: string | null) => {
+    console.log(`📁 Collection filter changed to: ${id ?? 'all'}`);
+    setCollectionId(id);
+  };
+
+  const handleCreateCollection = async (name: string) => {
+    try {
+      const response = await createCollectionMutation.mutateAsync({ name });
+      setCollectionId(response.collection.id);
+    } catch (error) {
+      // Error is handled by mutation hook
+      console.error('Failed to create collection:', error);
+    }
+  };
+
   const handleDocumentClick = (docId: string) => {
+    // Queued captures have no detail page until they upload
+    if (docId.startsWith(QUEUED_ID_PREFIX)) return;
     console.log(`📄 Document clicked: ${docId}`);
     setLocation(`/document/${docId}`);
   };
@@ -66,7 +106,7 @@ export default function VaultPage() {
   const handleOfflineSyncClick = async () => {
     console.log('🔄 Offline sync clicked');
     try {
-      await syncDocumentsMutation.mutateAsync();
+      await flushQueueMutation.mutateAsync();
       // Documents will be refetched automatically via React Query
     } catch (error) {
       // Error is handled by mutation hook
@@ -75,6 +115,10 @@ export default function VaultPage() {
   };
 
   const handleDocumentDelete = async (docId: string) => {
+    if (docId.startsWith(QUEUED_ID_PREFIX)) {
+      discardQueuedItemMutation.mutate(docId.slice(QUEUED_ID_PREFIX.length));
+      return;
+    }
     try {
       await deleteDocumentMutation.mutateAsync(docId);
       // Documents will be refetched automatically via React Query
@@ -103,6 +147,8 @@ export default function VaultPage() {
         fileUrl: data.preview || undefined,
         fileType: data.fileType || 'PDF',
         fileSize: data.fileSize ? parseInt(data.fileSize) : undefined,
+        duplicateAction: data.duplicateAction,
+        duplicateOf: data.duplicateOf,
       };
 
       // If there's a file, pass it to the mutation
@@ -123,7 +169,7 @@ export default function VaultPage() {
   };
 
   // Convert API documents to component format
-  const documents = documentsData?.documents?.map((doc) => {
+  const documents = loadedDocuments.map((doc) => {
     const createdAt = new Date(doc.createdAt);
     return {
       id: doc.id,
@@ -149,16 +195,48 @@ export default function VaultPage() {
       fileType: doc.fileType || undefined,
       isOffline: doc.syncStatus === 'pending',
     };
-  }) || [];
+  });
+
+  // Captures waiting in the offline queue, newest first like the documents
+  const queuedUploads = (queuedItems ?? [])
+    .filter((item): item is QueuedUpload => item.kind === 'upload')
+    .filter((item) => (filter === 'all' || item.data.type === filter) && !collectionId)
+    .reverse()
+    .map((item) => {
+      const queuedAt = new Date(item.queuedAt);
+      return {
+        id: `${QUEUED_ID_PREFIX}${item.clientId}`,
+        title: item.data.title,
+        provider: item.data.provider,
+        uploadDate: queuedAt.toLocaleDateString('en-GB', {
+          day: 'numeric',
+          month: 'short',
+          year: 'numeric'
+        }),
+        uploadTime: queuedAt.toLocaleTimeString('en-GB', {
+          hour: '2-digit',
+          minute: '2-digit',
+          hour12: true
+        }),
+        type: item.data.type,
+        tags: item.data.tags ?? [],
+        isOffline: true,
+      };
+    });
 
   // Calculate actual pending count
-  const pendingCount = documentsData?.documents?.filter(doc => doc.syncStatus === 'pending').length || 0;
+  const pendingCount = loadedDocuments.filter(doc => doc.syncStatus === 'pending').length +
+    (queuedItems?.filter((item) => !item.failed).length || 0);
 
   return (
     <>
       <VaultDocumentTimeline
-        documents={documents}
+        documents={searchQuery ? documents : [...queuedUploads, ...documents]}
         isLoading={isLoading}
+        typeCounts={documentPages?.pages[0]?.facets?.types}
+        hasMore={!!hasNextPage}
+        isLoadingMore={isFetchingNextPage}
+        onLoadMore={() => fetchNextPage()}
         offlineCount={pendingCount}
         onBack={handleBack}
         onSearch={handleSearch}
@@ -169,6 +247,14 @@ export default function VaultPage() {
         onAddDicomImport={handleAddDicomImport}
         onOfflineSyncClick={handleOfflineSyncClick}
         onDocumentDelete={handleDocumentDelete}
+        onTrashClick={() => setLocation('/vault/trash')}
+        onInboxClick={() => setLocation('/vault/inbox')}
+        inboxCount={inboxData?.items.length ?? 0}
+        collections={collectionsData?.collections ?? []}
+        activeCollectionId={collectionId}
+        onCollectionChange={handleCollectionChange}
+        onCreateCollection={handleCreateCollection}
+        onOpenCollection={(id) => setLocation(`/collections/${id}`)}
       />
 
       {showWizard && (
@@ -0,0 +1,52 @@
+-- Create collections tables
+-- User-defined folders (e.g. "Knee surgery 2025", "Pregnancy") grouping documents, medications and notes
+CREATE TABLE IF NOT EXISTS collections (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  color VARCHAR(20), -- Optional UI accent
+  position INTEGER NOT NULL DEFAULT 0, -- Order in the user's collection list
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- One row per entry; a document or medication can be in several collections
+CREATE TABLE IF NOT EXISTS collection_items (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  collection_id VARCHAR NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  item_type VARCHAR(20) NOT NULL, -- 'document' | 'medication' | 'note'
+  document_id VARCHAR REFERENCES documents(id) ON DELETE CASCADE,
+  medication_id VARCHAR REFERENCES medications(id) ON DELETE CASCADE,
+  note TEXT, -- Text of 'note' items
+  position INTEGER NOT NULL DEFAULT 0, -- Order within the collection
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Consents can share a single collection instead of the whole vault
+ALTER TABLE consents ADD COLUMN IF NOT EXISTS collection_id VARCHAR REFERENCES collections(id) ON DELETE SET NULL;
+
+-- Create indexes for collection lists, collection contents and the vault collection filter
+CREATE INDEX IF NOT EXISTS idx_collections_user_id ON collections(user_id, position);
+CREATE INDEX IF NOT EXISTS idx_collection_items_collection_id ON collection_items(collection_id, position);
+CREATE INDEX IF NOT EXISTS idx_collection_items_document_id ON collection_items(document_id);
+CREATE INDEX IF NOT EXISTS idx_collection_items_medication_id ON collection_items(medication_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collection_items_unique_document ON collection_items(collection_id, document_id) WHERE document_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collection_items_unique_medication ON collection_items(collection_id, medication_id) WHERE medication_id IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_items ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only view their own collections
+CREATE POLICY "Users can view own collections"
+  ON collections FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+CREATE POLICY "Users can view own collection items"
+  ON collection_items FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+-- Note: Collections are created and edited by the server using the service role key, which bypasses RLS
@@ -0,0 +1,30 @@
+-- Create data_exports table
+-- Tracks full vault export jobs (ZIP archive of every document file plus a JSON manifest).
+-- Archives are stored encrypted in file storage and deleted once they expire.
+CREATE TABLE IF NOT EXISTS data_exports (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued', -- 'queued' | 'running' | 'done' | 'failed'
+  file_url TEXT, -- Stored archive reference, set when done
+  file_size INTEGER, -- Archive size in bytes
+  document_count INTEGER, -- Number of documents in the archive
+  error TEXT, -- Error message if the export failed
+  expires_at TIMESTAMP, -- Archive is deleted after this
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for listing a user's exports and purging expired archives
+CREATE INDEX IF NOT EXISTS idx_data_exports_user_id ON data_exports(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_data_exports_expires_at ON data_exports(expires_at) WHERE expires_at IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE data_exports ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only view their own exports
+CREATE POLICY "Users can view own data exports"
+  ON data_exports FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+-- Note: Export jobs are created and updated by the server using the service role key, which bypasses RLS
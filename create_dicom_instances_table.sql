@@ -0,0 +1,40 @@
+-- Create dicom_instances table and link imaging documents to their DICOM study
+-- Every file of a study (one image per file) is stored separately; the study is a single document
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS study_instance_uid VARCHAR(64);
+
+-- Files of the same study uploaded later are added to the existing document
+CREATE INDEX IF NOT EXISTS idx_documents_user_study_uid ON documents(user_id, study_instance_uid);
+
+CREATE TABLE IF NOT EXISTS dicom_instances (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  document_id VARCHAR NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  study_instance_uid VARCHAR(64) NOT NULL,
+  series_instance_uid VARCHAR(64) NOT NULL,
+  sop_instance_uid VARCHAR(64) NOT NULL, -- Unique per image
+  series_number INTEGER,
+  series_description TEXT, -- e.g. "T2 AXIAL"
+  instance_number INTEGER, -- Position of the image in its series
+  modality VARCHAR(16), -- 'CT' | 'MR' | 'CR' | 'DX' | 'US' | ...
+  body_part TEXT, -- Body part examined
+  rows INTEGER,
+  columns INTEGER,
+  frame_count INTEGER NOT NULL DEFAULT 1,
+  file_url TEXT NOT NULL, -- Stored (encrypted) .dcm file
+  file_size INTEGER,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for page order within a study and re-upload checks
+CREATE INDEX IF NOT EXISTS idx_dicom_instances_document_id ON dicom_instances(document_id, series_number, instance_number);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dicom_instances_document_sop_uid ON dicom_instances(document_id, sop_instance_uid);
+
+-- Enable Row Level Security
+ALTER TABLE dicom_instances ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only view their own DICOM instances
+CREATE POLICY "Users can view own dicom instances"
+  ON dicom_instances FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+-- Note: Instances are created by the server using the service role key, which bypasses RLS
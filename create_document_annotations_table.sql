@@ -0,0 +1,33 @@
+-- Create document_annotations table
+-- Personal notes on a document; a note can be pinned to a highlighted region of one page
+CREATE TABLE IF NOT EXISTS document_annotations (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  document_id VARCHAR NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  page INTEGER, -- 1-based page of the highlight, NULL for a note about the whole document
+  region_x DOUBLE PRECISION, -- Highlight position and size as fractions (0-1) of the page image
+  region_y DOUBLE PRECISION,
+  region_width DOUBLE PRECISION,
+  region_height DOUBLE PRECISION,
+  color VARCHAR(20) NOT NULL DEFAULT 'yellow', -- 'yellow' | 'red' | 'green' | 'blue'
+  note TEXT, -- e.g. 'Ask doctor about this'
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Consents can include the user's notes and highlights with the shared documents
+ALTER TABLE consents ADD COLUMN IF NOT EXISTS include_annotations BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Create indexes for per-document listings and note search across a user's vault
+CREATE INDEX IF NOT EXISTS idx_document_annotations_document_id ON document_annotations(document_id, page);
+CREATE INDEX IF NOT EXISTS idx_document_annotations_user_id ON document_annotations(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE document_annotations ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only view their own annotations
+CREATE POLICY "Users can view own document annotations"
+  ON document_annotations FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+-- Note: Annotations are created and edited by the server using the service role key, which bypasses RLS
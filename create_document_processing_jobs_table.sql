@@ -0,0 +1,32 @@
+-- Create document_processing_jobs table
+-- Persistent queue for OCR, embedding and insight generation after upload
+CREATE TABLE IF NOT EXISTS document_processing_jobs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id VARCHAR NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued', -- 'queued' | 'running' | 'failed' | 'done'
+  stage VARCHAR(20), -- 'ocr' | 'validation' | 'embedding' | 'medications' | 'insight'
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  last_error TEXT,
+  run_at TIMESTAMP NOT NULL DEFAULT NOW(), -- Earliest time the job may run (retry backoff)
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_document_processing_jobs_document_id ON document_processing_jobs(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_processing_jobs_user_id ON document_processing_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_document_processing_jobs_due ON document_processing_jobs(run_at, status) WHERE status = 'queued';
+
+-- Enable Row Level Security
+ALTER TABLE document_processing_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users can view processing status of their own documents
+CREATE POLICY "Users can view their own processing jobs"
+  ON document_processing_jobs FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+-- Note: Jobs are created and updated by the server using the service role key, which bypasses RLS
@@ -0,0 +1,27 @@
+-- Create document_redactions table
+-- A copy of a document with personal details (address, phone number, unrelated results) blacked out.
+-- Consent shares serve this copy instead of the original file.
+CREATE TABLE IF NOT EXISTS document_redactions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  document_id VARCHAR NOT NULL UNIQUE REFERENCES documents(id) ON DELETE CASCADE, -- One redaction per document
+  regions TEXT NOT NULL, -- JSON array of { page, x, y, width, height, label, source }; fractions (0-1) of the page image
+  file_url TEXT NOT NULL, -- Stored (encrypted) redacted file with pages flattened to images
+  file_type VARCHAR(20) NOT NULL, -- 'PDF' | 'JPG'
+  source_content_hash VARCHAR(64), -- Content hash of the redacted file; differs from the document's once a new version is uploaded
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create index for listing a user's redacted documents
+CREATE INDEX IF NOT EXISTS idx_document_redactions_user_id ON document_redactions(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE document_redactions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only view their own redactions
+CREATE POLICY "Users can view own document redactions"
+  ON document_redactions FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+-- Note: Redactions are created and replaced by the server using the service role key, which bypasses RLS
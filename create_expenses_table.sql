@@ -0,0 +1,53 @@
+-- Create expenses table
+-- Medical expenses parsed from billing documents (or added by the user), used for
+-- Section 80D deduction claims and employer reimbursement statements
+CREATE TABLE IF NOT EXISTS expenses (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  document_id VARCHAR REFERENCES documents(id) ON DELETE SET NULL, -- Source bill, null for manual entries
+  payee TEXT NOT NULL, -- Hospital, pharmacy, lab or insurer that was paid
+  description TEXT,
+  category VARCHAR(30) NOT NULL DEFAULT 'other', -- 'consultation' | 'diagnostics' | 'medicines' | 'hospitalization' | 'insurance_premium' | 'preventive_checkup' | 'other'
+  amount DOUBLE PRECISION NOT NULL, -- Total paid, including GST
+  gst_amount DOUBLE PRECISION, -- GST included in the amount
+  currency VARCHAR(3) NOT NULL DEFAULT 'INR',
+  payer TEXT, -- Who paid or was billed
+  payment_date TIMESTAMP NOT NULL,
+  invoice_number TEXT,
+  reimbursement_status VARCHAR(20) NOT NULL DEFAULT 'none', -- 'none' | 'claimed' | 'reimbursed'
+  notes TEXT,
+  source VARCHAR(20) NOT NULL, -- 'ai' | 'manual'
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for yearly/monthly totals and per-document lookups
+CREATE INDEX IF NOT EXISTS idx_expenses_user_payment_date ON expenses(user_id, payment_date DESC);
+CREATE INDEX IF NOT EXISTS idx_expenses_document_id ON expenses(document_id);
+
+-- Enable Row Level Security
+ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own expenses
+CREATE POLICY "Users can view their own expenses"
+  ON expenses FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+-- Users can insert their own expenses
+CREATE POLICY "Users can insert their own expenses"
+  ON expenses FOR INSERT
+  WITH CHECK (auth.uid()::text = user_id);
+
+-- Users can update their own expenses
+CREATE POLICY "Users can update their own expenses"
+  ON expenses FOR UPDATE
+  USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+-- Users can delete their own expenses
+CREATE POLICY "Users can delete their own expenses"
+  ON expenses FOR DELETE
+  USING (auth.uid()::text = user_id);
+
+-- Note: For server-side operations using service role key, RLS is bypassed
+-- These policies are for direct client access if needed
@@ -0,0 +1,51 @@
+-- Create health_tasks table
+-- Follow-up actions ("review after 2 weeks", "repeat lipid profile in 3 months") extracted from
+-- prescriptions and discharge summaries, or added by the user
+CREATE TABLE IF NOT EXISTS health_tasks (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  notes TEXT,
+  due_date TIMESTAMP, -- Nullable for tasks without a deadline
+  remind_at TIMESTAMP, -- When to send the reminder; null for no reminder
+  reminder_sent_at TIMESTAMP, -- Set when the reminder is sent, cleared when it is rescheduled
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending' | 'completed' | 'dismissed'
+  source VARCHAR(20) NOT NULL, -- 'document' | 'manual'
+  source_document_id VARCHAR REFERENCES documents(id) ON DELETE SET NULL,
+  source_text TEXT, -- Instruction the task was extracted from
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_health_tasks_user_id ON health_tasks(user_id);
+CREATE INDEX IF NOT EXISTS idx_health_tasks_source_document_id ON health_tasks(source_document_id);
+CREATE INDEX IF NOT EXISTS idx_health_tasks_due_reminders ON health_tasks(remind_at) WHERE status = 'pending' AND reminder_sent_at IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE health_tasks ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own tasks
+CREATE POLICY "Users can view their own health tasks"
+  ON health_tasks FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+-- Users can insert their own tasks
+CREATE POLICY "Users can insert their own health tasks"
+  ON health_tasks FOR INSERT
+  WITH CHECK (auth.uid()::text = user_id);
+
+-- Users can update their own tasks
+CREATE POLICY "Users can update their own health tasks"
+  ON health_tasks FOR UPDATE
+  USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+-- Users can delete their own tasks
+CREATE POLICY "Users can delete their own health tasks"
+  ON health_tasks FOR DELETE
+  USING (auth.uid()::text = user_id);
+
+-- Note: For server-side operations using service role key, RLS is bypassed
+-- These policies are for direct client access if needed
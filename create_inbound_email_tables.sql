@@ -0,0 +1,55 @@
+-- Create inbound_email_addresses and inbound_email_items tables
+-- Each user gets a private address (<token>@<inbound domain>); attachments mailed to it are imported
+-- as documents. Attachments from senders the user has not trusted wait in a review inbox.
+
+-- Inbound email addresses table (one per user)
+CREATE TABLE IF NOT EXISTS inbound_email_addresses (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE, -- Local part of the address; rotated to stop unwanted mail
+  trusted_senders TEXT NOT NULL DEFAULT '[]', -- JSON array of lowercase sender addresses
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Inbound email items table (one row per received attachment)
+CREATE TABLE IF NOT EXISTS inbound_email_items (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  sender TEXT NOT NULL, -- Lowercase From address (not authenticated)
+  sender_name TEXT, -- Display name from the From header
+  subject TEXT,
+  message_id TEXT, -- Message-ID header, used to ignore redelivered mail
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  file_size INTEGER NOT NULL, -- Bytes
+  file_url TEXT, -- Stored (encrypted) attachment, removed once imported or discarded
+  content_hash VARCHAR(64) NOT NULL, -- SHA-256 of the attachment
+  status VARCHAR(20) NOT NULL DEFAULT 'review', -- 'review' | 'queued' | 'imported' | 'skipped' | 'rejected' | 'failed'
+  document_id VARCHAR REFERENCES documents(id) ON DELETE SET NULL, -- Imported document (or the duplicate when skipped)
+  reason TEXT, -- Why the item was skipped, rejected or failed
+  processed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for listing a user's inbox and resuming queued imports
+CREATE INDEX IF NOT EXISTS idx_inbound_email_items_user_id ON inbound_email_items(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inbound_email_items_message_id ON inbound_email_items(user_id, message_id) WHERE message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_inbound_email_items_queued ON inbound_email_items(created_at) WHERE status = 'queued';
+
+-- Enable Row Level Security
+ALTER TABLE inbound_email_addresses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inbound_email_items ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own address
+CREATE POLICY "Users can view their own inbound email address"
+  ON inbound_email_addresses FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+-- Users can only see their own inbox
+CREATE POLICY "Users can view their own inbound email items"
+  ON inbound_email_items FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+-- Note: Addresses and items are created and updated by the server using the service role key, which bypasses RLS
@@ -0,0 +1,34 @@
+-- Create lab_observations table
+-- Structured lab results (one row per analyte) parsed from lab reports, editable by the user
+CREATE TABLE IF NOT EXISTS lab_observations (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  document_id VARCHAR NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  analyte TEXT NOT NULL, -- Test name as printed
+  value TEXT NOT NULL, -- Result as printed, e.g. "13.2", "<0.5", "Negative"
+  numeric_value DOUBLE PRECISION, -- Parsed number, null for qualitative results
+  unit TEXT,
+  reference_range TEXT, -- As printed, e.g. "13.0 - 17.0"
+  reference_low DOUBLE PRECISION,
+  reference_high DOUBLE PRECISION,
+  abnormal_flag VARCHAR(10), -- 'normal' | 'low' | 'high' | 'abnormal'
+  specimen_date TIMESTAMP, -- When the sample was collected
+  position INTEGER NOT NULL DEFAULT 0, -- Order of the row in the report
+  source VARCHAR(20) NOT NULL, -- 'ai' | 'manual'
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for document detail and per-user trend queries
+CREATE INDEX IF NOT EXISTS idx_lab_observations_document_id ON lab_observations(document_id, position);
+CREATE INDEX IF NOT EXISTS idx_lab_observations_user_id ON lab_observations(user_id, analyte);
+
+-- Enable Row Level Security
+ALTER TABLE lab_observations ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only view their own observations
+CREATE POLICY "Users can view own lab observations"
+  ON lab_observations FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+-- Note: Observations are created and edited by the server using the service role key, which bypasses RLS
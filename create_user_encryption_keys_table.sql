@@ -0,0 +1,19 @@
+-- Create user_encryption_keys table
+-- Per-user data keys for envelope encryption of vault files at rest.
+-- Keys are stored wrapped (encrypted) by the server master key; the master key itself is never stored.
+CREATE TABLE IF NOT EXISTS user_encryption_keys (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL, -- Data key encrypted with the master key (base64)
+  master_key_id VARCHAR(16) NOT NULL, -- Fingerprint of the master key that wrapped it
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  rotated_at TIMESTAMP
+);
+
+-- Create index for master key rotation
+CREATE INDEX IF NOT EXISTS idx_user_encryption_keys_master_key_id ON user_encryption_keys(master_key_id);
+
+-- Enable Row Level Security (no policies: keys are only ever read by the server)
+ALTER TABLE user_encryption_keys ENABLE ROW LEVEL SECURITY;
+
+-- Note: Keys are created, read and re-wrapped by the server using the service role key, which bypasses RLS
@@ -3,6 +3,19 @@
  * Centralized configuration management for the Arogya Vault backend
  */
 
+/**
+ * A secret with a development default
+ * Throws in production instead, where the default would let anyone who has read this file
+ * decrypt what the secret protects.
+ */
+function requireSecret(value: string | undefined, name: string, devDefault: string): string {
+  if (value) return value;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(`${name} must be set in production`);
+  }
+  return devDefault;
+}
+
 export const config = {
   // OTP Configuration
   otp: {
@@ -84,15 +97,109 @@ export const config = {
     },
   },
 
+  // Inbound Email Configuration
+  // Built-in SMTP listener that receives documents mailed to a user's private address (<token>@<domain>).
+  // Point the domain's MX record at this host, or send to the listener directly when developing.
+  inboundEmail: {
+    enabled: process.env.INBOUND_EMAIL_ENABLED === "true",
+    host: process.env.INBOUND_EMAIL_HOST || "0.0.0.0",
+    port: parseInt(process.env.INBOUND_EMAIL_PORT || "2525", 10),
+    domain: (process.env.INBOUND_EMAIL_DOMAIN || "inbox.localhost").toLowerCase(),
+    maxMessageSize: parseInt(process.env.INBOUND_EMAIL_MAX_MESSAGE_SIZE || String(50 * 1024 * 1024), 10), // Bytes
+  },
+
   // Push Notification Configuration (VAPID)
   push: {
     publicKey: process.env.VAPID_PUBLIC_KEY || "",
     privateKey: process.env.VAPID_PRIVATE_KEY || "",
     subject: process.env.VAPID_SUBJECT || "mailto:team@arogyavault.me", // Contact email for VAPID
   },
+
+  // Document Processing Queue Configuration
+  processing: {
+    maxAttempts: parseInt(process.env.PROCESSING_MAX_ATTEMPTS || "3", 10),
+    backoffBaseMs: parseInt(process.env.PROCESSING_BACKOFF_MS || "30000", 10), // Doubles on each retry
+    batchSize: 5, // Jobs picked up per poll
+  },
+
+  // Trash Bin Configuration
+  trash: {
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || "30", 10), // Trashed documents are purged after this
+    purgeSchedule: process.env.TRASH_PURGE_SCHEDULE || "0 3 * * *", // Cron expression (daily at 03:00)
+  },
+
+  // Data Export Configuration
+  dataExport: {
+    retentionHours: parseInt(process.env.EXPORT_RETENTION_HOURS || "48", 10), // Archives are deleted after this
+    maxArchiveSize: parseInt(process.env.EXPORT_MAX_ARCHIVE_SIZE || String(500 * 1024 * 1024), 10), // Bytes of files; the archive is built in memory
+  },
+
+  // Page Preview Configuration
+  // PDF pages and images are rendered to JPEG on first request and cached (encrypted) in file storage
+  preview: {
+    thumbnailWidth: parseInt(process.env.PREVIEW_THUMBNAIL_WIDTH || "320", 10), // Pixels
+    pageWidth: parseInt(process.env.PREVIEW_PAGE_WIDTH || "1600", 10), // Pixels
+    maxConcurrentRenders: parseInt(process.env.PREVIEW_MAX_CONCURRENT_RENDERS || "2", 10), // Rendering is CPU heavy
+  },
+
+  // File Storage Configuration
+  // Defaults to Supabase Storage when Supabase is configured, otherwise to local disk
+  storage: {
+    driver: (process.env.STORAGE_DRIVER || (process.env.SUPABASE_URL ? "supabase" : "local")) as "local" | "supabase" | "s3",
+    local: {
+      directory: process.env.LOCAL_STORAGE_DIR || "uploads", // Relative to the working directory
+    },
+    s3: {
+      endpoint: process.env.S3_ENDPOINT || "", // e.g. http://localhost:9000 for MinIO; empty for AWS
+      region: process.env.S3_REGION || "us-east-1",
+      bucket: process.env.S3_BUCKET || "arogya-vault-documents",
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true", // Required by MinIO
+    },
+  },
+
+  // AI Provider Configuration
+  // OCR, metadata extraction, insights, embeddings and the chatbot go through one provider:
+  // "openai" (the OpenAI API), "local" (any OpenAI-compatible server such as Ollama or llama.cpp, so
+  // medical text never leaves the machine) or "mock" (deterministic canned output for development).
+  // AI features are switched off when the chosen provider isn't configured.
+  ai: {
+    provider: (process.env.AI_PROVIDER || "openai") as "openai" | "local" | "mock",
+    maxPdfPages: parseInt(process.env.AI_MAX_PDF_PAGES || "10", 10), // Pages read when a provider can't take whole PDFs
+    openai: {
+      apiKey: process.env.OPENAI_API_KEY || "",
+      chatModel: process.env.OPENAI_CHAT_MODEL || "gpt-4o", // Chatbot and vision OCR
+      fastModel: process.env.OPENAI_FAST_MODEL || "gpt-4o-mini", // Structured extraction and insights
+      embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small",
+    },
+    local: {
+      baseUrl: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1", // Ollama's default
+      apiKey: process.env.LOCAL_LLM_API_KEY || "local", // Most local servers ignore it
+      chatModel: process.env.LOCAL_LLM_CHAT_MODEL || "llama3.1",
+      fastModel: process.env.LOCAL_LLM_FAST_MODEL || process.env.LOCAL_LLM_CHAT_MODEL || "llama3.1",
+      visionModel: process.env.LOCAL_LLM_VISION_MODEL || "llama3.2-vision", // Empty to turn off image OCR
+      embeddingModel: process.env.LOCAL_LLM_EMBEDDING_MODEL || "nomic-embed-text",
+      timeoutMs: parseInt(process.env.LOCAL_LLM_TIMEOUT_MS || "300000", 10), // Local models can be slow on CPU
+    },
+  },
+
+  // File Encryption Configuration (envelope encryption at rest)
+  // Each user's files are encrypted with their own data key; data keys are wrapped by the master key.
+  // To rotate: move the old key to ENCRYPTION_PREVIOUS_MASTER_KEYS, set the new one and run `npm run keys:rotate`
+  encryption: {
+    enabled: process.env.FILE_ENCRYPTION !== "false",
+    // Only required when files are encrypted; the default still opens files written in development
+    masterKey: process.env.FILE_ENCRYPTION !== "false"
+      ? requireSecret(process.env.ENCRYPTION_MASTER_KEY, "ENCRYPTION_MASTER_KEY", "dev-master-key-change-in-production")
+      : process.env.ENCRYPTION_MASTER_KEY || "dev-master-key-change-in-production",
+    previousMasterKeys: (process.env.ENCRYPTION_PREVIOUS_MASTER_KEYS || "").split(",").map((key) => key.trim()).filter(Boolean),
+  },
 } as const;
 
 // Type exports for configuration
 export type Config = typeof config;
 export type SMSProvider = typeof config.sms.provider;
+export type StorageDriverName = typeof config.storage.driver;
+export type LLMProviderName = typeof config.ai.provider;
 
@@ -9,16 +9,15 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { config } from "./config";
 import { reminderScheduler } from "./services/reminderScheduler";
-import * as path from "path";
+import { documentProcessingQueue } from "./services/documentProcessingQueue";
+import { trashPurgeScheduler } from "./services/trashPurgeScheduler";
+import { inboundEmailServer } from "./services/inboundEmailServer";
 
 const { Pool } = pg;
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
-// Serve uploaded files
-app.use("/uploads", express.static(path.join(process.cwd(), "uploads")));
-
 // Session middleware with PostgreSQL store
 // Railway uses a proxy, so we need to trust the proxy for secure cookies
 const isProduction = process.env.NODE_ENV === "production";
@@ -209,12 +208,28 @@ app.use((req, res, next) => {
     
     // Start reminder scheduler
     reminderScheduler.start();
+
+    // Start document processing queue
+    documentProcessingQueue.start();
+
+    // Start trash purge scheduler
+    trashPurgeScheduler.start();
+
+    // Start inbound email listener (documents mailed to users' private addresses)
+    if (config.inboundEmail.enabled) {
+      inboundEmailServer.start().catch((error) => {
+        log(`⚠️  Failed to start inbound email listener: ${error.message}`);
+      });
+    }
   });
 
   // Graceful shutdown
   process.on('SIGTERM', () => {
     log('SIGTERM received, shutting down gracefully...');
     reminderScheduler.stop();
+    documentProcessingQueue.stop();
+    trashPurgeScheduler.stop();
+    inboundEmailServer.stop();
     server.close(() => {
       log('Server closed');
       process.exit(0);
@@ -224,6 +239,9 @@ app.use((req, res, next) => {
   process.on('SIGINT', () => {
     log('SIGINT received, shutting down gracefully...');
     reminderScheduler.stop();
+    documentProcessingQueue.stop();
+    trashPurgeScheduler.stop();
+    inboundEmailServer.stop();
     server.close(() => {
       log('Server closed');
       process.exit(0);
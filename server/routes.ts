@@ -14,6 +14,10 @@ import nomineeRoutes from "./routes/nominees";
 import medicationRoutes from "./routes/medications";
 import pushNotificationRoutes from "./routes/pushNotifications";
 import chatbotRoutes from "./routes/chatbot";
+import collectionRoutes from "./routes/collections";
+import taskRoutes from "./routes/tasks";
+import inboxRoutes from "./routes/inbox";
+import expenseRoutes from "./routes/expenses";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Register API routes
@@ -52,6 +56,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Medication routes (requires authentication)
   app.use("/api/medications", medicationRoutes);
 
+  // Collection routes (requires authentication)
+  app.use("/api/collections", collectionRoutes);
+
+  // Health task routes (requires authentication)
+  app.use("/api/tasks", taskRoutes);
+
+  // Email inbox routes (requires authentication)
+  app.use("/api/inbox", inboxRoutes);
+
+  // Medical expense routes (requires authentication)
+  app.use("/api/expenses", expenseRoutes);
+
   // Push notification routes (requires authentication)
   app.use("/api/push", pushNotificationRoutes);
 
@@ -9,7 +9,7 @@ import { storage } from "../storage";
 import { requireAuth } from "../middleware/auth";
 import { validate } from "../middleware/validation";
 import { buildUserContext, formatUserContext } from "../services/chatbotContextService";
-import { OpenAIService } from "../services/openaiService";
+import { AIService } from "../services/aiService";
 
 const router = Router();
 
@@ -165,7 +165,7 @@ router.post("/conversations/:id/messages", requireAuth, validate(sendMessageSche
     // The userMessage parameter will be added separately in generateChatbotResponse
     let assistantResponse: string;
     try {
-      assistantResponse = await OpenAIService.generateChatbotResponse(
+      assistantResponse = await AIService.generateChatbotResponse(
         message,
         conversationHistory,
         formattedContext,
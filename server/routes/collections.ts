@@ -0,0 +1,327 @@
+/**
+ * Collection Routes
+ * Handles user-defined collections of documents, medications and notes, and their ordering
+ */
+
+import { Router, type Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { type Collection } from "@shared/schema";
+import { storage } from "../storage";
+import { requireAuth } from "../middleware/auth";
+import { validate } from "../middleware/validation";
+import {
+  COLLECTION_ITEM_TYPES,
+  CollectionError,
+  addCollectionItem,
+  createCollection,
+  deleteCollection,
+  getCollectionEntries,
+  reorderCollectionItems,
+  reorderCollections,
+  serializeCollection,
+} from "../services/collectionService";
+
+const router = Router();
+
+// Validation schemas
+const createCollectionSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be less than 100 characters"),
+  description: z.string().max(500, "Description must be less than 500 characters").nullable().optional(),
+  color: z.string().max(20).nullable().optional(),
+});
+
+const updateCollectionSchema = createCollectionSchema.partial();
+
+const createItemSchema = z
+  .object({
+    itemType: z.enum(COLLECTION_ITEM_TYPES),
+    documentId: z.string().optional(),
+    medicationId: z.string().optional(),
+    note: z.string().max(2000, "Note must be less than 2000 characters").optional(),
+  })
+  .refine(
+    (item) =>
+      (item.itemType === "document" && !!item.documentId) ||
+      (item.itemType === "medication" && !!item.medicationId) ||
+      (item.itemType === "note" && !!item.note?.trim()),
+    { message: "documentId, medicationId or note is required for the item type" }
+  );
+
+const updateItemSchema = z.object({
+  note: z.string().trim().min(1, "Note text is required").max(2000, "Note must be less than 2000 characters"),
+});
+
+const orderSchema = z.object({
+  ids: z.array(z.string()),
+});
+
+/**
+ * Load a collection owned by the current user, or send 404/403
+ */
+async function getOwnedCollection(req: Request, res: Response): Promise<Collection | null> {
+  const collection = await storage.getCollection(req.params.id);
+
+  if (!collection) {
+    res.status(404).json({
+      success: false,
+      message: "Collection not found",
+    });
+    return null;
+  }
+
+  // Verify collection belongs to user
+  if (collection.userId !== req.userId) {
+    res.status(403).json({
+      success: false,
+      message: "Access denied",
+    });
+    return null;
+  }
+
+  return collection;
+}
+
+/**
+ * GET /api/collections
+ * List the current user's collections in their saved order, with entry counts
+ */
+router.get("/", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const collections = await storage.getCollections(req.userId!);
+
+    const formatted = [];
+    for (const collection of collections) {
+      formatted.push(serializeCollection(collection, await getCollectionEntries(collection)));
+    }
+
+    res.json({
+      success: true,
+      collections: formatted,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/collections
+ * Create a collection at the end of the list
+ */
+router.post("/", requireAuth, validate(createCollectionSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const collection = await createCollection(req.userId!, req.body);
+
+    res.status(201).json({
+      success: true,
+      message: "Collection created",
+      collection: serializeCollection(collection, []),
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/collections/order
+ * Reorder collections - body lists every collection id in the new order
+ */
+router.put("/order", requireAuth, validate(orderSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const collections = await reorderCollections(req.userId!, req.body.ids);
+
+    res.json({
+      success: true,
+      collections: collections.map((collection) => ({ id: collection.id, position: collection.position })),
+    });
+  } catch (error: any) {
+    if (error instanceof CollectionError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    next(error);
+  }
+});
+
+/**
+ * GET /api/collections/:id
+ * Get a collection with its documents, medications and notes in order
+ */
+router.get("/:id", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const collection = await getOwnedCollection(req, res);
+    if (!collection) return;
+
+    const entries = await getCollectionEntries(collection);
+
+    res.json({
+      success: true,
+      collection: serializeCollection(collection, entries),
+      items: entries,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/collections/:id
+ * Rename a collection or change its description or color
+ */
+router.patch("/:id", requireAuth, validate(updateCollectionSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const collection = await getOwnedCollection(req, res);
+    if (!collection) return;
+
+    const updated = await storage.updateCollection(collection.id, req.body);
+
+    res.json({
+      success: true,
+      message: "Collection updated",
+      collection: serializeCollection(updated, await getCollectionEntries(updated)),
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/collections/:id
+ * Delete a collection - its documents and medications stay in the vault
+ */
+router.delete("/:id", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const collection = await getOwnedCollection(req, res);
+    if (!collection) return;
+
+    await deleteCollection(collection);
+
+    res.json({
+      success: true,
+      message: "Collection deleted",
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/collections/:id/items
+ * Add a document, medication or note to a collection
+ */
+router.post("/:id/items", requireAuth, validate(createItemSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const collection = await getOwnedCollection(req, res);
+    if (!collection) return;
+
+    const item = await addCollectionItem(collection, req.body);
+
+    res.status(201).json({
+      success: true,
+      message: "Added to collection",
+      item,
+    });
+  } catch (error: any) {
+    if (error instanceof CollectionError) {
+      return res.status(error.message.includes("already") ? 409 : 400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/collections/:id/items/order
+ * Reorder the items of a collection - body lists every item id in the new order
+ * MUST be defined before /:id/items/:itemId to avoid route conflicts
+ */
+router.put("/:id/items/order", requireAuth, validate(orderSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const collection = await getOwnedCollection(req, res);
+    if (!collection) return;
+
+    const items = await reorderCollectionItems(collection, req.body.ids);
+
+    res.json({
+      success: true,
+      items: items.map((item) => ({ id: item.id, position: item.position })),
+    });
+  } catch (error: any) {
+    if (error instanceof CollectionError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/collections/:id/items/:itemId
+ * Edit the text of a note
+ */
+router.patch("/:id/items/:itemId", requireAuth, validate(updateItemSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const collection = await getOwnedCollection(req, res);
+    if (!collection) return;
+
+    const item = await storage.getCollectionItem(req.params.itemId);
+    if (!item || item.collectionId !== collection.id) {
+      return res.status(404).json({
+        success: false,
+        message: "Collection item not found",
+      });
+    }
+
+    if (item.itemType !== "note") {
+      return res.status(400).json({
+        success: false,
+        message: "Only notes can be edited",
+      });
+    }
+
+    const updated = await storage.updateCollectionItem(item.id, { note: req.body.note });
+
+    res.json({
+      success: true,
+      message: "Note updated",
+      item: updated,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/collections/:id/items/:itemId
+ * Remove an item from a collection (the document or medication itself is kept)
+ */
+router.delete("/:id/items/:itemId", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const collection = await getOwnedCollection(req, res);
+    if (!collection) return;
+
+    const item = await storage.getCollectionItem(req.params.itemId);
+    if (!item || item.collectionId !== collection.id) {
+      return res.status(404).json({
+        success: false,
+        message: "Collection item not found",
+      });
+    }
+
+    await storage.deleteCollectionItem(item.id);
+
+    res.json({
+      success: true,
+      message: "Removed from collection",
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+export default router;
@@ -10,6 +10,11 @@ import { requireAuth } from "../middleware/auth";
 import { validate } from "../middleware/validation";
 import QRCode from "qrcode";
 import { getFullURL } from "../utils/urlHelper";
+import { FileStorageService } from "../services/fileStorage";
+import { sendDocumentFile } from "../utils/documentFile";
+import { getCollectionEntries, isDocumentInCollection } from "../services/collectionService";
+import { serializeAnnotation } from "../services/documentAnnotationService";
+import { getRedactedFileDocument, isRedactionCurrent } from "../services/redactionService";
 
 const router = Router();
 
@@ -18,6 +23,8 @@ const createConsentSchema = z.object({
   recipientName: z.string().min(1, "Recipient name is required"),
   recipientRole: z.enum(["doctor", "lab", "insurance", "family", "other"]),
   scopes: z.array(z.enum(["documents", "emergency", "insights", "timeline"])).min(1, "At least one scope is required"),
+  collectionId: z.string().optional(), // Share only this collection instead of the whole vault
+  includeAnnotations: z.boolean().optional(), // Share the user's notes and highlights with the documents
   durationType: z.enum(["24h", "7d", "custom"]),
   customExpiryDate: z.string().optional(), // ISO date string
   purpose: z.string().min(1, "Purpose is required"),
@@ -45,11 +52,23 @@ router.post(
         recipientName,
         recipientRole,
         scopes,
+        collectionId,
+        includeAnnotations,
         durationType,
         customExpiryDate,
         purpose,
       } = req.body;
 
+      if (collectionId) {
+        const collection = await storage.getCollection(collectionId);
+        if (!collection || collection.userId !== userId) {
+          return res.status(404).json({
+            success: false,
+            message: "Collection not found",
+          });
+        }
+      }
+
       // Parse custom expiry date if provided
       let customExpiry: Date | undefined;
       if (durationType === "custom" && customExpiryDate) {
@@ -74,6 +93,8 @@ router.post(
         recipientName,
         recipientRole,
         scopes,
+        collectionId,
+        includeAnnotations,
         durationType,
         customExpiryDate: customExpiry,
         purpose,
@@ -87,6 +108,8 @@ router.post(
           recipientName,
           recipientRole,
           scopes,
+          collectionId,
+          includeAnnotations: includeAnnotations ?? false,
           durationType,
         },
       });
@@ -272,8 +295,8 @@ router.get("/:id/audit", requireAuth, async (req: Request, res: Response, next:
 });
 
 /**
- * GET /api/consents/share/:token/documents/:documentId/file
- * Public endpoint to get document file for a shared consent
+ * GET /api/consents/share/:token/documents/:documentId/file?raw=
+ * Public endpoint to get document file for a shared consent (raw=1 sends the decrypted file)
  * MUST be defined before /share/:token to avoid route conflicts
  */
 router.get("/share/:token/documents/:documentId/file", async (req: Request, res: Response, next: NextFunction) => {
@@ -309,7 +332,8 @@ router.get("/share/:token/documents/:documentId/file", async (req: Request, res:
     // Get document
     const document = await storage.getDocument(documentId);
 
-    if (!document) {
+    // Trashed documents disappear from shares immediately
+    if (!document || document.deletedAt) {
       return res.status(404).json({
         success: false,
         message: "Document not found",
@@ -324,25 +348,40 @@ router.get("/share/:token/documents/:documentId/file", async (req: Request, res:
       });
     }
 
-    // Get file URL (similar to documents route)
-    // Import SupabaseStorageService for file access
-    const { SupabaseStorageService } = await import("../services/supabaseStorage");
-    
-    if (document.fileUrl && document.fileUrl.includes("documents/")) {
-      // Generate signed URL
-      const signedUrl = await SupabaseStorageService.createSignedUrl(document.fileUrl, 3600);
-      
-      res.json({
-        success: true,
-        url: signedUrl,
-        expiresIn: 3600,
+    // Collection shares only reach the documents in that collection
+    if (consent.collectionId && !(await isDocumentInCollection(consent.collectionId, document.id))) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied",
+      });
+    }
+
+    // A redacted document is only ever shared as its redacted copy - never fall back to the original
+    const redaction = await storage.getDocumentRedaction(document.id);
+    if (redaction && !isRedactionCurrent(document, redaction)) {
+      return res.status(409).json({
+        success: false,
+        message: "This document changed after it was redacted and is unavailable until it is redacted again",
       });
-    } else {
-      res.status(404).json({
+    }
+    const file = redaction ? getRedactedFileDocument(document, redaction) : document;
+
+    if (!file.fileUrl || !(await FileStorageService.fileExists(file.fileUrl))) {
+      return res.status(404).json({
         success: false,
         message: "File not found",
       });
     }
+
+    // raw=1 sends the decrypted file; otherwise return the URL to load it from (similar to documents route)
+    if (req.query.raw) {
+      return await sendDocumentFile(res, file);
+    }
+
+    res.json({
+      success: true,
+      url: `/api/consents/share/${token}/documents/${documentId}/file?raw=1`,
+    });
   } catch (error: any) {
     console.error("[Consents] Error fetching shared document file:", error);
     next(error);
@@ -382,32 +421,62 @@ router.get("/share/:token/documents", async (req: Request, res: Response, next:
       });
     }
 
-    // Get user's documents
-    const documents = await storage.getDocumentsByUserId(consent.userId);
+    // Get user's documents (only the shared collection's, if the consent is limited to one)
+    const documents = await storage.getDocumentsByUserId(
+      consent.userId,
+      consent.collectionId ? { collectionId: consent.collectionId } : undefined
+    );
 
     // Filter documents based on scopes
     const scopes = JSON.parse(consent.scopes) as string[];
+    const canViewRecords = scopes.includes("documents") || scopes.includes("timeline");
     let accessibleDocuments = documents;
 
     // If scopes don't include 'documents' or 'timeline', return empty
-    if (!scopes.includes("documents") && !scopes.includes("timeline")) {
+    if (!canViewRecords) {
       accessibleDocuments = [];
     }
 
     // Return documents without sensitive info
-    const sanitizedDocuments = accessibleDocuments.map((doc) => ({
-      id: doc.id,
-      title: doc.title,
-      type: doc.type,
-      provider: doc.provider,
-      date: doc.date,
-      fileType: doc.fileType,
-      createdAt: doc.createdAt,
-    }));
+    const sanitizedDocuments = [];
+    for (const doc of accessibleDocuments) {
+      const redaction = await storage.getDocumentRedaction(doc.id);
+      sanitizedDocuments.push({
+        id: doc.id,
+        title: doc.title,
+        type: doc.type,
+        provider: doc.provider,
+        date: doc.date,
+        fileType: redaction ? redaction.fileType : doc.fileType, // Type of the file actually served
+        redacted: !!redaction,
+        createdAt: doc.createdAt,
+        // Personal notes and highlights only travel with the documents when the user opted in,
+        // and never with a redacted copy - they could quote or point at what was blacked out
+        ...(consent.includeAnnotations && !redaction && {
+          annotations: (await storage.getDocumentAnnotations(doc.id)).map(serializeAnnotation),
+        }),
+      });
+    }
+
+    // Collection shares also carry the collection's medications and notes
+    const collection = consent.collectionId ? await storage.getCollection(consent.collectionId) : undefined;
+    const collectionEntries = collection && canViewRecords ? await getCollectionEntries(collection) : [];
 
     res.json({
       success: true,
       documents: sanitizedDocuments,
+      collection: collection
+        ? {
+            name: collection.name,
+            description: collection.description,
+            medications: collectionEntries
+              .filter((entry) => entry.medication)
+              .map((entry) => entry.medication),
+            notes: collectionEntries
+              .filter((entry) => entry.itemType === "note")
+              .map((entry) => ({ id: entry.id, note: entry.note, createdAt: entry.createdAt })),
+          }
+        : null,
     });
   } catch (error: any) {
     console.error("[Consents] Error fetching shared documents:", error);
@@ -467,6 +536,8 @@ router.get("/share/:token", async (req: Request, res: Response, next: NextFuncti
       },
     });
 
+    const collection = consent.collectionId ? await storage.getCollection(consent.collectionId) : undefined;
+
     // Return consent without sensitive user info
     res.json({
       success: true,
@@ -475,6 +546,8 @@ router.get("/share/:token", async (req: Request, res: Response, next: NextFuncti
         recipientName: consent.recipientName,
         recipientRole: consent.recipientRole,
         scopes: JSON.parse(consent.scopes),
+        collectionName: collection?.name ?? null,
+        includeAnnotations: consent.includeAnnotations,
         purpose: consent.purpose,
         expiresAt: consent.expiresAt,
         createdAt: consent.createdAt,
@@ -12,9 +12,71 @@ import { randomUUID } from "crypto";
 import * as fs from "fs/promises";
 import * as path from "path";
 import multer from "multer";
-import { SupabaseStorageService } from "../services/supabaseStorage";
-import { OpenAIService, type ExtractedMetadata } from "../services/openaiService";
-import { generateDefaultTiming, generateReminders } from "../services/medicationService";
+import { FileStorageService } from "../services/fileStorage";
+import { sendDocumentFile } from "../utils/documentFile";
+import { AIService, type ExtractedMetadata } from "../services/aiService";
+import { documentProcessingQueue } from "../services/documentProcessingQueue";
+import { searchDocuments } from "../services/documentSearchService";
+import { extractZipEntries, isZipArchive, type ArchiveEntry } from "../services/archiveService";
+import {
+  diffText,
+  getFileTypeLabel,
+  getVersionHistory,
+  hasActiveProcessing,
+  restoreDocumentVersion,
+  uploadDocumentVersion,
+} from "../services/documentVersionService";
+import {
+  computeContentHash,
+  findExactDuplicates,
+  findSimilarDocumentsForText,
+  serializeDuplicateMatch,
+} from "../services/duplicateDetectionService";
+import { moveToTrash, restoreFromTrash, purgeDocument, getPurgeDate } from "../services/documentTrashService";
+import {
+  buildObservationFields,
+  extractObservationsFromDocument,
+  isAbnormalFlag,
+  serializeObservation,
+} from "../services/labObservationService";
+import {
+  PREVIEW_SIZES,
+  getDocumentPageCount,
+  getDocumentPagePreview,
+  isPreviewSupported,
+  type PreviewSize,
+} from "../services/documentPreviewService";
+import {
+  DicomError,
+  describeDicomStudies,
+  getStudyInstances,
+  importDicomFiles,
+  isDicomFile,
+  serializeDicomStudy,
+  DICOM_MIME_TYPE,
+} from "../services/dicomService";
+import { ANNOTATION_COLORS, serializeAnnotation, toRegionFields } from "../services/documentAnnotationService";
+import { mergeOfflineEdit, type DocumentEdit, type SyncConflict } from "../services/offlineSyncService";
+import {
+  REDACTION_LABELS,
+  RedactionError,
+  deleteRedaction,
+  getRedactedFileDocument,
+  isRedactionCurrent,
+  isRedactionSupported,
+  saveRedaction,
+  serializeRedaction,
+  suggestRedactions,
+} from "../services/redactionService";
+import {
+  DOCUMENT_SORT_FIELDS,
+  decodeDocumentCursor,
+  encodeDocumentCursor,
+  type DocumentListCursor,
+  type DocumentListFilters,
+} from "../utils/documentList";
+import { config } from "../config";
+import { type Document, type DocumentVersion } from "@shared/schema";
 
 const router = Router();
 
@@ -53,7 +115,7 @@ const upload = multer({
     fileSize: 50 * 1024 * 1024, // 50MB max file size
   },
   fileFilter: (req, file, cb) => {
-    // Allow PDF, images, DOCX, and ZIP files
+    // Allow PDF, images, DOCX, ZIP and DICOM files
     const allowedMimes = [
       'application/pdf',
       'image/jpeg',
@@ -63,12 +125,14 @@ const upload = multer({
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // DOCX
       'application/zip',
       'application/x-zip-compressed',
+      'application/dicom',
     ];
     
-    if (allowedMimes.includes(file.mimetype)) {
+    // Browsers rarely know the DICOM mime type - .dcm files arrive as application/octet-stream
+    if (allowedMimes.includes(file.mimetype) || path.extname(file.originalname).toLowerCase() === '.dcm') {
       cb(null, true);
     } else {
-      cb(new Error(`File type ${file.mimetype} not allowed. Allowed types: PDF, JPG, PNG, DOCX, ZIP`));
+      cb(new Error(`File type ${file.mimetype} not allowed. Allowed types: PDF, JPG, PNG, DOCX, ZIP, DICOM`));
     }
   },
 });
@@ -108,20 +172,91 @@ router.post(
       console.log("[Documents] Reading file buffer...");
       const fileBuffer = await fs.readFile(req.file.path);
       console.log("[Documents] File buffer read, size:", fileBuffer.length);
-      const fileType = req.file.mimetype.includes('pdf') ? 'PDF' :
-                      req.file.mimetype.includes('image') ? 'IMAGE' :
-                      req.file.mimetype.includes('word') ? 'DOCX' :
-                      req.file.mimetype.includes('zip') ? 'ZIP' : 'OTHER';
+      const fileType = getFileTypeLabel(req.file.mimetype);
 
       // Clean up local file
       await fs.unlink(req.file.path).catch(() => {});
 
-      // Check if OpenAI API key is configured
-      if (!process.env.OPENAI_API_KEY) {
-        console.warn("[Documents] OpenAI API key not configured, skipping AI processing");
+      // ZIP archives are validated per file at upload time - just list what will be imported
+      if (fileType === 'ZIP') {
+        try {
+          const { entries, skipped } = await extractZipEntries(fileBuffer);
+          const dicomEntries = entries.filter((entry) => entry.mimeType === DICOM_MIME_TYPE);
+          return res.json({
+            success: true,
+            isValid: entries.length > 0,
+            isArchive: true,
+            extractedText: "",
+            metadata: { tags: [] },
+            archive: {
+              files: entries.map((entry) => ({ fileName: entry.fileName, size: entry.size })),
+              skipped,
+              // Imaging CDs - each study becomes one document
+              studies: dicomEntries.length > 0 ? describeDicomStudies(dicomEntries).studies : [],
+            },
+            ...(entries.length === 0 && { message: "The archive does not contain any supported files (PDF, JPG, PNG, DOCX, DICOM)" }),
+          });
+        } catch (archiveError: any) {
+          return res.status(400).json({
+            success: false,
+            message: archiveError.message,
+            validationError: true,
+          });
+        }
+      }
+
+      // DICOM images carry their own study details - no OCR or medical validation needed
+      if (isDicomFile(fileBuffer)) {
+        const { studies, failed } = describeDicomStudies([{ fileName: req.file.originalname, buffer: fileBuffer }]);
+        const study = studies[0];
+        if (!study) {
+          return res.status(400).json({
+            success: false,
+            message: failed[0]?.reason || "This DICOM file does not contain an image",
+            validationError: true,
+          });
+        }
+        return res.json({
+          success: true,
+          isValid: true,
+          extractedText: "",
+          metadata: {
+            title: study.title,
+            provider: study.provider || undefined,
+            date: study.date ? study.date.toISOString().split("T")[0] : undefined,
+            documentType: "imaging",
+            tags: study.tags,
+          },
+          dicom: study,
+        });
+      }
+
+      // Exact re-upload of a file already in the vault - reuse its details instead of re-running OCR
+      const exactDuplicates = await findExactDuplicates(req.userId!, computeContentHash(fileBuffer));
+      if (exactDuplicates.length > 0) {
+        const existing = exactDuplicates[0].document;
+        console.log(`[Documents] Analyzed file is an exact duplicate of document ${existing.id}`);
+        return res.json({
+          success: true,
+          isValid: true,
+          extractedText: (existing.extractedText || "").substring(0, 1000),
+          metadata: {
+            title: existing.title,
+            provider: existing.provider || undefined,
+            date: existing.date ? existing.date.toISOString().split("T")[0] : undefined,
+            documentType: existing.type,
+            tags: existing.tags ? JSON.parse(existing.tags) : [],
+          },
+          duplicates: exactDuplicates.map(serializeDuplicateMatch),
+        });
+      }
+
+      // Check if an AI provider is configured
+      if (!AIService.isConfigured()) {
+        console.warn("[Documents] AI provider not configured, skipping AI processing");
         return res.status(500).json({
           success: false,
-          message: "AI processing is not configured. Please set OPENAI_API_KEY environment variable.",
+          message: "AI processing is not configured. Please set OPENAI_API_KEY, or AI_PROVIDER=local to use a local model.",
           validationError: false,
         });
       }
@@ -130,7 +265,7 @@ router.post(
       console.log("[Documents] Starting OCR extraction...");
       let extractedText = "";
       try {
-        const ocrResult = await OpenAIService.processDocument(
+        const ocrResult = await AIService.processDocument(
           fileBuffer,
           fileType,
           req.file.mimetype
@@ -144,7 +279,7 @@ router.post(
 
       // Validate if document is medical-related
       console.log("[Documents] Starting medical validation...");
-      const validation = await OpenAIService.validateMedicalDocument(
+      const validation = await AIService.validateMedicalDocument(
         extractedText,
         fileBuffer,
         req.file.mimetype
@@ -165,7 +300,7 @@ router.post(
       let metadata: ExtractedMetadata = {};
       if (extractedText && extractedText.trim().length > 0) {
         try {
-          metadata = await OpenAIService.extractMetadata(extractedText);
+          metadata = await AIService.extractMetadata(extractedText);
           console.log("[Documents] Metadata extracted:", metadata);
         } catch (metadataError: any) {
           console.error("[Documents] Metadata extraction failed:", metadataError);
@@ -175,6 +310,12 @@ router.post(
         console.log("[Documents] No extracted text, skipping metadata extraction");
       }
 
+      // Near-duplicates: the same report re-scanned or forwarded from another app
+      const duplicates = await findSimilarDocumentsForText(req.userId!, extractedText, metadata);
+      if (duplicates.length > 0) {
+        console.log(`[Documents] Found ${duplicates.length} possible duplicate(s) of analyzed file`);
+      }
+
       console.log("[Documents] Sending success response with metadata");
       const responseData = {
         success: true,
@@ -187,6 +328,7 @@ router.post(
           documentType: metadata.documentType || undefined,
           tags: metadata.tags || [],
         },
+        duplicates: duplicates.map(serializeDuplicateMatch),
       };
       console.log("[Documents] Response data:", JSON.stringify(responseData, null, 2));
       res.status(200).setHeader('Content-Type', 'application/json').json(responseData);
@@ -207,21 +349,100 @@ router.use(requireAuth);
 
 /**
  * GET /api/documents
- * Get all documents for the current user
+ * List the current user's documents, a page at a time, without their extracted text
+ * Query params: ?type=&search=&collectionId=&provider=&tag=&from=&to=&ocrProcessed=true|false
+ *   &sort=date|createdAt|title&order=desc|asc&limit=1-100&cursor=&facets=true
+ * Pages hold 50 documents unless a limit is given. nextCursor fetches the next page with the
+ * same filters and sort; facets=true adds document counts per type and provider.
  */
+const listQueryDate = z.string().refine(
+  (val) => /^\d{4}-\d{2}-\d{2}(T[\d:.]+Z?)?$/.test(val) && !isNaN(Date.parse(val)),
+  { message: "Invalid date format" }
+);
+
+const listQuerySchema = z.object({
+  type: z.string().optional(),
+  search: z.string().trim().max(500).optional(),
+  collectionId: z.string().optional(),
+  provider: z.string().max(200).optional(),
+  tag: z.string().trim().max(100).optional(),
+  from: listQueryDate.optional(),
+  to: listQueryDate.optional(), // A date without a time includes that whole day
+  ocrProcessed: z.enum(["true", "false"]).optional(),
+  sort: z.enum(DOCUMENT_SORT_FIELDS).default("date"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: z.string().max(1000).optional(),
+  facets: z.enum(["true", "false"]).optional(),
+});
+
 router.get("/", async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { type, search } = req.query;
-    const filters: { type?: string; search?: string } = {};
-    
-    if (type && typeof type === "string") {
-      filters.type = type;
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: parsed.error.errors[0]?.message || "Invalid query",
+      });
+    }
+
+    const query = parsed.data;
+    let cursor: DocumentListCursor | null = null;
+    if (query.cursor) {
+      cursor = decodeDocumentCursor(query.cursor, query.sort);
+      if (!cursor) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid cursor",
+        });
+      }
+    }
+
+    let to: Date | undefined;
+    if (query.to) {
+      to = new Date(query.to);
+      if (query.to.length === 10) to.setUTCDate(to.getUTCDate() + 1);
     }
-    if (search && typeof search === "string") {
-      filters.search = search;
+
+    // Only the user's own documents are listed, so a foreign collection id simply matches nothing
+    const filters: DocumentListFilters = {
+      type: query.type || undefined,
+      search: query.search || undefined,
+      collectionId: query.collectionId || undefined,
+      provider: query.provider || undefined,
+      tag: query.tag || undefined,
+      from: query.from ? new Date(query.from) : undefined,
+      to,
+      ocrProcessed: query.ocrProcessed === undefined ? undefined : query.ocrProcessed === "true",
+    };
+
+    const [page, facets] = await Promise.all([
+      storage.listDocuments(req.userId!, {
+        ...filters,
+        sort: query.sort,
+        order: query.order,
+        limit: query.limit,
+        cursor,
+      }),
+      query.facets === "true" ? storage.getDocumentFacets(req.userId!, filters) : undefined,
+    ]);
+    const documents = page.documents;
+
+    // Latest unfinished job per document, so the client knows which documents are still processing
+    const processingJobs = await storage.getProcessingJobsByUserId(req.userId!, ["queued", "running", "failed"]);
+    const latestJobByDocument = new Map<string, (typeof processingJobs)[number]>();
+    for (const job of processingJobs) {
+      if (!latestJobByDocument.has(job.documentId)) {
+        latestJobByDocument.set(job.documentId, job);
+      }
     }
 
-    const documents = await storage.getDocumentsByUserId(req.userId!, filters);
+    const getProcessingStatus = (doc: (typeof documents)[number]) => {
+      const job = latestJobByDocument.get(doc.id);
+      if (job && (job.status === "queued" || job.status === "running")) return job.status;
+      if (doc.ocrProcessed) return "done";
+      return job?.status ?? null;
+    };
 
     // Format response - include AI analysis fields
     const formatted = documents.map((doc) => ({
@@ -232,12 +453,13 @@ router.get("/", async (req: Request, res: Response, next: NextFunction) => {
       date: doc.date,
       fileType: doc.fileType,
       fileSize: doc.fileSize,
+      pageCount: doc.pageCount ?? null,
       tags: doc.tags ? JSON.parse(doc.tags) : [],
       syncStatus: doc.syncStatus,
       // Include AI analysis fields
-      extractedText: doc.extractedText || null,
       ocrProcessed: doc.ocrProcessed || false,
       ocrProcessedAt: doc.ocrProcessedAt || null,
+      processingStatus: getProcessingStatus(doc),
       aiInsight: doc.aiInsight ? JSON.parse(doc.aiInsight) : null,
       aiInsightGeneratedAt: doc.aiInsightGeneratedAt || null,
       createdAt: doc.createdAt,
@@ -247,7 +469,216 @@ router.get("/", async (req: Request, res: Response, next: NextFunction) => {
     res.json({
       success: true,
       documents: formatted,
-      total: formatted.length,
+      total: page.total,
+      nextCursor: page.nextCursor ? encodeDocumentCursor(page.nextCursor, query.sort) : null,
+      ...(facets ? { facets } : {}),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/documents/search
+ * Semantic + keyword search across the current user's documents
+ * Query params: q (required), type, limit
+ */
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(500),
+  type: z.enum(["prescription", "lab", "imaging", "billing"]).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+router.get("/search", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = searchQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: parsed.error.errors[0]?.message || "Invalid search query",
+      });
+    }
+
+    const { q, type, limit } = parsed.data;
+    const results = await searchDocuments(req.userId!, q, { type, limit });
+
+    res.json({
+      success: true,
+      query: q,
+      results: results.map(({ document: doc, score, matchedTerms, snippets }) => ({
+        id: doc.id,
+        title: doc.title,
+        type: doc.type,
+        provider: doc.provider,
+        date: doc.date,
+        fileType: doc.fileType,
+        tags: doc.tags ? JSON.parse(doc.tags) : [],
+        createdAt: doc.createdAt,
+        score: Math.round(score * 1000) / 1000,
+        matchedTerms,
+        snippets,
+      })),
+      total: results.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Format a trashed document for API responses
+ */
+function serializeTrashedDocument(doc: Document) {
+  return {
+    id: doc.id,
+    title: doc.title,
+    type: doc.type,
+    provider: doc.provider,
+    date: doc.date,
+    fileType: doc.fileType,
+    fileSize: doc.fileSize,
+    tags: doc.tags ? JSON.parse(doc.tags) : [],
+    deletedAt: doc.deletedAt,
+    purgeAt: getPurgeDate(doc),
+    createdAt: doc.createdAt,
+  };
+}
+
+/**
+ * GET /api/documents/trash
+ * Get the current user's trashed documents, most recently deleted first
+ */
+router.get("/trash", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const documents = await storage.getTrashedDocuments(req.userId!);
+
+    res.json({
+      success: true,
+      documents: documents.map(serializeTrashedDocument),
+      total: documents.length,
+      retentionDays: config.trash.retentionDays,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/documents/redactions
+ * List the current user's redacted documents (used when choosing what to share)
+ */
+router.get("/redactions", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const redactions = await storage.getDocumentRedactionsByUserId(req.userId!);
+
+    const documents = [];
+    for (const redaction of redactions) {
+      const document = await storage.getDocument(redaction.documentId);
+      if (!document || document.deletedAt) continue;
+      documents.push({
+        documentId: document.id,
+        updatedAt: redaction.updatedAt,
+        outdated: !isRedactionCurrent(document, redaction),
+      });
+    }
+
+    res.json({
+      success: true,
+      redactions: documents,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/documents/trash
+ * Empty the trash - permanently delete all trashed documents and their files
+ */
+router.delete("/trash", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const documents = await storage.getTrashedDocuments(req.userId!);
+    for (const document of documents) {
+      await purgeDocument(document);
+    }
+
+    res.json({
+      success: true,
+      message: `${documents.length} document(s) permanently deleted`,
+      purged: documents.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/documents/trash/:id
+ * Permanently delete a trashed document and its files
+ */
+router.delete("/trash/:id", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const document = await storage.getDocument(id);
+
+    if (!document || !document.deletedAt) {
+      return res.status(404).json({
+        success: false,
+        message: "Document not found in trash",
+      });
+    }
+
+    if (document.userId !== req.userId) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied",
+      });
+    }
+
+    await purgeDocument(document);
+
+    res.json({
+      success: true,
+      message: "Document permanently deleted",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/documents/trash/:id/restore
+ * Restore a trashed document to the vault
+ */
+router.post("/trash/:id/restore", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const document = await storage.getDocument(id);
+
+    if (!document || !document.deletedAt) {
+      return res.status(404).json({
+        success: false,
+        message: "Document not found in trash",
+      });
+    }
+
+    if (document.userId !== req.userId) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied",
+      });
+    }
+
+    const restored = await restoreFromTrash(document);
+
+    res.json({
+      success: true,
+      message: "Document restored",
+      document: {
+        id: restored.id,
+        title: restored.title,
+        type: restored.type,
+      },
     });
   } catch (error) {
     next(error);
@@ -263,7 +694,7 @@ router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
     const { id } = req.params;
     const document = await storage.getDocument(id);
 
-    if (!document) {
+    if (!document || document.deletedAt) {
       return res.status(404).json({
         success: false,
         message: "Document not found",
@@ -280,6 +711,7 @@ router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
 
     // Get versions
     const versions = await storage.getDocumentVersions(id);
+    const studyImages = document.studyInstanceUid ? await getStudyInstances(document) : [];
 
     res.json({
       success: true,
@@ -292,6 +724,7 @@ router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
         fileUrl: document.fileUrl,
         fileType: document.fileType,
         fileSize: document.fileSize,
+        pageCount: document.pageCount ?? null,
         tags: document.tags ? JSON.parse(document.tags) : [],
         syncStatus: document.syncStatus,
         extractedText: document.extractedText,
@@ -303,9 +736,12 @@ router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
         versions: versions.map((v) => ({
           id: v.id,
           version: v.version,
+          fileType: v.fileType,
+          fileSize: v.fileSize,
           note: v.note,
           createdAt: v.createdAt,
         })),
+        dicom: document.studyInstanceUid ? serializeDicomStudy(document, studyImages) : null,
       },
     });
   } catch (error) {
@@ -325,10 +761,134 @@ const createDocumentSchema = z.object({
   tags: z.array(z.string()).optional(),
 });
 
+/**
+ * Per-file outcome when a ZIP archive is expanded into documents
+ */
+interface ArchiveImportResult {
+  fileName: string;
+  status: "created" | "skipped" | "rejected";
+  reason?: string;
+  document?: {
+    id: string;
+    title: string;
+    type: string;
+    provider: string | null;
+    date: Date | null;
+  };
+  processing?: { jobId: string; status: string }; // Background OCR job for a created document
+}
+
+/**
+ * Create a vault document from a single archive entry
+ * Each entry is stored like a direct upload and queued for the same background
+ * pipeline, so a large archive never holds the request open for model calls. The job is an
+ * auto import: the pipeline replaces the file name and default type with the extracted
+ * metadata, and moves the document to the trash (job status "rejected") if it is not medical.
+ */
+async function importArchiveEntry(
+  userId: string,
+  entry: ArchiveEntry,
+  defaults: { type: string; provider?: string; date?: string; tags: string[] }
+): Promise<ArchiveImportResult> {
+  // Exact duplicates (already in the vault or earlier in the same archive) are skipped
+  const contentHash = computeContentHash(entry.buffer);
+  const [duplicate] = await findExactDuplicates(userId, contentHash);
+  if (duplicate) {
+    return {
+      fileName: entry.fileName,
+      status: "skipped",
+      reason: `Already in your vault as "${duplicate.document.title}"`,
+    };
+  }
+
+  const uploadedUrl = await FileStorageService.uploadFile(
+    entry.buffer,
+    userId,
+    path.basename(entry.fileName),
+    entry.mimeType
+  );
+
+  const document = await storage.createDocument({
+    userId,
+    title: path.basename(entry.fileName, path.extname(entry.fileName)),
+    type: defaults.type,
+    provider: defaults.provider || null,
+    date: defaults.date && !isNaN(new Date(defaults.date).getTime()) ? new Date(defaults.date) : null,
+    fileUrl: uploadedUrl,
+    fileType: getFileTypeLabel(entry.mimeType),
+    fileSize: entry.size,
+    contentHash,
+    tags: defaults.tags.length > 0 ? JSON.stringify(defaults.tags) : null,
+    syncStatus: "synced",
+    extractedText: null,
+    embedding: null,
+    ocrProcessed: false,
+    ocrProcessedAt: null,
+  });
+
+  const processingJob = await documentProcessingQueue.enqueue(document.id, userId, { autoImport: true });
+
+  console.log(`[Documents] Created document ${document.id} from archive entry ${entry.fileName}`);
+
+  return {
+    fileName: entry.fileName,
+    status: "created",
+    document: {
+      id: document.id,
+      title: document.title,
+      type: document.type,
+      provider: document.provider,
+      date: document.date,
+    },
+    processing: { jobId: processingJob.id, status: processingJob.status },
+  };
+}
+
+/**
+ * Import the DICOM files of an archive - one result per study rather than per file
+ */
+async function importArchiveDicomEntries(
+  userId: string,
+  entries: ArchiveEntry[],
+  defaults: { provider?: string; date?: string; tags: string[] }
+): Promise<ArchiveImportResult[]> {
+  const { studies, failed } = await importDicomFiles(
+    userId,
+    entries.map((entry) => ({ fileName: entry.fileName, buffer: entry.buffer })),
+    defaults
+  );
+
+  return [
+    ...studies.map(({ document, created, added, skipped }): ArchiveImportResult => ({
+      fileName: `${document.title} (${added + skipped} images)`,
+      status: added > 0 ? "created" : "skipped",
+      reason:
+        added === 0
+          ? "Already in your vault"
+          : created
+            ? undefined
+            : `Added ${added} image(s) to the study already in your vault`,
+      document: {
+        id: document.id,
+        title: document.title,
+        type: document.type,
+        provider: document.provider,
+        date: document.date,
+      },
+    })),
+    ...failed.map((file): ArchiveImportResult => ({
+      fileName: file.fileName,
+      status: "rejected",
+      reason: file.reason,
+    })),
+  ];
+}
+
 /**
  * POST /api/documents
  * Create a new document (with optional file upload)
  * Supports both JSON (with fileUrl) and multipart/form-data (with file)
+ * Uploaded files are processed in the background - the response returns ocrProcessed=false
  */
 router.post(
   "/",
@@ -352,129 +912,283 @@ router.post(
         });
       }
 
+      // Offline captures are retried until the app sees a response, so a replayed upload
+      // returns the document the first attempt created instead of a copy
+      const clientId = typeof req.body.clientId === "string" && req.body.clientId ? req.body.clientId : null;
+      if (clientId && clientId.length > 64) {
+        return res.status(400).json({
+          success: false,
+          message: "clientId must be at most 64 characters",
+        });
+      }
+      if (clientId) {
+        const synced = await storage.getDocumentByClientId(req.userId!, clientId);
+        if (synced) {
+          if (req.file) await fs.unlink(req.file.path).catch(() => {});
+          return res.json({
+            success: true,
+            skipped: true,
+            message: "This capture was already uploaded",
+            document: {
+              id: synced.id,
+              title: synced.title,
+              type: synced.type,
+              provider: synced.provider,
+              date: synced.date,
+              fileType: synced.fileType,
+              createdAt: synced.createdAt,
+            },
+          });
+        }
+      }
+
       // Handle file upload if present
       let finalFileUrl = fileUrl;
       let finalFileType = fileType || "PDF";
       let finalFileSize = fileSize ? parseInt(fileSize) : null;
 
-      // Variables for OCR processing
-      let extractedText = "";
-      let embedding = "";
-      let ocrProcessed = false;
-      let ocrProcessedAt: Date | null = null;
+      // ZIP archives are expanded into one document per supported file
+      if (req.file && isZipArchive(req.file.mimetype, req.file.originalname)) {
+        const archiveBuffer = await fs.readFile(req.file.path);
+        await fs.unlink(req.file.path).catch(() => {});
 
-      if (req.file) {
+        let extracted: Awaited<ReturnType<typeof extractZipEntries>>;
         try {
-          // Upload file to Supabase Storage
-          const fileBuffer = await fs.readFile(req.file.path);
-          const uploadedUrl = await SupabaseStorageService.uploadFile(
-            fileBuffer,
+          extracted = await extractZipEntries(archiveBuffer);
+        } catch (archiveError: any) {
+          return res.status(400).json({
+            success: false,
+            message: archiveError.message,
+          });
+        }
+
+        const results: ArchiveImportResult[] = extracted.skipped.map((entry) => ({
+          fileName: entry.fileName,
+          status: "skipped" as const,
+          reason: entry.reason,
+        }));
+
+        const dicomEntries = extracted.entries.filter((entry) => entry.mimeType === DICOM_MIME_TYPE);
+        if (dicomEntries.length > 0) {
+          results.push(...(await importArchiveDicomEntries(req.userId!, dicomEntries, { provider, date, tags })));
+        }
+
+        for (const entry of extracted.entries.filter((e) => e.mimeType !== DICOM_MIME_TYPE)) {
+          try {
+            results.push(await importArchiveEntry(req.userId!, entry, { type, provider, date, tags }));
+          } catch (entryError: any) {
+            console.error(`[Documents] Failed to import archive entry ${entry.fileName}:`, entryError);
+            results.push({
+              fileName: entry.fileName,
+              status: "rejected",
+              reason: entryError.message || "Failed to process file",
+            });
+          }
+        }
+
+        const summary = {
+          total: results.length,
+          created: results.filter((r) => r.status === "created").length,
+          skipped: results.filter((r) => r.status === "skipped").length,
+          rejected: results.filter((r) => r.status === "rejected").length,
+        };
+
+        console.log(`[Documents] Archive ${req.file.originalname} processed:`, summary);
+
+        return res.status(summary.created > 0 ? 201 : 400).json({
+          success: summary.created > 0,
+          message: summary.created > 0
+            ? `Created ${summary.created} of ${summary.total} document(s) from ${req.file.originalname}`
+            : `No documents could be created from ${req.file.originalname}`,
+          archive: {
+            fileName: req.file.originalname,
+            summary,
+            results,
+          },
+        });
+      }
+
+      // Exact re-uploads are rejected with 409 unless the client chose what to do with the
+      // duplicate: "skip" it, "replace" the existing document (duplicateOf) with a new version,
+      // or "keep" both. Near-duplicates need OCR text, so they are reported by /analyze.
+      let fileBuffer: Buffer | null = null;
+      let contentHash: string | null = null;
+      if (req.file) {
+        // Local copy is only needed until it is read - storage upload works from the buffer
+        fileBuffer = await fs.readFile(req.file.path);
+        await fs.unlink(req.file.path).catch(() => {});
+        contentHash = computeContentHash(fileBuffer);
+
+        // DICOM images join the imaging document of their study (created on the first upload)
+        if (isDicomFile(fileBuffer)) {
+          const { studies, failed } = await importDicomFiles(
             req.userId!,
-            req.file.originalname,
-            req.file.mimetype
+            [{ fileName: req.file.originalname, buffer: fileBuffer }],
+            { provider, date, tags }
           );
-          
-          // Clean up local file after upload
-          await fs.unlink(req.file.path).catch(() => {
-            // Ignore errors if file doesn't exist
+          const study = studies[0];
+          if (!study) {
+            return res.status(400).json({
+              success: false,
+              message: failed[0]?.reason || "This DICOM file does not contain an image",
+            });
+          }
+
+          return res.status(study.created ? 201 : 200).json({
+            success: true,
+            skipped: study.added === 0,
+            message: study.created
+              ? `Created imaging study "${study.document.title}"`
+              : study.added > 0
+                ? `Added to the imaging study "${study.document.title}"`
+                : `This image is already in "${study.document.title}"`,
+            document: {
+              id: study.document.id,
+              title: study.document.title,
+              type: study.document.type,
+              provider: study.document.provider,
+              date: study.document.date,
+              fileType: study.document.fileType,
+              fileSize: study.document.fileSize,
+              pageCount: study.document.pageCount,
+              tags: study.document.tags ? JSON.parse(study.document.tags) : [],
+              ocrProcessed: study.document.ocrProcessed,
+              createdAt: study.document.createdAt,
+            },
+            dicom: { added: study.added, skipped: study.skipped },
+            processing: null,
           });
+        }
 
-          finalFileUrl = uploadedUrl;
-          finalFileType = req.file.mimetype.includes('pdf') ? 'PDF' :
-                         req.file.mimetype.includes('image') ? 'IMAGE' :
-                         req.file.mimetype.includes('word') ? 'DOCX' :
-                         req.file.mimetype.includes('zip') ? 'ZIP' : 'OTHER';
-          finalFileSize = req.file.size;
-          console.log(`[Documents] File uploaded to Supabase Storage: ${req.file.originalname} (${req.file.size} bytes) -> ${uploadedUrl}`);
+        const duplicateAction = req.body.duplicateAction as string | undefined;
+        const duplicateOf = req.body.duplicateOf as string | undefined;
 
-          // FIRST: Validate if document is medical-related (before processing)
-          // This is critical - we need to validate even if OCR fails
-          console.log(`[Documents] Validating if document is medical-related (before OCR)`);
-          let validation: { isValid: boolean; reason: string };
-          
-          try {
-            // Try to extract text first for better validation
-            let tempExtractedText = "";
-            try {
-              const tempOcrResult = await OpenAIService.processDocument(
-                fileBuffer,
-                finalFileType,
-                req.file.mimetype
-              );
-              tempExtractedText = tempOcrResult.extractedText;
-            } catch (tempOcrError) {
-              console.log("[Documents] OCR failed during validation, will use image analysis");
-            }
-
-            // Validate using extracted text or image analysis
-            validation = await OpenAIService.validateMedicalDocument(
-              tempExtractedText,
-              fileBuffer,
-              req.file.mimetype
-            );
-
-            if (!validation.isValid) {
-              // Document is not medical - delete uploaded file and return error
-              console.log(`[Documents] Document validation FAILED: ${validation.reason}`);
-              
-              // Delete uploaded file from Supabase Storage
-              try {
-                await SupabaseStorageService.deleteFile(uploadedUrl);
-                console.log(`[Documents] Deleted non-medical file from Supabase: ${uploadedUrl}`);
-              } catch (deleteError) {
-                console.error("[Documents] Failed to delete non-medical file:", deleteError);
-              }
-
-              return res.status(400).json({
-                success: false,
-                message: `This document does not appear to be a medical document. ${validation.reason}. Please upload only medical documents such as lab reports, prescriptions, medical imaging reports, or doctor's notes.`,
-                validationError: true,
-              });
-            }
-
-            console.log(`[Documents] Document validation PASSED: ${validation.reason}`);
-          } catch (validationError: any) {
-            // If validation itself fails, we should block the upload to be safe
-            console.error("[Documents] Medical validation error:", validationError);
-            
-            // Delete uploaded file as a safety measure
-            try {
-              await SupabaseStorageService.deleteFile(uploadedUrl);
-              console.log(`[Documents] Deleted file due to validation error: ${uploadedUrl}`);
-            } catch (deleteError) {
-              console.error("[Documents] Failed to delete file:", deleteError);
-            }
-
-            return res.status(500).json({
+        if (duplicateAction && !["skip", "replace", "keep"].includes(duplicateAction)) {
+          return res.status(400).json({
+            success: false,
+            message: "duplicateAction must be one of: skip, replace, keep",
+          });
+        }
+
+        if (!duplicateAction) {
+          const exactDuplicates = await findExactDuplicates(req.userId!, contentHash);
+          // Nobody is there to answer for a queued offline capture - it resolves to the copy already in the vault
+          if (exactDuplicates.length > 0 && clientId) {
+            const existing = exactDuplicates[0].document;
+            return res.json({
+              success: true,
+              skipped: true,
+              message: "Upload skipped - the document is already in your vault",
+              document: {
+                id: existing.id,
+                title: existing.title,
+                type: existing.type,
+                provider: existing.provider,
+                date: existing.date,
+                fileType: existing.fileType,
+                createdAt: existing.createdAt,
+              },
+            });
+          }
+          if (exactDuplicates.length > 0) {
+            return res.status(409).json({
               success: false,
-              message: `Failed to validate document. Please ensure the file is a medical document and try again.`,
-              validationError: true,
+              message: "This file is already in your vault",
+              duplicates: exactDuplicates.map(serializeDuplicateMatch),
             });
           }
+        } else if (duplicateAction !== "keep") {
+          const existing = duplicateOf
+            ? await storage.getDocument(duplicateOf)
+            : (await findExactDuplicates(req.userId!, contentHash))[0]?.document;
 
-          // SECOND: Process document with OpenAI (OCR + embedding) if validation passed
-          try {
-            console.log(`[Documents] Starting OCR processing for ${req.file.originalname}`);
-            const ocrResult = await OpenAIService.processDocument(
-              fileBuffer,
-              finalFileType,
-              req.file.mimetype
-            );
-            extractedText = ocrResult.extractedText;
-            embedding = ocrResult.embedding;
-            ocrProcessed = true;
-            ocrProcessedAt = new Date();
-            console.log(`[Documents] OCR processing completed. Extracted ${extractedText.length} characters.`);
-          } catch (ocrError: any) {
-            // Don't block document creation if OCR fails (validation already passed)
-            console.error("[Documents] OCR processing failed:", ocrError);
-            console.log("[Documents] Continuing with document creation without OCR data");
-            ocrProcessed = false;
+          if (!existing || existing.deletedAt || existing.userId !== req.userId) {
+            return res.status(existing ? 403 : 404).json({
+              success: false,
+              message: existing ? "Access denied" : "Duplicate document not found",
+            });
+          }
+
+          if (duplicateAction === "skip") {
+            return res.json({
+              success: true,
+              skipped: true,
+              message: "Upload skipped - the document is already in your vault",
+              document: {
+                id: existing.id,
+                title: existing.title,
+                type: existing.type,
+                provider: existing.provider,
+                date: existing.date,
+                fileType: existing.fileType,
+                createdAt: existing.createdAt,
+              },
+            });
+          }
+
+          // "replace": the upload becomes the current version of the existing document
+          if (await hasActiveProcessing(existing.id)) {
+            return res.status(409).json({
+              success: false,
+              message: "The existing document is still being processed. Try again once processing finishes.",
+            });
           }
+
+          const result = await uploadDocumentVersion(
+            existing,
+            {
+              buffer: fileBuffer,
+              fileName: req.file.originalname,
+              mimeType: req.file.mimetype,
+              size: req.file.size,
+            },
+            "Replaced with a re-uploaded copy"
+          );
+
+          return res.status(201).json({
+            success: true,
+            message: `Saved as ${result.version.version} of "${existing.title}"`,
+            document: {
+              id: result.document.id,
+              title: result.document.title,
+              type: result.document.type,
+              provider: result.document.provider,
+              date: result.document.date,
+              fileUrl: result.document.fileUrl,
+              fileType: result.document.fileType,
+              fileSize: result.document.fileSize,
+              tags: result.document.tags ? JSON.parse(result.document.tags) : [],
+              ocrProcessed: result.document.ocrProcessed,
+              createdAt: result.document.createdAt,
+            },
+            version: {
+              id: result.version.id,
+              version: result.version.version,
+            },
+            processing: {
+              jobId: result.processingJob.id,
+              status: result.processingJob.status,
+            },
+          });
+        }
+      }
+
+      if (req.file && fileBuffer) {
+        try {
+          // Upload file to the configured storage backend
+          const uploadedUrl = await FileStorageService.uploadFile(
+            fileBuffer,
+            req.userId!,
+            req.file.originalname,
+            req.file.mimetype
+          );
+
+          finalFileUrl = uploadedUrl;
+          finalFileType = getFileTypeLabel(req.file.mimetype);
+          finalFileSize = req.file.size;
+          console.log(`[Documents] File uploaded to storage: ${req.file.originalname} (${req.file.size} bytes) -> ${uploadedUrl}`);
         } catch (uploadError: any) {
-          // Clean up local file on error
-          await fs.unlink(req.file.path).catch(() => {});
-          console.error("[Documents] Supabase Storage upload error:", uploadError);
+          console.error("[Documents] Storage upload error:", uploadError);
           return res.status(500).json({
             success: false,
             message: `Failed to upload file: ${uploadError.message}`,
@@ -494,107 +1208,21 @@ router.post(
         fileUrl: finalFileUrl,
         fileType: finalFileType,
         fileSize: finalFileSize,
+        contentHash,
+        clientId,
         tags: tags ? JSON.stringify(tags) : null,
         syncStatus: "synced",
-        extractedText: extractedText || null,
-        embedding: embedding || null,
-        ocrProcessed,
-        ocrProcessedAt: ocrProcessedAt || null,
+        extractedText: null,
+        embedding: null,
+        ocrProcessed: false,
+        ocrProcessedAt: null,
       });
 
-      // Extract medications from document if text is available
-      // Run medication extraction for all document types, but prioritize prescriptions
-      if (extractedText && extractedText.trim().length > 0) {
-        try {
-          // Always attempt medication extraction, but use appropriate document type
-          const documentTypeForExtraction = type === 'prescription' ? 'prescription' : type;
-          
-          console.log(`[Documents] Attempting medication extraction from ${documentTypeForExtraction} document`);
-          const extractedMedications = await OpenAIService.extractMedications(extractedText, documentTypeForExtraction);
-          
-          if (extractedMedications && extractedMedications.length > 0) {
-            console.log(`[Documents] Extracted ${extractedMedications.length} medication(s) from ${documentTypeForExtraction} document`);
-            
-            for (const med of extractedMedications) {
-              try {
-                // Generate timing if not provided
-                let timingArray = med.timing && Array.isArray(med.timing) && med.timing.length > 0
-                  ? med.timing.filter((t: any) => t && typeof t === 'string' && t.includes(':'))
-                  : generateDefaultTiming(med.frequency);
-                
-                // Ensure timingArray is valid and filter out any invalid times
-                timingArray = timingArray.filter((time: string) => {
-                  if (!time || typeof time !== 'string') return false;
-                  const parts = time.split(':');
-                  return parts.length === 2 && !isNaN(Number(parts[0])) && !isNaN(Number(parts[1]));
-                });
-                
-                // If after filtering we have no valid times, use default
-                if (timingArray.length === 0) {
-                  timingArray = generateDefaultTiming(med.frequency);
-                }
-                
-                // Parse end date if duration is provided
-                let endDate: Date | null = null;
-                if (med.duration) {
-                  // Try to parse duration (e.g., "7 days", "until 2024-12-31")
-                  const durationLower = med.duration.toLowerCase();
-                  if (durationLower.includes('day')) {
-                    const daysMatch = med.duration.match(/(\d+)\s*days?/i);
-                    if (daysMatch) {
-                      const days = parseInt(daysMatch[1]);
-                      endDate = new Date();
-                      endDate.setDate(endDate.getDate() + days);
-                    }
-                  } else if (durationLower.includes('until') || durationLower.includes('till')) {
-                    const dateMatch = med.duration.match(/(\d{4}-\d{2}-\d{2})/);
-                    if (dateMatch) {
-                      endDate = new Date(dateMatch[1]);
-                    }
-                  }
-                }
-                
-                // Create medication
-                const medication = await storage.createMedication({
-                  userId: req.userId!,
-                  name: med.name,
-                  dosage: med.dosage,
-                  frequency: med.frequency,
-                  timing: JSON.stringify(timingArray),
-                  startDate: new Date(),
-                  endDate: endDate,
-                  source: 'ai',
-                  sourceDocumentId: document.id,
-                  status: 'active',
-                  instructions: med.instructions || null,
-                });
-                
-                // Generate reminders
-                const reminders = generateReminders(medication);
-                for (const reminder of reminders) {
-                  await storage.createMedicationReminder({
-                    medicationId: medication.id,
-                    scheduledTime: reminder.scheduledTime,
-                    status: 'pending',
-                    sentAt: null,
-                  });
-                }
-                
-                console.log(`[Documents] Created medication ${medication.name} with ${reminders.length} reminders`);
-              } catch (medError: any) {
-                console.error(`[Documents] Failed to create medication ${med.name}:`, medError.message);
-                // Continue with other medications
-              }
-            }
-          } else {
-            console.log(`[Documents] No medications found in ${documentTypeForExtraction} document`);
-          }
-        } catch (medExtractionError: any) {
-          console.error("[Documents] Medication extraction failed:", medExtractionError.message);
-          // Don't fail document creation if medication extraction fails
-        }
-      } else {
-        console.log("[Documents] No extracted text available for medication extraction");
+      // OCR, validation, embedding, medication extraction and insights run in the background
+      // so a slow model call never blocks the upload. Poll GET /api/documents/:id/processing.
+      let processingJob = null;
+      if (req.file) {
+        processingJob = await documentProcessingQueue.enqueue(document.id, req.userId!);
       }
 
       res.status(201).json({
@@ -610,8 +1238,12 @@ router.post(
           fileType: document.fileType,
           fileSize: document.fileSize,
           tags: document.tags ? JSON.parse(document.tags) : [],
+          ocrProcessed: document.ocrProcessed,
           createdAt: document.createdAt,
         },
+        processing: processingJob
+          ? { jobId: processingJob.id, status: processingJob.status }
+          : null,
       });
     } catch (error) {
       next(error);
@@ -656,19 +1288,61 @@ router.post(
       console.log("[Documents] Reading file buffer...");
       const fileBuffer = await fs.readFile(req.file.path);
       console.log("[Documents] File buffer read, size:", fileBuffer.length);
-      const fileType = req.file.mimetype.includes('pdf') ? 'PDF' :
-                      req.file.mimetype.includes('image') ? 'IMAGE' :
-                      req.file.mimetype.includes('word') ? 'DOCX' :
-                      req.file.mimetype.includes('zip') ? 'ZIP' : 'OTHER';
+      const fileType = getFileTypeLabel(req.file.mimetype);
 
       // Clean up local file
       await fs.unlink(req.file.path).catch(() => {});
 
+      // ZIP archives are validated per file at upload time - just list what will be imported
+      if (fileType === 'ZIP') {
+        try {
+          const { entries, skipped } = await extractZipEntries(fileBuffer);
+          return res.json({
+            success: true,
+            isValid: entries.length > 0,
+            isArchive: true,
+            extractedText: "",
+            metadata: { tags: [] },
+            archive: {
+              files: entries.map((entry) => ({ fileName: entry.fileName, size: entry.size })),
+              skipped,
+            },
+            ...(entries.length === 0 && { message: "The archive does not contain any supported files (PDF, JPG, PNG, DOCX)" }),
+          });
+        } catch (archiveError: any) {
+          return res.status(400).json({
+            success: false,
+            message: archiveError.message,
+            validationError: true,
+          });
+        }
+      }
+
+      // Exact re-upload of a file already in the vault - reuse its details instead of re-running OCR
+      const exactDuplicates = await findExactDuplicates(req.userId!, computeContentHash(fileBuffer));
+      if (exactDuplicates.length > 0) {
+        const existing = exactDuplicates[0].document;
+        console.log(`[Documents] Analyzed file is an exact duplicate of document ${existing.id}`);
+        return res.json({
+          success: true,
+          isValid: true,
+          extractedText: (existing.extractedText || "").substring(0, 1000),
+          metadata: {
+            title: existing.title,
+            provider: existing.provider || undefined,
+            date: existing.date ? existing.date.toISOString().split("T")[0] : undefined,
+            documentType: existing.type,
+            tags: existing.tags ? JSON.parse(existing.tags) : [],
+          },
+          duplicates: exactDuplicates.map(serializeDuplicateMatch),
+        });
+      }
+
       // Extract text from document
       console.log("[Documents] Starting OCR extraction...");
       let extractedText = "";
       try {
-        const ocrResult = await OpenAIService.processDocument(
+        const ocrResult = await AIService.processDocument(
           fileBuffer,
           fileType,
           req.file.mimetype
@@ -682,7 +1356,7 @@ router.post(
 
       // Validate if document is medical-related
       console.log("[Documents] Starting medical validation...");
-      const validation = await OpenAIService.validateMedicalDocument(
+      const validation = await AIService.validateMedicalDocument(
         extractedText,
         fileBuffer,
         req.file.mimetype
@@ -703,7 +1377,7 @@ router.post(
       let metadata: ExtractedMetadata = {};
       if (extractedText && extractedText.trim().length > 0) {
         try {
-          metadata = await OpenAIService.extractMetadata(extractedText);
+          metadata = await AIService.extractMetadata(extractedText);
           console.log("[Documents] Metadata extracted:", metadata);
         } catch (metadataError: any) {
           console.error("[Documents] Metadata extraction failed:", metadataError);
@@ -713,6 +1387,12 @@ router.post(
         console.log("[Documents] No extracted text, skipping metadata extraction");
       }
 
+      // Near-duplicates: the same report re-scanned or forwarded from another app
+      const duplicates = await findSimilarDocumentsForText(req.userId!, extractedText, metadata);
+      if (duplicates.length > 0) {
+        console.log(`[Documents] Found ${duplicates.length} possible duplicate(s) of analyzed file`);
+      }
+
       console.log("[Documents] Sending success response with metadata");
       res.json({
         success: true,
@@ -725,6 +1405,7 @@ router.post(
           documentType: metadata.documentType || undefined,
           tags: metadata.tags || [],
         },
+        duplicates: duplicates.map(serializeDuplicateMatch),
       });
     } catch (error: any) {
       console.error("[Documents] Analyze error:", error);
@@ -741,14 +1422,22 @@ router.post(
 /**
  * PUT /api/documents/:id
  * Update a document
+ * Edits queued offline send baseUpdatedAt (and the values they started from) so changes made
+ * on the server in the meantime are merged instead of overwritten
  */
-const updateDocumentSchema = z.object({
+const documentEditSchema = z.object({
   title: z.string().optional(),
   provider: z.string().optional(),
   date: z.string().optional(),
   tags: z.array(z.string()).optional(),
 });
 
+const updateDocumentSchema = documentEditSchema.extend({
+  baseUpdatedAt: z.string().datetime().optional(), // updatedAt of the copy the offline edit was made on
+  base: documentEditSchema.optional(), // Values of the edited fields before the offline edit
+  editedAt: z.string().datetime().optional(), // When the offline edit was made
+});
+
 router.put(
   "/:id",
   validate(updateDocumentSchema),
@@ -757,7 +1446,7 @@ router.put(
       const { id } = req.params;
       const document = await storage.getDocument(id);
 
-      if (!document) {
+      if (!document || document.deletedAt) {
         return res.status(404).json({
           success: false,
           message: "Document not found",
@@ -772,17 +1461,37 @@ router.put(
         });
       }
 
+      const { baseUpdatedAt, base, editedAt, ...fields } = req.body as z.infer<typeof updateDocumentSchema>;
+      let edit: DocumentEdit = fields;
+      let conflicts: SyncConflict[] = [];
+      if (baseUpdatedAt) {
+        const merged = mergeOfflineEdit(
+          document,
+          fields,
+          base,
+          new Date(baseUpdatedAt),
+          editedAt ? new Date(editedAt) : new Date()
+        );
+        edit = merged.edit;
+        conflicts = merged.conflicts;
+      }
+
       const updateData: any = {};
-      if (req.body.title !== undefined) updateData.title = req.body.title;
-      if (req.body.provider !== undefined) updateData.provider = req.body.provider;
-      if (req.body.date !== undefined) updateData.date = new Date(req.body.date);
-      if (req.body.tags !== undefined) updateData.tags = JSON.stringify(req.body.tags);
+      if (edit.title !== undefined) updateData.title = edit.title;
+      if (edit.provider !== undefined) updateData.provider = edit.provider;
+      if (edit.date !== undefined) updateData.date = new Date(edit.date);
+      if (edit.tags !== undefined) updateData.tags = JSON.stringify(edit.tags);
 
-      const updated = await storage.updateDocument(id, updateData);
+      const updated = Object.keys(updateData).length > 0
+        ? await storage.updateDocument(id, updateData)
+        : document;
 
       res.json({
         success: true,
-        message: "Document updated successfully",
+        message: conflicts.length > 0
+          ? `Document updated - ${conflicts.length} conflicting change(s) resolved`
+          : "Document updated successfully",
+        conflicts,
         document: {
           id: updated.id,
           title: updated.title,
@@ -801,14 +1510,14 @@ router.put(
 
 /**
  * DELETE /api/documents/:id
- * Delete a document
+ * Move a document to the trash (purged automatically after the retention period)
  */
 router.delete("/:id", async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const document = await storage.getDocument(id);
 
-    if (!document) {
+    if (!document || document.deletedAt) {
       return res.status(404).json({
         success: false,
         message: "Document not found",
@@ -823,23 +1532,12 @@ router.delete("/:id", async (req: Request, res: Response, next: NextFunction) =>
       });
     }
 
-    // Delete file from Supabase Storage if it exists
-    // File URL format: "documents/userId/filename.ext"
-    if (document.fileUrl && document.fileUrl.startsWith('documents/')) {
-      try {
-        await SupabaseStorageService.deleteFile(document.fileUrl);
-        console.log(`[Documents] Deleted file from Supabase Storage: ${document.fileUrl}`);
-      } catch (error: any) {
-        console.error("[Documents] Error deleting file from storage:", error);
-        // Continue with document deletion even if file deletion fails
-      }
-    }
-
-    await storage.deleteDocument(id);
+    const trashed = await moveToTrash(document);
 
     res.json({
       success: true,
-      message: "Document deleted successfully",
+      message: "Document moved to trash",
+      purgeAt: getPurgeDate(trashed),
     });
   } catch (error) {
     next(error);
@@ -847,15 +1545,17 @@ router.delete("/:id", async (req: Request, res: Response, next: NextFunction) =>
 });
 
 /**
- * GET /api/documents/:id/file
- * Get document file (download/signed URL)
+ * GET /api/documents/:id/file?version=&raw=
+ * Get document file - returns the URL to load the file from; with raw=1 sends the decrypted file.
+ * Older versions are served with version=<versionId>.
  */
 router.get("/:id/file", async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
+    const versionId = typeof req.query.version === "string" ? req.query.version : undefined;
     const document = await storage.getDocument(id);
 
-    if (!document) {
+    if (!document || document.deletedAt) {
       return res.status(404).json({
         success: false,
         message: "Document not found",
@@ -870,32 +1570,35 @@ router.get("/:id/file", async (req: Request, res: Response, next: NextFunction)
       });
     }
 
-    // If file is in Supabase Storage, create signed URL
-    // File URL format: "documents/userId/filename.ext"
-    if (document.fileUrl && document.fileUrl.startsWith('documents/')) {
-      try {
-        const signedUrl = await SupabaseStorageService.createSignedUrl(document.fileUrl, 3600); // 1 hour expiry
-        
-        return res.json({
-          success: true,
-          fileUrl: signedUrl,
-          fileType: document.fileType,
-          expiresIn: 3600,
-        });
-      } catch (error: any) {
-        console.error("[Documents] Error creating signed URL:", error);
-        return res.status(500).json({
+    let file = document;
+    if (versionId) {
+      const version = await storage.getDocumentVersion(versionId);
+      if (!version || version.documentId !== id) {
+        return res.status(404).json({
           success: false,
-          message: "Failed to generate file access URL",
+          message: "Version not found",
         });
       }
+      file = { ...document, fileUrl: version.fileUrl, fileType: version.fileType };
+    }
+
+    // File URL format: "documents/userId/filename.ext"
+    if (!file.fileUrl || !(await FileStorageService.fileExists(file.fileUrl))) {
+      return res.status(404).json({
+        success: false,
+        message: "File not found",
+      });
+    }
+
+    if (req.query.raw) {
+      return await sendDocumentFile(res, file);
     }
 
-    // Fallback for old local files
+    const query = new URLSearchParams({ ...(versionId && { version: versionId }), raw: "1" });
     res.json({
       success: true,
-      fileUrl: document.fileUrl,
-      fileType: document.fileType,
+      fileUrl: `/api/documents/${id}/file?${query}`,
+      fileType: file.fileType,
     });
   } catch (error) {
     next(error);
@@ -928,7 +1631,7 @@ router.get("/:id/insights", async (req: Request, res: Response, next: NextFuncti
     // Get document
     const document = await storage.getDocument(documentId);
     
-    if (!document) {
+    if (!document || document.deletedAt) {
       return res.status(404).json({
         success: false,
         message: "Document not found",
@@ -992,8 +1695,8 @@ router.get("/:id/insights", async (req: Request, res: Response, next: NextFuncti
       }
     }
 
-    // Generate document insight using OpenAI with user's language preference
-    const insight = await OpenAIService.generateDocumentInsight(
+    // Generate document insight using the AI provider with user's language preference
+    const insight = await AIService.generateDocumentInsight(
       document.extractedText,
       document.type,
       userLanguage
@@ -1028,14 +1731,20 @@ router.get("/:id/insights", async (req: Request, res: Response, next: NextFuncti
 
 /**
  * GET /api/documents/:id/preview
- * Get document preview/thumbnail URL (optimized for images)
+ * Get document preview info (page count, thumbnail URL); with raw=1 sends the decrypted file,
+ * with page=N sends that page rendered as a JPEG (size=thumbnail|page, default page)
  */
+const previewQuerySchema = z.object({
+  page: z.coerce.number().int().min(1),
+  size: z.enum(PREVIEW_SIZES as [PreviewSize, ...PreviewSize[]]).default("page"),
+});
+
 router.get("/:id/preview", async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const document = await storage.getDocument(id);
 
-    if (!document) {
+    if (!document || document.deletedAt) {
       return res.status(404).json({
         success: false,
         message: "Document not found",
@@ -1050,31 +1759,77 @@ router.get("/:id/preview", async (req: Request, res: Response, next: NextFunctio
       });
     }
 
-    // For images, return the same signed URL as file endpoint
-    // In the future, we could generate thumbnails here
-    if (document.fileUrl && document.fileUrl.startsWith('documents/')) {
-      try {
-        const signedUrl = await SupabaseStorageService.createSignedUrl(document.fileUrl, 3600);
-        return res.json({
-          success: true,
-          previewUrl: signedUrl,
-          fileType: document.fileType,
-          expiresIn: 3600,
+    if (!document.fileUrl || !(await FileStorageService.fileExists(document.fileUrl))) {
+      return res.status(404).json({
+        success: false,
+        message: "File not found",
+      });
+    }
+
+    if (req.query.raw) {
+      return await sendDocumentFile(res, document);
+    }
+
+    const pageCount = isPreviewSupported(document) ? await getDocumentPageCount(document) : null;
+
+    if (req.query.page !== undefined) {
+      const parsed = previewQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid page or size",
         });
-      } catch (error: any) {
-        console.error("[Documents] Error creating preview URL:", error);
-        return res.status(500).json({
+      }
+
+      if (!pageCount) {
+        return res.status(415).json({
+          success: false,
+          message: "Page previews are not available for this file type",
+        });
+      }
+
+      const { page, size } = parsed.data;
+      if (page > pageCount) {
+        return res.status(404).json({
           success: false,
-          message: "Failed to generate preview URL",
+          message: "Page not found",
         });
       }
+
+      // Re-read so the content hash saved while counting pages is used for the cache key
+      const current = (await storage.getDocument(id)) ?? document;
+      res.setHeader("Cache-Control", "private, no-cache");
+      if (current.contentHash) {
+        const etag = `"${current.contentHash}-${size}-${page}"`;
+        res.setHeader("ETag", etag);
+        if (req.headers["if-none-match"] === etag) {
+          return res.status(304).end();
+        }
+      }
+
+      let preview: Buffer;
+      try {
+        preview = await getDocumentPagePreview(current, page, size);
+      } catch (error) {
+        if (error instanceof DicomError) {
+          return res.status(415).json({
+            success: false,
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+      res.setHeader("Content-Type", "image/jpeg");
+      res.setHeader("Content-Length", preview.length);
+      return res.send(preview);
     }
 
-    // Fallback
     res.json({
       success: true,
-      previewUrl: document.fileUrl,
+      previewUrl: `/api/documents/${document.id}/preview?raw=1`,
+      thumbnailUrl: pageCount ? `/api/documents/${document.id}/preview?page=1&size=thumbnail` : null,
       fileType: document.fileType,
+      pageCount,
     });
   } catch (error) {
     next(error);
@@ -1082,42 +1837,1022 @@ router.get("/:id/preview", async (req: Request, res: Response, next: NextFunctio
 });
 
 /**
- * POST /api/documents/sync
- * Sync all pending documents (update syncStatus from 'pending' to 'synced')
+ * Format a version for API responses (the newest version is the current one)
+ */
+function serializeVersion(version: DocumentVersion, currentVersionId: string | undefined) {
+  return {
+    id: version.id,
+    version: version.version,
+    fileType: version.fileType,
+    fileSize: version.fileSize,
+    note: version.note,
+    hasText: !!version.extractedText,
+    isCurrent: version.id === currentVersionId,
+    createdAt: version.createdAt,
+  };
+}
+
+/**
+ * GET /api/documents/:id/versions
+ * List all versions of a document, newest (current) first
  */
-router.post("/sync", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+router.get("/:id/versions", async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const userId = req.userId!;
-    
-    // Get all documents for the user
-    const documents = await storage.getDocumentsByUserId(userId);
-    
-    // Filter pending documents
-    const pendingDocuments = documents.filter(doc => doc.syncStatus === "pending");
-    
-    if (pendingDocuments.length === 0) {
-      return res.json({
-        success: true,
-        message: "No pending documents to sync",
-        syncedCount: 0,
+    const { id } = req.params;
+    const document = await storage.getDocument(id);
+
+    if (!document || document.deletedAt) {
+      return res.status(404).json({
+        success: false,
+        message: "Document not found",
       });
     }
-    
-    // Update each pending document to synced
-    let syncedCount = 0;
-    for (const doc of pendingDocuments) {
+
+    if (document.userId !== req.userId) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied",
+      });
+    }
+
+    const versions = await getVersionHistory(document);
+
+    res.json({
+      success: true,
+      documentId: id,
+      versions: versions.map((v) => serializeVersion(v, versions[0]?.id)),
+      total: versions.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/documents/:id/versions
+ * Upload a new version of a document (e.g., a corrected lab report)
+ * The new file becomes current and is re-processed in the background
+ */
+router.post(
+  "/:id/versions",
+  upload.single("file"),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const document = await storage.getDocument(id);
+
+      if (!document || document.deletedAt || document.userId !== req.userId) {
+        if (req.file) await fs.unlink(req.file.path).catch(() => {});
+        return res.status(document ? 403 : 404).json({
+          success: false,
+          message: document ? "Access denied" : "Document not found",
+        });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: "A file is required to create a new version",
+        });
+      }
+
+      if (isZipArchive(req.file.mimetype, req.file.originalname)) {
+        await fs.unlink(req.file.path).catch(() => {});
+        return res.status(400).json({
+          success: false,
+          message: "ZIP archives cannot be uploaded as a document version",
+        });
+      }
+
+      // Imaging studies grow by uploading more images of the study, not by replacing the file
+      if (document.studyInstanceUid || req.file.mimetype === DICOM_MIME_TYPE) {
+        await fs.unlink(req.file.path).catch(() => {});
+        return res.status(400).json({
+          success: false,
+          message: "DICOM images cannot be uploaded as a document version - upload them to the vault to add them to their study",
+        });
+      }
+
+      // A running job would overwrite the new version's text with the old file's OCR
+      if (await hasActiveProcessing(id)) {
+        await fs.unlink(req.file.path).catch(() => {});
+        return res.status(409).json({
+          success: false,
+          message: "Document is still being processed. Try again once processing finishes.",
+        });
+      }
+
+      const note = typeof req.body.note === "string" ? req.body.note.trim().slice(0, 500) : null;
+
+      let fileBuffer: Buffer;
       try {
-        await storage.updateDocument(doc.id, { syncStatus: "synced" });
-        syncedCount++;
-      } catch (error) {
-        console.error(`[Documents] Failed to sync document ${doc.id}:`, error);
+        fileBuffer = await fs.readFile(req.file.path);
+      } finally {
+        await fs.unlink(req.file.path).catch(() => {});
       }
+
+      const result = await uploadDocumentVersion(
+        document,
+        {
+          buffer: fileBuffer,
+          fileName: req.file.originalname,
+          mimeType: req.file.mimetype,
+          size: req.file.size,
+        },
+        note
+      );
+
+      res.status(201).json({
+        success: true,
+        message: `Uploaded ${result.version.version}`,
+        version: serializeVersion(result.version, result.version.id),
+        processing: {
+          jobId: result.processingJob.id,
+          status: result.processingJob.status,
+        },
+      });
+    } catch (error) {
+      next(error);
     }
-    
+  }
+);
+
+/**
+ * GET /api/documents/:id/versions/diff?from=<versionId>&to=<versionId>
+ * Line diff of the extracted text between two versions (`to` defaults to the current version)
+ */
+const versionDiffQuerySchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1).optional(),
+});
+
+router.get("/:id/versions/diff", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const parsed = versionDiffQuerySchema.safeParse(req.query);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: "Query parameter 'from' is required",
+      });
+    }
+
+    const document = await storage.getDocument(id);
+
+    if (!document || document.deletedAt) {
+      return res.status(404).json({
+        success: false,
+        message: "Document not found",
+      });
+    }
+
+    if (document.userId !== req.userId) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied",
+      });
+    }
+
+    const versions = await getVersionHistory(document);
+    const fromVersion = versions.find((v) => v.id === parsed.data.from);
+    const toVersion = parsed.data.to
+      ? versions.find((v) => v.id === parsed.data.to)
+      : versions[0];
+
+    if (!fromVersion || !toVersion) {
+      return res.status(404).json({
+        success: false,
+        message: "Version not found",
+      });
+    }
+
+    const diff = diffText(fromVersion.extractedText, toVersion.extractedText);
+
+    res.json({
+      success: true,
+      from: serializeVersion(fromVersion, versions[0]?.id),
+      to: serializeVersion(toVersion, versions[0]?.id),
+      ...diff,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/documents/:id/versions/:versionId/file
+ * Get the URL of a specific version's file
+ */
+router.get("/:id/versions/:versionId/file", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, versionId } = req.params;
+    const document = await storage.getDocument(id);
+
+    if (!document || document.deletedAt) {
+      return res.status(404).json({
+        success: false,
+        message: "Document not found",
+      });
+    }
+
+    if (document.userId !== req.userId) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied",
+      });
+    }
+
+    const version = await storage.getDocumentVersion(versionId);
+    if (!version || version.documentId !== id) {
+      return res.status(404).json({
+        success: false,
+        message: "Version not found",
+      });
+    }
+
+    if (!(await FileStorageService.fileExists(version.fileUrl))) {
+      return res.status(404).json({
+        success: false,
+        message: "File not found",
+      });
+    }
+
+    // Served (and decrypted) by GET /api/documents/:id/file
+    res.json({
+      success: true,
+      fileUrl: `/api/documents/${id}/file?version=${encodeURIComponent(versionId)}&raw=1`,
+      fileType: version.fileType,
+      version: version.version,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/documents/:id/versions/:versionId/restore
+ * Make an older version the current one (recorded as a new version)
+ */
+router.post("/:id/versions/:versionId/restore", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, versionId } = req.params;
+    const document = await storage.getDocument(id);
+
+    if (!document || document.deletedAt) {
+      return res.status(404).json({
+        success: false,
+        message: "Document not found",
+      });
+    }
+
+    if (document.userId !== req.userId) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied",
+      });
+    }
+
+    const versions = await getVersionHistory(document);
+    const target = versions.find((v) => v.id === versionId);
+
+    if (!target) {
+      return res.status(404).json({
+        success: false,
+        message: "Version not found",
+      });
+    }
+
+    if (target.id === versions[0].id) {
+      return res.status(409).json({
+        success: false,
+        message: `${target.version} is already the current version`,
+      });
+    }
+
+    if (await hasActiveProcessing(id)) {
+      return res.status(409).json({
+        success: false,
+        message: "Document is still being processed. Try again once processing finishes.",
+      });
+    }
+
+    const result = await restoreDocumentVersion(document, target);
+
+    res.json({
+      success: true,
+      message: `Restored ${target.version} as ${result.version.version}`,
+      version: serializeVersion(result.version, result.version.id),
+      processing: result.processingJob
+        ? { jobId: result.processingJob.id, status: result.processingJob.status }
+        : null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/documents/:id/processing
+ * Get the background processing status (OCR, embedding, insights) of a document
+ */
+router.get("/:id/processing", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const document = await storage.getDocument(id);
+
+    if (!document || document.deletedAt) {
+      return res.status(404).json({
+        success: false,
+        message: "Document not found",
+      });
+    }
+
+    if (document.userId !== req.userId) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied",
+      });
+    }
+
+    const job = await storage.getLatestProcessingJob(id);
+
+    res.json({
+      success: true,
+      documentId: id,
+      ocrProcessed: document.ocrProcessed,
+      ocrProcessedAt: document.ocrProcessedAt,
+      processing: job
+        ? {
+            jobId: job.id,
+            status: job.status,
+            stage: job.stage,
+            attempts: job.attempts,
+            maxAttempts: job.maxAttempts,
+            lastError: job.lastError,
+            nextAttemptAt: job.status === "queued" ? job.runAt : null,
+            startedAt: job.startedAt,
+            completedAt: job.completedAt,
+            createdAt: job.createdAt,
+          }
+        : null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/documents/:id/processing/retry
+ * Queue a new processing run for a document whose processing failed
+ */
+router.post("/:id/processing/retry", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const document = await storage.getDocument(id);
+
+    if (!document || document.deletedAt) {
+      return res.status(404).json({
+        success: false,
+        message: "Document not found",
+      });
+    }
+
+    if (document.userId !== req.userId) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied",
+      });
+    }
+
+    const latestJob = await storage.getLatestProcessingJob(id);
+    if (latestJob && (latestJob.status === "queued" || latestJob.status === "running")) {
+      return res.status(409).json({
+        success: false,
+        message: "Document is already being processed",
+      });
+    }
+
+    const job = await documentProcessingQueue.enqueue(id, req.userId!);
+
+    res.status(202).json({
+      success: true,
+      message: "Document queued for processing",
+      processing: {
+        jobId: job.id,
+        status: job.status,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Load a document the current user owns, or send the 404/403 response
+ */
+async function getOwnedDocument(req: Request, res: Response): Promise<Document | null> {
+  const document = await storage.getDocument(req.params.id);
+
+  if (!document || document.deletedAt) {
+    res.status(404).json({
+      success: false,
+      message: "Document not found",
+    });
+    return null;
+  }
+
+  if (document.userId !== req.userId) {
+    res.status(403).json({
+      success: false,
+      message: "Access denied",
+    });
+    return null;
+  }
+
+  return document;
+}
+
+/**
+ * GET /api/documents/:id/observations
+ * Get the structured lab results of a document, in report order
+ */
+router.get("/:id/observations", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const document = await getOwnedDocument(req, res);
+    if (!document) return;
+
+    const observations = await storage.getLabObservations(document.id);
+
+    res.json({
+      success: true,
+      observations: observations.map(serializeObservation),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/documents/:id/observations
+ * Add a lab result the extractor missed
+ */
+const observationSchema = z.object({
+  analyte: z.string().trim().min(1, "Analyte name is required"),
+  value: z.string().trim().min(1, "Value is required"),
+  unit: z.string().nullable().optional(),
+  referenceRange: z.string().nullable().optional(),
+  abnormalFlag: z.enum(["normal", "low", "high", "abnormal"]).nullable().optional(),
+  specimenDate: z.string().nullable().optional(), // ISO date string
+  position: z.number().int().min(0).optional(),
+});
+
+router.post(
+  "/:id/observations",
+  validate(observationSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const document = await getOwnedDocument(req, res);
+      if (!document) return;
+
+      const { specimenDate, position, ...fields } = req.body;
+      const existing = await storage.getLabObservations(document.id);
+
+      const observation = await storage.createLabObservation({
+        userId: document.userId,
+        documentId: document.id,
+        ...buildObservationFields({
+          ...fields,
+          specimenDate: specimenDate ? new Date(specimenDate) : document.date,
+        }),
+        position: position ?? existing.length,
+        source: "manual",
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Observation added",
+        observation: serializeObservation(observation),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/documents/:id/observations/:observationId
+ * Correct a lab result
+ * Edited rows become 'manual' so re-processing the report never overwrites them
+ */
+router.put(
+  "/:id/observations/:observationId",
+  validate(observationSchema.partial()),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const document = await getOwnedDocument(req, res);
+      if (!document) return;
+
+      const observation = await storage.getLabObservation(req.params.observationId);
+      if (!observation || observation.documentId !== document.id) {
+        return res.status(404).json({
+          success: false,
+          message: "Observation not found",
+        });
+      }
+
+      const { specimenDate, position, abnormalFlag, ...fields } = req.body;
+
+      // A changed value or range re-derives the flag unless the user sets one explicitly
+      const valueChanged = fields.value !== undefined || fields.referenceRange !== undefined;
+      const merged = buildObservationFields({
+        analyte: fields.analyte ?? observation.analyte,
+        value: fields.value ?? observation.value,
+        unit: fields.unit !== undefined ? fields.unit : observation.unit,
+        referenceRange: fields.referenceRange !== undefined ? fields.referenceRange : observation.referenceRange,
+        abnormalFlag:
+          abnormalFlag !== undefined
+            ? abnormalFlag
+            : valueChanged
+              ? null
+              : isAbnormalFlag(observation.abnormalFlag)
+                ? observation.abnormalFlag
+                : null,
+        specimenDate:
+          specimenDate !== undefined
+            ? specimenDate ? new Date(specimenDate) : null
+            : observation.specimenDate,
+      });
+
+      const updated = await storage.updateLabObservation(observation.id, {
+        ...merged,
+        ...(position !== undefined && { position }),
+        source: "manual",
+      });
+
+      res.json({
+        success: true,
+        message: "Observation updated",
+        observation: serializeObservation(updated),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/documents/:id/observations/:observationId
+ * Remove a lab result
+ */
+router.delete("/:id/observations/:observationId", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const document = await getOwnedDocument(req, res);
+    if (!document) return;
+
+    const observation = await storage.getLabObservation(req.params.observationId);
+    if (!observation || observation.documentId !== document.id) {
+      return res.status(404).json({
+        success: false,
+        message: "Observation not found",
+      });
+    }
+
+    await storage.deleteLabObservation(observation.id);
+
+    res.json({
+      success: true,
+      message: "Observation deleted",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/documents/:id/observations/extract
+ * Re-run lab result extraction on a processed lab report (e.g. one processed before extraction existed)
+ * Replaces AI-extracted rows; rows the user added or edited are kept
+ */
+router.post("/:id/observations/extract", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const document = await getOwnedDocument(req, res);
+    if (!document) return;
+
+    if (document.type !== "lab") {
+      return res.status(400).json({
+        success: false,
+        message: "Lab results can only be extracted from lab reports",
+      });
+    }
+
+    if (!document.ocrProcessed || !document.extractedText) {
+      return res.status(409).json({
+        success: false,
+        message: "Document has not been processed yet",
+      });
+    }
+
+    if (!AIService.isConfigured()) {
+      return res.status(500).json({
+        success: false,
+        message: "AI processing is not configured. Please set OPENAI_API_KEY, or AI_PROVIDER=local to use a local model.",
+      });
+    }
+
+    await extractObservationsFromDocument(document, document.extractedText);
+    const observations = await storage.getLabObservations(document.id);
+
+    res.json({
+      success: true,
+      message: `Extracted ${observations.length} lab result(s)`,
+      observations: observations.map(serializeObservation),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/documents/:id/annotations
+ * Get the user's notes and highlights on a document, by page
+ */
+router.get("/:id/annotations", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const document = await getOwnedDocument(req, res);
+    if (!document) return;
+
+    const annotations = await storage.getDocumentAnnotations(document.id);
+
+    res.json({
+      success: true,
+      annotations: annotations.map(serializeAnnotation),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/documents/:id/annotations
+ * Add a note, a highlighted region of a page, or a highlight with a note
+ */
+const annotationRegionSchema = z
+  .object({
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    width: z.number().positive().max(1),
+    height: z.number().positive().max(1),
+  })
+  .refine((region) => region.x + region.width <= 1.001 && region.y + region.height <= 1.001, {
+    message: "Region must lie within the page",
+  });
+
+const annotationSchema = z.object({
+  page: z.number().int().min(1).nullable().optional(),
+  region: annotationRegionSchema.nullable().optional(),
+  color: z.enum(ANNOTATION_COLORS).optional(),
+  note: z.string().trim().max(2000, "Note must be less than 2000 characters").nullable().optional(),
+});
+
+router.post(
+  "/:id/annotations",
+  validate(
+    annotationSchema
+      .refine((annotation) => !!annotation.note || !!annotation.region, {
+        message: "A note or a highlighted region is required",
+      })
+      .refine((annotation) => !annotation.region || !!annotation.page, {
+        message: "A highlighted region needs a page",
+      })
+  ),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const document = await getOwnedDocument(req, res);
+      if (!document) return;
+
+      const { page, region, color, note } = req.body;
+
+      if (page && document.pageCount && page > document.pageCount) {
+        return res.status(400).json({
+          success: false,
+          message: `Document has only ${document.pageCount} page(s)`,
+        });
+      }
+
+      const annotation = await storage.createDocumentAnnotation({
+        userId: document.userId,
+        documentId: document.id,
+        page: page ?? null,
+        ...toRegionFields(region ?? null),
+        color,
+        note: note || null,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Annotation added",
+        annotation: serializeAnnotation(annotation),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PATCH /api/documents/:id/annotations/:annotationId
+ * Edit the note or color of an annotation, or move its highlight
+ */
+router.patch(
+  "/:id/annotations/:annotationId",
+  validate(annotationSchema.omit({ page: true })),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const document = await getOwnedDocument(req, res);
+      if (!document) return;
+
+      const annotation = await storage.getDocumentAnnotation(req.params.annotationId);
+      if (!annotation || annotation.documentId !== document.id) {
+        return res.status(404).json({
+          success: false,
+          message: "Annotation not found",
+        });
+      }
+
+      const { region, color, note } = req.body;
+
+      // Whatever is left must still be a note or a highlight
+      const nextNote = note !== undefined ? note || null : annotation.note;
+      const hasRegion = region !== undefined ? !!region : annotation.regionX !== null;
+      if (!nextNote && !hasRegion) {
+        return res.status(400).json({
+          success: false,
+          message: "A note or a highlighted region is required",
+        });
+      }
+      if (region && !annotation.page) {
+        return res.status(400).json({
+          success: false,
+          message: "A highlighted region needs a page",
+        });
+      }
+
+      const updated = await storage.updateDocumentAnnotation(annotation.id, {
+        ...(region !== undefined && toRegionFields(region)),
+        ...(color !== undefined && { color }),
+        ...(note !== undefined && { note: nextNote }),
+      });
+
+      res.json({
+        success: true,
+        message: "Annotation updated",
+        annotation: serializeAnnotation(updated),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/documents/:id/annotations/:annotationId
+ * Remove a note or highlight
+ */
+router.delete("/:id/annotations/:annotationId", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const document = await getOwnedDocument(req, res);
+    if (!document) return;
+
+    const annotation = await storage.getDocumentAnnotation(req.params.annotationId);
+    if (!annotation || annotation.documentId !== document.id) {
+      return res.status(404).json({
+        success: false,
+        message: "Annotation not found",
+      });
+    }
+
+    await storage.deleteDocumentAnnotation(annotation.id);
+
+    res.json({
+      success: true,
+      message: "Annotation deleted",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/documents/:id/redaction
+ * Get the redacted copy that consent shares serve instead of the original, if there is one
+ */
+router.get("/:id/redaction", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const document = await getOwnedDocument(req, res);
+    if (!document) return;
+
+    const redaction = await storage.getDocumentRedaction(document.id);
+
+    res.json({
+      success: true,
+      supported: isRedactionSupported(document),
+      redaction: redaction ? serializeRedaction(document, redaction) : null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/documents/:id/redaction/suggestions
+ * Suggest regions with personal details (phone, address, ID numbers...) from the text layout
+ */
+router.get("/:id/redaction/suggestions", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const document = await getOwnedDocument(req, res);
+    if (!document) return;
+
+    const suggestions = await suggestRedactions(document);
+
+    res.json({
+      success: true,
+      ...suggestions,
+    });
+  } catch (error) {
+    if (error instanceof RedactionError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/documents/:id/redaction
+ * Save the regions to black out and render the redacted copy (replaces any earlier redaction)
+ */
+const redactionSchema = z.object({
+  regions: z
+    .array(
+      z
+        .object({
+          page: z.number().int().min(1),
+          x: z.number().min(0).max(1),
+          y: z.number().min(0).max(1),
+          width: z.number().positive().max(1),
+          height: z.number().positive().max(1),
+          label: z.enum(REDACTION_LABELS).default("manual"),
+          source: z.enum(["suggested", "manual"]).default("manual"),
+        })
+        .refine((region) => region.x + region.width <= 1.001 && region.y + region.height <= 1.001, {
+          message: "Region must lie within the page",
+        })
+    )
+    .min(1, "Mark at least one region to redact")
+    .max(500, "Too many regions"),
+});
+
+router.put(
+  "/:id/redaction",
+  validate(redactionSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const document = await getOwnedDocument(req, res);
+      if (!document) return;
+
+      const redaction = await saveRedaction(document, req.body.regions);
+      // Saving may have filled in the content hash the redaction is checked against
+      const current = (await storage.getDocument(document.id)) ?? document;
+
+      res.json({
+        success: true,
+        message: "Redacted copy saved - shares will show it instead of the original",
+        redaction: serializeRedaction(current, redaction),
+      });
+    } catch (error) {
+      if (error instanceof RedactionError) {
+        return res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/documents/:id/redaction
+ * Remove the redacted copy; shares serve the original again
+ */
+router.delete("/:id/redaction", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const document = await getOwnedDocument(req, res);
+    if (!document) return;
+
+    await deleteRedaction(document);
+
+    res.json({
+      success: true,
+      message: "Redaction removed",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/documents/:id/redaction/file?raw=
+ * Get the redacted copy (raw=1 sends the decrypted file) so the user can check it before sharing
+ */
+router.get("/:id/redaction/file", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const document = await getOwnedDocument(req, res);
+    if (!document) return;
+
+    const redaction = await storage.getDocumentRedaction(document.id);
+    if (!redaction || !(await FileStorageService.fileExists(redaction.fileUrl))) {
+      return res.status(404).json({
+        success: false,
+        message: "Redacted copy not found",
+      });
+    }
+
+    if (req.query.raw) {
+      return await sendDocumentFile(res, getRedactedFileDocument(document, redaction));
+    }
+
+    res.json({
+      success: true,
+      fileUrl: `/api/documents/${document.id}/redaction/file?raw=1`,
+      fileType: redaction.fileType,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/documents/:id/collections
+ * List the collections a document is in, with the item id needed to remove it
+ */
+router.get("/:id/collections", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const document = await getOwnedDocument(req, res);
+    if (!document) return;
+
+    const items = await storage.getCollectionItemsByDocumentId(document.id);
+    const collections = [];
+    for (const item of items) {
+      const collection = await storage.getCollection(item.collectionId);
+      if (collection) {
+        collections.push({ id: collection.id, name: collection.name, itemId: item.id });
+      }
+    }
+
+    res.json({
+      success: true,
+      collections,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/documents/sync
+ * Report which queued offline captures the server already has
+ * The app drops those from its queue before uploading, so a capture whose response was lost
+ * on a flaky connection is not sent again
+ */
+const syncDocumentsSchema = z.object({
+  clientIds: z.array(z.string().min(1).max(64)).max(500),
+});
+
+router.post("/sync", requireAuth, validate(syncDocumentsSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const { clientIds } = req.body as z.infer<typeof syncDocumentsSchema>;
+
+    const synced: Array<{ clientId: string; documentId: string }> = [];
+    const pending: string[] = [];
+    for (const clientId of clientIds) {
+      const document = await storage.getDocumentByClientId(userId, clientId);
+      if (document) {
+        synced.push({ clientId, documentId: document.id });
+      } else {
+        pending.push(clientId);
+      }
+    }
+
     res.json({
       success: true,
-      message: `Synced ${syncedCount} document(s)`,
-      syncedCount,
+      message: `${synced.length} of ${clientIds.length} capture(s) already synced`,
+      synced,
+      pending,
     });
   } catch (error) {
     next(error);
@@ -0,0 +1,346 @@
+/**
+ * Expense Routes
+ * Handles medical expenses read from bills or added by the user, yearly totals and statements
+ */
+
+import { Router, type Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { type Expense } from "@shared/schema";
+import { storage } from "../storage";
+import { requireAuth } from "../middleware/auth";
+import { validate } from "../middleware/validation";
+import {
+  EXPENSE_CATEGORIES,
+  ExpenseError,
+  PERIOD_BASES,
+  REIMBURSEMENT_STATUSES,
+  buildExpenseCsv,
+  createExpense,
+  extractExpenseFromDocument,
+  getExpensePeriod,
+  getExpenseYear,
+  getExpenseYears,
+  renderExpenseStatementPdf,
+  serializeExpenses,
+  summarizeExpenses,
+  updateExpense,
+  type ExpensePeriod,
+  type PeriodBasis,
+} from "../services/expenseService";
+
+const router = Router();
+
+const dateString = z.string().refine(
+  (val) => {
+    const dateRegex = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d{3})?)?Z?)?$/;
+    return dateRegex.test(val) && !isNaN(Date.parse(val));
+  },
+  { message: "Invalid date format" }
+);
+
+const money = z.number().finite().nonnegative("Amount cannot be negative").max(100000000, "Amount is too large");
+
+// Validation schemas
+const createExpenseSchema = z.object({
+  payee: z.string().trim().min(1, "Payee is required").max(200, "Payee must be less than 200 characters"),
+  description: z.string().max(500, "Description must be less than 500 characters").nullable().optional(),
+  category: z.enum(EXPENSE_CATEGORIES).optional(),
+  amount: money.positive("Amount must be more than zero"),
+  gstAmount: money.nullable().optional(),
+  payer: z.string().max(200, "Payer must be less than 200 characters").nullable().optional(),
+  paymentDate: dateString,
+  invoiceNumber: z.string().max(100, "Invoice number must be less than 100 characters").nullable().optional(),
+  reimbursementStatus: z.enum(REIMBURSEMENT_STATUSES).optional(),
+  notes: z.string().max(1000, "Notes must be less than 1000 characters").nullable().optional(),
+  documentId: z.string().nullable().optional(),
+});
+
+const updateExpenseSchema = createExpenseSchema.partial();
+
+const extractExpenseSchema = z.object({
+  documentId: z.string().min(1, "Document is required"),
+});
+
+/**
+ * Load an expense owned by the current user, or send 404/403
+ */
+async function getOwnedExpense(req: Request, res: Response): Promise<Expense | null> {
+  const expense = await storage.getExpense(req.params.id);
+
+  if (!expense) {
+    res.status(404).json({
+      success: false,
+      message: "Expense not found",
+    });
+    return null;
+  }
+
+  // Verify expense belongs to user
+  if (expense.userId !== req.userId) {
+    res.status(403).json({
+      success: false,
+      message: "Access denied",
+    });
+    return null;
+  }
+
+  return expense;
+}
+
+/**
+ * Read ?year, ?month and ?basis, or send 400
+ * The year defaults to the current one; without a month the whole year is used.
+ */
+function getRequestedPeriod(req: Request, res: Response): ExpensePeriod | null {
+  const basis = (req.query.basis as string | undefined) || "calendar";
+  if (!(PERIOD_BASES as readonly string[]).includes(basis)) {
+    res.status(400).json({
+      success: false,
+      message: "basis must be 'calendar' or 'financial'",
+    });
+    return null;
+  }
+
+  const year = req.query.year ? Number(req.query.year) : getExpenseYear(new Date(), basis as PeriodBasis);
+  const month = req.query.month ? Number(req.query.month) : null;
+  if (!Number.isInteger(year) || year < 1900 || year > 2100 || (month !== null && (!Number.isInteger(month) || month < 1 || month > 12))) {
+    res.status(400).json({
+      success: false,
+      message: "Invalid year or month",
+    });
+    return null;
+  }
+
+  return getExpensePeriod(year, basis as PeriodBasis, month);
+}
+
+/**
+ * GET /api/expenses
+ * List the current user's expenses, most recent payment first
+ * Query params: ?year=2025&month=1-12&basis=calendar|financial&category=...&documentId=...
+ * Without a year, all expenses are listed.
+ */
+router.get("/", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    let period: ExpensePeriod | null = null;
+    if (req.query.year || req.query.month) {
+      period = getRequestedPeriod(req, res);
+      if (!period) return;
+    }
+
+    const expenses = await storage.getExpenses(req.userId!, {
+      from: period?.from,
+      to: period?.to,
+      category: req.query.category as string | undefined,
+      documentId: req.query.documentId as string | undefined,
+    });
+
+    res.json({
+      success: true,
+      expenses: await serializeExpenses(expenses),
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/expenses/summary
+ * Totals for a year: by month, category and payer, reimbursement status and Section 80D amounts
+ * Query params: ?year=2025&basis=calendar|financial
+ */
+router.get("/summary", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const period = getRequestedPeriod(req, res);
+    if (!period) return;
+
+    const expenses = await storage.getExpenses(req.userId!, { from: period.from, to: period.to });
+
+    res.json({
+      success: true,
+      summary: summarizeExpenses(expenses, period),
+      years: await getExpenseYears(req.userId!, period.basis),
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/expenses/export
+ * Download a year's expenses as a CSV file or a PDF statement
+ * Query params: ?format=csv|pdf&year=2025&basis=calendar|financial
+ */
+router.get("/export", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const format = (req.query.format as string | undefined) || "csv";
+    if (format !== "csv" && format !== "pdf") {
+      return res.status(400).json({
+        success: false,
+        message: "format must be 'csv' or 'pdf'",
+      });
+    }
+
+    const period = getRequestedPeriod(req, res);
+    if (!period) return;
+
+    const expenses = await storage.getExpenses(req.userId!, { from: period.from, to: period.to });
+    const fileName = `medical-expenses-${period.label.toLowerCase().replace(/\s+/g, "-")}.${format}`;
+
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.setHeader("Cache-Control", "private, no-store");
+
+    if (format === "csv") {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      return res.send(await buildExpenseCsv(expenses));
+    }
+
+    const user = await storage.getUser(req.userId!);
+    res.setHeader("Content-Type", "application/pdf");
+    res.send(renderExpenseStatementPdf(expenses, summarizeExpenses(expenses, period), user?.name ?? null));
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/expenses/extract
+ * Re-read the expense from a processed bill (e.g. one processed before extraction existed)
+ * Replaces an AI-extracted expense; an expense the user added or edited is kept
+ */
+router.post(
+  "/extract",
+  requireAuth,
+  validate(extractExpenseSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const document = await storage.getDocument(req.body.documentId);
+      if (!document || document.deletedAt || document.userId !== req.userId) {
+        return res.status(404).json({
+          success: false,
+          message: "Document not found",
+        });
+      }
+
+      if (document.type !== "billing") {
+        return res.status(400).json({
+          success: false,
+          message: "Expenses can only be extracted from bills",
+        });
+      }
+
+      if (!document.ocrProcessed || !document.extractedText) {
+        return res.status(409).json({
+          success: false,
+          message: "Document has not been processed yet",
+        });
+      }
+
+      const created = await extractExpenseFromDocument(document, document.extractedText);
+      const expenses = await storage.getExpenses(req.userId!, { documentId: document.id });
+
+      res.json({
+        success: true,
+        message: created ? "Expense extracted" : "No new expense was extracted",
+        expenses: await serializeExpenses(expenses),
+      });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/expenses/:id
+ * Get a specific expense
+ */
+router.get("/:id", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const expense = await getOwnedExpense(req, res);
+    if (!expense) return;
+
+    const [serialized] = await serializeExpenses([expense]);
+    res.json({
+      success: true,
+      expense: serialized,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/expenses
+ * Add an expense, optionally linked to a document
+ */
+router.post("/", requireAuth, validate(createExpenseSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const expense = await createExpense(req.userId!, req.body);
+
+    const [serialized] = await serializeExpenses([expense]);
+    res.status(201).json({
+      success: true,
+      message: "Expense added",
+      expense: serialized,
+    });
+  } catch (error: any) {
+    if (error instanceof ExpenseError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/expenses/:id
+ * Edit an expense or update its reimbursement status
+ */
+router.put("/:id", requireAuth, validate(updateExpenseSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const expense = await getOwnedExpense(req, res);
+    if (!expense) return;
+
+    const updated = await updateExpense(expense, req.body);
+
+    const [serialized] = await serializeExpenses([updated]);
+    res.json({
+      success: true,
+      message: "Expense updated",
+      expense: serialized,
+    });
+  } catch (error: any) {
+    if (error instanceof ExpenseError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/expenses/:id
+ * Delete an expense
+ * An extracted expense comes back if its bill is reprocessed
+ */
+router.delete("/:id", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const expense = await getOwnedExpense(req, res);
+    if (!expense) return;
+
+    await storage.deleteExpense(expense.id);
+
+    res.json({
+      success: true,
+      message: "Expense deleted successfully",
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+export default router;
@@ -6,7 +6,8 @@
 import { Router, type Request, Response, NextFunction } from "express";
 import { storage } from "../storage";
 import { requireAuth } from "../middleware/auth";
-import { OpenAIService } from "../services/openaiService";
+import { AIService } from "../services/aiService";
+import { buildLabTrends } from "../services/labObservationService";
 
 const router = Router();
 
@@ -74,8 +75,8 @@ router.get("/insights", async (req: Request, res: Response, next: NextFunction)
       });
     }
 
-    // Generate health summary using OpenAI with user's language preference
-    const summary = await OpenAIService.generateHealthSummary(documentsWithText, userLanguage);
+    // Generate health summary using the AI provider with user's language preference
+    const summary = await AIService.generateHealthSummary(documentsWithText, userLanguage);
 
     res.json({
       success: true,
@@ -87,5 +88,32 @@ router.get("/insights", async (req: Request, res: Response, next: NextFunction)
   }
 });
 
+/**
+ * GET /api/health/trends
+ * Get lab values over time, one series per analyte, across all lab reports
+ * Query: analyte (optional) - return only that analyte's series
+ */
+router.get("/trends", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+    }
+
+    const analyte = typeof req.query.analyte === "string" ? req.query.analyte : undefined;
+    const series = await buildLabTrends(userId, analyte);
+
+    res.json({
+      success: true,
+      series,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
 
@@ -0,0 +1,222 @@
+/**
+ * Inbox Routes
+ * Handles the private inbound email address and the review inbox of mailed-in documents
+ */
+
+import { Router, type Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { type InboundEmailItem } from "@shared/schema";
+import { storage } from "../storage";
+import { requireAuth } from "../middleware/auth";
+import { validate } from "../middleware/validation";
+import {
+  EmailIngestionError,
+  addTrustedSender,
+  approveInboundItem,
+  deleteInboundItem,
+  getOrCreateInboundAddress,
+  removeTrustedSender,
+  rotateInboundAddress,
+  serializeInboundAddress,
+  serializeInboundItem,
+} from "../services/emailIngestionService";
+
+const router = Router();
+
+// Validation schemas
+const trustedSenderSchema = z.object({
+  email: z.string().trim().email("Invalid email address"),
+});
+
+const approveItemSchema = z.object({
+  trustSender: z.boolean().optional(),
+});
+
+/**
+ * Load an inbox item owned by the current user, or send 404/403
+ */
+async function getOwnedItem(req: Request, res: Response): Promise<InboundEmailItem | null> {
+  const item = await storage.getInboundEmailItem(req.params.id);
+
+  if (!item) {
+    res.status(404).json({
+      success: false,
+      message: "Inbox item not found",
+    });
+    return null;
+  }
+
+  // Verify item belongs to user
+  if (item.userId !== req.userId) {
+    res.status(403).json({
+      success: false,
+      message: "Access denied",
+    });
+    return null;
+  }
+
+  return item;
+}
+
+/**
+ * GET /api/inbox/address
+ * Get the current user's inbound address and trusted senders (the address is created on first use)
+ */
+router.get("/address", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const address = await getOrCreateInboundAddress(req.userId!);
+
+    res.json({
+      success: true,
+      inbox: serializeInboundAddress(address),
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/inbox/address/rotate
+ * Replace the inbound address - mail sent to the old one is refused
+ */
+router.post("/address/rotate", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const address = await rotateInboundAddress(req.userId!);
+
+    res.json({
+      success: true,
+      message: "Inbound address changed",
+      inbox: serializeInboundAddress(address),
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/inbox/trusted-senders
+ * Trust a sender - their attachments are imported without review
+ */
+router.post(
+  "/trusted-senders",
+  requireAuth,
+  validate(trustedSenderSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const address = await addTrustedSender(req.userId!, req.body.email);
+
+      res.json({
+        success: true,
+        message: "Sender trusted",
+        inbox: serializeInboundAddress(address),
+      });
+    } catch (error: any) {
+      if (error instanceof EmailIngestionError) {
+        return res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/inbox/trusted-senders/:email
+ * Stop trusting a sender - their attachments wait for review again
+ */
+router.delete("/trusted-senders/:email", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const address = await removeTrustedSender(req.userId!, req.params.email);
+
+    res.json({
+      success: true,
+      message: "Sender removed",
+      inbox: serializeInboundAddress(address),
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/inbox/items
+ * List attachments received on the inbound address, newest first
+ * Query params: ?status=review|queued|imported|skipped|rejected|failed
+ */
+router.get("/items", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = req.query.status as string | undefined;
+    const items = await storage.getInboundEmailItems(req.userId!, { status });
+
+    res.json({
+      success: true,
+      items: items.map(serializeInboundItem),
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/inbox/items/:id/approve
+ * Import an attachment waiting for review (or retry a failed import)
+ * Body: { trustSender?: boolean } - also trust the sender and import their other waiting attachments
+ */
+router.post(
+  "/items/:id/approve",
+  requireAuth,
+  validate(approveItemSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const item = await getOwnedItem(req, res);
+      if (!item) return;
+
+      const queued = await approveInboundItem(item, req.body.trustSender === true);
+
+      res.json({
+        success: true,
+        message: "Import started",
+        item: serializeInboundItem(queued),
+      });
+    } catch (error: any) {
+      if (error instanceof EmailIngestionError) {
+        return res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/inbox/items/:id
+ * Discard an attachment waiting for review, or clear a finished item from the inbox
+ * Imported documents stay in the vault.
+ */
+router.delete("/items/:id", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const item = await getOwnedItem(req, res);
+    if (!item) return;
+
+    await deleteInboundItem(item);
+
+    res.json({
+      success: true,
+      message: "Inbox item removed",
+    });
+  } catch (error: any) {
+    if (error instanceof EmailIngestionError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    next(error);
+  }
+});
+
+export default router;
@@ -9,12 +9,11 @@ import { storage } from "../storage";
 import { requireAuth } from "../middleware/auth";
 import { validate } from "../middleware/validation";
 import { generateDefaultTiming, generateReminders } from "../services/medicationService";
-import { OpenAIService } from "../services/openaiService";
+import { AIService } from "../services/aiService";
 import multer from "multer";
 import { promises as fs } from "fs";
 import path from "path";
 import os from "os";
-import { SupabaseStorageService } from "../services/supabaseStorage";
 
 const router = Router();
 
@@ -477,11 +476,11 @@ router.post(
         });
       }
 
-      // Check if OpenAI API key is configured
-      if (!process.env.OPENAI_API_KEY) {
+      // Check if an AI provider is configured
+      if (!AIService.isConfigured()) {
         return res.status(500).json({
           success: false,
-          message: "AI processing is not configured. Please set OPENAI_API_KEY environment variable.",
+          message: "AI processing is not configured. Please set OPENAI_API_KEY, or AI_PROVIDER=local to use a local model.",
         });
       }
 
@@ -495,18 +494,13 @@ router.post(
                         req.file.mimetype.includes('image') ? 'IMAGE' :
                         req.file.mimetype.includes('word') ? 'DOCX' : 'OTHER';
 
-        // Use OpenAI service to extract text
+        // Use the AI service to extract text
         if (fileType === 'PDF') {
-          extractedText = await OpenAIService.extractTextFromPDF(fileBuffer);
+          extractedText = await AIService.extractTextFromPDF(fileBuffer);
         } else if (fileType === 'IMAGE') {
-          extractedText = await OpenAIService.extractTextFromImage(fileBuffer, req.file.mimetype);
+          extractedText = await AIService.extractTextFromImage(fileBuffer, req.file.mimetype);
         } else if (fileType === 'DOCX') {
-          // For DOCX, we might need a different approach
-          // For now, try to extract as image if possible, or return error
-          return res.status(400).json({
-            success: false,
-            message: "DOCX files are not yet supported for medication import. Please use PDF or image files.",
-          });
+          extractedText = await AIService.extractTextFromDOCX(fileBuffer);
         } else {
           return res.status(400).json({
             success: false,
@@ -534,7 +528,7 @@ router.post(
       }
 
       // Extract medications from text
-      const extractedMedications = await OpenAIService.extractMedications(extractedText, "prescription");
+      const extractedMedications = await AIService.extractMedications(extractedText, "prescription");
 
       if (!extractedMedications || extractedMedications.length === 0) {
         return res.status(200).json({
@@ -0,0 +1,182 @@
+/**
+ * Health Task Routes
+ * Handles follow-up tasks extracted from documents or added by the user
+ */
+
+import { Router, type Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { type HealthTask } from "@shared/schema";
+import { storage } from "../storage";
+import { requireAuth } from "../middleware/auth";
+import { validate } from "../middleware/validation";
+import {
+  HEALTH_TASK_STATUSES,
+  HealthTaskError,
+  createHealthTask,
+  serializeHealthTasks,
+  updateHealthTask,
+} from "../services/healthTaskService";
+
+const router = Router();
+
+const dateString = z.string().refine(
+  (val) => {
+    const dateRegex = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d{3})?)?Z?)?$/;
+    return dateRegex.test(val) && !isNaN(Date.parse(val));
+  },
+  { message: "Invalid date format" }
+);
+
+// Validation schemas
+const createTaskSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200, "Title must be less than 200 characters"),
+  notes: z.string().max(1000, "Notes must be less than 1000 characters").nullable().optional(),
+  dueDate: dateString.nullable().optional(),
+  remindAt: dateString.nullable().optional(),
+  sourceDocumentId: z.string().nullable().optional(),
+});
+
+const updateTaskSchema = createTaskSchema.partial().extend({
+  status: z.enum(HEALTH_TASK_STATUSES).optional(),
+});
+
+/**
+ * Load a task owned by the current user, or send 404/403
+ */
+async function getOwnedTask(req: Request, res: Response): Promise<HealthTask | null> {
+  const task = await storage.getHealthTask(req.params.id);
+
+  if (!task) {
+    res.status(404).json({
+      success: false,
+      message: "Task not found",
+    });
+    return null;
+  }
+
+  // Verify task belongs to user
+  if (task.userId !== req.userId) {
+    res.status(403).json({
+      success: false,
+      message: "Access denied",
+    });
+    return null;
+  }
+
+  return task;
+}
+
+/**
+ * GET /api/tasks
+ * List the current user's tasks, soonest due first
+ * Query params: ?status=pending|completed|dismissed&documentId=...
+ */
+router.get("/", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = req.query.status as string | undefined;
+    const documentId = req.query.documentId as string | undefined;
+    const tasks = await storage.getHealthTasks(req.userId!, { status, documentId });
+
+    res.json({
+      success: true,
+      tasks: await serializeHealthTasks(tasks),
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/tasks/:id
+ * Get a specific task
+ */
+router.get("/:id", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await getOwnedTask(req, res);
+    if (!task) return;
+
+    const [serialized] = await serializeHealthTasks([task]);
+    res.json({
+      success: true,
+      task: serialized,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tasks
+ * Add a task; a reminder is scheduled for the day before the due date unless remindAt is given
+ */
+router.post("/", requireAuth, validate(createTaskSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await createHealthTask(req.userId!, req.body);
+
+    const [serialized] = await serializeHealthTasks([task]);
+    res.status(201).json({
+      success: true,
+      message: "Task created",
+      task: serialized,
+    });
+  } catch (error: any) {
+    if (error instanceof HealthTaskError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/tasks/:id
+ * Edit, complete or dismiss a task
+ */
+router.put("/:id", requireAuth, validate(updateTaskSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await getOwnedTask(req, res);
+    if (!task) return;
+
+    const updated = await updateHealthTask(task, req.body);
+
+    const [serialized] = await serializeHealthTasks([updated]);
+    res.json({
+      success: true,
+      message: "Task updated",
+      task: serialized,
+    });
+  } catch (error: any) {
+    if (error instanceof HealthTaskError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/tasks/:id
+ * Delete a task
+ * Extracted tasks are better dismissed - a deleted one comes back if its document is reprocessed
+ */
+router.delete("/:id", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const task = await getOwnedTask(req, res);
+    if (!task) return;
+
+    await storage.deleteHealthTask(task.id);
+
+    res.json({
+      success: true,
+      message: "Task deleted successfully",
+    });
+  } catch (error: any) {
+    next(error);
+  }
+});
+
+export default router;
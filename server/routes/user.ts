@@ -4,10 +4,20 @@
  */
 
 import { Router, type Request, Response, NextFunction } from "express";
+import multer from "multer";
+import * as os from "os";
+import * as fs from "fs/promises";
 import { z } from "zod";
 import { storage } from "../storage";
 import { requireAuth } from "../middleware/auth";
 import { validate } from "../middleware/validation";
+import { type DataExport } from "@shared/schema";
+import {
+  requestDataExport,
+  readExportArchive,
+  isExportExpired,
+} from "../services/dataExportService";
+import { importVaultArchive, ImportError } from "../services/dataImportService";
 
 const router = Router();
 
@@ -222,5 +232,221 @@ router.put(
   }
 );
 
+/**
+ * Shape a data export for API responses
+ * The download link is only included once the archive is ready
+ */
+function serializeDataExport(dataExport: DataExport) {
+  const expired = isExportExpired(dataExport);
+  return {
+    id: dataExport.id,
+    status: expired ? "expired" : dataExport.status,
+    documentCount: dataExport.documentCount,
+    fileSize: dataExport.fileSize,
+    error: dataExport.error,
+    createdAt: dataExport.createdAt,
+    completedAt: dataExport.completedAt,
+    expiresAt: dataExport.expiresAt,
+    downloadUrl:
+      dataExport.status === "done" && !expired
+        ? `/api/user/export/${dataExport.id}/download`
+        : null,
+  };
+}
+
+/**
+ * POST /api/user/export
+ * Start a full export of the user's vault (ZIP of every document file and version plus a JSON manifest)
+ * The archive is built in the background; poll GET /api/user/export/:id for the download link
+ */
+router.post("/export", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+    }
+
+    const dataExport = await requestDataExport(req.userId);
+
+    res.status(202).json({
+      success: true,
+      message: "Export started. You will be notified when it is ready to download.",
+      export: serializeDataExport(dataExport),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/user/export
+ * List the user's exports, newest first
+ */
+router.get("/export", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+    }
+
+    const exports = await storage.getDataExportsByUserId(req.userId);
+
+    res.json({
+      success: true,
+      exports: exports.map(serializeDataExport),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/user/export/:id
+ * Get the status of an export
+ */
+router.get("/export/:id", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const dataExport = await storage.getDataExport(req.params.id);
+    if (!dataExport || dataExport.userId !== req.userId) {
+      return res.status(404).json({
+        success: false,
+        message: "Export not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      export: serializeDataExport(dataExport),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/user/export/:id/download
+ * Download a finished export archive
+ */
+router.get("/export/:id/download", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const dataExport = await storage.getDataExport(req.params.id);
+    if (!dataExport || dataExport.userId !== req.userId) {
+      return res.status(404).json({
+        success: false,
+        message: "Export not found",
+      });
+    }
+
+    if (dataExport.status !== "done") {
+      return res.status(409).json({
+        success: false,
+        message: "Export is not ready yet",
+      });
+    }
+
+    if (isExportExpired(dataExport)) {
+      return res.status(410).json({
+        success: false,
+        message: "Export has expired. Please start a new export.",
+      });
+    }
+
+    const archive = await readExportArchive(dataExport);
+    const date = dataExport.createdAt.toISOString().slice(0, 10);
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename="arogya-vault-export-${date}.zip"`);
+    res.setHeader("Cache-Control", "private, no-store");
+    res.send(archive);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Configure multer for vault archive uploads
+const importUpload = multer({
+  dest: os.tmpdir(),
+  limits: {
+    fileSize: 200 * 1024 * 1024, // 200MB
+  },
+  fileFilter: (req, file, cb) => {
+    const isZip =
+      file.mimetype === "application/zip" ||
+      file.mimetype === "application/x-zip-compressed" ||
+      file.originalname.toLowerCase().endsWith(".zip");
+    if (isZip) {
+      cb(null, true);
+    } else {
+      cb(new Error("Vault archives must be ZIP files exported from Arogya Vault"));
+    }
+  },
+});
+
+/**
+ * POST /api/user/import
+ * Import a vault export archive (manifest plus files) into the current user's vault
+ * Creates documents with their versions, medications, the emergency card and nominees with new IDs,
+ * skipping anything that already exists. Pass dryRun=true to only report what would be created.
+ */
+router.post(
+  "/import",
+  (req: Request, res: Response, next: NextFunction) => {
+    importUpload.single("archive")(req, res, (err: any) => {
+      if (err) {
+        return res.status(400).json({
+          success: false,
+          message: err.message || "File upload error",
+        });
+      }
+      next();
+    });
+  },
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({
+          success: false,
+          message: "Authentication required",
+        });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: "Archive file is required",
+        });
+      }
+
+      const dryRun = String(req.query.dryRun ?? req.body?.dryRun ?? "false") === "true";
+
+      try {
+        const archive = await fs.readFile(req.file.path);
+        const report = await importVaultArchive(req.userId, archive, { dryRun });
+
+        res.status(dryRun ? 200 : 201).json({
+          success: true,
+          message: dryRun ? "Dry run complete. Nothing was imported." : "Vault imported successfully",
+          ...report,
+        });
+      } catch (error) {
+        if (error instanceof ImportError) {
+          return res.status(400).json({
+            success: false,
+            message: error.message,
+          });
+        }
+        throw error;
+      } finally {
+        await fs.unlink(req.file.path).catch(() => {});
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
 
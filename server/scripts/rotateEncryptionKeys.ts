@@ -0,0 +1,44 @@
+/**
+ * Rotate the Encryption Master Key
+ *
+ * Re-wraps every user's data key with the current master key. Files are not
+ * re-encrypted - only the small wrapped keys in user_encryption_keys change.
+ *
+ * Steps:
+ *   1. Move the old key to ENCRYPTION_PREVIOUS_MASTER_KEYS (comma-separated)
+ *   2. Set the new key as ENCRYPTION_MASTER_KEY
+ *   3. Run: npm run keys:rotate
+ *   4. Once it reports no failures, the old key can be removed
+ */
+
+import "dotenv/config";
+import { getMasterKeyId, rotateMasterKey } from "../services/encryptionService";
+
+async function rotateEncryptionKeys() {
+  console.log(`🔑 Re-wrapping data keys with master key ${getMasterKeyId()}...`);
+  console.log("");
+
+  const result = await rotateMasterKey();
+
+  console.log(`Total keys:       ${result.total}`);
+  console.log(`Re-wrapped:       ${result.rotated}`);
+  console.log(`Already current:  ${result.alreadyCurrent}`);
+  console.log(`Failed:           ${result.failed.length}`);
+  console.log("");
+
+  if (result.failed.length > 0) {
+    console.error("❌ Some keys could not be re-wrapped. Keep the old master key configured and re-run:");
+    for (const failure of result.failed) {
+      console.error(`   - user ${failure.userId}: ${failure.error}`);
+    }
+    process.exit(1);
+  }
+
+  console.log("✅ All data keys are wrapped with the current master key.");
+  console.log("   The previous master key can now be removed from ENCRYPTION_PREVIOUS_MASTER_KEYS.");
+}
+
+rotateEncryptionKeys().catch((error) => {
+  console.error("❌ Key rotation failed:", error.message);
+  process.exit(1);
+});
@@ -1,17 +1,21 @@
 /**
- * OpenAI Service
- * Handles OCR text extraction, embedding generation, and metadata extraction for documents
+ * AI Service
+ * Handles OCR text extraction, embedding generation, metadata extraction, insights and chat for documents
+ * Model calls go through the configured LLM provider (see llmProvider.ts)
  */
 
-import OpenAI from "openai";
+import { createCanvas } from "@napi-rs/canvas";
+import { config } from "../config";
+import { extractDocxContent } from "./docxService";
+import { getLLMProvider, type LLMMessage } from "./llmProvider";
 
-const openaiApiKey = process.env.OPENAI_API_KEY;
+const OCR_PROMPT =
+  "Extract all text from this medical document. Include all details like patient name, date, test results, values, units, and any other information. Return the text in a structured format if possible.";
 
-if (!openaiApiKey) {
-  console.warn("[OpenAI Service] Warning: OPENAI_API_KEY not set in environment variables");
-}
+// A PDF page with less text than this is treated as a scan and sent to OCR
+const MIN_PAGE_TEXT_LENGTH = 50;
 
-const openai = openaiApiKey ? new OpenAI({ apiKey: openaiApiKey }) : null;
+const PDF_OCR_RENDER_WIDTH = 1600; // Pixels
 
 export interface ExtractedMetadata {
   title?: string;
@@ -21,9 +25,37 @@ export interface ExtractedMetadata {
   tags?: string[];
 }
 
-export class OpenAIService {
+export interface ExtractedLabObservation {
+  analyte: string; // Test name as printed
+  value: string; // Result as printed
+  unit?: string | null;
+  referenceRange?: string | null;
+  flag?: "low" | "high" | "abnormal" | "normal" | null; // Flag printed on the report, if any
+  specimenDate?: string | null; // ISO date the sample was collected
+}
+
+export interface ExtractedBillingDetails {
+  payee?: string | null; // Hospital, pharmacy, lab or insurer that issued the bill
+  invoiceNumber?: string | null;
+  paymentDate?: string | null; // ISO date of the bill / receipt
+  totalAmount?: number | null; // Amount paid including GST
+  gstAmount?: number | null; // Total GST (CGST + SGST + IGST)
+  payer?: string | null; // Person the bill is made out to
+  category?: string | null;
+  description?: string | null;
+}
+
+export interface ExtractedFollowUp {
+  title: string; // Short task title, e.g. "Repeat lipid profile"
+  sourceText: string; // Instruction as printed
+  date?: string | null; // ISO date, when the instruction gives one
+  amount?: number | null; // Relative time from the document date ("after 2 weeks" -> 2 week)
+  unit?: "day" | "week" | "month" | "year" | null;
+}
+
+export class AIService {
   /**
-   * Extract text from an image using GPT-4 Vision API
+   * Extract text from an image with the provider's vision model
    * @param file - Image file buffer
    * @param mimeType - MIME type of the image (e.g., 'image/jpeg', 'image/png')
    * @returns Extracted text from the image
@@ -32,106 +64,148 @@ export class OpenAIService {
     file: Buffer,
     mimeType: string
   ): Promise<string> {
-    if (!openai) {
-      throw new Error("OpenAI API key not configured");
+    const llm = getLLMProvider();
+    if (!llm.isConfigured()) {
+      throw new Error("AI provider not configured");
+    }
+    if (!llm.supportsVision()) {
+      throw new Error("AI provider has no vision model for OCR");
     }
 
     try {
-      console.log(`[OpenAI] Extracting text from image (${mimeType})`);
-      
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: "Extract all text from this medical document. Include all details like patient name, date, test results, values, units, and any other information. Return the text in a structured format if possible.",
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:${mimeType};base64,${file.toString("base64")}`,
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 4000,
-      });
+      console.log(`[AI] Extracting text from image (${mimeType})`);
 
-      const extractedText = response.choices[0]?.message?.content || "";
-      console.log(`[OpenAI] Extracted ${extractedText.length} characters from image`);
+      const extractedText = await llm.extractText(file, mimeType, OCR_PROMPT);
+      console.log(`[AI] Extracted ${extractedText.length} characters from image`);
       
       return extractedText;
     } catch (error: any) {
-      console.error("[OpenAI] Error extracting text from image:", error);
+      console.error("[AI] Error extracting text from image:", error);
       throw new Error(`Failed to extract text from image: ${error.message}`);
     }
   }
 
   /**
    * Extract text from a PDF file
-   * For PDFs, we'll convert pages to images first, then extract text
-   * Note: This is a simplified approach. For production, consider using pdf-parse or similar
+   * Providers that accept PDFs get the whole file; otherwise each page's text layer is read
+   * and pages without one (scans) are rendered and sent to image OCR
    * @param file - PDF file buffer
    * @returns Extracted text from the PDF
    */
   static async extractTextFromPDF(file: Buffer): Promise<string> {
-    if (!openai) {
-      throw new Error("OpenAI API key not configured");
+    const llm = getLLMProvider();
+    if (!llm.isConfigured()) {
+      throw new Error("AI provider not configured");
     }
 
     try {
-      console.log(`[OpenAI] Extracting text from PDF`);
-      
-      // Convert PDF to base64
-      const base64Pdf = file.toString("base64");
-      
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: "Extract all text from this medical document PDF. Include all details like patient name, date, test results, values, units, and any other information. Return the text in a structured format if possible.",
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:application/pdf;base64,${base64Pdf}`,
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 4000,
-      });
+      console.log(`[AI] Extracting text from PDF`);
 
-      const extractedText = response.choices[0]?.message?.content || "";
-      console.log(`[OpenAI] Extracted ${extractedText.length} characters from PDF`);
+      const extractedText = llm.supportsPdfInput()
+        ? await llm.extractText(file, "application/pdf", OCR_PROMPT)
+        : await this.extractTextFromPDFPages(file);
+      console.log(`[AI] Extracted ${extractedText.length} characters from PDF`);
       
       return extractedText;
     } catch (error: any) {
-      console.error("[OpenAI] Error extracting text from PDF:", error);
+      console.error("[AI] Error extracting text from PDF:", error);
       // If PDF extraction fails, try alternative approach
       // For now, return empty string and log the error
-      console.warn("[OpenAI] PDF text extraction failed, returning empty string");
+      console.warn("[AI] PDF text extraction failed, returning empty string");
       return "";
     }
   }
 
   /**
-   * Generate embedding for text using OpenAI's embedding model
+   * Read a PDF page by page - the text layer where there is one, OCR of the rendered page otherwise
+   * At most config.ai.maxPdfPages pages are read.
+   */
+  private static async extractTextFromPDFPages(file: Buffer): Promise<string> {
+    // Loaded on first use - the preview service imports the processing service, which imports this one
+    const { openPdf, renderPdfPage, withRenderSlot } = await import("./documentPreviewService");
+    const llm = getLLMProvider();
+    const pdf = await openPdf(file);
+    const pages: string[] = [];
+
+    try {
+      const pageCount = Math.min(pdf.numPages, config.ai.maxPdfPages);
+      if (pdf.numPages > pageCount) {
+        console.warn(`[AI] Reading the first ${pageCount} of ${pdf.numPages} PDF pages`);
+      }
+
+      for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        const pageText = content.items
+          .map((item: any) => (item.str ?? "") + (item.hasEOL ? "\n" : ""))
+          .join("")
+          .trim();
+
+        if (pageText.length >= MIN_PAGE_TEXT_LENGTH || !llm.supportsVision()) {
+          if (pageText) pages.push(pageText);
+          continue;
+        }
+
+        const image = await withRenderSlot(async () => {
+          const viewport = page.getViewport({ scale: PDF_OCR_RENDER_WIDTH / page.getViewport({ scale: 1 }).width });
+          const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+          const context = canvas.getContext("2d");
+          context.fillStyle = "#ffffff";
+          context.fillRect(0, 0, canvas.width, canvas.height);
+          await renderPdfPage(page, canvas, viewport);
+          return canvas.encode("jpeg", 85);
+        });
+        const ocrText = (await llm.extractText(image, "image/jpeg", OCR_PROMPT)).trim();
+        if (ocrText) pages.push(ocrText);
+      }
+    } finally {
+      await pdf.destroy();
+    }
+
+    return pages.join("\n\n");
+  }
+
+  /**
+   * Extract text from a Word (.docx) document
+   * Body text and tables are parsed natively; embedded images are sent to image OCR
+   * @param file - DOCX file buffer
+   * @returns Extracted text, with OCR text of each embedded image appended
+   */
+  static async extractTextFromDOCX(file: Buffer): Promise<string> {
+    const { text, images } = await extractDocxContent(file);
+    console.log(`[AI] Parsed DOCX: ${text.length} characters, ${images.length} embedded image(s)`);
+
+    const sections = text ? [text] : [];
+
+    // Scanned reports pasted into Word only carry their content as images
+    const llm = getLLMProvider();
+    if (llm.isConfigured() && llm.supportsVision()) {
+      for (const image of images) {
+        try {
+          const imageText = await this.extractTextFromImage(image.buffer, image.mimeType);
+          if (imageText.trim().length > 0) {
+            sections.push(`[Embedded image: ${image.fileName}]\n${imageText}`);
+          }
+        } catch (error: any) {
+          console.error(`[AI] OCR failed for embedded image ${image.fileName}:`, error.message);
+        }
+      }
+    } else if (images.length > 0) {
+      console.warn("[AI] No vision model configured, skipping OCR of embedded DOCX images");
+    }
+
+    return sections.join("\n\n");
+  }
+
+  /**
+   * Generate embedding for text with the provider's embedding model
    * @param text - Text to generate embedding for
    * @returns Embedding vector as JSON string
    */
   static async generateEmbedding(text: string): Promise<string> {
-    if (!openai) {
-      throw new Error("OpenAI API key not configured");
+    const llm = getLLMProvider();
+    if (!llm.isConfigured()) {
+      throw new Error("AI provider not configured");
     }
 
     if (!text || text.trim().length === 0) {
@@ -139,21 +213,16 @@ export class OpenAIService {
     }
 
     try {
-      console.log(`[OpenAI] Generating embedding for text (${text.length} chars)`);
-      
-      const response = await openai.embeddings.create({
-        model: "text-embedding-3-small",
-        input: text.substring(0, 8000), // Limit to 8000 chars to avoid token limits
-      });
+      console.log(`[AI] Generating embedding for text (${text.length} chars)`);
 
-      const embedding = response.data[0]?.embedding || [];
+      const embedding = await llm.embed(text.substring(0, 8000)); // Limit to 8000 chars to avoid token limits
       const embeddingJson = JSON.stringify(embedding);
       
-      console.log(`[OpenAI] Generated embedding with ${embedding.length} dimensions`);
+      console.log(`[AI] Generated embedding with ${embedding.length} dimensions`);
       
       return embeddingJson;
     } catch (error: any) {
-      console.error("[OpenAI] Error generating embedding:", error);
+      console.error("[AI] Error generating embedding:", error);
       throw new Error(`Failed to generate embedding: ${error.message}`);
     }
   }
@@ -164,8 +233,9 @@ export class OpenAIService {
    * @returns Extracted metadata (title, provider, date, documentType, tags)
    */
   static async extractMetadata(extractedText: string): Promise<ExtractedMetadata> {
-    if (!openai) {
-      throw new Error("OpenAI API key not configured");
+    const llm = getLLMProvider();
+    if (!llm.isConfigured()) {
+      throw new Error("AI provider not configured");
     }
 
     if (!extractedText || extractedText.trim().length === 0) {
@@ -173,11 +243,10 @@ export class OpenAIService {
     }
 
     try {
-      console.log(`[OpenAI] Extracting metadata from text (${extractedText.length} chars)`);
+      console.log(`[AI] Extracting metadata from text (${extractedText.length} chars)`);
       
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini", // Use cheaper model for metadata extraction
-        messages: [
+      const metadata = await llm.completeJson<ExtractedMetadata>(
+        [
           {
             role: "system",
             content: `You are a medical document parser. Extract key information from medical documents.
@@ -205,18 +274,14 @@ If information is not found, use null for that field.`,
             content: `Extract metadata from this medical document:\n\n${extractedText.substring(0, 3000)}`, // Limit to 3000 chars
           },
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 300,
-      });
-
-      const content = response.choices[0]?.message?.content || "{}";
-      const metadata = JSON.parse(content) as ExtractedMetadata;
+        { task: "metadata", maxTokens: 300 }
+      );
       
-      console.log(`[OpenAI] Extracted metadata:`, metadata);
+      console.log(`[AI] Extracted metadata:`, metadata);
       
       return metadata;
     } catch (error: any) {
-      console.error("[OpenAI] Error extracting metadata:", error);
+      console.error("[AI] Error extracting metadata:", error);
       return {};
     }
   }
@@ -234,24 +299,24 @@ If information is not found, use null for that field.`,
     fileBuffer: Buffer,
     mimeType: string
   ): Promise<{ isValid: boolean; reason: string }> {
-    if (!openai) {
-      // If OpenAI is not configured, allow all documents (fallback)
-      console.warn("[OpenAI] OpenAI not configured, skipping medical validation");
-      return { isValid: true, reason: "OpenAI not configured" };
+    const llm = getLLMProvider();
+    if (!llm.isConfigured()) {
+      // If no AI provider is configured, allow all documents (fallback)
+      console.warn("[AI] AI provider not configured, skipping medical validation");
+      return { isValid: true, reason: "AI provider not configured" };
     }
 
     try {
-      console.log(`[OpenAI] Validating if document is medical-related`);
-      console.log(`[OpenAI] Extracted text length: ${extractedText.length} chars`);
-      console.log(`[OpenAI] File buffer size: ${fileBuffer.length} bytes`);
-      console.log(`[OpenAI] MIME type: ${mimeType}`);
+      console.log(`[AI] Validating if document is medical-related`);
+      console.log(`[AI] Extracted text length: ${extractedText.length} chars`);
+      console.log(`[AI] File buffer size: ${fileBuffer.length} bytes`);
+      console.log(`[AI] MIME type: ${mimeType}`);
 
       // If we have extracted text, use it for validation
       if (extractedText && extractedText.trim().length > 0) {
-        console.log(`[OpenAI] Using text-based validation`);
-        const response = await openai.chat.completions.create({
-          model: "gpt-4o-mini", // Use cheaper model for validation
-          messages: [
+        console.log(`[AI] Using text-based validation`);
+        const validation = await llm.completeJson(
+          [
             {
               role: "system",
               content: `You are a medical document validator. Your task is to determine if a document is a medical document or not.
@@ -289,26 +354,25 @@ Respond ONLY with a JSON object in this exact format:
               content: `Analyze this document text and determine if it is a medical document:\n\n${extractedText.substring(0, 3000)}`, // Limit to 3000 chars
             },
           ],
-          response_format: { type: "json_object" },
-          max_tokens: 200,
-        });
-
-        const content = response.choices[0]?.message?.content || "{}";
-        const validation = JSON.parse(content);
+          { task: "validation", maxTokens: 200 }
+        );
 
         const isValid = validation.isMedical === true;
         const reason = validation.reason || (isValid ? "Document appears to be medical-related" : "Document does not appear to be a medical document");
 
-        console.log(`[OpenAI] Medical validation result: ${isValid ? "VALID" : "INVALID"} - ${reason}`);
+        console.log(`[AI] Medical validation result: ${isValid ? "VALID" : "INVALID"} - ${reason}`);
 
         return { isValid, reason };
       } else {
         // If no text extracted, try to analyze the image directly
-        console.log("[OpenAI] No text extracted, analyzing image directly for medical content");
-
-        const response = await openai.chat.completions.create({
-          model: "gpt-4o",
-          messages: [
+        console.log("[AI] No text extracted, analyzing image directly for medical content");
+        if (!llm.supportsVision() || (mimeType === "application/pdf" && !llm.supportsPdfInput())) {
+          console.warn("[AI] AI provider can't analyze this file, skipping medical validation");
+          return { isValid: true, reason: "AI provider can't analyze this file" };
+        }
+
+        const validation = await llm.completeJson(
+          [
             {
               role: "system",
               content: `You are a medical document validator. Analyze this image and determine if it is a medical document.
@@ -331,30 +395,25 @@ Respond ONLY with a JSON object:
                   text: "Is this image a medical document? Analyze the content and determine if it's related to health or medical care.",
                 },
                 {
-                  type: "image_url",
-                  image_url: {
-                    url: `data:${mimeType};base64,${fileBuffer.toString("base64")}`,
-                  },
+                  type: "image",
+                  data: fileBuffer,
+                  mimeType,
                 },
               ],
             },
           ],
-          response_format: { type: "json_object" },
-          max_tokens: 200,
-        });
-
-        const content = response.choices[0]?.message?.content || "{}";
-        const validation = JSON.parse(content);
+          { task: "validation", maxTokens: 200 }
+        );
 
         const isValid = validation.isMedical === true;
         const reason = validation.reason || (isValid ? "Document appears to be medical-related" : "Document does not appear to be a medical document");
 
-        console.log(`[OpenAI] Medical validation result (image analysis): ${isValid ? "VALID" : "INVALID"} - ${reason}`);
+        console.log(`[AI] Medical validation result (image analysis): ${isValid ? "VALID" : "INVALID"} - ${reason}`);
 
         return { isValid, reason };
       }
     } catch (error: any) {
-      console.error("[OpenAI] Error validating medical document:", error);
+      console.error("[AI] Error validating medical document:", error);
       // On error, allow the document (fail open) but log the error
       return {
         isValid: true,
@@ -363,6 +422,45 @@ Respond ONLY with a JSON object:
     }
   }
 
+  /**
+   * Check whether the configured AI provider can be used
+   */
+  static isConfigured(): boolean {
+    return getLLMProvider().isConfigured();
+  }
+
+  /**
+   * Extract text from a file, choosing the extractor by file type
+   * Unlike processDocument, errors are thrown so callers can retry
+   * @param file - File buffer
+   * @param fileType - File type (e.g., 'JPG', 'PNG', 'PDF', 'DOCX')
+   * @param mimeType - MIME type of the file
+   * @returns Extracted text (empty for unsupported file types)
+   */
+  static async extractText(
+    file: Buffer,
+    fileType: string,
+    mimeType: string
+  ): Promise<string> {
+    if (fileType === "PDF" || mimeType === "application/pdf") {
+      return this.extractTextFromPDF(file);
+    }
+    if (
+      fileType === "JPG" ||
+      fileType === "PNG" ||
+      fileType === "IMAGE" ||
+      mimeType.startsWith("image/")
+    ) {
+      return this.extractTextFromImage(file, mimeType);
+    }
+    if (fileType === "DOCX" || mimeType.includes("word")) {
+      return this.extractTextFromDOCX(file);
+    }
+
+    console.warn(`[AI] Unsupported file type for OCR: ${fileType}`);
+    return "";
+  }
+
   /**
    * Process a document: extract text and generate embedding
    * @param file - File buffer
@@ -376,31 +474,13 @@ Respond ONLY with a JSON object:
     mimeType: string
   ): Promise<{ extractedText: string; embedding: string }> {
     try {
-      let extractedText = "";
-
       // Extract text based on file type
-      if (fileType === "PDF" || mimeType === "application/pdf") {
-        extractedText = await this.extractTextFromPDF(file);
-      } else if (
-        fileType === "JPG" ||
-        fileType === "PNG" ||
-        fileType === "IMAGE" ||
-        mimeType.startsWith("image/")
-      ) {
-        extractedText = await this.extractTextFromImage(file, mimeType);
-      } else if (fileType === "DOCX" || mimeType.includes("word")) {
-        // For DOCX, we might need to convert to text first
-        // For now, return empty string (can be enhanced later)
-        console.warn("[OpenAI] DOCX text extraction not yet implemented");
-        extractedText = "";
-      } else {
-        console.warn(`[OpenAI] Unsupported file type for OCR: ${fileType}`);
-        extractedText = "";
-      }
+      const extractedText = await this.extractText(file, fileType, mimeType);
 
       // Generate embedding from extracted text
+      // DOCX text is parsed locally, so there may be text even without an AI provider
       let embedding = "";
-      if (extractedText && extractedText.trim().length > 0) {
+      if (extractedText && extractedText.trim().length > 0 && this.isConfigured()) {
         embedding = await this.generateEmbedding(extractedText);
       } else {
         embedding = JSON.stringify([]);
@@ -411,7 +491,7 @@ Respond ONLY with a JSON object:
         embedding,
       };
     } catch (error: any) {
-      console.error("[OpenAI] Error processing document:", error);
+      console.error("[AI] Error processing document:", error);
       // Return empty values on error - don't block document creation
       return {
         extractedText: "",
@@ -435,8 +515,9 @@ Respond ONLY with a JSON object:
     summary: string;
     hasFullAnalysis: boolean;
   }> {
-    if (!openai) {
-      console.warn("[OpenAI] OpenAI not configured, returning default insight");
+    const llm = getLLMProvider();
+    if (!llm.isConfigured()) {
+      console.warn("[AI] AI provider not configured, returning default insight");
       return {
         status: "none",
         summary: "",
@@ -457,7 +538,7 @@ Respond ONLY with a JSON object:
       }
 
     try {
-      console.log(`[OpenAI] Generating health insight for ${documentType} document (language: ${language})`);
+      console.log(`[AI] Generating health insight for ${documentType} document (language: ${language})`);
 
       const languageInstruction = isHindi 
         ? 'IMPORTANT: Respond in Hindi (हिंदी). All text, summaries, and messages must be in Hindi.'
@@ -531,9 +612,8 @@ Respond ONLY with a JSON object:
         };
       }
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
+      const insight = await llm.completeJson(
+        [
           {
             role: "system",
             content: systemPrompt,
@@ -543,14 +623,10 @@ Respond ONLY with a JSON object:
             content: `Analyze this ${documentType} document and provide health insights:\n\n${extractedText.substring(0, 4000)}`,
           },
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 500,
-      });
-
-      const content = response.choices[0]?.message?.content || "{}";
-      const insight = JSON.parse(content);
+        { task: "insight", maxTokens: 500 }
+      );
 
-      console.log(`[OpenAI] Generated document insight:`, insight);
+      console.log(`[AI] Generated document insight:`, insight);
 
       return {
         status: insight.status || "none",
@@ -558,7 +634,7 @@ Respond ONLY with a JSON object:
         hasFullAnalysis: insight.hasFullAnalysis === true,
       };
     } catch (error: any) {
-      console.error("[OpenAI] Error generating document insight:", error);
+      console.error("[AI] Error generating document insight:", error);
       const isHindi = language === 'hi';
       return {
         status: "none",
@@ -589,8 +665,9 @@ Respond ONLY with a JSON object:
   }> {
     const isHindi = language === 'hi';
     
-    if (!openai) {
-      console.warn("[OpenAI] OpenAI not configured, returning default summary");
+    const llm = getLLMProvider();
+    if (!llm.isConfigured()) {
+      console.warn("[AI] AI provider not configured, returning default summary");
       return {
         status: "good",
         message: isHindi 
@@ -609,7 +686,7 @@ Respond ONLY with a JSON object:
     }
 
     try {
-      console.log(`[OpenAI] Generating health summary for ${documents.length} documents (language: ${language})`);
+      console.log(`[AI] Generating health summary for ${documents.length} documents (language: ${language})`);
 
       // Prepare document summaries for analysis
       const documentSummaries = documents
@@ -633,9 +710,8 @@ Respond ONLY with a JSON object:
         ? 'IMPORTANT: Respond in Hindi (हिंदी). All text, summaries, and messages must be in Hindi.'
         : 'Respond in English.';
       
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
+      const summary = await llm.completeJson(
+        [
           {
             role: "system",
             content: `You are a medical AI assistant providing overall health insights based on a patient's medical documents. ${languageInstruction}
@@ -660,14 +736,10 @@ Respond ONLY with a JSON object:
             content: `Analyze these medical documents and provide an overall health summary:\n\n${documentSummaries}`,
           },
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 300,
-      });
+        { task: "healthSummary", maxTokens: 300 }
+      );
 
-      const content = response.choices[0]?.message?.content || "{}";
-      const summary = JSON.parse(content);
-
-      console.log(`[OpenAI] Generated health summary:`, summary);
+      console.log(`[AI] Generated health summary:`, summary);
 
       return {
         status: summary.status || "good",
@@ -676,7 +748,7 @@ Respond ONLY with a JSON object:
           : "Based on your latest reports, all values are within normal range. Keep up the healthy lifestyle!"),
       };
     } catch (error: any) {
-      console.error("[OpenAI] Error generating health summary:", error);
+      console.error("[AI] Error generating health summary:", error);
       return {
         status: "good",
         message: isHindi
@@ -703,8 +775,9 @@ Respond ONLY with a JSON object:
     duration?: string; // Duration or end date if specified
     instructions?: string; // Instructions like "with food", "before meals"
   }>> {
-    if (!openai) {
-      console.warn("[OpenAI] OpenAI not configured, returning empty medications array");
+    const llm = getLLMProvider();
+    if (!llm.isConfigured()) {
+      console.warn("[AI] AI provider not configured, returning empty medications array");
       return [];
     }
 
@@ -713,7 +786,7 @@ Respond ONLY with a JSON object:
     }
 
     try {
-      console.log(`[OpenAI] Extracting medications from ${documentType} document`);
+      console.log(`[AI] Extracting medications from ${documentType} document`);
 
       const systemPrompt = `You are a medical AI assistant that extracts medication information from medical documents, especially prescriptions.
 
@@ -752,9 +825,8 @@ Return ONLY a JSON object in this exact format:
 
 If no medications are found, return { "medications": [] }.`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
+      const parsed = await llm.completeJson(
+        [
           {
             role: "system",
             content: systemPrompt,
@@ -764,12 +836,8 @@ If no medications are found, return { "medications": [] }.`;
             content: `Extract medications from this ${documentType} document:\n\n${extractedText.substring(0, 4000)}`,
           },
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 1000,
-      });
-
-      const content = response.choices[0]?.message?.content || "{}";
-      const parsed = JSON.parse(content);
+        { task: "medications", maxTokens: 1000 }
+      );
       
       // Handle both { medications: [...] } and [...] formats
       // The system prompt asks for an array, but with json_object format, it might wrap it
@@ -785,20 +853,251 @@ If no medications are found, return { "medications": [] }.`;
       }
       
       if (!Array.isArray(medications)) {
-        console.warn("[OpenAI] Medications extraction returned non-array, returning empty array");
+        console.warn("[AI] Medications extraction returned non-array, returning empty array");
         return [];
       }
 
-      console.log(`[OpenAI] Extracted ${medications.length} medications`);
+      console.log(`[AI] Extracted ${medications.length} medications`);
       return medications;
     } catch (error: any) {
-      console.error("[OpenAI] Error extracting medications:", error);
+      console.error("[AI] Error extracting medications:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Extract structured lab results from a lab report
+   * @param extractedText - OCR text of the lab report
+   * @returns One entry per analyte, in report order (empty if none found)
+   */
+  static async extractLabObservations(extractedText: string): Promise<ExtractedLabObservation[]> {
+    const llm = getLLMProvider();
+    if (!llm.isConfigured()) {
+      console.warn("[AI] AI provider not configured, returning empty observations array");
+      return [];
+    }
+
+    if (!extractedText || extractedText.trim().length === 0) {
+      return [];
+    }
+
+    try {
+      console.log("[AI] Extracting lab observations");
+
+      const systemPrompt = `You are a medical AI assistant that extracts structured test results from lab reports.
+
+For every test result in the report, extract:
+1. **analyte**: The test name exactly as printed (e.g., "Haemoglobin", "TSH", "Fasting Blood Sugar")
+2. **value**: The result exactly as printed, without the unit (e.g., "13.2", "<0.5", "Negative", "1+")
+3. **unit**: The unit (e.g., "g/dL", "mg/dL", "mIU/L"), or null if none
+4. **referenceRange**: The reference / normal range exactly as printed (e.g., "13.0 - 17.0", "< 200"), or null if none
+5. **flag**: "low", "high" or "abnormal" if the report flags the result (H, L, *, bold, "High"...), "normal" if it is explicitly marked normal, otherwise null
+6. **specimenDate**: The sample collection date in ISO format (YYYY-MM-DD), or null if not printed
+
+Rules:
+- Only include actual results - skip section headings, methods, comments and patient details.
+- Keep the order in which results appear in the report.
+- Never guess a value that is not printed.
+
+Return ONLY a JSON object in this exact format:
+{
+  "observations": [
+    {
+      "analyte": "string",
+      "value": "string",
+      "unit": "string" or null,
+      "referenceRange": "string" or null,
+      "flag": "low" | "high" | "abnormal" | "normal" | null,
+      "specimenDate": "YYYY-MM-DD" or null
+    }
+  ]
+}
+
+If no results are found, return { "observations": [] }.`;
+
+      const parsed = await llm.completeJson(
+        [
+          {
+            role: "system",
+            content: systemPrompt,
+          },
+          {
+            role: "user",
+            content: `Extract the test results from this lab report:\n\n${extractedText.substring(0, 8000)}`,
+          },
+        ],
+        { task: "labObservations", maxTokens: 3000 }
+      );
+      const observations = Array.isArray(parsed) ? parsed : parsed.observations;
+
+      if (!Array.isArray(observations)) {
+        console.warn("[AI] Lab observation extraction returned non-array, returning empty array");
+        return [];
+      }
+
+      // Drop malformed rows rather than failing the whole report
+      const valid = observations.filter(
+        (o: any) => o && typeof o.analyte === "string" && o.analyte.trim() && o.value !== undefined && o.value !== null
+      ).map((o: any) => ({ ...o, value: String(o.value) }));
+
+      console.log(`[AI] Extracted ${valid.length} lab observations`);
+      return valid;
+    } catch (error: any) {
+      console.error("[AI] Error extracting lab observations:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Extract payment details from a bill, receipt or premium statement
+   * @param extractedText - OCR text of the billing document
+   * @returns Billing details, or null if no amount could be found
+   */
+  static async extractBillingDetails(extractedText: string): Promise<ExtractedBillingDetails | null> {
+    const llm = getLLMProvider();
+    if (!llm.isConfigured()) {
+      console.warn("[AI] AI provider not configured, skipping billing extraction");
+      return null;
+    }
+
+    if (!extractedText || extractedText.trim().length === 0) {
+      return null;
+    }
+
+    try {
+      console.log("[AI] Extracting billing details");
+
+      const systemPrompt = `You are a medical AI assistant that extracts payment details from Indian medical bills, pharmacy receipts and health insurance premium receipts.
+
+Extract:
+1. **payee**: The hospital, clinic, pharmacy, lab or insurer that issued the bill
+2. **invoiceNumber**: The bill / invoice / receipt number, or null
+3. **paymentDate**: The bill or payment date in ISO format (YYYY-MM-DD), or null
+4. **totalAmount**: The final amount paid in rupees including GST (the grand total / net payable), as a number
+5. **gstAmount**: The total GST charged (CGST + SGST + IGST) as a number, or null if none is printed
+6. **payer**: The patient or policy holder the bill is made out to, or null
+7. **category**: One of "consultation", "diagnostics", "medicines", "hospitalization", "insurance_premium", "preventive_checkup", "other"
+8. **description**: A short description of what was paid for (e.g., "OPD consultation", "Complete blood count")
+
+Rules:
+- Amounts must be plain numbers without currency symbols or commas.
+- Never guess an amount that is not printed.
+
+Return ONLY a JSON object in this exact format:
+{
+  "payee": "string" or null,
+  "invoiceNumber": "string" or null,
+  "paymentDate": "YYYY-MM-DD" or null,
+  "totalAmount": number or null,
+  "gstAmount": number or null,
+  "payer": "string" or null,
+  "category": "string",
+  "description": "string" or null
+}`;
+
+      const parsed = await llm.completeJson<ExtractedBillingDetails>(
+        [
+          {
+            role: "system",
+            content: systemPrompt,
+          },
+          {
+            role: "user",
+            content: `Extract the payment details from this bill:\n\n${extractedText.substring(0, 6000)}`,
+          },
+        ],
+        { task: "billing", maxTokens: 500 }
+      );
+      const totalAmount = Number(parsed.totalAmount);
+
+      if (!Number.isFinite(totalAmount) || totalAmount <= 0) {
+        console.warn("[AI] Billing extraction found no amount");
+        return null;
+      }
+
+      const gstAmount = Number(parsed.gstAmount);
+      return {
+        ...parsed,
+        totalAmount,
+        gstAmount: Number.isFinite(gstAmount) && gstAmount > 0 ? gstAmount : null,
+      };
+    } catch (error: any) {
+      console.error("[AI] Error extracting billing details:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Extract follow-up instructions (review visits, repeat tests) from a document
+   * Reads English, Hindi and Hinglish instructions ("15 din baad dikhayein"); relative times
+   * are returned as is, since only the caller knows the document date.
+   * @param extractedText - OCR text of the document
+   * @returns Instructions found (possibly none), or null if no model could be asked
+   */
+  static async extractFollowUpInstructions(extractedText: string): Promise<ExtractedFollowUp[] | null> {
+    const llm = getLLMProvider();
+    if (!llm.isConfigured()) {
+      return null;
+    }
+
+    if (!extractedText || extractedText.trim().length === 0) {
       return [];
     }
+
+    try {
+      console.log("[AI] Extracting follow-up instructions");
+
+      const systemPrompt = `You are a medical AI assistant that finds follow-up instructions in Indian prescriptions, discharge summaries and reports, written in English, Hindi or Hinglish.
+
+A follow-up instruction tells the patient to come back, see a doctor or repeat a test at a given time, e.g. "Review after 2 weeks", "Repeat lipid profile in 3 months", "15 din baad dikhayein", "1 महीने बाद TSH दोबारा करवाएं".
+
+For every instruction, extract:
+1. **title**: A short task title in English (e.g., "Follow-up visit", "Repeat lipid profile")
+2. **sourceText**: The instruction exactly as printed
+3. **date**: The due date in ISO format (YYYY-MM-DD) if a calendar date is given, otherwise null
+4. **amount** and **unit**: For a relative time ("after 2 weeks"), the number and one of "day", "week", "month", "year"; otherwise null
+
+Rules:
+- Skip history ("admitted 3 days ago", "returned after 2 days") and medication durations ("for 5 days").
+- For a range ("after 2-3 weeks") use the earlier bound.
+- Skip instructions without a time.
+
+Return ONLY a JSON object in this exact format:
+{
+  "followUps": [
+    { "title": "string", "sourceText": "string", "date": "YYYY-MM-DD" or null, "amount": number or null, "unit": "string" or null }
+  ]
+}`;
+
+      const parsed = await llm.completeJson<{ followUps?: ExtractedFollowUp[] | null }>(
+        [
+          {
+            role: "system",
+            content: systemPrompt,
+          },
+          {
+            role: "user",
+            content: `Find the follow-up instructions in this document:\n\n${extractedText.substring(0, 6000)}`,
+          },
+        ],
+        { task: "followUps", maxTokens: 800 }
+      );
+
+      if (!Array.isArray(parsed.followUps)) {
+        console.warn("[AI] Follow-up extraction returned no list");
+        return null;
+      }
+      return parsed.followUps.filter(
+        (followUp) => followUp && typeof followUp.title === "string" && typeof followUp.sourceText === "string"
+      );
+    } catch (error: any) {
+      console.error("[AI] Error extracting follow-up instructions:", error);
+      return null;
+    }
   }
 
   /**
-   * Generate chatbot response using GPT-4o
+   * Generate chatbot response with the provider's chat model
    * @param userMessage - The user's message
    * @param conversationHistory - Previous messages in the conversation
    * @param userContext - User's health data context
@@ -811,25 +1110,26 @@ If no medications are found, return { "medications": [] }.`;
     userContext: string,
     language: 'en' | 'hi' = 'en'
   ): Promise<string> {
-    if (!openai) {
-      throw new Error("OpenAI API key not configured");
+    const llm = getLLMProvider();
+    if (!llm.isConfigured()) {
+      throw new Error("AI provider not configured");
     }
 
     try {
-      console.log(`[OpenAI] Generating chatbot response (language: ${language})`);
-      console.log(`[OpenAI] User message: ${userMessage.substring(0, 100)}...`);
-      console.log(`[OpenAI] Conversation history length: ${conversationHistory.length}`);
-      console.log(`[OpenAI] User context length: ${userContext.length} characters`);
+      console.log(`[AI] Generating chatbot response (language: ${language})`);
+      console.log(`[AI] User message: ${userMessage.substring(0, 100)}...`);
+      console.log(`[AI] Conversation history length: ${conversationHistory.length}`);
+      console.log(`[AI] User context length: ${userContext.length} characters`);
       
       // Check if hospitals are in context
       const hasHospitals = userContext.includes("=== NEARBY HOSPITALS ===");
-      console.log(`[OpenAI] Hospitals in context: ${hasHospitals ? 'YES' : 'NO'}`);
+      console.log(`[AI] Hospitals in context: ${hasHospitals ? 'YES' : 'NO'}`);
       if (hasHospitals) {
         const hospitalsSection = userContext.split("=== NEARBY HOSPITALS ===")[1]?.split("\n===")[0] || "";
-        console.log(`[OpenAI] Hospitals section: ${hospitalsSection.substring(0, 300)}...`);
+        console.log(`[AI] Hospitals section: ${hospitalsSection.substring(0, 300)}...`);
       }
       
-      console.log(`[OpenAI] User context preview (first 1200 chars):\n${userContext.substring(0, 1200)}...`);
+      console.log(`[AI] User context preview (first 1200 chars):\n${userContext.substring(0, 1200)}...`);
 
       // Build system prompt with user context
       const languageInstruction = language === 'hi' 
@@ -929,7 +1229,7 @@ CRITICAL REMINDERS - READ CAREFULLY:
 5. NEVER say "I don't have that information" if the "=== NEARBY HOSPITALS ===" section exists in the context above.`;
 
       // Build messages array
-      const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
+      const messages: LLMMessage[] = [
         { role: 'system', content: systemPrompt },
       ];
 
@@ -948,20 +1248,12 @@ CRITICAL REMINDERS - READ CAREFULLY:
         content: userMessage,
       });
 
-      // Call OpenAI API
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: messages as any,
-        max_tokens: 1000,
-        temperature: 0.7,
-      });
-
-      const assistantResponse = response.choices[0]?.message?.content || "";
-      console.log(`[OpenAI] Generated chatbot response: ${assistantResponse.substring(0, 100)}...`);
+      const assistantResponse = await llm.complete(messages, { tier: "chat", maxTokens: 1000, temperature: 0.7 });
+      console.log(`[AI] Generated chatbot response: ${assistantResponse.substring(0, 100)}...`);
 
       return assistantResponse;
     } catch (error: any) {
-      console.error("[OpenAI] Error generating chatbot response:", error);
+      console.error("[AI] Error generating chatbot response:", error);
       throw new Error(`Failed to generate chatbot response: ${error.message}`);
     }
   }
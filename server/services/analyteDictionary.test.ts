@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { convertToCanonicalUnit, findAnalyte, normalizeAnalyteName, normalizeUnitKey } from "./analyteDictionary";
+
+describe("normalizeAnalyteName", () => {
+  it("ignores case, punctuation, specimen words and word order", () => {
+    assert.equal(normalizeAnalyteName("S. Creatinine"), "creatinine");
+    assert.equal(normalizeAnalyteName("Creatinine, Serum"), "creatinine");
+    assert.equal(normalizeAnalyteName("Glucose Fasting"), normalizeAnalyteName("Fasting Glucose"));
+  });
+});
+
+describe("normalizeUnitKey", () => {
+  it("folds spellings of the same unit", () => {
+    assert.equal(normalizeUnitKey("µmol/L"), "umol/l");
+    assert.equal(normalizeUnitKey("μmol / L"), "umol/l");
+    assert.equal(normalizeUnitKey("cells/cumm"), "/ul");
+    assert.equal(normalizeUnitKey("lakhs/cumm"), "lakh/ul");
+    assert.equal(normalizeUnitKey("x10^3/µL"), "10^3/ul");
+  });
+});
+
+describe("findAnalyte", () => {
+  it("finds analytes by synonym", () => {
+    assert.equal(findAnalyte("Serum Creatinine")?.name, "Creatinine");
+    assert.equal(findAnalyte("WBC Count")?.name, "Total Leucocyte Count");
+    assert.equal(findAnalyte("Not A Test"), undefined);
+  });
+});
+
+describe("convertToCanonicalUnit", () => {
+  it("converts with a factor", () => {
+    assert.equal(convertToCanonicalUnit(findAnalyte("FBS")!, 7, "mmol/L"), 126.112);
+    assert.equal(convertToCanonicalUnit(findAnalyte("Creatinine")!, 88.4, "µmol/L"), 1);
+    assert.equal(convertToCanonicalUnit(findAnalyte("WBC")!, 7500, "cells/cumm"), 7.5);
+    assert.equal(convertToCanonicalUnit(findAnalyte("Platelets")!, 2.5, "lakhs/cumm"), 250);
+  });
+
+  it("converts with a factor and offset", () => {
+    assert.equal(convertToCanonicalUnit(findAnalyte("HbA1c")!, 48, "mmol/mol"), 6.543);
+  });
+
+  it("keeps values already in the canonical unit and rejects unknown units", () => {
+    assert.equal(convertToCanonicalUnit(findAnalyte("Creatinine")!, 1.1, "mg/dL"), 1.1);
+    assert.equal(convertToCanonicalUnit(findAnalyte("Creatinine")!, 1.1, "furlongs"), null);
+    assert.equal(convertToCanonicalUnit(findAnalyte("Creatinine")!, 1.1, null), null);
+  });
+});
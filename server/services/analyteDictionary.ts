@@ -0,0 +1,426 @@
+/**
+ * Analyte Dictionary
+ * Canonical names, LOINC-style codes and unit conversions for common lab tests
+ *
+ * Labs print the same test under different names ("S. Creatinine", "Creatinine, Serum")
+ * and in different units (mg/dL vs µmol/L). Every observation is mapped to a canonical
+ * analyte and unit here so results from different reports can be compared.
+ */
+
+// Converts a value in some unit to the canonical unit: canonical = value * factor + offset
+interface UnitConversion {
+  factor: number;
+  offset?: number;
+}
+
+export interface AnalyteDefinition {
+  code: string; // LOINC-style code
+  name: string; // Canonical display name
+  unit: string; // Canonical unit all values are converted to
+  synonyms: string[]; // Other names printed on reports
+  conversions?: Record<string, UnitConversion>; // Keyed by unit, see normalizeUnitKey
+}
+
+export const ANALYTES: AnalyteDefinition[] = [
+  // Diabetes
+  {
+    code: "4548-4",
+    name: "HbA1c",
+    unit: "%",
+    synonyms: ["Glycated Haemoglobin", "Glycosylated Hemoglobin", "Hemoglobin A1c", "Glyco Hb", "A1c"],
+    // IFCC (mmol/mol) to NGSP (%) master equation
+    conversions: { "mmol/mol": { factor: 0.09148, offset: 2.152 } },
+  },
+  {
+    code: "1558-6",
+    name: "Fasting Blood Sugar",
+    unit: "mg/dL",
+    synonyms: ["FBS", "Glucose Fasting", "Fasting Glucose", "Fasting Plasma Glucose", "FPG", "Blood Sugar Fasting"],
+    conversions: { "mmol/l": { factor: 18.016 } },
+  },
+  {
+    code: "1521-4",
+    name: "Post Prandial Blood Sugar",
+    unit: "mg/dL",
+    synonyms: ["PPBS", "Glucose PP", "Post Prandial Glucose", "Glucose Post Prandial", "PP Blood Sugar", "PPBG"],
+    conversions: { "mmol/l": { factor: 18.016 } },
+  },
+  {
+    code: "2345-7",
+    name: "Random Blood Sugar",
+    unit: "mg/dL",
+    synonyms: ["RBS", "Glucose Random", "Random Glucose", "Blood Sugar Random", "Glucose"],
+    conversions: { "mmol/l": { factor: 18.016 } },
+  },
+
+  // Kidney function
+  {
+    code: "2160-0",
+    name: "Creatinine",
+    unit: "mg/dL",
+    synonyms: ["S. Creatinine", "Creatinine Serum", "Serum Creatinine"],
+    conversions: { "umol/l": { factor: 1 / 88.4 } },
+  },
+  {
+    code: "3091-6",
+    name: "Urea",
+    unit: "mg/dL",
+    synonyms: ["Blood Urea", "Serum Urea", "S. Urea"],
+    conversions: { "mmol/l": { factor: 6.006 } },
+  },
+  {
+    code: "3094-0",
+    name: "Blood Urea Nitrogen",
+    unit: "mg/dL",
+    synonyms: ["BUN", "Urea Nitrogen"],
+    conversions: { "mmol/l": { factor: 2.801 } },
+  },
+  {
+    code: "3084-1",
+    name: "Uric Acid",
+    unit: "mg/dL",
+    synonyms: ["S. Uric Acid", "Serum Uric Acid"],
+    conversions: { "umol/l": { factor: 1 / 59.48 } },
+  },
+  {
+    code: "33914-3",
+    name: "eGFR",
+    unit: "mL/min/1.73m2",
+    synonyms: ["Estimated GFR", "GFR Estimated", "Glomerular Filtration Rate"],
+  },
+
+  // Lipid profile
+  {
+    code: "2093-3",
+    name: "Total Cholesterol",
+    unit: "mg/dL",
+    synonyms: ["Cholesterol", "Cholesterol Total", "S. Cholesterol", "Serum Cholesterol"],
+    conversions: { "mmol/l": { factor: 38.67 } },
+  },
+  {
+    code: "2089-1",
+    name: "LDL Cholesterol",
+    unit: "mg/dL",
+    synonyms: ["LDL", "LDL-C", "LDL Cholesterol Direct", "LDL Direct", "Low Density Lipoprotein"],
+    conversions: { "mmol/l": { factor: 38.67 } },
+  },
+  {
+    code: "2085-9",
+    name: "HDL Cholesterol",
+    unit: "mg/dL",
+    synonyms: ["HDL", "HDL-C", "HDL Cholesterol Direct", "High Density Lipoprotein"],
+    conversions: { "mmol/l": { factor: 38.67 } },
+  },
+  {
+    code: "13458-5",
+    name: "VLDL Cholesterol",
+    unit: "mg/dL",
+    synonyms: ["VLDL", "Very Low Density Lipoprotein"],
+    conversions: { "mmol/l": { factor: 38.67 } },
+  },
+  {
+    code: "2571-8",
+    name: "Triglycerides",
+    unit: "mg/dL",
+    synonyms: ["TG", "Triglyceride", "S. Triglycerides"],
+    conversions: { "mmol/l": { factor: 88.57 } },
+  },
+
+  // Thyroid
+  {
+    code: "3016-3",
+    name: "TSH",
+    unit: "mIU/L",
+    synonyms: ["Thyroid Stimulating Hormone", "TSH Ultrasensitive", "US TSH", "Thyrotropin"],
+    conversions: { "uiu/ml": { factor: 1 } },
+  },
+  {
+    code: "3053-6",
+    name: "T3 Total",
+    unit: "ng/dL",
+    synonyms: ["T3", "Total T3", "Triiodothyronine"],
+    conversions: { "nmol/l": { factor: 65.1 }, "ng/ml": { factor: 100 } },
+  },
+  {
+    code: "3026-2",
+    name: "T4 Total",
+    unit: "µg/dL",
+    synonyms: ["T4", "Total T4", "Thyroxine"],
+    conversions: { "nmol/l": { factor: 1 / 12.87 } },
+  },
+  {
+    code: "3024-7",
+    name: "Free T4",
+    unit: "ng/dL",
+    synonyms: ["FT4", "Free Thyroxine"],
+    conversions: { "pmol/l": { factor: 1 / 12.87 } },
+  },
+  {
+    code: "3051-0",
+    name: "Free T3",
+    unit: "pg/mL",
+    synonyms: ["FT3", "Free Triiodothyronine"],
+    conversions: { "pmol/l": { factor: 0.651 } },
+  },
+
+  // Complete blood count
+  {
+    code: "718-7",
+    name: "Haemoglobin",
+    unit: "g/dL",
+    synonyms: ["Hemoglobin", "Hb", "Hgb"],
+    conversions: { "g/l": { factor: 0.1 }, "mmol/l": { factor: 1.611 } },
+  },
+  {
+    code: "4544-3",
+    name: "Haematocrit",
+    unit: "%",
+    synonyms: ["Hematocrit", "PCV", "Packed Cell Volume", "HCT"],
+  },
+  {
+    code: "6690-2",
+    name: "Total Leucocyte Count",
+    unit: "10^3/µL",
+    synonyms: ["TLC", "WBC", "WBC Count", "Total WBC Count", "White Blood Cells", "Total Leukocyte Count"],
+    conversions: { "/ul": { factor: 0.001 }, "10^9/l": { factor: 1 } },
+  },
+  {
+    code: "789-8",
+    name: "RBC Count",
+    unit: "10^6/µL",
+    synonyms: ["RBC", "Red Blood Cells", "Total RBC Count", "Erythrocyte Count"],
+    conversions: { "10^12/l": { factor: 1 } },
+  },
+  {
+    code: "777-3",
+    name: "Platelet Count",
+    unit: "10^3/µL",
+    synonyms: ["Platelets", "PLT", "Platelet"],
+    conversions: { "/ul": { factor: 0.001 }, "10^9/l": { factor: 1 }, "lakh/ul": { factor: 100 } },
+  },
+  {
+    code: "787-2",
+    name: "MCV",
+    unit: "fL",
+    synonyms: ["Mean Corpuscular Volume"],
+  },
+  {
+    code: "4537-7",
+    name: "ESR",
+    unit: "mm/hr",
+    synonyms: ["Erythrocyte Sedimentation Rate"],
+  },
+
+  // Liver function
+  {
+    code: "1975-2",
+    name: "Bilirubin Total",
+    unit: "mg/dL",
+    synonyms: ["Total Bilirubin", "S. Bilirubin Total", "Bilirubin"],
+    conversions: { "umol/l": { factor: 1 / 17.1 } },
+  },
+  {
+    code: "1968-7",
+    name: "Bilirubin Direct",
+    unit: "mg/dL",
+    synonyms: ["Direct Bilirubin", "Conjugated Bilirubin"],
+    conversions: { "umol/l": { factor: 1 / 17.1 } },
+  },
+  {
+    code: "1742-6",
+    name: "ALT (SGPT)",
+    unit: "U/L",
+    synonyms: ["SGPT", "ALT", "Alanine Aminotransferase", "Alanine Transaminase"],
+    conversions: { "iu/l": { factor: 1 } },
+  },
+  {
+    code: "1920-8",
+    name: "AST (SGOT)",
+    unit: "U/L",
+    synonyms: ["SGOT", "AST", "Aspartate Aminotransferase", "Aspartate Transaminase"],
+    conversions: { "iu/l": { factor: 1 } },
+  },
+  {
+    code: "6768-6",
+    name: "Alkaline Phosphatase",
+    unit: "U/L",
+    synonyms: ["ALP", "Alk Phos"],
+    conversions: { "iu/l": { factor: 1 } },
+  },
+  {
+    code: "2324-2",
+    name: "GGT",
+    unit: "U/L",
+    synonyms: ["Gamma GT", "Gamma Glutamyl Transferase", "GGTP"],
+    conversions: { "iu/l": { factor: 1 } },
+  },
+  {
+    code: "1751-7",
+    name: "Albumin",
+    unit: "g/dL",
+    synonyms: ["S. Albumin", "Serum Albumin"],
+    conversions: { "g/l": { factor: 0.1 } },
+  },
+  {
+    code: "2885-2",
+    name: "Total Protein",
+    unit: "g/dL",
+    synonyms: ["Protein Total", "S. Protein", "Serum Protein"],
+    conversions: { "g/l": { factor: 0.1 } },
+  },
+
+  // Electrolytes and minerals
+  {
+    code: "2951-2",
+    name: "Sodium",
+    unit: "mmol/L",
+    synonyms: ["Na", "Na+", "S. Sodium", "Serum Sodium"],
+    conversions: { "meq/l": { factor: 1 } },
+  },
+  {
+    code: "2823-3",
+    name: "Potassium",
+    unit: "mmol/L",
+    synonyms: ["K", "K+", "S. Potassium", "Serum Potassium"],
+    conversions: { "meq/l": { factor: 1 } },
+  },
+  {
+    code: "2075-0",
+    name: "Chloride",
+    unit: "mmol/L",
+    synonyms: ["Cl", "Cl-", "S. Chloride", "Serum Chloride"],
+    conversions: { "meq/l": { factor: 1 } },
+  },
+  {
+    code: "17861-6",
+    name: "Calcium",
+    unit: "mg/dL",
+    synonyms: ["Ca", "S. Calcium", "Serum Calcium", "Calcium Total"],
+    conversions: { "mmol/l": { factor: 4.008 } },
+  },
+  {
+    code: "2498-4",
+    name: "Iron",
+    unit: "µg/dL",
+    synonyms: ["S. Iron", "Serum Iron"],
+    conversions: { "umol/l": { factor: 5.585 } },
+  },
+  {
+    code: "2276-4",
+    name: "Ferritin",
+    unit: "ng/mL",
+    synonyms: ["S. Ferritin", "Serum Ferritin"],
+    conversions: { "ug/l": { factor: 1 } },
+  },
+
+  // Vitamins and inflammation
+  {
+    code: "1989-3",
+    name: "Vitamin D (25-OH)",
+    unit: "ng/mL",
+    synonyms: ["Vitamin D", "25 OH Vitamin D", "25-Hydroxy Vitamin D", "Vit D3", "Vitamin D Total"],
+    conversions: { "nmol/l": { factor: 1 / 2.496 } },
+  },
+  {
+    code: "2132-9",
+    name: "Vitamin B12",
+    unit: "pg/mL",
+    synonyms: ["B12", "Vit B12", "Cyanocobalamin", "Cobalamin"],
+    conversions: { "pmol/l": { factor: 1.355 } },
+  },
+  {
+    code: "1988-5",
+    name: "C-Reactive Protein",
+    unit: "mg/L",
+    synonyms: ["CRP", "CRP Quantitative", "hs-CRP", "High Sensitivity CRP"],
+    conversions: { "mg/dl": { factor: 10 } },
+  },
+];
+
+// Words that describe the specimen rather than the test ("S. Creatinine", "Serum Creatinine")
+const IGNORED_WORDS = new Set(["s", "serum", "plasma", "blood", "level", "levels", "test", "value"]);
+
+/**
+ * Lookup key for an analyte name
+ * Case, punctuation, specimen words and word order are ignored, so "S. Creatinine",
+ * "Creatinine, Serum" and "creatinine" all give "creatinine".
+ */
+export function normalizeAnalyteName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/[^a-z0-9+\- ]/g, " ")
+    .replace(/(^|\s)-|-(\s|$)/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && !IGNORED_WORDS.has(word));
+  return words.sort().join(" ");
+}
+
+/**
+ * Lookup key for a unit
+ * "µmol/L", "umol/l" and "μmol / L" all give "umol/l"; Indian count units
+ * ("cells/cumm", "/mm3", "lakhs/cumm") are folded onto per-µL units.
+ */
+export function normalizeUnitKey(unit: string): string {
+  return unit
+    .toLowerCase()
+    .replace(/\s+/g, "")
+    .replace(/[µμ]/g, "u")
+    .replace(/mcg/g, "ug")
+    .replace(/lakhs/g, "lakh")
+    .replace(/^x(?=10)/, "")
+    .replace(/cells?(?=\/)/g, "")
+    .replace(/\/(cumm|cmm|mm3|cu\.mm)$/, "/ul")
+    .replace(/^(10\^3|10³|thousand|thou)\/ul$/, "10^3/ul")
+    .replace(/^(10\^6|10⁶|million|mill)\/ul$/, "10^6/ul")
+    .replace(/^(10\^9|10⁹)\/l$/, "10^9/l")
+    .replace(/^(10\^12|10¹²)\/l$/, "10^12/l");
+}
+
+const analyteIndex = new Map<string, AnalyteDefinition>();
+const analyteByCode = new Map<string, AnalyteDefinition>();
+for (const analyte of ANALYTES) {
+  analyteByCode.set(analyte.code, analyte);
+  for (const name of [analyte.name, ...analyte.synonyms]) {
+    const key = normalizeAnalyteName(name);
+    // First definition wins, so a generic synonym never overrides a more specific test
+    if (!analyteIndex.has(key)) {
+      analyteIndex.set(key, analyte);
+    }
+  }
+}
+
+/**
+ * Find the dictionary entry for a printed test name
+ */
+export function findAnalyte(name: string): AnalyteDefinition | undefined {
+  return analyteIndex.get(normalizeAnalyteName(name));
+}
+
+/**
+ * Get a dictionary entry by its code
+ */
+export function getAnalyteByCode(code: string): AnalyteDefinition | undefined {
+  return analyteByCode.get(code);
+}
+
+/**
+ * Convert a value to the analyte's canonical unit
+ * @returns The converted value, or null if the unit is missing or has no known conversion
+ */
+export function convertToCanonicalUnit(
+  analyte: AnalyteDefinition,
+  value: number,
+  unit: string | null | undefined
+): number | null {
+  if (!unit) return null;
+
+  const key = normalizeUnitKey(unit);
+  if (key === normalizeUnitKey(analyte.unit)) return value;
+
+  const conversion = analyte.conversions?.[key];
+  if (!conversion) return null;
+
+  // Round away floating point noise from the factors (e.g. 7 mmol/L -> 126.112 mg/dL)
+  const converted = value * conversion.factor + (conversion.offset ?? 0);
+  return Math.round(converted * 1000) / 1000;
+}
@@ -0,0 +1,68 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import JSZip from "jszip";
+import { extractZipEntries, readZipEntry } from "./archiveService";
+
+function dicomBuffer(): Buffer {
+  const buffer = Buffer.alloc(256);
+  buffer.write("DICM", 128, "latin1");
+  return buffer;
+}
+
+async function buildZip(files: Record<string, Buffer | string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, contents] of Object.entries(files)) {
+    zip.file(name, contents);
+  }
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+describe("readZipEntry", () => {
+  it("stops inflating once the cap is passed", async () => {
+    const zip = await JSZip.loadAsync(await buildZip({ "big.pdf": Buffer.alloc(1024 * 1024) }));
+    const { buffer, truncated } = await readZipEntry(zip.file("big.pdf")!, 1000);
+    assert.equal(truncated, true);
+    assert.equal(buffer.length, 1000);
+  });
+
+  it("returns the whole entry when it fits", async () => {
+    const zip = await JSZip.loadAsync(await buildZip({ "small.pdf": "%PDF-1.4" }));
+    const { buffer, truncated } = await readZipEntry(zip.file("small.pdf")!, 1000);
+    assert.equal(truncated, false);
+    assert.equal(buffer.toString(), "%PDF-1.4");
+  });
+});
+
+describe("extractZipEntries", () => {
+  it("keeps supported files and DICOM without an extension, and skips the rest", async () => {
+    const { entries, skipped } = await extractZipEntries(
+      await buildZip({
+        "report.pdf": "%PDF-1.4",
+        "DICOM/IM000001": dicomBuffer(),
+        "notes.txt": "not a document",
+        "inner.zip": "PK",
+        "__MACOSX/report.pdf": "metadata",
+      })
+    );
+
+    assert.deepEqual(
+      entries.map((entry) => [entry.fileName, entry.mimeType]),
+      [
+        ["report.pdf", "application/pdf"],
+        ["DICOM/IM000001", "application/dicom"],
+      ]
+    );
+    assert.deepEqual(skipped, [
+      { fileName: "notes.txt", reason: "Unsupported file type" },
+      { fileName: "inner.zip", reason: "Nested archives are not supported" },
+    ]);
+  });
+
+  it("skips entries over the size limit", async () => {
+    const { entries, skipped } = await extractZipEntries(
+      await buildZip({ "scan.pdf": Buffer.alloc(51 * 1024 * 1024) })
+    );
+    assert.equal(entries.length, 0);
+    assert.deepEqual(skipped, [{ fileName: "scan.pdf", reason: "File exceeds the 50MB limit" }]);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Archive Service
+ * Unpacks ZIP uploads into individual files that can be processed as vault documents
+ */
+
+import JSZip from "jszip";
+import * as path from "path";
+import { DICOM_MIME_TYPE, isDicomFile } from "./dicomService";
+
+export interface ArchiveEntry {
+  fileName: string; // Path of the entry inside the archive
+  buffer: Buffer;
+  mimeType: string;
+  size: number;
+}
+
+export interface SkippedArchiveEntry {
+  fileName: string;
+  reason: string;
+}
+
+// Guards against zip bombs and oversized archives
+const MAX_ENTRIES = 100;
+const MAX_DICOM_ENTRIES = 2000; // A CT/MRI study is one file per image
+const MAX_ARCHIVE_FILES = 10000; // Files of any kind, supported or not
+export const MAX_ENTRY_SIZE = 50 * 1024 * 1024; // 50MB, same as the single-upload limit
+const MAX_TOTAL_SIZE = 200 * 1024 * 1024; // 200MB uncompressed
+const DICOM_HEADER_SIZE = 133; // 128-byte preamble, "DICM", and a byte of the first element
+
+// Extensions we know how to OCR, mapped to the mime type multer would report
+const SUPPORTED_EXTENSIONS: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+/**
+ * Check whether an uploaded file is a ZIP archive
+ */
+export function isZipArchive(mimeType: string, fileName?: string): boolean {
+  return (
+    mimeType === "application/zip" ||
+    mimeType === "application/x-zip-compressed" ||
+    (!!fileName && fileName.toLowerCase().endsWith(".zip"))
+  );
+}
+
+/**
+ * Map a file name to the mime type used for OCR, or null if unsupported
+ */
+export function getMimeTypeForFile(fileName: string): string | null {
+  return SUPPORTED_EXTENSIONS[path.extname(fileName).toLowerCase()] || null;
+}
+
+/**
+ * Size of an entry once inflated, as recorded in the ZIP directory
+ * The archive's author writes this number, so it only lets oversized entries be rejected
+ * without inflating them - readZipEntry still caps the bytes actually produced.
+ */
+export function getDeclaredEntrySize(file: JSZip.JSZipObject): number {
+  // JSZip keeps the central directory sizes on a private field
+  const data = (file as unknown as { _data?: { uncompressedSize?: number } })._data;
+  return data?.uncompressedSize ?? 0;
+}
+
+/**
+ * Inflate a ZIP entry, stopping once more than maxBytes have come out
+ * @returns Up to maxBytes of the contents, and whether the entry was longer than that
+ */
+export function readZipEntry(
+  file: JSZip.JSZipObject,
+  maxBytes: number
+): Promise<{ buffer: Buffer; truncated: boolean }> {
+  return new Promise((resolve, reject) => {
+    const stream = file.nodeStream("nodebuffer");
+    const chunks: Buffer[] = [];
+    let length = 0;
+    let settled = false;
+
+    stream.on("data", (chunk: Buffer) => {
+      if (settled) return;
+      chunks.push(chunk);
+      length += chunk.length;
+      if (length > maxBytes) {
+        // Pausing stops JSZip inflating the rest of the entry
+        settled = true;
+        stream.pause();
+        resolve({ buffer: Buffer.concat(chunks).subarray(0, maxBytes), truncated: true });
+      }
+    });
+    stream.on("end", () => {
+      if (settled) return;
+      settled = true;
+      resolve({ buffer: Buffer.concat(chunks), truncated: false });
+    });
+    stream.on("error", (error) => {
+      if (settled) return;
+      settled = true;
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Extract supported files from a ZIP archive
+ * Folders, OS metadata files (__MACOSX, .DS_Store), nested archives and unsupported
+ * formats are reported as skipped instead of failing the whole archive.
+ * DICOM files are recognised by their content, since imaging CDs often name them
+ * without an extension (IM000001) - they are returned with the application/dicom type.
+ * Sizes are checked against the ZIP directory before inflating, and again while inflating.
+ * @param buffer - Raw ZIP file contents
+ * @returns Extracted entries and the entries that were skipped with a reason
+ */
+export async function extractZipEntries(
+  buffer: Buffer
+): Promise<{ entries: ArchiveEntry[]; skipped: SkippedArchiveEntry[] }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (error: any) {
+    throw new Error(`Invalid or corrupted ZIP archive: ${error.message}`);
+  }
+
+  const entries: ArchiveEntry[] = [];
+  const skipped: SkippedArchiveEntry[] = [];
+  let totalSize = 0;
+  let documentCount = 0;
+  let dicomCount = 0;
+
+  const files = Object.values(zip.files).filter((file) => !file.dir);
+  if (files.length > MAX_ARCHIVE_FILES) {
+    throw new Error(`Archive contains more than ${MAX_ARCHIVE_FILES} files`);
+  }
+
+  for (const file of files) {
+    const baseName = path.basename(file.name);
+
+    if (file.name.startsWith("__MACOSX/") || baseName.startsWith(".")) {
+      // OS metadata - not worth reporting to the user
+      continue;
+    }
+
+    if (isZipArchive("", baseName)) {
+      skipped.push({ fileName: file.name, reason: "Nested archives are not supported" });
+      continue;
+    }
+
+    let mimeType = getMimeTypeForFile(baseName);
+    if (mimeType && documentCount >= MAX_ENTRIES) {
+      skipped.push({ fileName: file.name, reason: `Archive contains more than ${MAX_ENTRIES} files` });
+      continue;
+    }
+
+    if (!mimeType) {
+      // Only the header is inflated to tell DICOM apart from other unsupported files
+      const { buffer: header } = await readZipEntry(file, DICOM_HEADER_SIZE);
+      if (!isDicomFile(header)) {
+        skipped.push({ fileName: file.name, reason: "Unsupported file type" });
+        continue;
+      }
+      if (dicomCount >= MAX_DICOM_ENTRIES) {
+        skipped.push({ fileName: file.name, reason: `Archive contains more than ${MAX_DICOM_ENTRIES} imaging files` });
+        continue;
+      }
+      mimeType = DICOM_MIME_TYPE;
+    }
+
+    const declaredSize = getDeclaredEntrySize(file);
+    if (declaredSize > MAX_ENTRY_SIZE) {
+      skipped.push({ fileName: file.name, reason: "File exceeds the 50MB limit" });
+      continue;
+    }
+    if (totalSize + declaredSize > MAX_TOTAL_SIZE) {
+      skipped.push({ fileName: file.name, reason: "Archive exceeds the 200MB uncompressed limit" });
+      continue;
+    }
+
+    const remaining = MAX_TOTAL_SIZE - totalSize;
+    const { buffer: content, truncated } = await readZipEntry(file, Math.min(MAX_ENTRY_SIZE, remaining));
+    if (truncated) {
+      skipped.push({
+        fileName: file.name,
+        reason: remaining < MAX_ENTRY_SIZE ? "Archive exceeds the 200MB uncompressed limit" : "File exceeds the 50MB limit",
+      });
+      continue;
+    }
+
+    if (content.length === 0) {
+      skipped.push({ fileName: file.name, reason: "File is empty" });
+      continue;
+    }
+
+    totalSize += content.length;
+
+    if (mimeType === DICOM_MIME_TYPE) {
+      dicomCount++;
+    } else {
+      documentCount++;
+    }
+
+    entries.push({
+      fileName: file.name,
+      buffer: content,
+      mimeType,
+      size: content.length,
+    });
+  }
+
+  console.log(`[Archive] Extracted ${entries.length} file(s), skipped ${skipped.length}`);
+
+  return { entries, skipped };
+}
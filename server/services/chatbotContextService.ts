@@ -144,7 +144,7 @@ export async function buildUserContext(
 }
 
 /**
- * Format user context into a string for OpenAI prompt
+ * Format user context into a string for the chatbot prompt
  */
 export function formatUserContext(context: UserContext): string {
   console.log(`[ChatbotContext] Formatting context: ${context.profile.name || 'No name'}, ${context.medications.length} medications, ${context.recentDocuments.length} documents`);
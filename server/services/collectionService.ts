@@ -0,0 +1,222 @@
+/**
+ * Collection Service
+ * User-defined collections ("Knee surgery 2025", "Pregnancy") grouping documents, medications and notes
+ *
+ * A document or medication can be in several collections - items only reference it.
+ * Trashed documents stay in their collections but are hidden until restored.
+ */
+
+import { type Collection, type CollectionItem, type Document, type Medication } from "@shared/schema";
+import { storage } from "../storage";
+
+export const COLLECTION_ITEM_TYPES = ["document", "medication", "note"] as const;
+
+export type CollectionItemType = (typeof COLLECTION_ITEM_TYPES)[number];
+
+export class CollectionError extends Error {
+  constructor(public message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+export interface CollectionItemInput {
+  itemType: CollectionItemType;
+  documentId?: string;
+  medicationId?: string;
+  note?: string;
+}
+
+export interface CollectionEntry {
+  id: string;
+  itemType: CollectionItemType;
+  position: number;
+  document?: Pick<Document, "id" | "title" | "type" | "provider" | "date" | "fileType">;
+  medication?: Pick<Medication, "id" | "name" | "dosage" | "frequency" | "status">;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Create a collection at the end of the user's list
+ */
+export async function createCollection(
+  userId: string,
+  data: { name: string; description?: string | null; color?: string | null }
+): Promise<Collection> {
+  const existing = await storage.getCollections(userId);
+  const position = existing.reduce((max, collection) => Math.max(max, collection.position + 1), 0);
+  return storage.createCollection({ userId, position, ...data });
+}
+
+/**
+ * Delete a collection with its items
+ * Consents sharing the collection are revoked - they must never fall back to sharing more.
+ */
+export async function deleteCollection(collection: Collection): Promise<void> {
+  const consents = await storage.getConsents(collection.userId, { status: "active" });
+  for (const consent of consents.filter((c) => c.collectionId === collection.id)) {
+    await storage.revokeConsent(consent.id);
+    await storage.createAuditLog(consent.id, "revoke", {
+      userId: collection.userId,
+      actorType: "system",
+      details: { reason: "Shared collection was deleted", collectionId: collection.id },
+    });
+  }
+
+  await storage.deleteCollection(collection.id);
+  console.log(`[Collections] Deleted collection ${collection.id}`);
+}
+
+/**
+ * Add a document, medication or note at the end of a collection
+ * @throws CollectionError if the referenced record isn't the user's or is already in the collection
+ */
+export async function addCollectionItem(collection: Collection, input: CollectionItemInput): Promise<CollectionItem> {
+  const items = await storage.getCollectionItems(collection.id);
+
+  if (input.itemType === "document") {
+    const document = input.documentId ? await storage.getDocument(input.documentId) : undefined;
+    if (!document || document.userId !== collection.userId || document.deletedAt) {
+      throw new CollectionError("Document not found");
+    }
+    if (items.some((item) => item.documentId === document.id)) {
+      throw new CollectionError("Document is already in this collection");
+    }
+  } else if (input.itemType === "medication") {
+    const medication = input.medicationId ? await storage.getMedication(input.medicationId) : undefined;
+    if (!medication || medication.userId !== collection.userId) {
+      throw new CollectionError("Medication not found");
+    }
+    if (items.some((item) => item.medicationId === medication.id)) {
+      throw new CollectionError("Medication is already in this collection");
+    }
+  } else if (!input.note?.trim()) {
+    throw new CollectionError("Note text is required");
+  }
+
+  return storage.createCollectionItem({
+    collectionId: collection.id,
+    userId: collection.userId,
+    itemType: input.itemType,
+    documentId: input.itemType === "document" ? input.documentId : null,
+    medicationId: input.itemType === "medication" ? input.medicationId : null,
+    note: input.itemType === "note" ? input.note!.trim() : null,
+    position: items.reduce((max, item) => Math.max(max, item.position + 1), 0),
+  });
+}
+
+/**
+ * Renumber rows to follow the given id order
+ * @throws CollectionError unless ids lists every row exactly once
+ */
+async function applyOrder<T extends { id: string; position: number }>(
+  rows: T[],
+  ids: string[],
+  update: (id: string, position: number) => Promise<T>
+): Promise<T[]> {
+  const rowIds = new Set(rows.map((row) => row.id));
+  if (ids.length !== rows.length || new Set(ids).size !== ids.length || !ids.every((id) => rowIds.has(id))) {
+    throw new CollectionError("Order must list every entry exactly once");
+  }
+
+  const ordered: T[] = [];
+  for (let position = 0; position < ids.length; position++) {
+    const row = rows.find((r) => r.id === ids[position])!;
+    ordered.push(row.position === position ? row : await update(row.id, position));
+  }
+  return ordered;
+}
+
+/**
+ * Reorder a user's collections
+ */
+export async function reorderCollections(userId: string, ids: string[]): Promise<Collection[]> {
+  const collections = await storage.getCollections(userId);
+  return applyOrder(collections, ids, (id, position) => storage.updateCollection(id, { position }));
+}
+
+/**
+ * Reorder the items of a collection
+ */
+export async function reorderCollectionItems(collection: Collection, ids: string[]): Promise<CollectionItem[]> {
+  const items = await storage.getCollectionItems(collection.id);
+  return applyOrder(items, ids, (id, position) => storage.updateCollectionItem(id, { position }));
+}
+
+/**
+ * Whether a document is part of a collection (used to scope collection shares)
+ */
+export async function isDocumentInCollection(collectionId: string, documentId: string): Promise<boolean> {
+  const items = await storage.getCollectionItemsByDocumentId(documentId);
+  return items.some((item) => item.collectionId === collectionId);
+}
+
+/**
+ * Resolve collection items to the documents, medications and notes they stand for
+ * Items whose document is trashed or whose record no longer exists are left out.
+ */
+export async function getCollectionEntries(collection: Collection): Promise<CollectionEntry[]> {
+  const items = await storage.getCollectionItems(collection.id);
+  const entries: CollectionEntry[] = [];
+
+  for (const item of items) {
+    const entry: CollectionEntry = {
+      id: item.id,
+      itemType: item.itemType as CollectionItemType,
+      position: item.position,
+      createdAt: item.createdAt,
+      updatedAt: item.updatedAt,
+    };
+
+    if (item.itemType === "document") {
+      const document = item.documentId ? await storage.getDocument(item.documentId) : undefined;
+      if (!document || document.deletedAt) continue;
+      entry.document = {
+        id: document.id,
+        title: document.title,
+        type: document.type,
+        provider: document.provider,
+        date: document.date,
+        fileType: document.fileType,
+      };
+    } else if (item.itemType === "medication") {
+      const medication = item.medicationId ? await storage.getMedication(item.medicationId) : undefined;
+      if (!medication) continue;
+      entry.medication = {
+        id: medication.id,
+        name: medication.name,
+        dosage: medication.dosage,
+        frequency: medication.frequency,
+        status: medication.status,
+      };
+    } else {
+      entry.note = item.note ?? "";
+    }
+
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+/**
+ * Collection fields for API responses, with per-type entry counts
+ */
+export function serializeCollection(collection: Collection, entries: CollectionEntry[]) {
+  return {
+    id: collection.id,
+    name: collection.name,
+    description: collection.description,
+    color: collection.color,
+    position: collection.position,
+    counts: {
+      documents: entries.filter((entry) => entry.itemType === "document").length,
+      medications: entries.filter((entry) => entry.itemType === "medication").length,
+      notes: entries.filter((entry) => entry.itemType === "note").length,
+    },
+    createdAt: collection.createdAt,
+    updatedAt: collection.updatedAt,
+  };
+}
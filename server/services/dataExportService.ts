@@ -0,0 +1,351 @@
+/**
+ * Data Export Service
+ * Builds a portable archive of a user's whole vault for data-portability requests
+ *
+ * The archive is a ZIP with every document file and version (decrypted) under files/,
+ * plus manifest.json describing the profile, documents (with lab results and annotations), medications, reminders,
+ * emergency card, nominees, consents with audit logs and chat history.
+ * Archives are stored encrypted like any other vault file and deleted after
+ * config.dataExport.retentionHours. The archive is built in memory, so vaults whose files add up
+ * to more than config.dataExport.maxArchiveSize can't be exported.
+ */
+
+import JSZip from "jszip";
+import * as path from "path";
+import { type DataExport, type Document } from "@shared/schema";
+import { config } from "../config";
+import { storage } from "../storage";
+import { FileStorageService } from "./fileStorage";
+import { decryptFile } from "./encryptionService";
+import { pushNotificationService } from "./pushNotificationService";
+
+export const EXPORT_FORMAT = "arogya-vault-export";
+export const EXPORT_FORMAT_VERSION = 1;
+export const MANIFEST_FILE_NAME = "manifest.json";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Exports still queued/running after this were interrupted (e.g. by a server restart)
+const STALE_EXPORT_MS = HOUR_MS;
+
+/**
+ * Raised when a vault's files are too large to fit in one archive
+ */
+export class ExportTooLargeError extends Error {
+  constructor(public message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+function isActive(dataExport: DataExport): boolean {
+  return dataExport.status === "queued" || dataExport.status === "running";
+}
+
+function parseJson(value: string | null): any {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Start an export of the user's vault
+ * Only one export runs per user at a time - if one is already in progress it is returned instead.
+ * The archive is built in the background; poll getDataExport or wait for the push notification.
+ */
+export async function requestDataExport(userId: string): Promise<DataExport> {
+  const existing = await storage.getDataExportsByUserId(userId);
+  for (const dataExport of existing.filter(isActive)) {
+    if (Date.now() - dataExport.updatedAt.getTime() < STALE_EXPORT_MS) {
+      return dataExport;
+    }
+    await storage.updateDataExport(dataExport.id, {
+      status: "failed",
+      error: "Export was interrupted",
+      completedAt: new Date(),
+    });
+  }
+
+  const dataExport = await storage.createDataExport({ userId, status: "queued" });
+  console.log(`[Data Export] Queued export ${dataExport.id} for user ${userId}`);
+
+  // Build in the background so the request returns right away
+  setImmediate(() => {
+    runDataExport(dataExport).catch((error) => {
+      console.error(`[Data Export] Unexpected error in export ${dataExport.id}:`, error);
+    });
+  });
+
+  return dataExport;
+}
+
+async function runDataExport(dataExport: DataExport): Promise<void> {
+  await storage.updateDataExport(dataExport.id, { status: "running" });
+
+  try {
+    const { archive, documentCount } = await buildExportArchive(dataExport.userId);
+    const fileUrl = await FileStorageService.uploadFile(
+      archive,
+      dataExport.userId,
+      `${dataExport.id}.zip`,
+      "application/zip",
+      "exports"
+    );
+
+    const completed = await storage.updateDataExport(dataExport.id, {
+      status: "done",
+      fileUrl,
+      fileSize: archive.length,
+      documentCount,
+      completedAt: new Date(),
+      expiresAt: new Date(Date.now() + config.dataExport.retentionHours * HOUR_MS),
+    });
+    console.log(
+      `[Data Export] Export ${dataExport.id} ready (${documentCount} documents, ${archive.length} bytes)`
+    );
+
+    await notifyExportReady(completed);
+  } catch (error: any) {
+    console.error(`[Data Export] Export ${dataExport.id} failed:`, error.message);
+    await storage.updateDataExport(dataExport.id, {
+      status: "failed",
+      error: error.message || "Export failed",
+      completedAt: new Date(),
+    });
+  }
+}
+
+/**
+ * Build the ZIP archive and manifest for a user
+ * Files that can't be read are listed in manifest.missingFiles rather than failing the export.
+ * @throws ExportTooLargeError once the files pass config.dataExport.maxArchiveSize
+ */
+export async function buildExportArchive(
+  userId: string
+): Promise<{ archive: Buffer; documentCount: number }> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const zip = new JSZip();
+  const missingFiles: Array<{ documentId: string; file: string }> = [];
+  let archivedSize = 0;
+
+  // The same stored file can back several versions (e.g. after a restore) - only add it once
+  const archivedFiles = new Map<string, string | null>();
+  const addFile = async (document: Document, fileUrl: string, name: string): Promise<string | null> => {
+    if (archivedFiles.has(fileUrl)) return archivedFiles.get(fileUrl)!;
+
+    const archivePath = `files/${document.id}/${name}${path.extname(fileUrl).toLowerCase()}`;
+    let contents: Buffer;
+    try {
+      contents = await decryptFile(userId, await FileStorageService.readFile(fileUrl));
+    } catch (error: any) {
+      console.warn(`[Data Export] Could not read ${fileUrl}:`, error.message);
+      missingFiles.push({ documentId: document.id, file: archivePath });
+      archivedFiles.set(fileUrl, null);
+      return null;
+    }
+
+    archivedSize += contents.length;
+    if (archivedSize > config.dataExport.maxArchiveSize) {
+      const limitMb = Math.round(config.dataExport.maxArchiveSize / (1024 * 1024));
+      throw new ExportTooLargeError(
+        `Your vault's files add up to more than ${limitMb}MB, the most one export can hold. Empty the trash or remove old versions and try again.`
+      );
+    }
+
+    // Documents are already compressed (PDF, JPEG, ...) so store them as-is
+    zip.file(archivePath, contents, { compression: "STORE", date: document.createdAt });
+    archivedFiles.set(fileUrl, archivePath);
+    return archivePath;
+  };
+
+  // Trashed documents are still the user's data until they are purged
+  const documents = [
+    ...(await storage.getDocumentsByUserId(userId)),
+    ...(await storage.getTrashedDocuments(userId)),
+  ];
+
+  const documentEntries = [];
+  for (const document of documents) {
+    const versions = await storage.getDocumentVersions(document.id);
+    const versionEntries = [];
+    for (const version of versions) {
+      versionEntries.push({
+        id: version.id,
+        version: version.version,
+        fileType: version.fileType,
+        fileSize: version.fileSize,
+        contentHash: version.contentHash,
+        extractedText: version.extractedText,
+        note: version.note,
+        createdAt: version.createdAt,
+        file: await addFile(document, version.fileUrl, version.version),
+      });
+    }
+
+    // Embeddings are derived data and are rebuilt on import
+    const { fileUrl, embedding, userId: _userId, aiInsight, tags, ...fields } = document;
+    documentEntries.push({
+      ...fields,
+      tags: parseJson(tags),
+      aiInsight: parseJson(aiInsight),
+      file: await addFile(document, fileUrl, "current"),
+      versions: versionEntries,
+      observations: (await storage.getLabObservations(document.id)).map(
+        ({ id, userId: _observationUserId, documentId, ...observation }) => observation
+      ),
+      annotations: (await storage.getDocumentAnnotations(document.id)).map(
+        ({ id, userId: _annotationUserId, documentId, ...annotation }) => annotation
+      ),
+    });
+  }
+
+  const medications = await storage.getMedications(userId);
+  const medicationEntries = [];
+  for (const medication of medications) {
+    medicationEntries.push({
+      ...medication,
+      reminders: await storage.getMedicationReminders(medication.id),
+    });
+  }
+
+  // Share and QR tokens grant access to the vault, so they are never exported
+  const emergencyCard = await storage.getEmergencyCard(userId);
+  const consents = await storage.getConsents(userId);
+  const consentEntries = [];
+  for (const { shareableToken, ...consent } of consents) {
+    consentEntries.push({
+      ...consent,
+      auditLogs: await storage.getAuditLogs(consent.id),
+    });
+  }
+
+  const conversations = await storage.getConversations(userId);
+  const conversationEntries = [];
+  for (const conversation of conversations) {
+    conversationEntries.push({
+      ...conversation,
+      messages: await storage.getMessages(conversation.id),
+    });
+  }
+
+  let emergencyCardEntry = null;
+  if (emergencyCard) {
+    const { qrCodeToken, ...card } = emergencyCard;
+    emergencyCardEntry = card;
+  }
+
+  const manifest = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    user: {
+      id: user.id,
+      phoneNumber: user.phoneNumber,
+      name: user.name,
+      email: user.email,
+      abhaId: user.abhaId,
+      dateOfBirth: user.dateOfBirth,
+      gender: user.gender,
+      bloodGroup: user.bloodGroup,
+      address: user.address,
+      settings: parseJson(user.settings),
+      createdAt: user.createdAt,
+    },
+    documents: documentEntries,
+    medications: medicationEntries,
+    emergencyCard: emergencyCardEntry,
+    nominees: await storage.getNominees(userId),
+    consents: consentEntries,
+    conversations: conversationEntries,
+    missingFiles,
+  };
+
+  zip.file(MANIFEST_FILE_NAME, JSON.stringify(manifest, null, 2));
+
+  const archive = await zip.generateAsync({
+    type: "nodebuffer",
+    compression: "DEFLATE",
+    compressionOptions: { level: 6 },
+  });
+
+  return { archive, documentCount: documentEntries.length };
+}
+
+/**
+ * Read a finished export's archive (decrypted)
+ */
+export async function readExportArchive(dataExport: DataExport): Promise<Buffer> {
+  if (!dataExport.fileUrl) {
+    throw new Error("Export archive is not available");
+  }
+  return decryptFile(dataExport.userId, await FileStorageService.readFile(dataExport.fileUrl));
+}
+
+/**
+ * Whether a finished export's archive has passed its retention period
+ */
+export function isExportExpired(dataExport: DataExport): boolean {
+  return !!dataExport.expiresAt && dataExport.expiresAt.getTime() < Date.now();
+}
+
+/**
+ * Send the download link to all of the user's devices
+ */
+async function notifyExportReady(dataExport: DataExport): Promise<void> {
+  try {
+    const subscriptions = await storage.getPushSubscriptions(dataExport.userId);
+    await Promise.allSettled(
+      subscriptions.map(async (subscription) => {
+        try {
+          await pushNotificationService.sendNotification(subscription, {
+            title: "Your data export is ready",
+            body: `Download your vault archive within ${config.dataExport.retentionHours} hours.`,
+            tag: `data-export-${dataExport.id}`,
+            data: {
+              type: "data_export",
+              exportId: dataExport.id,
+              url: `/api/user/export/${dataExport.id}/download`,
+            },
+          });
+        } catch (error: any) {
+          if (error.message === "Subscription expired" || error.message === "Invalid subscription") {
+            await storage.deletePushSubscription(subscription.id);
+          } else {
+            console.error("[Data Export] Error sending push notification:", error.message);
+          }
+        }
+      })
+    );
+  } catch (error: any) {
+    console.error("[Data Export] Failed to notify user:", error.message);
+  }
+}
+
+/**
+ * Delete archives past their retention period
+ * @returns Number of exports deleted
+ */
+export async function purgeExpiredExports(): Promise<number> {
+  const expired = await storage.getDataExportsExpiredBefore(new Date());
+
+  let purged = 0;
+  for (const dataExport of expired) {
+    try {
+      if (dataExport.fileUrl) {
+        await FileStorageService.deleteFile(dataExport.fileUrl);
+      }
+      await storage.deleteDataExport(dataExport.id);
+      purged++;
+    } catch (error: any) {
+      console.error(`[Data Export] Failed to purge export ${dataExport.id}:`, error.message);
+    }
+  }
+  return purged;
+}
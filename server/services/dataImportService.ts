@@ -0,0 +1,637 @@
+/**
+ * Data Import Service
+ * Recreates a vault from an export archive (see dataExportService) under the current user
+ *
+ * Every record gets a new ID; references between records (medication -> source document)
+ * are remapped. Documents that already exist (same file content hash) and records that
+ * already exist (same content fingerprint) are skipped, and point at the existing record.
+ * A dry run walks the same path without writing anything, so its report is exactly what
+ * a real import would create. If a real import fails partway, everything it created is
+ * deleted again.
+ */
+
+import { createHash } from "crypto";
+import JSZip from "jszip";
+import { z } from "zod";
+import { type Document } from "@shared/schema";
+import { storage } from "../storage";
+import { FileStorageService } from "./fileStorage";
+import { AIService } from "./aiService";
+import { documentProcessingQueue } from "./documentProcessingQueue";
+import { computeContentHash } from "./duplicateDetectionService";
+import { getDeclaredEntrySize, getMimeTypeForFile, MAX_ENTRY_SIZE, readZipEntry } from "./archiveService";
+import { purgeDocument } from "./documentTrashService";
+import { generateReminders } from "./medicationService";
+import { generateQRToken } from "./qrCodeService";
+import { buildObservationFields } from "./labObservationService";
+import { EXPORT_FORMAT, EXPORT_FORMAT_VERSION, MANIFEST_FILE_NAME } from "./dataExportService";
+
+/**
+ * Error raised for archives that can't be imported (returned to the client as a 400)
+ */
+export class ImportError extends Error {
+  constructor(public message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+// Guards against zip bombs, on top of the 200MB upload limit
+const MAX_ARCHIVE_FILES = 20000;
+const MAX_TOTAL_SIZE = 1024 * 1024 * 1024; // 1GB uncompressed
+const MAX_MANIFEST_SIZE = 50 * 1024 * 1024;
+
+const dateField = z.coerce.date().nullable().optional();
+
+const versionSchema = z.object({
+  version: z.string(),
+  fileType: z.string().nullable().optional(),
+  note: z.string().nullable().optional(),
+  extractedText: z.string().nullable().optional(),
+  createdAt: dateField,
+  file: z.string().nullable(),
+});
+
+const observationSchema = z.object({
+  analyte: z.string(),
+  value: z.string(),
+  unit: z.string().nullable().optional(),
+  referenceRange: z.string().nullable().optional(),
+  abnormalFlag: z.enum(["normal", "low", "high", "abnormal"]).nullable().optional(),
+  specimenDate: dateField,
+  position: z.number().int().optional(),
+  source: z.string().optional(),
+});
+
+const annotationSchema = z.object({
+  page: z.number().int().nullable().optional(),
+  regionX: z.number().nullable().optional(),
+  regionY: z.number().nullable().optional(),
+  regionWidth: z.number().nullable().optional(),
+  regionHeight: z.number().nullable().optional(),
+  color: z.string().optional(),
+  note: z.string().nullable().optional(),
+});
+
+const documentSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  type: z.enum(["prescription", "lab", "imaging", "billing"]),
+  provider: z.string().nullable().optional(),
+  date: dateField,
+  fileType: z.string().nullable().optional(),
+  tags: z.array(z.string().max(100)).max(50).nullable().optional(),
+  extractedText: z.string().nullable().optional(),
+  aiInsight: z.any().optional(),
+  aiInsightGeneratedAt: dateField,
+  deletedAt: dateField,
+  file: z.string().nullable(),
+  versions: z.array(versionSchema).default([]),
+  observations: z.array(observationSchema).default([]),
+  annotations: z.array(annotationSchema).default([]),
+});
+
+const medicationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  dosage: z.string(),
+  frequency: z.string(),
+  timing: z.string(),
+  startDate: z.coerce.date(),
+  endDate: dateField,
+  source: z.string(),
+  sourceDocumentId: z.string().nullable().optional(),
+  status: z.string(),
+  instructions: z.string().nullable().optional(),
+});
+
+const emergencyCardSchema = z.object({
+  patientName: z.string(),
+  bloodGroup: z.string().nullable().optional(),
+  allergies: z.string().nullable().optional(),
+  chronicConditions: z.string().nullable().optional(),
+  currentMedications: z.string().nullable().optional(),
+  age: z.number().nullable().optional(),
+  address: z.string().nullable().optional(),
+});
+
+const nomineeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  relationship: z.string(),
+  phoneNumber: z.string(),
+  email: z.string().nullable().optional(),
+  accessScope: z.string(),
+  expiryType: z.string(),
+  customExpiryDate: dateField,
+  status: z.string().optional(),
+});
+
+const manifestSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.number().int().min(1).max(EXPORT_FORMAT_VERSION),
+  documents: z.array(documentSchema).default([]),
+  medications: z.array(medicationSchema).default([]),
+  emergencyCard: emergencyCardSchema.nullable().optional(),
+  nominees: z.array(nomineeSchema).default([]),
+});
+
+type ImportManifest = z.infer<typeof manifestSchema>;
+
+export type ImportItemKind = "document" | "medication" | "emergencyCard" | "nominee";
+
+export interface ImportItem {
+  kind: ImportItemKind;
+  sourceId: string | null; // ID in the archive
+  id: string | null; // New (or existing, when skipped as a duplicate) ID; null in a dry run
+  label: string;
+  action: "create" | "skip";
+  reason?: string; // Why the item was skipped
+  versions?: number; // Versions created with a document
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  summary: Record<ImportItemKind, { created: number; skipped: number }>;
+  items: ImportItem[];
+}
+
+// Records a real import has created so far, deleted again if it fails
+interface CreatedRecords {
+  documents: Document[];
+  medicationIds: string[];
+  nomineeIds: string[];
+}
+
+/**
+ * Fingerprint of a record's identifying fields, used to skip records that already exist
+ */
+function fingerprint(...values: Array<string | Date | null | undefined>): string {
+  const normalized = values.map((value) => {
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    return (value ?? "").toString().trim().toLowerCase();
+  });
+  return createHash("sha256").update(normalized.join("\u0000")).digest("hex");
+}
+
+function toJson(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+async function loadArchive(buffer: Buffer): Promise<{ zip: JSZip; manifest: ImportManifest }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (error: any) {
+    throw new ImportError(`Invalid or corrupted ZIP archive: ${error.message}`);
+  }
+
+  // Sizes from the ZIP directory catch honest oversized archives before anything is
+  // written (and in a dry run); readArchiveFile enforces the limits on the inflated bytes
+  const files = Object.values(zip.files).filter((file) => !file.dir);
+  if (files.length > MAX_ARCHIVE_FILES) {
+    throw new ImportError(`The archive contains more than ${MAX_ARCHIVE_FILES} files`);
+  }
+  const oversized = files.find(
+    (file) => file.name !== MANIFEST_FILE_NAME && getDeclaredEntrySize(file) > MAX_ENTRY_SIZE
+  );
+  if (oversized) {
+    throw new ImportError(`${oversized.name} exceeds the 50MB file limit`);
+  }
+  if (files.reduce((total, file) => total + getDeclaredEntrySize(file), 0) > MAX_TOTAL_SIZE) {
+    throw new ImportError("The archive exceeds the 1GB uncompressed limit");
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE_NAME);
+  if (!manifestFile) {
+    throw new ImportError(`The archive has no ${MANIFEST_FILE_NAME} - is it a vault export?`);
+  }
+
+  const { buffer: manifestContents, truncated } = await readZipEntry(manifestFile, MAX_MANIFEST_SIZE);
+  if (truncated) {
+    throw new ImportError(`${MANIFEST_FILE_NAME} exceeds the 50MB limit`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(manifestContents.toString("utf8"));
+  } catch {
+    throw new ImportError(`${MANIFEST_FILE_NAME} is not valid JSON`);
+  }
+
+  const parsed = manifestSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    throw new ImportError(`Unsupported or invalid manifest: ${issue.path.join(".")} ${issue.message}`);
+  }
+
+  return { zip, manifest: parsed.data };
+}
+
+/**
+ * Import a vault export archive for a user
+ * @param userId - User to import into
+ * @param buffer - Raw ZIP archive
+ * @param options.dryRun - Only report what would be created
+ */
+export async function importVaultArchive(
+  userId: string,
+  buffer: Buffer,
+  options: { dryRun?: boolean } = {}
+): Promise<ImportReport> {
+  const dryRun = !!options.dryRun;
+  const { zip, manifest } = await loadArchive(buffer);
+
+  const items: ImportItem[] = [];
+  const documentIdMap = new Map<string, string | null>();
+
+  // Archive files are uploaded once even if several versions share them
+  const uploadedFiles = new Map<string, string>();
+  const inflatedFiles = new Set<string>();
+  let inflatedSize = 0;
+  const readArchiveFile = async (archivePath: string | null): Promise<Buffer | null> => {
+    if (!archivePath) return null;
+    const file = zip.file(archivePath);
+    if (!file) return null;
+    const { buffer: contents, truncated } = await readZipEntry(file, MAX_ENTRY_SIZE);
+    if (!inflatedFiles.has(archivePath)) {
+      inflatedFiles.add(archivePath);
+      inflatedSize += contents.length;
+    }
+    if (truncated || inflatedSize > MAX_TOTAL_SIZE) {
+      throw new ImportError(`${archivePath} is larger than the archive declares`);
+    }
+    return contents;
+  };
+  const storeArchiveFile = async (archivePath: string, contents: Buffer): Promise<string> => {
+    const existing = uploadedFiles.get(archivePath);
+    if (existing) return existing;
+    const mimeType = getMimeTypeForFile(archivePath) || "application/octet-stream";
+    const fileUrl = await FileStorageService.uploadFile(contents, userId, archivePath, mimeType);
+    uploadedFiles.set(archivePath, fileUrl);
+    return fileUrl;
+  };
+
+  const created: CreatedRecords = { documents: [], medicationIds: [], nomineeIds: [] };
+  try {
+    // Documents
+    const seenHashes = new Map<string, string | null>();
+    for (const entry of manifest.documents) {
+      const skip = (reason: string, id: string | null = null) => {
+        documentIdMap.set(entry.id, id);
+        items.push({ kind: "document", sourceId: entry.id, id, label: entry.title, action: "skip", reason });
+      };
+
+      if (entry.deletedAt) {
+        skip("Document was in the trash when exported");
+        continue;
+      }
+
+      const contents = await readArchiveFile(entry.file);
+      if (!contents) {
+        skip("File is missing from the archive");
+        continue;
+      }
+
+      const contentHash = computeContentHash(contents);
+      if (seenHashes.has(contentHash)) {
+        skip("Duplicate of another document in the archive", seenHashes.get(contentHash) ?? null);
+        continue;
+      }
+      const [existing] = await storage.getDocumentsByContentHash(userId, contentHash);
+      if (existing) {
+        seenHashes.set(contentHash, existing.id);
+        skip("Document already exists in your vault", existing.id);
+        continue;
+      }
+
+      // Oldest first, so history is recreated in the original order
+      const versions = [...entry.versions].sort(
+        (a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0)
+      );
+
+      if (dryRun) {
+        seenHashes.set(contentHash, null);
+        documentIdMap.set(entry.id, null);
+        items.push({
+          kind: "document",
+          sourceId: entry.id,
+          id: null,
+          label: entry.title,
+          action: "create",
+          versions: versions.filter((version) => !!version.file && !!zip.file(version.file)).length,
+        });
+        continue;
+      }
+
+      const document = await createImportedDocument(userId, entry, contents, contentHash, storeArchiveFile);
+      created.documents.push(document);
+
+      let versionCount = 0;
+      for (const version of versions) {
+        const versionContents = await readArchiveFile(version.file);
+        if (!version.file || !versionContents) continue;
+        await storage.createDocumentVersion({
+          documentId: document.id,
+          version: version.version,
+          fileUrl: await storeArchiveFile(version.file, versionContents),
+          fileType: version.fileType ?? null,
+          fileSize: versionContents.length,
+          contentHash: computeContentHash(versionContents),
+          extractedText: version.extractedText ?? null,
+          note: version.note ?? null,
+        });
+        versionCount++;
+      }
+
+      for (let position = 0; position < entry.observations.length; position++) {
+        const observation = entry.observations[position];
+        await storage.createLabObservation({
+          userId,
+          documentId: document.id,
+          ...buildObservationFields(observation),
+          position: observation.position ?? position,
+          source: observation.source === "ai" ? "ai" : "manual",
+        });
+      }
+
+      for (const annotation of entry.annotations) {
+        await storage.createDocumentAnnotation({
+          userId,
+          documentId: document.id,
+          page: annotation.page ?? null,
+          regionX: annotation.regionX ?? null,
+          regionY: annotation.regionY ?? null,
+          regionWidth: annotation.regionWidth ?? null,
+          regionHeight: annotation.regionHeight ?? null,
+          color: annotation.color,
+          note: annotation.note ?? null,
+        });
+      }
+
+      seenHashes.set(contentHash, document.id);
+      documentIdMap.set(entry.id, document.id);
+      items.push({
+        kind: "document",
+        sourceId: entry.id,
+        id: document.id,
+        label: entry.title,
+        action: "create",
+        versions: versionCount,
+      });
+    }
+
+    // Medications
+    const medicationFingerprints = new Map<string, string | null>();
+    for (const medication of await storage.getMedications(userId)) {
+      medicationFingerprints.set(
+        fingerprint(medication.name, medication.dosage, medication.frequency, medication.startDate),
+        medication.id
+      );
+    }
+    for (const entry of manifest.medications) {
+      const key = fingerprint(entry.name, entry.dosage, entry.frequency, entry.startDate);
+      if (medicationFingerprints.has(key)) {
+        items.push({
+          kind: "medication",
+          sourceId: entry.id,
+          id: medicationFingerprints.get(key) ?? null,
+          label: entry.name,
+          action: "skip",
+          reason: "Medication already exists",
+        });
+        continue;
+      }
+
+      let id: string | null = null;
+      if (!dryRun) {
+        const medication = await storage.createMedication({
+          userId,
+          name: entry.name,
+          dosage: entry.dosage,
+          frequency: entry.frequency,
+          timing: entry.timing,
+          startDate: entry.startDate,
+          endDate: entry.endDate ?? null,
+          source: entry.source,
+          sourceDocumentId: entry.sourceDocumentId
+            ? documentIdMap.get(entry.sourceDocumentId) ?? null
+            : null,
+          status: entry.status,
+          instructions: entry.instructions ?? null,
+        });
+        created.medicationIds.push(medication.id);
+
+        // Past reminders are history; only schedule upcoming ones for active medications
+        if (medication.status === "active") {
+          for (const reminder of generateReminders(medication)) {
+            await storage.createMedicationReminder({
+              medicationId: medication.id,
+              scheduledTime: reminder.scheduledTime,
+              status: "pending",
+              sentAt: null,
+            });
+          }
+        }
+        id = medication.id;
+      }
+
+      medicationFingerprints.set(key, id);
+      items.push({ kind: "medication", sourceId: entry.id, id, label: entry.name, action: "create" });
+    }
+
+    // Nominees
+    const nomineeFingerprints = new Map<string, string | null>();
+    for (const nominee of await storage.getNominees(userId)) {
+      nomineeFingerprints.set(fingerprint(nominee.name, nominee.phoneNumber), nominee.id);
+    }
+    for (const entry of manifest.nominees) {
+      if (entry.status === "revoked") {
+        items.push({
+          kind: "nominee",
+          sourceId: entry.id,
+          id: null,
+          label: entry.name,
+          action: "skip",
+          reason: "Nominee access was revoked",
+        });
+        continue;
+      }
+
+      const key = fingerprint(entry.name, entry.phoneNumber);
+      if (nomineeFingerprints.has(key)) {
+        items.push({
+          kind: "nominee",
+          sourceId: entry.id,
+          id: nomineeFingerprints.get(key) ?? null,
+          label: entry.name,
+          action: "skip",
+          reason: "Nominee already exists",
+        });
+        continue;
+      }
+
+      let id: string | null = null;
+      if (!dryRun) {
+        const nominee = await storage.createNominee(userId, {
+          name: entry.name,
+          relationship: entry.relationship,
+          phoneNumber: entry.phoneNumber,
+          email: entry.email ?? undefined,
+          accessScope: entry.accessScope,
+          expiryType: entry.expiryType,
+          customExpiryDate: entry.customExpiryDate ?? undefined,
+        });
+        created.nomineeIds.push(nominee.id);
+        id = nominee.id;
+      }
+
+      nomineeFingerprints.set(key, id);
+      items.push({ kind: "nominee", sourceId: entry.id, id, label: entry.name, action: "create" });
+    }
+
+    // Emergency card - never overwrite the user's own card. Created last, since a card can't be
+    // deleted again if a later step fails
+    if (manifest.emergencyCard) {
+      const card = manifest.emergencyCard;
+      const existing = await storage.getEmergencyCard(userId);
+      if (existing) {
+        items.push({
+          kind: "emergencyCard",
+          sourceId: null,
+          id: existing.id,
+          label: card.patientName,
+          action: "skip",
+          reason: "You already have an emergency card",
+        });
+      } else {
+        let id: string | null = null;
+        if (!dryRun) {
+          const created = await storage.createOrUpdateEmergencyCard(userId, {
+            patientName: card.patientName,
+            bloodGroup: card.bloodGroup ?? undefined,
+            allergies: card.allergies ?? undefined,
+            chronicConditions: card.chronicConditions ?? undefined,
+            currentMedications: card.currentMedications ?? undefined,
+            age: card.age ?? undefined,
+            address: card.address ?? undefined,
+            qrCodeToken: generateQRToken(),
+          });
+          id = created.id;
+        }
+        items.push({ kind: "emergencyCard", sourceId: null, id, label: card.patientName, action: "create" });
+      }
+    }
+  } catch (error) {
+    if (!dryRun) {
+      await rollbackImport(userId, created, Array.from(uploadedFiles.values()));
+    }
+    throw error;
+  }
+
+  const summary: ImportReport["summary"] = {
+    document: { created: 0, skipped: 0 },
+    medication: { created: 0, skipped: 0 },
+    emergencyCard: { created: 0, skipped: 0 },
+    nominee: { created: 0, skipped: 0 },
+  };
+  for (const item of items) {
+    summary[item.kind][item.action === "create" ? "created" : "skipped"]++;
+  }
+
+  console.log(
+    `[Data Import] ${dryRun ? "Dry run for" : "Imported archive for"} user ${userId}: ` +
+      `${summary.document.created} documents, ${summary.medication.created} medications, ` +
+      `${summary.nominee.created} nominees`
+  );
+
+  return { dryRun, summary, items };
+}
+
+/**
+ * Delete everything a failed import created, so the user can fix the archive and retry
+ * Failures are logged rather than thrown, so the caller reports the original error.
+ */
+async function rollbackImport(userId: string, created: CreatedRecords, fileUrls: string[]): Promise<void> {
+  console.warn(
+    `[Data Import] Import failed for user ${userId}, removing ${created.documents.length} documents, ` +
+      `${created.medicationIds.length} medications and ${created.nomineeIds.length} nominees`
+  );
+
+  for (const id of created.nomineeIds) {
+    await storage.deleteNominee(id).catch((error) => {
+      console.error(`[Data Import] Failed to remove nominee ${id}:`, error.message);
+    });
+  }
+  for (const id of created.medicationIds) {
+    await storage.deleteMedication(id).catch((error) => {
+      console.error(`[Data Import] Failed to remove medication ${id}:`, error.message);
+    });
+  }
+  for (const document of created.documents) {
+    await purgeDocument(document).catch((error) => {
+      console.error(`[Data Import] Failed to remove document ${document.id}:`, error.message);
+    });
+  }
+  // Files uploaded for a document that was never created (purgeDocument already removed the rest)
+  for (const fileUrl of fileUrls) {
+    await FileStorageService.deleteFile(fileUrl).catch((error) => {
+      console.error(`[Data Import] Failed to remove file ${fileUrl}:`, error.message);
+    });
+  }
+}
+
+/**
+ * Create a document from an archive entry
+ * Stored OCR text is kept, so only the embedding is regenerated; documents that were
+ * never OCR'd go through the processing queue.
+ */
+async function createImportedDocument(
+  userId: string,
+  entry: ImportManifest["documents"][number],
+  contents: Buffer,
+  contentHash: string,
+  storeArchiveFile: (archivePath: string, contents: Buffer) => Promise<string>
+): Promise<Document> {
+  const hasText = !!entry.extractedText && entry.extractedText.trim().length > 0;
+
+  let embedding: string | null = null;
+  if (hasText && AIService.isConfigured()) {
+    try {
+      embedding = await AIService.generateEmbedding(entry.extractedText!);
+    } catch (error: any) {
+      console.error(`[Data Import] Embedding generation failed for "${entry.title}":`, error.message);
+    }
+  }
+
+  const document = await storage.createDocument({
+    userId,
+    title: entry.title,
+    type: entry.type,
+    provider: entry.provider ?? null,
+    date: entry.date ?? null,
+    fileUrl: await storeArchiveFile(entry.file!, contents),
+    fileType: entry.fileType ?? null,
+    fileSize: contents.length,
+    contentHash,
+    tags: toJson(entry.tags),
+    syncStatus: "synced",
+    extractedText: hasText ? entry.extractedText! : null,
+    embedding,
+    ocrProcessed: hasText,
+    ocrProcessedAt: hasText ? new Date() : null,
+  });
+
+  if (hasText && entry.aiInsight) {
+    return storage.updateDocument(document.id, {
+      aiInsight: toJson(entry.aiInsight),
+      aiInsightGeneratedAt: entry.aiInsightGeneratedAt ?? new Date(),
+    });
+  }
+
+  if (!hasText) {
+    await documentProcessingQueue.enqueue(document.id, userId);
+  }
+  return document;
+}
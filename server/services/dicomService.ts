@@ -0,0 +1,564 @@
+/**
+ * DICOM Service
+ * Reads DICOM (.dcm) files from imaging CDs, groups them into one vault document per study
+ * and renders preview frames with the window/level applied
+ *
+ * A CT or MRI study is hundreds of single-image files. Every file is stored (encrypted) with a
+ * dicom_instances row; the study itself is a single imaging document whose pages are its
+ * images in series order, so page previews and the page viewer work for it like a PDF.
+ */
+
+import dicomParser from "dicom-parser";
+import * as path from "path";
+import { createCanvas, loadImage, type Canvas } from "@napi-rs/canvas";
+import { type DicomInstance, type Document } from "@shared/schema";
+import { storage } from "../storage";
+import { FileStorageService } from "./fileStorage";
+import { decryptFile } from "./encryptionService";
+import { computeContentHash } from "./duplicateDetectionService";
+
+export const DICOM_MIME_TYPE = "application/dicom";
+
+/**
+ * Error raised for DICOM files that can't be read or previewed
+ */
+export class DicomError extends Error {
+  constructor(public message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+export interface DicomFile {
+  fileName: string;
+  buffer: Buffer;
+}
+
+export interface DicomFileInfo {
+  studyInstanceUid: string;
+  seriesInstanceUid: string;
+  sopInstanceUid: string;
+  studyDate: Date | null;
+  studyDescription: string | null;
+  seriesDescription: string | null;
+  seriesNumber: number | null;
+  instanceNumber: number | null;
+  modality: string | null;
+  bodyPart: string | null;
+  institutionName: string | null;
+  rows: number | null;
+  columns: number | null;
+  frameCount: number;
+}
+
+export interface DicomStudySummary {
+  studyInstanceUid: string;
+  title: string;
+  date: Date | null;
+  provider: string | null;
+  modalities: string[];
+  bodyParts: string[];
+  tags: string[];
+  seriesCount: number;
+  fileCount: number;
+}
+
+export interface DicomStudyImportResult {
+  document: Document;
+  created: boolean; // false when the files were added to a study already in the vault
+  added: number;
+  skipped: number; // Images already in the study
+}
+
+// Tags read from each file (group/element as dicom-parser expects them)
+const TAGS = {
+  mediaStorageSopClassUid: "x00020002",
+  transferSyntaxUid: "x00020010",
+  studyInstanceUid: "x0020000d",
+  seriesInstanceUid: "x0020000e",
+  sopInstanceUid: "x00080018",
+  studyDate: "x00080020",
+  studyDescription: "x00081030",
+  seriesDescription: "x0008103e",
+  seriesNumber: "x00200011",
+  instanceNumber: "x00200013",
+  modality: "x00080060",
+  bodyPart: "x00180015",
+  institutionName: "x00080080",
+  samplesPerPixel: "x00280002",
+  photometricInterpretation: "x00280004",
+  planarConfiguration: "x00280006",
+  frameCount: "x00280008",
+  rows: "x00280010",
+  columns: "x00280011",
+  bitsAllocated: "x00280100",
+  bitsStored: "x00280101",
+  pixelRepresentation: "x00280103",
+  windowCenter: "x00281050",
+  windowWidth: "x00281051",
+  rescaleIntercept: "x00281052",
+  rescaleSlope: "x00281053",
+  pixelData: "x7fe00010",
+};
+
+// DICOMDIR - the index file at the root of an imaging CD, it holds no image
+const MEDIA_DIRECTORY_SOP_CLASS = "1.2.840.10008.1.3.10";
+
+const IMPLICIT_LITTLE_ENDIAN = "1.2.840.10008.1.2";
+const UNCOMPRESSED_TRANSFER_SYNTAXES = [IMPLICIT_LITTLE_ENDIAN, "1.2.840.10008.1.2.1"];
+// 8-bit JPEG baseline/extended - what ultrasound and scanned films usually use
+const JPEG_BASELINE_TRANSFER_SYNTAXES = ["1.2.840.10008.1.2.4.50", "1.2.840.10008.1.2.4.51"];
+
+// Patient-friendly names for the modalities found on diagnostic centre CDs
+const MODALITY_LABELS: Record<string, string> = {
+  CT: "CT Scan",
+  MR: "MRI",
+  CR: "X-Ray",
+  DX: "X-Ray",
+  US: "Ultrasound",
+  MG: "Mammogram",
+  PT: "PET Scan",
+  NM: "Nuclear Medicine",
+  XA: "Angiography",
+  RF: "Fluoroscopy",
+};
+
+/**
+ * Check for the "DICM" marker that follows the 128-byte preamble of every DICOM file
+ */
+export function isDicomFile(buffer: Buffer): boolean {
+  return buffer.length > 132 && buffer.toString("latin1", 128, 132) === "DICM";
+}
+
+/**
+ * Friendly label for a modality code ("MR" -> "MRI"), the code itself if unknown
+ */
+export function getModalityLabel(modality: string): string {
+  return MODALITY_LABELS[modality.toUpperCase()] || modality.toUpperCase();
+}
+
+function toTitleCase(value: string): string {
+  return value.toLowerCase().replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+}
+
+function parseDataSet(buffer: Buffer, untilPixelData: boolean): dicomParser.DataSet {
+  try {
+    return dicomParser.parseDicom(
+      new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.length),
+      untilPixelData ? { untilTag: TAGS.pixelData } : undefined
+    );
+  } catch (error: any) {
+    throw new DicomError(`Not a readable DICOM file: ${error?.message || error}`);
+  }
+}
+
+function readString(dataSet: dicomParser.DataSet, tag: string): string | null {
+  const value = dataSet.string(tag)?.replace(/\0/g, "").trim();
+  return value ? value : null;
+}
+
+// DA values are YYYYMMDD; older files sometimes use YYYY.MM.DD
+function parseDicomDate(value: string | null): Date | null {
+  const match = value?.replace(/\./g, "").match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Read the study, series and image details of a DICOM file (without decoding the image)
+ * @returns null for a DICOMDIR index file
+ * @throws DicomError if the file is not valid DICOM or has no study/series/instance UIDs
+ */
+export function parseDicomFile(buffer: Buffer): DicomFileInfo | null {
+  if (!isDicomFile(buffer)) {
+    throw new DicomError("Not a DICOM file");
+  }
+
+  const dataSet = parseDataSet(buffer, true);
+  if (readString(dataSet, TAGS.mediaStorageSopClassUid) === MEDIA_DIRECTORY_SOP_CLASS) {
+    return null;
+  }
+
+  const studyInstanceUid = readString(dataSet, TAGS.studyInstanceUid);
+  const seriesInstanceUid = readString(dataSet, TAGS.seriesInstanceUid);
+  const sopInstanceUid = readString(dataSet, TAGS.sopInstanceUid);
+  if (!studyInstanceUid || !seriesInstanceUid || !sopInstanceUid) {
+    throw new DicomError("DICOM file is missing its study, series or image identifiers");
+  }
+
+  return {
+    studyInstanceUid,
+    seriesInstanceUid,
+    sopInstanceUid,
+    studyDate: parseDicomDate(readString(dataSet, TAGS.studyDate)),
+    studyDescription: readString(dataSet, TAGS.studyDescription),
+    seriesDescription: readString(dataSet, TAGS.seriesDescription),
+    seriesNumber: dataSet.intString(TAGS.seriesNumber) ?? null,
+    instanceNumber: dataSet.intString(TAGS.instanceNumber) ?? null,
+    modality: readString(dataSet, TAGS.modality)?.toUpperCase() ?? null,
+    bodyPart: readString(dataSet, TAGS.bodyPart),
+    institutionName: readString(dataSet, TAGS.institutionName),
+    rows: dataSet.uint16(TAGS.rows) ?? null,
+    columns: dataSet.uint16(TAGS.columns) ?? null,
+    frameCount: dataSet.intString(TAGS.frameCount) || 1,
+  };
+}
+
+/**
+ * Document metadata for a study (title, date, provider, tags) from the files of the study
+ */
+function summarizeStudy(files: DicomFileInfo[]): DicomStudySummary {
+  const first = files[0];
+  const modalities = Array.from(new Set(files.map((f) => f.modality).filter((m): m is string => !!m)));
+  const bodyParts = Array.from(
+    new Set(files.map((f) => f.bodyPart && toTitleCase(f.bodyPart)).filter((b): b is string => !!b))
+  );
+  const modalityLabels = Array.from(new Set(modalities.map(getModalityLabel)));
+
+  const title =
+    files.find((f) => f.studyDescription)?.studyDescription ||
+    [modalityLabels[0], bodyParts[0]].filter(Boolean).join(" ") ||
+    "Imaging Study";
+
+  return {
+    studyInstanceUid: first.studyInstanceUid,
+    title,
+    date: files.find((f) => f.studyDate)?.studyDate ?? null,
+    provider: files.find((f) => f.institutionName)?.institutionName ?? null,
+    modalities,
+    bodyParts,
+    tags: [...modalityLabels, ...bodyParts],
+    seriesCount: new Set(files.map((f) => f.seriesInstanceUid)).size,
+    fileCount: files.length,
+  };
+}
+
+/**
+ * Parse DICOM files and group them by study
+ * DICOMDIR index files are ignored; unreadable files are reported in failed
+ */
+function groupByStudy(files: DicomFile[]): {
+  studies: Map<string, Array<{ file: DicomFile; info: DicomFileInfo }>>;
+  failed: Array<{ fileName: string; reason: string }>;
+} {
+  const studies = new Map<string, Array<{ file: DicomFile; info: DicomFileInfo }>>();
+  const failed: Array<{ fileName: string; reason: string }> = [];
+
+  for (const file of files) {
+    try {
+      const info = parseDicomFile(file.buffer);
+      if (!info) continue;
+      const study = studies.get(info.studyInstanceUid) ?? [];
+      study.push({ file, info });
+      studies.set(info.studyInstanceUid, study);
+    } catch (error: any) {
+      failed.push({ fileName: file.fileName, reason: error.message });
+    }
+  }
+
+  return { studies, failed };
+}
+
+/**
+ * Describe the studies in a set of DICOM files without storing anything (upload preview)
+ */
+export function describeDicomStudies(files: DicomFile[]): {
+  studies: DicomStudySummary[];
+  failed: Array<{ fileName: string; reason: string }>;
+} {
+  const { studies, failed } = groupByStudy(files);
+  return {
+    studies: Array.from(studies.values()).map((study) => summarizeStudy(study.map(({ info }) => info))),
+    failed,
+  };
+}
+
+/**
+ * Images of a study in viewer order (series number, then instance number)
+ */
+export async function getStudyInstances(document: Document): Promise<DicomInstance[]> {
+  return storage.getDicomInstances(document.id);
+}
+
+/**
+ * Read and decrypt the stored file of a study image
+ */
+export async function readDicomInstanceFile(instance: DicomInstance): Promise<Buffer> {
+  return decryptFile(instance.userId, await FileStorageService.readFile(instance.fileUrl));
+}
+
+/**
+ * Store DICOM files as vault documents - one imaging document per study
+ * Files of a study that is already in the vault are added to its document, and images the
+ * study already holds (same SOP Instance UID) are skipped, so a CD can be imported again safely.
+ * @param defaults - Used when the files don't say where or when the study was done
+ */
+export async function importDicomFiles(
+  userId: string,
+  files: DicomFile[],
+  defaults: { provider?: string; date?: string; tags?: string[] } = {}
+): Promise<{ studies: DicomStudyImportResult[]; failed: Array<{ fileName: string; reason: string }> }> {
+  const { studies, failed } = groupByStudy(files);
+  const results: DicomStudyImportResult[] = [];
+
+  for (const study of Array.from(studies.values())) {
+    const summary = summarizeStudy(study.map(({ info }) => info));
+    const existing = await storage.getDocumentByStudyInstanceUid(userId, summary.studyInstanceUid);
+    const knownImages = new Set(
+      existing ? (await storage.getDicomInstances(existing.id)).map((instance) => instance.sopInstanceUid) : []
+    );
+
+    const newImages: Array<{ info: DicomFileInfo; fileUrl: string; fileSize: number }> = [];
+    let skipped = 0;
+    for (const { file, info } of study) {
+      if (knownImages.has(info.sopInstanceUid)) {
+        skipped++;
+        continue;
+      }
+      knownImages.add(info.sopInstanceUid);
+      const fileUrl = await FileStorageService.uploadFile(
+        file.buffer,
+        userId,
+        `${path.basename(file.fileName, path.extname(file.fileName))}.dcm`,
+        DICOM_MIME_TYPE
+      );
+      newImages.push({ info, fileUrl, fileSize: file.buffer.length });
+    }
+
+    if (existing && newImages.length === 0) {
+      results.push({ document: existing, created: false, added: 0, skipped });
+      continue;
+    }
+
+    const defaultDate = defaults.date ? new Date(defaults.date) : null;
+    const document =
+      existing ??
+      (await storage.createDocument({
+        userId,
+        title: summary.title,
+        type: "imaging",
+        provider: summary.provider || defaults.provider || null,
+        date: summary.date ?? (defaultDate && !isNaN(defaultDate.getTime()) ? defaultDate : null),
+        fileUrl: newImages[0].fileUrl,
+        fileType: "DICOM",
+        fileSize: 0,
+        studyInstanceUid: summary.studyInstanceUid,
+        tags: null,
+        syncStatus: "synced",
+        extractedText: null,
+        embedding: null,
+        ocrProcessed: false,
+        ocrProcessedAt: null,
+      }));
+
+    for (const { info, fileUrl, fileSize } of newImages) {
+      await storage.createDicomInstance({
+        userId,
+        documentId: document.id,
+        studyInstanceUid: info.studyInstanceUid,
+        seriesInstanceUid: info.seriesInstanceUid,
+        sopInstanceUid: info.sopInstanceUid,
+        seriesNumber: info.seriesNumber,
+        seriesDescription: info.seriesDescription,
+        instanceNumber: info.instanceNumber,
+        modality: info.modality,
+        bodyPart: info.bodyPart,
+        rows: info.rows,
+        columns: info.columns,
+        frameCount: info.frameCount,
+        fileUrl,
+        fileSize,
+      });
+    }
+
+    // The study's first image stands in as the document file; the hash changes whenever
+    // images are added, which also invalidates cached previews
+    const instances = await storage.getDicomInstances(document.id);
+    const existingTags: string[] = document.tags ? JSON.parse(document.tags) : [];
+    const tags = Array.from(new Set([...existingTags, ...(defaults.tags || []), ...summary.tags]));
+    const updated = await storage.updateDocument(document.id, {
+      fileUrl: instances[0].fileUrl,
+      fileSize: instances.reduce((total, instance) => total + (instance.fileSize || 0), 0),
+      pageCount: instances.length,
+      contentHash: computeContentHash(
+        Buffer.from(instances.map((instance) => instance.sopInstanceUid).sort().join("\n"))
+      ),
+      tags: tags.length > 0 ? JSON.stringify(tags) : null,
+    });
+
+    console.log(
+      `[DICOM] ${existing ? "Added" : "Imported"} ${newImages.length} image(s) ${existing ? "to" : "as"} study document ${document.id}` +
+        (skipped > 0 ? `, skipped ${skipped} already stored` : "")
+    );
+    results.push({ document: updated, created: !existing, added: newImages.length, skipped });
+  }
+
+  return { studies: results, failed };
+}
+
+/**
+ * Study details for API responses: modalities, body parts and series with their first page
+ */
+export function serializeDicomStudy(document: Document, instances: DicomInstance[]) {
+  const series: Array<{
+    seriesInstanceUid: string;
+    seriesNumber: number | null;
+    description: string | null;
+    modality: string | null;
+    bodyPart: string | null;
+    imageCount: number;
+    firstPage: number; // 1-based page of the series' first image in the page viewer
+  }> = [];
+
+  for (let i = 0; i < instances.length; i++) {
+    const instance = instances[i];
+    const current = series[series.length - 1];
+    if (current && current.seriesInstanceUid === instance.seriesInstanceUid) {
+      current.imageCount++;
+      continue;
+    }
+    series.push({
+      seriesInstanceUid: instance.seriesInstanceUid,
+      seriesNumber: instance.seriesNumber,
+      description: instance.seriesDescription,
+      modality: instance.modality,
+      bodyPart: instance.bodyPart && toTitleCase(instance.bodyPart),
+      imageCount: 1,
+      firstPage: i + 1,
+    });
+  }
+
+  const modalities = Array.from(new Set(instances.map((i) => i.modality).filter((m): m is string => !!m)));
+
+  return {
+    studyInstanceUid: document.studyInstanceUid,
+    modalities: modalities.map((code) => ({ code, label: getModalityLabel(code) })),
+    bodyParts: Array.from(
+      new Set(instances.map((i) => i.bodyPart && toTitleCase(i.bodyPart)).filter((b): b is string => !!b))
+    ),
+    imageCount: instances.length,
+    series,
+  };
+}
+
+/**
+ * Map a stored pixel value to an 8-bit grey level using the DICOM linear VOI LUT (window/level)
+ */
+function applyWindow(value: number, center: number, width: number): number {
+  if (width <= 1) return value < center ? 0 : 255;
+  const low = center - 0.5 - (width - 1) / 2;
+  const high = center - 0.5 + (width - 1) / 2;
+  if (value <= low) return 0;
+  if (value > high) return 255;
+  return ((value - (center - 0.5)) / (width - 1) + 0.5) * 255;
+}
+
+/**
+ * Decode the first frame of a DICOM image onto a canvas at full resolution
+ * Greyscale images get the rescale slope/intercept and the window/level stored in the file
+ * (or the full value range when the file has none); MONOCHROME1 is inverted.
+ * @throws DicomError for compression formats and pixel layouts that can't be decoded here
+ */
+export async function renderDicomFrame(buffer: Buffer): Promise<Canvas> {
+  const dataSet = parseDataSet(buffer, false);
+  const pixelData = dataSet.elements[TAGS.pixelData];
+  if (!pixelData) {
+    throw new DicomError("This DICOM file does not contain an image");
+  }
+
+  const transferSyntax = readString(dataSet, TAGS.transferSyntaxUid) ?? IMPLICIT_LITTLE_ENDIAN;
+
+  if (JPEG_BASELINE_TRANSFER_SYNTAXES.includes(transferSyntax)) {
+    const offsets = pixelData.basicOffsetTable?.length
+      ? pixelData.basicOffsetTable
+      : dicomParser.createJPEGBasicOffsetTable(dataSet, pixelData);
+    const frame = dicomParser.readEncapsulatedImageFrame(dataSet, pixelData, 0, offsets);
+    const image = await loadImage(Buffer.from(frame.buffer, frame.byteOffset, frame.length));
+    const canvas = createCanvas(image.width, image.height);
+    canvas.getContext("2d").drawImage(image, 0, 0);
+    return canvas;
+  }
+
+  if (!UNCOMPRESSED_TRANSFER_SYNTAXES.includes(transferSyntax)) {
+    throw new DicomError(`Previews are not available for this image's compression (${transferSyntax})`);
+  }
+
+  const rows = dataSet.uint16(TAGS.rows) ?? 0;
+  const columns = dataSet.uint16(TAGS.columns) ?? 0;
+  const samplesPerPixel = dataSet.uint16(TAGS.samplesPerPixel) ?? 1;
+  const bitsAllocated = dataSet.uint16(TAGS.bitsAllocated) ?? 16;
+  const bitsStored = Math.min(dataSet.uint16(TAGS.bitsStored) ?? bitsAllocated, bitsAllocated);
+  const photometric = readString(dataSet, TAGS.photometricInterpretation) ?? "MONOCHROME2";
+  const pixelCount = rows * columns;
+  const start = pixelData.dataOffset;
+
+  if (pixelCount === 0 || start + pixelCount * samplesPerPixel * (bitsAllocated / 8) > buffer.length) {
+    throw new DicomError("The image data in this DICOM file is incomplete");
+  }
+
+  const canvas = createCanvas(columns, rows);
+  const context = canvas.getContext("2d");
+  const imageData = context.createImageData(columns, rows);
+  const rgba = imageData.data;
+
+  if (samplesPerPixel === 1 && (bitsAllocated === 8 || bitsAllocated === 16)) {
+    const signed = dataSet.uint16(TAGS.pixelRepresentation) === 1;
+    const slope = dataSet.floatString(TAGS.rescaleSlope) ?? 1;
+    const intercept = dataSet.floatString(TAGS.rescaleIntercept) ?? 0;
+    // High bits above bitsStored can hold overlays - mask them off (or sign-extend)
+    const shift = 32 - bitsStored;
+    const mask = bitsStored >= 32 ? 0xffffffff : 2 ** bitsStored - 1;
+
+    const values = new Float32Array(pixelCount);
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < pixelCount; i++) {
+      const raw = bitsAllocated === 8 ? buffer[start + i] : buffer.readUInt16LE(start + i * 2);
+      const stored = signed ? (raw << shift) >> shift : raw & mask;
+      const value = stored * slope + intercept;
+      values[i] = value;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+
+    let center = dataSet.floatString(TAGS.windowCenter);
+    let width = dataSet.floatString(TAGS.windowWidth);
+    if (center === undefined || width === undefined || !(width > 0)) {
+      center = (min + max) / 2;
+      width = Math.max(max - min, 1);
+    }
+    const invert = photometric === "MONOCHROME1";
+
+    for (let i = 0; i < pixelCount; i++) {
+      const grey = applyWindow(values[i], center, width);
+      const level = invert ? 255 - grey : grey;
+      rgba[i * 4] = level;
+      rgba[i * 4 + 1] = level;
+      rgba[i * 4 + 2] = level;
+      rgba[i * 4 + 3] = 255;
+    }
+  } else if (samplesPerPixel === 3 && bitsAllocated === 8 && (photometric === "RGB" || photometric === "YBR_FULL")) {
+    const planar = dataSet.uint16(TAGS.planarConfiguration) === 1;
+    for (let i = 0; i < pixelCount; i++) {
+      const a = planar ? buffer[start + i] : buffer[start + i * 3];
+      const b = planar ? buffer[start + pixelCount + i] : buffer[start + i * 3 + 1];
+      const c = planar ? buffer[start + pixelCount * 2 + i] : buffer[start + i * 3 + 2];
+      if (photometric === "RGB") {
+        rgba[i * 4] = a;
+        rgba[i * 4 + 1] = b;
+        rgba[i * 4 + 2] = c;
+      } else {
+        rgba[i * 4] = a + 1.402 * (c - 128);
+        rgba[i * 4 + 1] = a - 0.344136 * (b - 128) - 0.714136 * (c - 128);
+        rgba[i * 4 + 2] = a + 1.772 * (b - 128);
+      }
+      rgba[i * 4 + 3] = 255;
+    }
+  } else {
+    throw new DicomError(`Previews are not available for ${photometric} images with ${bitsAllocated}-bit samples`);
+  }
+
+  context.putImageData(imageData, 0, 0);
+  return canvas;
+}
@@ -0,0 +1,84 @@
+/**
+ * Document Annotation Service
+ * Personal notes on documents and highlighted regions of their page images
+ *
+ * Regions are stored as fractions (0-1) of the page image, so they line up with the
+ * thumbnail, the page viewer and the fullscreen preview alike.
+ */
+
+import { type DocumentAnnotation } from "@shared/schema";
+import { storage } from "../storage";
+
+export const ANNOTATION_COLORS = ["yellow", "red", "green", "blue"] as const;
+
+export interface AnnotationRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Region of an annotation, or null for a note about the whole document
+ */
+export function getAnnotationRegion(annotation: DocumentAnnotation): AnnotationRegion | null {
+  if (
+    annotation.regionX === null ||
+    annotation.regionY === null ||
+    annotation.regionWidth === null ||
+    annotation.regionHeight === null
+  ) {
+    return null;
+  }
+
+  return {
+    x: annotation.regionX,
+    y: annotation.regionY,
+    width: annotation.regionWidth,
+    height: annotation.regionHeight,
+  };
+}
+
+/**
+ * Column values for a region (null clears it)
+ */
+export function toRegionFields(region: AnnotationRegion | null) {
+  return {
+    regionX: region?.x ?? null,
+    regionY: region?.y ?? null,
+    regionWidth: region?.width ?? null,
+    regionHeight: region?.height ?? null,
+  };
+}
+
+/**
+ * Notes of each of a user's documents joined into one string, keyed by document id (used by search)
+ */
+export async function getAnnotationTextByDocument(userId: string): Promise<Map<string, string>> {
+  const annotations = await storage.getDocumentAnnotationsByUserId(userId);
+  const text = new Map<string, string>();
+
+  for (const annotation of annotations) {
+    if (!annotation.note) continue;
+    const existing = text.get(annotation.documentId);
+    text.set(annotation.documentId, existing ? `${existing}\n${annotation.note}` : annotation.note);
+  }
+
+  return text;
+}
+
+/**
+ * Shape an annotation for API responses
+ */
+export function serializeAnnotation(annotation: DocumentAnnotation) {
+  return {
+    id: annotation.id,
+    documentId: annotation.documentId,
+    page: annotation.page,
+    region: getAnnotationRegion(annotation),
+    color: annotation.color,
+    note: annotation.note,
+    createdAt: annotation.createdAt,
+    updatedAt: annotation.updatedAt,
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Document Preview Service
+ * Renders PDF pages, images and DICOM studies to JPEG thumbnails and full-size page images
+ *
+ * Browsers (especially mobile ones) often can't show a PDF inline, and vault files are
+ * encrypted so they can't be handed to a viewer by URL. Pages are rendered on the server
+ * with pdf.js on first request and cached in file storage under
+ * previews/<userId>/<documentId>/<contentHash>/<size>-<page>.jpg - encrypted like any
+ * other vault file. Keying by content hash means a new or restored version never
+ * serves stale pages.
+ */
+
+import { createRequire } from "module";
+import * as path from "path";
+import { createCanvas, loadImage, type Canvas, type Image } from "@napi-rs/canvas";
+import type { PageViewport, PDFPageProxy } from "pdfjs-dist";
+import { type Document } from "@shared/schema";
+import { config } from "../config";
+import { storage } from "../storage";
+import { FileStorageService } from "./fileStorage";
+import { decryptFile } from "./encryptionService";
+import { getDocumentMimeType, readDocumentFile } from "./documentProcessingService";
+import { computeContentHash } from "./duplicateDetectionService";
+import { DICOM_MIME_TYPE, getStudyInstances, readDicomInstanceFile, renderDicomFrame } from "./dicomService";
+
+export type PreviewSize = "thumbnail" | "page";
+
+export const PREVIEW_SIZES: PreviewSize[] = ["thumbnail", "page"];
+
+const PREVIEW_MIME_TYPE = "image/jpeg";
+const JPEG_QUALITY = 80;
+
+const IMAGE_MIME_TYPES = ["image/jpeg", "image/png"];
+
+// pdf.js needs its bundled fonts and character maps from disk when running in Node
+const pdfjsRoot = path.dirname(createRequire(import.meta.url).resolve("pdfjs-dist/package.json"));
+
+/**
+ * Open a PDF with pdf.js (call destroy() on the result when done)
+ */
+export async function openPdf(file: Buffer) {
+  // Loaded on first use - pdf.js is large and most requests never need it
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  return pdfjs.getDocument({
+    data: new Uint8Array(file),
+    standardFontDataUrl: path.join(pdfjsRoot, "standard_fonts") + path.sep,
+    cMapUrl: path.join(pdfjsRoot, "cmaps") + path.sep,
+    cMapPacked: true,
+    isEvalSupported: false,
+  }).promise;
+}
+
+// pdf.js is typed against the DOM canvas; @napi-rs/canvas implements the part of it pdf.js draws with
+type PdfRenderTarget = Pick<Parameters<PDFPageProxy["render"]>[0], "canvas" | "canvasContext">;
+
+/**
+ * Render a PDF page onto a canvas already sized to the viewport
+ */
+export async function renderPdfPage(page: PDFPageProxy, canvas: Canvas, viewport: PageViewport): Promise<void> {
+  const target = { canvas, canvasContext: canvas.getContext("2d") } as unknown as PdfRenderTarget;
+  await page.render({ ...target, viewport }).promise;
+}
+
+/**
+ * Whether pages of this document can be rendered (PDFs, JPEG/PNG images and DICOM studies)
+ * Each image of a DICOM study is one page.
+ */
+export function isPreviewSupported(document: Document): boolean {
+  const mimeType = getDocumentMimeType(document);
+  return mimeType === "application/pdf" || mimeType === DICOM_MIME_TYPE || IMAGE_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * Count the pages of a file (1 for images)
+ * @returns Page count, or null if the file can't be previewed or read
+ */
+export async function countPages(file: Buffer, mimeType: string): Promise<number | null> {
+  if (IMAGE_MIME_TYPES.includes(mimeType)) return 1;
+  if (mimeType !== "application/pdf") return null;
+
+  try {
+    const pdf = await openPdf(file);
+    const pageCount = pdf.numPages;
+    await pdf.destroy();
+    return pageCount;
+  } catch (error: any) {
+    console.warn("[Preview] Could not read PDF page count:", error.message);
+    return null;
+  }
+}
+
+/**
+ * Get a document's page count, counting (and saving it) on first use
+ * Documents processed before page counts existed are counted here.
+ */
+export async function getDocumentPageCount(document: Document): Promise<number | null> {
+  if (document.pageCount) return document.pageCount;
+  if (!isPreviewSupported(document)) return null;
+
+  // Study documents get their page count when images are imported
+  if (getDocumentMimeType(document) === DICOM_MIME_TYPE) {
+    return (await getStudyInstances(document)).length || null;
+  }
+
+  const file = await readDocumentFile(document);
+  const pageCount = await countPages(file, getDocumentMimeType(document));
+  if (pageCount) {
+    await storage.updateDocument(document.id, {
+      pageCount,
+      contentHash: document.contentHash ?? computeContentHash(file),
+    });
+  }
+  return pageCount;
+}
+
+/**
+ * Storage folder holding all cached previews of a document
+ */
+function getPreviewFolder(document: Document): string {
+  return `previews/${document.userId}/${document.id}`;
+}
+
+// Renders are CPU heavy - at most config.preview.maxConcurrentRenders run at once
+let activeRenders = 0;
+const waitingRenders: Array<() => void> = [];
+
+/**
+ * Run a render once a render slot is free (shared with other services that render pages)
+ */
+export async function withRenderSlot<T>(render: () => Promise<T>): Promise<T> {
+  if (activeRenders < config.preview.maxConcurrentRenders) {
+    activeRenders++;
+  } else {
+    // The finishing render hands its slot straight to us
+    await new Promise<void>((resolve) => waitingRenders.push(resolve));
+  }
+
+  try {
+    return await render();
+  } finally {
+    const next = waitingRenders.shift();
+    if (next) {
+      next();
+    } else {
+      activeRenders--;
+    }
+  }
+}
+
+// The vault grid asks for the same thumbnail several times while it is still rendering
+const pendingRenders = new Map<string, Promise<Buffer>>();
+
+async function encodeScaled(source: Image | Canvas, width: number): Promise<Buffer> {
+  // Never upscale small photos or scans
+  const scale = Math.min(1, width / source.width);
+  const canvas = createCanvas(Math.round(source.width * scale), Math.round(source.height * scale));
+  canvas.getContext("2d").drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.encode("jpeg", JPEG_QUALITY);
+}
+
+async function renderPage(document: Document, file: Buffer | null, page: number, width: number): Promise<Buffer> {
+  const mimeType = getDocumentMimeType(document);
+
+  if (mimeType === DICOM_MIME_TYPE) {
+    const instance = (await getStudyInstances(document))[page - 1];
+    if (!instance) throw new Error(`Study has no image ${page}`);
+    return encodeScaled(await renderDicomFrame(await readDicomInstanceFile(instance)), width);
+  }
+
+  file = file ?? (await readDocumentFile(document));
+  if (IMAGE_MIME_TYPES.includes(mimeType)) {
+    return encodeScaled(await loadImage(file), width);
+  }
+
+  const pdf = await openPdf(file);
+  try {
+    const pdfPage = await pdf.getPage(page);
+    const viewport = pdfPage.getViewport({ scale: width / pdfPage.getViewport({ scale: 1 }).width });
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    const context = canvas.getContext("2d");
+
+    // PDFs without a background would render onto transparent (black once encoded as JPEG)
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+
+    await renderPdfPage(pdfPage, canvas, viewport);
+    return canvas.encode("jpeg", JPEG_QUALITY);
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Get a rendered page of a document as a JPEG, rendering and caching it on first request
+ * @param document - Document to preview (check isPreviewSupported and the page count first)
+ * @param page - 1-based page number
+ * @param size - "thumbnail" for grids, "page" for the page viewer
+ */
+export async function getDocumentPagePreview(
+  document: Document,
+  page: number,
+  size: PreviewSize
+): Promise<Buffer> {
+  const file = document.contentHash ? null : await readDocumentFile(document);
+  const contentHash = document.contentHash ?? computeContentHash(file!);
+  const key = `${getPreviewFolder(document)}/${contentHash}/${size}-${page}.jpg`;
+
+  if (await FileStorageService.fileExists(key)) {
+    return decryptFile(document.userId, await FileStorageService.readFile(key));
+  }
+
+  const pending = pendingRenders.get(key);
+  if (pending) return pending;
+
+  const render = withRenderSlot(async () => {
+    const width = size === "thumbnail" ? config.preview.thumbnailWidth : config.preview.pageWidth;
+    const preview = await renderPage(document, file, page, width);
+    await FileStorageService.storeFile(key, preview, document.userId, PREVIEW_MIME_TYPE);
+    console.log(`[Preview] Rendered page ${page} (${size}) of document ${document.id}`);
+    return preview;
+  }).finally(() => {
+    pendingRenders.delete(key);
+  });
+
+  pendingRenders.set(key, render);
+  return render;
+}
+
+/**
+ * Delete every cached preview of a document (all versions)
+ */
+export async function deleteDocumentPreviews(document: Document): Promise<void> {
+  await FileStorageService.deleteFolder(getPreviewFolder(document));
+}
@@ -0,0 +1,202 @@
+/**
+ * Document Processing Queue
+ * Persistent background queue that runs OCR, embedding and insight generation for uploaded documents
+ */
+
+import * as cron from "node-cron";
+import { type DocumentProcessingJob } from "@shared/schema";
+import { storage } from "../storage";
+import { config } from "../config";
+import { DocumentRejectedError, processDocumentJob, ProcessingError } from "./documentProcessingService";
+
+/**
+ * Called after an auto-imported document was rejected and moved to the trash
+ */
+export type RejectionListener = (job: DocumentProcessingJob, reason: string) => Promise<void>;
+
+export class DocumentProcessingQueue {
+  private task: cron.ScheduledTask | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+  private rejectionListeners: RejectionListener[] = [];
+
+  /**
+   * Start the processing queue
+   * Requeues jobs left "running" by a previous crash, then polls every 10 seconds
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.warn("[Processing Queue] Already running");
+      return;
+    }
+
+    console.log("[Processing Queue] Starting...");
+
+    storage.requeueRunningProcessingJobs()
+      .then((count) => {
+        if (count > 0) {
+          console.log(`[Processing Queue] Requeued ${count} interrupted job(s)`);
+        }
+        return this.processDueJobs();
+      })
+      .catch((error) => {
+        console.error("[Processing Queue] Failed to recover interrupted jobs:", error);
+      });
+
+    // Run every 10 seconds: */10 * * * * *
+    this.task = cron.schedule("*/10 * * * * *", async () => {
+      await this.processDueJobs();
+    });
+
+    this.isRunning = true;
+    console.log("[Processing Queue] Started successfully");
+  }
+
+  /**
+   * Stop the processing queue
+   */
+  stop(): void {
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+      this.isRunning = false;
+      console.log("[Processing Queue] Stopped");
+    }
+  }
+
+  /**
+   * Queue a document for processing and kick the worker without waiting for the next poll
+   * @param documentId - Document to process
+   * @param userId - Owner of the document
+   * @param options.autoImport - The document was imported without review (ZIP entry, emailed
+   *   attachment): extract its metadata, and trash it if it is not medical
+   * @returns The created job
+   */
+  async enqueue(
+    documentId: string,
+    userId: string,
+    options: { autoImport?: boolean } = {}
+  ): Promise<DocumentProcessingJob> {
+    const job = await storage.createProcessingJob({
+      documentId,
+      userId,
+      status: "queued",
+      maxAttempts: config.processing.maxAttempts,
+      autoImport: options.autoImport ?? false,
+    });
+
+    console.log(`[Processing Queue] Queued job ${job.id} for document ${documentId}`);
+
+    setImmediate(() => {
+      this.processDueJobs().catch((error) => {
+        console.error("[Processing Queue] Error processing jobs:", error);
+      });
+    });
+
+    return job;
+  }
+
+  /**
+   * Register a listener for rejected auto-imports (e.g. to update the email inbox item)
+   */
+  onRejected(listener: RejectionListener): void {
+    this.rejectionListeners.push(listener);
+  }
+
+  /**
+   * Process all jobs that are due, one at a time
+   */
+  private async processDueJobs(): Promise<void> {
+    // Jobs run sequentially to stay within OpenAI rate limits
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      let dueJobs = await storage.getDueProcessingJobs(config.processing.batchSize);
+      while (dueJobs.length > 0) {
+        for (const job of dueJobs) {
+          await this.runJob(job);
+        }
+        dueJobs = await storage.getDueProcessingJobs(config.processing.batchSize);
+      }
+    } catch (error) {
+      console.error("[Processing Queue] Error fetching due jobs:", error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Run a single job, scheduling a retry with exponential backoff on failure
+   */
+  private async runJob(job: DocumentProcessingJob): Promise<void> {
+    const attempts = job.attempts + 1;
+    console.log(`[Processing Queue] Running job ${job.id} (attempt ${attempts}/${job.maxAttempts})`);
+
+    await storage.updateProcessingJob(job.id, {
+      status: "running",
+      attempts,
+      startedAt: new Date(),
+      lastError: null,
+    });
+
+    try {
+      await processDocumentJob(job, async (stage) => {
+        await storage.updateProcessingJob(job.id, { stage });
+      });
+
+      await storage.updateProcessingJob(job.id, {
+        status: "done",
+        completedAt: new Date(),
+      });
+      console.log(`[Processing Queue] Job ${job.id} completed`);
+    } catch (error: any) {
+      const message = error?.message || "Processing failed";
+
+      if (error instanceof DocumentRejectedError) {
+        await storage.updateProcessingJob(job.id, {
+          status: "rejected",
+          lastError: message,
+          completedAt: new Date(),
+        });
+        console.warn(`[Processing Queue] Job ${job.id} rejected its document: ${message}`);
+        await this.notifyRejected(job, message);
+        return;
+      }
+
+      const retryable = !(error instanceof ProcessingError) || error.retryable;
+
+      if (retryable && attempts < job.maxAttempts) {
+        const delayMs = config.processing.backoffBaseMs * Math.pow(2, attempts - 1);
+        await storage.updateProcessingJob(job.id, {
+          status: "queued",
+          lastError: message,
+          runAt: new Date(Date.now() + delayMs),
+        });
+        console.warn(`[Processing Queue] Job ${job.id} failed, retrying in ${Math.round(delayMs / 1000)}s: ${message}`);
+      } else {
+        await storage.updateProcessingJob(job.id, {
+          status: "failed",
+          lastError: message,
+          completedAt: new Date(),
+        });
+        console.error(`[Processing Queue] Job ${job.id} failed permanently: ${message}`);
+      }
+    }
+  }
+
+  private async notifyRejected(job: DocumentProcessingJob, reason: string): Promise<void> {
+    for (const listener of this.rejectionListeners) {
+      try {
+        await listener(job, reason);
+      } catch (error: any) {
+        console.error(`[Processing Queue] Rejection listener failed for job ${job.id}:`, error.message);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const documentProcessingQueue = new DocumentProcessingQueue();
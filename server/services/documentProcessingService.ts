@@ -0,0 +1,373 @@
+/**
+ * Document Processing Service
+ * OCR, medical validation, metadata extraction, embedding, medication and lab result extraction,
+ * insight generation and follow-up task extraction for stored documents
+ */
+
+import * as path from "path";
+import { type Document, type DocumentProcessingJob } from "@shared/schema";
+import { storage } from "../storage";
+import { AIService, type ExtractedMetadata } from "./aiService";
+import { FileStorageService } from "./fileStorage";
+import { decryptFile } from "./encryptionService";
+import { generateDefaultTiming, generateReminders } from "./medicationService";
+import { computeContentHash } from "./duplicateDetectionService";
+import { extractObservationsFromDocument } from "./labObservationService";
+import { extractExpenseFromDocument } from "./expenseService";
+import { countPages } from "./documentPreviewService";
+import { createTasksFromDocument } from "./healthTaskService";
+import { moveToTrash } from "./documentTrashService";
+
+export type ProcessingStage =
+  | "ocr"
+  | "validation"
+  | "metadata"
+  | "embedding"
+  | "medications"
+  | "observations"
+  | "expenses"
+  | "insight"
+  | "tasks";
+
+/**
+ * Error raised by a processing stage
+ * Non-retryable errors (e.g. a non-medical document) fail the job immediately
+ */
+export class ProcessingError extends Error {
+  constructor(
+    public message: string,
+    public retryable = true
+  ) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+/**
+ * Raised when an auto-imported document turns out not to be medical
+ * The document has already been moved to the trash when this is thrown.
+ */
+export class DocumentRejectedError extends ProcessingError {
+  constructor(message: string) {
+    super(message, false);
+  }
+}
+
+const DOCUMENT_TYPES = ["prescription", "lab", "imaging", "billing"];
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".dcm": "application/dicom",
+};
+
+/**
+ * Resolve the MIME type of a stored document from its file path, falling back to its file type
+ */
+export function getDocumentMimeType(document: Document): string {
+  const byExtension = MIME_TYPES_BY_EXTENSION[path.extname(document.fileUrl).toLowerCase()];
+  if (byExtension) return byExtension;
+
+  switch (document.fileType) {
+    case "PDF":
+      return "application/pdf";
+    case "JPG":
+      return "image/jpeg";
+    case "PNG":
+    case "IMAGE":
+      return "image/png";
+    case "DOCX":
+      return MIME_TYPES_BY_EXTENSION[".docx"];
+    case "DICOM":
+      return MIME_TYPES_BY_EXTENSION[".dcm"];
+    default:
+      return "application/octet-stream";
+  }
+}
+
+/**
+ * Read and decrypt the stored file of a document
+ * Used by the processing pipeline and the file-serving routes - nothing else should
+ * need a document's plaintext
+ */
+export async function readDocumentFile(document: Document): Promise<Buffer> {
+  return decryptFile(document.userId, await FileStorageService.readFile(document.fileUrl));
+}
+
+/**
+ * Run the full processing pipeline for a job's document
+ * Stages: ocr -> validation -> metadata -> embedding -> medications -> observations -> expenses -> insight -> tasks.
+ * The metadata stage only runs for auto-imported documents (ZIP entries, emailed attachments), which
+ * nobody has titled yet; those are also moved to the trash if they are not medical.
+ * The OCR result is saved before the optional stages, so medication, observation,
+ * expense, insight and task failures never cause the document to be re-OCR'd.
+ * @param job - Job being processed
+ * @param onStage - Called when a stage starts (used to persist progress)
+ */
+export async function processDocumentJob(
+  job: DocumentProcessingJob,
+  onStage: (stage: ProcessingStage) => Promise<void>
+): Promise<void> {
+  const document = await storage.getDocument(job.documentId);
+  if (!document) {
+    throw new ProcessingError("Document no longer exists", false);
+  }
+  if (document.deletedAt) {
+    throw new ProcessingError("Document is in the trash", false);
+  }
+
+  if (!AIService.isConfigured() && document.fileType !== "DOCX") {
+    throw new ProcessingError("AI processing is not configured. Please set OPENAI_API_KEY, or AI_PROVIDER=local to use a local model.", false);
+  }
+
+  const mimeType = getDocumentMimeType(document);
+  const fileBuffer = await readDocumentFile(document);
+
+  // Stage 1: OCR
+  await onStage("ocr");
+  const extractedText = await AIService.extractText(fileBuffer, document.fileType || "", mimeType);
+  if (!extractedText || extractedText.trim().length === 0) {
+    throw new ProcessingError("No text could be extracted from the document");
+  }
+  console.log(`[Processing] Extracted ${extractedText.length} characters from document ${document.id}`);
+
+  // Stage 2: Medical validation
+  await onStage("validation");
+  const validation = await AIService.validateMedicalDocument(extractedText, fileBuffer, mimeType);
+  if (!validation.isValid) {
+    const message = `This document does not appear to be a medical document. ${validation.reason}`;
+    if (job.autoImport) {
+      await moveToTrash(document);
+      throw new DocumentRejectedError(message);
+    }
+    throw new ProcessingError(message, false);
+  }
+
+  // Stage 3: Metadata for documents nobody reviewed (never throws)
+  let current = document;
+  if (job.autoImport && AIService.isConfigured()) {
+    await onStage("metadata");
+    current = await applyExtractedMetadata(document, extractedText);
+  }
+
+  // Stage 4: Embedding
+  await onStage("embedding");
+  const embedding = AIService.isConfigured()
+    ? await AIService.generateEmbedding(extractedText)
+    : JSON.stringify([]);
+
+  await storage.updateDocument(document.id, {
+    extractedText,
+    embedding,
+    // Documents uploaded before duplicate detection get their hash on first processing
+    contentHash: document.contentHash ?? computeContentHash(fileBuffer),
+    pageCount: await countPages(fileBuffer, mimeType),
+    ocrProcessed: true,
+    ocrProcessedAt: new Date(),
+  });
+
+  // Keep the current version's text in sync so versions can be diffed
+  const versions = await storage.getDocumentVersions(document.id);
+  const currentVersion = versions.find((v) => v.fileUrl === document.fileUrl);
+  if (currentVersion) {
+    await storage.updateDocumentVersion(currentVersion.id, { extractedText });
+  }
+
+  // Stage 5: Medications (never throws)
+  await onStage("medications");
+  await extractMedicationsFromDocument(document.userId, document.id, extractedText, current.type);
+
+  // Stage 6: Structured lab results (lab reports only, never throws)
+  if (current.type === "lab") {
+    await onStage("observations");
+    await extractObservationsFromDocument(current, extractedText);
+  }
+
+  // Stage 7: Expense record from the bill (bills only, never throws)
+  if (current.type === "billing") {
+    await onStage("expenses");
+    await extractExpenseFromDocument(current, extractedText);
+  }
+
+  // Stage 8: Pre-generate the insight in the user's language so the detail screen loads instantly
+  if (AIService.isConfigured()) {
+    await onStage("insight");
+    try {
+      const user = await storage.getUser(document.userId);
+      const userSettings = user?.settings ? JSON.parse(user.settings) : {};
+      const language = userSettings.language || "en";
+      const insight = await AIService.generateDocumentInsight(extractedText, current.type, language);
+      await storage.updateDocument(document.id, {
+        aiInsight: JSON.stringify({ ...insight, language }),
+        aiInsightGeneratedAt: new Date(),
+      });
+    } catch (insightError: any) {
+      // Insights are regenerated on demand by GET /api/documents/:id/insights
+      console.error(`[Processing] Insight generation failed for document ${document.id}:`, insightError.message);
+    }
+  }
+
+  // Stage 9: Follow-up tasks from the text and insight (never throws)
+  await onStage("tasks");
+  const processed = await storage.getDocument(document.id);
+  if (processed) {
+    await createTasksFromDocument(processed);
+  }
+}
+
+/**
+ * Replace an auto-imported document's placeholder title and type with the ones read from its text
+ * Provider and date set by the import (the archive's defaults, the email sender) are kept;
+ * extracted tags are added to the existing ones. Never throws - the document keeps its
+ * placeholders if extraction fails.
+ * @returns The updated document
+ */
+async function applyExtractedMetadata(document: Document, extractedText: string): Promise<Document> {
+  let metadata: ExtractedMetadata;
+  try {
+    metadata = await AIService.extractMetadata(extractedText);
+  } catch (error: any) {
+    console.error(`[Processing] Metadata extraction failed for document ${document.id}:`, error.message);
+    return document;
+  }
+
+  const existingTags: string[] = document.tags ? JSON.parse(document.tags) : [];
+  const tags = Array.from(new Set([...existingTags, ...(metadata.tags || [])]));
+  const date = metadata.date ? new Date(metadata.date) : null;
+
+  return storage.updateDocument(document.id, {
+    title: metadata.title || document.title,
+    type: metadata.documentType && DOCUMENT_TYPES.includes(metadata.documentType) ? metadata.documentType : document.type,
+    provider: document.provider || metadata.provider || null,
+    date: document.date || (date && !isNaN(date.getTime()) ? date : null),
+    tags: tags.length > 0 ? JSON.stringify(tags) : null,
+  });
+}
+
+/**
+ * Medication name for matching, ignoring case and spacing
+ */
+function normalizeMedicationName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Extract medications from a document's text and create them with reminders
+ * Runs for all document types, but prioritizes prescriptions. Never throws -
+ * medication extraction failures must not fail document processing.
+ */
+export async function extractMedicationsFromDocument(
+  userId: string,
+  documentId: string,
+  extractedText: string,
+  type: string
+): Promise<void> {
+  if (extractedText && extractedText.trim().length > 0) {
+    try {
+      // Always attempt medication extraction, but use appropriate document type
+      const documentTypeForExtraction = type === 'prescription' ? 'prescription' : type;
+      
+      console.log(`[Processing] Attempting medication extraction from ${documentTypeForExtraction} document`);
+      const extractedMedications = await AIService.extractMedications(extractedText, documentTypeForExtraction);
+      
+      if (extractedMedications && extractedMedications.length > 0) {
+        console.log(`[Processing] Extracted ${extractedMedications.length} medication(s) from ${documentTypeForExtraction} document`);
+
+        // A retried job extracts the same medications again - ones already created from this
+        // document are kept as they are (the user may have edited them) and not duplicated
+        const existing = (await storage.getMedications(userId)).filter((m) => m.sourceDocumentId === documentId);
+        const seen = new Set(existing.map((m) => normalizeMedicationName(m.name)));
+        
+        for (const med of extractedMedications) {
+          const key = normalizeMedicationName(med.name || "");
+          if (seen.has(key)) {
+            console.log(`[Processing] Skipping ${med.name} - already created from document ${documentId}`);
+            continue;
+          }
+          seen.add(key);
+
+          try {
+            // Generate timing if not provided
+            let timingArray = med.timing && Array.isArray(med.timing) && med.timing.length > 0
+              ? med.timing.filter((t: any) => t && typeof t === 'string' && t.includes(':'))
+              : generateDefaultTiming(med.frequency);
+            
+            // Ensure timingArray is valid and filter out any invalid times
+            timingArray = timingArray.filter((time: string) => {
+              if (!time || typeof time !== 'string') return false;
+              const parts = time.split(':');
+              return parts.length === 2 && !isNaN(Number(parts[0])) && !isNaN(Number(parts[1]));
+            });
+            
+            // If after filtering we have no valid times, use default
+            if (timingArray.length === 0) {
+              timingArray = generateDefaultTiming(med.frequency);
+            }
+            
+            // Parse end date if duration is provided
+            let endDate: Date | null = null;
+            if (med.duration) {
+              // Try to parse duration (e.g., "7 days", "until 2024-12-31")
+              const durationLower = med.duration.toLowerCase();
+              if (durationLower.includes('day')) {
+                const daysMatch = med.duration.match(/(\d+)\s*days?/i);
+                if (daysMatch) {
+                  const days = parseInt(daysMatch[1]);
+                  endDate = new Date();
+                  endDate.setDate(endDate.getDate() + days);
+                }
+              } else if (durationLower.includes('until') || durationLower.includes('till')) {
+                const dateMatch = med.duration.match(/(\d{4}-\d{2}-\d{2})/);
+                if (dateMatch) {
+                  endDate = new Date(dateMatch[1]);
+                }
+              }
+            }
+            
+            // Create medication
+            const medication = await storage.createMedication({
+              userId: userId,
+              name: med.name,
+              dosage: med.dosage,
+              frequency: med.frequency,
+              timing: JSON.stringify(timingArray),
+              startDate: new Date(),
+              endDate: endDate,
+              source: 'ai',
+              sourceDocumentId: documentId,
+              status: 'active',
+              instructions: med.instructions || null,
+            });
+            
+            // Generate reminders
+            const reminders = generateReminders(medication);
+            for (const reminder of reminders) {
+              await storage.createMedicationReminder({
+                medicationId: medication.id,
+                scheduledTime: reminder.scheduledTime,
+                status: 'pending',
+                sentAt: null,
+              });
+            }
+            
+            console.log(`[Processing] Created medication ${medication.name} with ${reminders.length} reminders`);
+          } catch (medError: any) {
+            console.error(`[Processing] Failed to create medication ${med.name}:`, medError.message);
+            // Continue with other medications
+          }
+        }
+      } else {
+        console.log(`[Processing] No medications found in ${documentTypeForExtraction} document`);
+      }
+    } catch (medExtractionError: any) {
+      console.error("[Processing] Medication extraction failed:", medExtractionError.message);
+      // Don't fail document creation if medication extraction fails
+    }
+  } else {
+    console.log("[Processing] No extracted text available for medication extraction");
+  }
+}
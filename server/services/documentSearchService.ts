@@ -0,0 +1,308 @@
+/**
+ * Document Search Service
+ * Ranks a user's vault documents by blending embedding similarity with keyword matches
+ */
+
+import { type Document } from "@shared/schema";
+import { storage } from "../storage";
+import { AIService } from "./aiService";
+import { getAnnotationTextByDocument } from "./documentAnnotationService";
+
+export interface SearchSnippet {
+  field: "title" | "provider" | "tags" | "extractedText" | "notes";
+  text: string;
+}
+
+export interface DocumentSearchResult {
+  document: Document;
+  score: number;
+  semanticScore: number;
+  keywordScore: number;
+  matchedTerms: string[];
+  snippets: SearchSnippet[];
+}
+
+export interface DocumentSearchOptions {
+  type?: string;
+  limit?: number;
+}
+
+// Blend weights - semantic similarity carries most of the ranking when embeddings exist
+const SEMANTIC_WEIGHT = 0.6;
+const KEYWORD_WEIGHT = 0.4;
+const DATE_BOOST = 0.15;
+
+// Minimum blended score for a document to be returned
+const MIN_SCORE = 0.2;
+
+// Per-field keyword weights (a title hit is worth more than a hit buried in OCR text)
+const FIELD_WEIGHTS: Record<SearchSnippet["field"], number> = {
+  title: 1.0,
+  provider: 0.8,
+  tags: 0.8,
+  extractedText: 0.5,
+  notes: 0.8, // The user's own annotations
+};
+
+const SNIPPET_RADIUS = 60;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "the", "of", "for", "in", "on", "my", "me", "to", "with",
+  "from", "at", "by", "is", "are", "was", "show", "find", "all", "report", "reports",
+  "results", "result",
+]);
+
+/**
+ * Compute cosine similarity between two embedding vectors
+ * @returns Similarity in [0, 1] (negative similarities are clamped to 0)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return Math.max(0, dot / (Math.sqrt(normA) * Math.sqrt(normB)));
+}
+
+/**
+ * Parse a stored embedding (JSON array string) into a vector
+ */
+export function parseEmbedding(embedding: string | null | undefined): number[] {
+  if (!embedding) return [];
+  try {
+    const parsed = JSON.parse(embedding);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Extract a relative or absolute date range from the query
+ * Supports "last year", "this year", "last month", "this month", "last N months" and four-digit years
+ * @returns The matched date range and the query with the temporal phrase removed
+ */
+export function parseTemporalHint(
+  query: string,
+  now: Date = new Date()
+): { range: { from: Date; to: Date } | null; remainder: string } {
+  const lower = query.toLowerCase();
+  const year = now.getFullYear();
+
+  const patterns: Array<{ regex: RegExp; range: (match: RegExpMatchArray) => { from: Date; to: Date } }> = [
+    {
+      regex: /\blast year\b/,
+      range: () => ({ from: new Date(year - 1, 0, 1), to: new Date(year, 0, 1) }),
+    },
+    {
+      regex: /\bthis year\b/,
+      range: () => ({ from: new Date(year, 0, 1), to: new Date(year + 1, 0, 1) }),
+    },
+    {
+      regex: /\blast month\b/,
+      range: () => ({
+        from: new Date(year, now.getMonth() - 1, 1),
+        to: new Date(year, now.getMonth(), 1),
+      }),
+    },
+    {
+      regex: /\bthis month\b/,
+      range: () => ({
+        from: new Date(year, now.getMonth(), 1),
+        to: new Date(year, now.getMonth() + 1, 1),
+      }),
+    },
+    {
+      regex: /\b(?:last|past) (\d{1,2}) months?\b/,
+      range: (match) => ({
+        from: new Date(year, now.getMonth() - parseInt(match[1], 10), now.getDate()),
+        to: now,
+      }),
+    },
+    {
+      regex: /\b(?:in )?((?:19|20)\d{2})\b/,
+      range: (match) => {
+        const y = parseInt(match[1], 10);
+        return { from: new Date(y, 0, 1), to: new Date(y + 1, 0, 1) };
+      },
+    },
+  ];
+
+  for (const { regex, range } of patterns) {
+    const match = lower.match(regex);
+    if (match) {
+      return {
+        range: range(match),
+        remainder: lower.replace(match[0], " ").replace(/\s+/g, " ").trim(),
+      };
+    }
+  }
+
+  return { range: null, remainder: lower.trim() };
+}
+
+/**
+ * Split a query into normalized keyword terms
+ */
+export function tokenizeQuery(query: string): string[] {
+  return Array.from(
+    new Set(
+      query
+        .toLowerCase()
+        .split(/[^a-z0-9ऀ-ॿ]+/)
+        .filter((term) => term.length > 1 && !STOP_WORDS.has(term))
+    )
+  );
+}
+
+/**
+ * Build a short excerpt around the first occurrence of a term
+ */
+function buildSnippet(text: string, term: string): string | null {
+  const index = text.toLowerCase().indexOf(term);
+  if (index === -1) return null;
+
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + term.length + SNIPPET_RADIUS);
+  const excerpt = text.slice(start, end).replace(/\s+/g, " ").trim();
+
+  return `${start > 0 ? "…" : ""}${excerpt}${end < text.length ? "…" : ""}`;
+}
+
+function getSearchableFields(doc: Document, notes: string): Record<SearchSnippet["field"], string> {
+  let tags = "";
+  if (doc.tags) {
+    try {
+      const parsed = JSON.parse(doc.tags);
+      tags = Array.isArray(parsed) ? parsed.join(", ") : String(parsed);
+    } catch {
+      tags = doc.tags;
+    }
+  }
+
+  return {
+    title: doc.title || "",
+    provider: doc.provider || "",
+    tags,
+    extractedText: doc.extractedText || "",
+    notes,
+  };
+}
+
+/**
+ * Score a document against keyword terms
+ * @param notes - The user's annotation notes on the document, searched like its text
+ * @returns Normalized keyword score in [0, 1], the matched terms and one snippet per matching field
+ */
+export function scoreKeywords(
+  doc: Document,
+  terms: string[],
+  notes: string = ""
+): { score: number; matchedTerms: string[]; snippets: SearchSnippet[] } {
+  if (terms.length === 0) {
+    return { score: 0, matchedTerms: [], snippets: [] };
+  }
+
+  const fields = getSearchableFields(doc, notes);
+  const matchedTerms = new Set<string>();
+  const snippets: SearchSnippet[] = [];
+  let total = 0;
+
+  for (const term of terms) {
+    let best = 0;
+    for (const field of Object.keys(fields) as SearchSnippet["field"][]) {
+      const value = fields[field];
+      if (!value || !value.toLowerCase().includes(term)) continue;
+
+      matchedTerms.add(term);
+      best = Math.max(best, FIELD_WEIGHTS[field]);
+
+      if (!snippets.some((s) => s.field === field)) {
+        const snippet = field === "extractedText" || field === "notes" ? buildSnippet(value, term) : value;
+        if (snippet) snippets.push({ field, text: snippet });
+      }
+    }
+    total += best;
+  }
+
+  return {
+    score: total / terms.length,
+    matchedTerms: Array.from(matchedTerms),
+    snippets,
+  };
+}
+
+/**
+ * Search a user's documents by meaning and keywords
+ * Falls back to keyword-only ranking when the query embedding cannot be generated
+ * @param userId - Owner of the documents
+ * @param query - Free-text query (e.g., "thyroid results last year")
+ * @param options - Optional type filter and result limit
+ */
+export async function searchDocuments(
+  userId: string,
+  query: string,
+  options: DocumentSearchOptions = {}
+): Promise<DocumentSearchResult[]> {
+  const limit = options.limit ?? 20;
+  const documents = await storage.getDocumentsByUserId(userId, { type: options.type });
+
+  if (documents.length === 0 || !query.trim()) {
+    return [];
+  }
+
+  const notesByDocument = await getAnnotationTextByDocument(userId);
+  const { range, remainder } = parseTemporalHint(query);
+  const terms = tokenizeQuery(remainder);
+  const semanticQuery = remainder || query;
+
+  let queryEmbedding: number[] = [];
+  try {
+    queryEmbedding = parseEmbedding(await AIService.generateEmbedding(semanticQuery));
+  } catch (error: any) {
+    console.warn("[DocumentSearch] Query embedding unavailable, using keyword ranking only:", error.message);
+  }
+
+  const results: DocumentSearchResult[] = [];
+
+  for (const doc of documents) {
+    const docEmbedding = parseEmbedding(doc.embedding);
+    const semanticScore = queryEmbedding.length > 0 ? cosineSimilarity(queryEmbedding, docEmbedding) : 0;
+    const keywords = scoreKeywords(doc, terms, notesByDocument.get(doc.id));
+
+    // Without a usable embedding on either side, rank purely on keywords
+    let score = queryEmbedding.length > 0 && docEmbedding.length > 0
+      ? SEMANTIC_WEIGHT * semanticScore + KEYWORD_WEIGHT * keywords.score
+      : keywords.score;
+
+    if (range) {
+      // A date hint narrows results: documents outside the range are dropped
+      const docDate = new Date(doc.date || doc.createdAt);
+      if (docDate < range.from || docDate >= range.to) continue;
+      score += DATE_BOOST;
+    }
+
+    if (score < MIN_SCORE && keywords.matchedTerms.length === 0) continue;
+
+    results.push({
+      document: doc,
+      score: Math.min(1, score),
+      semanticScore,
+      keywordScore: keywords.score,
+      matchedTerms: keywords.matchedTerms,
+      snippets: keywords.snippets,
+    });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
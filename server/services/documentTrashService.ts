@@ -0,0 +1,100 @@
+/**
+ * Document Trash Service
+ * Soft delete, restore and permanent purge of vault documents
+ */
+
+import { type Document } from "@shared/schema";
+import { config } from "../config";
+import { storage } from "../storage";
+import { FileStorageService } from "./fileStorage";
+import { deleteDocumentPreviews } from "./documentPreviewService";
+import { deleteRedactionFiles } from "./redactionService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When a trashed document will be purged automatically
+ */
+export function getPurgeDate(document: Document): Date | null {
+  if (!document.deletedAt) return null;
+  return new Date(document.deletedAt.getTime() + config.trash.retentionDays * DAY_MS);
+}
+
+/**
+ * Move a document to the trash
+ * It disappears from listings, search, shares, the chatbot and health summaries right away;
+ * files are kept until the document is purged.
+ */
+export async function moveToTrash(document: Document): Promise<Document> {
+  const trashed = await storage.updateDocument(document.id, { deletedAt: new Date() });
+  console.log(`[Trash] Moved document ${document.id} to trash`);
+  return trashed;
+}
+
+/**
+ * Restore a trashed document
+ */
+export async function restoreFromTrash(document: Document): Promise<Document> {
+  const restored = await storage.updateDocument(document.id, { deletedAt: null });
+  console.log(`[Trash] Restored document ${document.id}`);
+  return restored;
+}
+
+/**
+ * Permanently delete a document with its versions and all of their files
+ */
+export async function purgeDocument(document: Document): Promise<void> {
+  // File URL format: "documents/userId/filename.ext"
+  const versions = await storage.getDocumentVersions(document.id);
+  const studyImages = await storage.getDicomInstances(document.id);
+  const fileUrls = new Set([
+    document.fileUrl,
+    ...versions.map((v) => v.fileUrl),
+    ...studyImages.map((instance) => instance.fileUrl),
+  ]);
+  for (const fileUrl of Array.from(fileUrls)) {
+    if (!fileUrl) continue;
+    try {
+      await FileStorageService.deleteFile(fileUrl);
+      console.log(`[Trash] Deleted file from storage: ${fileUrl}`);
+    } catch (error: any) {
+      console.error("[Trash] Error deleting file from storage:", error);
+      // Continue with document deletion even if file deletion fails
+    }
+  }
+
+  try {
+    await deleteDocumentPreviews(document);
+  } catch (error: any) {
+    console.error("[Trash] Error deleting page previews:", error);
+  }
+
+  try {
+    await deleteRedactionFiles(document);
+  } catch (error: any) {
+    console.error("[Trash] Error deleting redacted copies:", error);
+  }
+
+  await storage.deleteDocument(document.id);
+  console.log(`[Trash] Purged document ${document.id}`);
+}
+
+/**
+ * Purge every document that has been in the trash longer than the retention period
+ * @returns Number of documents purged
+ */
+export async function purgeExpiredDocuments(): Promise<number> {
+  const cutoff = new Date(Date.now() - config.trash.retentionDays * DAY_MS);
+  const expired = await storage.getDocumentsTrashedBefore(cutoff);
+
+  let purged = 0;
+  for (const document of expired) {
+    try {
+      await purgeDocument(document);
+      purged++;
+    } catch (error: any) {
+      console.error(`[Trash] Failed to purge document ${document.id}:`, error.message);
+    }
+  }
+  return purged;
+}
@@ -0,0 +1,251 @@
+/**
+ * Document Version Service
+ * Uploading, restoring and comparing versions of a vault document
+ */
+
+import { type Document, type DocumentProcessingJob, type DocumentVersion } from "@shared/schema";
+import { storage } from "../storage";
+import { AIService } from "./aiService";
+import { FileStorageService } from "./fileStorage";
+import { documentProcessingQueue } from "./documentProcessingQueue";
+import { computeContentHash } from "./duplicateDetectionService";
+import { extractObservationsFromDocument } from "./labObservationService";
+
+export interface VersionFile {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface DiffLine {
+  type: "added" | "removed" | "unchanged";
+  text: string;
+}
+
+export interface VersionDiff {
+  lines: DiffLine[];
+  added: number;
+  removed: number;
+  truncated: boolean;
+}
+
+// Line-based LCS is O(n*m); larger texts are compared on their first lines only
+const MAX_DIFF_LINES = 2000;
+
+/**
+ * Map an upload MIME type to the file type label stored on documents
+ */
+export function getFileTypeLabel(mimeType: string): string {
+  if (mimeType.includes("pdf")) return "PDF";
+  if (mimeType.includes("dicom")) return "DICOM";
+  if (mimeType.includes("image")) return "IMAGE";
+  if (mimeType.includes("word")) return "DOCX";
+  if (mimeType.includes("zip")) return "ZIP";
+  return "OTHER";
+}
+
+/**
+ * Compute the label for the next version ('v1.0' -> 'v2.0')
+ */
+export function getNextVersionLabel(versions: DocumentVersion[]): string {
+  const highest = versions.reduce((max, v) => {
+    const match = v.version.match(/^v(\d+)/);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+  return `v${highest + 1}.0`;
+}
+
+/**
+ * Check whether a document has a queued or running processing job
+ * New versions and restores wait for it - the job would overwrite their text
+ */
+export async function hasActiveProcessing(documentId: string): Promise<boolean> {
+  const latestJob = await storage.getLatestProcessingJob(documentId);
+  return !!latestJob && (latestJob.status === "queued" || latestJob.status === "running");
+}
+
+/**
+ * Get a document's versions, newest first
+ * Documents uploaded before versioning have no rows yet, so the current file is
+ * recorded as 'v1.0' the first time history is needed.
+ */
+export async function getVersionHistory(document: Document): Promise<DocumentVersion[]> {
+  const versions = await storage.getDocumentVersions(document.id);
+  if (versions.length > 0) return versions;
+
+  const initial = await storage.createDocumentVersion({
+    documentId: document.id,
+    version: "v1.0",
+    fileUrl: document.fileUrl,
+    fileType: document.fileType,
+    fileSize: document.fileSize,
+    contentHash: document.contentHash,
+    extractedText: document.extractedText,
+    note: "Initial upload",
+  });
+  return [initial];
+}
+
+/**
+ * Upload a new file as the current version of a document
+ * The previous file is kept in storage for download and restore; OCR, embedding
+ * and insights for the new file run on the processing queue.
+ */
+export async function uploadDocumentVersion(
+  document: Document,
+  file: VersionFile,
+  note?: string | null
+): Promise<{ document: Document; version: DocumentVersion; processingJob: DocumentProcessingJob }> {
+  const versions = await getVersionHistory(document);
+
+  const fileUrl = await FileStorageService.uploadFile(
+    file.buffer,
+    document.userId,
+    file.fileName,
+    file.mimeType
+  );
+  const fileType = getFileTypeLabel(file.mimeType);
+  const contentHash = computeContentHash(file.buffer);
+
+  const version = await storage.createDocumentVersion({
+    documentId: document.id,
+    version: getNextVersionLabel(versions),
+    fileUrl,
+    fileType,
+    fileSize: file.size,
+    contentHash,
+    extractedText: null,
+    note: note || null,
+  });
+
+  const updated = await storage.updateDocument(document.id, {
+    fileUrl,
+    fileType,
+    fileSize: file.size,
+    pageCount: null, // Counted again when the new file is processed
+    contentHash,
+    extractedText: null,
+    embedding: null,
+    ocrProcessed: false,
+    ocrProcessedAt: null,
+    aiInsight: null,
+    aiInsightGeneratedAt: null,
+  });
+
+  const processingJob = await documentProcessingQueue.enqueue(document.id, document.userId);
+
+  console.log(`[Versions] Uploaded ${version.version} of document ${document.id}`);
+
+  return { document: updated, version, processingJob };
+}
+
+/**
+ * Make an older version current again
+ * History stays append-only: the restore is recorded as a new version pointing at the
+ * old file. The stored text is reused, so only the embedding and lab results are regenerated.
+ */
+export async function restoreDocumentVersion(
+  document: Document,
+  target: DocumentVersion
+): Promise<{ document: Document; version: DocumentVersion; processingJob: DocumentProcessingJob | null }> {
+  const versions = await getVersionHistory(document);
+
+  const version = await storage.createDocumentVersion({
+    documentId: document.id,
+    version: getNextVersionLabel(versions),
+    fileUrl: target.fileUrl,
+    fileType: target.fileType,
+    fileSize: target.fileSize,
+    contentHash: target.contentHash,
+    extractedText: target.extractedText,
+    note: `Restored from ${target.version}`,
+  });
+
+  const hasText = !!target.extractedText && target.extractedText.trim().length > 0;
+
+  let embedding: string | null = null;
+  if (hasText && AIService.isConfigured()) {
+    try {
+      embedding = await AIService.generateEmbedding(target.extractedText!);
+    } catch (error: any) {
+      console.error(`[Versions] Embedding regeneration failed for document ${document.id}:`, error.message);
+    }
+  }
+
+  let updated = await storage.updateDocument(document.id, {
+    fileUrl: target.fileUrl,
+    fileType: target.fileType,
+    fileSize: target.fileSize,
+    pageCount: null, // Counted again on the next preview or processing run
+    contentHash: target.contentHash,
+    extractedText: hasText ? target.extractedText : null,
+    embedding,
+    ocrProcessed: hasText,
+    ocrProcessedAt: hasText ? new Date() : null,
+    aiInsight: null, // Regenerated on demand by GET /api/documents/:id/insights
+    aiInsightGeneratedAt: null,
+  });
+
+  // Lab results follow the restored file; versions that were never OCR'd go through the full pipeline
+  let processingJob: DocumentProcessingJob | null = null;
+  if (hasText) {
+    await extractObservationsFromDocument(updated, target.extractedText!);
+  } else {
+    processingJob = await documentProcessingQueue.enqueue(document.id, document.userId);
+    updated = (await storage.getDocument(document.id)) ?? updated;
+  }
+
+  console.log(`[Versions] Restored ${target.version} of document ${document.id} as ${version.version}`);
+
+  return { document: updated, version, processingJob };
+}
+
+function splitLines(text: string | null): string[] {
+  if (!text) return [];
+  return text.replace(/\r\n/g, "\n").split("\n");
+}
+
+/**
+ * Line-based diff of two texts using the longest common subsequence
+ * @returns Lines in order, marked as added (only in newText), removed (only in oldText) or unchanged
+ */
+export function diffText(oldText: string | null, newText: string | null): VersionDiff {
+  let a = splitLines(oldText);
+  let b = splitLines(newText);
+  const truncated = a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES;
+  a = a.slice(0, MAX_DIFF_LINES);
+  b = b.slice(0, MAX_DIFF_LINES);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: Uint16Array[] = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "unchanged", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+
+  return {
+    lines,
+    added: lines.filter((line) => line.type === "added").length,
+    removed: lines.filter((line) => line.type === "removed").length,
+    truncated,
+  };
+}
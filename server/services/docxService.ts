@@ -0,0 +1,193 @@
+/**
+ * DOCX Service
+ * Native text extraction from Word (.docx) files - paragraphs, tables and embedded images
+ */
+
+import JSZip from "jszip";
+import * as path from "path";
+
+export interface DocxImage {
+  fileName: string;
+  buffer: Buffer;
+  mimeType: string;
+}
+
+export interface DocxContent {
+  text: string;
+  images: DocxImage[];
+}
+
+// Embedded image formats the vision model can read (EMF/WMF vector images are skipped)
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-z]+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith("#")) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+interface TableState {
+  rows: string[][];
+  row: string[] | null;
+  cell: string[] | null; // Paragraphs of the current cell
+}
+
+/**
+ * Convert WordprocessingML (word/document.xml) into plain text
+ * Paragraphs become lines; table rows become " | "-separated lines so that
+ * lab result tables keep their test/value/unit columns together
+ */
+export function wordXmlToText(xml: string): string {
+  const output: string[] = [];
+  const tables: TableState[] = [];
+  let paragraph = "";
+  let inText = false;
+
+  const emitParagraph = () => {
+    const line = paragraph.trim();
+    paragraph = "";
+    const table = tables[tables.length - 1];
+    if (table?.cell) {
+      if (line) table.cell.push(line);
+    } else {
+      output.push(line);
+    }
+  };
+
+  const tokenRegex = /<(\/?)([a-zA-Z0-9:]+)[^>]*?(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenRegex.exec(xml)) !== null) {
+    const [, closing, tag, selfClosing, textContent] = match;
+
+    if (textContent !== undefined) {
+      if (inText) paragraph += decodeXmlEntities(textContent);
+      continue;
+    }
+
+    const isOpen = !closing;
+    const isSelfClosing = !!selfClosing;
+    const table = tables[tables.length - 1];
+
+    switch (tag) {
+      case "w:t":
+        inText = isOpen && !isSelfClosing;
+        break;
+      case "w:tab":
+        if (isOpen) paragraph += "\t";
+        break;
+      case "w:br":
+      case "w:cr":
+        if (isOpen) paragraph += "\n";
+        break;
+      case "w:p":
+        if (!isOpen || isSelfClosing) emitParagraph();
+        break;
+      case "w:tbl":
+        if (isOpen) {
+          tables.push({ rows: [], row: null, cell: null });
+        } else if (table) {
+          tables.pop();
+          const rendered = table.rows.map((row) => row.join(" | "));
+          const parent = tables[tables.length - 1];
+          if (parent?.cell) {
+            parent.cell.push(...rendered);
+          } else {
+            output.push(...rendered, "");
+          }
+        }
+        break;
+      case "w:tr":
+        if (!table) break;
+        if (isOpen) {
+          table.row = [];
+        } else if (table.row) {
+          if (table.row.some((cell) => cell.length > 0)) table.rows.push(table.row);
+          table.row = null;
+        }
+        break;
+      case "w:tc":
+        if (!table) break;
+        if (isOpen) {
+          table.cell = [];
+        } else if (table.cell) {
+          table.row?.push(table.cell.join(" ").trim());
+          table.cell = null;
+        }
+        break;
+    }
+  }
+
+  return output
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Extract text and embedded images from a DOCX file
+ * @param buffer - Raw .docx file contents
+ * @returns Document text (body, headers and footers) and raster images from word/media
+ */
+export async function extractDocxContent(buffer: Buffer): Promise<DocxContent> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (error: any) {
+    throw new Error(`Invalid DOCX file: ${error.message}`);
+  }
+
+  const documentXml = zip.file("word/document.xml");
+  if (!documentXml) {
+    throw new Error("Invalid DOCX file: word/document.xml not found");
+  }
+
+  const sections: string[] = [];
+
+  // Letterheads often carry the hospital/lab name, so include headers and footers
+  const headerFiles = zip.file(/^word\/header\d*\.xml$/);
+  for (const file of headerFiles) {
+    const text = wordXmlToText(await file.async("string"));
+    if (text) sections.push(text);
+  }
+
+  sections.push(wordXmlToText(await documentXml.async("string")));
+
+  const footerFiles = zip.file(/^word\/footer\d*\.xml$/);
+  for (const file of footerFiles) {
+    const text = wordXmlToText(await file.async("string"));
+    if (text) sections.push(text);
+  }
+
+  const images: DocxImage[] = [];
+  for (const file of zip.file(/^word\/media\//)) {
+    const mimeType = IMAGE_MIME_TYPES[path.extname(file.name).toLowerCase()];
+    if (!mimeType) continue;
+    images.push({
+      fileName: path.basename(file.name),
+      buffer: await file.async("nodebuffer"),
+      mimeType,
+    });
+  }
+
+  return {
+    text: sections.filter((section) => section.length > 0).join("\n\n"),
+    images,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Duplicate Detection Service
+ * Finds documents already in the vault that match an upload - exact copies by content hash,
+ * near-duplicates (e.g., the same report forwarded via WhatsApp and email) by embedding similarity
+ */
+
+import { createHash } from "crypto";
+import { type Document } from "@shared/schema";
+import { storage } from "../storage";
+import { AIService } from "./aiService";
+import { cosineSimilarity, parseEmbedding } from "./documentSearchService";
+
+export interface DuplicateMatch {
+  document: Document;
+  matchType: "exact" | "similar";
+  similarity: number; // 1 for exact matches
+}
+
+export interface SimilarDocumentCriteria {
+  embedding: number[];
+  date?: string | Date | null;
+  provider?: string | null;
+}
+
+// Re-scans and re-exports of the same report stay well above this; different reports
+// of the same test type from the same lab usually don't
+const SIMILARITY_THRESHOLD = 0.92;
+
+const MAX_MATCHES = 3;
+
+// Words that vary between how a provider is written on different copies of a report
+const PROVIDER_STOP_WORDS = new Set([
+  "hospital", "hospitals", "lab", "labs", "laboratory", "laboratories", "diagnostics",
+  "diagnostic", "clinic", "centre", "center", "pvt", "ltd", "the", "dr",
+]);
+
+/**
+ * Compute the SHA-256 hash (hex) of a file's contents
+ */
+export function computeContentHash(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+function normalizeProvider(provider: string): string {
+  return provider
+    .toLowerCase()
+    .split(/[^a-z0-9ऀ-ॿ]+/)
+    .filter((word) => word && !PROVIDER_STOP_WORDS.has(word))
+    .join(" ");
+}
+
+/**
+ * Check whether two provider names refer to the same hospital/lab
+ * ("Apollo Diagnostics" matches "APOLLO DIAGNOSTICS PVT LTD" and "Apollo")
+ */
+export function isSameProvider(a: string, b: string): boolean {
+  const normalizedA = normalizeProvider(a);
+  const normalizedB = normalizeProvider(b);
+  if (!normalizedA || !normalizedB) return false;
+  return normalizedA.includes(normalizedB) || normalizedB.includes(normalizedA);
+}
+
+/**
+ * Check whether two dates fall on the same calendar day
+ */
+export function isSameDay(a: string | Date, b: string | Date): boolean {
+  const dateA = new Date(a);
+  const dateB = new Date(b);
+  if (isNaN(dateA.getTime()) || isNaN(dateB.getTime())) return false;
+  return dateA.toISOString().slice(0, 10) === dateB.toISOString().slice(0, 10);
+}
+
+/**
+ * Find documents with exactly the same file contents
+ */
+export async function findExactDuplicates(userId: string, contentHash: string): Promise<DuplicateMatch[]> {
+  const documents = await storage.getDocumentsByContentHash(userId, contentHash);
+  return documents.map((document) => ({ document, matchType: "exact" as const, similarity: 1 }));
+}
+
+/**
+ * Find near-duplicates of a document
+ * A match needs high embedding similarity AND the same report date AND the same provider -
+ * similarity alone would flag every monthly report from the same lab
+ */
+export async function findSimilarDocuments(
+  userId: string,
+  criteria: SimilarDocumentCriteria,
+  excludeIds: string[] = []
+): Promise<DuplicateMatch[]> {
+  const { embedding, date, provider } = criteria;
+  if (embedding.length === 0 || !date || !provider) {
+    return [];
+  }
+
+  const documents = await storage.getDocumentsByUserId(userId);
+  const matches: DuplicateMatch[] = [];
+
+  for (const document of documents) {
+    if (excludeIds.includes(document.id)) continue;
+    if (!document.date || !document.provider) continue;
+    if (!isSameDay(document.date, date) || !isSameProvider(document.provider, provider)) continue;
+
+    const similarity = cosineSimilarity(embedding, parseEmbedding(document.embedding));
+    if (similarity >= SIMILARITY_THRESHOLD) {
+      matches.push({ document, matchType: "similar", similarity });
+    }
+  }
+
+  return matches.sort((a, b) => b.similarity - a.similarity).slice(0, MAX_MATCHES);
+}
+
+/**
+ * Find near-duplicates for freshly extracted text (e.g., during /analyze)
+ * Never throws - a failed check must not block the upload
+ */
+export async function findSimilarDocumentsForText(
+  userId: string,
+  extractedText: string,
+  metadata: { date?: string | null; provider?: string | null }
+): Promise<DuplicateMatch[]> {
+  if (!extractedText.trim() || !metadata.date || !metadata.provider || !AIService.isConfigured()) {
+    return [];
+  }
+
+  try {
+    const embedding = parseEmbedding(await AIService.generateEmbedding(extractedText));
+    return await findSimilarDocuments(userId, { embedding, ...metadata });
+  } catch (error: any) {
+    console.error("[Duplicates] Near-duplicate check failed:", error.message);
+    return [];
+  }
+}
+
+/**
+ * Format a match for API responses
+ */
+export function serializeDuplicateMatch(match: DuplicateMatch) {
+  return {
+    id: match.document.id,
+    title: match.document.title,
+    type: match.document.type,
+    provider: match.document.provider,
+    date: match.document.date,
+    fileType: match.document.fileType,
+    createdAt: match.document.createdAt,
+    matchType: match.matchType,
+    similarity: Math.round(match.similarity * 100) / 100,
+  };
+}
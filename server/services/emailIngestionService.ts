@@ -0,0 +1,437 @@
+/**
+ * Email Ingestion Service
+ * Imports documents mailed to a user's private inbound address (<token>@<inbound domain>)
+ *
+ * Every medical attachment becomes an inbox item. Attachments from trusted senders (and from the
+ * user's own email address) are imported right away; the rest wait in the review inbox until the
+ * user approves or discards them. Imported attachments are stored like an upload from the app and
+ * queued for background processing as auto imports: the pipeline runs OCR and medical validation,
+ * fills in the title, type, date and tags from the text, and moves non-medical attachments to the
+ * trash, which marks their item rejected. The sender is recorded as the document's provider.
+ *
+ * Note: the From header is not authenticated (no SPF/DKIM checks), so trusting a sender only
+ * decides whether its attachments skip review - the address token is what keeps strangers out.
+ */
+
+import { randomBytes } from "crypto";
+import * as path from "path";
+import { type ParsedMail } from "mailparser";
+import { type DocumentProcessingJob, type InboundEmailAddress, type InboundEmailItem } from "@shared/schema";
+import { config } from "../config";
+import { storage } from "../storage";
+import { FileStorageService } from "./fileStorage";
+import { decryptFile } from "./encryptionService";
+import { getFileTypeLabel } from "./documentVersionService";
+import { computeContentHash, findExactDuplicates } from "./duplicateDetectionService";
+import { documentProcessingQueue } from "./documentProcessingQueue";
+import { pushNotificationService } from "./pushNotificationService";
+
+export const INBOUND_ITEM_STATUSES = ["review", "queued", "imported", "skipped", "rejected", "failed"] as const;
+
+export type InboundItemStatus = (typeof INBOUND_ITEM_STATUSES)[number];
+
+export class EmailIngestionError extends Error {
+  constructor(public message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+// Attachment types that can become documents, by extension for mail clients that send application/octet-stream
+const ATTACHMENT_MIME_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+// Labs are the usual senders of emailed reports
+const DEFAULT_DOCUMENT_TYPE = "lab";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email);
+}
+
+function generateToken(): string {
+  return randomBytes(12).toString("hex");
+}
+
+/**
+ * Full address for a token, e.g. "3f9a...@inbox.localhost"
+ */
+export function formatInboundAddress(token: string): string {
+  return `${token}@${config.inboundEmail.domain}`;
+}
+
+/**
+ * Token of an address on the inbound domain, or null for any other address
+ */
+export function parseInboundAddress(address: string): string | null {
+  const [localPart, domain] = normalizeEmail(address).split("@");
+  if (!localPart || domain !== config.inboundEmail.domain) return null;
+  // Plus-addressing ("token+labs@...") lets users tag where they gave the address out
+  return localPart.split("+")[0] || null;
+}
+
+export function getTrustedSenders(address: InboundEmailAddress): string[] {
+  try {
+    const senders = JSON.parse(address.trustedSenders);
+    return Array.isArray(senders) ? senders : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get the user's inbound address, creating it on first use
+ */
+export async function getOrCreateInboundAddress(userId: string): Promise<InboundEmailAddress> {
+  const existing = await storage.getInboundEmailAddress(userId);
+  if (existing) return existing;
+
+  return storage.createInboundEmailAddress({
+    userId,
+    token: generateToken(),
+    trustedSenders: JSON.stringify([]),
+  });
+}
+
+/**
+ * Replace the user's address - mail to the old one is refused from now on
+ */
+export async function rotateInboundAddress(userId: string): Promise<InboundEmailAddress> {
+  const address = await getOrCreateInboundAddress(userId);
+  return storage.updateInboundEmailAddress(address.id, { token: generateToken() });
+}
+
+export async function addTrustedSender(userId: string, email: string): Promise<InboundEmailAddress> {
+  const sender = normalizeEmail(email);
+  if (!isValidEmail(sender)) {
+    throw new EmailIngestionError("Invalid email address");
+  }
+
+  const address = await getOrCreateInboundAddress(userId);
+  const senders = getTrustedSenders(address);
+  if (senders.includes(sender)) return address;
+
+  return storage.updateInboundEmailAddress(address.id, {
+    trustedSenders: JSON.stringify([...senders, sender]),
+  });
+}
+
+export async function removeTrustedSender(userId: string, email: string): Promise<InboundEmailAddress> {
+  const sender = normalizeEmail(email);
+  const address = await getOrCreateInboundAddress(userId);
+  return storage.updateInboundEmailAddress(address.id, {
+    trustedSenders: JSON.stringify(getTrustedSenders(address).filter((s) => s !== sender)),
+  });
+}
+
+async function isTrustedSender(address: InboundEmailAddress, sender: string): Promise<boolean> {
+  if (getTrustedSenders(address).includes(sender)) return true;
+  // Mail forwarded by the user themselves never needs review
+  const user = await storage.getUser(address.userId);
+  return !!user?.email && normalizeEmail(user.email) === sender;
+}
+
+/**
+ * MIME type of a supported attachment, or null if it can't become a document
+ */
+function getAttachmentMimeType(contentType: string, fileName: string): string | null {
+  const byExtension = ATTACHMENT_MIME_TYPES[path.extname(fileName).toLowerCase()];
+  const mimeType = contentType.toLowerCase() === "image/jpg" ? "image/jpeg" : contentType.toLowerCase();
+  if (Object.values(ATTACHMENT_MIME_TYPES).includes(mimeType)) return mimeType;
+  return byExtension ?? null;
+}
+
+export interface IngestResult {
+  received: number; // Attachments saved as inbox items
+  ignored: number; // Attachments that can't become documents (signatures, calendar invites, ...)
+}
+
+/**
+ * Save the attachments of a received message to the owner's inbox
+ * Trusted senders' attachments are queued for import; the rest wait for review.
+ * Redelivered messages (same Message-ID) are ignored.
+ * @param address - Inbound address the message was sent to
+ * @param mail - Parsed message
+ */
+export async function ingestMessage(address: InboundEmailAddress, mail: ParsedMail): Promise<IngestResult> {
+  const from = mail.from?.value[0];
+  const sender = normalizeEmail(from?.address || "");
+  if (!sender) {
+    throw new EmailIngestionError("Message has no sender address");
+  }
+
+  const messageId = mail.messageId || null;
+  if (messageId && (await storage.getInboundEmailItemsByMessageId(address.userId, messageId)).length > 0) {
+    console.log(`[Email Ingestion] Ignoring redelivered message ${messageId}`);
+    return { received: 0, ignored: 0 };
+  }
+
+  const trusted = await isTrustedSender(address, sender);
+  const items: InboundEmailItem[] = [];
+  let ignored = 0;
+
+  for (const attachment of mail.attachments) {
+    const fileName = path.basename(attachment.filename || `attachment-${items.length + ignored + 1}`);
+    const mimeType = getAttachmentMimeType(attachment.contentType, fileName);
+    // Inline images are logos and signatures embedded in the message body
+    if (!mimeType || attachment.related || attachment.content.length === 0) {
+      ignored++;
+      continue;
+    }
+
+    const item = await storage.createInboundEmailItem({
+      userId: address.userId,
+      sender,
+      senderName: from?.name || null,
+      subject: mail.subject || null,
+      messageId,
+      fileName,
+      mimeType,
+      fileSize: attachment.content.length,
+      fileUrl: await FileStorageService.uploadFile(attachment.content, address.userId, fileName, mimeType, "inbox"),
+      contentHash: computeContentHash(attachment.content),
+      status: trusted ? "queued" : "review",
+    });
+    items.push(item);
+  }
+
+  console.log(
+    `[Email Ingestion] Message from ${sender} for user ${address.userId}: ${items.length} attachment(s) ${trusted ? "queued" : "held for review"}, ${ignored} ignored`
+  );
+
+  if (trusted) {
+    items.forEach((item) => scheduleImport(item.id));
+  } else if (items.length > 0) {
+    await notifyReviewNeeded(address.userId, sender, items.length);
+  }
+
+  return { received: items.length, ignored };
+}
+
+// Imports run one at a time, so each duplicate check sees the documents imported before it
+let importChain: Promise<void> = Promise.resolve();
+
+function scheduleImport(itemId: string): void {
+  importChain = importChain.then(() =>
+    importInboundItem(itemId).catch((error) => {
+      console.error(`[Email Ingestion] Unexpected error importing item ${itemId}:`, error);
+    })
+  );
+}
+
+/**
+ * Approve an item held for review (or retry a failed one) and import it in the background
+ * @param trustSender - Also trust the sender, importing their other items waiting for review
+ */
+export async function approveInboundItem(item: InboundEmailItem, trustSender = false): Promise<InboundEmailItem> {
+  if (item.status !== "review" && item.status !== "failed") {
+    throw new EmailIngestionError("Only items waiting for review or failed imports can be imported");
+  }
+  if (!item.fileUrl) {
+    throw new EmailIngestionError("The attachment is no longer available");
+  }
+
+  const queued = await storage.updateInboundEmailItem(item.id, { status: "queued", reason: null });
+  scheduleImport(queued.id);
+
+  if (trustSender) {
+    await addTrustedSender(item.userId, item.sender);
+    const waiting = await storage.getInboundEmailItems(item.userId, { status: "review" });
+    for (const other of waiting.filter((i) => i.sender === item.sender)) {
+      await storage.updateInboundEmailItem(other.id, { status: "queued" });
+      scheduleImport(other.id);
+    }
+  }
+
+  return queued;
+}
+
+/**
+ * Remove an item and its stored attachment
+ */
+export async function deleteInboundItem(item: InboundEmailItem): Promise<void> {
+  if (item.status === "queued") {
+    throw new EmailIngestionError("The attachment is being imported. Try again once the import finishes.");
+  }
+  if (item.fileUrl) {
+    await FileStorageService.deleteFile(item.fileUrl).catch((error) => {
+      console.error(`[Email Ingestion] Failed to delete attachment of item ${item.id}:`, error.message);
+    });
+  }
+  await storage.deleteInboundEmailItem(item.id);
+}
+
+/**
+ * Import a queued item as a document
+ * Duplicates are skipped; everything else becomes a document queued for the same background
+ * pipeline as an upload, where OCR, medical validation, metadata extraction and transient
+ * model errors are handled (and retried) once. Errors mark the item failed and keep the
+ * attachment so the import can be retried.
+ */
+async function importInboundItem(itemId: string): Promise<void> {
+  const item = await storage.getInboundEmailItem(itemId);
+  if (!item || item.status !== "queued" || !item.fileUrl) return;
+
+  try {
+    const buffer = await decryptFile(item.userId, await FileStorageService.readFile(item.fileUrl));
+    const [duplicate] = await findExactDuplicates(item.userId, item.contentHash);
+    if (duplicate) {
+      await finishItem(item, "skipped", {
+        documentId: duplicate.document.id,
+        reason: `Already in your vault as "${duplicate.document.title}"`,
+      });
+      return;
+    }
+
+    const fileUrl = await FileStorageService.uploadFile(buffer, item.userId, item.fileName, item.mimeType);
+    const document = await storage.createDocument({
+      userId: item.userId,
+      title: path.basename(item.fileName, path.extname(item.fileName)),
+      type: DEFAULT_DOCUMENT_TYPE,
+      provider: item.senderName || item.sender,
+      date: null,
+      fileUrl,
+      fileType: getFileTypeLabel(item.mimeType),
+      fileSize: item.fileSize,
+      contentHash: item.contentHash,
+      tags: null,
+      syncStatus: "synced",
+      extractedText: null,
+      embedding: null,
+      ocrProcessed: false,
+      ocrProcessedAt: null,
+    });
+    await documentProcessingQueue.enqueue(document.id, item.userId, { autoImport: true });
+
+    await finishItem(item, "imported", { documentId: document.id });
+    console.log(`[Email Ingestion] Imported item ${item.id} as document ${document.id}`);
+  } catch (error: any) {
+    console.error(`[Email Ingestion] Failed to import item ${item.id}:`, error.message);
+    await storage.updateInboundEmailItem(item.id, {
+      status: "failed",
+      reason: error.message || "Import failed",
+      processedAt: new Date(),
+    });
+  }
+}
+
+/**
+ * Record the outcome of an import and drop the inbox copy of the attachment
+ */
+async function finishItem(
+  item: InboundEmailItem,
+  status: "imported" | "skipped",
+  data: { documentId?: string; reason?: string }
+): Promise<void> {
+  if (item.fileUrl) {
+    await FileStorageService.deleteFile(item.fileUrl).catch((error) => {
+      console.error(`[Email Ingestion] Failed to delete attachment of item ${item.id}:`, error.message);
+    });
+  }
+  await storage.updateInboundEmailItem(item.id, {
+    status,
+    documentId: data.documentId ?? null,
+    reason: data.reason ?? null,
+    fileUrl: null,
+    processedAt: new Date(),
+  });
+}
+
+/**
+ * Mark the item of an imported attachment rejected once processing finds it is not medical
+ * The document is already in the trash, where the user can still restore it.
+ */
+async function rejectImportedItem(job: DocumentProcessingJob, reason: string): Promise<void> {
+  const imported = await storage.getInboundEmailItems(job.userId, { status: "imported" });
+  const item = imported.find((i) => i.documentId === job.documentId);
+  if (!item) return;
+
+  await storage.updateInboundEmailItem(item.id, { status: "rejected", reason, processedAt: new Date() });
+  console.log(`[Email Ingestion] Item ${item.id} rejected: ${reason}`);
+}
+
+documentProcessingQueue.onRejected(rejectImportedItem);
+
+/**
+ * Re-schedule imports interrupted by a restart
+ * @returns Number of items re-scheduled
+ */
+export async function resumeQueuedImports(): Promise<number> {
+  const queued = await storage.getQueuedInboundEmailItems();
+  queued.forEach((item) => scheduleImport(item.id));
+  return queued.length;
+}
+
+/**
+ * Tell the user new attachments are waiting in the review inbox
+ */
+async function notifyReviewNeeded(userId: string, sender: string, count: number): Promise<void> {
+  try {
+    const subscriptions = await storage.getPushSubscriptions(userId);
+    await Promise.allSettled(
+      subscriptions.map(async (subscription) => {
+        try {
+          await pushNotificationService.sendNotification(subscription, {
+            title: "Documents waiting for review",
+            body: `${count} attachment(s) from ${sender} arrived in your vault inbox.`,
+            tag: "inbound-email-review",
+            data: {
+              type: "inbound_email",
+              url: "/vault/inbox",
+            },
+          });
+        } catch (error: any) {
+          if (error.message === "Subscription expired" || error.message === "Invalid subscription") {
+            await storage.deletePushSubscription(subscription.id);
+          } else {
+            console.error("[Email Ingestion] Error sending push notification:", error.message);
+          }
+        }
+      })
+    );
+  } catch (error: any) {
+    console.error("[Email Ingestion] Failed to notify user:", error.message);
+  }
+}
+
+/**
+ * Shape an item for API responses (storage details left out)
+ */
+export function serializeInboundItem(item: InboundEmailItem) {
+  return {
+    id: item.id,
+    sender: item.sender,
+    senderName: item.senderName,
+    subject: item.subject,
+    fileName: item.fileName,
+    mimeType: item.mimeType,
+    fileSize: item.fileSize,
+    status: item.status,
+    documentId: item.documentId,
+    reason: item.reason,
+    processedAt: item.processedAt,
+    createdAt: item.createdAt,
+  };
+}
+
+/**
+ * Shape an address for API responses
+ */
+export function serializeInboundAddress(address: InboundEmailAddress) {
+  return {
+    address: formatInboundAddress(address.token),
+    trustedSenders: getTrustedSenders(address),
+    enabled: config.inboundEmail.enabled,
+  };
+}
@@ -1,16 +1,83 @@
 /**
  * Email Service
- * Handles sending medication reminder emails using Resend API or SMTP
+ * Handles sending medication and health task reminder emails using Resend API or SMTP
  */
 
 import { Resend } from "resend";
 import nodemailer from "nodemailer";
 import type { Transporter } from "nodemailer";
-import { type Medication } from "@shared/schema";
+import { type Medication, type HealthTask } from "@shared/schema";
 import { config } from "../config";
 
 export interface IEmailService {
   sendMedicationReminder(email: string, medication: Medication): Promise<void>;
+  sendTaskReminder(email: string, task: HealthTask, documentTitle?: string | null): Promise<void>;
+}
+
+function formatTaskDueDate(task: HealthTask): string {
+  return task.dueDate
+    ? task.dueDate.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
+    : 'No due date';
+}
+
+function getTaskReminderSubject(task: HealthTask): string {
+  return `📋 Health task due ${formatTaskDueDate(task)}: ${task.title}`;
+}
+
+function getTaskReminderHTML(task: HealthTask, documentTitle?: string | null): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Health Task Reminder</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">📋 Health Task Reminder</h1>
+  </div>
+  
+  <div style="background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e0e0e0;">
+    <p style="font-size: 16px; margin-bottom: 20px;">Hello,</p>
+    
+    <p style="font-size: 16px; margin-bottom: 20px;">
+      You have a follow-up coming up:
+    </p>
+    
+    <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid #667eea; margin: 20px 0;">
+      <h2 style="color: #667eea; margin-top: 0; font-size: 20px;">${task.title}</h2>
+      <p style="margin: 10px 0;"><strong>Due:</strong> ${formatTaskDueDate(task)}</p>
+      ${documentTitle ? `<p style="margin: 10px 0;"><strong>From:</strong> ${documentTitle}</p>` : ''}
+      ${task.sourceText ? `<p style="margin: 10px 0;"><strong>Instruction:</strong> ${task.sourceText}</p>` : ''}
+      ${task.notes ? `<p style="margin: 10px 0;"><strong>Notes:</strong> ${task.notes}</p>` : ''}
+    </div>
+    
+    <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e0e0e0;">
+      <p style="font-size: 12px; color: #999; margin: 0;">
+        This is an automated reminder from Arogya Vault. Please consult your healthcare provider for medical advice.
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+function getTaskReminderText(task: HealthTask, documentTitle?: string | null): string {
+  return `
+Health Task Reminder
+
+You have a follow-up coming up:
+
+${task.title}
+Due: ${formatTaskDueDate(task)}
+${documentTitle ? `From: ${documentTitle}` : ''}
+${task.sourceText ? `Instruction: ${task.sourceText}` : ''}
+${task.notes ? `Notes: ${task.notes}` : ''}
+
+This is an automated reminder from Arogya Vault. Please consult your healthcare provider for medical advice.
+  `.trim();
 }
 
 export class SMTPEmailService implements IEmailService {
@@ -108,6 +175,33 @@ export class SMTPEmailService implements IEmailService {
     }
   }
 
+  async sendTaskReminder(email: string, task: HealthTask, documentTitle?: string | null): Promise<void> {
+    if (!this.transporter) {
+      console.log(`[Email Mock] Would send task reminder to ${email} for ${task.title}`);
+      return;
+    }
+
+    if (!email || !email.includes('@')) {
+      console.warn(`[Email] Invalid email address: ${email}`);
+      return;
+    }
+
+    try {
+      const info = await this.transporter.sendMail({
+        from: `${this.fromName} <${this.fromEmail}>`,
+        to: email,
+        subject: getTaskReminderSubject(task),
+        html: getTaskReminderHTML(task, documentTitle),
+        text: getTaskReminderText(task, documentTitle),
+      });
+
+      console.log(`✅ Task reminder email sent to ${email} for ${task.title} (Message ID: ${info.messageId})`);
+    } catch (error: any) {
+      console.error(`❌ Failed to send task reminder email to ${email}:`, error.message);
+      throw error;
+    }
+  }
+
   private getMedicationReminderHTML(medication: Medication, currentTime: string): string {
     let timingArray: string[] = [];
     try {
@@ -284,6 +378,38 @@ export class ResendEmailService implements IEmailService {
     }
   }
 
+  async sendTaskReminder(email: string, task: HealthTask, documentTitle?: string | null): Promise<void> {
+    if (!this.resend) {
+      console.log(`[Email Mock] Would send task reminder to ${email} for ${task.title}`);
+      return;
+    }
+
+    if (!email || !email.includes('@')) {
+      console.warn(`[Email] Invalid email address: ${email}`);
+      return;
+    }
+
+    try {
+      const { data, error } = await this.resend.emails.send({
+        from: `${this.fromName} <${this.fromEmail}>`,
+        to: email,
+        subject: getTaskReminderSubject(task),
+        html: getTaskReminderHTML(task, documentTitle),
+        text: getTaskReminderText(task, documentTitle),
+      });
+
+      if (error) {
+        console.error(`[Email] Resend API error:`, JSON.stringify(error, null, 2));
+        throw new Error(`Resend API error: ${JSON.stringify(error)}`);
+      }
+
+      console.log(`✅ Task reminder email sent to ${email} for ${task.title} (ID: ${data?.id})`);
+    } catch (error: any) {
+      console.error(`❌ Failed to send task reminder email to ${email}:`, error.message);
+      throw error;
+    }
+  }
+
   private getMedicationReminderHTML(medication: Medication, currentTime: string): string {
     let timingArray: string[] = [];
     try {
@@ -392,6 +518,15 @@ export class MockEmailService implements IEmailService {
       console.log(`  Instructions: ${medication.instructions}`);
     }
   }
+
+  async sendTaskReminder(email: string, task: HealthTask, documentTitle?: string | null): Promise<void> {
+    console.log(`[Email Mock] Task reminder for ${task.title}`);
+    console.log(`  To: ${email}`);
+    console.log(`  Due: ${formatTaskDueDate(task)}`);
+    if (documentTitle) {
+      console.log(`  From: ${documentTitle}`);
+    }
+  }
 }
 
 export function createEmailService(): IEmailService {
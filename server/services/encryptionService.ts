@@ -0,0 +1,165 @@
+/**
+ * Encryption Service
+ * Envelope encryption of vault files at rest - each user's files are encrypted with the
+ * user's own data key (AES-256-GCM), and data keys are stored wrapped by the master key
+ * from config. Rotating the master key re-wraps the data keys; files are never re-encrypted.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from "crypto";
+import { type UserEncryptionKey } from "@shared/schema";
+import { config } from "../config";
+import { storage } from "../storage";
+
+interface MasterKey {
+  id: string; // Fingerprint stored next to each wrapped key
+  key: Buffer;
+}
+
+export interface KeyRotationResult {
+  total: number;
+  rotated: number;
+  alreadyCurrent: number;
+  failed: { userId: string; error: string }[];
+}
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Encrypted files are stored as: magic | iv | auth tag | ciphertext
+// Files without the magic prefix were stored before encryption was enabled
+const FILE_MAGIC = Buffer.from("AVE1");
+
+function deriveMasterKey(secret: string): MasterKey {
+  const key = Buffer.from(hkdfSync("sha256", secret, "", "arogya-vault-master-key", KEY_LENGTH));
+  return { id: createHash("sha256").update(key).digest("hex").slice(0, 16), key };
+}
+
+const currentMasterKey = deriveMasterKey(config.encryption.masterKey);
+const previousMasterKeys = config.encryption.previousMasterKeys.map(deriveMasterKey);
+
+// Unwrapped data keys by user ID, kept for the life of the process
+const dataKeys = new Map<string, Promise<Buffer>>();
+
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function unseal(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+function wrapDataKey(dataKey: Buffer): string {
+  return seal(currentMasterKey.key, dataKey).toString("base64");
+}
+
+function unwrapDataKey(record: UserEncryptionKey): Buffer {
+  const masterKey = [currentMasterKey, ...previousMasterKeys].find((key) => key.id === record.masterKeyId);
+  if (!masterKey) {
+    throw new Error(`Master key ${record.masterKeyId} is not configured. Add it to ENCRYPTION_PREVIOUS_MASTER_KEYS.`);
+  }
+  return unseal(masterKey.key, Buffer.from(record.wrappedKey, "base64"));
+}
+
+async function loadDataKey(userId: string): Promise<Buffer> {
+  const existing = await storage.getUserEncryptionKey(userId);
+  if (existing) return unwrapDataKey(existing);
+
+  const dataKey = randomBytes(KEY_LENGTH);
+  try {
+    await storage.createUserEncryptionKey({
+      userId,
+      wrappedKey: wrapDataKey(dataKey),
+      masterKeyId: currentMasterKey.id,
+    });
+    console.log(`[Encryption] Created data key for user ${userId}`);
+    return dataKey;
+  } catch (error) {
+    // Another server instance created the user's key first
+    const created = await storage.getUserEncryptionKey(userId);
+    if (created) return unwrapDataKey(created);
+    throw error;
+  }
+}
+
+function getDataKey(userId: string): Promise<Buffer> {
+  let dataKey = dataKeys.get(userId);
+  if (!dataKey) {
+    dataKey = loadDataKey(userId);
+    dataKeys.set(userId, dataKey);
+    dataKey.catch(() => dataKeys.delete(userId));
+  }
+  return dataKey;
+}
+
+/**
+ * Check whether stored file contents are encrypted
+ */
+export function isEncryptedFile(file: Buffer): boolean {
+  return file.length >= FILE_MAGIC.length + IV_LENGTH + TAG_LENGTH
+    && file.subarray(0, FILE_MAGIC.length).equals(FILE_MAGIC);
+}
+
+/**
+ * Encrypt a file with its owner's data key (the key is created on first use)
+ */
+export async function encryptFile(userId: string, file: Buffer): Promise<Buffer> {
+  const dataKey = await getDataKey(userId);
+  return Buffer.concat([FILE_MAGIC, seal(dataKey, file)]);
+}
+
+/**
+ * Decrypt a stored file with its owner's data key
+ * Files stored before encryption was enabled are returned unchanged
+ */
+export async function decryptFile(userId: string, file: Buffer): Promise<Buffer> {
+  if (!isEncryptedFile(file)) return file;
+  const dataKey = await getDataKey(userId);
+  return unseal(dataKey, file.subarray(FILE_MAGIC.length));
+}
+
+/**
+ * Re-wrap every data key that is not wrapped by the current master key
+ * The previous master key(s) must still be configured in ENCRYPTION_PREVIOUS_MASTER_KEYS.
+ */
+export async function rotateMasterKey(): Promise<KeyRotationResult> {
+  const records = await storage.getAllUserEncryptionKeys();
+  const result: KeyRotationResult = { total: records.length, rotated: 0, alreadyCurrent: 0, failed: [] };
+
+  for (const record of records) {
+    if (record.masterKeyId === currentMasterKey.id) {
+      result.alreadyCurrent++;
+      continue;
+    }
+
+    try {
+      const dataKey = unwrapDataKey(record);
+      await storage.updateUserEncryptionKey(record.id, {
+        wrappedKey: wrapDataKey(dataKey),
+        masterKeyId: currentMasterKey.id,
+        rotatedAt: new Date(),
+      });
+      result.rotated++;
+    } catch (error: any) {
+      console.error(`[Encryption] Failed to re-wrap data key for user ${record.userId}:`, error.message);
+      result.failed.push({ userId: record.userId, error: error.message });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fingerprint of the current master key (safe to log)
+ */
+export function getMasterKeyId(): string {
+  return currentMasterKey.id;
+}
@@ -0,0 +1,76 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type Expense } from "@shared/schema";
+import { buildExpenseCsv, parseBillingText } from "./expenseService";
+
+describe("parseBillingText", () => {
+  it("reads the final total, GST lines and bill date of a pharmacy bill", () => {
+    const bill = [
+      "Apollo Pharmacy",
+      "Invoice No: AP/2025/0142",
+      "Bill Date: 07/04/2025",
+      "Tab. Metformin 500 mg   Batch No B123   120.00",
+      "Sub Total   500.00",
+      "CGST @ 6%   27.00",
+      "SGST @ 6%   27.00",
+      "Grand Total   Rs. 1,054.00",
+    ].join("\n");
+
+    assert.deepEqual(parseBillingText(bill), {
+      payee: null,
+      invoiceNumber: "AP/2025/0142",
+      paymentDate: "2025-04-07",
+      totalAmount: 1054,
+      gstAmount: 54,
+      payer: null,
+      category: "medicines",
+      description: null,
+    });
+  });
+
+  it("falls back to a plain total and a total GST line", () => {
+    const details = parseBillingText("City Diagnostics\nDate: 3-1-25\nTotal GST ₹90.50\nTotal ₹ 2,500");
+    assert.equal(details?.totalAmount, 2500);
+    assert.equal(details?.gstAmount, 90.5);
+    assert.equal(details?.paymentDate, "2025-01-03");
+    assert.equal(details?.category, "diagnostics");
+  });
+
+  it("ignores impossible dates", () => {
+    assert.equal(parseBillingText("Date: 31/13/2025\nTotal 100")?.paymentDate, null);
+  });
+
+  it("returns null without a total", () => {
+    assert.equal(parseBillingText("Prescription\nTab. Paracetamol 650 mg SOS"), null);
+  });
+});
+
+describe("buildExpenseCsv", () => {
+  it("keeps cells from running as spreadsheet formulas", async () => {
+    const expense = {
+      id: "expense-1",
+      userId: "user-1",
+      documentId: null,
+      payee: '=HYPERLINK("http://evil.test","Apollo")',
+      description: "@SUM(A1:A9)",
+      category: "medicines",
+      amount: 1054,
+      gstAmount: null,
+      currency: "INR",
+      payer: "-Self",
+      paymentDate: new Date(2025, 3, 7),
+      invoiceNumber: "+91",
+      reimbursementStatus: "none",
+      notes: null,
+      source: "manual",
+      createdAt: new Date(2025, 3, 7),
+      updatedAt: new Date(2025, 3, 7),
+    } as Expense;
+
+    const [, row] = (await buildExpenseCsv([expense])).split("\r\n");
+    assert.equal(
+      row,
+      `07/04/2025,"'=HYPERLINK(""http://evil.test"",""Apollo"")",'@SUM(A1:A9),Medicines,'-Self,'+91,1054.00,,INR,none,`
+    );
+  });
+});
@@ -0,0 +1,692 @@
+/**
+ * Expense Service
+ * Turns bills and receipts into expense records and builds yearly statements
+ * (CSV / PDF) for Section 80D claims and employer reimbursement
+ */
+
+import { createCanvas, PDFDocument, type SKRSContext2D } from "@napi-rs/canvas";
+import { type Document, type Expense, type InsertExpense } from "@shared/schema";
+import { storage } from "../storage";
+import { AIService, type ExtractedBillingDetails } from "./aiService";
+
+export const EXPENSE_CATEGORIES = [
+  "consultation",
+  "diagnostics",
+  "medicines",
+  "hospitalization",
+  "insurance_premium",
+  "preventive_checkup",
+  "other",
+] as const;
+
+export const REIMBURSEMENT_STATUSES = ["none", "claimed", "reimbursed"] as const;
+
+// 'calendar': January - December, 'financial': April - March (Indian financial year, used for 80D)
+export const PERIOD_BASES = ["calendar", "financial"] as const;
+
+export type ExpenseCategory = (typeof EXPENSE_CATEGORIES)[number];
+export type PeriodBasis = (typeof PERIOD_BASES)[number];
+
+export class ExpenseError extends Error {
+  constructor(public message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+// Editable fields of an expense, as sent by the client (dates are ISO strings)
+export interface ExpenseInput {
+  documentId?: string | null;
+  payee?: string;
+  description?: string | null;
+  category?: ExpenseCategory;
+  amount?: number;
+  gstAmount?: number | null;
+  payer?: string | null;
+  paymentDate?: string;
+  invoiceNumber?: string | null;
+  reimbursementStatus?: (typeof REIMBURSEMENT_STATUSES)[number];
+  notes?: string | null;
+}
+
+export interface ExpensePeriod {
+  year: number;
+  basis: PeriodBasis;
+  month: number | null; // 1-12, null for the whole year
+  from: Date;
+  to: Date; // Exclusive
+  label: string; // e.g. "2025", "FY 2025-26", "May 2025"
+}
+
+// Preventive health check-ups count towards 80D up to this amount per year
+const PREVENTIVE_CHECKUP_80D_LIMIT = 5000;
+
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  consultation: "Consultation",
+  diagnostics: "Diagnostics",
+  medicines: "Medicines",
+  hospitalization: "Hospitalization",
+  insurance_premium: "Insurance premium",
+  preventive_checkup: "Preventive check-up",
+  other: "Other",
+};
+
+// Checked in order - a premium receipt from a hospital's insurance desk is still a premium
+const CATEGORY_KEYWORDS: Array<[ExpenseCategory, RegExp]> = [
+  ["insurance_premium", /\b(premium|policy\s*(no|number)|insurance)\b/i],
+  ["preventive_checkup", /\b(preventive|health\s*check[\s-]?up|master\s*health|full\s*body\s*check)/i],
+  ["hospitalization", /\b(admission|admitted|discharge|ipd|in[\s-]?patient|ward|room\s*rent|icu|surgery)\b/i],
+  ["medicines", /\b(pharmacy|chemist|medicines?|tablets?|capsules?|syrup|batch\s*no)\b/i],
+  ["diagnostics", /\b(pathology|diagnostics?|laboratory|lab\s*test|blood\s*test|x-?ray|mri|ct\s*scan|ultrasound|usg|ecg|radiology)\b/i],
+  ["consultation", /\b(consultation|consulting|opd|out[\s-]?patient|doctor'?s?\s*fee)\b/i],
+];
+
+/**
+ * Work out the date range of a year (or one month of it)
+ * @param year - Calendar year, or the year a financial year starts in (2025 -> FY 2025-26)
+ */
+export function getExpensePeriod(year: number, basis: PeriodBasis = "calendar", month?: number | null): ExpensePeriod {
+  if (month) {
+    // Months of a financial year from January onwards fall in the following calendar year
+    const calendarYear = basis === "financial" && month < 4 ? year + 1 : year;
+    return {
+      year,
+      basis,
+      month,
+      from: new Date(calendarYear, month - 1, 1),
+      to: new Date(calendarYear, month, 1),
+      label: `${MONTH_NAMES[month - 1]} ${calendarYear}`,
+    };
+  }
+
+  if (basis === "financial") {
+    return {
+      year,
+      basis,
+      month: null,
+      from: new Date(year, 3, 1),
+      to: new Date(year + 1, 3, 1),
+      label: `FY ${year}-${String((year + 1) % 100).padStart(2, "0")}`,
+    };
+  }
+
+  return {
+    year,
+    basis,
+    month: null,
+    from: new Date(year, 0, 1),
+    to: new Date(year + 1, 0, 1),
+    label: String(year),
+  };
+}
+
+/**
+ * The year a date falls in (for the financial basis, the year its financial year starts in)
+ */
+export function getExpenseYear(date: Date, basis: PeriodBasis): number {
+  return basis === "financial" && date.getMonth() < 3 ? date.getFullYear() - 1 : date.getFullYear();
+}
+
+/**
+ * Guess the category of a bill from its text
+ */
+export function guessExpenseCategory(text: string): ExpenseCategory {
+  for (const [category, pattern] of CATEGORY_KEYWORDS) {
+    if (pattern.test(text)) return category;
+  }
+  return "other";
+}
+
+function parseAmount(text: string): number | null {
+  const amount = parseFloat(text.replace(/,/g, ""));
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+const AMOUNT = String.raw`(?:rs\.?|inr|₹)?\s*([\d,]+(?:\.\d{1,2})?)`;
+
+// Most specific first - "Total" alone also matches sub-totals, so it is the last resort
+const TOTAL_PATTERNS = [
+  new RegExp(String.raw`\b(?:grand\s*total|net\s*(?:amount|payable|total)|amount\s*paid|total\s*(?:amount\s*)?payable|amount\s*received|total\s*amount)\b[^\d\n]*?${AMOUNT}`, "gi"),
+  new RegExp(String.raw`\btotal\b[^\d\n]*?${AMOUNT}`, "gi"),
+];
+
+/**
+ * Read billing details from bill text with simple patterns
+ * Used when AI extraction is unavailable. Amounts are read from labelled lines
+ * ("Grand Total", "Net Payable", "CGST" ...), dates as DD/MM/YYYY.
+ * @returns Billing details, or null if no total could be found
+ */
+export function parseBillingText(text: string): ExtractedBillingDetails | null {
+  let totalAmount: number | null = null;
+  for (const pattern of TOTAL_PATTERNS) {
+    // The last labelled total on a bill is the final one
+    const matches = Array.from(text.matchAll(pattern));
+    for (let i = matches.length - 1; i >= 0 && totalAmount === null; i--) {
+      totalAmount = parseAmount(matches[i][1]);
+    }
+    if (totalAmount !== null) break;
+  }
+  if (totalAmount === null) return null;
+
+  // One amount per tax line, ignoring the rate ("CGST @ 9% 45.00")
+  let gstAmount = 0;
+  const taxLines = new Map<string, number>();
+  for (const line of text.split(/\r?\n/)) {
+    const tax = line.match(/\b(CGST|SGST|IGST|UTGST)\b/i);
+    if (!tax) continue;
+    const numbers = line.replace(/\d+(?:\.\d+)?\s*%/g, "").match(/[\d,]+(?:\.\d{1,2})?/g);
+    const amount = numbers ? parseAmount(numbers[numbers.length - 1]) : null;
+    if (amount !== null) taxLines.set(tax[1].toUpperCase(), amount);
+  }
+  taxLines.forEach((amount) => {
+    gstAmount += amount;
+  });
+  if (gstAmount === 0) {
+    const totalGst = text.match(new RegExp(String.raw`\btotal\s*gst\b[^\d\n]*?${AMOUNT}`, "i"));
+    gstAmount = totalGst ? parseAmount(totalGst[1]) ?? 0 : 0;
+  }
+
+  let paymentDate: string | null = null;
+  const date = text.match(/\b(?:bill|invoice|receipt|payment)?\s*date\b\s*[:\-]?\s*(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})/i);
+  if (date) {
+    const year = date[3].length === 2 ? 2000 + parseInt(date[3], 10) : parseInt(date[3], 10);
+    const month = parseInt(date[2], 10);
+    const day = parseInt(date[1], 10);
+    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
+      paymentDate = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+    }
+  }
+
+  const invoice = text.match(/\b(?:invoice|bill|receipt)\s*(?:no\.?|number|#)\s*[:\-]?\s*([A-Z0-9][A-Z0-9\/\-]*)/i);
+
+  return {
+    payee: null,
+    invoiceNumber: invoice ? invoice[1] : null,
+    paymentDate,
+    totalAmount,
+    gstAmount: gstAmount > 0 ? Math.round(gstAmount * 100) / 100 : null,
+    payer: null,
+    category: guessExpenseCategory(text),
+    description: null,
+  };
+}
+
+function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function isExpenseCategory(value: unknown): value is ExpenseCategory {
+  return typeof value === "string" && (EXPENSE_CATEGORIES as readonly string[]).includes(value);
+}
+
+/**
+ * Extract the expense from a bill's text, replacing an earlier AI-extracted one
+ * A bill whose expense the user added or edited (source 'manual') is left alone. Never
+ * throws - expense extraction failures must not fail document processing.
+ * @returns The created expense, or null if none was created
+ */
+export async function extractExpenseFromDocument(
+  document: Document,
+  extractedText: string
+): Promise<Expense | null> {
+  if (document.type !== "billing" || !extractedText || extractedText.trim().length === 0) {
+    return null;
+  }
+
+  try {
+    const existing = await storage.getExpenses(document.userId, { documentId: document.id });
+    if (existing.some((expense) => expense.source === "manual")) {
+      return null;
+    }
+
+    const details =
+      (await AIService.extractBillingDetails(extractedText)) ?? parseBillingText(extractedText);
+
+    for (const expense of existing) {
+      await storage.deleteExpense(expense.id);
+    }
+
+    if (!details || !details.totalAmount) {
+      console.log(`[Expenses] No amount found in document ${document.id}`);
+      return null;
+    }
+
+    const expense = await storage.createExpense({
+      userId: document.userId,
+      documentId: document.id,
+      payee: details.payee?.trim() || document.provider || document.title,
+      description: details.description?.trim() || document.title,
+      category: isExpenseCategory(details.category) ? details.category : guessExpenseCategory(extractedText),
+      amount: details.totalAmount,
+      gstAmount: details.gstAmount ?? null,
+      currency: "INR",
+      payer: details.payer?.trim() || null,
+      paymentDate: parseDate(details.paymentDate) ?? document.date ?? document.createdAt,
+      invoiceNumber: details.invoiceNumber?.trim() || null,
+      reimbursementStatus: "none",
+      source: "ai",
+    });
+
+    console.log(`[Expenses] Extracted expense of ${expense.amount} from document ${document.id}`);
+    return expense;
+  } catch (error: any) {
+    console.error(`[Expenses] Extraction failed for document ${document.id}:`, error.message);
+    return null;
+  }
+}
+
+async function assertOwnedDocument(userId: string, documentId: string): Promise<void> {
+  const document = await storage.getDocument(documentId);
+  if (!document || document.deletedAt || document.userId !== userId) {
+    throw new ExpenseError("Linked document not found");
+  }
+}
+
+function validateAmounts(amount: number, gstAmount: number | null | undefined): void {
+  if (gstAmount !== null && gstAmount !== undefined && gstAmount > amount) {
+    throw new ExpenseError("GST cannot be more than the total amount");
+  }
+}
+
+/**
+ * Create an expense the user added themselves
+ */
+export async function createExpense(userId: string, input: ExpenseInput): Promise<Expense> {
+  if (input.documentId) {
+    await assertOwnedDocument(userId, input.documentId);
+  }
+  validateAmounts(input.amount!, input.gstAmount);
+
+  return storage.createExpense({
+    userId,
+    documentId: input.documentId ?? null,
+    payee: input.payee!.trim(),
+    description: input.description?.trim() || null,
+    category: input.category || "other",
+    amount: input.amount!,
+    gstAmount: input.gstAmount ?? null,
+    currency: "INR",
+    payer: input.payer?.trim() || null,
+    paymentDate: new Date(input.paymentDate!),
+    invoiceNumber: input.invoiceNumber?.trim() || null,
+    reimbursementStatus: input.reimbursementStatus || "none",
+    notes: input.notes?.trim() || null,
+    source: "manual",
+  });
+}
+
+/**
+ * Update an expense
+ * Editing an extracted expense marks it as the user's, so reprocessing the bill keeps it.
+ */
+export async function updateExpense(expense: Expense, input: ExpenseInput): Promise<Expense> {
+  if (input.documentId) {
+    await assertOwnedDocument(expense.userId, input.documentId);
+  }
+  validateAmounts(
+    input.amount ?? expense.amount,
+    input.gstAmount !== undefined ? input.gstAmount : expense.gstAmount
+  );
+
+  const update: Partial<InsertExpense> = { source: "manual" };
+  if (input.documentId !== undefined) update.documentId = input.documentId;
+  if (input.payee !== undefined) update.payee = input.payee.trim();
+  if (input.description !== undefined) update.description = input.description?.trim() || null;
+  if (input.category !== undefined) update.category = input.category;
+  if (input.amount !== undefined) update.amount = input.amount;
+  if (input.gstAmount !== undefined) update.gstAmount = input.gstAmount;
+  if (input.payer !== undefined) update.payer = input.payer?.trim() || null;
+  if (input.paymentDate !== undefined) update.paymentDate = new Date(input.paymentDate);
+  if (input.invoiceNumber !== undefined) update.invoiceNumber = input.invoiceNumber?.trim() || null;
+  if (input.reimbursementStatus !== undefined) update.reimbursementStatus = input.reimbursementStatus;
+  if (input.notes !== undefined) update.notes = input.notes?.trim() || null;
+
+  return storage.updateExpense(expense.id, update);
+}
+
+/**
+ * Expenses as returned by the API, with the title of their linked document
+ */
+export async function serializeExpenses(expenses: Expense[]) {
+  const titles = new Map<string, string | null>();
+  for (const expense of expenses) {
+    if (expense.documentId && !titles.has(expense.documentId)) {
+      const document = await storage.getDocument(expense.documentId);
+      titles.set(expense.documentId, document && !document.deletedAt ? document.title : null);
+    }
+  }
+
+  return expenses.map((expense) => ({
+    ...expense,
+    documentTitle: expense.documentId ? titles.get(expense.documentId) ?? null : null,
+  }));
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export interface ExpenseSummary {
+  period: ExpensePeriod;
+  total: number;
+  gstTotal: number;
+  count: number;
+  byMonth: Array<{ month: string; label: string; total: number; count: number }>; // Every month of the year, in order
+  byCategory: Array<{ category: ExpenseCategory; label: string; total: number; count: number }>; // Largest first
+  byPayer: Array<{ payer: string; total: number; count: number }>; // Largest first
+  reimbursement: { claimed: number; reimbursed: number; notClaimed: number };
+  section80D: {
+    insurancePremiums: number;
+    preventiveCheckups: number;
+    preventiveCheckupsAllowed: number; // Capped at the yearly limit
+  };
+}
+
+/**
+ * Totals of a year's expenses
+ * @param expenses - Expenses within the period
+ */
+export function summarizeExpenses(expenses: Expense[], period: ExpensePeriod): ExpenseSummary {
+  const startMonth = period.basis === "financial" ? 3 : 0;
+  const byMonth = Array.from({ length: 12 }, (_, index) => {
+    const date = new Date(period.from.getFullYear(), startMonth + index, 1);
+    return {
+      month: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`,
+      label: `${MONTH_NAMES[date.getMonth()]} ${date.getFullYear()}`,
+      total: 0,
+      count: 0,
+    };
+  });
+  const byCategory = new Map<ExpenseCategory, { total: number; count: number }>();
+  const byPayer = new Map<string, { total: number; count: number }>();
+  const reimbursement = { claimed: 0, reimbursed: 0, notClaimed: 0 };
+  let total = 0;
+  let gstTotal = 0;
+
+  for (const expense of expenses) {
+    total += expense.amount;
+    gstTotal += expense.gstAmount ?? 0;
+
+    const monthKey = `${expense.paymentDate.getFullYear()}-${String(expense.paymentDate.getMonth() + 1).padStart(2, "0")}`;
+    const month = byMonth.find((entry) => entry.month === monthKey);
+    if (month) {
+      month.total += expense.amount;
+      month.count++;
+    }
+
+    const category = isExpenseCategory(expense.category) ? expense.category : "other";
+    const categoryTotal = byCategory.get(category) ?? { total: 0, count: 0 };
+    categoryTotal.total += expense.amount;
+    categoryTotal.count++;
+    byCategory.set(category, categoryTotal);
+
+    const payer = expense.payer || "Unspecified";
+    const payerTotal = byPayer.get(payer) ?? { total: 0, count: 0 };
+    payerTotal.total += expense.amount;
+    payerTotal.count++;
+    byPayer.set(payer, payerTotal);
+
+    if (expense.reimbursementStatus === "claimed") reimbursement.claimed += expense.amount;
+    else if (expense.reimbursementStatus === "reimbursed") reimbursement.reimbursed += expense.amount;
+    else reimbursement.notClaimed += expense.amount;
+  }
+
+  const preventiveCheckups = byCategory.get("preventive_checkup")?.total ?? 0;
+
+  return {
+    period,
+    total: roundMoney(total),
+    gstTotal: roundMoney(gstTotal),
+    count: expenses.length,
+    byMonth: byMonth.map((entry) => ({ ...entry, total: roundMoney(entry.total) })),
+    byCategory: Array.from(byCategory.entries())
+      .map(([category, entry]) => ({ category, label: CATEGORY_LABELS[category], total: roundMoney(entry.total), count: entry.count }))
+      .sort((a, b) => b.total - a.total),
+    byPayer: Array.from(byPayer.entries())
+      .map(([payer, entry]) => ({ payer, total: roundMoney(entry.total), count: entry.count }))
+      .sort((a, b) => b.total - a.total),
+    reimbursement: {
+      claimed: roundMoney(reimbursement.claimed),
+      reimbursed: roundMoney(reimbursement.reimbursed),
+      notClaimed: roundMoney(reimbursement.notClaimed),
+    },
+    section80D: {
+      insurancePremiums: roundMoney(byCategory.get("insurance_premium")?.total ?? 0),
+      preventiveCheckups: roundMoney(preventiveCheckups),
+      preventiveCheckupsAllowed: roundMoney(Math.min(preventiveCheckups, PREVENTIVE_CHECKUP_80D_LIMIT)),
+    },
+  };
+}
+
+/**
+ * Years the user has expenses in, newest first (always includes the current year)
+ */
+export async function getExpenseYears(userId: string, basis: PeriodBasis): Promise<number[]> {
+  const years = new Set<number>([getExpenseYear(new Date(), basis)]);
+  for (const expense of await storage.getExpenses(userId)) {
+    years.add(getExpenseYear(expense.paymentDate, basis));
+  }
+  return Array.from(years).sort((a, b) => b - a);
+}
+
+function formatDate(date: Date): string {
+  return `${String(date.getDate()).padStart(2, "0")}/${String(date.getMonth() + 1).padStart(2, "0")}/${date.getFullYear()}`;
+}
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function csvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  // Spreadsheets run cells starting with these as formulas - a payee read from a bill
+  // could otherwise smuggle one into the statement (CSV injection)
+  const text = /^[=+\-@\t\r]/.test(String(value)) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Expenses as CSV, oldest first, one row per expense
+ */
+export async function buildExpenseCsv(expenses: Expense[]): Promise<string> {
+  const rows = [
+    ["Date", "Payee", "Description", "Category", "Payer", "Invoice number", "Amount", "GST", "Currency", "Reimbursement", "Document"],
+  ];
+
+  const serialized = await serializeExpenses(expenses);
+  for (const expense of serialized.slice().reverse()) {
+    rows.push([
+      formatDate(expense.paymentDate),
+      expense.payee,
+      expense.description ?? "",
+      isExpenseCategory(expense.category) ? CATEGORY_LABELS[expense.category] : expense.category,
+      expense.payer ?? "",
+      expense.invoiceNumber ?? "",
+      expense.amount.toFixed(2),
+      expense.gstAmount !== null ? expense.gstAmount.toFixed(2) : "",
+      expense.currency,
+      expense.reimbursementStatus,
+      expense.documentTitle ?? "",
+    ]);
+  }
+
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const LINE_HEIGHT = 16;
+const FONT = "DejaVu Sans, sans-serif";
+
+// Left edge of the text columns; GST is right-aligned to its own edge and the amount to the page margin
+const COLUMNS = { date: MARGIN, payee: MARGIN + 70, category: MARGIN + 260, gstRight: PAGE_WIDTH - MARGIN - 85 };
+
+// Measuring text needs a context; one small canvas is enough
+let measureContext: SKRSContext2D | null = null;
+
+function truncate(text: string, width: number, font: string): string {
+  if (!measureContext) measureContext = createCanvas(1, 1).getContext("2d");
+  measureContext.font = font;
+  if (measureContext.measureText(text).width <= width) return text;
+
+  let end = text.length;
+  while (end > 0 && measureContext.measureText(`${text.slice(0, end)}…`).width > width) end--;
+  return `${text.slice(0, end)}…`;
+}
+
+/**
+ * Render a statement of a year's expenses as a PDF
+ * Amounts are in INR; the summary lists totals by category, payer and reimbursement status
+ * and the amounts relevant to Section 80D, followed by every expense oldest first.
+ */
+export function renderExpenseStatementPdf(
+  expenses: Expense[],
+  summary: ExpenseSummary,
+  holderName: string | null
+): Buffer {
+  const pdf = new PDFDocument({ title: `Medical expense statement ${summary.period.label}` });
+  let context = pdf.beginPage(PAGE_WIDTH, PAGE_HEIGHT) as SKRSContext2D;
+  let y = MARGIN;
+
+  const setFont = (size: number, bold = false) => {
+    context.font = `${bold ? "bold " : ""}${size}px ${FONT}`;
+  };
+  const nextPage = () => {
+    pdf.endPage();
+    context = pdf.beginPage(PAGE_WIDTH, PAGE_HEIGHT) as SKRSContext2D;
+    y = MARGIN;
+  };
+  const ensureSpace = (lines: number) => {
+    if (y + lines * LINE_HEIGHT > PAGE_HEIGHT - MARGIN) nextPage();
+  };
+  const line = (label: string, value?: string, bold = false) => {
+    ensureSpace(1);
+    setFont(10, bold);
+    context.textAlign = "left";
+    context.fillText(label, MARGIN, y);
+    if (value !== undefined) {
+      context.textAlign = "right";
+      context.fillText(value, PAGE_WIDTH - MARGIN, y);
+    }
+    y += LINE_HEIGHT;
+  };
+  const heading = (text: string) => {
+    ensureSpace(3);
+    y += LINE_HEIGHT / 2;
+    setFont(12, true);
+    context.textAlign = "left";
+    context.fillText(text, MARGIN, y);
+    y += LINE_HEIGHT + 2;
+  };
+
+  context.fillStyle = "#111827";
+  context.textBaseline = "top";
+
+  setFont(18, true);
+  context.fillText("Medical expense statement", MARGIN, y);
+  y += 28;
+  setFont(10);
+  context.fillText(
+    `${summary.period.label} (${formatDate(summary.period.from)} - ${formatDate(new Date(summary.period.to.getTime() - 1))})`,
+    MARGIN,
+    y
+  );
+  y += LINE_HEIGHT;
+  if (holderName) {
+    context.fillText(`Account holder: ${holderName}`, MARGIN, y);
+    y += LINE_HEIGHT;
+  }
+  context.fillText(`Generated on ${formatDate(new Date())} by Arogya Vault. Amounts in INR, including GST.`, MARGIN, y);
+  y += LINE_HEIGHT;
+
+  heading("Summary");
+  line("Total paid", formatMoney(summary.total), true);
+  line("GST included", formatMoney(summary.gstTotal));
+  line("Number of expenses", String(summary.count));
+
+  heading("Section 80D");
+  line("Health insurance premiums", formatMoney(summary.section80D.insurancePremiums));
+  line(
+    `Preventive health check-ups (up to ${formatMoney(PREVENTIVE_CHECKUP_80D_LIMIT)})`,
+    formatMoney(summary.section80D.preventiveCheckupsAllowed)
+  );
+
+  heading("Reimbursement");
+  line("Reimbursed", formatMoney(summary.reimbursement.reimbursed));
+  line("Claimed, awaiting reimbursement", formatMoney(summary.reimbursement.claimed));
+  line("Not claimed", formatMoney(summary.reimbursement.notClaimed));
+
+  if (summary.byCategory.length > 0) {
+    heading("By category");
+    for (const entry of summary.byCategory) {
+      line(`${entry.label} (${entry.count})`, formatMoney(entry.total));
+    }
+  }
+
+  if (summary.byPayer.length > 1) {
+    heading("By payer");
+    for (const entry of summary.byPayer) {
+      line(`${entry.payer} (${entry.count})`, formatMoney(entry.total));
+    }
+  }
+
+  const tableHeader = () => {
+    setFont(9, true);
+    context.textAlign = "left";
+    context.fillText("Date", COLUMNS.date, y);
+    context.fillText("Payee / description", COLUMNS.payee, y);
+    context.fillText("Category", COLUMNS.category, y);
+    context.textAlign = "right";
+    context.fillText("GST", COLUMNS.gstRight, y);
+    context.fillText("Amount", PAGE_WIDTH - MARGIN, y);
+    y += LINE_HEIGHT;
+  };
+
+  heading("Expenses");
+  if (expenses.length === 0) {
+    line("No expenses recorded for this period.");
+  } else {
+    tableHeader();
+  }
+
+  for (const expense of expenses.slice().reverse()) {
+    if (y + 2 * LINE_HEIGHT > PAGE_HEIGHT - MARGIN) {
+      nextPage();
+      tableHeader();
+    }
+
+    const font = `9px ${FONT}`;
+    const payee = expense.invoiceNumber ? `${expense.payee} (#${expense.invoiceNumber})` : expense.payee;
+    setFont(9);
+    context.textAlign = "left";
+    context.fillText(formatDate(expense.paymentDate), COLUMNS.date, y);
+    context.fillText(truncate(payee, COLUMNS.category - COLUMNS.payee - 10, font), COLUMNS.payee, y);
+    context.fillText(
+      isExpenseCategory(expense.category) ? CATEGORY_LABELS[expense.category] : expense.category,
+      COLUMNS.category,
+      y
+    );
+    context.textAlign = "right";
+    context.fillText(expense.gstAmount !== null ? formatMoney(expense.gstAmount) : "-", COLUMNS.gstRight, y);
+    context.fillText(formatMoney(expense.amount), PAGE_WIDTH - MARGIN, y);
+    y += LINE_HEIGHT - 4;
+
+    const detail = [expense.description, expense.payer].filter(Boolean).join(" - ");
+    if (detail) {
+      context.fillStyle = "#6b7280";
+      context.textAlign = "left";
+      context.fillText(truncate(detail, COLUMNS.category - COLUMNS.payee - 10, font), COLUMNS.payee, y);
+      context.fillStyle = "#111827";
+    }
+    y += LINE_HEIGHT;
+  }
+
+  pdf.endPage();
+  return pdf.close();
+}
@@ -0,0 +1,326 @@
+/**
+ * File Storage Service
+ * Pluggable storage backend for vault files - local disk, Supabase Storage or any
+ * S3-compatible object store (AWS S3, MinIO), selected by STORAGE_DRIVER
+ */
+
+import { randomUUID } from "crypto";
+import { createReadStream } from "fs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Readable } from "stream";
+import {
+  S3Client,
+  CreateBucketCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadBucketCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+} from "@aws-sdk/client-s3";
+import { config, type StorageDriverName } from "../config";
+import { SupabaseStorageService } from "./supabaseStorage";
+import { encryptFile } from "./encryptionService";
+
+/**
+ * A storage backend
+ * Files are addressed by key ("documents/userId/file.ext") - the same reference that is
+ * stored in documents.fileUrl, so files can be moved between backends without touching rows.
+ * There are no direct (signed) URLs: stored files are encrypted, so they are always served
+ * through the app, which decrypts them.
+ */
+export interface FileStorageDriver {
+  readonly name: StorageDriverName;
+  put(key: string, file: Buffer, mimeType: string): Promise<void>;
+  getStream(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  deleteFolder(prefix: string): Promise<void>; // Every file whose key starts with "prefix/"
+  exists(key: string): Promise<boolean>;
+}
+
+// Files uploaded before storage drivers were saved under the local uploads directory
+const LEGACY_LOCAL_PREFIX = "/uploads/";
+
+/**
+ * Files on the server's disk
+ */
+export class LocalFileStorage implements FileStorageDriver {
+  readonly name = "local" as const;
+  private readonly root = path.resolve(process.cwd(), config.storage.local.directory);
+
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, file: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, file);
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const filePath = this.resolvePath(key);
+    await fs.access(filePath);
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true });
+  }
+
+  async deleteFolder(prefix: string): Promise<void> {
+    await fs.rm(this.resolvePath(prefix), { recursive: true, force: true });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolvePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Files in the Supabase Storage "documents" bucket
+ */
+export class SupabaseFileStorage implements FileStorageDriver {
+  readonly name = "supabase" as const;
+
+  async put(key: string, file: Buffer, mimeType: string): Promise<void> {
+    await SupabaseStorageService.putFile(key, file, mimeType);
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    return Readable.from(await SupabaseStorageService.downloadFile(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await SupabaseStorageService.deleteFile(key);
+  }
+
+  async deleteFolder(prefix: string): Promise<void> {
+    await SupabaseStorageService.deleteFolder(prefix);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return SupabaseStorageService.fileExists(key);
+  }
+}
+
+/**
+ * Files in an S3-compatible bucket (AWS S3, MinIO, Cloudflare R2, ...)
+ */
+export class S3FileStorage implements FileStorageDriver {
+  readonly name = "s3" as const;
+  private readonly bucket = config.storage.s3.bucket;
+  private readonly client: S3Client;
+  private bucketReady: Promise<void> | null = null;
+
+  constructor() {
+    const { endpoint, region, accessKeyId, secretAccessKey, forcePathStyle } = config.storage.s3;
+    this.client = new S3Client({
+      region,
+      endpoint: endpoint || undefined,
+      forcePathStyle,
+      // Without explicit keys the SDK falls back to its default chain (env, IAM role, ...)
+      credentials: accessKeyId ? { accessKeyId, secretAccessKey } : undefined,
+    });
+  }
+
+  /**
+   * Create the bucket on first upload if it doesn't exist (convenient for fresh MinIO installs)
+   */
+  private ensureBucket(): Promise<void> {
+    if (!this.bucketReady) {
+      this.bucketReady = (async () => {
+        try {
+          await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+        } catch (error: any) {
+          if (error.$metadata?.httpStatusCode !== 404) throw error;
+          await this.client.send(new CreateBucketCommand({ Bucket: this.bucket }));
+          console.log(`[File Storage] Created S3 bucket: ${this.bucket}`);
+        }
+      })().catch((error) => {
+        this.bucketReady = null;
+        throw error;
+      });
+    }
+    return this.bucketReady;
+  }
+
+  async put(key: string, file: Buffer, mimeType: string): Promise<void> {
+    await this.ensureBucket();
+    await this.client.send(
+      new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: file, ContentType: mimeType })
+    );
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const { Body } = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!Body) {
+      throw new Error(`Failed to download file: ${key}`);
+    }
+    return Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async deleteFolder(prefix: string): Promise<void> {
+    let continuationToken: string | undefined;
+    do {
+      const listed = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: `${prefix.replace(/\/$/, "")}/`,
+          ContinuationToken: continuationToken,
+        })
+      );
+      const objects = (listed.Contents || []).map((object) => ({ Key: object.Key! }));
+      if (objects.length > 0) {
+        await this.client.send(
+          new DeleteObjectsCommand({ Bucket: this.bucket, Delete: { Objects: objects, Quiet: true } })
+        );
+      }
+      continuationToken = listed.IsTruncated ? listed.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return true;
+    } catch (error: any) {
+      if (error.$metadata?.httpStatusCode === 404) return false;
+      throw error;
+    }
+  }
+}
+
+export const localFileStorage = new LocalFileStorage();
+
+let configuredDriver: FileStorageDriver | null = null;
+
+function createDriver(name: StorageDriverName): FileStorageDriver {
+  switch (name) {
+    case "supabase":
+      return new SupabaseFileStorage();
+    case "s3":
+      return new S3FileStorage();
+    case "local":
+      return localFileStorage;
+    default:
+      throw new Error(`Unknown storage driver: ${name}`);
+  }
+}
+
+export class FileStorageService {
+  /**
+   * Get the configured storage driver
+   */
+  static getDriver(): FileStorageDriver {
+    if (!configuredDriver) {
+      configuredDriver = createDriver(config.storage.driver);
+      console.log(`[File Storage] Using ${configuredDriver.name} storage driver`);
+    }
+    return configuredDriver;
+  }
+
+  /**
+   * Resolve the driver and key for a stored file reference
+   * Legacy "/uploads/..." references always live on local disk
+   */
+  private static resolve(fileUrl: string): { driver: FileStorageDriver; key: string } {
+    if (fileUrl.startsWith(LEGACY_LOCAL_PREFIX)) {
+      return { driver: localFileStorage, key: fileUrl.slice(LEGACY_LOCAL_PREFIX.length) };
+    }
+    return { driver: this.getDriver(), key: fileUrl };
+  }
+
+  /**
+   * Store a user's file under a new unique key
+   * The file is encrypted with the user's data key first (unless encryption is disabled);
+   * read it back with readFile + decryptFile.
+   * @param file - File contents
+   * @param userId - User ID for organizing files
+   * @param fileName - Original file name (only the extension is kept)
+   * @param mimeType - File MIME type
+   * @param folder - Top-level folder for the key (default: "documents")
+   * @returns File reference to store in fileUrl (e.g., "documents/userId/uuid.pdf")
+   */
+  static async uploadFile(
+    file: Buffer,
+    userId: string,
+    fileName: string,
+    mimeType: string,
+    folder: string = "documents"
+  ): Promise<string> {
+    const key = `${folder}/${userId}/${randomUUID()}${path.extname(fileName)}`;
+    await this.storeFile(key, file, userId, mimeType);
+    return key;
+  }
+
+  /**
+   * Store a user's file under a fixed key, replacing any file already there
+   * Used for derived files (e.g. page previews) whose key is computed rather than saved in a row.
+   * Encrypted the same way as uploadFile.
+   */
+  static async storeFile(key: string, file: Buffer, userId: string, mimeType: string): Promise<void> {
+    const driver = this.getDriver();
+    const stored = config.encryption.enabled ? await encryptFile(userId, file) : file;
+    await driver.put(key, stored, mimeType);
+    console.log(`[File Storage] Stored ${key} (${file.length} bytes) using ${driver.name} driver`);
+  }
+
+  /**
+   * Open a stored file for reading
+   */
+  static async getFileStream(fileUrl: string): Promise<Readable> {
+    const { driver, key } = this.resolve(fileUrl);
+    return driver.getStream(key);
+  }
+
+  /**
+   * Read a stored file into memory (as stored - encrypted files stay encrypted)
+   */
+  static async readFile(fileUrl: string): Promise<Buffer> {
+    const stream = await this.getFileStream(fileUrl);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Delete a stored file (missing files are ignored)
+   */
+  static async deleteFile(fileUrl: string): Promise<void> {
+    const { driver, key } = this.resolve(fileUrl);
+    await driver.delete(key);
+  }
+
+  /**
+   * Delete every file under a key prefix (e.g. "previews/userId/documentId")
+   */
+  static async deleteFolder(prefix: string): Promise<void> {
+    await this.getDriver().deleteFolder(prefix);
+  }
+
+  /**
+   * Check whether a stored file exists
+   */
+  static async fileExists(fileUrl: string): Promise<boolean> {
+    const { driver, key } = this.resolve(fileUrl);
+    return driver.exists(key);
+  }
+}
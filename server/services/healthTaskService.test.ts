@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { extractFollowUpInstructions, resolveFollowUps } from "./healthTaskService";
+
+// Document date the relative times count from
+const reportDate = new Date(2025, 0, 10, 12, 0, 0);
+
+function localDate(year: number, month: number, day: number): Date {
+  return new Date(year, month - 1, day, 9, 0, 0, 0);
+}
+
+function summarize(text: string) {
+  return extractFollowUpInstructions(text, reportDate).map(({ title, dueDate }) => ({ title, dueDate }));
+}
+
+describe("extractFollowUpInstructions", () => {
+  it("reads the follow-up lines of a prescription", () => {
+    const prescription = [
+      "Rx",
+      "1. Tab. Metformin 500 mg 1-0-1 x 30 days",
+      "2. Tab. Telmisartan 40 mg 0-0-1",
+      "Advice: Low salt diet. Walk 30 min daily.",
+      "R/V after 2 weeks with reports",
+      "Repeat HbA1c and lipid profile after 3 months",
+    ].join("\n");
+
+    assert.deepEqual(summarize(prescription), [
+      { title: "Follow-up visit", dueDate: localDate(2025, 1, 24) },
+      { title: "Repeat HbA1c and lipid profile", dueDate: localDate(2025, 4, 10) },
+    ]);
+  });
+
+  it("reads calendar dates, day first", () => {
+    assert.deepEqual(summarize("Follow up on 12/02/2025"), [
+      { title: "Follow-up visit", dueDate: localDate(2025, 2, 12) },
+    ]);
+    assert.deepEqual(summarize("Review on 5th March, 2025 with CBC"), [
+      { title: "Follow-up visit", dueDate: localDate(2025, 3, 5) },
+    ]);
+  });
+
+  it("uses the earlier bound of a range", () => {
+    assert.deepEqual(summarize("Review after 2-3 weeks"), [
+      { title: "Follow-up visit", dueDate: localDate(2025, 1, 24) },
+    ]);
+  });
+
+  it("ignores history and medication durations", () => {
+    assert.deepEqual(summarize("Patient returned after 2 days with fever."), []);
+    assert.deepEqual(summarize("Tab. Azithromycin 500 mg OD for 5 days"), []);
+  });
+
+  it("does not understand Hindi or Hinglish instructions", () => {
+    assert.deepEqual(summarize("15 din baad dikhayein"), []);
+    assert.deepEqual(summarize("1 महीने बाद TSH दोबारा करवाएं"), []);
+  });
+});
+
+describe("resolveFollowUps", () => {
+  it("counts relative times from the document date and keeps calendar dates", () => {
+    const instructions = resolveFollowUps(
+      [
+        { title: "Follow-up visit", sourceText: "15 din baad dikhayein", amount: 15, unit: "day" },
+        { title: "Repeat TSH", sourceText: "1 महीने बाद TSH दोबारा करवाएं", amount: 1, unit: "month" },
+        { title: "Review with reports", sourceText: "Review on 20/02/2025", date: "2025-02-20" },
+      ],
+      reportDate
+    );
+
+    assert.deepEqual(
+      instructions.map(({ title, dueDate }) => ({ title, dueDate })),
+      [
+        { title: "Follow-up visit", dueDate: localDate(2025, 1, 25) },
+        { title: "Repeat TSH", dueDate: localDate(2025, 2, 10) },
+        { title: "Review with reports", dueDate: localDate(2025, 2, 20) },
+      ]
+    );
+  });
+
+  it("drops instructions without a usable time", () => {
+    assert.deepEqual(
+      resolveFollowUps(
+        [
+          { title: "Follow-up visit", sourceText: "Review when needed" },
+          { title: "Repeat CBC", sourceText: "Repeat CBC on 31/02", date: "2025-02-31" },
+          { title: "Review", sourceText: "Review after 0 days", amount: 0, unit: "day" },
+        ],
+        reportDate
+      ),
+      []
+    );
+  });
+});
@@ -0,0 +1,430 @@
+/**
+ * Health Task Service
+ * Finds follow-up instructions ("review after 2 weeks", "repeat lipid profile in 3 months") in
+ * documents and turns them into tasks with due dates and reminders
+ *
+ * The configured model reads the instructions, in English, Hindi or Hinglish. Without one,
+ * extractFollowUpInstructions falls back to regular expressions that only understand English
+ * phrasing - "15 din baad dikhayein" or "1 महीने बाद" are missed.
+ */
+
+import { type Document, type HealthTask, type InsertHealthTask } from "@shared/schema";
+import { storage } from "../storage";
+import { AIService, type ExtractedFollowUp } from "./aiService";
+
+export const HEALTH_TASK_STATUSES = ["pending", "completed", "dismissed"] as const;
+
+export type HealthTaskStatus = (typeof HEALTH_TASK_STATUSES)[number];
+
+export class HealthTaskError extends Error {
+  constructor(public message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+// Editable fields of a task, as sent by the client (dates are ISO strings)
+export interface HealthTaskInput {
+  title?: string;
+  notes?: string | null;
+  dueDate?: string | null;
+  remindAt?: string | null; // Omitted: the day before the due date; null: no reminder
+  status?: HealthTaskStatus;
+  sourceDocumentId?: string | null;
+}
+
+// A follow-up instruction found in a document
+export interface FollowUpInstruction {
+  title: string;
+  dueDate: Date;
+  sourceText: string; // Sentence the instruction was read from
+}
+
+// Hour of the day due dates and reminders are set to
+const TASK_HOUR = 9;
+
+// Instructions that were already this overdue when the document was processed are skipped
+const STALE_AFTER_DAYS = 30;
+
+const MAX_TITLE_LENGTH = 120;
+
+// Words that make a sentence an instruction rather than history ("returned after 2 days" does not match)
+const FOLLOW_UP_PATTERN =
+  /\b(review|r\/v|follow[\s-]?up|f\/u|revisit|re-visit|repeat(?:ing)?|recheck|re-check|come back|return|check[\s-]?up|reassess|consult|visit again|next visit)\b/i;
+
+// A bare keyword left after removing the time, e.g. "Review" from "Review after 2 weeks"
+const BARE_FOLLOW_UP_PATTERN =
+  /^(review|r\/v|follow[\s-]?up|f\/u|revisit|re-visit|come back|return|check[\s-]?up|reassess|consult|visit again|next visit)(\s+(visit|again|with (reports|doctor)))?$/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, fifteen: 15,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+type TimeUnit = "day" | "week" | "month" | "year";
+
+interface TimeExpression {
+  start: number;
+  end: number;
+  dueDate: Date;
+}
+
+// "after 2 weeks", "in 3 months", "within 10 days", "after 2-3 weeks" (the earlier bound is used)
+const RELATIVE_PATTERN =
+  /\b(?:after|in|within)\s+(\d{1,3}|a|an|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fifteen)(?:\s*(?:-|to)\s*\d{1,3})?\s*(days?|weeks?|wks?|months?|mths?|years?|yrs?)\b/gi;
+
+// "next week", "next month"
+const NEXT_PATTERN = /\bnext\s+(week|month|year)\b/gi;
+
+// "on 12/05/2025", "by 12-05-25" (day first), "2025-05-12"
+const NUMERIC_DATE_PATTERN = /\b(?:(?:on|by|before)\s+)?(?:(\d{4})-(\d{1,2})-(\d{1,2})|(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2,4}))\b/gi;
+
+// "on 12 Jan 2025", "12th January, 2025", "Jan 12, 2025"
+const NAMED_DATE_PATTERN =
+  /\b(?:(?:on|by|before)\s+)?(?:(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3,9})\.?,?\s+(\d{4})|([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4}))\b/gi;
+
+function toUnit(text: string): TimeUnit {
+  const unit = text.toLowerCase();
+  if (unit.startsWith("d")) return "day";
+  if (unit.startsWith("w")) return "week";
+  if (unit.startsWith("m")) return "month";
+  return "year";
+}
+
+function atTaskHour(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(TASK_HOUR, 0, 0, 0);
+  return result;
+}
+
+function addToDate(date: Date, amount: number, unit: TimeUnit): Date {
+  const result = new Date(date);
+  switch (unit) {
+    case "day":
+      result.setDate(result.getDate() + amount);
+      break;
+    case "week":
+      result.setDate(result.getDate() + amount * 7);
+      break;
+    case "month":
+      result.setMonth(result.getMonth() + amount);
+      break;
+    case "year":
+      result.setFullYear(result.getFullYear() + amount);
+      break;
+  }
+  return atTaskHour(result);
+}
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(fullYear, month, day, TASK_HOUR, 0, 0, 0);
+  // Reject rollovers such as 31/02
+  if (date.getMonth() !== month || date.getDate() !== day) return null;
+  return date;
+}
+
+/**
+ * Find every time expression in a sentence, in order
+ * Relative times count from the document date
+ */
+function findTimeExpressions(sentence: string, referenceDate: Date): TimeExpression[] {
+  const found: TimeExpression[] = [];
+
+  for (const match of Array.from(sentence.matchAll(RELATIVE_PATTERN))) {
+    const amountText = match[1].toLowerCase();
+    const amount = NUMBER_WORDS[amountText] ?? parseInt(amountText, 10);
+    if (!amount) continue;
+    found.push({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      dueDate: addToDate(referenceDate, amount, toUnit(match[2])),
+    });
+  }
+
+  for (const match of Array.from(sentence.matchAll(NEXT_PATTERN))) {
+    found.push({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      dueDate: addToDate(referenceDate, 1, toUnit(match[1])),
+    });
+  }
+
+  for (const match of Array.from(sentence.matchAll(NUMERIC_DATE_PATTERN))) {
+    const date = match[1]
+      ? buildDate(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10))
+      : buildDate(parseInt(match[6], 10), parseInt(match[5], 10) - 1, parseInt(match[4], 10));
+    if (date) found.push({ start: match.index!, end: match.index! + match[0].length, dueDate: date });
+  }
+
+  for (const match of Array.from(sentence.matchAll(NAMED_DATE_PATTERN))) {
+    const [day, monthName, year] = match[1] ? [match[1], match[2], match[3]] : [match[5], match[4], match[6]];
+    const month = MONTHS[monthName.slice(0, 3).toLowerCase()];
+    if (month === undefined) continue;
+    const date = buildDate(parseInt(year, 10), month, parseInt(day, 10));
+    if (date) found.push({ start: match.index!, end: match.index! + match[0].length, dueDate: date });
+  }
+
+  // Drop expressions nested in an earlier one (e.g. the numeric part of a named date)
+  return found
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .filter((expression, index, all) => index === 0 || expression.start >= all[index - 1].end);
+}
+
+/**
+ * Turn the words around a time expression into a short task title
+ * "Repeat lipid profile" stays as is; a bare "Review" becomes "Follow-up visit"
+ */
+function buildTitle(text: string): string | null {
+  let title = text
+    .replace(/\s+/g, " ")
+    .replace(/^[\s\-*•>:,;.)(\d]+/, "")
+    .replace(/^(and|then|also|advice|advised|plan|to|please)\b[\s:,-]*/i, "")
+    .replace(/^(and|then|also|to|please)\b[\s:,-]*/i, "")
+    .replace(/[\s,;:.\-]+$/, "")
+    .replace(/\s+(with|on|by|after|in|within|and|for|at)$/i, "")
+    .trim();
+
+  if (!FOLLOW_UP_PATTERN.test(title)) return null;
+  if (BARE_FOLLOW_UP_PATTERN.test(title)) title = "Follow-up visit";
+  if (title.length > MAX_TITLE_LENGTH) title = `${title.slice(0, MAX_TITLE_LENGTH - 1).trim()}…`;
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+/**
+ * Find follow-up instructions in a document's text with regular expressions (English only)
+ * @param text - OCR text or insight summary
+ * @param referenceDate - Date relative times count from (the document date)
+ */
+export function extractFollowUpInstructions(text: string, referenceDate: Date): FollowUpInstruction[] {
+  const instructions: FollowUpInstruction[] = [];
+  // Split into sentences, keeping dates such as 12.05.2025 intact
+  const sentences = text.split(/\n+|(?<=[.;!?])\s+/).map((s) => s.trim()).filter(Boolean);
+
+  for (const sentence of sentences) {
+    if (!FOLLOW_UP_PATTERN.test(sentence)) continue;
+
+    const expressions = findTimeExpressions(sentence, referenceDate);
+    expressions.forEach((expression, index) => {
+      // The action usually precedes the time ("repeat CBC after 1 month"), sometimes follows it
+      const before = sentence.slice(index > 0 ? expressions[index - 1].end : 0, expression.start);
+      const after = sentence.slice(expression.end, index < expressions.length - 1 ? expressions[index + 1].start : undefined);
+      const title = buildTitle(before) ?? buildTitle(after);
+      if (!title) return;
+
+      instructions.push({
+        title,
+        dueDate: expression.dueDate,
+        sourceText: sentence.length > 500 ? sentence.slice(0, 500) : sentence,
+      });
+    });
+  }
+
+  return instructions;
+}
+
+/**
+ * Turn instructions read by the model into due dates
+ * Relative times count from the document date; instructions without a usable time are dropped.
+ * @param followUps - Instructions from AIService.extractFollowUpInstructions
+ * @param referenceDate - Date relative times count from (the document date)
+ */
+export function resolveFollowUps(followUps: ExtractedFollowUp[], referenceDate: Date): FollowUpInstruction[] {
+  const instructions: FollowUpInstruction[] = [];
+
+  for (const followUp of followUps) {
+    let dueDate: Date | null = null;
+    const isoDate = followUp.date?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (isoDate) {
+      dueDate = buildDate(parseInt(isoDate[1], 10), parseInt(isoDate[2], 10) - 1, parseInt(isoDate[3], 10));
+    } else if (followUp.amount && followUp.amount > 0 && followUp.unit) {
+      dueDate = addToDate(referenceDate, Math.round(followUp.amount), toUnit(followUp.unit));
+    }
+
+    const title = followUp.title.replace(/\s+/g, " ").trim();
+    const sourceText = followUp.sourceText.replace(/\s+/g, " ").trim();
+    if (!dueDate || !title || !sourceText) continue;
+
+    instructions.push({
+      title: title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trim()}…` : title,
+      dueDate,
+      sourceText: sourceText.slice(0, 500),
+    });
+  }
+
+  return instructions;
+}
+
+/**
+ * Default reminder time for a due date: the morning of the day before, or now if that has passed
+ */
+export function getDefaultRemindAt(dueDate: Date | null): Date | null {
+  if (!dueDate) return null;
+  const dayBefore = new Date(dueDate);
+  dayBefore.setDate(dayBefore.getDate() - 1);
+  const remindAt = atTaskHour(dayBefore);
+  const now = new Date();
+  return remindAt > now ? remindAt : now;
+}
+
+function normalizeSourceText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Create tasks from the follow-up instructions in a processed document
+ * The model reads the OCR text; without one, the OCR text and the generated insight summary
+ * are searched with regular expressions. Instructions already turned into
+ * tasks (including dismissed ones) are not added again when a document is reprocessed.
+ * Never throws - task extraction failures must not fail document processing.
+ */
+export async function createTasksFromDocument(document: Document): Promise<HealthTask[]> {
+  const created: HealthTask[] = [];
+
+  try {
+    let summary: string | null = null;
+    if (document.aiInsight) {
+      try {
+        const insight = JSON.parse(document.aiInsight);
+        if (typeof insight.summary === "string") summary = insight.summary;
+      } catch {
+        // Ignore malformed insights
+      }
+    }
+    if (!document.extractedText && !summary) return created;
+
+    const referenceDate = document.date ?? document.createdAt;
+    const staleBefore = new Date(Date.now() - STALE_AFTER_DAYS * 24 * 60 * 60 * 1000);
+    const fromModel = document.extractedText
+      ? await AIService.extractFollowUpInstructions(document.extractedText)
+      : null;
+
+    let instructions: FollowUpInstruction[];
+    if (fromModel) {
+      instructions = resolveFollowUps(fromModel, referenceDate);
+    } else {
+      const fromText = document.extractedText ? extractFollowUpInstructions(document.extractedText, referenceDate) : [];
+      // The summary usually restates instructions from the text - only keep ones with a new due date
+      const fromSummary = summary
+        ? extractFollowUpInstructions(summary, referenceDate).filter(
+            (instruction) => !fromText.some((other) => other.dueDate.getTime() === instruction.dueDate.getTime())
+          )
+        : [];
+      instructions = fromText.concat(fromSummary);
+    }
+
+    const existing = await storage.getHealthTasks(document.userId, { documentId: document.id });
+    const seen = new Set(existing.map((task) => `${normalizeSourceText(task.sourceText ?? "")}|${task.dueDate?.getTime()}`));
+
+    for (const instruction of instructions) {
+      const key = `${normalizeSourceText(instruction.sourceText)}|${instruction.dueDate.getTime()}`;
+      if (seen.has(key) || instruction.dueDate < staleBefore) continue;
+      seen.add(key);
+
+      const task = await storage.createHealthTask({
+        userId: document.userId,
+        title: instruction.title,
+        dueDate: instruction.dueDate,
+        remindAt: getDefaultRemindAt(instruction.dueDate),
+        status: "pending",
+        source: "document",
+        sourceDocumentId: document.id,
+        sourceText: instruction.sourceText,
+      });
+      created.push(task);
+    }
+
+    if (created.length > 0) {
+      console.log(`[Tasks] Created ${created.length} task(s) from document ${document.id}`);
+    }
+  } catch (error: any) {
+    console.error(`[Tasks] Task extraction failed for document ${document.id}:`, error.message);
+  }
+
+  return created;
+}
+
+async function assertOwnedDocument(userId: string, documentId: string): Promise<void> {
+  const document = await storage.getDocument(documentId);
+  if (!document || document.deletedAt || document.userId !== userId) {
+    throw new HealthTaskError("Source document not found");
+  }
+}
+
+/**
+ * Create a task the user added themselves
+ */
+export async function createHealthTask(userId: string, input: HealthTaskInput): Promise<HealthTask> {
+  if (input.sourceDocumentId) {
+    await assertOwnedDocument(userId, input.sourceDocumentId);
+  }
+
+  const dueDate = input.dueDate ? new Date(input.dueDate) : null;
+  return storage.createHealthTask({
+    userId,
+    title: input.title!.trim(),
+    notes: input.notes?.trim() || null,
+    dueDate,
+    remindAt: input.remindAt !== undefined ? (input.remindAt ? new Date(input.remindAt) : null) : getDefaultRemindAt(dueDate),
+    status: "pending",
+    source: "manual",
+    sourceDocumentId: input.sourceDocumentId ?? null,
+  });
+}
+
+/**
+ * Update a task
+ * Moving the due date without a new reminder time moves the reminder with it, and any
+ * change to the reminder makes it fire again. Completing a task records when.
+ */
+export async function updateHealthTask(task: HealthTask, input: HealthTaskInput): Promise<HealthTask> {
+  if (input.sourceDocumentId) {
+    await assertOwnedDocument(task.userId, input.sourceDocumentId);
+  }
+
+  const update: Partial<InsertHealthTask> = {};
+  if (input.title !== undefined) update.title = input.title.trim();
+  if (input.notes !== undefined) update.notes = input.notes?.trim() || null;
+  if (input.sourceDocumentId !== undefined) update.sourceDocumentId = input.sourceDocumentId;
+
+  if (input.dueDate !== undefined) {
+    update.dueDate = input.dueDate ? new Date(input.dueDate) : null;
+    if (input.remindAt === undefined) {
+      update.remindAt = getDefaultRemindAt(update.dueDate);
+      update.reminderSentAt = null;
+    }
+  }
+  if (input.remindAt !== undefined) {
+    update.remindAt = input.remindAt ? new Date(input.remindAt) : null;
+    update.reminderSentAt = null;
+  }
+
+  if (input.status !== undefined && input.status !== task.status) {
+    update.status = input.status;
+    update.completedAt = input.status === "completed" ? new Date() : null;
+  }
+
+  return storage.updateHealthTask(task.id, update);
+}
+
+/**
+ * Tasks as returned by the API, with the title of their source document
+ */
+export async function serializeHealthTasks(tasks: HealthTask[]) {
+  const titles = new Map<string, string | null>();
+  for (const task of tasks) {
+    if (task.sourceDocumentId && !titles.has(task.sourceDocumentId)) {
+      const document = await storage.getDocument(task.sourceDocumentId);
+      titles.set(task.sourceDocumentId, document && !document.deletedAt ? document.title : null);
+    }
+  }
+
+  return tasks.map((task) => ({
+    ...task,
+    sourceDocumentTitle: task.sourceDocumentId ? titles.get(task.sourceDocumentId) ?? null : null,
+  }));
+}
@@ -0,0 +1,130 @@
+/**
+ * Inbound Email Server
+ * Local SMTP listener that receives mail for users' private inbound addresses
+ *
+ * Recipients are checked while the message is being sent, so mail for unknown or rotated
+ * addresses is refused by the SMTP session rather than bounced later. Accepted messages are
+ * parsed and handed to the email ingestion service.
+ */
+
+import { SMTPServer, type SMTPServerAddress, type SMTPServerDataStream, type SMTPServerSession } from "smtp-server";
+import { simpleParser } from "mailparser";
+import { storage } from "../storage";
+import { config } from "../config";
+import { EmailIngestionError, ingestMessage, parseInboundAddress, resumeQueuedImports } from "./emailIngestionService";
+
+// SMTP errors carry the reply code sent to the client
+function smtpError(message: string, responseCode: number): Error {
+  return Object.assign(new Error(message), { responseCode });
+}
+
+export class InboundEmailServer {
+  private server: SMTPServer | null = null;
+
+  /**
+   * Start listening for mail
+   * Imports interrupted by a restart are resumed first.
+   * @param port - Port to listen on (defaults to config.inboundEmail.port; 0 picks a free port)
+   * @returns The port the server is listening on
+   */
+  async start(port: number = config.inboundEmail.port): Promise<number> {
+    if (this.server) {
+      console.warn("[Inbound Email] Already running");
+      return port;
+    }
+
+    console.log("[Inbound Email] Starting...");
+
+    resumeQueuedImports()
+      .then((count) => {
+        if (count > 0) {
+          console.log(`[Inbound Email] Resumed ${count} interrupted import(s)`);
+        }
+      })
+      .catch((error) => {
+        console.error("[Inbound Email] Failed to resume interrupted imports:", error);
+      });
+
+    const server = new SMTPServer({
+      name: config.inboundEmail.domain,
+      banner: "Arogya Vault inbound mail",
+      size: config.inboundEmail.maxMessageSize,
+      authOptional: true,
+      disabledCommands: ["AUTH", "STARTTLS"],
+      onRcptTo: (address, session, callback) => {
+        this.checkRecipient(address)
+          .then(() => callback())
+          .catch((error) => callback(error));
+      },
+      onData: (stream, session, callback) => {
+        this.receiveMessage(stream, session)
+          .then(() => callback())
+          .catch((error) => callback(error));
+      },
+    });
+    server.on("error", (error) => {
+      console.error("[Inbound Email] Server error:", error.message);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.server.once("error", reject);
+      server.listen(port, config.inboundEmail.host, () => {
+        server.server.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    const address = server.server.address();
+    const listeningPort = typeof address === "object" && address ? address.port : port;
+    console.log(`[Inbound Email] Listening on port ${listeningPort} for *@${config.inboundEmail.domain}`);
+    return listeningPort;
+  }
+
+  /**
+   * Stop listening for mail
+   */
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    console.log("[Inbound Email] Stopped");
+  }
+
+  private async checkRecipient(address: SMTPServerAddress): Promise<void> {
+    const token = parseInboundAddress(address.address);
+    if (!token || !(await storage.getInboundEmailAddressByToken(token))) {
+      throw smtpError(`No such mailbox: ${address.address}`, 550);
+    }
+  }
+
+  private async receiveMessage(stream: SMTPServerDataStream, session: SMTPServerSession): Promise<void> {
+    const mail = await simpleParser(stream);
+    if (stream.sizeExceeded) {
+      throw smtpError("Message exceeds the maximum allowed size", 552);
+    }
+
+    // One message can be addressed to several users (e.g. a family sharing a lab account)
+    for (const recipient of session.envelope.rcptTo) {
+      const token = parseInboundAddress(recipient.address);
+      const address = token ? await storage.getInboundEmailAddressByToken(token) : undefined;
+      if (!address) continue;
+
+      try {
+        await ingestMessage(address, mail);
+      } catch (error: any) {
+        if (error instanceof EmailIngestionError) {
+          throw smtpError(error.message, 550);
+        }
+        // Temporary failure - the sending server retries, and redelivered attachments are not duplicated
+        console.error(`[Inbound Email] Failed to ingest message for user ${address.userId}:`, error.message);
+        throw smtpError("Message could not be processed, try again later", 451);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const inboundEmailServer = new InboundEmailServer();
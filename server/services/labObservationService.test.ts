@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { computeAbnormalFlag, parseNumericValue, parseReferenceRange } from "./labObservationService";
+
+describe("parseNumericValue", () => {
+  it("reads plain and qualified results", () => {
+    assert.equal(parseNumericValue("13.2"), 13.2);
+    assert.equal(parseNumericValue("<0.5"), 0.5);
+    assert.equal(parseNumericValue(">= 40"), 40);
+    assert.equal(parseNumericValue("Negative"), null);
+  });
+
+  it("strips Western and Indian grouping separators", () => {
+    assert.equal(parseNumericValue("1,250"), 1250);
+    assert.equal(parseNumericValue("7,500"), 7500);
+    assert.equal(parseNumericValue("2,50,000"), 250000);
+    assert.equal(parseNumericValue("1,20,00,000"), 12000000);
+    assert.equal(parseNumericValue("1,000,000"), 1000000);
+  });
+
+  it("keeps a decimal comma", () => {
+    assert.equal(parseNumericValue("13,2"), 13.2);
+  });
+});
+
+describe("parseReferenceRange", () => {
+  it("reads two-sided and one-sided ranges", () => {
+    assert.deepEqual(parseReferenceRange("13.0 - 17.0"), { low: 13, high: 17 });
+    assert.deepEqual(parseReferenceRange("< 200"), { low: null, high: 200 });
+    assert.deepEqual(parseReferenceRange(">= 40"), { low: 40, high: null });
+    assert.deepEqual(parseReferenceRange("Up to 5.6"), { low: null, high: 5.6 });
+    assert.deepEqual(parseReferenceRange(null), { low: null, high: null });
+  });
+
+  it("strips grouping separators in the bounds", () => {
+    assert.deepEqual(parseReferenceRange("4,000 - 11,000"), { low: 4000, high: 11000 });
+    assert.deepEqual(parseReferenceRange("1,50,000 - 4,10,000"), { low: 150000, high: 410000 });
+    assert.deepEqual(parseReferenceRange("4,000-11,000"), { low: 4000, high: 11000 });
+  });
+});
+
+describe("computeAbnormalFlag", () => {
+  it("flags grouped counts against grouped ranges correctly", () => {
+    const wbc = parseReferenceRange("4,000 - 11,000");
+    assert.equal(computeAbnormalFlag(parseNumericValue("7,500"), wbc.low, wbc.high), "normal");
+
+    const platelets = parseReferenceRange("1,50,000 - 4,10,000");
+    assert.equal(computeAbnormalFlag(parseNumericValue("2,50,000"), platelets.low, platelets.high), "normal");
+    assert.equal(computeAbnormalFlag(parseNumericValue("90,000"), platelets.low, platelets.high), "low");
+  });
+
+  it("prefers a reported flag", () => {
+    assert.equal(computeAbnormalFlag(5, 1, 10, "high"), "high");
+    assert.equal(computeAbnormalFlag(null, 1, 10), null);
+  });
+
+  it("ignores an unknown reported flag", () => {
+    assert.equal(computeAbnormalFlag(5, 1, 10, "H*"), "normal");
+  });
+});
@@ -0,0 +1,384 @@
+/**
+ * Lab Observation Service
+ * Turns lab reports into structured observation rows (analyte, value, unit, reference range, flag)
+ */
+
+import { type Document, type LabObservation } from "@shared/schema";
+import { storage } from "../storage";
+import { AIService } from "./aiService";
+import {
+  convertToCanonicalUnit,
+  findAnalyte,
+  getAnalyteByCode,
+  normalizeAnalyteName,
+  normalizeUnitKey,
+} from "./analyteDictionary";
+
+export type AbnormalFlag = "normal" | "low" | "high" | "abnormal";
+
+const ABNORMAL_FLAGS: AbnormalFlag[] = ["normal", "low", "high", "abnormal"];
+
+export function isAbnormalFlag(value: string | null | undefined): value is AbnormalFlag {
+  return !!value && (ABNORMAL_FLAGS as string[]).includes(value);
+}
+
+// Editable fields of an observation, as sent by the client or the extractor
+export interface ObservationInput {
+  analyte: string;
+  value: string;
+  unit?: string | null;
+  referenceRange?: string | null;
+  abnormalFlag?: AbnormalFlag | null;
+  specimenDate?: Date | null;
+}
+
+const NUMBER_PATTERN = /[-+]?\d+(?:[.,]\d+)?/g;
+
+// Digit grouping, Western ("11,000", "1,000,000") or Indian lakh/crore ("2,50,000", "1,20,00,000")
+const GROUPED_NUMBER_PATTERN = /(?<![\d.,])\d{1,3}(?:,\d{2})*(?:,\d{3})+(?![\d,])/g;
+
+function toNumber(text: string): number {
+  return parseFloat(text.replace(",", "."));
+}
+
+/**
+ * Remove grouping separators so "4,000 - 11,000" reads as 4000 - 11000
+ * A remaining comma between digits is a decimal comma ("13,2").
+ */
+function stripGroupingSeparators(text: string): string {
+  return text.replace(GROUPED_NUMBER_PATTERN, (grouped) => grouped.replace(/,/g, ""));
+}
+
+/**
+ * Parse the numeric part of a printed result
+ * "13.2" -> 13.2, "<0.5" -> 0.5, "1,250" -> 1250, "2,50,000" -> 250000, "Negative" -> null
+ */
+export function parseNumericValue(value: string): number | null {
+  const cleaned = stripGroupingSeparators(value.trim());
+  const match = cleaned.match(/^[<>≤≥=~]*\s*([-+]?\d+(?:[.,]\d+)?)/);
+  return match ? toNumber(match[1]) : null;
+}
+
+/**
+ * Parse a printed reference range into bounds
+ * "13.0 - 17.0" -> {13, 17}, "4,000 - 11,000" -> {4000, 11000}, "< 200" -> {null, 200}, ">= 40" -> {40, null}
+ */
+export function parseReferenceRange(range: string | null | undefined): {
+  low: number | null;
+  high: number | null;
+} {
+  if (!range) return { low: null, high: null };
+  const text = stripGroupingSeparators(range.trim());
+  const numbers = (text.match(NUMBER_PATTERN) || []).map(toNumber);
+
+  if (/^(<|≤|upto|up to|less than|below)/i.test(text) && numbers.length >= 1) {
+    return { low: null, high: numbers[0] };
+  }
+  if (/^(>|≥|more than|greater than|above)/i.test(text) && numbers.length >= 1) {
+    return { low: numbers[0], high: null };
+  }
+  // "13.0 - 17.0" - the dash of the range is read as a minus sign on the second number
+  if (numbers.length >= 2) {
+    return { low: numbers[0], high: Math.abs(numbers[1]) };
+  }
+  return { low: null, high: null };
+}
+
+/**
+ * Work out the abnormal flag for a result
+ * A flag printed on the report (or set by the user) wins; otherwise it is derived
+ * from the value and the reference range.
+ */
+export function computeAbnormalFlag(
+  numericValue: number | null,
+  referenceLow: number | null,
+  referenceHigh: number | null,
+  reportedFlag?: string | null
+): AbnormalFlag | null {
+  if (isAbnormalFlag(reportedFlag)) {
+    return reportedFlag;
+  }
+  if (numericValue === null || (referenceLow === null && referenceHigh === null)) {
+    return null;
+  }
+  if (referenceLow !== null && numericValue < referenceLow) return "low";
+  if (referenceHigh !== null && numericValue > referenceHigh) return "high";
+  return "normal";
+}
+
+/**
+ * Map a result onto the analyte dictionary's canonical analyte and unit
+ * The value and range bounds are only converted when the printed unit is known -
+ * a guessed unit would put the value on the wrong scale.
+ */
+export function normalizeObservation(
+  analyte: string,
+  numericValue: number | null,
+  unit: string | null,
+  referenceLow: number | null,
+  referenceHigh: number | null
+) {
+  const definition = findAnalyte(analyte);
+  if (!definition) {
+    return {
+      analyteCode: null,
+      normalizedValue: null,
+      normalizedUnit: null,
+      normalizedReferenceLow: null,
+      normalizedReferenceHigh: null,
+    };
+  }
+
+  const convert = (value: number | null) =>
+    value === null ? null : convertToCanonicalUnit(definition, value, unit);
+  const normalizedValue = convert(numericValue);
+  const convertible = !!unit && convertToCanonicalUnit(definition, 1, unit) !== null;
+
+  return {
+    analyteCode: definition.code,
+    normalizedValue,
+    normalizedUnit: convertible ? definition.unit : null,
+    normalizedReferenceLow: convert(referenceLow),
+    normalizedReferenceHigh: convert(referenceHigh),
+  };
+}
+
+/**
+ * Derive the parsed columns (numeric value, range bounds, flag, canonical analyte and unit)
+ * from the printed ones
+ */
+export function buildObservationFields(input: ObservationInput) {
+  const analyte = input.analyte.trim();
+  const numericValue = parseNumericValue(input.value);
+  const unit = input.unit?.trim() || null;
+  const { low, high } = parseReferenceRange(input.referenceRange);
+  return {
+    analyte,
+    value: input.value.trim(),
+    numericValue,
+    unit,
+    referenceRange: input.referenceRange?.trim() || null,
+    referenceLow: low,
+    referenceHigh: high,
+    ...normalizeObservation(analyte, numericValue, unit, low, high),
+    abnormalFlag: computeAbnormalFlag(numericValue, low, high, input.abnormalFlag),
+    specimenDate: input.specimenDate ?? null,
+  };
+}
+
+function parseSpecimenDate(value: string | null | undefined, fallback: Date | null): Date | null {
+  if (!value) return fallback;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? fallback : date;
+}
+
+/**
+ * Extract observations from a lab report's text, replacing earlier AI-extracted rows
+ * Rows the user added or edited (source 'manual') are kept. Never throws -
+ * observation extraction failures must not fail document processing.
+ * @returns Number of observations created
+ */
+export async function extractObservationsFromDocument(
+  document: Document,
+  extractedText: string
+): Promise<number> {
+  if (document.type !== "lab" || !extractedText || extractedText.trim().length === 0) {
+    return 0;
+  }
+
+  try {
+    const extracted = await AIService.extractLabObservations(extractedText);
+
+    await storage.deleteLabObservationsByDocumentId(document.id, "ai");
+
+    for (let position = 0; position < extracted.length; position++) {
+      const observation = extracted[position];
+      await storage.createLabObservation({
+        userId: document.userId,
+        documentId: document.id,
+        ...buildObservationFields({
+          analyte: observation.analyte,
+          value: observation.value,
+          unit: observation.unit,
+          referenceRange: observation.referenceRange,
+          abnormalFlag: observation.flag ?? null,
+          specimenDate: parseSpecimenDate(observation.specimenDate, document.date),
+        }),
+        position,
+        source: "ai",
+      });
+    }
+
+    console.log(`[Lab Observations] Extracted ${extracted.length} observation(s) from document ${document.id}`);
+    return extracted.length;
+  } catch (error: any) {
+    console.error(`[Lab Observations] Extraction failed for document ${document.id}:`, error.message);
+    return 0;
+  }
+}
+
+/**
+ * Shape an observation for API responses
+ */
+export function serializeObservation(observation: LabObservation) {
+  return {
+    id: observation.id,
+    documentId: observation.documentId,
+    analyte: observation.analyte,
+    value: observation.value,
+    numericValue: observation.numericValue,
+    unit: observation.unit,
+    referenceRange: observation.referenceRange,
+    referenceLow: observation.referenceLow,
+    referenceHigh: observation.referenceHigh,
+    analyteCode: observation.analyteCode,
+    canonicalAnalyte: observation.analyteCode
+      ? getAnalyteByCode(observation.analyteCode)?.name ?? null
+      : null,
+    normalizedValue: observation.normalizedValue,
+    normalizedUnit: observation.normalizedUnit,
+    normalizedReferenceLow: observation.normalizedReferenceLow,
+    normalizedReferenceHigh: observation.normalizedReferenceHigh,
+    abnormalFlag: observation.abnormalFlag,
+    specimenDate: observation.specimenDate,
+    position: observation.position,
+    source: observation.source,
+    updatedAt: observation.updatedAt,
+  };
+}
+
+export interface TrendPoint {
+  observationId: string;
+  documentId: string;
+  documentTitle: string;
+  date: Date;
+  value: string; // As printed on the report
+  unit: string | null; // As printed on the report
+  numericValue: number; // In the series unit
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  abnormalFlag: AbnormalFlag | null;
+  outOfRange: boolean;
+}
+
+export interface TrendSeries {
+  key: string;
+  analyteCode: string | null;
+  analyte: string;
+  unit: string | null;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  points: TrendPoint[];
+  latest: TrendPoint;
+  change: number | null; // latest minus the previous reading
+  direction: "up" | "down" | "flat" | null;
+  outOfRangeCount: number;
+}
+
+/**
+ * Build per-analyte time series across all of a user's lab reports
+ * Results are grouped by dictionary analyte and plotted in its canonical unit, so
+ * "S. Creatinine" in µmol/L and "Creatinine, Serum" in mg/dL share one series.
+ * Unrecognised tests or units fall back to the printed name and unit - readings in
+ * different units are never drawn on the same axis. Only numeric results are plotted
+ * and trashed documents are left out.
+ * @param analyte - Optional analyte name or code to return a single series
+ */
+export async function buildLabTrends(userId: string, analyte?: string): Promise<TrendSeries[]> {
+  const documents = new Map(
+    (await storage.getDocumentsByUserId(userId, { type: "lab" })).map((document) => [document.id, document])
+  );
+  const observations = await storage.getLabObservationsByUserId(userId);
+  const analyteFilter = analyte
+    ? { code: getAnalyteByCode(analyte)?.code ?? findAnalyte(analyte)?.code, name: normalizeAnalyteName(analyte) }
+    : null;
+
+  const groups = new Map<string, Array<{ observation: LabObservation; point: TrendPoint }>>();
+  for (const observation of observations) {
+    const document = documents.get(observation.documentId);
+    if (!document || observation.numericValue === null) continue;
+
+    // Rows saved before the analyte dictionary existed are normalized on the fly
+    const normalized = observation.analyteCode
+      ? observation
+      : normalizeObservation(
+          observation.analyte,
+          observation.numericValue,
+          observation.unit,
+          observation.referenceLow,
+          observation.referenceHigh
+        );
+    const nameKey = normalizeAnalyteName(observation.analyte);
+    if (
+      analyteFilter &&
+      !(analyteFilter.code ? normalized.analyteCode === analyteFilter.code : nameKey === analyteFilter.name)
+    ) {
+      continue;
+    }
+
+    const converted = normalized.normalizedValue !== null;
+    const key = converted
+      ? normalized.analyteCode!
+      : `${normalized.analyteCode ?? nameKey}|${observation.unit ? normalizeUnitKey(observation.unit) : ""}`;
+    const flag = (observation.abnormalFlag as AbnormalFlag | null) ?? null;
+    const entry = {
+      observation,
+      point: {
+        observationId: observation.id,
+        documentId: document.id,
+        documentTitle: document.title,
+        date: observation.specimenDate ?? document.date ?? document.createdAt,
+        value: observation.value,
+        unit: observation.unit,
+        numericValue: converted ? normalized.normalizedValue! : observation.numericValue,
+        referenceLow: converted ? normalized.normalizedReferenceLow : observation.referenceLow,
+        referenceHigh: converted ? normalized.normalizedReferenceHigh : observation.referenceHigh,
+        abnormalFlag: flag,
+        outOfRange: flag !== null && flag !== "normal",
+      },
+    };
+
+    const group = groups.get(key);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(key, [entry]);
+    }
+  }
+
+  const series: TrendSeries[] = [];
+  groups.forEach((entries, key) => {
+    entries.sort((a, b) => a.point.date.getTime() - b.point.date.getTime());
+    const points = entries.map((entry) => entry.point);
+    const latest = points[points.length - 1];
+    const previous = points.length > 1 ? points[points.length - 2] : null;
+    // Rounded so floating point noise (7.1 - 7.9 = -0.7999...) doesn't reach the client
+    const change = previous
+      ? Math.round((latest.numericValue - previous.numericValue) * 1000) / 1000
+      : null;
+
+    const latestObservation = entries[entries.length - 1].observation;
+    const definition = findAnalyte(latestObservation.analyte);
+    const converted = !key.includes("|");
+
+    // The reference band comes from the latest report - labs print slightly different ranges
+    series.push({
+      key,
+      analyteCode: definition?.code ?? null,
+      analyte: definition?.name ?? latestObservation.analyte,
+      unit: converted && definition ? definition.unit : latestObservation.unit,
+      referenceLow: latest.referenceLow,
+      referenceHigh: latest.referenceHigh,
+      points,
+      latest,
+      change,
+      direction: change === null ? null : change > 0 ? "up" : change < 0 ? "down" : "flat",
+      outOfRangeCount: points.filter((point) => point.outOfRange).length,
+    });
+  });
+
+  // Analytes measured most often first - those are the ones with a trend to show
+  return series.sort(
+    (a, b) => b.points.length - a.points.length || a.analyte.localeCompare(b.analyte)
+  );
+}
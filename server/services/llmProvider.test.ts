@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MockLLMProvider, parseJsonResponse } from "./llmProvider";
+
+describe("parseJsonResponse", () => {
+  it("parses plain JSON", () => {
+    assert.deepEqual(parseJsonResponse('{"isMedical": true}'), { isMedical: true });
+    assert.deepEqual(parseJsonResponse("  [1, 2]\n"), [1, 2]);
+  });
+
+  it("treats an empty answer as an empty object", () => {
+    assert.deepEqual(parseJsonResponse(""), {});
+    assert.deepEqual(parseJsonResponse("   "), {});
+  });
+
+  it("unwraps a Markdown code fence", () => {
+    assert.deepEqual(parseJsonResponse('```json\n{"title": "CBC"}\n```'), { title: "CBC" });
+    assert.deepEqual(parseJsonResponse('```\n{"title": "CBC"}\n```'), { title: "CBC" });
+  });
+
+  it("finds JSON surrounded by prose", () => {
+    assert.deepEqual(
+      parseJsonResponse('Here is the extracted data:\n{"medications": [{"name": "Metformin"}]}\nLet me know if you need more.'),
+      { medications: [{ name: "Metformin" }] }
+    );
+  });
+
+  it("throws when there is no JSON", () => {
+    assert.throws(() => parseJsonResponse("I could not read this document."), /not JSON/);
+    assert.throws(() => parseJsonResponse("{not: valid}"));
+  });
+});
+
+describe("MockLLMProvider", () => {
+  const provider = new MockLLMProvider();
+
+  it("reads metadata from the document text", async () => {
+    const metadata = await provider.completeJson(
+      [{ role: "user", content: "Extract metadata from this document:\n\nApollo Diagnostics\nInvoice date 05/03/2025\nAmount due" }],
+      { task: "metadata" }
+    );
+    assert.deepEqual(metadata, {
+      title: "Apollo Diagnostics",
+      provider: null,
+      date: "2025-03-05",
+      documentType: "billing",
+      tags: ["mock"],
+    });
+  });
+
+  it("gives the same normalized embedding for the same text", async () => {
+    const first = await provider.embed("Haemoglobin 13.2 g/dL");
+    const second = await provider.embed("Haemoglobin 13.2 g/dL");
+    assert.deepEqual(first, second);
+    const norm = Math.sqrt(first.reduce((sum, value) => sum + value * value, 0));
+    assert.ok(Math.abs(norm - 1) < 1e-9);
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * LLM Provider
+ * Pluggable language model backend for the AI features - the OpenAI API, an OpenAI-compatible
+ * server on the user's own machine (Ollama, llama.cpp) or a deterministic mock, selected by AI_PROVIDER
+ *
+ * Providers only move text and images in and out of a model; the prompts and the handling of
+ * their answers live in AIService, so every provider gets the same behaviour.
+ */
+
+import { createHash } from "crypto";
+import OpenAI from "openai";
+import { type ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { config, type LLMProviderName } from "../config";
+
+export type LLMContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; data: Buffer; mimeType: string }; // PDFs too, for providers that accept them
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string | LLMContentPart[];
+}
+
+export interface LLMCompletionOptions {
+  tier?: "chat" | "fast"; // "chat" for conversation, "fast" (default) for extraction and summaries
+  maxTokens?: number;
+  temperature?: number;
+}
+
+// The structured answers AIService asks for - the mock provider answers each with a fixed shape
+export type LLMJsonTask =
+  | "metadata"
+  | "validation"
+  | "insight"
+  | "healthSummary"
+  | "medications"
+  | "labObservations"
+  | "billing"
+  | "followUps";
+
+export interface LLMJsonOptions extends LLMCompletionOptions {
+  task: LLMJsonTask;
+}
+
+/**
+ * A language model backend
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  isConfigured(): boolean;
+  supportsVision(): boolean; // Whether images can be sent (OCR, image validation)
+  supportsPdfInput(): boolean; // Whether whole PDFs can be sent as an image part; otherwise pages are rendered first
+  complete(messages: LLMMessage[], options?: LLMCompletionOptions): Promise<string>;
+  completeJson<T = any>(messages: LLMMessage[], options: LLMJsonOptions): Promise<T>;
+  extractText(image: Buffer, mimeType: string, prompt: string): Promise<string>; // Vision OCR
+  embed(text: string): Promise<number[]>;
+}
+
+/**
+ * Parse a model's JSON answer
+ * Local models often wrap JSON in a Markdown code fence or add a sentence around it.
+ */
+export function parseJsonResponse(content: string): any {
+  const trimmed = content.trim();
+  try {
+    return JSON.parse(trimmed || "{}");
+  } catch {
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    if (fenced) return JSON.parse(fenced[1]);
+
+    const start = trimmed.search(/[[{]/);
+    const end = Math.max(trimmed.lastIndexOf("}"), trimmed.lastIndexOf("]"));
+    if (start === -1 || end <= start) throw new Error("Model response is not JSON");
+    return JSON.parse(trimmed.slice(start, end + 1));
+  }
+}
+
+interface OpenAICompatibleModels {
+  chat: string;
+  fast: string;
+  vision: string; // Empty when the server has no vision model
+  embedding: string;
+}
+
+/**
+ * A model served over the OpenAI chat completions and embeddings API
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  private readonly client: OpenAI | null;
+
+  constructor(
+    readonly name: LLMProviderName,
+    clientOptions: { apiKey: string; baseURL?: string; timeout?: number } | null,
+    private readonly models: OpenAICompatibleModels,
+    private readonly pdfInput: boolean
+  ) {
+    this.client = clientOptions ? new OpenAI(clientOptions) : null;
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  supportsVision(): boolean {
+    return this.client !== null && this.models.vision !== "";
+  }
+
+  supportsPdfInput(): boolean {
+    return this.supportsVision() && this.pdfInput;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      throw new Error(`AI provider "${this.name}" is not configured`);
+    }
+    return this.client;
+  }
+
+  private toApiMessages(messages: LLMMessage[]): ChatCompletionMessageParam[] {
+    return messages.map((message) => {
+      if (typeof message.content === "string") {
+        return { role: message.role, content: message.content } as ChatCompletionMessageParam;
+      }
+      return {
+        role: "user",
+        content: message.content.map((part) =>
+          part.type === "text"
+            ? { type: "text" as const, text: part.text }
+            : {
+                type: "image_url" as const,
+                image_url: { url: `data:${part.mimeType};base64,${part.data.toString("base64")}` },
+              }
+        ),
+      };
+    });
+  }
+
+  private async createCompletion(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions,
+    json: boolean
+  ): Promise<string> {
+    const hasImages = messages.some(
+      (message) => Array.isArray(message.content) && message.content.some((part) => part.type === "image")
+    );
+    if (hasImages && !this.supportsVision()) {
+      throw new Error(`AI provider "${this.name}" has no vision model`);
+    }
+
+    const response = await this.getClient().chat.completions.create({
+      model: hasImages ? this.models.vision : this.models[options.tier ?? "fast"],
+      messages: this.toApiMessages(messages),
+      ...(json ? { response_format: { type: "json_object" as const } } : {}),
+      ...(options.maxTokens ? { max_tokens: options.maxTokens } : {}),
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+    });
+    return response.choices[0]?.message?.content || "";
+  }
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<string> {
+    return this.createCompletion(messages, options, false);
+  }
+
+  async completeJson<T = any>(messages: LLMMessage[], options: LLMJsonOptions): Promise<T> {
+    return parseJsonResponse(await this.createCompletion(messages, options, true)) as T;
+  }
+
+  async extractText(image: Buffer, mimeType: string, prompt: string): Promise<string> {
+    return this.createCompletion(
+      [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: prompt },
+            { type: "image", data: image, mimeType },
+          ],
+        },
+      ],
+      { maxTokens: 4000 },
+      false
+    );
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.getClient().embeddings.create({
+      model: this.models.embedding,
+      input: text,
+      encoding_format: "float", // The SDK's base64 default isn't supported by every local server
+    });
+    return response.data[0]?.embedding || [];
+  }
+}
+
+/**
+ * The OpenAI API (needs OPENAI_API_KEY)
+ */
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  constructor() {
+    const { apiKey, chatModel, fastModel, embeddingModel } = config.ai.openai;
+    super(
+      "openai",
+      apiKey ? { apiKey } : null,
+      { chat: chatModel, fast: fastModel, vision: chatModel, embedding: embeddingModel },
+      true
+    );
+  }
+}
+
+/**
+ * An OpenAI-compatible server run by the user or their clinic (Ollama, llama.cpp, vLLM, LM Studio)
+ * Medical text and images stay on that machine. Whole PDFs aren't accepted, so AIService
+ * reads their text layer and renders scanned pages for the vision model.
+ */
+export class LocalLLMProvider extends OpenAICompatibleProvider {
+  constructor() {
+    const { baseUrl, apiKey, chatModel, fastModel, visionModel, embeddingModel, timeoutMs } = config.ai.local;
+    super(
+      "local",
+      baseUrl ? { apiKey, baseURL: baseUrl, timeout: timeoutMs } : null,
+      { chat: chatModel, fast: fastModel, vision: visionModel, embedding: embeddingModel },
+      false
+    );
+  }
+}
+
+const MOCK_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Deterministic answers without any model - for development, demos and automated tests
+ * The same input always gives the same output; embeddings are hashed bags of words, so
+ * documents sharing words still come out as similar.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = "mock" as const;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  supportsVision(): boolean {
+    return true;
+  }
+
+  supportsPdfInput(): boolean {
+    return true;
+  }
+
+  /**
+   * The text of the last user message, without the instruction line in front of the document
+   */
+  private getInputText(messages: LLMMessage[]): string {
+    const message = messages.filter((m) => m.role === "user").pop();
+    if (!message) return "";
+    const text =
+      typeof message.content === "string"
+        ? message.content
+        : message.content.map((part) => (part.type === "text" ? part.text : "")).join("\n");
+    const documentStart = text.indexOf(":\n\n");
+    return documentStart === -1 ? text : text.slice(documentStart + 3);
+  }
+
+  async complete(messages: LLMMessage[]): Promise<string> {
+    const question = this.getInputText(messages).trim().substring(0, 200);
+    return `This is a mock response (AI_PROVIDER=mock). You asked: "${question}"`;
+  }
+
+  async completeJson<T = any>(messages: LLMMessage[], options: LLMJsonOptions): Promise<T> {
+    const text = this.getInputText(messages);
+
+    switch (options.task) {
+      case "metadata": {
+        const title = text.split("\n").map((line) => line.trim()).find(Boolean)?.substring(0, 60) ?? null;
+        const isoDate = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+        const indianDate = text.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})\b/);
+        const date = isoDate
+          ? isoDate[0]
+          : indianDate
+            ? `${indianDate[3]}-${indianDate[2].padStart(2, "0")}-${indianDate[1].padStart(2, "0")}`
+            : null;
+        const lower = text.toLowerCase();
+        const documentType = /invoice|bill|receipt|amount/.test(lower)
+          ? "billing"
+          : /x-ray|mri|ct scan|ultrasound|radiology/.test(lower)
+            ? "imaging"
+            : /rx|tablet|tab\.|capsule|prescription/.test(lower)
+              ? "prescription"
+              : "lab";
+        return { title, provider: null, date, documentType, tags: ["mock"] } as T;
+      }
+      case "validation":
+        return { isMedical: true, reason: "Mock provider accepts every document" } as T;
+      case "insight":
+        return {
+          status: "normal",
+          summary: `Mock insight for a document of ${text.length} characters.`,
+          hasFullAnalysis: false,
+        } as T;
+      case "healthSummary":
+        return {
+          status: "good",
+          message: `Mock health summary of ${text.split("\n\n---\n\n").length} document(s).`,
+        } as T;
+      case "medications":
+        return { medications: [] } as T;
+      case "labObservations":
+        return { observations: [] } as T;
+      case "billing":
+        // No amount, so the regex parser in the expense service takes over
+        return { totalAmount: null } as T;
+      case "followUps":
+        // No list, so the regex parser in the task service takes over
+        return { followUps: null } as T;
+      default:
+        return {} as T;
+    }
+  }
+
+  async extractText(image: Buffer, mimeType: string): Promise<string> {
+    const digest = createHash("sha256").update(image).digest("hex").substring(0, 12);
+    return `Mock OCR text for a ${mimeType} file of ${image.length} bytes (sha256 ${digest})`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+      vector[createHash("md5").update(word).digest().readUInt32BE(0) % MOCK_EMBEDDING_DIMENSIONS] += 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+}
+
+let configuredProvider: LLMProvider | null = null;
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "openai":
+      return new OpenAIProvider();
+    case "local":
+      return new LocalLLMProvider();
+    case "mock":
+      return new MockLLMProvider();
+    default:
+      throw new Error(`Unknown AI provider: ${name}`);
+  }
+}
+
+/**
+ * Get the configured LLM provider
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!configuredProvider) {
+    configuredProvider = createProvider(config.ai.provider);
+    if (configuredProvider.isConfigured()) {
+      console.log(`[LLM] Using ${configuredProvider.name} provider`);
+    } else {
+      console.warn(`[LLM] Warning: ${configuredProvider.name} provider is not configured, AI features are disabled`);
+    }
+  }
+  return configuredProvider;
+}
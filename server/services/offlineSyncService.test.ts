@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type Document } from "@shared/schema";
+import { mergeOfflineEdit } from "./offlineSyncService";
+
+// The app went offline with the document as it was at 10:00
+const baseUpdatedAt = new Date("2025-01-10T10:00:00.000Z");
+
+function serverDocument(fields: Partial<Document>): Document {
+  return {
+    id: "doc-1",
+    title: "CBC",
+    provider: "Apollo",
+    date: new Date("2025-01-05T00:00:00.000Z"),
+    tags: JSON.stringify(["blood"]),
+    updatedAt: new Date("2025-01-10T12:00:00.000Z"), // Changed on the server since
+    ...fields,
+  } as Document;
+}
+
+describe("mergeOfflineEdit", () => {
+  it("applies fields only the offline edit changed", () => {
+    const { edit, conflicts } = mergeOfflineEdit(
+      serverDocument({ title: "Complete Blood Count" }),
+      { provider: "Thyrocare" },
+      { provider: "Apollo" },
+      baseUpdatedAt,
+      new Date("2025-01-10T11:00:00.000Z")
+    );
+    assert.deepEqual(edit, { provider: "Thyrocare" });
+    assert.deepEqual(conflicts, []);
+  });
+
+  it("gives a field both sides changed to the later edit", () => {
+    const document = serverDocument({ title: "Complete Blood Count" });
+    const earlier = mergeOfflineEdit(
+      document,
+      { title: "Blood test" },
+      { title: "CBC" },
+      baseUpdatedAt,
+      new Date("2025-01-10T11:00:00.000Z")
+    );
+    assert.deepEqual(earlier.edit, {});
+    assert.deepEqual(earlier.conflicts, [
+      { field: "title", resolution: "server", serverValue: "Complete Blood Count", clientValue: "Blood test" },
+    ]);
+
+    const later = mergeOfflineEdit(
+      document,
+      { title: "Blood test" },
+      { title: "CBC" },
+      baseUpdatedAt,
+      new Date("2025-01-10T13:00:00.000Z")
+    );
+    assert.deepEqual(later.edit, { title: "Blood test" });
+    assert.deepEqual(later.conflicts, [
+      { field: "title", resolution: "client", serverValue: "Complete Blood Count", clientValue: "Blood test" },
+    ]);
+  });
+
+  it("merges tags added and removed on both sides", () => {
+    const { edit, conflicts } = mergeOfflineEdit(
+      serverDocument({ tags: JSON.stringify(["blood", "annual", "fasting"]) }),
+      { tags: ["cbc", "annual"] },
+      { tags: ["blood", "annual"] },
+      baseUpdatedAt,
+      new Date("2025-01-10T11:00:00.000Z")
+    );
+    // The server added "fasting", the offline edit removed "blood" and added "cbc"
+    assert.deepEqual(edit, { tags: ["annual", "fasting", "cbc"] });
+    assert.deepEqual(conflicts, []);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Offline Sync Service
+ * Reconciles edits the app queued while offline with changes made on the server in the meantime
+ *
+ * An offline edit carries the values it started from (base) and when it was made (editedAt).
+ * Fields the server has not touched since take the offline value; fields both sides changed
+ * go to the most recent edit. Tags are merged as sets, so additions from both sides survive.
+ */
+
+import { type Document } from "@shared/schema";
+
+export interface DocumentEdit {
+  title?: string;
+  provider?: string;
+  date?: string;
+  tags?: string[];
+}
+
+export interface SyncConflict {
+  field: keyof DocumentEdit;
+  resolution: "client" | "server";
+  serverValue: unknown;
+  clientValue: unknown;
+}
+
+export interface MergedEdit {
+  edit: DocumentEdit; // Fields to write (may be empty)
+  conflicts: SyncConflict[];
+}
+
+/**
+ * Current value of an editable field, in the shape the API accepts
+ */
+function getServerValue(document: Document, field: keyof DocumentEdit): unknown {
+  switch (field) {
+    case "title":
+      return document.title;
+    case "provider":
+      return document.provider ?? "";
+    case "date":
+      return document.date ? document.date.toISOString() : "";
+    case "tags":
+      return document.tags ? (JSON.parse(document.tags) as string[]) : [];
+  }
+}
+
+function sameValue(field: keyof DocumentEdit, a: unknown, b: unknown): boolean {
+  if (field === "date") {
+    const timeA = a ? new Date(a as string).getTime() : null;
+    const timeB = b ? new Date(b as string).getTime() : null;
+    return timeA === timeB;
+  }
+  if (field === "tags") {
+    return JSON.stringify([...((a as string[]) ?? [])].sort()) === JSON.stringify([...((b as string[]) ?? [])].sort());
+  }
+  return (a ?? "") === (b ?? "");
+}
+
+/**
+ * Three-way merge of tags: keep the server's tags plus offline additions, minus offline removals
+ */
+function mergeTags(server: string[], base: string[], client: string[]): string[] {
+  const added = client.filter((tag) => !base.includes(tag));
+  const removed = base.filter((tag) => !client.includes(tag));
+  const merged = server.filter((tag) => !removed.includes(tag));
+  for (const tag of added) {
+    if (!merged.includes(tag)) merged.push(tag);
+  }
+  return merged;
+}
+
+function assign<K extends keyof DocumentEdit>(target: DocumentEdit, key: K, value: DocumentEdit[K]): void {
+  target[key] = value;
+}
+
+/**
+ * Merge an offline edit of a document's metadata into its current server state
+ */
+export function mergeOfflineEdit(
+  document: Document,
+  edit: DocumentEdit,
+  base: DocumentEdit | undefined,
+  baseUpdatedAt: Date,
+  editedAt: Date
+): MergedEdit {
+  // Nothing changed on the server since the edit started - it applies as is
+  if (document.updatedAt.getTime() <= baseUpdatedAt.getTime()) {
+    return { edit, conflicts: [] };
+  }
+
+  const merged: DocumentEdit = {};
+  const conflicts: SyncConflict[] = [];
+  const fields = Object.keys(edit) as Array<keyof DocumentEdit>;
+
+  for (const field of fields) {
+    const clientValue = edit[field];
+    const serverValue = getServerValue(document, field);
+    const baseValue = base?.[field];
+
+    if (sameValue(field, serverValue, clientValue)) continue;
+
+    if (field === "tags" && baseValue !== undefined) {
+      merged.tags = mergeTags(serverValue as string[], baseValue as string[], clientValue as string[]);
+      continue;
+    }
+
+    // Untouched on the server since the edit started
+    if (baseValue !== undefined && sameValue(field, serverValue, baseValue)) {
+      assign(merged, field, clientValue);
+      continue;
+    }
+
+    // Both sides changed the field (or the base is unknown) - the later edit wins
+    const clientWins = editedAt.getTime() > document.updatedAt.getTime();
+    if (clientWins) assign(merged, field, clientValue);
+    conflicts.push({ field, resolution: clientWins ? "client" : "server", serverValue, clientValue });
+  }
+
+  return { edit: merged, conflicts };
+}
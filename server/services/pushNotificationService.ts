@@ -5,10 +5,11 @@
 
 import webpush from "web-push";
 import { config } from "../config";
-import { type PushSubscription, type Medication } from "@shared/schema";
+import { type PushSubscription, type Medication, type HealthTask } from "@shared/schema";
 
 export interface IPushNotificationService {
   sendMedicationReminder(subscription: PushSubscription, medication: Medication): Promise<void>;
+  sendTaskReminder(subscription: PushSubscription, task: HealthTask): Promise<void>;
   sendNotification(subscription: PushSubscription, payload: PushNotificationPayload): Promise<void>;
 }
 
@@ -158,6 +159,38 @@ export class WebPushNotificationService implements IPushNotificationService {
 
     await this.sendNotification(subscription, payload);
   }
+
+  async sendTaskReminder(
+    subscription: PushSubscription,
+    task: HealthTask
+  ): Promise<void> {
+    const dueDisplay = task.dueDate
+      ? task.dueDate.toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" })
+      : null;
+
+    const payload: PushNotificationPayload = {
+      title: "📋 Health task coming up",
+      body: dueDisplay ? `${task.title} - due ${dueDisplay}` : task.title,
+      icon: "/favicon.ico",
+      badge: "/favicon.ico",
+      data: {
+        type: "task_reminder",
+        taskId: task.id,
+        // Open the document the instruction came from, or the dashboard task list
+        url: task.sourceDocumentId ? `/document/${task.sourceDocumentId}` : "/",
+      },
+      tag: `task-${task.id}`,
+      requireInteraction: false,
+      actions: [
+        {
+          action: "view",
+          title: "View Task",
+        },
+      ],
+    };
+
+    await this.sendNotification(subscription, payload);
+  }
 }
 
 export class MockPushNotificationService implements IPushNotificationService {
@@ -177,6 +210,14 @@ export class MockPushNotificationService implements IPushNotificationService {
     console.log("[Push Mock] Medication reminder for", medication.name);
     console.log(`  To: ${subscription.endpoint.substring(0, 50)}...`);
   }
+
+  async sendTaskReminder(
+    subscription: PushSubscription,
+    task: HealthTask
+  ): Promise<void> {
+    console.log("[Push Mock] Task reminder for", task.title);
+    console.log(`  To: ${subscription.endpoint.substring(0, 50)}...`);
+  }
 }
 
 export function createPushNotificationService(): IPushNotificationService {
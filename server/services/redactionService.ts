@@ -0,0 +1,464 @@
+/**
+ * Redaction Service
+ * Blacks out personal details (address, phone number, unrelated results) in a copy of a document
+ * before it is shared, e.g. with an insurer
+ *
+ * Suggestions come from the PDF text layout: every line is matched against PII patterns and
+ * matches are mapped back to the positions of the text items they came from. Scans and photos
+ * have no layout, so PII found in their OCR text is listed for the user to box by hand.
+ *
+ * The redacted copy is rendered page by page, boxes drawn on top and the result flattened to
+ * images - nothing of the original text survives under a box. It is stored (encrypted) under
+ * redactions/<userId>/<documentId>/ and consent shares serve it instead of the original.
+ */
+
+import { createCanvas, loadImage, PDFDocument, type SKRSContext2D } from "@napi-rs/canvas";
+import { type Document, type DocumentRedaction } from "@shared/schema";
+import { config } from "../config";
+import { storage } from "../storage";
+import { FileStorageService } from "./fileStorage";
+import { getDocumentMimeType, readDocumentFile } from "./documentProcessingService";
+import { computeContentHash } from "./duplicateDetectionService";
+import { getDocumentPageCount, openPdf, renderPdfPage, withRenderSlot } from "./documentPreviewService";
+
+export const REDACTION_LABELS = [
+  "phone",
+  "email",
+  "address",
+  "aadhaar",
+  "pan",
+  "date_of_birth",
+  "identifier",
+  "manual",
+] as const;
+
+export type RedactionLabel = (typeof REDACTION_LABELS)[number];
+
+export interface RedactionRegion {
+  page: number; // 1-based
+  x: number; // Position and size as fractions (0-1) of the page image, like annotation highlights
+  y: number;
+  width: number;
+  height: number;
+  label: RedactionLabel;
+  source: "suggested" | "manual";
+}
+
+export interface PiiMatch {
+  label: RedactionLabel;
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface RedactionSuggestions {
+  regions: RedactionRegion[];
+  // PII found in the OCR text that could not be located on the page (scans and photos)
+  unplaced: Array<{ label: RedactionLabel; value: string }>;
+}
+
+export class RedactionError extends Error {
+  constructor(public message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+const REDACTABLE_MIME_TYPES = ["application/pdf", "image/jpeg", "image/png"];
+
+const JPEG_QUALITY = 85;
+
+// Room around a suggested box so anti-aliased edges are covered too
+const REGION_PADDING = 0.004;
+
+// Patterns are matched one line at a time; a capture group, when present, is the part to redact
+const PII_PATTERNS: Array<{ label: RedactionLabel; pattern: RegExp }> = [
+  { label: "email", pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  // Indian mobile numbers, with or without +91 / 0
+  { label: "phone", pattern: /(?<![\d+])(?:\+?91[\s-]?|0)?[6-9]\d{4}[\s-]?\d{5}(?!\d)/g },
+  // Landlines and other numbers that are labelled as a phone number
+  {
+    label: "phone",
+    pattern: /\b(?:phone|ph|mobile|mob|tel|telephone|contact)(?:\s*no)?\.?\s*[:-]?\s*(\+?\d[\d\s()-]{6,16}\d)/gi,
+  },
+  { label: "aadhaar", pattern: /(?<!\d)[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}(?!\d)/g },
+  { label: "pan", pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/g },
+  { label: "address", pattern: /\b(?:address|addr|residence)\.?\s*[:-]\s*(\S.*\S)/gi },
+  { label: "address", pattern: /\b(?:pin\s*code|pincode|pin)\s*[:-]?\s*([1-9]\d{2}\s?\d{3})\b/gi },
+  {
+    label: "date_of_birth",
+    pattern: /\b(?:DOB|D\.O\.B\.?|date\s+of\s+birth)\s*[:-]?\s*(\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{1,2}[\s-][A-Za-z]{3,9}[\s-]\d{4})/gi,
+  },
+  {
+    label: "identifier",
+    pattern: /\b(?:UHID|MRN|IP\s*No|OP\s*No|Patient\s*ID|Reg(?:istration)?\.?\s*No|Policy\s*No|ABHA(?:\s*No)?)\.?\s*[:-]?\s*([A-Z0-9][A-Z0-9/-]{3,})/gi,
+  },
+];
+
+/**
+ * Whether a copy of this document can be redacted (PDFs and JPEG/PNG images)
+ */
+export function isRedactionSupported(document: Document): boolean {
+  return REDACTABLE_MIME_TYPES.includes(getDocumentMimeType(document));
+}
+
+/**
+ * Find personal details in a piece of text
+ * Overlapping matches are collapsed to the longest one.
+ */
+export function findPii(text: string): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+
+  for (const { label, pattern } of PII_PATTERNS) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const value = match[1] ?? match[0];
+      const start = match.index! + (match[1] ? match[0].lastIndexOf(match[1]) : 0);
+      matches.push({ label, value: value.trim(), start, end: start + value.length });
+    }
+  }
+
+  matches.sort((a, b) => a.start - b.start || b.end - b.start - (a.end - a.start));
+  const kept: PiiMatch[] = [];
+  for (const match of matches) {
+    const overlapping = kept.find((other) => match.start < other.end && other.start < match.end);
+    if (!overlapping) {
+      kept.push(match);
+    } else if (match.end - match.start > overlapping.end - overlapping.start) {
+      kept[kept.indexOf(overlapping)] = match;
+    }
+  }
+  return kept;
+}
+
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  hasEOL: boolean;
+}
+
+interface TextLine {
+  text: string;
+  segments: Array<{ start: number; end: number; item: PdfTextItem }>;
+}
+
+function getFontSize(item: PdfTextItem): number {
+  return Math.hypot(item.transform[2], item.transform[3]) || item.height;
+}
+
+/**
+ * Join a page's text items into lines, remembering where each item's text sits in its line
+ */
+function buildTextLines(items: PdfTextItem[]): TextLine[] {
+  const lines: TextLine[] = [];
+  let line: TextLine | null = null;
+  let previous: PdfTextItem | null = null;
+
+  for (const item of items) {
+    if (!item.str) {
+      if (item.hasEOL) line = null;
+      continue;
+    }
+
+    const size = getFontSize(item);
+    const sameLine = line && previous && Math.abs(item.transform[5] - previous.transform[5]) < size / 2;
+    if (!line || !sameLine) {
+      line = { text: "", segments: [] };
+      lines.push(line);
+    } else if (previous) {
+      // Items split mid-word sit right next to each other; a visible gap is a space
+      const gap = item.transform[4] - (previous.transform[4] + previous.width);
+      if (gap > size * 0.2 && !/\s$/.test(line.text) && !/^\s/.test(item.str)) line.text += " ";
+    }
+
+    line.segments.push({ start: line.text.length, end: line.text.length + item.str.length, item });
+    line.text += item.str;
+    previous = item;
+    if (item.hasEOL) line = null;
+  }
+
+  return lines;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Text items only give the width of the whole run; a generic font estimates where characters fall within it
+const measureContext = createCanvas(1, 1).getContext("2d");
+measureContext.font = "100px sans-serif";
+
+function getTextFraction(text: string, characters: number): number {
+  if (characters <= 0) return 0;
+  if (characters >= text.length) return 1;
+  const total = measureContext.measureText(text).width;
+  return total > 0 ? measureContext.measureText(text.slice(0, characters)).width / total : characters / text.length;
+}
+
+/**
+ * Box (as page fractions) around characters start-end of a line
+ */
+function locateMatch(
+  line: TextLine,
+  start: number,
+  end: number,
+  viewport: { width: number; height: number; convertToViewportPoint(x: number, y: number): number[] }
+): Omit<RedactionRegion, "page" | "label" | "source"> | null {
+  let left = Infinity;
+  let top = Infinity;
+  let right = -Infinity;
+  let bottom = -Infinity;
+
+  for (const segment of line.segments) {
+    if (segment.end <= start || segment.start >= end) continue;
+    const { item } = segment;
+    const from = getTextFraction(item.str, Math.max(start, segment.start) - segment.start);
+    const to = getTextFraction(item.str, Math.min(end, segment.end) - segment.start);
+    const size = getFontSize(item);
+    const [, , , , originX, baseline] = item.transform;
+
+    // PDF space has y going up from the baseline; cover descenders below and the cap height above,
+    // with some slack to the sides as the real font's widths differ from the estimate
+    const corners = [
+      viewport.convertToViewportPoint(originX + item.width * from - size * 0.3, baseline - size * 0.3),
+      viewport.convertToViewportPoint(originX + item.width * to + size * 0.3, baseline + size),
+    ];
+    for (const [x, y] of corners) {
+      left = Math.min(left, x / viewport.width);
+      right = Math.max(right, x / viewport.width);
+      top = Math.min(top, y / viewport.height);
+      bottom = Math.max(bottom, y / viewport.height);
+    }
+  }
+
+  if (!Number.isFinite(left)) return null;
+  const x = clamp(left - REGION_PADDING);
+  const y = clamp(top - REGION_PADDING);
+  return {
+    x,
+    y,
+    width: clamp(right + REGION_PADDING) - x,
+    height: clamp(bottom + REGION_PADDING) - y,
+  };
+}
+
+/**
+ * Suggest regions to redact in a document
+ */
+export async function suggestRedactions(document: Document): Promise<RedactionSuggestions> {
+  if (!isRedactionSupported(document)) {
+    throw new RedactionError("Only PDFs and images can be redacted");
+  }
+
+  const regions: RedactionRegion[] = [];
+
+  if (getDocumentMimeType(document) === "application/pdf") {
+    const pdf = await openPdf(await readDocumentFile(document));
+    try {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: 1 });
+        const content = await page.getTextContent();
+        const items = content.items.filter((item) => "str" in item) as PdfTextItem[];
+
+        for (const line of buildTextLines(items)) {
+          for (const match of findPii(line.text)) {
+            const box = locateMatch(line, match.start, match.end, viewport);
+            if (box) regions.push({ page: pageNumber, ...box, label: match.label, source: "suggested" });
+          }
+        }
+      }
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  // Without a text layer the OCR text is all we have - list what it contains
+  const unplaced: RedactionSuggestions["unplaced"] = [];
+  if (regions.length === 0 && document.extractedText) {
+    for (const match of findPii(document.extractedText)) {
+      if (!unplaced.some((entry) => entry.label === match.label && entry.value === match.value)) {
+        unplaced.push({ label: match.label, value: match.value });
+      }
+    }
+  }
+
+  return { regions, unplaced };
+}
+
+function drawRegions(
+  context: SKRSContext2D,
+  regions: RedactionRegion[],
+  width: number,
+  height: number
+): void {
+  context.fillStyle = "#000000";
+  for (const region of regions) {
+    context.fillRect(region.x * width, region.y * height, region.width * width, region.height * height);
+  }
+}
+
+/**
+ * Render the redacted copy of a file: a flattened PDF for PDFs, a JPEG for images
+ */
+async function renderRedactedFile(
+  document: Document,
+  file: Buffer,
+  regions: RedactionRegion[]
+): Promise<{ file: Buffer; fileType: "PDF" | "JPG" }> {
+  if (getDocumentMimeType(document) !== "application/pdf") {
+    const image = await loadImage(file);
+    const canvas = createCanvas(image.width, image.height);
+    const context = canvas.getContext("2d");
+    context.drawImage(image, 0, 0);
+    drawRegions(context, regions, canvas.width, canvas.height);
+    return { file: await canvas.encode("jpeg", JPEG_QUALITY), fileType: "JPG" };
+  }
+
+  const pdf = await openPdf(file);
+  try {
+    const output = new PDFDocument({ title: `${document.title} (redacted)`, encodingQuality: JPEG_QUALITY });
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const size = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: config.preview.pageWidth / size.width });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      const context = canvas.getContext("2d");
+
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await renderPdfPage(page, canvas, viewport);
+      drawRegions(
+        context,
+        regions.filter((region) => region.page === pageNumber),
+        canvas.width,
+        canvas.height
+      );
+
+      // The page keeps its size; its content is now only the flattened image
+      const pageContext = output.beginPage(size.width, size.height) as SKRSContext2D;
+      pageContext.drawImage(canvas, 0, 0, size.width, size.height);
+      output.endPage();
+    }
+
+    return { file: output.close(), fileType: "PDF" };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Storage folder holding a document's redacted copy
+ */
+function getRedactionFolder(document: Document): string {
+  return `redactions/${document.userId}/${document.id}`;
+}
+
+/**
+ * Regions of a saved redaction
+ */
+export function getRedactionRegions(redaction: DocumentRedaction): RedactionRegion[] {
+  return JSON.parse(redaction.regions) as RedactionRegion[];
+}
+
+/**
+ * Whether a redaction was made from the document's current file
+ * A new or restored version makes it outdated until the user redacts again.
+ */
+export function isRedactionCurrent(document: Document, redaction: DocumentRedaction): boolean {
+  return !!document.contentHash && redaction.sourceContentHash === document.contentHash;
+}
+
+/**
+ * Copy of a document pointing at its redacted file (for sendDocumentFile)
+ */
+export function getRedactedFileDocument(document: Document, redaction: DocumentRedaction): Document {
+  return { ...document, fileUrl: redaction.fileUrl, fileType: redaction.fileType };
+}
+
+/**
+ * Render and store the redacted copy of a document, replacing any earlier one
+ */
+export async function saveRedaction(document: Document, regions: RedactionRegion[]): Promise<DocumentRedaction> {
+  if (!isRedactionSupported(document)) {
+    throw new RedactionError("Only PDFs and images can be redacted");
+  }
+  if (regions.length === 0) {
+    throw new RedactionError("Mark at least one region to redact");
+  }
+
+  const pageCount = (await getDocumentPageCount(document)) ?? 1;
+  if (regions.some((region) => region.page > pageCount)) {
+    throw new RedactionError(`Document only has ${pageCount} page(s)`);
+  }
+
+  const file = await readDocumentFile(document);
+  const contentHash = document.contentHash ?? computeContentHash(file);
+  if (!document.contentHash) {
+    await storage.updateDocument(document.id, { contentHash });
+  }
+
+  const redacted = await withRenderSlot(() => renderRedactedFile(document, file, regions));
+  const extension = redacted.fileType === "PDF" ? "pdf" : "jpg";
+  const fileUrl = `${getRedactionFolder(document)}/${contentHash}.${extension}`;
+  await FileStorageService.storeFile(
+    fileUrl,
+    redacted.file,
+    document.userId,
+    redacted.fileType === "PDF" ? "application/pdf" : "image/jpeg"
+  );
+
+  const existing = await storage.getDocumentRedaction(document.id);
+  const fields = {
+    regions: JSON.stringify(regions),
+    fileUrl,
+    fileType: redacted.fileType,
+    sourceContentHash: contentHash,
+  };
+  const redaction = existing
+    ? await storage.updateDocumentRedaction(existing.id, fields)
+    : await storage.createDocumentRedaction({ userId: document.userId, documentId: document.id, ...fields });
+
+  // A redaction of an older version leaves its file behind
+  if (existing && existing.fileUrl !== fileUrl) {
+    await FileStorageService.deleteFile(existing.fileUrl).catch((error: any) => {
+      console.warn("[Redaction] Could not delete previous redacted file:", error.message);
+    });
+  }
+
+  console.log(`[Redaction] Saved redaction of document ${document.id} (${regions.length} region(s))`);
+  return redaction;
+}
+
+/**
+ * Delete a document's redaction so shares serve the original again
+ */
+export async function deleteRedaction(document: Document): Promise<void> {
+  const redaction = await storage.getDocumentRedaction(document.id);
+  if (redaction) {
+    await storage.deleteDocumentRedaction(redaction.id);
+  }
+  await deleteRedactionFiles(document);
+}
+
+/**
+ * Delete every redacted file of a document (when the document is purged)
+ */
+export async function deleteRedactionFiles(document: Document): Promise<void> {
+  await FileStorageService.deleteFolder(getRedactionFolder(document));
+}
+
+/**
+ * Shape a redaction for API responses
+ */
+export function serializeRedaction(document: Document, redaction: DocumentRedaction) {
+  return {
+    id: redaction.id,
+    documentId: redaction.documentId,
+    regions: getRedactionRegions(redaction),
+    fileType: redaction.fileType,
+    outdated: !isRedactionCurrent(document, redaction),
+    createdAt: redaction.createdAt,
+    updatedAt: redaction.updatedAt,
+  };
+}
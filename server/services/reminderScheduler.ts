@@ -1,6 +1,6 @@
 /**
  * Reminder Scheduler
- * Background job scheduler for sending medication reminder emails and push notifications
+ * Background job scheduler for sending medication and health task reminder emails and push notifications
  */
 
 import * as cron from "node-cron";
@@ -27,6 +27,7 @@ export class ReminderScheduler {
     // Run every minute: * * * * *
     this.task = cron.schedule("* * * * *", async () => {
       await this.checkAndSendReminders();
+      await this.checkAndSendTaskReminders();
     });
 
     this.isRunning = true;
@@ -144,6 +145,76 @@ export class ReminderScheduler {
       console.error("[Reminder Scheduler] Error checking reminders:", error.message);
     }
   }
+
+  /**
+   * Check for health tasks whose reminder is due and send emails and push notifications
+   */
+  private async checkAndSendTaskReminders(): Promise<void> {
+    try {
+      const dueTasks = await storage.getDueHealthTaskReminders();
+
+      if (dueTasks.length === 0) {
+        return;
+      }
+
+      console.log(`[Reminder Scheduler] Found ${dueTasks.length} due task reminder(s)`);
+
+      for (const task of dueTasks) {
+        try {
+          const user = await storage.getUser(task.userId);
+
+          if (!user) {
+            console.warn(`[Reminder Scheduler] User not found for task ${task.id}`);
+            await storage.updateHealthTask(task.id, { reminderSentAt: new Date() });
+            continue;
+          }
+
+          const sourceDocument = task.sourceDocumentId ? await storage.getDocument(task.sourceDocumentId) : undefined;
+          const documentTitle = sourceDocument && !sourceDocument.deletedAt ? sourceDocument.title : null;
+
+          if (user.email) {
+            try {
+              await emailService.sendTaskReminder(user.email, task, documentTitle);
+              console.log(`[Reminder Scheduler] Sent email reminder for task ${task.title} to ${user.email}`);
+            } catch (error: any) {
+              console.error(`[Reminder Scheduler] Error sending task email reminder:`, error.message);
+              // Continue to send push notifications even if email fails
+            }
+          }
+
+          try {
+            const pushSubscriptions = await storage.getPushSubscriptions(task.userId);
+
+            const pushPromises = pushSubscriptions.map(async (subscription) => {
+              try {
+                await pushNotificationService.sendTaskReminder(subscription, task);
+              } catch (error: any) {
+                if (error.message === "Subscription expired" || error.message === "Invalid subscription") {
+                  console.warn(`[Reminder Scheduler] Removing expired subscription: ${subscription.id}`);
+                  await storage.deletePushSubscription(subscription.id);
+                } else {
+                  console.error(`[Reminder Scheduler] Error sending task push notification:`, error.message);
+                }
+              }
+            });
+
+            await Promise.allSettled(pushPromises);
+          } catch (error: any) {
+            console.error(`[Reminder Scheduler] Error sending task push notifications:`, error.message);
+          }
+
+          await storage.updateHealthTask(task.id, { reminderSentAt: new Date() });
+
+          console.log(`[Reminder Scheduler] Completed reminder processing for task ${task.title}`);
+        } catch (error: any) {
+          console.error(`[Reminder Scheduler] Error processing task reminder ${task.id}:`, error.message);
+          // Don't mark as sent if there was an error - will retry on next run
+        }
+      }
+    } catch (error: any) {
+      console.error("[Reminder Scheduler] Error checking task reminders:", error.message);
+    }
+  }
 }
 
 // Export singleton instance
@@ -97,26 +97,44 @@ export class SupabaseStorageService {
     fileName: string,
     mimeType: string
   ): Promise<string> {
+    // Generate unique file path: userId/filename
+    // Using userId ensures files are organized by user
+    const fileExt = path.extname(fileName);
+    const uniqueFileName = `${randomUUID()}${fileExt}`;
+
+    // Return file path in format: "documents/userId/filename.ext"
+    // We'll create signed URLs when serving files
+    const fileUrl = `${DOCUMENTS_BUCKET}/${userId}/${uniqueFileName}`;
+    await this.putFile(fileUrl, file, mimeType);
+    return fileUrl;
+  }
+
+  /**
+   * Upload a file to an exact path in Supabase Storage
+   * @param filePath - Path to the file in storage (e.g., "documents/userId/filename.pdf")
+   * @param file - File contents
+   * @param mimeType - File MIME type
+   */
+  static async putFile(filePath: string, file: Buffer | Uint8Array, mimeType: string): Promise<void> {
     if (!supabaseStorage) {
       throw new Error("Supabase Storage is not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.");
     }
-    
+
     try {
       // Ensure bucket exists
       await this.ensureBucket();
 
-      // Generate unique file path: userId/filename
-      // Using userId ensures files are organized by user
-      const fileExt = path.extname(fileName);
-      const uniqueFileName = `${randomUUID()}${fileExt}`;
-      const filePath = `${userId}/${uniqueFileName}`;
-      
-      console.log(`[Supabase Storage] Uploading file: ${filePath} for user: ${userId}`);
+      // Extract the path after "documents/" if needed
+      const pathInBucket = filePath.startsWith('documents/')
+        ? filePath.replace('documents/', '')
+        : filePath;
+
+      console.log(`[Supabase Storage] Uploading file: ${pathInBucket}`);
 
       // Upload file to Supabase Storage
-      const { data, error } = await supabaseStorage.storage
+      const { error } = await supabaseStorage.storage
         .from(DOCUMENTS_BUCKET)
-        .upload(filePath, file, {
+        .upload(pathInBucket, file, {
           contentType: mimeType,
           upsert: false, // Don't overwrite existing files
         });
@@ -126,15 +144,9 @@ export class SupabaseStorageService {
         throw new Error(`Failed to upload file: ${error.message}`);
       }
 
-      // Return file path in format: "documents/userId/filename.ext"
-      // We'll create signed URLs when serving files
-      const fileUrl = `${DOCUMENTS_BUCKET}/${filePath}`;
-      
-      console.log(`[Supabase Storage] File uploaded: ${filePath} (${file.length} bytes)`);
-      
-      return fileUrl;
+      console.log(`[Supabase Storage] File uploaded: ${pathInBucket} (${file.length} bytes)`);
     } catch (error: any) {
-      console.error("[Supabase Storage] uploadFile error:", error);
+      console.error("[Supabase Storage] putFile error:", error);
       throw error;
     }
   }
@@ -172,6 +184,60 @@ export class SupabaseStorageService {
     }
   }
 
+  /**
+   * Download a file from Supabase Storage
+   * @param filePath - Path to the file in storage (e.g., "documents/userId/filename.pdf")
+   * @returns File contents
+   */
+  static async downloadFile(filePath: string): Promise<Buffer> {
+    if (!supabaseStorage) {
+      throw new Error("Supabase Storage is not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.");
+    }
+
+    try {
+      // Extract the path after "documents/" if needed
+      const pathInBucket = filePath.startsWith('documents/') 
+        ? filePath.replace('documents/', '')
+        : filePath;
+
+      const { data, error } = await supabaseStorage.storage
+        .from(DOCUMENTS_BUCKET)
+        .download(pathInBucket);
+
+      if (error || !data) {
+        console.error("[Supabase Storage] Error downloading file:", error);
+        throw new Error(`Failed to download file: ${error?.message || "No data returned"}`);
+      }
+
+      return Buffer.from(await data.arrayBuffer());
+    } catch (error: any) {
+      console.error("[Supabase Storage] downloadFile error:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a file exists in Supabase Storage
+   * @param filePath - Path to the file in storage (e.g., "documents/userId/filename.pdf")
+   */
+  static async fileExists(filePath: string): Promise<boolean> {
+    if (!supabaseStorage) {
+      throw new Error("Supabase Storage is not configured. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables.");
+    }
+
+    // Extract the path after "documents/" if needed
+    const pathInBucket = filePath.startsWith('documents/')
+      ? filePath.replace('documents/', '')
+      : filePath;
+
+    // Missing files resolve to false; other failures are thrown by the client
+    const { data } = await supabaseStorage.storage
+      .from(DOCUMENTS_BUCKET)
+      .exists(pathInBucket);
+
+    return data;
+  }
+
   /**
    * Delete a file from Supabase Storage
    * @param filePath - Path to the file in storage (e.g., "documents/userId/filename.pdf")
@@ -204,6 +270,43 @@ export class SupabaseStorageService {
     }
   }
 
+  /**
+   * Delete every file under a folder in Supabase Storage (including sub-folders)
+   * @param folderPath - Folder in storage (e.g., "previews/userId/documentId")
+   */
+  static async deleteFolder(folderPath: string): Promise<void> {
+    if (!supabaseStorage) {
+      console.warn("[Supabase Storage] Supabase not configured, skipping folder deletion");
+      return;
+    }
+
+    const bucket = supabaseStorage.storage.from(DOCUMENTS_BUCKET);
+    const folder = folderPath.replace(/\/$/, "");
+
+    // list() is not recursive - entries without an id are sub-folders
+    const { data: entries, error: listError } = await bucket.list(folder, { limit: 1000 });
+    if (listError) {
+      throw new Error(`Failed to list folder: ${listError.message}`);
+    }
+
+    const files: string[] = [];
+    for (const entry of entries || []) {
+      if (entry.id) {
+        files.push(`${folder}/${entry.name}`);
+      } else {
+        await this.deleteFolder(`${folder}/${entry.name}`);
+      }
+    }
+
+    if (files.length > 0) {
+      const { error } = await bucket.remove(files);
+      if (error) {
+        throw new Error(`Failed to delete folder: ${error.message}`);
+      }
+      console.log(`[Supabase Storage] Deleted ${files.length} file(s) from ${folder}`);
+    }
+  }
+
   /**
    * Get file path from URL
    * @param url - Full Supabase Storage URL
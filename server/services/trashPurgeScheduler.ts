@@ -0,0 +1,70 @@
+/**
+ * Trash Purge Scheduler
+ * Background job that permanently deletes documents left in the trash past the retention period,
+ * along with expired data export archives
+ */
+
+import * as cron from "node-cron";
+import { config } from "../config";
+import { purgeExpiredDocuments } from "./documentTrashService";
+import { purgeExpiredExports } from "./dataExportService";
+
+export class TrashPurgeScheduler {
+  private task: cron.ScheduledTask | null = null;
+  private isRunning = false;
+
+  /**
+   * Start the purge scheduler
+   * Runs on config.trash.purgeSchedule (daily by default)
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.warn("[Trash Purge] Already running");
+      return;
+    }
+
+    console.log(`[Trash Purge] Starting (retention: ${config.trash.retentionDays} days)...`);
+
+    this.task = cron.schedule(config.trash.purgeSchedule, async () => {
+      await this.purge();
+    });
+
+    this.isRunning = true;
+    console.log("[Trash Purge] Started successfully");
+  }
+
+  /**
+   * Stop the purge scheduler
+   */
+  stop(): void {
+    if (this.task) {
+      this.task.stop();
+      this.task = null;
+      this.isRunning = false;
+      console.log("[Trash Purge] Stopped");
+    }
+  }
+
+  private async purge(): Promise<void> {
+    try {
+      const purged = await purgeExpiredDocuments();
+      if (purged > 0) {
+        console.log(`[Trash Purge] Purged ${purged} expired document(s)`);
+      }
+    } catch (error: any) {
+      console.error("[Trash Purge] Error purging trash:", error.message);
+    }
+
+    try {
+      const purged = await purgeExpiredExports();
+      if (purged > 0) {
+        console.log(`[Trash Purge] Deleted ${purged} expired data export(s)`);
+      }
+    } catch (error: any) {
+      console.error("[Trash Purge] Error deleting expired data exports:", error.message);
+    }
+  }
+}
+
+// Export singleton instance
+export const trashPurgeScheduler = new TrashPurgeScheduler();
@@ -7,6 +7,28 @@ import {
   type InsertDocument,
   type DocumentVersion,
   type InsertDocumentVersion,
+  type DicomInstance,
+  type InsertDicomInstance,
+  type DocumentProcessingJob,
+  type UserEncryptionKey,
+  type InsertUserEncryptionKey,
+  type DataExport,
+  type InsertDataExport,
+  type InboundEmailAddress,
+  type InsertInboundEmailAddress,
+  type InboundEmailItem,
+  type InsertInboundEmailItem,
+  type Collection,
+  type InsertCollection,
+  type CollectionItem,
+  type InsertCollectionItem,
+  type LabObservation,
+  type InsertLabObservation,
+  type DocumentAnnotation,
+  type InsertDocumentAnnotation,
+  type DocumentRedaction,
+  type InsertDocumentRedaction,
+  type InsertDocumentProcessingJob,
   type Consent,
   type InsertConsent,
   type ConsentAuditLog,
@@ -19,6 +41,10 @@ import {
   type InsertMedication,
   type MedicationReminder,
   type InsertMedicationReminder,
+  type HealthTask,
+  type InsertHealthTask,
+  type Expense,
+  type InsertExpense,
   type PushSubscription,
   type InsertPushSubscription,
   type ChatConversation,
@@ -28,6 +54,17 @@ import {
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { SupabaseStorage } from "./storageSupabase";
+import {
+  buildDocumentFacets,
+  compareDocumentCursors,
+  DEFAULT_DOCUMENT_PAGE_SIZE,
+  getDocumentCursor,
+  toDocumentListItem,
+  type DocumentFacets,
+  type DocumentListFilters,
+  type DocumentListOptions,
+  type DocumentListPage,
+} from "./utils/documentList";
 
 // Storage interface for all data operations
 export interface IStorage {
@@ -68,19 +105,107 @@ export interface IStorage {
   // Document methods
   createDocument(document: InsertDocument): Promise<Document>;
   getDocument(id: string): Promise<Document | undefined>;
-  getDocumentsByUserId(userId: string, filters?: { type?: string; search?: string }): Promise<Document[]>;
+  getDocumentsByUserId(userId: string, filters?: { type?: string; search?: string; collectionId?: string }): Promise<Document[]>;
+  listDocuments(userId: string, options: DocumentListOptions): Promise<DocumentListPage>; // One page, without extracted text
+  getDocumentFacets(userId: string, filters: DocumentListFilters): Promise<DocumentFacets>;
+  getDocumentsByContentHash(userId: string, contentHash: string): Promise<Document[]>;
+  getDocumentByStudyInstanceUid(userId: string, studyInstanceUid: string): Promise<Document | undefined>;
+  getDocumentByClientId(userId: string, clientId: string): Promise<Document | undefined>; // Includes trashed documents
+  getTrashedDocuments(userId: string): Promise<Document[]>;
+  getDocumentsTrashedBefore(cutoff: Date): Promise<Document[]>;
   updateDocument(id: string, data: Partial<Document>): Promise<Document>;
   deleteDocument(id: string): Promise<void>;
   
   // Document version methods
   createDocumentVersion(version: InsertDocumentVersion): Promise<DocumentVersion>;
   getDocumentVersions(documentId: string): Promise<DocumentVersion[]>;
+  getDocumentVersion(id: string): Promise<DocumentVersion | undefined>;
+  updateDocumentVersion(id: string, data: Partial<DocumentVersion>): Promise<DocumentVersion>;
+
+  // DICOM instance methods
+  createDicomInstance(instance: InsertDicomInstance): Promise<DicomInstance>;
+  getDicomInstances(documentId: string): Promise<DicomInstance[]>;
+
+  // Document processing job methods
+  createProcessingJob(job: InsertDocumentProcessingJob): Promise<DocumentProcessingJob>;
+  getProcessingJob(id: string): Promise<DocumentProcessingJob | undefined>;
+  getLatestProcessingJob(documentId: string): Promise<DocumentProcessingJob | undefined>;
+  getProcessingJobsByUserId(userId: string, statuses?: string[]): Promise<DocumentProcessingJob[]>;
+  getDueProcessingJobs(limit: number): Promise<DocumentProcessingJob[]>;
+  updateProcessingJob(id: string, data: Partial<DocumentProcessingJob>): Promise<DocumentProcessingJob>;
+  requeueRunningProcessingJobs(): Promise<number>;
+
+  // Encryption key methods
+  getUserEncryptionKey(userId: string): Promise<UserEncryptionKey | undefined>;
+  getAllUserEncryptionKeys(): Promise<UserEncryptionKey[]>;
+  createUserEncryptionKey(key: InsertUserEncryptionKey): Promise<UserEncryptionKey>;
+  updateUserEncryptionKey(id: string, data: Partial<UserEncryptionKey>): Promise<UserEncryptionKey>;
+
+  // Lab observation methods
+  getLabObservations(documentId: string): Promise<LabObservation[]>;
+  getLabObservationsByUserId(userId: string): Promise<LabObservation[]>;
+  getLabObservation(id: string): Promise<LabObservation | undefined>;
+  createLabObservation(observation: InsertLabObservation): Promise<LabObservation>;
+  updateLabObservation(id: string, data: Partial<LabObservation>): Promise<LabObservation>;
+  deleteLabObservation(id: string): Promise<void>;
+  deleteLabObservationsByDocumentId(documentId: string, source?: string): Promise<void>;
+
+  // Document annotation methods
+  getDocumentAnnotations(documentId: string): Promise<DocumentAnnotation[]>;
+  getDocumentAnnotationsByUserId(userId: string): Promise<DocumentAnnotation[]>;
+  getDocumentAnnotation(id: string): Promise<DocumentAnnotation | undefined>;
+  createDocumentAnnotation(annotation: InsertDocumentAnnotation): Promise<DocumentAnnotation>;
+  updateDocumentAnnotation(id: string, data: Partial<DocumentAnnotation>): Promise<DocumentAnnotation>;
+  deleteDocumentAnnotation(id: string): Promise<void>;
+
+  // Document redaction methods
+  getDocumentRedaction(documentId: string): Promise<DocumentRedaction | undefined>;
+  getDocumentRedactionsByUserId(userId: string): Promise<DocumentRedaction[]>;
+  createDocumentRedaction(redaction: InsertDocumentRedaction): Promise<DocumentRedaction>;
+  updateDocumentRedaction(id: string, data: Partial<DocumentRedaction>): Promise<DocumentRedaction>;
+  deleteDocumentRedaction(id: string): Promise<void>;
+
+  // Data export methods
+  createDataExport(dataExport: InsertDataExport): Promise<DataExport>;
+  getDataExport(id: string): Promise<DataExport | undefined>;
+  getDataExportsByUserId(userId: string): Promise<DataExport[]>;
+  getDataExportsExpiredBefore(cutoff: Date): Promise<DataExport[]>;
+  updateDataExport(id: string, data: Partial<DataExport>): Promise<DataExport>;
+  deleteDataExport(id: string): Promise<void>;
+
+  // Inbound email methods
+  getInboundEmailAddress(userId: string): Promise<InboundEmailAddress | undefined>;
+  getInboundEmailAddressByToken(token: string): Promise<InboundEmailAddress | undefined>;
+  createInboundEmailAddress(address: InsertInboundEmailAddress): Promise<InboundEmailAddress>;
+  updateInboundEmailAddress(id: string, data: Partial<InboundEmailAddress>): Promise<InboundEmailAddress>;
+  getInboundEmailItems(userId: string, filters?: { status?: string }): Promise<InboundEmailItem[]>;
+  getInboundEmailItem(id: string): Promise<InboundEmailItem | undefined>;
+  getInboundEmailItemsByMessageId(userId: string, messageId: string): Promise<InboundEmailItem[]>;
+  getQueuedInboundEmailItems(): Promise<InboundEmailItem[]>;
+  createInboundEmailItem(item: InsertInboundEmailItem): Promise<InboundEmailItem>;
+  updateInboundEmailItem(id: string, data: Partial<InboundEmailItem>): Promise<InboundEmailItem>;
+  deleteInboundEmailItem(id: string): Promise<void>;
+
+  // Collection methods
+  getCollections(userId: string): Promise<Collection[]>;
+  getCollection(id: string): Promise<Collection | undefined>;
+  createCollection(collection: InsertCollection): Promise<Collection>;
+  updateCollection(id: string, data: Partial<Collection>): Promise<Collection>;
+  deleteCollection(id: string): Promise<void>;
+  getCollectionItems(collectionId: string): Promise<CollectionItem[]>;
+  getCollectionItemsByDocumentId(documentId: string): Promise<CollectionItem[]>;
+  getCollectionItem(id: string): Promise<CollectionItem | undefined>;
+  createCollectionItem(item: InsertCollectionItem): Promise<CollectionItem>;
+  updateCollectionItem(id: string, data: Partial<CollectionItem>): Promise<CollectionItem>;
+  deleteCollectionItem(id: string): Promise<void>;
   
   // Consent methods
   createConsent(userId: string, data: {
     recipientName: string;
     recipientRole: string;
     scopes: string[];
+    collectionId?: string;
+    includeAnnotations?: boolean;
     durationType: '24h' | '7d' | 'custom';
     customExpiryDate?: Date;
     purpose: string;
@@ -144,6 +269,21 @@ export interface IStorage {
   getDueReminders(): Promise<MedicationReminder[]>;
   deleteRemindersForMedication(medicationId: string): Promise<void>;
   
+  // Health task methods
+  getHealthTasks(userId: string, filters?: { status?: string; documentId?: string }): Promise<HealthTask[]>;
+  getHealthTask(id: string): Promise<HealthTask | undefined>;
+  createHealthTask(data: InsertHealthTask): Promise<HealthTask>;
+  updateHealthTask(id: string, data: Partial<InsertHealthTask>): Promise<HealthTask>;
+  deleteHealthTask(id: string): Promise<void>;
+  getDueHealthTaskReminders(): Promise<HealthTask[]>;
+  
+  // Expense methods
+  getExpenses(userId: string, filters?: { from?: Date; to?: Date; category?: string; documentId?: string }): Promise<Expense[]>;
+  getExpense(id: string): Promise<Expense | undefined>;
+  createExpense(data: InsertExpense): Promise<Expense>;
+  updateExpense(id: string, data: Partial<InsertExpense>): Promise<Expense>;
+  deleteExpense(id: string): Promise<void>;
+  
   // Push subscription methods
   getPushSubscriptions(userId: string): Promise<PushSubscription[]>;
   getPushSubscriptionByEndpoint(endpoint: string): Promise<PushSubscription | undefined>;
@@ -169,12 +309,25 @@ export class MemStorage implements IStorage {
   private sessions: Map<string, Session>;
   private documents: Map<string, Document>;
   private documentVersions: Map<string, DocumentVersion>;
+  private dicomInstances: Map<string, DicomInstance>;
+  private processingJobs: Map<string, DocumentProcessingJob>;
+  private encryptionKeys: Map<string, UserEncryptionKey>;
+  private dataExports: Map<string, DataExport>;
+  private inboundEmailAddresses: Map<string, InboundEmailAddress>;
+  private inboundEmailItems: Map<string, InboundEmailItem>;
+  private labObservations: Map<string, LabObservation>;
+  private documentAnnotations: Map<string, DocumentAnnotation>;
+  private documentRedactions: Map<string, DocumentRedaction>;
+  private collections: Map<string, Collection>;
+  private collectionItems: Map<string, CollectionItem>;
   private consents: Map<string, Consent>;
   private consentAuditLogs: Map<string, ConsentAuditLog>;
   private emergencyCards: Map<string, EmergencyCard>;
   private nominees: Map<string, Nominee>;
   private medications: Map<string, Medication>;
   private medicationReminders: Map<string, MedicationReminder>;
+  private healthTasks: Map<string, HealthTask>;
+  private expenses: Map<string, Expense>;
   private pushSubscriptions: Map<string, PushSubscription>;
   private chatConversations: Map<string, ChatConversation>;
   private chatMessages: Map<string, ChatMessage>;
@@ -185,11 +338,24 @@ export class MemStorage implements IStorage {
     this.sessions = new Map();
     this.documents = new Map();
     this.documentVersions = new Map();
+    this.dicomInstances = new Map();
+    this.processingJobs = new Map();
+    this.encryptionKeys = new Map();
+    this.dataExports = new Map();
+    this.inboundEmailAddresses = new Map();
+    this.inboundEmailItems = new Map();
+    this.labObservations = new Map();
+    this.documentAnnotations = new Map();
+    this.documentRedactions = new Map();
+    this.collections = new Map();
+    this.collectionItems = new Map();
     this.consents = new Map();
     this.consentAuditLogs = new Map();
     this.emergencyCards = new Map();
     this.medications = new Map();
     this.medicationReminders = new Map();
+    this.healthTasks = new Map();
+    this.expenses = new Map();
     this.nominees = new Map();
     this.pushSubscriptions = new Map();
     this.chatConversations = new Map();
@@ -452,12 +618,17 @@ export class MemStorage implements IStorage {
       fileUrl: insertDocument.fileUrl,
       fileType: insertDocument.fileType ?? null,
       fileSize: insertDocument.fileSize ?? null,
+      pageCount: null,
+      contentHash: insertDocument.contentHash ?? null,
+      studyInstanceUid: insertDocument.studyInstanceUid ?? null,
+      clientId: insertDocument.clientId ?? null,
       tags: insertDocument.tags ?? null,
       syncStatus: insertDocument.syncStatus ?? "synced",
       extractedText: insertDocument.extractedText ?? null,
       embedding: insertDocument.embedding ?? null,
       ocrProcessed: insertDocument.ocrProcessed ?? false,
       ocrProcessedAt: insertDocument.ocrProcessedAt ?? null,
+      deletedAt: null,
       createdAt: now,
       updatedAt: now,
     };
@@ -469,34 +640,141 @@ export class MemStorage implements IStorage {
     return this.documents.get(id);
   }
 
+  async getDocumentsByContentHash(userId: string, contentHash: string): Promise<Document[]> {
+    return Array.from(this.documents.values())
+      .filter((doc) => doc.userId === userId && doc.contentHash === contentHash && !doc.deletedAt)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getDocumentByStudyInstanceUid(userId: string, studyInstanceUid: string): Promise<Document | undefined> {
+    return Array.from(this.documents.values()).find(
+      (doc) => doc.userId === userId && doc.studyInstanceUid === studyInstanceUid && !doc.deletedAt
+    );
+  }
+
+  async getDocumentByClientId(userId: string, clientId: string): Promise<Document | undefined> {
+    return Array.from(this.documents.values()).find(
+      (doc) => doc.userId === userId && doc.clientId === clientId
+    );
+  }
+
+  async getTrashedDocuments(userId: string): Promise<Document[]> {
+    return Array.from(this.documents.values())
+      .filter((doc) => doc.userId === userId && doc.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  async getDocumentsTrashedBefore(cutoff: Date): Promise<Document[]> {
+    return Array.from(this.documents.values()).filter(
+      (doc) => doc.deletedAt && doc.deletedAt.getTime() < cutoff.getTime()
+    );
+  }
+
   async getDocumentsByUserId(
     userId: string,
-    filters?: { type?: string; search?: string }
+    filters?: { type?: string; search?: string; collectionId?: string }
   ): Promise<Document[]> {
+    const docs = await this.filterDocuments(userId, filters ?? {});
+
+    // Sort by date (newest first)
+    return docs.sort((a, b) => {
+      const dateA = a.date || a.createdAt;
+      const dateB = b.date || b.createdAt;
+      return dateB.getTime() - dateA.getTime();
+    });
+  }
+
+  async listDocuments(userId: string, options: DocumentListOptions): Promise<DocumentListPage> {
+    const sort = options.sort ?? "date";
+    const order = options.order ?? "desc";
+    const docs = (await this.filterDocuments(userId, options)).sort((a, b) =>
+      compareDocumentCursors(getDocumentCursor(a, sort), getDocumentCursor(b, sort), order)
+    );
+
+    const cursor = options.cursor;
+    const start = cursor
+      ? docs.filter((doc) => compareDocumentCursors(getDocumentCursor(doc, sort), cursor, order) <= 0).length
+      : 0;
+    const end = start + (options.limit ?? DEFAULT_DOCUMENT_PAGE_SIZE);
+    const page = docs.slice(start, end);
+
+    return {
+      documents: page.map(toDocumentListItem),
+      nextCursor: end < docs.length && page.length > 0 ? getDocumentCursor(page[page.length - 1], sort) : null,
+      total: docs.length,
+    };
+  }
+
+  async getDocumentFacets(userId: string, filters: DocumentListFilters): Promise<DocumentFacets> {
+    // Each facet counts the documents matching every other filter, so switching between its values works
+    const [forTypes, forProviders] = await Promise.all([
+      this.filterDocuments(userId, { ...filters, type: undefined }),
+      this.filterDocuments(userId, { ...filters, provider: undefined }),
+    ]);
+    return buildDocumentFacets(
+      forTypes.map((doc) => doc.type),
+      forProviders.map((doc) => doc.provider)
+    );
+  }
+
+  private async filterDocuments(userId: string, filters: DocumentListFilters): Promise<Document[]> {
+    // Trashed documents are only listed by getTrashedDocuments
     let docs = Array.from(this.documents.values()).filter(
-      (doc) => doc.userId === userId
+      (doc) => doc.userId === userId && !doc.deletedAt
     );
 
-    if (filters?.type && filters.type !== "all") {
+    if (filters.type && filters.type !== "all") {
       docs = docs.filter((doc) => doc.type === filters.type);
     }
 
-    if (filters?.search) {
+    if (filters.collectionId) {
+      const documentIds = new Set(
+        (await this.getCollectionItems(filters.collectionId)).map((item) => item.documentId)
+      );
+      docs = docs.filter((doc) => documentIds.has(doc.id));
+    }
+
+    if (filters.provider) {
+      docs = docs.filter((doc) => doc.provider === filters.provider);
+    }
+
+    if (filters.tag) {
+      const tagLower = filters.tag.toLowerCase();
+      docs = docs.filter((doc) => {
+        const tags: string[] = doc.tags ? JSON.parse(doc.tags) : [];
+        return tags.some((tag) => tag.toLowerCase() === tagLower);
+      });
+    }
+
+    if (filters.from) {
+      docs = docs.filter((doc) => doc.date && doc.date >= filters.from!);
+    }
+    if (filters.to) {
+      docs = docs.filter((doc) => doc.date && doc.date < filters.to!);
+    }
+
+    if (filters.ocrProcessed !== undefined) {
+      docs = docs.filter((doc) => doc.ocrProcessed === filters.ocrProcessed);
+    }
+
+    if (filters.search) {
       const searchLower = filters.search.toLowerCase();
+      // Documents whose personal notes match are found too
+      const annotatedIds = new Set(
+        (await this.getDocumentAnnotationsByUserId(userId))
+          .filter((annotation) => annotation.note?.toLowerCase().includes(searchLower))
+          .map((annotation) => annotation.documentId)
+      );
       docs = docs.filter(
         (doc) =>
           doc.title.toLowerCase().includes(searchLower) ||
           (doc.provider && doc.provider.toLowerCase().includes(searchLower)) ||
-          (doc.tags && doc.tags.toLowerCase().includes(searchLower))
+          (doc.tags && doc.tags.toLowerCase().includes(searchLower)) ||
+          annotatedIds.has(doc.id)
       );
     }
 
-    // Sort by date (newest first)
-    return docs.sort((a, b) => {
-      const dateA = a.date || a.createdAt;
-      const dateB = b.date || b.createdAt;
-      return dateB.getTime() - dateA.getTime();
-    });
+    return docs;
   }
 
   async updateDocument(id: string, data: Partial<Document>): Promise<Document> {
@@ -519,6 +797,25 @@ export class MemStorage implements IStorage {
     versions.forEach((version) => {
       this.documentVersions.delete(version.id);
     });
+    await this.deleteLabObservationsByDocumentId(id);
+    (await this.getDocumentAnnotations(id)).forEach((annotation) => this.documentAnnotations.delete(annotation.id));
+    const redaction = await this.getDocumentRedaction(id);
+    if (redaction) this.documentRedactions.delete(redaction.id);
+    Array.from(this.dicomInstances.values())
+      .filter((instance) => instance.documentId === id)
+      .forEach((instance) => this.dicomInstances.delete(instance.id));
+    (await this.getCollectionItemsByDocumentId(id)).forEach((item) => this.collectionItems.delete(item.id));
+    // Tasks outlive their source document
+    Array.from(this.healthTasks.values())
+      .filter((task) => task.sourceDocumentId === id)
+      .forEach((task) => this.healthTasks.set(task.id, { ...task, sourceDocumentId: null }));
+    // Expenses are kept for tax records
+    Array.from(this.expenses.values())
+      .filter((expense) => expense.documentId === id)
+      .forEach((expense) => this.expenses.set(expense.id, { ...expense, documentId: null }));
+    Array.from(this.inboundEmailItems.values())
+      .filter((item) => item.documentId === id)
+      .forEach((item) => this.inboundEmailItems.set(item.id, { ...item, documentId: null }));
     this.documents.delete(id);
   }
 
@@ -533,6 +830,10 @@ export class MemStorage implements IStorage {
       documentId: insertVersion.documentId,
       version: insertVersion.version,
       fileUrl: insertVersion.fileUrl,
+      fileType: insertVersion.fileType ?? null,
+      fileSize: insertVersion.fileSize ?? null,
+      contentHash: insertVersion.contentHash ?? null,
+      extractedText: insertVersion.extractedText ?? null,
       note: insertVersion.note ?? null,
       createdAt: now,
     };
@@ -546,6 +847,621 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  async getDocumentVersion(id: string): Promise<DocumentVersion | undefined> {
+    return this.documentVersions.get(id);
+  }
+
+  async updateDocumentVersion(
+    id: string,
+    data: Partial<DocumentVersion>
+  ): Promise<DocumentVersion> {
+    const version = this.documentVersions.get(id);
+    if (!version) {
+      throw new Error("Document version not found");
+    }
+    const updated: DocumentVersion = {
+      ...version,
+      ...data,
+    };
+    this.documentVersions.set(id, updated);
+    return updated;
+  }
+
+  // DICOM instance methods
+  async createDicomInstance(insertInstance: InsertDicomInstance): Promise<DicomInstance> {
+    const id = randomUUID();
+    const instance: DicomInstance = {
+      id,
+      userId: insertInstance.userId,
+      documentId: insertInstance.documentId,
+      studyInstanceUid: insertInstance.studyInstanceUid,
+      seriesInstanceUid: insertInstance.seriesInstanceUid,
+      sopInstanceUid: insertInstance.sopInstanceUid,
+      seriesNumber: insertInstance.seriesNumber ?? null,
+      seriesDescription: insertInstance.seriesDescription ?? null,
+      instanceNumber: insertInstance.instanceNumber ?? null,
+      modality: insertInstance.modality ?? null,
+      bodyPart: insertInstance.bodyPart ?? null,
+      rows: insertInstance.rows ?? null,
+      columns: insertInstance.columns ?? null,
+      frameCount: insertInstance.frameCount ?? 1,
+      fileUrl: insertInstance.fileUrl,
+      fileSize: insertInstance.fileSize ?? null,
+      createdAt: new Date(),
+    };
+    this.dicomInstances.set(id, instance);
+    return instance;
+  }
+
+  async getDicomInstances(documentId: string): Promise<DicomInstance[]> {
+    // Viewer order: series by series number, then images by instance number
+    const order = (value: number | null) => value ?? Number.MAX_SAFE_INTEGER;
+    return Array.from(this.dicomInstances.values())
+      .filter((instance) => instance.documentId === documentId)
+      .sort(
+        (a, b) =>
+          order(a.seriesNumber) - order(b.seriesNumber) ||
+          a.seriesInstanceUid.localeCompare(b.seriesInstanceUid) ||
+          order(a.instanceNumber) - order(b.instanceNumber) ||
+          a.createdAt.getTime() - b.createdAt.getTime()
+      );
+  }
+
+  // Document processing job methods
+  async createProcessingJob(
+    insertJob: InsertDocumentProcessingJob
+  ): Promise<DocumentProcessingJob> {
+    const id = randomUUID();
+    const now = new Date();
+    const job: DocumentProcessingJob = {
+      id,
+      documentId: insertJob.documentId,
+      userId: insertJob.userId,
+      status: insertJob.status ?? "queued",
+      stage: null,
+      attempts: 0,
+      maxAttempts: insertJob.maxAttempts ?? 3,
+      autoImport: insertJob.autoImport ?? false,
+      lastError: null,
+      runAt: insertJob.runAt ?? now,
+      startedAt: null,
+      completedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.processingJobs.set(id, job);
+    return job;
+  }
+
+  async getProcessingJob(id: string): Promise<DocumentProcessingJob | undefined> {
+    return this.processingJobs.get(id);
+  }
+
+  async getLatestProcessingJob(documentId: string): Promise<DocumentProcessingJob | undefined> {
+    return Array.from(this.processingJobs.values())
+      .filter((job) => job.documentId === documentId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  }
+
+  async getProcessingJobsByUserId(
+    userId: string,
+    statuses?: string[]
+  ): Promise<DocumentProcessingJob[]> {
+    return Array.from(this.processingJobs.values())
+      .filter((job) => job.userId === userId)
+      .filter((job) => !statuses || statuses.includes(job.status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getDueProcessingJobs(limit: number): Promise<DocumentProcessingJob[]> {
+    const now = Date.now();
+    return Array.from(this.processingJobs.values())
+      .filter((job) => job.status === "queued" && job.runAt.getTime() <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit);
+  }
+
+  async updateProcessingJob(
+    id: string,
+    data: Partial<DocumentProcessingJob>
+  ): Promise<DocumentProcessingJob> {
+    const job = await this.getProcessingJob(id);
+    if (!job) {
+      throw new Error("Processing job not found");
+    }
+    const updated: DocumentProcessingJob = {
+      ...job,
+      ...data,
+      updatedAt: new Date(),
+    };
+    this.processingJobs.set(id, updated);
+    return updated;
+  }
+
+  async requeueRunningProcessingJobs(): Promise<number> {
+    const running = Array.from(this.processingJobs.values()).filter(
+      (job) => job.status === "running"
+    );
+    const now = new Date();
+    running.forEach((job) => {
+      this.processingJobs.set(job.id, { ...job, status: "queued", runAt: now, updatedAt: now });
+    });
+    return running.length;
+  }
+
+  // Encryption key methods
+  async getUserEncryptionKey(userId: string): Promise<UserEncryptionKey | undefined> {
+    return Array.from(this.encryptionKeys.values()).find((key) => key.userId === userId);
+  }
+
+  async getAllUserEncryptionKeys(): Promise<UserEncryptionKey[]> {
+    return Array.from(this.encryptionKeys.values());
+  }
+
+  async createUserEncryptionKey(insertKey: InsertUserEncryptionKey): Promise<UserEncryptionKey> {
+    if (await this.getUserEncryptionKey(insertKey.userId)) {
+      throw new Error("Encryption key already exists for user");
+    }
+    const id = randomUUID();
+    const key: UserEncryptionKey = {
+      id,
+      userId: insertKey.userId,
+      wrappedKey: insertKey.wrappedKey,
+      masterKeyId: insertKey.masterKeyId,
+      createdAt: new Date(),
+      rotatedAt: null,
+    };
+    this.encryptionKeys.set(id, key);
+    return key;
+  }
+
+  async updateUserEncryptionKey(
+    id: string,
+    data: Partial<UserEncryptionKey>
+  ): Promise<UserEncryptionKey> {
+    const key = this.encryptionKeys.get(id);
+    if (!key) {
+      throw new Error("Encryption key not found");
+    }
+    const updated: UserEncryptionKey = { ...key, ...data };
+    this.encryptionKeys.set(id, updated);
+    return updated;
+  }
+
+  // Lab observation methods
+  async getLabObservations(documentId: string): Promise<LabObservation[]> {
+    return Array.from(this.labObservations.values())
+      .filter((observation) => observation.documentId === documentId)
+      .sort((a, b) => a.position - b.position || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getLabObservationsByUserId(userId: string): Promise<LabObservation[]> {
+    return Array.from(this.labObservations.values())
+      .filter((observation) => observation.userId === userId)
+      .sort((a, b) => a.position - b.position || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getLabObservation(id: string): Promise<LabObservation | undefined> {
+    return this.labObservations.get(id);
+  }
+
+  async createLabObservation(insertObservation: InsertLabObservation): Promise<LabObservation> {
+    const id = randomUUID();
+    const now = new Date();
+    const observation: LabObservation = {
+      id,
+      userId: insertObservation.userId,
+      documentId: insertObservation.documentId,
+      analyte: insertObservation.analyte,
+      value: insertObservation.value,
+      numericValue: insertObservation.numericValue ?? null,
+      unit: insertObservation.unit ?? null,
+      referenceRange: insertObservation.referenceRange ?? null,
+      referenceLow: insertObservation.referenceLow ?? null,
+      referenceHigh: insertObservation.referenceHigh ?? null,
+      analyteCode: insertObservation.analyteCode ?? null,
+      normalizedValue: insertObservation.normalizedValue ?? null,
+      normalizedUnit: insertObservation.normalizedUnit ?? null,
+      normalizedReferenceLow: insertObservation.normalizedReferenceLow ?? null,
+      normalizedReferenceHigh: insertObservation.normalizedReferenceHigh ?? null,
+      abnormalFlag: insertObservation.abnormalFlag ?? null,
+      specimenDate: insertObservation.specimenDate ?? null,
+      position: insertObservation.position ?? 0,
+      source: insertObservation.source,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.labObservations.set(id, observation);
+    return observation;
+  }
+
+  async updateLabObservation(id: string, data: Partial<LabObservation>): Promise<LabObservation> {
+    const observation = this.labObservations.get(id);
+    if (!observation) {
+      throw new Error("Lab observation not found");
+    }
+    const updated: LabObservation = {
+      ...observation,
+      ...data,
+      updatedAt: new Date(),
+    };
+    this.labObservations.set(id, updated);
+    return updated;
+  }
+
+  async deleteLabObservation(id: string): Promise<void> {
+    this.labObservations.delete(id);
+  }
+
+  async deleteLabObservationsByDocumentId(documentId: string, source?: string): Promise<void> {
+    Array.from(this.labObservations.values())
+      .filter((observation) => observation.documentId === documentId)
+      .filter((observation) => !source || observation.source === source)
+      .forEach((observation) => this.labObservations.delete(observation.id));
+  }
+
+  // Document annotation methods
+  async getDocumentAnnotations(documentId: string): Promise<DocumentAnnotation[]> {
+    return Array.from(this.documentAnnotations.values())
+      .filter((annotation) => annotation.documentId === documentId)
+      .sort((a, b) => (a.page ?? 0) - (b.page ?? 0) || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getDocumentAnnotationsByUserId(userId: string): Promise<DocumentAnnotation[]> {
+    return Array.from(this.documentAnnotations.values())
+      .filter((annotation) => annotation.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getDocumentAnnotation(id: string): Promise<DocumentAnnotation | undefined> {
+    return this.documentAnnotations.get(id);
+  }
+
+  async createDocumentAnnotation(insertAnnotation: InsertDocumentAnnotation): Promise<DocumentAnnotation> {
+    const id = randomUUID();
+    const now = new Date();
+    const annotation: DocumentAnnotation = {
+      id,
+      userId: insertAnnotation.userId,
+      documentId: insertAnnotation.documentId,
+      page: insertAnnotation.page ?? null,
+      regionX: insertAnnotation.regionX ?? null,
+      regionY: insertAnnotation.regionY ?? null,
+      regionWidth: insertAnnotation.regionWidth ?? null,
+      regionHeight: insertAnnotation.regionHeight ?? null,
+      color: insertAnnotation.color ?? "yellow",
+      note: insertAnnotation.note ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.documentAnnotations.set(id, annotation);
+    return annotation;
+  }
+
+  async updateDocumentAnnotation(id: string, data: Partial<DocumentAnnotation>): Promise<DocumentAnnotation> {
+    const annotation = this.documentAnnotations.get(id);
+    if (!annotation) {
+      throw new Error("Document annotation not found");
+    }
+    const updated: DocumentAnnotation = {
+      ...annotation,
+      ...data,
+      updatedAt: new Date(),
+    };
+    this.documentAnnotations.set(id, updated);
+    return updated;
+  }
+
+  async deleteDocumentAnnotation(id: string): Promise<void> {
+    this.documentAnnotations.delete(id);
+  }
+
+  // Document redaction methods
+  async getDocumentRedaction(documentId: string): Promise<DocumentRedaction | undefined> {
+    return Array.from(this.documentRedactions.values()).find((redaction) => redaction.documentId === documentId);
+  }
+
+  async getDocumentRedactionsByUserId(userId: string): Promise<DocumentRedaction[]> {
+    return Array.from(this.documentRedactions.values())
+      .filter((redaction) => redaction.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async createDocumentRedaction(insertRedaction: InsertDocumentRedaction): Promise<DocumentRedaction> {
+    if (await this.getDocumentRedaction(insertRedaction.documentId)) {
+      throw new Error("Document already has a redaction");
+    }
+    const id = randomUUID();
+    const now = new Date();
+    const redaction: DocumentRedaction = {
+      id,
+      userId: insertRedaction.userId,
+      documentId: insertRedaction.documentId,
+      regions: insertRedaction.regions,
+      fileUrl: insertRedaction.fileUrl,
+      fileType: insertRedaction.fileType,
+      sourceContentHash: insertRedaction.sourceContentHash ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.documentRedactions.set(id, redaction);
+    return redaction;
+  }
+
+  async updateDocumentRedaction(id: string, data: Partial<DocumentRedaction>): Promise<DocumentRedaction> {
+    const redaction = this.documentRedactions.get(id);
+    if (!redaction) {
+      throw new Error("Document redaction not found");
+    }
+    const updated: DocumentRedaction = {
+      ...redaction,
+      ...data,
+      updatedAt: new Date(),
+    };
+    this.documentRedactions.set(id, updated);
+    return updated;
+  }
+
+  async deleteDocumentRedaction(id: string): Promise<void> {
+    this.documentRedactions.delete(id);
+  }
+
+  // Data export methods
+  async createDataExport(insertExport: InsertDataExport): Promise<DataExport> {
+    const id = randomUUID();
+    const now = new Date();
+    const dataExport: DataExport = {
+      id,
+      userId: insertExport.userId,
+      status: insertExport.status ?? "queued",
+      fileUrl: null,
+      fileSize: null,
+      documentCount: null,
+      error: null,
+      expiresAt: null,
+      completedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.dataExports.set(id, dataExport);
+    return dataExport;
+  }
+
+  async getDataExport(id: string): Promise<DataExport | undefined> {
+    return this.dataExports.get(id);
+  }
+
+  async getDataExportsByUserId(userId: string): Promise<DataExport[]> {
+    return Array.from(this.dataExports.values())
+      .filter((dataExport) => dataExport.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getDataExportsExpiredBefore(cutoff: Date): Promise<DataExport[]> {
+    return Array.from(this.dataExports.values()).filter(
+      (dataExport) => dataExport.expiresAt && dataExport.expiresAt.getTime() < cutoff.getTime()
+    );
+  }
+
+  async updateDataExport(id: string, data: Partial<DataExport>): Promise<DataExport> {
+    const dataExport = this.dataExports.get(id);
+    if (!dataExport) {
+      throw new Error("Data export not found");
+    }
+    const updated: DataExport = {
+      ...dataExport,
+      ...data,
+      updatedAt: new Date(),
+    };
+    this.dataExports.set(id, updated);
+    return updated;
+  }
+
+  async deleteDataExport(id: string): Promise<void> {
+    this.dataExports.delete(id);
+  }
+
+  // Inbound email methods
+  async getInboundEmailAddress(userId: string): Promise<InboundEmailAddress | undefined> {
+    return Array.from(this.inboundEmailAddresses.values()).find((address) => address.userId === userId);
+  }
+
+  async getInboundEmailAddressByToken(token: string): Promise<InboundEmailAddress | undefined> {
+    return Array.from(this.inboundEmailAddresses.values()).find((address) => address.token === token);
+  }
+
+  async createInboundEmailAddress(insertAddress: InsertInboundEmailAddress): Promise<InboundEmailAddress> {
+    const id = randomUUID();
+    const now = new Date();
+    const address: InboundEmailAddress = {
+      id,
+      userId: insertAddress.userId,
+      token: insertAddress.token,
+      trustedSenders: insertAddress.trustedSenders,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.inboundEmailAddresses.set(id, address);
+    return address;
+  }
+
+  async updateInboundEmailAddress(id: string, data: Partial<InboundEmailAddress>): Promise<InboundEmailAddress> {
+    const address = this.inboundEmailAddresses.get(id);
+    if (!address) {
+      throw new Error("Inbound email address not found");
+    }
+    const updated: InboundEmailAddress = {
+      ...address,
+      ...data,
+      updatedAt: new Date(),
+    };
+    this.inboundEmailAddresses.set(id, updated);
+    return updated;
+  }
+
+  async getInboundEmailItems(userId: string, filters?: { status?: string }): Promise<InboundEmailItem[]> {
+    return Array.from(this.inboundEmailItems.values())
+      .filter((item) => item.userId === userId && (!filters?.status || item.status === filters.status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getInboundEmailItem(id: string): Promise<InboundEmailItem | undefined> {
+    return this.inboundEmailItems.get(id);
+  }
+
+  async getInboundEmailItemsByMessageId(userId: string, messageId: string): Promise<InboundEmailItem[]> {
+    return Array.from(this.inboundEmailItems.values())
+      .filter((item) => item.userId === userId && item.messageId === messageId);
+  }
+
+  async getQueuedInboundEmailItems(): Promise<InboundEmailItem[]> {
+    return Array.from(this.inboundEmailItems.values())
+      .filter((item) => item.status === "queued")
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createInboundEmailItem(insertItem: InsertInboundEmailItem): Promise<InboundEmailItem> {
+    const id = randomUUID();
+    const now = new Date();
+    const item: InboundEmailItem = {
+      id,
+      userId: insertItem.userId,
+      sender: insertItem.sender,
+      senderName: insertItem.senderName ?? null,
+      subject: insertItem.subject ?? null,
+      messageId: insertItem.messageId ?? null,
+      fileName: insertItem.fileName,
+      mimeType: insertItem.mimeType,
+      fileSize: insertItem.fileSize,
+      fileUrl: insertItem.fileUrl ?? null,
+      contentHash: insertItem.contentHash,
+      status: insertItem.status ?? "review",
+      documentId: insertItem.documentId ?? null,
+      reason: insertItem.reason ?? null,
+      processedAt: insertItem.processedAt ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.inboundEmailItems.set(id, item);
+    return item;
+  }
+
+  async updateInboundEmailItem(id: string, data: Partial<InboundEmailItem>): Promise<InboundEmailItem> {
+    const item = this.inboundEmailItems.get(id);
+    if (!item) {
+      throw new Error("Inbound email item not found");
+    }
+    const updated: InboundEmailItem = {
+      ...item,
+      ...data,
+      updatedAt: new Date(),
+    };
+    this.inboundEmailItems.set(id, updated);
+    return updated;
+  }
+
+  async deleteInboundEmailItem(id: string): Promise<void> {
+    this.inboundEmailItems.delete(id);
+  }
+
+  // Collection methods
+  async getCollections(userId: string): Promise<Collection[]> {
+    return Array.from(this.collections.values())
+      .filter((collection) => collection.userId === userId)
+      .sort((a, b) => a.position - b.position || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getCollection(id: string): Promise<Collection | undefined> {
+    return this.collections.get(id);
+  }
+
+  async createCollection(insertCollection: InsertCollection): Promise<Collection> {
+    const id = randomUUID();
+    const now = new Date();
+    const collection: Collection = {
+      id,
+      userId: insertCollection.userId,
+      name: insertCollection.name,
+      description: insertCollection.description ?? null,
+      color: insertCollection.color ?? null,
+      position: insertCollection.position ?? 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.collections.set(id, collection);
+    return collection;
+  }
+
+  async updateCollection(id: string, data: Partial<Collection>): Promise<Collection> {
+    const collection = this.collections.get(id);
+    if (!collection) {
+      throw new Error("Collection not found");
+    }
+    const updated: Collection = {
+      ...collection,
+      ...data,
+      updatedAt: new Date(),
+    };
+    this.collections.set(id, updated);
+    return updated;
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    (await this.getCollectionItems(id)).forEach((item) => this.collectionItems.delete(item.id));
+    this.collections.delete(id);
+  }
+
+  async getCollectionItems(collectionId: string): Promise<CollectionItem[]> {
+    return Array.from(this.collectionItems.values())
+      .filter((item) => item.collectionId === collectionId)
+      .sort((a, b) => a.position - b.position || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getCollectionItemsByDocumentId(documentId: string): Promise<CollectionItem[]> {
+    return Array.from(this.collectionItems.values()).filter((item) => item.documentId === documentId);
+  }
+
+  async getCollectionItem(id: string): Promise<CollectionItem | undefined> {
+    return this.collectionItems.get(id);
+  }
+
+  async createCollectionItem(insertItem: InsertCollectionItem): Promise<CollectionItem> {
+    const id = randomUUID();
+    const now = new Date();
+    const item: CollectionItem = {
+      id,
+      collectionId: insertItem.collectionId,
+      userId: insertItem.userId,
+      itemType: insertItem.itemType,
+      documentId: insertItem.documentId ?? null,
+      medicationId: insertItem.medicationId ?? null,
+      note: insertItem.note ?? null,
+      position: insertItem.position ?? 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.collectionItems.set(id, item);
+    return item;
+  }
+
+  async updateCollectionItem(id: string, data: Partial<CollectionItem>): Promise<CollectionItem> {
+    const item = this.collectionItems.get(id);
+    if (!item) {
+      throw new Error("Collection item not found");
+    }
+    const updated: CollectionItem = {
+      ...item,
+      ...data,
+      updatedAt: new Date(),
+    };
+    this.collectionItems.set(id, updated);
+    return updated;
+  }
+
+  async deleteCollectionItem(id: string): Promise<void> {
+    this.collectionItems.delete(id);
+  }
+
   // Consent methods
   generateShareableToken(): string {
     return randomUUID() + randomUUID().replace(/-/g, '');
@@ -555,6 +1471,8 @@ export class MemStorage implements IStorage {
     recipientName: string;
     recipientRole: string;
     scopes: string[];
+    collectionId?: string;
+    includeAnnotations?: boolean;
     durationType: '24h' | '7d' | 'custom';
     customExpiryDate?: Date;
     purpose: string;
@@ -580,6 +1498,8 @@ export class MemStorage implements IStorage {
       recipientName: data.recipientName,
       recipientRole: data.recipientRole,
       scopes: JSON.stringify(data.scopes),
+      collectionId: data.collectionId ?? null,
+      includeAnnotations: data.includeAnnotations ?? false,
       durationType: data.durationType,
       customExpiryDate: data.customExpiryDate || null,
       purpose: data.purpose,
@@ -911,6 +1831,9 @@ export class MemStorage implements IStorage {
   async deleteMedication(id: string): Promise<void> {
     // Delete medication and all associated reminders
     await this.deleteRemindersForMedication(id);
+    Array.from(this.collectionItems.values())
+      .filter((item) => item.medicationId === id)
+      .forEach((item) => this.collectionItems.delete(item.id));
     this.medications.delete(id);
   }
 
@@ -964,6 +1887,152 @@ export class MemStorage implements IStorage {
     reminders.forEach(r => this.medicationReminders.delete(r.id));
   }
 
+  // Health task methods
+  async getHealthTasks(userId: string, filters?: { status?: string; documentId?: string }): Promise<HealthTask[]> {
+    let tasks = Array.from(this.healthTasks.values()).filter(t => t.userId === userId);
+
+    if (filters?.status) {
+      tasks = tasks.filter(t => t.status === filters.status);
+    }
+    if (filters?.documentId) {
+      tasks = tasks.filter(t => t.sourceDocumentId === filters.documentId);
+    }
+
+    // Soonest due first; tasks without a due date last
+    return tasks.sort((a, b) => {
+      if (!a.dueDate || !b.dueDate) return a.dueDate ? -1 : b.dueDate ? 1 : 0;
+      return a.dueDate.getTime() - b.dueDate.getTime();
+    });
+  }
+
+  async getHealthTask(id: string): Promise<HealthTask | undefined> {
+    return this.healthTasks.get(id);
+  }
+
+  async createHealthTask(data: InsertHealthTask): Promise<HealthTask> {
+    const id = randomUUID();
+    const now = new Date();
+
+    const task: HealthTask = {
+      id,
+      userId: data.userId,
+      title: data.title,
+      notes: data.notes ?? null,
+      dueDate: data.dueDate ?? null,
+      remindAt: data.remindAt ?? null,
+      reminderSentAt: data.reminderSentAt ?? null,
+      status: data.status || 'pending',
+      source: data.source,
+      sourceDocumentId: data.sourceDocumentId ?? null,
+      sourceText: data.sourceText ?? null,
+      completedAt: data.completedAt ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.healthTasks.set(id, task);
+    return task;
+  }
+
+  async updateHealthTask(id: string, data: Partial<InsertHealthTask>): Promise<HealthTask> {
+    const task = await this.getHealthTask(id);
+    if (!task) {
+      throw new Error('Health task not found');
+    }
+
+    const updated: HealthTask = {
+      ...task,
+      ...data,
+      updatedAt: new Date(),
+    };
+
+    this.healthTasks.set(id, updated);
+    return updated;
+  }
+
+  async deleteHealthTask(id: string): Promise<void> {
+    this.healthTasks.delete(id);
+  }
+
+  async getDueHealthTaskReminders(): Promise<HealthTask[]> {
+    const now = new Date();
+    return Array.from(this.healthTasks.values())
+      .filter(t => t.status === 'pending' && !t.reminderSentAt && t.remindAt && t.remindAt <= now);
+  }
+
+  // Expense methods
+  async getExpenses(userId: string, filters?: { from?: Date; to?: Date; category?: string; documentId?: string }): Promise<Expense[]> {
+    let expenses = Array.from(this.expenses.values()).filter(e => e.userId === userId);
+
+    if (filters?.from) {
+      expenses = expenses.filter(e => e.paymentDate >= filters.from!);
+    }
+    if (filters?.to) {
+      expenses = expenses.filter(e => e.paymentDate < filters.to!);
+    }
+    if (filters?.category) {
+      expenses = expenses.filter(e => e.category === filters.category);
+    }
+    if (filters?.documentId) {
+      expenses = expenses.filter(e => e.documentId === filters.documentId);
+    }
+
+    // Most recent payment first
+    return expenses.sort((a, b) => b.paymentDate.getTime() - a.paymentDate.getTime());
+  }
+
+  async getExpense(id: string): Promise<Expense | undefined> {
+    return this.expenses.get(id);
+  }
+
+  async createExpense(data: InsertExpense): Promise<Expense> {
+    const id = randomUUID();
+    const now = new Date();
+
+    const expense: Expense = {
+      id,
+      userId: data.userId,
+      documentId: data.documentId ?? null,
+      payee: data.payee,
+      description: data.description ?? null,
+      category: data.category || 'other',
+      amount: data.amount,
+      gstAmount: data.gstAmount ?? null,
+      currency: data.currency || 'INR',
+      payer: data.payer ?? null,
+      paymentDate: data.paymentDate,
+      invoiceNumber: data.invoiceNumber ?? null,
+      reimbursementStatus: data.reimbursementStatus || 'none',
+      notes: data.notes ?? null,
+      source: data.source,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.expenses.set(id, expense);
+    return expense;
+  }
+
+  async updateExpense(id: string, data: Partial<InsertExpense>): Promise<Expense> {
+    const expense = await this.getExpense(id);
+    if (!expense) {
+      throw new Error('Expense not found');
+    }
+
+    const updated: Expense = {
+      ...expense,
+      ...data,
+      updatedAt: new Date(),
+    };
+
+    this.expenses.set(id, updated);
+    return updated;
+  }
+
+  async deleteExpense(id: string): Promise<void> {
+    this.expenses.delete(id);
+  }
+
   // Push subscription methods
   async getPushSubscriptions(userId: string): Promise<PushSubscription[]> {
     return Array.from(this.pushSubscriptions.values())
@@ -13,6 +13,28 @@ import {
   type InsertDocument,
   type DocumentVersion,
   type InsertDocumentVersion,
+  type DicomInstance,
+  type InsertDicomInstance,
+  type DocumentProcessingJob,
+  type UserEncryptionKey,
+  type InsertUserEncryptionKey,
+  type DataExport,
+  type InsertDataExport,
+  type InboundEmailAddress,
+  type InsertInboundEmailAddress,
+  type InboundEmailItem,
+  type InsertInboundEmailItem,
+  type Collection,
+  type InsertCollection,
+  type CollectionItem,
+  type InsertCollectionItem,
+  type LabObservation,
+  type InsertLabObservation,
+  type DocumentAnnotation,
+  type InsertDocumentAnnotation,
+  type DocumentRedaction,
+  type InsertDocumentRedaction,
+  type InsertDocumentProcessingJob,
   type Consent,
   type ConsentAuditLog,
   type EmergencyCard,
@@ -21,6 +43,10 @@ import {
   type InsertMedication,
   type MedicationReminder,
   type InsertMedicationReminder,
+  type HealthTask,
+  type InsertHealthTask,
+  type Expense,
+  type InsertExpense,
   type PushSubscription,
   type InsertPushSubscription,
   type ChatConversation,
@@ -29,8 +55,41 @@ import {
   type InsertChatMessage,
 } from "@shared/schema";
 import { IStorage } from "./storage";
+import {
+  buildDocumentFacets,
+  DEFAULT_DOCUMENT_PAGE_SIZE,
+  getDocumentCursor,
+  toDocumentListItem,
+  type DocumentFacets,
+  type DocumentListFilters,
+  type DocumentListOptions,
+  type DocumentListPage,
+  type DocumentSortField,
+} from "./utils/documentList";
 import { randomUUID } from "crypto";
 
+// Document columns fetched for the list - everything but the extracted text and embedding
+const DOCUMENT_LIST_COLUMNS =
+  "id, user_id, title, type, provider, date, file_url, file_type, file_size, page_count, content_hash, " +
+  "study_instance_uid, client_id, tags, sync_status, ocr_processed, ocr_processed_at, ai_insight, " +
+  "ai_insight_generated_at, deleted_at, created_at, updated_at";
+
+const DOCUMENT_SORT_COLUMNS: Record<DocumentSortField, string> = {
+  date: "date",
+  createdAt: "created_at",
+  title: "title",
+};
+
+// Quote a value for a PostgREST or() filter, where commas and parentheses are syntax
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+// Escape LIKE wildcards so the value matches literally
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
 export class SupabaseStorage implements IStorage {
   private supabase: SupabaseClient;
 
@@ -345,6 +404,9 @@ export class SupabaseStorage implements IStorage {
       file_url: insertDocument.fileUrl,
       file_type: insertDocument.fileType ?? null,
       file_size: insertDocument.fileSize ?? null,
+      content_hash: insertDocument.contentHash ?? null,
+      study_instance_uid: insertDocument.studyInstanceUid ?? null,
+      client_id: insertDocument.clientId ?? null,
       tags: insertDocument.tags ?? null,
       sync_status: insertDocument.syncStatus ?? "synced",
       extracted_text: insertDocument.extractedText ?? null,
@@ -376,19 +438,92 @@ export class SupabaseStorage implements IStorage {
     return this.mapDocumentFromDb(data);
   }
 
+  async getDocumentsByContentHash(userId: string, contentHash: string): Promise<Document[]> {
+    const { data, error } = await this.supabase
+      .from("documents")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("content_hash", contentHash)
+      .is("deleted_at", null)
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(`Failed to get documents by content hash: ${error.message}`);
+    if (!data) return [];
+
+    return data.map((doc) => this.mapDocumentFromDb(doc));
+  }
+
+  async getDocumentByStudyInstanceUid(userId: string, studyInstanceUid: string): Promise<Document | undefined> {
+    const { data, error } = await this.supabase
+      .from("documents")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("study_instance_uid", studyInstanceUid)
+      .is("deleted_at", null)
+      .order("created_at", { ascending: true })
+      .limit(1);
+
+    if (error) throw new Error(`Failed to get document by study: ${error.message}`);
+    return data && data.length > 0 ? this.mapDocumentFromDb(data[0]) : undefined;
+  }
+
+  async getDocumentByClientId(userId: string, clientId: string): Promise<Document | undefined> {
+    const { data, error } = await this.supabase
+      .from("documents")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("client_id", clientId)
+      .limit(1);
+
+    if (error) throw new Error(`Failed to get document by client id: ${error.message}`);
+    return data && data.length > 0 ? this.mapDocumentFromDb(data[0]) : undefined;
+  }
+
+  async getTrashedDocuments(userId: string): Promise<Document[]> {
+    const { data, error } = await this.supabase
+      .from("documents")
+      .select("*")
+      .eq("user_id", userId)
+      .not("deleted_at", "is", null)
+      .order("deleted_at", { ascending: false });
+
+    if (error) throw new Error(`Failed to get trashed documents: ${error.message}`);
+    return (data || []).map((doc) => this.mapDocumentFromDb(doc));
+  }
+
+  async getDocumentsTrashedBefore(cutoff: Date): Promise<Document[]> {
+    const { data, error } = await this.supabase
+      .from("documents")
+      .select("*")
+      .lt("deleted_at", cutoff.toISOString());
+
+    if (error) throw new Error(`Failed to get expired trashed documents: ${error.message}`);
+    return (data || []).map((doc) => this.mapDocumentFromDb(doc));
+  }
+
   async getDocumentsByUserId(
     userId: string,
-    filters?: { type?: string; search?: string }
+    filters?: { type?: string; search?: string; collectionId?: string }
   ): Promise<Document[]> {
+    // Trashed documents are only listed by getTrashedDocuments
     let query = this.supabase
       .from("documents")
       .select("*")
-      .eq("user_id", userId);
+      .eq("user_id", userId)
+      .is("deleted_at", null);
 
     if (filters?.type && filters.type !== "all") {
       query = query.eq("type", filters.type);
     }
 
+    if (filters?.collectionId) {
+      const documentIds = (await this.getCollectionItems(filters.collectionId))
+        .map((item) => item.documentId)
+        .filter((id): id is string => !!id);
+      if (documentIds.length === 0) return [];
+      query = query.in("id", documentIds);
+    }
+
     const { data, error } = await query.order("created_at", { ascending: false });
 
     if (error) throw new Error(`Failed to get documents: ${error.message}`);
@@ -399,17 +534,154 @@ export class SupabaseStorage implements IStorage {
     // Apply search filter if provided
     if (filters?.search) {
       const searchLower = filters.search.toLowerCase();
+      // Documents whose personal notes match are found too
+      const annotatedIds = new Set(
+        (await this.getDocumentAnnotationsByUserId(userId))
+          .filter((annotation) => annotation.note?.toLowerCase().includes(searchLower))
+          .map((annotation) => annotation.documentId)
+      );
       documents = documents.filter(
         (doc) =>
           doc.title.toLowerCase().includes(searchLower) ||
           (doc.provider && doc.provider.toLowerCase().includes(searchLower)) ||
-          (doc.tags && doc.tags.toLowerCase().includes(searchLower))
+          (doc.tags && doc.tags.toLowerCase().includes(searchLower)) ||
+          annotatedIds.has(doc.id)
       );
     }
 
     return documents;
   }
 
+  async listDocuments(userId: string, options: DocumentListOptions): Promise<DocumentListPage> {
+    const sort = options.sort ?? "date";
+    const ascending = options.order === "asc";
+    const column = DOCUMENT_SORT_COLUMNS[sort];
+
+    let query = await this.applyDocumentFilters(
+      this.supabase.from("documents").select(DOCUMENT_LIST_COLUMNS, { count: "exact" }),
+      userId,
+      options
+    );
+    if (!query) return { documents: [], nextCursor: null, total: 0 };
+
+    // Keyset pagination: documents after the cursor in (sort value, id) order, undated documents last
+    const cursor = options.cursor;
+    if (cursor) {
+      const after = ascending ? "gt" : "lt";
+      if (cursor.value === null) {
+        query = query.is(column, null)[after]("id", cursor.id);
+      } else {
+        const value = quoteFilterValue(cursor.value);
+        const conditions = [
+          `${column}.${after}.${value}`,
+          `and(${column}.eq.${value},id.${after}.${quoteFilterValue(cursor.id)})`,
+        ];
+        if (sort === "date") conditions.push(`${column}.is.null`);
+        query = query.or(conditions.join(","));
+      }
+    }
+
+    query = query
+      .order(column, { ascending, nullsFirst: false })
+      .order("id", { ascending });
+    // One extra row tells whether there is another page
+    const limit = options.limit ?? DEFAULT_DOCUMENT_PAGE_SIZE;
+    query = query.limit(limit + 1);
+
+    const { data, error, count } = await query;
+
+    if (error) throw new Error(`Failed to list documents: ${error.message}`);
+
+    const rows: any[] = data || [];
+    const hasMore = rows.length > limit;
+    const documents = rows.slice(0, limit).map((row) => toDocumentListItem(this.mapDocumentFromDb(row)));
+
+    return {
+      documents,
+      nextCursor: hasMore ? getDocumentCursor(documents[documents.length - 1], sort) : null,
+      total: count ?? documents.length,
+    };
+  }
+
+  async getDocumentFacets(userId: string, filters: DocumentListFilters): Promise<DocumentFacets> {
+    // Each facet counts the documents matching every other filter, so switching between its values works
+    const fetchColumn = async (column: "type" | "provider", facetFilters: DocumentListFilters) => {
+      const query = await this.applyDocumentFilters(
+        this.supabase.from("documents").select(column),
+        userId,
+        facetFilters
+      );
+      if (!query) return [];
+
+      const { data, error } = await query;
+      if (error) throw new Error(`Failed to get document facets: ${error.message}`);
+      return (data || []).map((row: any) => row[column] as string | null);
+    };
+
+    const [types, providers] = await Promise.all([
+      fetchColumn("type", { ...filters, type: undefined }),
+      fetchColumn("provider", { ...filters, provider: undefined }),
+    ]);
+    return buildDocumentFacets(types as string[], providers);
+  }
+
+  /**
+   * Add the document list filters to a query
+   * @returns The filtered query, or null if no document can match (e.g. an empty collection)
+   */
+  private async applyDocumentFilters(query: any, userId: string, filters: DocumentListFilters): Promise<any | null> {
+    // Trashed documents are only listed by getTrashedDocuments
+    query = query.eq("user_id", userId).is("deleted_at", null);
+
+    if (filters.type && filters.type !== "all") {
+      query = query.eq("type", filters.type);
+    }
+
+    if (filters.collectionId) {
+      const documentIds = (await this.getCollectionItems(filters.collectionId))
+        .map((item) => item.documentId)
+        .filter((id): id is string => !!id);
+      if (documentIds.length === 0) return null;
+      query = query.in("id", documentIds);
+    }
+
+    if (filters.provider) {
+      query = query.eq("provider", filters.provider);
+    }
+
+    if (filters.tag) {
+      // Tags are stored as a JSON array, so a whole tag is matched with its quotes
+      query = query.ilike("tags", `%${escapeLikePattern(JSON.stringify(filters.tag))}%`);
+    }
+
+    if (filters.from) {
+      query = query.gte("date", filters.from.toISOString());
+    }
+    if (filters.to) {
+      query = query.lt("date", filters.to.toISOString());
+    }
+
+    if (filters.ocrProcessed !== undefined) {
+      query = query.eq("ocr_processed", filters.ocrProcessed);
+    }
+
+    if (filters.search) {
+      const searchLower = filters.search.toLowerCase();
+      // Documents whose personal notes match are found too
+      const annotatedIds = (await this.getDocumentAnnotationsByUserId(userId))
+        .filter((annotation) => annotation.note?.toLowerCase().includes(searchLower))
+        .map((annotation) => annotation.documentId);
+      const pattern = quoteFilterValue(`%${escapeLikePattern(filters.search)}%`);
+      const conditions = [`title.ilike.${pattern}`, `provider.ilike.${pattern}`, `tags.ilike.${pattern}`];
+      if (annotatedIds.length > 0) {
+        conditions.push(`id.in.(${Array.from(new Set(annotatedIds)).map(quoteFilterValue).join(",")})`);
+      }
+      query = query.or(conditions.join(","));
+    }
+
+    return query;
+  }
+
   async updateDocument(id: string, data: Partial<Document>): Promise<Document> {
     const updateData: any = {
       updated_at: new Date().toISOString(),
@@ -421,9 +693,22 @@ export class SupabaseStorage implements IStorage {
       updateData.date = data.date?.toISOString() ?? null;
     if (data.tags !== undefined) updateData.tags = data.tags;
     if (data.syncStatus !== undefined) updateData.sync_status = data.syncStatus;
+    if (data.fileUrl !== undefined) updateData.file_url = data.fileUrl;
+    if (data.fileType !== undefined) updateData.file_type = data.fileType;
+    if (data.fileSize !== undefined) updateData.file_size = data.fileSize;
+    if (data.pageCount !== undefined) updateData.page_count = data.pageCount;
+    if (data.contentHash !== undefined) updateData.content_hash = data.contentHash;
+    if (data.studyInstanceUid !== undefined) updateData.study_instance_uid = data.studyInstanceUid;
+    if (data.extractedText !== undefined) updateData.extracted_text = data.extractedText;
+    if (data.embedding !== undefined) updateData.embedding = data.embedding;
+    if (data.ocrProcessed !== undefined) updateData.ocr_processed = data.ocrProcessed;
+    if (data.ocrProcessedAt !== undefined)
+      updateData.ocr_processed_at = data.ocrProcessedAt?.toISOString() ?? null;
     if (data.aiInsight !== undefined) updateData.ai_insight = data.aiInsight;
     if (data.aiInsightGeneratedAt !== undefined)
       updateData.ai_insight_generated_at = data.aiInsightGeneratedAt?.toISOString() ?? null;
+    if (data.deletedAt !== undefined)
+      updateData.deleted_at = data.deletedAt?.toISOString() ?? null;
 
     const { data: updated, error } = await this.supabase
       .from("documents")
@@ -437,8 +722,19 @@ export class SupabaseStorage implements IStorage {
   }
 
   async deleteDocument(id: string): Promise<void> {
-    // Delete versions first (cascade should handle this, but being explicit)
+    // Delete versions and processing jobs first (cascade should handle this, but being explicit)
     await this.supabase.from("document_versions").delete().eq("document_id", id);
+    await this.supabase.from("document_processing_jobs").delete().eq("document_id", id);
+    await this.supabase.from("lab_observations").delete().eq("document_id", id);
+    await this.supabase.from("document_annotations").delete().eq("document_id", id);
+    await this.supabase.from("document_redactions").delete().eq("document_id", id);
+    await this.supabase.from("dicom_instances").delete().eq("document_id", id);
+    await this.supabase.from("collection_items").delete().eq("document_id", id);
+    // Tasks outlive their source document
+    await this.supabase.from("health_tasks").update({ source_document_id: null }).eq("source_document_id", id);
+    await this.supabase.from("inbound_email_items").update({ document_id: null }).eq("document_id", id);
+    // Expenses are kept for tax records
+    await this.supabase.from("expenses").update({ document_id: null }).eq("document_id", id);
 
     const { error } = await this.supabase.from("documents").delete().eq("id", id);
 
@@ -455,132 +751,1311 @@ export class SupabaseStorage implements IStorage {
       document_id: insertVersion.documentId,
       version: insertVersion.version,
       file_url: insertVersion.fileUrl,
+      file_type: insertVersion.fileType ?? null,
+      file_size: insertVersion.fileSize ?? null,
+      content_hash: insertVersion.contentHash ?? null,
+      extracted_text: insertVersion.extractedText ?? null,
       note: insertVersion.note ?? null,
       created_at: new Date().toISOString(),
     };
 
     const { data, error } = await this.supabase
-      .from("document_versions")
-      .insert(versionData)
-      .select()
-      .single();
+      .from("document_versions")
+      .insert(versionData)
+      .select()
+      .single();
+
+    if (error)
+      throw new Error(`Failed to create document version: ${error.message}`);
+    return this.mapDocumentVersionFromDb(data);
+  }
+
+  async getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+    const { data, error } = await this.supabase
+      .from("document_versions")
+      .select("*")
+      .eq("document_id", documentId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw new Error(`Failed to get document versions: ${error.message}`);
+    if (!data) return [];
+
+    return data.map((v) => this.mapDocumentVersionFromDb(v));
+  }
+
+  async getDocumentVersion(id: string): Promise<DocumentVersion | undefined> {
+    const { data, error } = await this.supabase
+      .from("document_versions")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error || !data) return undefined;
+    return this.mapDocumentVersionFromDb(data);
+  }
+
+  async updateDocumentVersion(
+    id: string,
+    data: Partial<DocumentVersion>
+  ): Promise<DocumentVersion> {
+    const updateData: any = {};
+
+    if (data.note !== undefined) updateData.note = data.note;
+    if (data.extractedText !== undefined) updateData.extracted_text = data.extractedText;
+    if (data.fileType !== undefined) updateData.file_type = data.fileType;
+    if (data.fileSize !== undefined) updateData.file_size = data.fileSize;
+
+    const { data: updated, error } = await this.supabase
+      .from("document_versions")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update document version: ${error.message}`);
+    return this.mapDocumentVersionFromDb(updated);
+  }
+
+  // DICOM instance methods
+  async createDicomInstance(insertInstance: InsertDicomInstance): Promise<DicomInstance> {
+    const instanceData = {
+      id: randomUUID(),
+      user_id: insertInstance.userId,
+      document_id: insertInstance.documentId,
+      study_instance_uid: insertInstance.studyInstanceUid,
+      series_instance_uid: insertInstance.seriesInstanceUid,
+      sop_instance_uid: insertInstance.sopInstanceUid,
+      series_number: insertInstance.seriesNumber ?? null,
+      series_description: insertInstance.seriesDescription ?? null,
+      instance_number: insertInstance.instanceNumber ?? null,
+      modality: insertInstance.modality ?? null,
+      body_part: insertInstance.bodyPart ?? null,
+      rows: insertInstance.rows ?? null,
+      columns: insertInstance.columns ?? null,
+      frame_count: insertInstance.frameCount ?? 1,
+      file_url: insertInstance.fileUrl,
+      file_size: insertInstance.fileSize ?? null,
+      created_at: new Date().toISOString(),
+    };
+
+    const { data, error } = await this.supabase
+      .from("dicom_instances")
+      .insert(instanceData)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create DICOM instance: ${error.message}`);
+    return this.mapDicomInstanceFromDb(data);
+  }
+
+  async getDicomInstances(documentId: string): Promise<DicomInstance[]> {
+    // Viewer order: series by series number, then images by instance number
+    const { data, error } = await this.supabase
+      .from("dicom_instances")
+      .select("*")
+      .eq("document_id", documentId)
+      .order("series_number", { ascending: true, nullsFirst: false })
+      .order("series_instance_uid", { ascending: true })
+      .order("instance_number", { ascending: true, nullsFirst: false })
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(`Failed to get DICOM instances: ${error.message}`);
+    return (data || []).map((row) => this.mapDicomInstanceFromDb(row));
+  }
+
+  // Document processing job methods
+  async createProcessingJob(
+    insertJob: InsertDocumentProcessingJob
+  ): Promise<DocumentProcessingJob> {
+    const now = new Date().toISOString();
+    const jobData = {
+      id: randomUUID(),
+      document_id: insertJob.documentId,
+      user_id: insertJob.userId,
+      status: insertJob.status ?? "queued",
+      attempts: 0,
+      max_attempts: insertJob.maxAttempts ?? 3,
+      auto_import: insertJob.autoImport ?? false,
+      run_at: insertJob.runAt ? new Date(insertJob.runAt).toISOString() : now,
+      created_at: now,
+      updated_at: now,
+    };
+
+    const { data, error } = await this.supabase
+      .from("document_processing_jobs")
+      .insert(jobData)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create processing job: ${error.message}`);
+    return this.mapProcessingJobFromDb(data);
+  }
+
+  async getProcessingJob(id: string): Promise<DocumentProcessingJob | undefined> {
+    const { data, error } = await this.supabase
+      .from("document_processing_jobs")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error || !data) return undefined;
+    return this.mapProcessingJobFromDb(data);
+  }
+
+  async getLatestProcessingJob(documentId: string): Promise<DocumentProcessingJob | undefined> {
+    const { data, error } = await this.supabase
+      .from("document_processing_jobs")
+      .select("*")
+      .eq("document_id", documentId)
+      .order("created_at", { ascending: false })
+      .limit(1);
+
+    if (error) throw new Error(`Failed to get processing job: ${error.message}`);
+    if (!data || data.length === 0) return undefined;
+    return this.mapProcessingJobFromDb(data[0]);
+  }
+
+  async getProcessingJobsByUserId(
+    userId: string,
+    statuses?: string[]
+  ): Promise<DocumentProcessingJob[]> {
+    let query = this.supabase
+      .from("document_processing_jobs")
+      .select("*")
+      .eq("user_id", userId);
+
+    if (statuses && statuses.length > 0) {
+      query = query.in("status", statuses);
+    }
+
+    const { data, error } = await query.order("created_at", { ascending: false });
+
+    if (error) throw new Error(`Failed to get processing jobs: ${error.message}`);
+    return (data || []).map((row) => this.mapProcessingJobFromDb(row));
+  }
+
+  async getDueProcessingJobs(limit: number): Promise<DocumentProcessingJob[]> {
+    const { data, error } = await this.supabase
+      .from("document_processing_jobs")
+      .select("*")
+      .eq("status", "queued")
+      .lte("run_at", new Date().toISOString())
+      .order("run_at", { ascending: true })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get due processing jobs: ${error.message}`);
+    return (data || []).map((row) => this.mapProcessingJobFromDb(row));
+  }
+
+  async updateProcessingJob(
+    id: string,
+    data: Partial<DocumentProcessingJob>
+  ): Promise<DocumentProcessingJob> {
+    const updateData: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (data.status !== undefined) updateData.status = data.status;
+    if (data.stage !== undefined) updateData.stage = data.stage;
+    if (data.attempts !== undefined) updateData.attempts = data.attempts;
+    if (data.maxAttempts !== undefined) updateData.max_attempts = data.maxAttempts;
+    if (data.lastError !== undefined) updateData.last_error = data.lastError;
+    if (data.runAt !== undefined) updateData.run_at = data.runAt.toISOString();
+    if (data.startedAt !== undefined)
+      updateData.started_at = data.startedAt?.toISOString() ?? null;
+    if (data.completedAt !== undefined)
+      updateData.completed_at = data.completedAt?.toISOString() ?? null;
+
+    const { data: updated, error } = await this.supabase
+      .from("document_processing_jobs")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update processing job: ${error.message}`);
+    return this.mapProcessingJobFromDb(updated);
+  }
+
+  async requeueRunningProcessingJobs(): Promise<number> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from("document_processing_jobs")
+      .update({ status: "queued", run_at: now, updated_at: now })
+      .eq("status", "running")
+      .select("id");
+
+    if (error) throw new Error(`Failed to requeue processing jobs: ${error.message}`);
+    return (data || []).length;
+  }
+
+  // Helper methods to map database rows to TypeScript types
+  private mapUserFromDb(row: any): User {
+    return {
+      id: row.id,
+      phoneNumber: row.phone_number,
+      username: row.username,
+      email: row.email,
+      abhaId: row.abha_id,
+      isGuest: row.is_guest,
+      password: row.password,
+      name: row.name,
+      dateOfBirth: row.date_of_birth ? new Date(row.date_of_birth) : null,
+      gender: row.gender,
+      bloodGroup: row.blood_group,
+      address: row.address,
+      settings: row.settings,
+      onboardingCompleted: row.onboarding_completed,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private mapOTPSessionFromDb(row: any): OTPSession {
+    // Parse dates correctly - Supabase returns timestamps that need proper handling
+    // If the date string doesn't have timezone info, treat it as UTC (since we store as ISO string)
+    const parseDate = (dateStr: string | null): Date => {
+      if (!dateStr) return new Date();
+      // If it's already an ISO string with Z, use it directly
+      if (dateStr.includes('Z') || dateStr.includes('+') || dateStr.includes('-', 10)) {
+        return new Date(dateStr);
+      }
+      // If it's a timestamp without timezone, assume it's UTC (since we stored it as UTC)
+      // Add 'Z' to indicate UTC
+      return new Date(dateStr + 'Z');
+    };
+    
+    const expiresAt = parseDate(row.expires_at);
+    const createdAt = parseDate(row.created_at);
+    const verifiedAt = row.verified_at ? parseDate(row.verified_at) : null;
+    
+    // Debug logging to check date parsing
+    console.log(`[Supabase] Mapping OTP session - expires_at from DB: "${row.expires_at}", parsed: ${expiresAt.toISOString()}, now: ${new Date().toISOString()}, diff: ${expiresAt.getTime() - Date.now()}ms`);
+    
+    return {
+      id: row.id,
+      phoneNumber: row.phone_number,
+      otp: row.otp,
+      expiresAt: expiresAt,
+      attempts: row.attempts,
+      verified: row.verified,
+      createdAt: createdAt,
+      verifiedAt: verifiedAt,
+    };
+  }
+
+  private mapSessionFromDb(row: any): Session {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      token: row.token,
+      expiresAt: new Date(row.expires_at),
+      createdAt: new Date(row.created_at),
+      lastActivityAt: new Date(row.last_activity_at),
+    };
+  }
+
+  private mapDocumentFromDb(row: any): Document {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      title: row.title,
+      type: row.type,
+      provider: row.provider,
+      date: row.date ? new Date(row.date) : null,
+      fileUrl: row.file_url,
+      fileType: row.file_type,
+      fileSize: row.file_size,
+      pageCount: row.page_count ?? null,
+      contentHash: row.content_hash ?? null,
+      studyInstanceUid: row.study_instance_uid ?? null,
+      clientId: row.client_id ?? null,
+      tags: row.tags,
+      syncStatus: row.sync_status,
+      extractedText: row.extracted_text ?? null,
+      embedding: row.embedding ?? null,
+      ocrProcessed: row.ocr_processed ?? false,
+      ocrProcessedAt: row.ocr_processed_at ? new Date(row.ocr_processed_at) : null,
+      aiInsight: row.ai_insight ?? null,
+      aiInsightGeneratedAt: row.ai_insight_generated_at ? new Date(row.ai_insight_generated_at) : null,
+      deletedAt: row.deleted_at ? new Date(row.deleted_at) : null,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private mapDocumentVersionFromDb(row: any): DocumentVersion {
+    return {
+      id: row.id,
+      documentId: row.document_id,
+      version: row.version,
+      fileUrl: row.file_url,
+      fileType: row.file_type,
+      fileSize: row.file_size,
+      contentHash: row.content_hash ?? null,
+      extractedText: row.extracted_text,
+      note: row.note,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapDicomInstanceFromDb(row: any): DicomInstance {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      documentId: row.document_id,
+      studyInstanceUid: row.study_instance_uid,
+      seriesInstanceUid: row.series_instance_uid,
+      sopInstanceUid: row.sop_instance_uid,
+      seriesNumber: row.series_number ?? null,
+      seriesDescription: row.series_description ?? null,
+      instanceNumber: row.instance_number ?? null,
+      modality: row.modality ?? null,
+      bodyPart: row.body_part ?? null,
+      rows: row.rows ?? null,
+      columns: row.columns ?? null,
+      frameCount: row.frame_count ?? 1,
+      fileUrl: row.file_url,
+      fileSize: row.file_size ?? null,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapProcessingJobFromDb(row: any): DocumentProcessingJob {
+    return {
+      id: row.id,
+      documentId: row.document_id,
+      userId: row.user_id,
+      status: row.status,
+      stage: row.stage ?? null,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      autoImport: row.auto_import ?? false,
+      lastError: row.last_error ?? null,
+      runAt: new Date(row.run_at),
+      startedAt: row.started_at ? new Date(row.started_at) : null,
+      completedAt: row.completed_at ? new Date(row.completed_at) : null,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  // Encryption key methods
+  async getUserEncryptionKey(userId: string): Promise<UserEncryptionKey | undefined> {
+    const { data, error } = await this.supabase
+      .from("user_encryption_keys")
+      .select("*")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get encryption key: ${error.message}`);
+    return data ? this.mapEncryptionKeyFromDb(data) : undefined;
+  }
+
+  async getAllUserEncryptionKeys(): Promise<UserEncryptionKey[]> {
+    const { data, error } = await this.supabase
+      .from("user_encryption_keys")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(`Failed to get encryption keys: ${error.message}`);
+    return (data || []).map((row) => this.mapEncryptionKeyFromDb(row));
+  }
+
+  async createUserEncryptionKey(insertKey: InsertUserEncryptionKey): Promise<UserEncryptionKey> {
+    const { data, error } = await this.supabase
+      .from("user_encryption_keys")
+      .insert({
+        id: randomUUID(),
+        user_id: insertKey.userId,
+        wrapped_key: insertKey.wrappedKey,
+        master_key_id: insertKey.masterKeyId,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create encryption key: ${error.message}`);
+    return this.mapEncryptionKeyFromDb(data);
+  }
+
+  async updateUserEncryptionKey(
+    id: string,
+    data: Partial<UserEncryptionKey>
+  ): Promise<UserEncryptionKey> {
+    const updateData: any = {};
+
+    if (data.wrappedKey !== undefined) updateData.wrapped_key = data.wrappedKey;
+    if (data.masterKeyId !== undefined) updateData.master_key_id = data.masterKeyId;
+    if (data.rotatedAt !== undefined) updateData.rotated_at = data.rotatedAt?.toISOString() ?? null;
+
+    const { data: updated, error } = await this.supabase
+      .from("user_encryption_keys")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update encryption key: ${error.message}`);
+    return this.mapEncryptionKeyFromDb(updated);
+  }
+
+  private mapEncryptionKeyFromDb(row: any): UserEncryptionKey {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      wrappedKey: row.wrapped_key,
+      masterKeyId: row.master_key_id,
+      createdAt: new Date(row.created_at),
+      rotatedAt: row.rotated_at ? new Date(row.rotated_at) : null,
+    };
+  }
+
+  // Lab observation methods
+  async getLabObservations(documentId: string): Promise<LabObservation[]> {
+    const { data, error } = await this.supabase
+      .from("lab_observations")
+      .select("*")
+      .eq("document_id", documentId)
+      .order("position", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(`Failed to get lab observations: ${error.message}`);
+    return (data || []).map((row) => this.mapLabObservationFromDb(row));
+  }
+
+  async getLabObservationsByUserId(userId: string): Promise<LabObservation[]> {
+    const { data, error } = await this.supabase
+      .from("lab_observations")
+      .select("*")
+      .eq("user_id", userId)
+      .order("position", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(`Failed to get lab observations: ${error.message}`);
+    return (data || []).map((row) => this.mapLabObservationFromDb(row));
+  }
+
+  async getLabObservation(id: string): Promise<LabObservation | undefined> {
+    const { data, error } = await this.supabase
+      .from("lab_observations")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get lab observation: ${error.message}`);
+    return data ? this.mapLabObservationFromDb(data) : undefined;
+  }
+
+  async createLabObservation(insertObservation: InsertLabObservation): Promise<LabObservation> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from("lab_observations")
+      .insert({
+        id: randomUUID(),
+        user_id: insertObservation.userId,
+        document_id: insertObservation.documentId,
+        analyte: insertObservation.analyte,
+        value: insertObservation.value,
+        numeric_value: insertObservation.numericValue ?? null,
+        unit: insertObservation.unit ?? null,
+        reference_range: insertObservation.referenceRange ?? null,
+        reference_low: insertObservation.referenceLow ?? null,
+        reference_high: insertObservation.referenceHigh ?? null,
+        analyte_code: insertObservation.analyteCode ?? null,
+        normalized_value: insertObservation.normalizedValue ?? null,
+        normalized_unit: insertObservation.normalizedUnit ?? null,
+        normalized_reference_low: insertObservation.normalizedReferenceLow ?? null,
+        normalized_reference_high: insertObservation.normalizedReferenceHigh ?? null,
+        abnormal_flag: insertObservation.abnormalFlag ?? null,
+        specimen_date: insertObservation.specimenDate
+          ? new Date(insertObservation.specimenDate).toISOString()
+          : null,
+        position: insertObservation.position ?? 0,
+        source: insertObservation.source,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create lab observation: ${error.message}`);
+    return this.mapLabObservationFromDb(data);
+  }
+
+  async updateLabObservation(id: string, data: Partial<LabObservation>): Promise<LabObservation> {
+    const updateData: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (data.analyte !== undefined) updateData.analyte = data.analyte;
+    if (data.value !== undefined) updateData.value = data.value;
+    if (data.numericValue !== undefined) updateData.numeric_value = data.numericValue;
+    if (data.unit !== undefined) updateData.unit = data.unit;
+    if (data.referenceRange !== undefined) updateData.reference_range = data.referenceRange;
+    if (data.referenceLow !== undefined) updateData.reference_low = data.referenceLow;
+    if (data.referenceHigh !== undefined) updateData.reference_high = data.referenceHigh;
+    if (data.analyteCode !== undefined) updateData.analyte_code = data.analyteCode;
+    if (data.normalizedValue !== undefined) updateData.normalized_value = data.normalizedValue;
+    if (data.normalizedUnit !== undefined) updateData.normalized_unit = data.normalizedUnit;
+    if (data.normalizedReferenceLow !== undefined)
+      updateData.normalized_reference_low = data.normalizedReferenceLow;
+    if (data.normalizedReferenceHigh !== undefined)
+      updateData.normalized_reference_high = data.normalizedReferenceHigh;
+    if (data.abnormalFlag !== undefined) updateData.abnormal_flag = data.abnormalFlag;
+    if (data.specimenDate !== undefined)
+      updateData.specimen_date = data.specimenDate?.toISOString() ?? null;
+    if (data.position !== undefined) updateData.position = data.position;
+    if (data.source !== undefined) updateData.source = data.source;
+
+    const { data: updated, error } = await this.supabase
+      .from("lab_observations")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update lab observation: ${error.message}`);
+    return this.mapLabObservationFromDb(updated);
+  }
+
+  async deleteLabObservation(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("lab_observations")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw new Error(`Failed to delete lab observation: ${error.message}`);
+  }
+
+  async deleteLabObservationsByDocumentId(documentId: string, source?: string): Promise<void> {
+    let query = this.supabase
+      .from("lab_observations")
+      .delete()
+      .eq("document_id", documentId);
+
+    if (source) {
+      query = query.eq("source", source);
+    }
+
+    const { error } = await query;
+    if (error) throw new Error(`Failed to delete lab observations: ${error.message}`);
+  }
+
+  private mapLabObservationFromDb(row: any): LabObservation {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      documentId: row.document_id,
+      analyte: row.analyte,
+      value: row.value,
+      numericValue: row.numeric_value ?? null,
+      unit: row.unit ?? null,
+      referenceRange: row.reference_range ?? null,
+      referenceLow: row.reference_low ?? null,
+      referenceHigh: row.reference_high ?? null,
+      analyteCode: row.analyte_code ?? null,
+      normalizedValue: row.normalized_value ?? null,
+      normalizedUnit: row.normalized_unit ?? null,
+      normalizedReferenceLow: row.normalized_reference_low ?? null,
+      normalizedReferenceHigh: row.normalized_reference_high ?? null,
+      abnormalFlag: row.abnormal_flag ?? null,
+      specimenDate: row.specimen_date ? new Date(row.specimen_date) : null,
+      position: row.position ?? 0,
+      source: row.source,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+  // Document annotation methods
+  async getDocumentAnnotations(documentId: string): Promise<DocumentAnnotation[]> {
+    const { data, error } = await this.supabase
+      .from("document_annotations")
+      .select("*")
+      .eq("document_id", documentId)
+      .order("page", { ascending: true, nullsFirst: true })
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(`Failed to get document annotations: ${error.message}`);
+    return (data || []).map((row) => this.mapDocumentAnnotationFromDb(row));
+  }
+
+  async getDocumentAnnotationsByUserId(userId: string): Promise<DocumentAnnotation[]> {
+    const { data, error } = await this.supabase
+      .from("document_annotations")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(`Failed to get document annotations: ${error.message}`);
+    return (data || []).map((row) => this.mapDocumentAnnotationFromDb(row));
+  }
+
+  async getDocumentAnnotation(id: string): Promise<DocumentAnnotation | undefined> {
+    const { data, error } = await this.supabase
+      .from("document_annotations")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get document annotation: ${error.message}`);
+    return data ? this.mapDocumentAnnotationFromDb(data) : undefined;
+  }
+
+  async createDocumentAnnotation(insertAnnotation: InsertDocumentAnnotation): Promise<DocumentAnnotation> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from("document_annotations")
+      .insert({
+        id: randomUUID(),
+        user_id: insertAnnotation.userId,
+        document_id: insertAnnotation.documentId,
+        page: insertAnnotation.page ?? null,
+        region_x: insertAnnotation.regionX ?? null,
+        region_y: insertAnnotation.regionY ?? null,
+        region_width: insertAnnotation.regionWidth ?? null,
+        region_height: insertAnnotation.regionHeight ?? null,
+        color: insertAnnotation.color ?? "yellow",
+        note: insertAnnotation.note ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create document annotation: ${error.message}`);
+    return this.mapDocumentAnnotationFromDb(data);
+  }
+
+  async updateDocumentAnnotation(id: string, data: Partial<DocumentAnnotation>): Promise<DocumentAnnotation> {
+    const updateData: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (data.page !== undefined) updateData.page = data.page;
+    if (data.regionX !== undefined) updateData.region_x = data.regionX;
+    if (data.regionY !== undefined) updateData.region_y = data.regionY;
+    if (data.regionWidth !== undefined) updateData.region_width = data.regionWidth;
+    if (data.regionHeight !== undefined) updateData.region_height = data.regionHeight;
+    if (data.color !== undefined) updateData.color = data.color;
+    if (data.note !== undefined) updateData.note = data.note;
+
+    const { data: updated, error } = await this.supabase
+      .from("document_annotations")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update document annotation: ${error.message}`);
+    return this.mapDocumentAnnotationFromDb(updated);
+  }
+
+  async deleteDocumentAnnotation(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("document_annotations")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw new Error(`Failed to delete document annotation: ${error.message}`);
+  }
+
+  private mapDocumentAnnotationFromDb(row: any): DocumentAnnotation {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      documentId: row.document_id,
+      page: row.page ?? null,
+      regionX: row.region_x ?? null,
+      regionY: row.region_y ?? null,
+      regionWidth: row.region_width ?? null,
+      regionHeight: row.region_height ?? null,
+      color: row.color ?? "yellow",
+      note: row.note ?? null,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  // Document redaction methods
+  async getDocumentRedaction(documentId: string): Promise<DocumentRedaction | undefined> {
+    const { data, error } = await this.supabase
+      .from("document_redactions")
+      .select("*")
+      .eq("document_id", documentId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get document redaction: ${error.message}`);
+    return data ? this.mapDocumentRedactionFromDb(data) : undefined;
+  }
+
+  async getDocumentRedactionsByUserId(userId: string): Promise<DocumentRedaction[]> {
+    const { data, error } = await this.supabase
+      .from("document_redactions")
+      .select("*")
+      .eq("user_id", userId)
+      .order("updated_at", { ascending: false });
+
+    if (error) throw new Error(`Failed to get document redactions: ${error.message}`);
+    return (data || []).map((row) => this.mapDocumentRedactionFromDb(row));
+  }
+
+  async createDocumentRedaction(insertRedaction: InsertDocumentRedaction): Promise<DocumentRedaction> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from("document_redactions")
+      .insert({
+        id: randomUUID(),
+        user_id: insertRedaction.userId,
+        document_id: insertRedaction.documentId,
+        regions: insertRedaction.regions,
+        file_url: insertRedaction.fileUrl,
+        file_type: insertRedaction.fileType,
+        source_content_hash: insertRedaction.sourceContentHash ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create document redaction: ${error.message}`);
+    return this.mapDocumentRedactionFromDb(data);
+  }
+
+  async updateDocumentRedaction(id: string, data: Partial<DocumentRedaction>): Promise<DocumentRedaction> {
+    const updateData: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (data.regions !== undefined) updateData.regions = data.regions;
+    if (data.fileUrl !== undefined) updateData.file_url = data.fileUrl;
+    if (data.fileType !== undefined) updateData.file_type = data.fileType;
+    if (data.sourceContentHash !== undefined) updateData.source_content_hash = data.sourceContentHash;
+
+    const { data: updated, error } = await this.supabase
+      .from("document_redactions")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update document redaction: ${error.message}`);
+    return this.mapDocumentRedactionFromDb(updated);
+  }
+
+  async deleteDocumentRedaction(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("document_redactions")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw new Error(`Failed to delete document redaction: ${error.message}`);
+  }
+
+  private mapDocumentRedactionFromDb(row: any): DocumentRedaction {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      documentId: row.document_id,
+      regions: row.regions,
+      fileUrl: row.file_url,
+      fileType: row.file_type,
+      sourceContentHash: row.source_content_hash ?? null,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+
+  // Data export methods
+  async createDataExport(insertExport: InsertDataExport): Promise<DataExport> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from("data_exports")
+      .insert({
+        id: randomUUID(),
+        user_id: insertExport.userId,
+        status: insertExport.status ?? "queued",
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create data export: ${error.message}`);
+    return this.mapDataExportFromDb(data);
+  }
+
+  async getDataExport(id: string): Promise<DataExport | undefined> {
+    const { data, error } = await this.supabase
+      .from("data_exports")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get data export: ${error.message}`);
+    return data ? this.mapDataExportFromDb(data) : undefined;
+  }
+
+  async getDataExportsByUserId(userId: string): Promise<DataExport[]> {
+    const { data, error } = await this.supabase
+      .from("data_exports")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw new Error(`Failed to get data exports: ${error.message}`);
+    return (data || []).map((row) => this.mapDataExportFromDb(row));
+  }
+
+  async getDataExportsExpiredBefore(cutoff: Date): Promise<DataExport[]> {
+    const { data, error } = await this.supabase
+      .from("data_exports")
+      .select("*")
+      .lt("expires_at", cutoff.toISOString());
+
+    if (error) throw new Error(`Failed to get expired data exports: ${error.message}`);
+    return (data || []).map((row) => this.mapDataExportFromDb(row));
+  }
+
+  async updateDataExport(id: string, data: Partial<DataExport>): Promise<DataExport> {
+    const updateData: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (data.status !== undefined) updateData.status = data.status;
+    if (data.fileUrl !== undefined) updateData.file_url = data.fileUrl;
+    if (data.fileSize !== undefined) updateData.file_size = data.fileSize;
+    if (data.documentCount !== undefined) updateData.document_count = data.documentCount;
+    if (data.error !== undefined) updateData.error = data.error;
+    if (data.expiresAt !== undefined) updateData.expires_at = data.expiresAt?.toISOString() ?? null;
+    if (data.completedAt !== undefined)
+      updateData.completed_at = data.completedAt?.toISOString() ?? null;
+
+    const { data: updated, error } = await this.supabase
+      .from("data_exports")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update data export: ${error.message}`);
+    return this.mapDataExportFromDb(updated);
+  }
+
+  async deleteDataExport(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("data_exports")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw new Error(`Failed to delete data export: ${error.message}`);
+  }
+
+  private mapDataExportFromDb(row: any): DataExport {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      status: row.status,
+      fileUrl: row.file_url ?? null,
+      fileSize: row.file_size ?? null,
+      documentCount: row.document_count ?? null,
+      error: row.error ?? null,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+      completedAt: row.completed_at ? new Date(row.completed_at) : null,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  // Inbound email methods
+  async getInboundEmailAddress(userId: string): Promise<InboundEmailAddress | undefined> {
+    const { data, error } = await this.supabase
+      .from("inbound_email_addresses")
+      .select("*")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get inbound email address: ${error.message}`);
+    return data ? this.mapInboundEmailAddressFromDb(data) : undefined;
+  }
+
+  async getInboundEmailAddressByToken(token: string): Promise<InboundEmailAddress | undefined> {
+    const { data, error } = await this.supabase
+      .from("inbound_email_addresses")
+      .select("*")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get inbound email address: ${error.message}`);
+    return data ? this.mapInboundEmailAddressFromDb(data) : undefined;
+  }
+
+  async createInboundEmailAddress(insertAddress: InsertInboundEmailAddress): Promise<InboundEmailAddress> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from("inbound_email_addresses")
+      .insert({
+        id: randomUUID(),
+        user_id: insertAddress.userId,
+        token: insertAddress.token,
+        trusted_senders: insertAddress.trustedSenders,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create inbound email address: ${error.message}`);
+    return this.mapInboundEmailAddressFromDb(data);
+  }
+
+  async updateInboundEmailAddress(id: string, data: Partial<InboundEmailAddress>): Promise<InboundEmailAddress> {
+    const updateData: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (data.token !== undefined) updateData.token = data.token;
+    if (data.trustedSenders !== undefined) updateData.trusted_senders = data.trustedSenders;
+
+    const { data: updated, error } = await this.supabase
+      .from("inbound_email_addresses")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update inbound email address: ${error.message}`);
+    return this.mapInboundEmailAddressFromDb(updated);
+  }
+
+  async getInboundEmailItems(userId: string, filters?: { status?: string }): Promise<InboundEmailItem[]> {
+    let query = this.supabase
+      .from("inbound_email_items")
+      .select("*")
+      .eq("user_id", userId);
+
+    if (filters?.status) {
+      query = query.eq("status", filters.status);
+    }
+
+    const { data, error } = await query.order("created_at", { ascending: false });
+
+    if (error) throw new Error(`Failed to get inbound email items: ${error.message}`);
+    return (data || []).map((row) => this.mapInboundEmailItemFromDb(row));
+  }
+
+  async getInboundEmailItem(id: string): Promise<InboundEmailItem | undefined> {
+    const { data, error } = await this.supabase
+      .from("inbound_email_items")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get inbound email item: ${error.message}`);
+    return data ? this.mapInboundEmailItemFromDb(data) : undefined;
+  }
+
+  async getInboundEmailItemsByMessageId(userId: string, messageId: string): Promise<InboundEmailItem[]> {
+    const { data, error } = await this.supabase
+      .from("inbound_email_items")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("message_id", messageId);
+
+    if (error) throw new Error(`Failed to get inbound email items: ${error.message}`);
+    return (data || []).map((row) => this.mapInboundEmailItemFromDb(row));
+  }
+
+  async getQueuedInboundEmailItems(): Promise<InboundEmailItem[]> {
+    const { data, error } = await this.supabase
+      .from("inbound_email_items")
+      .select("*")
+      .eq("status", "queued")
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(`Failed to get queued inbound email items: ${error.message}`);
+    return (data || []).map((row) => this.mapInboundEmailItemFromDb(row));
+  }
+
+  async createInboundEmailItem(insertItem: InsertInboundEmailItem): Promise<InboundEmailItem> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from("inbound_email_items")
+      .insert({
+        id: randomUUID(),
+        user_id: insertItem.userId,
+        sender: insertItem.sender,
+        sender_name: insertItem.senderName ?? null,
+        subject: insertItem.subject ?? null,
+        message_id: insertItem.messageId ?? null,
+        file_name: insertItem.fileName,
+        mime_type: insertItem.mimeType,
+        file_size: insertItem.fileSize,
+        file_url: insertItem.fileUrl ?? null,
+        content_hash: insertItem.contentHash,
+        status: insertItem.status ?? "review",
+        document_id: insertItem.documentId ?? null,
+        reason: insertItem.reason ?? null,
+        processed_at: insertItem.processedAt?.toISOString() ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create inbound email item: ${error.message}`);
+    return this.mapInboundEmailItemFromDb(data);
+  }
+
+  async updateInboundEmailItem(id: string, data: Partial<InboundEmailItem>): Promise<InboundEmailItem> {
+    const updateData: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (data.status !== undefined) updateData.status = data.status;
+    if (data.fileUrl !== undefined) updateData.file_url = data.fileUrl;
+    if (data.documentId !== undefined) updateData.document_id = data.documentId;
+    if (data.reason !== undefined) updateData.reason = data.reason;
+    if (data.processedAt !== undefined)
+      updateData.processed_at = data.processedAt?.toISOString() ?? null;
+
+    const { data: updated, error } = await this.supabase
+      .from("inbound_email_items")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update inbound email item: ${error.message}`);
+    return this.mapInboundEmailItemFromDb(updated);
+  }
+
+  async deleteInboundEmailItem(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("inbound_email_items")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw new Error(`Failed to delete inbound email item: ${error.message}`);
+  }
+
+  private mapInboundEmailAddressFromDb(row: any): InboundEmailAddress {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      token: row.token,
+      trustedSenders: row.trusted_senders ?? "[]",
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private mapInboundEmailItemFromDb(row: any): InboundEmailItem {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      sender: row.sender,
+      senderName: row.sender_name ?? null,
+      subject: row.subject ?? null,
+      messageId: row.message_id ?? null,
+      fileName: row.file_name,
+      mimeType: row.mime_type,
+      fileSize: row.file_size,
+      fileUrl: row.file_url ?? null,
+      contentHash: row.content_hash,
+      status: row.status,
+      documentId: row.document_id ?? null,
+      reason: row.reason ?? null,
+      processedAt: row.processed_at ? new Date(row.processed_at) : null,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  // Collection methods
+  async getCollections(userId: string): Promise<Collection[]> {
+    const { data, error } = await this.supabase
+      .from("collections")
+      .select("*")
+      .eq("user_id", userId)
+      .order("position", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(`Failed to get collections: ${error.message}`);
+    return (data || []).map((row) => this.mapCollectionFromDb(row));
+  }
+
+  async getCollection(id: string): Promise<Collection | undefined> {
+    const { data, error } = await this.supabase
+      .from("collections")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get collection: ${error.message}`);
+    return data ? this.mapCollectionFromDb(data) : undefined;
+  }
+
+  async createCollection(insertCollection: InsertCollection): Promise<Collection> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from("collections")
+      .insert({
+        id: randomUUID(),
+        user_id: insertCollection.userId,
+        name: insertCollection.name,
+        description: insertCollection.description ?? null,
+        color: insertCollection.color ?? null,
+        position: insertCollection.position ?? 0,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create collection: ${error.message}`);
+    return this.mapCollectionFromDb(data);
+  }
+
+  async updateCollection(id: string, data: Partial<Collection>): Promise<Collection> {
+    const updateData: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.color !== undefined) updateData.color = data.color;
+    if (data.position !== undefined) updateData.position = data.position;
+
+    const { data: updated, error } = await this.supabase
+      .from("collections")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update collection: ${error.message}`);
+    return this.mapCollectionFromDb(updated);
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    await this.supabase.from("collection_items").delete().eq("collection_id", id);
+
+    const { error } = await this.supabase.from("collections").delete().eq("id", id);
+
+    if (error) throw new Error(`Failed to delete collection: ${error.message}`);
+  }
+
+  async getCollectionItems(collectionId: string): Promise<CollectionItem[]> {
+    const { data, error } = await this.supabase
+      .from("collection_items")
+      .select("*")
+      .eq("collection_id", collectionId)
+      .order("position", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(`Failed to get collection items: ${error.message}`);
+    return (data || []).map((row) => this.mapCollectionItemFromDb(row));
+  }
+
+  async getCollectionItemsByDocumentId(documentId: string): Promise<CollectionItem[]> {
+    const { data, error } = await this.supabase
+      .from("collection_items")
+      .select("*")
+      .eq("document_id", documentId);
 
-    if (error)
-      throw new Error(`Failed to create document version: ${error.message}`);
-    return this.mapDocumentVersionFromDb(data);
+    if (error) throw new Error(`Failed to get collection items: ${error.message}`);
+    return (data || []).map((row) => this.mapCollectionItemFromDb(row));
   }
 
-  async getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+  async getCollectionItem(id: string): Promise<CollectionItem | undefined> {
     const { data, error } = await this.supabase
-      .from("document_versions")
+      .from("collection_items")
       .select("*")
-      .eq("document_id", documentId)
-      .order("created_at", { ascending: false });
-
-    if (error) throw new Error(`Failed to get document versions: ${error.message}`);
-    if (!data) return [];
+      .eq("id", id)
+      .maybeSingle();
 
-    return data.map((v) => this.mapDocumentVersionFromDb(v));
+    if (error) throw new Error(`Failed to get collection item: ${error.message}`);
+    return data ? this.mapCollectionItemFromDb(data) : undefined;
   }
 
-  // Helper methods to map database rows to TypeScript types
-  private mapUserFromDb(row: any): User {
-    return {
-      id: row.id,
-      phoneNumber: row.phone_number,
-      username: row.username,
-      email: row.email,
-      abhaId: row.abha_id,
-      isGuest: row.is_guest,
-      password: row.password,
-      name: row.name,
-      dateOfBirth: row.date_of_birth ? new Date(row.date_of_birth) : null,
-      gender: row.gender,
-      bloodGroup: row.blood_group,
-      address: row.address,
-      settings: row.settings,
-      onboardingCompleted: row.onboarding_completed,
-      createdAt: new Date(row.created_at),
-      updatedAt: new Date(row.updated_at),
-    };
+  async createCollectionItem(insertItem: InsertCollectionItem): Promise<CollectionItem> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from("collection_items")
+      .insert({
+        id: randomUUID(),
+        collection_id: insertItem.collectionId,
+        user_id: insertItem.userId,
+        item_type: insertItem.itemType,
+        document_id: insertItem.documentId ?? null,
+        medication_id: insertItem.medicationId ?? null,
+        note: insertItem.note ?? null,
+        position: insertItem.position ?? 0,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create collection item: ${error.message}`);
+    return this.mapCollectionItemFromDb(data);
   }
 
-  private mapOTPSessionFromDb(row: any): OTPSession {
-    // Parse dates correctly - Supabase returns timestamps that need proper handling
-    // If the date string doesn't have timezone info, treat it as UTC (since we store as ISO string)
-    const parseDate = (dateStr: string | null): Date => {
-      if (!dateStr) return new Date();
-      // If it's already an ISO string with Z, use it directly
-      if (dateStr.includes('Z') || dateStr.includes('+') || dateStr.includes('-', 10)) {
-        return new Date(dateStr);
-      }
-      // If it's a timestamp without timezone, assume it's UTC (since we stored it as UTC)
-      // Add 'Z' to indicate UTC
-      return new Date(dateStr + 'Z');
-    };
-    
-    const expiresAt = parseDate(row.expires_at);
-    const createdAt = parseDate(row.created_at);
-    const verifiedAt = row.verified_at ? parseDate(row.verified_at) : null;
-    
-    // Debug logging to check date parsing
-    console.log(`[Supabase] Mapping OTP session - expires_at from DB: "${row.expires_at}", parsed: ${expiresAt.toISOString()}, now: ${new Date().toISOString()}, diff: ${expiresAt.getTime() - Date.now()}ms`);
-    
-    return {
-      id: row.id,
-      phoneNumber: row.phone_number,
-      otp: row.otp,
-      expiresAt: expiresAt,
-      attempts: row.attempts,
-      verified: row.verified,
-      createdAt: createdAt,
-      verifiedAt: verifiedAt,
+  async updateCollectionItem(id: string, data: Partial<CollectionItem>): Promise<CollectionItem> {
+    const updateData: any = {
+      updated_at: new Date().toISOString(),
     };
+
+    if (data.note !== undefined) updateData.note = data.note;
+    if (data.position !== undefined) updateData.position = data.position;
+
+    const { data: updated, error } = await this.supabase
+      .from("collection_items")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update collection item: ${error.message}`);
+    return this.mapCollectionItemFromDb(updated);
   }
 
-  private mapSessionFromDb(row: any): Session {
-    return {
-      id: row.id,
-      userId: row.user_id,
-      token: row.token,
-      expiresAt: new Date(row.expires_at),
-      createdAt: new Date(row.created_at),
-      lastActivityAt: new Date(row.last_activity_at),
-    };
+  async deleteCollectionItem(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("collection_items")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw new Error(`Failed to delete collection item: ${error.message}`);
   }
 
-  private mapDocumentFromDb(row: any): Document {
+  private mapCollectionFromDb(row: any): Collection {
     return {
       id: row.id,
       userId: row.user_id,
-      title: row.title,
-      type: row.type,
-      provider: row.provider,
-      date: row.date ? new Date(row.date) : null,
-      fileUrl: row.file_url,
-      fileType: row.file_type,
-      fileSize: row.file_size,
-      tags: row.tags,
-      syncStatus: row.sync_status,
-      extractedText: row.extracted_text ?? null,
-      embedding: row.embedding ?? null,
-      ocrProcessed: row.ocr_processed ?? false,
-      ocrProcessedAt: row.ocr_processed_at ? new Date(row.ocr_processed_at) : null,
-      aiInsight: row.ai_insight ?? null,
-      aiInsightGeneratedAt: row.ai_insight_generated_at ? new Date(row.ai_insight_generated_at) : null,
+      name: row.name,
+      description: row.description,
+      color: row.color,
+      position: row.position,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
     };
   }
 
-  private mapDocumentVersionFromDb(row: any): DocumentVersion {
+  private mapCollectionItemFromDb(row: any): CollectionItem {
     return {
       id: row.id,
+      collectionId: row.collection_id,
+      userId: row.user_id,
+      itemType: row.item_type,
       documentId: row.document_id,
-      version: row.version,
-      fileUrl: row.file_url,
+      medicationId: row.medication_id,
       note: row.note,
+      position: row.position,
       createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
     };
   }
 
@@ -593,6 +2068,8 @@ export class SupabaseStorage implements IStorage {
     recipientName: string;
     recipientRole: string;
     scopes: string[];
+    collectionId?: string;
+    includeAnnotations?: boolean;
     durationType: '24h' | '7d' | 'custom';
     customExpiryDate?: Date;
     purpose: string;
@@ -618,6 +2095,8 @@ export class SupabaseStorage implements IStorage {
       recipient_name: data.recipientName,
       recipient_role: data.recipientRole,
       scopes: JSON.stringify(data.scopes),
+      collection_id: data.collectionId ?? null,
+      include_annotations: data.includeAnnotations ?? false,
       duration_type: data.durationType,
       custom_expiry_date: data.customExpiryDate ? data.customExpiryDate.toISOString() : null,
       purpose: data.purpose,
@@ -858,6 +2337,8 @@ export class SupabaseStorage implements IStorage {
       recipientName: row.recipient_name,
       recipientRole: row.recipient_role,
       scopes: row.scopes,
+      collectionId: row.collection_id ?? null,
+      includeAnnotations: row.include_annotations ?? false,
       durationType: row.duration_type,
       customExpiryDate: row.custom_expiry_date ? new Date(row.custom_expiry_date) : null,
       purpose: row.purpose,
@@ -1118,8 +2599,9 @@ export class SupabaseStorage implements IStorage {
   }
 
   async deleteMedication(id: string): Promise<void> {
-    // Delete all reminders first
+    // Delete all reminders and collection entries first
     await this.deleteRemindersForMedication(id);
+    await this.supabase.from("collection_items").delete().eq("medication_id", id);
     
     // Then delete the medication
     const { error } = await this.supabase
@@ -1202,6 +2684,248 @@ export class SupabaseStorage implements IStorage {
     if (error) throw new Error(`Failed to delete reminders: ${error.message}`);
   }
 
+  // Health task methods
+  async getHealthTasks(userId: string, filters?: { status?: string; documentId?: string }): Promise<HealthTask[]> {
+    let query = this.supabase
+      .from("health_tasks")
+      .select("*")
+      .eq("user_id", userId);
+
+    if (filters?.status) {
+      query = query.eq("status", filters.status);
+    }
+    if (filters?.documentId) {
+      query = query.eq("source_document_id", filters.documentId);
+    }
+
+    // Soonest due first; tasks without a due date last
+    const { data, error } = await query
+      .order("due_date", { ascending: true, nullsFirst: false })
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(`Failed to get health tasks: ${error.message}`);
+    return (data || []).map(row => this.mapHealthTaskFromDb(row));
+  }
+
+  async getHealthTask(id: string): Promise<HealthTask | undefined> {
+    const { data, error } = await this.supabase
+      .from("health_tasks")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined;
+      throw new Error(`Failed to get health task: ${error.message}`);
+    }
+
+    return data ? this.mapHealthTaskFromDb(data) : undefined;
+  }
+
+  async createHealthTask(data: InsertHealthTask): Promise<HealthTask> {
+    const taskData: any = {
+      user_id: data.userId,
+      title: data.title,
+      notes: data.notes ?? null,
+      due_date: data.dueDate ? new Date(data.dueDate).toISOString() : null,
+      remind_at: data.remindAt ? new Date(data.remindAt).toISOString() : null,
+      reminder_sent_at: data.reminderSentAt ? new Date(data.reminderSentAt).toISOString() : null,
+      status: data.status || 'pending',
+      source: data.source,
+      source_document_id: data.sourceDocumentId ?? null,
+      source_text: data.sourceText ?? null,
+      completed_at: data.completedAt ? new Date(data.completedAt).toISOString() : null,
+    };
+
+    const { data: created, error } = await this.supabase
+      .from("health_tasks")
+      .insert(taskData)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create health task: ${error.message}`);
+    return this.mapHealthTaskFromDb(created);
+  }
+
+  async updateHealthTask(id: string, data: Partial<InsertHealthTask>): Promise<HealthTask> {
+    const updateData: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (data.title !== undefined) updateData.title = data.title;
+    if (data.notes !== undefined) updateData.notes = data.notes;
+    if (data.dueDate !== undefined) updateData.due_date = data.dueDate ? new Date(data.dueDate).toISOString() : null;
+    if (data.remindAt !== undefined) updateData.remind_at = data.remindAt ? new Date(data.remindAt).toISOString() : null;
+    if (data.reminderSentAt !== undefined) updateData.reminder_sent_at = data.reminderSentAt ? new Date(data.reminderSentAt).toISOString() : null;
+    if (data.status !== undefined) updateData.status = data.status;
+    if (data.sourceDocumentId !== undefined) updateData.source_document_id = data.sourceDocumentId;
+    if (data.completedAt !== undefined) updateData.completed_at = data.completedAt ? new Date(data.completedAt).toISOString() : null;
+
+    const { data: updated, error } = await this.supabase
+      .from("health_tasks")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update health task: ${error.message}`);
+    return this.mapHealthTaskFromDb(updated);
+  }
+
+  async deleteHealthTask(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("health_tasks")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw new Error(`Failed to delete health task: ${error.message}`);
+  }
+
+  async getDueHealthTaskReminders(): Promise<HealthTask[]> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from("health_tasks")
+      .select("*")
+      .eq("status", "pending")
+      .is("reminder_sent_at", null)
+      .lte("remind_at", now)
+      .order("remind_at", { ascending: true });
+
+    if (error) throw new Error(`Failed to get due health task reminders: ${error.message}`);
+    return (data || []).map(row => this.mapHealthTaskFromDb(row));
+  }
+
+  // Expense methods
+  async getExpenses(userId: string, filters?: { from?: Date; to?: Date; category?: string; documentId?: string }): Promise<Expense[]> {
+    let query = this.supabase
+      .from("expenses")
+      .select("*")
+      .eq("user_id", userId);
+
+    if (filters?.from) {
+      query = query.gte("payment_date", filters.from.toISOString());
+    }
+    if (filters?.to) {
+      query = query.lt("payment_date", filters.to.toISOString());
+    }
+    if (filters?.category) {
+      query = query.eq("category", filters.category);
+    }
+    if (filters?.documentId) {
+      query = query.eq("document_id", filters.documentId);
+    }
+
+    // Most recent payment first
+    const { data, error } = await query.order("payment_date", { ascending: false });
+
+    if (error) throw new Error(`Failed to get expenses: ${error.message}`);
+    return (data || []).map(row => this.mapExpenseFromDb(row));
+  }
+
+  async getExpense(id: string): Promise<Expense | undefined> {
+    const { data, error } = await this.supabase
+      .from("expenses")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return undefined;
+      throw new Error(`Failed to get expense: ${error.message}`);
+    }
+
+    return data ? this.mapExpenseFromDb(data) : undefined;
+  }
+
+  async createExpense(data: InsertExpense): Promise<Expense> {
+    const expenseData: any = {
+      user_id: data.userId,
+      document_id: data.documentId ?? null,
+      payee: data.payee,
+      description: data.description ?? null,
+      category: data.category || 'other',
+      amount: data.amount,
+      gst_amount: data.gstAmount ?? null,
+      currency: data.currency || 'INR',
+      payer: data.payer ?? null,
+      payment_date: new Date(data.paymentDate).toISOString(),
+      invoice_number: data.invoiceNumber ?? null,
+      reimbursement_status: data.reimbursementStatus || 'none',
+      notes: data.notes ?? null,
+      source: data.source,
+    };
+
+    const { data: created, error } = await this.supabase
+      .from("expenses")
+      .insert(expenseData)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create expense: ${error.message}`);
+    return this.mapExpenseFromDb(created);
+  }
+
+  async updateExpense(id: string, data: Partial<InsertExpense>): Promise<Expense> {
+    const updateData: any = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (data.documentId !== undefined) updateData.document_id = data.documentId;
+    if (data.payee !== undefined) updateData.payee = data.payee;
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.category !== undefined) updateData.category = data.category;
+    if (data.amount !== undefined) updateData.amount = data.amount;
+    if (data.gstAmount !== undefined) updateData.gst_amount = data.gstAmount;
+    if (data.currency !== undefined) updateData.currency = data.currency;
+    if (data.payer !== undefined) updateData.payer = data.payer;
+    if (data.paymentDate !== undefined) updateData.payment_date = new Date(data.paymentDate).toISOString();
+    if (data.invoiceNumber !== undefined) updateData.invoice_number = data.invoiceNumber;
+    if (data.reimbursementStatus !== undefined) updateData.reimbursement_status = data.reimbursementStatus;
+    if (data.notes !== undefined) updateData.notes = data.notes;
+    if (data.source !== undefined) updateData.source = data.source;
+
+    const { data: updated, error } = await this.supabase
+      .from("expenses")
+      .update(updateData)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to update expense: ${error.message}`);
+    return this.mapExpenseFromDb(updated);
+  }
+
+  async deleteExpense(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("expenses")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw new Error(`Failed to delete expense: ${error.message}`);
+  }
+
+  private mapExpenseFromDb(row: any): Expense {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      documentId: row.document_id ?? null,
+      payee: row.payee,
+      description: row.description ?? null,
+      category: row.category,
+      amount: Number(row.amount),
+      gstAmount: row.gst_amount !== null && row.gst_amount !== undefined ? Number(row.gst_amount) : null,
+      currency: row.currency,
+      payer: row.payer ?? null,
+      paymentDate: new Date(row.payment_date),
+      invoiceNumber: row.invoice_number ?? null,
+      reimbursementStatus: row.reimbursement_status,
+      notes: row.notes ?? null,
+      source: row.source,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
   // Push subscription methods
   async getPushSubscriptions(userId: string): Promise<PushSubscription[]> {
     const { data, error } = await this.supabase
@@ -1317,6 +3041,25 @@ export class SupabaseStorage implements IStorage {
     };
   }
 
+  private mapHealthTaskFromDb(row: any): HealthTask {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      title: row.title,
+      notes: row.notes,
+      dueDate: row.due_date ? new Date(row.due_date) : null,
+      remindAt: row.remind_at ? new Date(row.remind_at) : null,
+      reminderSentAt: row.reminder_sent_at ? new Date(row.reminder_sent_at) : null,
+      status: row.status,
+      source: row.source,
+      sourceDocumentId: row.source_document_id,
+      sourceText: row.source_text,
+      completedAt: row.completed_at ? new Date(row.completed_at) : null,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
   private mapPushSubscriptionFromDb(row: any): PushSubscription {
     return {
       id: row.id,
@@ -0,0 +1,25 @@
+/**
+ * Document File Utility
+ * Sends a document's decrypted file in a response
+ *
+ * Vault files are encrypted at rest, so the browser can't load them from a storage URL.
+ * The file routes (GET /api/documents/:id/file, /preview and the consent share file route)
+ * return a URL back to themselves with ?raw=1, and answer that request with this helper.
+ */
+
+import { type Response } from "express";
+import { type Document } from "@shared/schema";
+import { getDocumentMimeType, readDocumentFile } from "../services/documentProcessingService";
+
+/**
+ * Decrypt a document's file and send it inline
+ * @param res - Express response
+ * @param document - Document (or a copy pointing at one of its versions' files)
+ */
+export async function sendDocumentFile(res: Response, document: Document): Promise<void> {
+  const contents = await readDocumentFile(document);
+  res.setHeader("Content-Type", getDocumentMimeType(document));
+  res.setHeader("Content-Disposition", "inline");
+  res.setHeader("Cache-Control", "private, no-store");
+  res.send(contents);
+}
@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildDocumentFacets,
+  compareDocumentCursors,
+  decodeDocumentCursor,
+  encodeDocumentCursor,
+  getDocumentCursor,
+  type DocumentListItem,
+} from "./documentList";
+
+function listItem(fields: Partial<DocumentListItem>): DocumentListItem {
+  return {
+    id: "doc-1",
+    title: "CBC",
+    date: null,
+    createdAt: new Date("2024-05-01T10:00:00.000Z"),
+    ...fields,
+  } as DocumentListItem;
+}
+
+describe("getDocumentCursor", () => {
+  it("takes the value of the sort field", () => {
+    const document = listItem({ id: "a", title: "Lipid Profile", date: new Date("2024-03-15T00:00:00.000Z") });
+    assert.deepEqual(getDocumentCursor(document, "date"), { value: "2024-03-15T00:00:00.000Z", id: "a" });
+    assert.deepEqual(getDocumentCursor(document, "createdAt"), { value: "2024-05-01T10:00:00.000Z", id: "a" });
+    assert.deepEqual(getDocumentCursor(document, "title"), { value: "Lipid Profile", id: "a" });
+  });
+
+  it("has a null value for undated documents sorted by date", () => {
+    assert.deepEqual(getDocumentCursor(listItem({ id: "a" }), "date"), { value: null, id: "a" });
+  });
+});
+
+describe("compareDocumentCursors", () => {
+  const older = { value: "2024-01-01T00:00:00.000Z", id: "b" };
+  const newer = { value: "2024-06-01T00:00:00.000Z", id: "a" };
+  const undated = { value: null, id: "c" };
+
+  it("orders by value in the requested direction", () => {
+    assert.ok(compareDocumentCursors(newer, older, "desc") < 0);
+    assert.ok(compareDocumentCursors(newer, older, "asc") > 0);
+  });
+
+  it("breaks ties on the id", () => {
+    const sameDay = { value: newer.value, id: "z" };
+    assert.ok(compareDocumentCursors(newer, sameDay, "asc") < 0);
+    assert.ok(compareDocumentCursors(newer, sameDay, "desc") > 0);
+    assert.equal(compareDocumentCursors(newer, { ...newer }, "desc"), 0);
+  });
+
+  it("lists undated documents last in both directions", () => {
+    assert.ok(compareDocumentCursors(undated, older, "desc") > 0);
+    assert.ok(compareDocumentCursors(undated, older, "asc") > 0);
+    assert.ok(compareDocumentCursors(older, undated, "asc") < 0);
+  });
+});
+
+describe("encodeDocumentCursor / decodeDocumentCursor", () => {
+  it("round-trips a cursor", () => {
+    const cursor = { value: "2024-06-01T00:00:00.000Z", id: "a" };
+    assert.deepEqual(decodeDocumentCursor(encodeDocumentCursor(cursor, "date"), "date"), cursor);
+    const undated = { value: null, id: "c" };
+    assert.deepEqual(decodeDocumentCursor(encodeDocumentCursor(undated, "date"), "date"), undated);
+  });
+
+  it("rejects a cursor issued for another sort", () => {
+    const encoded = encodeDocumentCursor({ value: "CBC", id: "a" }, "title");
+    assert.equal(decodeDocumentCursor(encoded, "date"), null);
+  });
+
+  it("rejects malformed cursors", () => {
+    assert.equal(decodeDocumentCursor("not a cursor", "date"), null);
+    const wrongShape = Buffer.from(JSON.stringify(["date", 42, "a"])).toString("base64url");
+    assert.equal(decodeDocumentCursor(wrongShape, "date"), null);
+  });
+});
+
+describe("buildDocumentFacets", () => {
+  it("counts types and providers, most documents first", () => {
+    const facets = buildDocumentFacets(
+      ["lab", "lab", "prescription"],
+      ["Apollo", null, "Thyrocare", "Apollo"]
+    );
+    assert.deepEqual(facets.types, { lab: 2, prescription: 1 });
+    assert.deepEqual(facets.providers, [
+      { provider: "Apollo", count: 2 },
+      { provider: "Thyrocare", count: 1 },
+    ]);
+  });
+});
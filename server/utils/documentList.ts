@@ -0,0 +1,154 @@
+/**
+ * Document List Utility
+ * Types and helpers shared by the storage backends for the paginated document list
+ * (GET /api/documents): keyset cursors, sort order and facet counts
+ *
+ * Pages are cut with a keyset cursor - the sort value and id of the last document on the
+ * previous page - rather than an offset, so documents added or removed while a user scrolls
+ * don't shift later pages. Both backends order by (sort value, id) with undated documents last.
+ */
+
+import { type Document } from "@shared/schema";
+
+export const DOCUMENT_SORT_FIELDS = ["date", "createdAt", "title"] as const;
+
+// Page size when the caller doesn't ask for one, so a large vault is never listed in one response
+export const DEFAULT_DOCUMENT_PAGE_SIZE = 50;
+
+export type DocumentSortField = (typeof DOCUMENT_SORT_FIELDS)[number];
+
+export interface DocumentListFilters {
+  type?: string;
+  search?: string;
+  collectionId?: string;
+  provider?: string; // Exact provider name, as listed in the facets
+  tag?: string; // Case-insensitive
+  from?: Date; // Document date, inclusive
+  to?: Date; // Document date, exclusive
+  ocrProcessed?: boolean;
+}
+
+// Position after the last document of a page
+export interface DocumentListCursor {
+  value: string | null; // ISO date or title; null for undated documents when sorting by date
+  id: string; // Tie-breaker between documents with the same sort value
+}
+
+export interface DocumentListOptions extends DocumentListFilters {
+  sort?: DocumentSortField; // Defaults to "date"
+  order?: "asc" | "desc"; // Defaults to "desc"
+  limit?: number; // Defaults to DEFAULT_DOCUMENT_PAGE_SIZE
+  cursor?: DocumentListCursor | null;
+}
+
+// Documents as listed - without the extracted text and embedding, which can be large
+export type DocumentListItem = Omit<Document, "extractedText" | "embedding">;
+
+export interface DocumentListPage {
+  documents: DocumentListItem[];
+  nextCursor: DocumentListCursor | null; // Null on the last page
+  total: number; // Documents matching the filters, across all pages
+}
+
+export interface DocumentFacets {
+  types: Record<string, number>;
+  providers: Array<{ provider: string; count: number }>; // Most documents first
+}
+
+/**
+ * Drop the heavy fields from a document
+ */
+export function toDocumentListItem(document: Document): DocumentListItem {
+  const { extractedText, embedding, ...item } = document;
+  return item;
+}
+
+/**
+ * The cursor pointing just after a document
+ */
+export function getDocumentCursor(document: DocumentListItem, sort: DocumentSortField): DocumentListCursor {
+  switch (sort) {
+    case "title":
+      return { value: document.title, id: document.id };
+    case "createdAt":
+      return { value: document.createdAt.toISOString(), id: document.id };
+    default:
+      return { value: document.date ? document.date.toISOString() : null, id: document.id };
+  }
+}
+
+/**
+ * Compare two list positions in list order
+ * Null sort values (undated documents) come last in both directions.
+ * @returns Negative if a is listed before b, positive if after, 0 if equal
+ */
+export function compareDocumentCursors(
+  a: DocumentListCursor,
+  b: DocumentListCursor,
+  order: "asc" | "desc"
+): number {
+  const direction = order === "asc" ? 1 : -1;
+
+  if (a.value !== b.value) {
+    if (a.value === null) return 1;
+    if (b.value === null) return -1;
+    return (a.value < b.value ? -1 : 1) * direction;
+  }
+  if (a.id === b.id) return 0;
+  return (a.id < b.id ? -1 : 1) * direction;
+}
+
+/**
+ * Count documents per type and per provider
+ * @param types - Types of the documents matching every filter except the type
+ * @param providers - Providers of the documents matching every filter except the provider
+ */
+export function buildDocumentFacets(types: string[], providers: Array<string | null>): DocumentFacets {
+  const typeCounts: Record<string, number> = {};
+  for (const type of types) {
+    typeCounts[type] = (typeCounts[type] ?? 0) + 1;
+  }
+
+  const providerCounts = new Map<string, number>();
+  for (const provider of providers) {
+    if (!provider) continue;
+    providerCounts.set(provider, (providerCounts.get(provider) ?? 0) + 1);
+  }
+
+  return {
+    types: typeCounts,
+    providers: Array.from(providerCounts.entries())
+      .map(([provider, count]) => ({ provider, count }))
+      .sort((a, b) => b.count - a.count || a.provider.localeCompare(b.provider)),
+  };
+}
+
+/**
+ * Encode a cursor for the API (opaque to clients)
+ * The sort field is included so a cursor can't be reused with a different sort.
+ */
+export function encodeDocumentCursor(cursor: DocumentListCursor, sort: DocumentSortField): string {
+  return Buffer.from(JSON.stringify([sort, cursor.value, cursor.id])).toString("base64url");
+}
+
+/**
+ * Decode a cursor from the API
+ * @returns The cursor, or null if it is malformed or was issued for a different sort
+ */
+export function decodeDocumentCursor(encoded: string, sort: DocumentSortField): DocumentListCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    if (
+      !Array.isArray(decoded) ||
+      decoded.length !== 3 ||
+      decoded[0] !== sort ||
+      (decoded[1] !== null && typeof decoded[1] !== "string") ||
+      typeof decoded[2] !== "string"
+    ) {
+      return null;
+    }
+    return { value: decoded[1], id: decoded[2] };
+  } catch {
+    return null;
+  }
+}
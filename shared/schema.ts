@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -60,6 +60,10 @@ export const documents = pgTable("documents", {
   fileUrl: text("file_url").notNull(), // Path to stored file
   fileType: text("file_type"), // 'PDF' | 'JPG' | 'PNG' | 'DICOM'
   fileSize: integer("file_size"), // Size in bytes
+  pageCount: integer("page_count"), // Pages in the file (1 for images), null until counted
+  contentHash: varchar("content_hash", { length: 64 }), // SHA-256 of the file contents (exact duplicate detection)
+  studyInstanceUid: varchar("study_instance_uid", { length: 64 }), // DICOM study this imaging document holds, null for other files
+  clientId: varchar("client_id", { length: 64 }), // Id the app gave an offline capture, so replayed uploads are not duplicated
   tags: text("tags"), // JSON array of tags
   syncStatus: varchar("sync_status", { length: 20 }).default("synced").notNull(), // 'synced' | 'pending'
   extractedText: text("extracted_text"), // OCR-extracted text from document
@@ -68,6 +72,25 @@ export const documents = pgTable("documents", {
   ocrProcessedAt: timestamp("ocr_processed_at"), // Timestamp when OCR was processed
   aiInsight: text("ai_insight"), // Cached AI insight stored as JSON string
   aiInsightGeneratedAt: timestamp("ai_insight_generated_at"), // Timestamp when AI insight was generated
+  deletedAt: timestamp("deleted_at"), // Set when moved to the trash; purged after the retention period
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Document processing jobs table - Persistent queue for OCR, embeddings and insights
+export const documentProcessingJobs = pgTable("document_processing_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").references(() => documents.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  status: varchar("status", { length: 20 }).default("queued").notNull(), // 'queued' | 'running' | 'failed' | 'rejected' | 'done'
+  stage: varchar("stage", { length: 20 }), // 'ocr' | 'validation' | 'metadata' | 'embedding' | 'medications' | 'observations' | 'expenses' | 'insight' | 'tasks' - last stage reached
+  autoImport: boolean("auto_import").default(false).notNull(), // Imported without review (ZIP entry, emailed attachment): fill in metadata, trash non-medical files
+  attempts: integer("attempts").default(0).notNull(), // Number of attempts started so far
+  maxAttempts: integer("max_attempts").default(3).notNull(),
+  lastError: text("last_error"), // Error message from the most recent failed attempt
+  runAt: timestamp("run_at").defaultNow().notNull(), // Earliest time the job may run (used for retry backoff)
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -78,10 +101,172 @@ export const documentVersions = pgTable("document_versions", {
   documentId: varchar("document_id").references(() => documents.id).notNull(),
   version: varchar("version", { length: 20 }).notNull(), // 'v1.0', 'v1.1', etc.
   fileUrl: text("file_url").notNull(),
+  fileType: text("file_type"), // 'PDF' | 'IMAGE' | 'DOCX' - type of this version's file
+  fileSize: integer("file_size"), // Size in bytes
+  contentHash: varchar("content_hash", { length: 64 }), // SHA-256 of the file contents
+  extractedText: text("extracted_text"), // OCR text of this version (used for version diffs)
   note: text("note"), // Version note
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// DICOM instances table - Image files of an imaging study; all files of a study belong to one document
+export const dicomInstances = pgTable("dicom_instances", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  documentId: varchar("document_id").references(() => documents.id).notNull(), // Imaging document of the study
+  studyInstanceUid: varchar("study_instance_uid", { length: 64 }).notNull(),
+  seriesInstanceUid: varchar("series_instance_uid", { length: 64 }).notNull(),
+  sopInstanceUid: varchar("sop_instance_uid", { length: 64 }).notNull(), // Unique per image - re-uploads are skipped
+  seriesNumber: integer("series_number"),
+  seriesDescription: text("series_description"), // e.g. "T2 AXIAL", "Chest PA"
+  instanceNumber: integer("instance_number"), // Position of the image in its series
+  modality: varchar("modality", { length: 16 }), // 'CT' | 'MR' | 'CR' | 'DX' | 'US' | ...
+  bodyPart: text("body_part"), // Body part examined, e.g. "HEAD", "CHEST"
+  rows: integer("rows"),
+  columns: integer("columns"),
+  frameCount: integer("frame_count").default(1).notNull(), // Multi-frame images (cine, ultrasound clips)
+  fileUrl: text("file_url").notNull(), // Stored (encrypted) .dcm file
+  fileSize: integer("file_size"), // Size in bytes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// User encryption keys table - Per-user data keys for encrypting vault files at rest
+export const userEncryptionKeys = pgTable("user_encryption_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull().unique(),
+  wrappedKey: text("wrapped_key").notNull(), // Data key encrypted with the master key (base64)
+  masterKeyId: varchar("master_key_id", { length: 16 }).notNull(), // Fingerprint of the master key that wrapped it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  rotatedAt: timestamp("rotated_at"), // Last time the key was re-wrapped with a new master key
+});
+
+// Lab observations table - Structured results parsed from lab reports (one row per analyte)
+export const labObservations = pgTable("lab_observations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  documentId: varchar("document_id").references(() => documents.id).notNull(), // Source lab report
+  analyte: text("analyte").notNull(), // Test name as printed, e.g. "Haemoglobin", "TSH"
+  value: text("value").notNull(), // Result as printed, e.g. "13.2", "<0.5", "Negative"
+  numericValue: doublePrecision("numeric_value"), // Parsed number, null for qualitative results
+  unit: text("unit"), // e.g. "g/dL", "mIU/L"
+  referenceRange: text("reference_range"), // As printed, e.g. "13.0 - 17.0"
+  referenceLow: doublePrecision("reference_low"), // Parsed lower bound of the reference range
+  referenceHigh: doublePrecision("reference_high"), // Parsed upper bound of the reference range
+  analyteCode: varchar("analyte_code", { length: 20 }), // Dictionary (LOINC-style) code, null if the test is not recognised
+  normalizedValue: doublePrecision("normalized_value"), // numericValue converted to the canonical unit
+  normalizedUnit: text("normalized_unit"), // Canonical unit of the analyte, e.g. "mg/dL"
+  normalizedReferenceLow: doublePrecision("normalized_reference_low"),
+  normalizedReferenceHigh: doublePrecision("normalized_reference_high"),
+  abnormalFlag: varchar("abnormal_flag", { length: 10 }), // 'normal' | 'low' | 'high' | 'abnormal' - null if unknown
+  specimenDate: timestamp("specimen_date"), // When the sample was collected
+  position: integer("position").default(0).notNull(), // Order of the row in the report
+  source: varchar("source", { length: 20 }).notNull(), // 'ai' | 'manual' - edited AI rows become 'manual'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Document annotations table - Personal notes on a document, optionally pinned to a highlighted page region
+export const documentAnnotations = pgTable("document_annotations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  documentId: varchar("document_id").references(() => documents.id).notNull(),
+  page: integer("page"), // 1-based page the highlight is on, null for a note about the whole document
+  // Highlighted region as fractions (0-1) of the page image, so it fits any rendered size
+  regionX: doublePrecision("region_x"),
+  regionY: doublePrecision("region_y"),
+  regionWidth: doublePrecision("region_width"),
+  regionHeight: doublePrecision("region_height"),
+  color: varchar("color", { length: 20 }).default("yellow").notNull(), // 'yellow' | 'red' | 'green' | 'blue'
+  note: text("note"), // e.g. "Ask doctor about this" - a highlight may have no text
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Document redactions table - Copy of a document with personal details blacked out, served to consents instead of the original
+export const documentRedactions = pgTable("document_redactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  documentId: varchar("document_id").references(() => documents.id).notNull().unique(), // One redaction per document
+  regions: text("regions").notNull(), // JSON array of { page, x, y, width, height, label, source } - fractions (0-1) of the page image
+  fileUrl: text("file_url").notNull(), // Stored (encrypted) redacted file - pages are flattened to images, so no hidden text survives
+  fileType: varchar("file_type", { length: 20 }).notNull(), // 'PDF' | 'JPG'
+  sourceContentHash: varchar("source_content_hash", { length: 64 }), // Content hash of the file that was redacted; a new version makes the redaction outdated
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Data exports table - Portable archives of a user's whole vault (data portability)
+export const dataExports = pgTable("data_exports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  status: varchar("status", { length: 20 }).default("queued").notNull(), // 'queued' | 'running' | 'done' | 'failed'
+  fileUrl: text("file_url"), // Stored (encrypted) ZIP archive, set when done
+  fileSize: integer("file_size"), // Archive size in bytes
+  documentCount: integer("document_count"), // Number of documents in the archive
+  error: text("error"), // Error message if the export failed
+  expiresAt: timestamp("expires_at"), // Archive is deleted after this
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Inbound email addresses table - Private address per user for emailing documents into the vault
+export const inboundEmailAddresses = pgTable("inbound_email_addresses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull().unique(),
+  token: text("token").notNull().unique(), // Local part of the address (<token>@<inbound domain>)
+  trustedSenders: text("trusted_senders").notNull(), // JSON array of lowercase sender addresses imported without review
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Inbound email items table - One row per attachment received on an inbound address
+export const inboundEmailItems = pgTable("inbound_email_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  sender: text("sender").notNull(), // Lowercase From address (not authenticated)
+  senderName: text("sender_name"), // Display name from the From header
+  subject: text("subject"),
+  messageId: text("message_id"), // Message-ID header, used to ignore redelivered mail
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  fileSize: integer("file_size").notNull(), // Bytes
+  fileUrl: text("file_url"), // Stored (encrypted) attachment, removed once imported or discarded
+  contentHash: varchar("content_hash", { length: 64 }).notNull(), // SHA-256 of the attachment
+  status: varchar("status", { length: 20 }).default("review").notNull(), // 'review' | 'queued' | 'imported' | 'skipped' | 'rejected' | 'failed'
+  documentId: varchar("document_id").references(() => documents.id), // Set when imported (the duplicate when skipped, the trashed document when rejected)
+  reason: text("reason"), // Why the item was skipped, rejected or failed
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Collections table - User-defined folders (e.g. "Knee surgery 2025") grouping documents, medications and notes
+export const collections = pgTable("collections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  color: varchar("color", { length: 20 }), // Optional UI accent, e.g. 'blue' | 'green'
+  position: integer("position").default(0).notNull(), // Order in the user's collection list
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Collection items table - Entries of a collection; a document or medication can be in several collections
+export const collectionItems = pgTable("collection_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  collectionId: varchar("collection_id").references(() => collections.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  itemType: varchar("item_type", { length: 20 }).notNull(), // 'document' | 'medication' | 'note'
+  documentId: varchar("document_id").references(() => documents.id), // Set for 'document' items
+  medicationId: varchar("medication_id").references(() => medications.id), // Set for 'medication' items
+  note: text("note"), // Text of 'note' items
+  position: integer("position").default(0).notNull(), // Order within the collection
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Consents table - For managing document sharing and access permissions
 export const consents = pgTable("consents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -89,6 +274,8 @@ export const consents = pgTable("consents", {
   recipientName: text("recipient_name").notNull(),
   recipientRole: varchar("recipient_role", { length: 50 }).notNull(), // 'doctor' | 'lab' | 'insurance' | 'family' | 'other'
   scopes: text("scopes").notNull(), // JSON array: ['documents', 'emergency', 'insights', 'timeline']
+  collectionId: varchar("collection_id").references(() => collections.id), // Limits shared documents to one collection
+  includeAnnotations: boolean("include_annotations").default(false).notNull(), // Share the user's notes and highlights with the documents
   durationType: varchar("duration_type", { length: 20 }).notNull(), // '24h' | '7d' | 'custom'
   customExpiryDate: timestamp("custom_expiry_date"), // Only used when durationType is 'custom'
   purpose: text("purpose").notNull(),
@@ -171,6 +358,45 @@ export const medicationReminders = pgTable("medication_reminders", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Health tasks table - Follow-up actions such as "review after 2 weeks", extracted from documents or added by the user
+export const healthTasks = pgTable("health_tasks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  title: text("title").notNull(), // e.g., "Repeat lipid profile"
+  notes: text("notes"),
+  dueDate: timestamp("due_date"), // Nullable for tasks without a deadline
+  remindAt: timestamp("remind_at"), // When to send the reminder; null for no reminder
+  reminderSentAt: timestamp("reminder_sent_at"), // Set when the reminder is sent, cleared when it is rescheduled
+  status: varchar("status", { length: 20 }).default("pending").notNull(), // 'pending' | 'completed' | 'dismissed'
+  source: varchar("source", { length: 20 }).notNull(), // 'document' | 'manual'
+  sourceDocumentId: varchar("source_document_id").references(() => documents.id), // Nullable, only for extracted tasks
+  sourceText: text("source_text"), // Instruction the task was extracted from
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Expenses table - Medical expenses parsed from billing documents or added by the user (80D claims, reimbursement)
+export const expenses = pgTable("expenses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  documentId: varchar("document_id").references(() => documents.id), // Source bill, null for manual entries
+  payee: text("payee").notNull(), // Hospital, pharmacy, lab or insurer that was paid
+  description: text("description"), // e.g. "Consultation - Dr. Rao"
+  category: varchar("category", { length: 30 }).default("other").notNull(), // 'consultation' | 'diagnostics' | 'medicines' | 'hospitalization' | 'insurance_premium' | 'preventive_checkup' | 'other'
+  amount: doublePrecision("amount").notNull(), // Total paid, including GST
+  gstAmount: doublePrecision("gst_amount"), // GST included in the amount, null if not shown on the bill
+  currency: varchar("currency", { length: 3 }).default("INR").notNull(),
+  payer: text("payer"), // Who paid or was billed, e.g. the patient's name or "Self"
+  paymentDate: timestamp("payment_date").notNull(), // Bill or payment date
+  invoiceNumber: text("invoice_number"),
+  reimbursementStatus: varchar("reimbursement_status", { length: 20 }).default("none").notNull(), // 'none' | 'claimed' | 'reimbursed'
+  notes: text("notes"),
+  source: varchar("source", { length: 20 }).notNull(), // 'ai' | 'manual' - edited AI rows become 'manual'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Push subscriptions table - For browser push notifications
 export const pushSubscriptions = pgTable("push_subscriptions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -240,6 +466,9 @@ export const insertDocumentSchema = createInsertSchema(documents).pick({
   fileUrl: true,
   fileType: true,
   fileSize: true,
+  contentHash: true,
+  studyInstanceUid: true,
+  clientId: true,
   tags: true,
   syncStatus: true,
   extractedText: true,
@@ -250,19 +479,149 @@ export const insertDocumentSchema = createInsertSchema(documents).pick({
   aiInsightGeneratedAt: true,
 });
 
+export const insertDocumentProcessingJobSchema = createInsertSchema(documentProcessingJobs).pick({
+  documentId: true,
+  userId: true,
+  status: true,
+  maxAttempts: true,
+  runAt: true,
+  autoImport: true,
+});
+
 export const insertDocumentVersionSchema = createInsertSchema(documentVersions).pick({
   documentId: true,
   version: true,
   fileUrl: true,
+  fileType: true,
+  fileSize: true,
+  contentHash: true,
+  extractedText: true,
+  note: true,
+});
+
+export const insertDicomInstanceSchema = createInsertSchema(dicomInstances).pick({
+  userId: true,
+  documentId: true,
+  studyInstanceUid: true,
+  seriesInstanceUid: true,
+  sopInstanceUid: true,
+  seriesNumber: true,
+  seriesDescription: true,
+  instanceNumber: true,
+  modality: true,
+  bodyPart: true,
+  rows: true,
+  columns: true,
+  frameCount: true,
+  fileUrl: true,
+  fileSize: true,
+});
+
+export const insertUserEncryptionKeySchema = createInsertSchema(userEncryptionKeys).pick({
+  userId: true,
+  wrappedKey: true,
+  masterKeyId: true,
+});
+
+export const insertLabObservationSchema = createInsertSchema(labObservations).pick({
+  userId: true,
+  documentId: true,
+  analyte: true,
+  value: true,
+  numericValue: true,
+  unit: true,
+  referenceRange: true,
+  referenceLow: true,
+  referenceHigh: true,
+  analyteCode: true,
+  normalizedValue: true,
+  normalizedUnit: true,
+  normalizedReferenceLow: true,
+  normalizedReferenceHigh: true,
+  abnormalFlag: true,
+  specimenDate: true,
+  position: true,
+  source: true,
+});
+
+export const insertDocumentAnnotationSchema = createInsertSchema(documentAnnotations).pick({
+  userId: true,
+  documentId: true,
+  page: true,
+  regionX: true,
+  regionY: true,
+  regionWidth: true,
+  regionHeight: true,
+  color: true,
   note: true,
 });
 
+export const insertDocumentRedactionSchema = createInsertSchema(documentRedactions).pick({
+  userId: true,
+  documentId: true,
+  regions: true,
+  fileUrl: true,
+  fileType: true,
+  sourceContentHash: true,
+});
+
+export const insertDataExportSchema = createInsertSchema(dataExports).pick({
+  userId: true,
+  status: true,
+});
+
+// Inbound email address schema validation
+export const insertInboundEmailAddressSchema = createInsertSchema(inboundEmailAddresses).pick({
+  userId: true,
+  token: true,
+  trustedSenders: true,
+});
+
+// Inbound email item schema validation
+export const insertInboundEmailItemSchema = createInsertSchema(inboundEmailItems).pick({
+  userId: true,
+  sender: true,
+  senderName: true,
+  subject: true,
+  messageId: true,
+  fileName: true,
+  mimeType: true,
+  fileSize: true,
+  fileUrl: true,
+  contentHash: true,
+  status: true,
+  documentId: true,
+  reason: true,
+  processedAt: true,
+});
+
+// Collection schema validation
+export const insertCollectionSchema = createInsertSchema(collections).pick({
+  userId: true,
+  name: true,
+  description: true,
+  color: true,
+  position: true,
+});
+
+export const insertCollectionItemSchema = createInsertSchema(collectionItems).pick({
+  collectionId: true,
+  userId: true,
+  itemType: true,
+  documentId: true,
+  medicationId: true,
+  note: true,
+  position: true,
+});
+
 // Consent schema validation
 export const insertConsentSchema = createInsertSchema(consents).pick({
   userId: true,
   recipientName: true,
   recipientRole: true,
   scopes: true,
+  collectionId: true,
+  includeAnnotations: true,
   durationType: true,
   customExpiryDate: true,
   purpose: true,
@@ -331,6 +690,39 @@ export const insertMedicationReminderSchema = createInsertSchema(medicationRemin
   sentAt: true,
 });
 
+// Health task schema validation
+export const insertHealthTaskSchema = createInsertSchema(healthTasks).pick({
+  userId: true,
+  title: true,
+  notes: true,
+  dueDate: true,
+  remindAt: true,
+  reminderSentAt: true,
+  status: true,
+  source: true,
+  sourceDocumentId: true,
+  sourceText: true,
+  completedAt: true,
+});
+
+// Expense schema validation
+export const insertExpenseSchema = createInsertSchema(expenses).pick({
+  userId: true,
+  documentId: true,
+  payee: true,
+  description: true,
+  category: true,
+  amount: true,
+  gstAmount: true,
+  currency: true,
+  payer: true,
+  paymentDate: true,
+  invoiceNumber: true,
+  reimbursementStatus: true,
+  notes: true,
+  source: true,
+});
+
 // Push subscription schema validation
 export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).pick({
   userId: true,
@@ -362,8 +754,30 @@ export type Session = typeof sessions.$inferSelect;
 export type InsertSession = z.infer<typeof insertSessionSchema>;
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
+export type DocumentProcessingJob = typeof documentProcessingJobs.$inferSelect;
+export type InsertDocumentProcessingJob = z.infer<typeof insertDocumentProcessingJobSchema>;
 export type DocumentVersion = typeof documentVersions.$inferSelect;
 export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
+export type DicomInstance = typeof dicomInstances.$inferSelect;
+export type InsertDicomInstance = z.infer<typeof insertDicomInstanceSchema>;
+export type UserEncryptionKey = typeof userEncryptionKeys.$inferSelect;
+export type InsertUserEncryptionKey = z.infer<typeof insertUserEncryptionKeySchema>;
+export type LabObservation = typeof labObservations.$inferSelect;
+export type InsertLabObservation = z.infer<typeof insertLabObservationSchema>;
+export type DocumentAnnotation = typeof documentAnnotations.$inferSelect;
+export type InsertDocumentAnnotation = z.infer<typeof insertDocumentAnnotationSchema>;
+export type DocumentRedaction = typeof documentRedactions.$inferSelect;
+export type InsertDocumentRedaction = z.infer<typeof insertDocumentRedactionSchema>;
+export type DataExport = typeof dataExports.$inferSelect;
+export type InsertDataExport = z.infer<typeof insertDataExportSchema>;
+export type InboundEmailAddress = typeof inboundEmailAddresses.$inferSelect;
+export type InsertInboundEmailAddress = z.infer<typeof insertInboundEmailAddressSchema>;
+export type InboundEmailItem = typeof inboundEmailItems.$inferSelect;
+export type InsertInboundEmailItem = z.infer<typeof insertInboundEmailItemSchema>;
+export type Collection = typeof collections.$inferSelect;
+export type InsertCollection = z.infer<typeof insertCollectionSchema>;
+export type CollectionItem = typeof collectionItems.$inferSelect;
+export type InsertCollectionItem = z.infer<typeof insertCollectionItemSchema>;
 export type Consent = typeof consents.$inferSelect;
 export type InsertConsent = z.infer<typeof insertConsentSchema>;
 export type ConsentAuditLog = typeof consentAuditLogs.$inferSelect;
@@ -376,6 +790,10 @@ export type Medication = typeof medications.$inferSelect;
 export type InsertMedication = z.infer<typeof insertMedicationSchema>;
 export type MedicationReminder = typeof medicationReminders.$inferSelect;
 export type InsertMedicationReminder = z.infer<typeof insertMedicationReminderSchema>;
+export type HealthTask = typeof healthTasks.$inferSelect;
+export type InsertHealthTask = z.infer<typeof insertHealthTaskSchema>;
+export type Expense = typeof expenses.$inferSelect;
+export type InsertExpense = z.infer<typeof insertExpenseSchema>;
 export type PushSubscription = typeof pushSubscriptions.$inferSelect;
 export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
 export type ChatConversation = typeof chatConversations.$inferSelect;